@@ -0,0 +1,471 @@
+/**
+ * APIキーの管理とレート制限(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. APIキーをハッシュ値だけで保存する方法(漏えいしてもキーを復元できない)
+ * 2. トークンバケット方式のレート制限
+ * 3. DynamoDBの条件付き書き込みを使った、複数のLambdaで共有するカウンター
+ *
+ * APIキーの形式：
+ * ik_<keyId>_<secret>
+ * - keyId: レコードを探すためのID(16進数16文字)。ログや管理画面に表示してよい
+ * - secret: 推測できない乱数。サーバーには保存しない
+ *
+ * 保存するレコードの例：
+ * {
+ *   "keyId": "3f2a9c1b7e4d8a60",
+ *   "keyHash": "9f86d081...",
+ *   "name": "partner-a",
+ *   "ownerId": "apikey:3f2a9c1b7e4d8a60",
+ *   "tenantId": "acme",
+ *   "rateLimit": { "capacity": 60, "refillPerSecond": 1 },
+ *   "createdAt": "2025-10-21T10:30:00.000Z",
+ *   "tokens": 42.5,
+ *   "tokensUpdatedAt": 1729506630123
+ * }
+ */
+
+import {
+    DynamoDBDocumentClient,
+    PutCommand,
+    GetCommand,
+    UpdateCommand,
+    ScanCommand,
+    QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { DEFAULT_TENANT_ID } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * APIキーの保存先の設定
+ */
+export interface ApiKeyOptions {
+    /** 保存先のDynamoDBテーブル名 */
+    tableName: string;
+}
+
+/**
+ * トークンバケットの設定
+ *
+ * - capacity: バケットの容量(連続して送れるリクエスト数の上限)
+ * - refillPerSecond: 1秒あたりに補充されるトークン数(平均のリクエスト数の上限)
+ */
+export interface RateLimit {
+    capacity: number;
+    refillPerSecond: number;
+}
+
+/**
+ * APIキーの情報(クライアントに返してよい項目だけ)
+ */
+export interface ApiKey {
+    keyId: string;
+    name: string;
+    /** このキーで作成したアイテムの ownerId */
+    ownerId: string;
+    /** このキーで読み書きできるテナント(テナントを導入する前に発行したキーにはない。デフォルトのテナントとして扱う) */
+    tenantId?: string;
+    rateLimit: RateLimit;
+    createdAt: string;
+    revokedAt?: string;
+}
+
+/**
+ * 保存されているAPIキーのレコード
+ */
+export interface ApiKeyRecord extends ApiKey {
+    keyHash: string;
+    /** バケットに残っているトークン数(小数もある) */
+    tokens?: number;
+    /** tokens を更新した時刻(UNIX時間のミリ秒) */
+    tokensUpdatedAt?: number;
+}
+
+/**
+ * レート制限の判定結果
+ *
+ * - allowed: リクエストを処理してよいか
+ * - remaining: 残りのトークン数(X-RateLimit-Remaining)
+ * - resetSeconds: バケットが満タンに戻るまでの秒数(X-RateLimit-Reset)
+ * - retryAfterSeconds: 次のリクエストを送れるまでの秒数(Retry-After。allowed が false の場合だけ)
+ */
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetSeconds: number;
+    retryAfterSeconds?: number;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * APIキーの形式(ik_ + 16進数16文字 + _ + base64url)
+ */
+const API_KEY_PATTERN = /^ik_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * トークンの更新が競合した場合に読み直す回数
+ */
+const MAX_CONSUME_ATTEMPTS = 3;
+
+/**
+ * テナントごとのキーを探すインデックス(template.yaml の ApiKeysTable の ByTenant)
+ */
+const TENANT_INDEX_NAME = 'ByTenant';
+
+// ========================================
+// APIキーの操作
+// ========================================
+/**
+ * APIキーのハッシュ値を作る
+ *
+ * 学習ポイント：
+ * - APIキーは十分に長い乱数なので、パスワードと違い bcrypt などの遅いハッシュは不要
+ * - データベースが漏えいしても、ハッシュ値からキーは復元できない
+ *
+ * @param apiKey - APIキー
+ * @returns SHA-256のハッシュ値(16進数)
+ */
+export function hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * APIキーを発行して保存する
+ *
+ * 学習ポイント：
+ * - キーそのものは発行時のレスポンスで1回だけ返し、保存するのはハッシュ値だけ
+ * - keyId が(まれに)重複した場合は上書きせず、条件付き書き込みのエラーにする
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param input - キーの名前、ownerId(省略時は apikey:<keyId>)、テナント、レート制限
+ * @returns 発行したキーの情報とAPIキー
+ */
+export async function createApiKey(
+    client: DynamoDBDocumentClient,
+    options: ApiKeyOptions,
+    input: { name: string; ownerId?: string; tenantId: string; rateLimit: RateLimit }
+): Promise<{ apiKey: string; key: ApiKey }> {
+    const keyId = randomBytes(8).toString('hex');
+    const apiKey = `ik_${keyId}_${randomBytes(32).toString('base64url')}`;
+    const key: ApiKey = {
+        keyId,
+        name: input.name,
+        ownerId: input.ownerId ?? `apikey:${keyId}`,
+        tenantId: input.tenantId,
+        rateLimit: input.rateLimit,
+        createdAt: new Date().toISOString(),
+    };
+
+    await client.send(
+        new PutCommand({
+            TableName: options.tableName,
+            Item: { ...key, keyHash: hashApiKey(apiKey) },
+            ConditionExpression: 'attribute_not_exists(keyId)',
+        })
+    );
+    return { apiKey, key };
+}
+
+/**
+ * APIキーを検証し、有効なキーのレコードを返す
+ *
+ * 学習ポイント：
+ * - keyId でレコードを1件だけ読み、ハッシュ値を比較する(全件を探す必要がない)
+ * - ハッシュ値の比較には timingSafeEqual を使い、比較にかかる時間から値を推測されないようにする
+ * - レート制限の判定に使うため、最新の tokens を強い整合性の読み込みで取得する
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param apiKey - X-Api-Key ヘッダーの値
+ * @returns 有効なキーのレコード。形式が不正・存在しない・失効している場合はundefined
+ */
+export async function findApiKey(
+    client: DynamoDBDocumentClient,
+    options: ApiKeyOptions,
+    apiKey: string
+): Promise<ApiKeyRecord | undefined> {
+    const match = API_KEY_PATTERN.exec(apiKey);
+    if (!match) {
+        return undefined;
+    }
+
+    const response = await client.send(
+        new GetCommand({
+            TableName: options.tableName,
+            Key: { keyId: match[1] },
+            ConsistentRead: true,
+        })
+    );
+    const record = response.Item as ApiKeyRecord | undefined;
+    if (!record || record.revokedAt !== undefined) {
+        return undefined;
+    }
+
+    const expected = Buffer.from(record.keyHash, 'hex');
+    const actual = Buffer.from(hashApiKey(apiKey), 'hex');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return undefined;
+    }
+    return record;
+}
+
+/**
+ * APIキーの一覧を取得する
+ *
+ * 学習ポイント：
+ * - tenantId を指定した場合は ByTenant インデックス(tenantId + createdAt)を Query し、
+ *   他のテナントのキーを読まない(テナントが増えても読む量が増えない)
+ * - tenantId のない古いキーはインデックスに入らない(スパースインデックス)ため、
+ *   デフォルトのテナントの場合だけ tenantId のないキーを Scan で探して加える
+ * - tenantId を省略した場合は Scan で全件を読む(1MBを超える場合は LastEvaluatedKey で続きを読む)
+ * - ハッシュ値やトークンの状態はレスポンスに含めない
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param tenantId - 一覧にするキーのテナント(省略時はすべてのテナント)
+ * @returns APIキーの一覧(作成日時の順)
+ */
+export async function listApiKeys(
+    client: DynamoDBDocumentClient,
+    options: ApiKeyOptions,
+    tenantId?: string
+): Promise<ApiKey[]> {
+    const records = await readAllPages<ApiKeyRecord>((exclusiveStartKey) =>
+        tenantId === undefined
+            ? client.send(new ScanCommand({ TableName: options.tableName, ExclusiveStartKey: exclusiveStartKey }))
+            : client.send(
+                  new QueryCommand({
+                      TableName: options.tableName,
+                      IndexName: TENANT_INDEX_NAME,
+                      KeyConditionExpression: 'tenantId = :tenantId',
+                      ExpressionAttributeValues: { ':tenantId': tenantId },
+                      ExclusiveStartKey: exclusiveStartKey,
+                  })
+              )
+    );
+    if (tenantId === DEFAULT_TENANT_ID) {
+        const legacyRecords = await readAllPages<ApiKeyRecord>((exclusiveStartKey) =>
+            client.send(
+                new ScanCommand({
+                    TableName: options.tableName,
+                    FilterExpression: 'attribute_not_exists(tenantId)',
+                    ExclusiveStartKey: exclusiveStartKey,
+                })
+            )
+        );
+        records.push(...legacyRecords);
+    }
+
+    return records.map(toApiKey).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * APIキーを失効させる
+ *
+ * 学習ポイント：
+ * - レコードは削除せずに revokedAt を記録する(いつ誰のキーを止めたかを残す)
+ * - 存在しないキーは条件付き書き込みで検出する
+ * - tenantId を指定した場合、他のテナントのキーも存在しないキーとして扱う
+ *   (tenantId のない古いキーはデフォルトのテナントのキー)
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param keyId - 失効させるキーのID
+ * @param tenantId - 失効させてよいキーのテナント(省略時はすべてのテナント)
+ * @returns 失効させたキーの情報。存在しない場合はundefined
+ */
+export async function revokeApiKey(
+    client: DynamoDBDocumentClient,
+    options: ApiKeyOptions,
+    keyId: string,
+    tenantId?: string
+): Promise<ApiKey | undefined> {
+    let condition = 'attribute_exists(keyId)';
+    if (tenantId !== undefined) {
+        condition +=
+            tenantId === DEFAULT_TENANT_ID
+                ? ' AND (tenantId = :tenantId OR attribute_not_exists(tenantId))'
+                : ' AND tenantId = :tenantId';
+    }
+
+    try {
+        const response = await client.send(
+            new UpdateCommand({
+                TableName: options.tableName,
+                Key: { keyId },
+                UpdateExpression: 'SET revokedAt = if_not_exists(revokedAt, :now)',
+                ConditionExpression: condition,
+                ExpressionAttributeValues: {
+                    ':now': new Date().toISOString(),
+                    ...(tenantId === undefined ? {} : { ':tenantId': tenantId }),
+                },
+                ReturnValues: 'ALL_NEW',
+            })
+        );
+        return toApiKey(response.Attributes as ApiKeyRecord);
+    } catch (err) {
+        if ((err as { name?: string } | null)?.name === 'ConditionalCheckFailedException') {
+            return undefined;
+        }
+        throw err;
+    }
+}
+
+// ========================================
+// レート制限(トークンバケット)
+// ========================================
+/**
+ * トークンを1つ消費する(リクエストを処理してよいかを判定する)
+ *
+ * トークンバケットの考え方：
+ * - バケットには最大 capacity 個のトークンが入り、1秒ごとに refillPerSecond 個ずつ補充される
+ * - リクエストのたびに1つ消費し、トークンがなければ 429 Too Many Requests にする
+ * - 短時間の集中(バースト)は capacity まで許し、長い目で見た平均は refillPerSecond に抑えられる
+ *
+ * 学習ポイント：
+ * - 補充は時間の経過から計算するため、タイマーで補充する処理は不要
+ * - 「読んだときの tokensUpdatedAt のままなら書き込む」条件付き書き込みで、
+ *   同時に届いたリクエストが同じトークンを二重に使うことを防ぐ
+ * - 競合した場合は読み直して再計算する(楽観的排他制御)
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param record - findApiKey で取得したレコード
+ * @param now - 現在時刻(UNIX時間のミリ秒)
+ * @returns 判定結果
+ */
+export async function consumeRateLimitToken(
+    client: DynamoDBDocumentClient,
+    options: ApiKeyOptions,
+    record: ApiKeyRecord,
+    now: number = Date.now()
+): Promise<RateLimitResult> {
+    const { capacity, refillPerSecond } = record.rateLimit;
+    let current: ApiKeyRecord = record;
+
+    for (let attempt = 1; attempt <= MAX_CONSUME_ATTEMPTS; attempt++) {
+        const tokens = refillTokens(current, now);
+
+        if (tokens < 1) {
+            return {
+                allowed: false,
+                limit: capacity,
+                remaining: 0,
+                resetSeconds: Math.ceil((capacity - tokens) / refillPerSecond),
+                retryAfterSeconds: Math.ceil((1 - tokens) / refillPerSecond),
+            };
+        }
+
+        try {
+            await client.send(
+                new UpdateCommand({
+                    TableName: options.tableName,
+                    Key: { keyId: record.keyId },
+                    UpdateExpression: 'SET tokens = :tokens, tokensUpdatedAt = :now',
+                    ConditionExpression:
+                        current.tokensUpdatedAt === undefined
+                            ? 'attribute_exists(keyId) AND attribute_not_exists(tokensUpdatedAt)'
+                            : 'tokensUpdatedAt = :previous',
+                    ExpressionAttributeValues: {
+                        ':tokens': tokens - 1,
+                        ':now': now,
+                        ...(current.tokensUpdatedAt === undefined ? {} : { ':previous': current.tokensUpdatedAt }),
+                    },
+                })
+            );
+            return {
+                allowed: true,
+                limit: capacity,
+                remaining: Math.floor(tokens - 1),
+                resetSeconds: Math.ceil((capacity - (tokens - 1)) / refillPerSecond),
+            };
+        } catch (err) {
+            if ((err as { name?: string } | null)?.name !== 'ConditionalCheckFailedException') {
+                throw err;
+            }
+        }
+
+        // 他のリクエストが先に消費した: 最新の状態を読み直す
+        const response = await client.send(
+            new GetCommand({
+                TableName: options.tableName,
+                Key: { keyId: record.keyId },
+                ConsistentRead: true,
+            })
+        );
+        current = (response.Item as ApiKeyRecord | undefined) ?? current;
+    }
+
+    // 競合が続くほどリクエストが集中している: 少し待ってから再送してもらう
+    return { allowed: false, limit: capacity, remaining: 0, resetSeconds: 1, retryAfterSeconds: 1 };
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 経過時間に応じて補充したあとのトークン数を計算する
+ *
+ * 学習ポイント：
+ * - 初めてのリクエスト(tokens がない)はバケットが満タンの状態から始める
+ * - 時計のずれで経過時間がマイナスになっても、トークンは減らさない
+ *
+ * @param record - APIキーのレコード
+ * @param now - 現在時刻(UNIX時間のミリ秒)
+ * @returns トークン数(capacity が上限)
+ */
+function refillTokens(record: ApiKeyRecord, now: number): number {
+    const { capacity, refillPerSecond } = record.rateLimit;
+    if (record.tokens === undefined || record.tokensUpdatedAt === undefined) {
+        return capacity;
+    }
+    const elapsedSeconds = Math.max(0, now - record.tokensUpdatedAt) / 1000;
+    return Math.min(capacity, record.tokens + elapsedSeconds * refillPerSecond);
+}
+
+/**
+ * Scan / Query の結果を、LastEvaluatedKey がなくなるまで続けて読む
+ *
+ * @param readPage - ExclusiveStartKey を受け取って1ページ分を読む関数
+ * @returns すべてのページのレコード
+ */
+async function readAllPages<T>(
+    readPage: (
+        exclusiveStartKey: Record<string, any> | undefined
+    ) => Promise<{ Items?: Record<string, any>[]; LastEvaluatedKey?: Record<string, any> }>
+): Promise<T[]> {
+    const records: T[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+        const response = await readPage(exclusiveStartKey);
+        records.push(...((response.Items ?? []) as T[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return records;
+}
+
+/**
+ * レコードからクライアントに返してよい項目だけを取り出す
+ *
+ * @param record - APIキーのレコード
+ * @returns APIキーの情報
+ */
+function toApiKey(record: ApiKeyRecord): ApiKey {
+    const { keyId, name, ownerId, tenantId, rateLimit, createdAt, revokedAt } = record;
+    return {
+        keyId,
+        name,
+        ownerId,
+        ...(tenantId === undefined ? {} : { tenantId }),
+        rateLimit,
+        createdAt,
+        ...(revokedAt === undefined ? {} : { revokedAt }),
+    };
+}
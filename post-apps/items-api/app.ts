@@ -10,15 +10,89 @@
  * 
  * === 学習の進め方 ===
  * ステップ1: lambdaHandler から読み始める
- * ステップ2: HTTPメソッドによる分岐を理解する
+ * ステップ2: ルーティングテーブル(ROUTES)による振り分けを理解する
  * ステップ3: 各関数の役割を確認する
  * ステップ4: 実際にデプロイして動かしてみる
  */
 
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { S3Client } from '@aws-sdk/client-s3';
 import { randomUUID } from 'crypto';
+import { loadSchema, validateItem, findReservedFields, ValidationError } from './schema';
+import { logger, runWithLogContext, setLogContext } from './logger';
+import {
+    hashRequest,
+    startIdempotentRequest,
+    completeIdempotentRequest,
+    releaseIdempotentRequest,
+    IdempotencyOptions,
+    IdempotencyStartResult,
+} from './idempotency';
+import {
+    ItemRepository,
+    ListFilters,
+    ConditionFailedError,
+    InvalidCursorError,
+    isExpired,
+    DEFAULT_TENANT_ID,
+} from './repository';
+import { createDynamoDBItemRepository } from './dynamodb-repository';
+import { createInMemoryItemRepository } from './memory-repository';
+import { createAuthenticator, Authenticator, AuthenticationError, JsonWebKeySet, Principal } from './auth';
+import {
+    createApiKey,
+    findApiKey,
+    listApiKeys,
+    revokeApiKey,
+    consumeRateLimitToken,
+    ApiKeyOptions,
+    ApiKeyRecord,
+    RateLimit,
+    RateLimitResult,
+} from './api-keys';
+import { loadCorsOptions, createCorsHeaders, checkPreflight, CorsOptions } from './cors';
+import { createRouter, Route } from './router';
+import { resolveTenant, splitTenantPath, TENANT_HEADER } from './tenant';
+import { classifyDynamoDBError, DynamoDBErrorClassification } from './dynamodb-errors';
+import { createRetryingRepository, loadRetryOptions, RetryOptions } from './retry';
+import { ChangeContext, HistoryEntry, HistoryQuery, reconstructItem } from './history';
+import {
+    createProblem,
+    toLegacyError,
+    selectErrorFormat,
+    loadErrorFormat,
+    ErrorCode,
+    ErrorFormat,
+    ProblemDetails,
+    PROBLEM_MEDIA_TYPE,
+} from './problem';
+import { createOpenApiDocument, DocumentedRoute, OpenApiDocument } from './openapi';
+import {
+    belongsToTenant,
+    createDynamoDBWebhookStore,
+    createInMemoryWebhookStore,
+    createWebhookId,
+    createWebhookSecret,
+    toWebhook,
+    validateWebhookUrl,
+    WebhookRecord,
+    WebhookStore,
+    MAX_WEBHOOK_DESCRIPTION_LENGTH,
+    MAX_WEBHOOK_SECRET_LENGTH,
+    MIN_WEBHOOK_SECRET_LENGTH,
+    WEBHOOK_EVENT_TYPES,
+} from './webhooks';
+import {
+    createAttachmentKey,
+    createS3AttachmentStorage,
+    createUploadHeaders,
+    loadAttachmentOptions,
+    validateAttachmentInput,
+    Attachment,
+    AttachmentStorage,
+} from './attachments';
 
 // ========================================
 // 設定値の定数定義
@@ -33,11 +107,22 @@ import { randomUUID } from 'crypto';
 const HTTP_STATUS = {
     OK: 200,
     CREATED: 201,
+    NO_CONTENT: 204,
+    NOT_MODIFIED: 304,
     BAD_REQUEST: 400,
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
     NOT_FOUND: 404,
     METHOD_NOT_ALLOWED: 405,
+    CONFLICT: 409,
+    GONE: 410,
+    PRECONDITION_FAILED: 412,
+    UNPROCESSABLE_ENTITY: 422,
+    PAYLOAD_TOO_LARGE: 413,
+    TOO_MANY_REQUESTS: 429,
     INTERNAL_SERVER_ERROR: 500,
     SERVICE_UNAVAILABLE: 503,
+    GATEWAY_TIMEOUT: 504,
 } as const;
 
 /**
@@ -48,12 +133,151 @@ const HTTP_STATUS = {
  * - デフォルト値の設定方法
  */
 const CONFIG = {
-    TABLE_NAME: process.env.TABLE_NAME || 'Items',
+    TABLE_NAME: process.env.TABLE_NAME || 'TenantItems',
+    // アイテムの変更履歴を保存するテーブル
+    HISTORY_TABLE_NAME: process.env.HISTORY_TABLE_NAME || 'TenantItemsHistory',
+    // アイテムの保存先('dynamodb' または 'memory')
+    ITEM_STORAGE: process.env.ITEM_STORAGE || 'dynamodb',
+    // DynamoDB Local などに接続する場合のエンドポイント(未設定ならAWSのDynamoDB)
+    DYNAMODB_ENDPOINT: process.env.DYNAMODB_ENDPOINT,
     MAX_ID_LENGTH: 255,
+    DEFAULT_PAGE_LIMIT: 20,
+    MAX_PAGE_LIMIT: 100,
+    MAX_BATCH_ITEMS: 100,
+    BATCH_WRITE_CHUNK_SIZE: 25,
+    // 一括作成で、変更履歴を同時に問い合わせる件数の上限
+    HISTORY_LOOKUP_CONCURRENCY: 10,
+    // アイテムの有効期限(expiresAt / ttlSeconds)として指定できる最長の期間(1年)
+    MAX_ITEM_TTL_SECONDS: 365 * 24 * 60 * 60,
+    IDEMPOTENCY_TABLE_NAME: process.env.IDEMPOTENCY_TABLE_NAME || 'ItemsIdempotency',
+    IDEMPOTENCY_TTL_SECONDS: 24 * 60 * 60,
+    IDEMPOTENCY_LOCK_SECONDS: 30,
+    MAX_IDEMPOTENCY_KEY_LENGTH: 255,
+    // 認証('jwt' または 'none')。'none' はローカル開発専用
+    AUTH_MODE: process.env.AUTH_MODE || 'jwt',
+    // トークンの検証に使う鍵(JWKSのJSON文字列 / JWKSのURL / HS256の共有シークレット)
+    // (空文字は未設定として扱う。template.yaml のパラメーターのデフォルトが空文字のため)
+    AUTH_JWKS: process.env.AUTH_JWKS || undefined,
+    AUTH_JWKS_URL: process.env.AUTH_JWKS_URL || undefined,
+    AUTH_JWT_SECRET: process.env.AUTH_JWT_SECRET || undefined,
+    AUTH_ISSUER: process.env.AUTH_ISSUER || undefined,
+    AUTH_AUDIENCE: process.env.AUTH_AUDIENCE || undefined,
+    // このスコープを持つユーザーは、他のユーザーのアイテムも操作できる
+    AUTH_ADMIN_SCOPE: process.env.AUTH_ADMIN_SCOPE || 'items:admin',
+    // テナントIDが入っているクレームの名前(未設定なら tenant_id)
+    AUTH_TENANT_CLAIM: process.env.AUTH_TENANT_CLAIM || undefined,
+    AUTH_CLOCK_TOLERANCE_SECONDS: 30,
+    // APIキー(ハッシュ値)とレート制限の状態を保存するテーブル
+    API_KEY_TABLE_NAME: process.env.API_KEY_TABLE_NAME || 'ItemsApiKeys',
+    // 発行時に指定しなかった場合のレート制限(60リクエストまで連続で送れ、1秒に1つずつ回復する)
+    DEFAULT_RATE_LIMIT_CAPACITY: 60,
+    DEFAULT_RATE_LIMIT_REFILL_PER_SECOND: 1,
+    MAX_RATE_LIMIT_CAPACITY: 10000,
+    MAX_RATE_LIMIT_REFILL_PER_SECOND: 1000,
+    MAX_API_KEY_NAME_LENGTH: 100,
+    // Webhook の通知先と配信の記録を保存するテーブル
+    WEBHOOK_TABLE_NAME: process.env.WEBHOOK_TABLE_NAME || 'ItemsWebhooks',
+    WEBHOOK_DELIVERY_TABLE_NAME: process.env.WEBHOOK_DELIVERY_TABLE_NAME || 'ItemsWebhookDeliveries',
+    // http や localhost の通知先を許可するか(ローカル開発専用)
+    WEBHOOK_ALLOW_INSECURE_URLS: process.env.WEBHOOK_ALLOW_INSECURE_URLS === 'true',
+    // 添付ファイルを保存する S3 バケット
+    ATTACHMENT_BUCKET_NAME: process.env.ATTACHMENT_BUCKET_NAME || 'items-attachments',
+    // MinIO などの S3 互換のサーバーに接続する場合のエンドポイント(未設定ならAWSのS3)
+    S3_ENDPOINT: process.env.S3_ENDPOINT || undefined,
+    // 1つのアイテムに添付できるファイルの数(添付ファイルの情報もアイテムのサイズの上限に含まれる)
+    MAX_ATTACHMENTS_PER_ITEM: 20,
 } as const;
 
+/**
+ * GET /items で使えるクエリパラメータ
+ */
+const LIST_QUERY_PARAMETERS = ['limit', 'cursor', 'name', 'priceMin', 'priceMax', 'createdAfter', 'sort'];
+
+/**
+ * sort クエリパラメータに指定できる値(- を付けると降順)
+ */
+const LIST_SORT_OPTIONS = ['createdAt', '-createdAt', 'price', '-price'];
+
+/**
+ * GET /items/{id}/history で使えるクエリパラメータと並び順
+ */
+const HISTORY_QUERY_PARAMETERS = ['limit', 'cursor', 'order'];
+const HISTORY_ORDER_OPTIONS: HistoryQuery['order'][] = ['newest', 'oldest'];
+
+/**
+ * GET /webhooks/{webhookId}/deliveries で使えるクエリパラメータ
+ */
+const WEBHOOK_DELIVERY_QUERY_PARAMETERS = ['limit', 'cursor'];
+
+/**
+ * 冪等キー(Idempotency-Key)の保存先の設定
+ * 
+ * 学習ポイント：
+ * - 保存したレスポンスは24時間再送に使われ、その後TTLで自動削除される
+ * - 処理中のロックはLambdaのタイムアウトより長くしておく
+ */
+const IDEMPOTENCY_OPTIONS: IdempotencyOptions = {
+    tableName: CONFIG.IDEMPOTENCY_TABLE_NAME,
+    ttlSeconds: CONFIG.IDEMPOTENCY_TTL_SECONDS,
+    lockSeconds: CONFIG.IDEMPOTENCY_LOCK_SECONDS,
+};
+
+/**
+ * APIキーの保存先の設定
+ */
+const API_KEY_OPTIONS: ApiKeyOptions = {
+    tableName: CONFIG.API_KEY_TABLE_NAME,
+};
+
+/**
+ * アイテムのスキーマ
+ * 
+ * 学習ポイント：
+ * - バリデーションのルールをコードではなくデータ(スキーマ)で表現する
+ * - 環境変数 ITEM_SCHEMA で差し替えられる(未設定ならデフォルトのスキーマ)
+ * - 詳しくは schema.ts を参照
+ */
+const ITEM_SCHEMA = loadSchema(process.env.ITEM_SCHEMA);
+
+/**
+ * CORSの設定
+ * 
+ * 学習ポイント：
+ * - 環境変数 CORS_ALLOWED_ORIGINS などで設定する(未設定ならCORSヘッダーを付けない)
+ * - 詳しくは cors.ts を参照
+ */
+const CORS_OPTIONS = loadCorsOptions(process.env);
+
+/**
+ * エラーレスポンスの形式
+ * 
+ * 学習ポイント：
+ * - 環境変数 ERROR_FORMAT で設定する(problem または legacy、未設定なら problem)
+ * - リクエストの Accept ヘッダーで、リクエストごとに形式を選ぶこともできる
+ * - 詳しくは problem.ts を参照
+ */
+const ERROR_FORMAT = loadErrorFormat(process.env.ERROR_FORMAT);
+
+/**
+ * アイテムのリポジトリの再試行の設定
+ * 
+ * 学習ポイント：
+ * - 環境変数 DB_MAX_ATTEMPTS などで設定する
+ * - 詳しくは retry.ts を参照
+ */
+const RETRY_OPTIONS = loadRetryOptions(process.env);
+
+/**
+ * 添付ファイルの制限(サイズ・種類・署名付きURLの有効期間)
+ * 
+ * 学習ポイント：
+ * - 環境変数 ATTACHMENT_MAX_SIZE_BYTES などで設定する
+ * - 詳しくは attachments.ts を参照
+ */
+const ATTACHMENT_OPTIONS = loadAttachmentOptions(process.env);
+
 // ========================================
-// DynamoDBクライアントの初期化
+// DynamoDBクライアントとリポジトリの初期化
 // ========================================
 /**
  * DynamoDBクライアントのセットアップ
@@ -61,314 +285,3924 @@ const CONFIG = {
  * 学習ポイント：
  * - AWS SDK v3 の使い方
  * - DocumentClient を使うことで、DynamoDBの型変換を自動化
+ * - endpoint を指定すると DynamoDB Local にも接続できる
  */
-const client = new DynamoDBClient({});
+const client = new DynamoDBClient(CONFIG.DYNAMODB_ENDPOINT ? { endpoint: CONFIG.DYNAMODB_ENDPOINT } : {});
 const dynamodb = DynamoDBDocumentClient.from(client);
 
+/**
+ * アイテムのテーブル用のクライアント
+ * 
+ * 学習ポイント：
+ * - アイテムの操作は retry.ts でLambdaの残り時間を見ながら再試行するため、SDKの再試行(maxAttempts)は無効にする
+ *   (SDKとアプリの両方で再試行すると、試行回数が掛け算で増える)
+ * - 冪等キーとAPIキーのテーブルは、これまで通りSDKの再試行を使う
+ */
+const itemsClient = DynamoDBDocumentClient.from(
+    new DynamoDBClient({
+        ...(CONFIG.DYNAMODB_ENDPOINT ? { endpoint: CONFIG.DYNAMODB_ENDPOINT } : {}),
+        maxAttempts: 1,
+    })
+);
+
+/**
+ * 設定に応じてアイテムのリポジトリを作成する
+ * 
+ * 学習ポイント：
+ * - ハンドラーは ItemRepository インターフェースだけを使い、保存先の詳細を知らない
+ * - ITEM_STORAGE=memory にすると、AWSなしでAPIを動かせる(データはメモリ上に保存)
+ * - 設定ミスはリクエストを処理する前に例外で知らせる
+ * 
+ * @param storage - 保存先('dynamodb' または 'memory')
+ * @returns リポジトリ
+ */
+export function createItemRepository(storage: string = CONFIG.ITEM_STORAGE): ItemRepository {
+    if (storage === 'dynamodb') {
+        return createDynamoDBItemRepository(itemsClient, {
+            tableName: CONFIG.TABLE_NAME,
+            historyTableName: CONFIG.HISTORY_TABLE_NAME,
+        });
+    }
+    if (storage === 'memory') {
+        return createInMemoryItemRepository();
+    }
+    throw new Error(`Invalid ITEM_STORAGE: ${storage} (expected 'dynamodb' or 'memory')`);
+}
+
+/**
+ * 設定に応じて Webhook の保存先を作成する
+ * 
+ * 学習ポイント：
+ * - ITEM_STORAGE=memory の場合は、アイテムと同じくメモリ上に保存する
+ * 
+ * @param storage - 保存先('dynamodb' または 'memory')
+ * @returns Webhook の保存先
+ */
+export function createWebhookStore(storage: string = CONFIG.ITEM_STORAGE): WebhookStore {
+    if (storage === 'memory') {
+        return createInMemoryWebhookStore();
+    }
+    return createDynamoDBWebhookStore(dynamodb, {
+        tableName: CONFIG.WEBHOOK_TABLE_NAME,
+        deliveryTableName: CONFIG.WEBHOOK_DELIVERY_TABLE_NAME,
+    });
+}
+
+/**
+ * Webhook の保存先
+ */
+const webhookStore = createWebhookStore();
+
+/**
+ * 設定に応じて添付ファイルの保存先を作成する
+ * 
+ * 学習ポイント：
+ * - endpoint を指定すると MinIO などの S3 互換のサーバーに接続できる
+ *   (互換のサーバーの多くは bucket.host の形式のホスト名に対応しないため、パスにバケット名を入れる)
+ * - 署名付きURLの作成は S3 にリクエストしないので、ITEM_STORAGE=memory でも同じ保存先を使う
+ * 
+ * @param endpoint - S3 互換のサーバーのエンドポイント(省略時はAWSのS3)
+ * @returns 添付ファイルの保存先
+ */
+export function createAttachmentStorage(endpoint: string | undefined = CONFIG.S3_ENDPOINT): AttachmentStorage {
+    const s3 = new S3Client(endpoint ? { endpoint, forcePathStyle: true } : {});
+    return createS3AttachmentStorage(s3, { bucketName: CONFIG.ATTACHMENT_BUCKET_NAME });
+}
+
+/**
+ * 添付ファイルの保存先
+ */
+const attachmentStorage = createAttachmentStorage();
+
+/**
+ * 設定に応じてリクエストを認証する関数を作成する
+ * 
+ * 学習ポイント：
+ * - 鍵が1つも設定されていなくてもエラーにしない
+ *   (API Gateway のオーソライザーが検証したクレームだけを使う構成もあるため)
+ * 
+ * @param mode - 認証の方法('jwt' または 'none')
+ * @returns リクエストを認証する関数
+ */
+export function createRequestAuthenticator(mode: string = CONFIG.AUTH_MODE): Authenticator {
+    if (mode !== 'jwt' && mode !== 'none') {
+        throw new Error(`Invalid AUTH_MODE: ${mode} (expected 'jwt' or 'none')`);
+    }
+
+    let jwks: JsonWebKeySet | undefined;
+    if (CONFIG.AUTH_JWKS) {
+        try {
+            jwks = JSON.parse(CONFIG.AUTH_JWKS);
+        } catch {
+            throw new Error('Invalid AUTH_JWKS: must be a JSON Web Key Set');
+        }
+    }
+
+    return createAuthenticator({
+        mode,
+        jwks,
+        jwksUrl: CONFIG.AUTH_JWKS_URL,
+        secret: CONFIG.AUTH_JWT_SECRET,
+        issuer: CONFIG.AUTH_ISSUER,
+        audience: CONFIG.AUTH_AUDIENCE,
+        adminScope: CONFIG.AUTH_ADMIN_SCOPE,
+        tenantClaim: CONFIG.AUTH_TENANT_CLAIM,
+        clockToleranceSeconds: CONFIG.AUTH_CLOCK_TOLERANCE_SECONDS,
+    });
+}
+
+// ========================================
+// メインハンドラー
+// ========================================
+/**
+ * Lambda関数のハンドラーを作成する
+ * 
+ * リクエストごとのログのコンテキストを設定し、処理結果をアクセスログとして出力する
+ * 
+ * 学習ポイント：
+ * - 保存先(リポジトリ)と認証方法を引数で受け取ることで、テストやローカル開発で差し替えられる
+ * - context.awsRequestId と API Gateway のリクエストIDをすべてのログに付与する
+ * - OPTIONS(CORSのプリフライト)は認証せずに応答し、それ以外のレスポンスにはCORSヘッダーを付ける
+ * - エラーレスポンスは最後に instance(リクエストID)を付け、Accept ヘッダーと設定に合わせた形式にする
+ * - リポジトリはリクエストごとに、Lambdaの残り時間の中で一時的なエラーを再試行するように包む
+ * 
+ * @param repository - アイテムのリポジトリ
+ * @param authenticate - リクエストを認証する関数(省略時は環境変数の設定)
+ * @param cors - CORSの設定(省略時は環境変数の設定)
+ * @param errorFormat - エラーレスポンスの形式(省略時は環境変数の設定)
+ * @param retry - リポジトリの再試行の設定(省略時は環境変数の設定)
+ * @returns Lambda関数のハンドラー
+ */
+export function createLambdaHandler(
+    repository: ItemRepository,
+    authenticate: Authenticator = createRequestAuthenticator(),
+    cors: CorsOptions = CORS_OPTIONS,
+    errorFormat: ErrorFormat = ERROR_FORMAT,
+    retry: RetryOptions = RETRY_OPTIONS
+): (event: APIGatewayProxyEvent, context?: Context) => Promise<APIGatewayProxyResult> {
+    return async (event, context) => {
+        const startedAt = Date.now();
+        const requestRepository = createRetryingRepository(repository, retry, {
+            getRemainingTimeInMillis: context?.getRemainingTimeInMillis?.bind(context),
+        });
+
+        return runWithLogContext(
+            {
+                awsRequestId: context?.awsRequestId,
+                requestId: event.requestContext?.requestId,
+            },
+            async () => {
+                logger.debug('Request received', {
+                    method: event.httpMethod,
+                    path: event.path,
+                    body: parseBodyForLog(event.body),
+                });
+
+                // 401 や 429 などのエラーもブラウザが読めるように、すべてのレスポンスにCORSヘッダーを付ける
+                const response = formatErrorResponse(
+                    event.httpMethod === 'OPTIONS'
+                        ? handleOptions(event, cors)
+                        : withCorsHeaders(
+                              await routeRequest(event, requestRepository, authenticate),
+                              getHeader(event, 'Origin'),
+                              cors
+                          ),
+                    selectErrorFormat(getHeader(event, 'Accept'), errorFormat),
+                    event.requestContext?.requestId ?? context?.awsRequestId
+                );
+
+                // アクセスログ(1リクエストにつき1行)
+                logger.info('Request completed', {
+                    method: event.httpMethod,
+                    path: event.path,
+                    statusCode: response.statusCode,
+                    latencyMs: Date.now() - startedAt,
+                });
+                return response;
+            }
+        );
+    };
+}
+
+/**
+ * Lambda関数のメインハンドラー
+ * 
+ * 学習ポイント：
+ * - Lambda関数のエントリーポイント(template.yaml の Handler: app.lambdaHandler)
+ * - リポジトリはコールドスタート時に1回だけ作成され、リクエスト間で再利用される
+ */
+export const lambdaHandler = createLambdaHandler(createItemRepository());
+
+/**
+ * リクエストをルーティングし、認証してから各処理に振り分ける
+ * 
+ * 学習ポイント：
+ * - エラーハンドリングの基本パターン
+ * - 存在しないパスは404エラー、パスはあるがメソッドが違う場合は Allow ヘッダー付きの405エラー
+ * - 振り分け先が決まったら処理を呼び出す前に認証し、認証できない場合は401エラー
+ * - X-Api-Key ヘッダーがある場合は、JWTの代わりにAPIキーで認証してレート制限をかける
+ * - public なルート(GET /openapi.json)は認証しない
+ * - /tenants/{tenantId}/items... はテナントの部分を除いたパスで振り分け、認証の後でテナントを決める
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param repository - アイテムの保存先
+ * @param authenticate - リクエストを認証する関数
+ * @returns API Gatewayに返すレスポンス
+ */
+async function routeRequest(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    authenticate: Authenticator
+): Promise<APIGatewayProxyResult> {
+    try {
+        // ========================================
+        // ルーティング
+        // ========================================
+        const { tenantId: pathTenantId, path } = splitTenantPath(event.path);
+        const match = router.match(event.httpMethod, path);
+
+        if (match.type === 'notFound') {
+            logger.info('Route not found', { method: event.httpMethod, path: event.path });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ROUTE_NOT_FOUND',
+                'Not found'
+            );
+        }
+
+        if (match.type === 'methodNotAllowed') {
+            logger.info('Method not allowed', { method: event.httpMethod, path: event.path });
+            const response = createErrorResponse(
+                HTTP_STATUS.METHOD_NOT_ALLOWED,
+                'METHOD_NOT_ALLOWED',
+                'Method not allowed'
+            );
+            return { ...response, headers: { ...response.headers, Allow: createAllowHeader(match.allowedMethods) } };
+        }
+
+        // 振り分け先が決まったら、ログのコンテキストに route を追加する
+        const { route, params } = match;
+        setLogContext({ route: `${route.method} ${route.path}` });
+
+        // パスから取り出したパラメータを event.pathParameters に入れて各処理に渡す
+        const routedEvent: APIGatewayProxyEvent = {
+            ...event,
+            resource: route.path,
+            pathParameters: Object.keys(params).length > 0 ? params : null,
+        };
+
+        if (route.public) {
+            return await route.handler(routedEvent, repository, ANONYMOUS_PRINCIPAL);
+        }
+
+        // ========================================
+        // APIキーによる認証とレート制限
+        // ========================================
+        const apiKey = getHeader(event, 'X-Api-Key');
+        if (apiKey !== undefined) {
+            return await withApiKey(apiKey, (principal) =>
+                withTenant(routedEvent, pathTenantId, repository, principal, (tenantRepository, tenantPrincipal) =>
+                    route.handler(routedEvent, tenantRepository, tenantPrincipal)
+                )
+            );
+        }
+
+        // ========================================
+        // JWTによる認証
+        // ========================================
+        let principal: Principal;
+        try {
+            principal = await authenticate(event);
+        } catch (err) {
+            if (!(err instanceof AuthenticationError)) {
+                throw err;
+            }
+            // 失敗の詳しい理由はログにだけ出力する(攻撃者にヒントを与えない)
+            logger.info('Authentication failed', { reason: err.reason });
+            return createUnauthorizedResponse(err.message);
+        }
+        logger.debug('Authenticated', { subject: principal.subject, isAdmin: principal.isAdmin });
+
+        // 予期しないエラーは下の catch で500エラーにする
+        return await withTenant(routedEvent, pathTenantId, repository, principal, (tenantRepository, tenantPrincipal) =>
+            route.handler(routedEvent, tenantRepository, tenantPrincipal)
+        );
+    } catch (err) {
+        // 予期しないエラーが発生した場合
+        logger.error('Unexpected error', { error: err });
+        return createErrorResponse(
+            HTTP_STATUS.INTERNAL_SERVER_ERROR,
+            'INTERNAL_ERROR',
+            'Internal server error'
+        );
+    }
+}
+
+// ========================================
+// ルーティングテーブル
+// ========================================
+/**
+ * 各ルートの処理
+ */
+type RouteHandler = (
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+) => Promise<APIGatewayProxyResult>;
+
+/**
+ * このAPIのルート
+ * 
+ * - public: 認証せずに呼び出せる
+ * - docs: OpenAPI の仕様書(GET /openapi.json)に載せる説明
+ */
+type AppRoute = Route<RouteHandler> & DocumentedRoute;
+
+/**
+ * public なルートの処理に渡すユーザー(どのアイテムの所有者でもない)
+ */
+const ANONYMOUS_PRINCIPAL: Principal = { subject: 'anonymous', scopes: [], isAdmin: false };
+
+/**
+ * DynamoDBを使うルートで共通のエラー(429 はすべての認証が必要なルートに追加される)
+ */
+const DATABASE_ERRORS = [HTTP_STATUS.SERVICE_UNAVAILABLE, HTTP_STATUS.GATEWAY_TIMEOUT];
+
+/**
+ * 一覧・一括処理で共通のエラー
+ */
+const ITEM_ERRORS = [HTTP_STATUS.BAD_REQUEST, ...DATABASE_ERRORS];
+
+/**
+ * アイテムを書き込むルートで共通のエラー(DynamoDBの1アイテムのサイズの上限を超えると413)
+ */
+const ITEM_WRITE_ERRORS = [...ITEM_ERRORS, HTTP_STATUS.PAYLOAD_TOO_LARGE];
+
+/**
+ * このAPIのルート(template.yaml の Events と同じにする)
+ * 
+ * 学習ポイント：
+ * - 新しいエンドポイントは、この一覧に追加するだけで振り分けられ、仕様書(GET /openapi.json)にも載る
+ * - 固定のパス(/items:batch)とパラメータ付きのパス(/items/{id})の優先順位は router.ts が決める
+ */
+const ROUTES: AppRoute[] = [
+    // ========================================
+    // アイテム
+    // ========================================
+    {
+        method: 'POST',
+        path: '/items',
+        // Idempotency-Key ヘッダーがあれば再送を検出する
+        handler: (event, repository, principal) =>
+            withIdempotency(event, principal, (idempotentEvent) => createItem(idempotentEvent, repository, principal)),
+        docs: {
+            summary: 'アイテムを作成する',
+            tag: 'items',
+            query: [
+                {
+                    name: 'upsert',
+                    description: 'true の場合は同じIDのアイテムを置き換える',
+                    schema: { type: 'boolean', default: false },
+                },
+            ],
+            headers: ['IdempotencyKey'],
+            requestBody: 'ItemInput',
+            responses: {
+                201: { description: '作成したアイテム', schema: 'Item', headers: ['ETag', 'IdempotentReplayed'] },
+                200: { description: 'upsert で置き換えたアイテム', schema: 'Item', headers: ['ETag', 'IdempotentReplayed'] },
+            },
+            errors: [...ITEM_WRITE_ERRORS, HTTP_STATUS.CONFLICT, HTTP_STATUS.UNPROCESSABLE_ENTITY],
+        },
+    },
+    {
+        method: 'GET',
+        path: '/items',
+        handler: listItems,
+        docs: {
+            summary: 'アイテムの一覧をページ単位で取得する',
+            tag: 'items',
+            query: [
+                {
+                    name: 'limit',
+                    description: '1ページの件数',
+                    schema: { type: 'integer', minimum: 1, maximum: CONFIG.MAX_PAGE_LIMIT, default: CONFIG.DEFAULT_PAGE_LIMIT },
+                },
+                { name: 'cursor', description: '前のページの nextCursor', schema: { type: 'string' } },
+                { name: 'name', description: '名前の完全一致', schema: { type: 'string' } },
+                { name: 'priceMin', description: '価格の下限', schema: { type: 'number' } },
+                { name: 'priceMax', description: '価格の上限', schema: { type: 'number' } },
+                { name: 'createdAfter', description: 'この日時より後に作成', schema: { type: 'string', format: 'date-time' } },
+                { name: 'sort', description: '並び順(- を付けると降順)', schema: { type: 'string', enum: LIST_SORT_OPTIONS } },
+            ],
+            responses: { 200: { description: 'アイテムの一覧', schema: 'ItemList' } },
+            errors: ITEM_ERRORS,
+        },
+    },
+    {
+        method: 'GET',
+        path: '/items/{id}',
+        handler: getItem,
+        docs: {
+            summary: 'アイテムを取得する',
+            tag: 'items',
+            query: [
+                {
+                    name: 'asOf',
+                    description: 'この日時の時点のアイテムを変更履歴から復元して返す',
+                    schema: { type: 'string', format: 'date-time' },
+                },
+            ],
+            headers: ['IfNoneMatch'],
+            responses: {
+                200: { description: 'アイテム', schema: 'Item', headers: ['ETag'] },
+                304: { description: 'If-None-Match の ETag が一致した(ボディなし)', headers: ['ETag'] },
+            },
+            errors: [...ITEM_ERRORS, HTTP_STATUS.NOT_FOUND, HTTP_STATUS.GONE],
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/items/{id}',
+        handler: replaceItem,
+        docs: {
+            summary: 'アイテムを置き換える',
+            tag: 'items',
+            headers: ['IfMatch'],
+            requestBody: 'ItemInput',
+            responses: { 200: { description: '置き換えたアイテム', schema: 'Item', headers: ['ETag'] } },
+            errors: [...ITEM_WRITE_ERRORS, HTTP_STATUS.NOT_FOUND, HTTP_STATUS.GONE, HTTP_STATUS.PRECONDITION_FAILED],
+        },
+    },
+    {
+        method: 'PATCH',
+        path: '/items/{id}',
+        handler: patchItem,
+        docs: {
+            summary: 'アイテムを部分更新する(JSON Merge Patch)',
+            tag: 'items',
+            headers: ['IfMatch'],
+            requestBody: 'ItemPatch',
+            requestContentType: 'application/merge-patch+json',
+            responses: { 200: { description: '更新したアイテム', schema: 'Item', headers: ['ETag'] } },
+            errors: [...ITEM_WRITE_ERRORS, HTTP_STATUS.NOT_FOUND, HTTP_STATUS.GONE, HTTP_STATUS.PRECONDITION_FAILED],
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/items/{id}',
+        handler: deleteItem,
+        docs: {
+            summary: 'アイテムを削除する(デフォルトは論理削除)',
+            tag: 'items',
+            query: [
+                {
+                    name: 'hard',
+                    description: 'true の場合は物理削除する',
+                    schema: { type: 'boolean', default: false },
+                },
+            ],
+            headers: ['IfMatch'],
+            responses: {
+                200: { description: '論理削除したアイテム(deletedAt 付き)', schema: 'Item', headers: ['ETag'] },
+                204: { description: '物理削除した(ボディなし)' },
+            },
+            errors: [...ITEM_ERRORS, HTTP_STATUS.NOT_FOUND, HTTP_STATUS.GONE, HTTP_STATUS.PRECONDITION_FAILED],
+        },
+    },
+    {
+        method: 'POST',
+        path: '/items/{id}/restore',
+        handler: restoreItem,
+        docs: {
+            summary: '論理削除したアイテムを復元する',
+            tag: 'items',
+            headers: ['IfMatch'],
+            responses: { 200: { description: '復元したアイテム', schema: 'Item', headers: ['ETag'] } },
+            errors: [...ITEM_ERRORS, HTTP_STATUS.NOT_FOUND, HTTP_STATUS.CONFLICT, HTTP_STATUS.PRECONDITION_FAILED],
+        },
+    },
+    {
+        method: 'GET',
+        path: '/items/{id}/history',
+        handler: getItemHistory,
+        docs: {
+            summary: 'アイテムの変更履歴をページ単位で取得する',
+            tag: 'items',
+            query: [
+                {
+                    name: 'limit',
+                    description: '1ページの件数',
+                    schema: { type: 'integer', minimum: 1, maximum: CONFIG.MAX_PAGE_LIMIT, default: CONFIG.DEFAULT_PAGE_LIMIT },
+                },
+                { name: 'cursor', description: '前のページの nextCursor', schema: { type: 'string' } },
+                {
+                    name: 'order',
+                    description: '並び順(newest: 新しい順、oldest: 古い順)',
+                    schema: { type: 'string', enum: HISTORY_ORDER_OPTIONS, default: 'newest' },
+                },
+            ],
+            responses: { 200: { description: '変更履歴', schema: 'HistoryPage' } },
+            errors: [...ITEM_ERRORS, HTTP_STATUS.NOT_FOUND],
+        },
+    },
+    {
+        method: 'POST',
+        path: '/items/{id}/attachments',
+        handler: createAttachment,
+        docs: {
+            summary: '添付ファイルを追加し、アップロード用の署名付きURLを発行する',
+            tag: 'items',
+            headers: ['IfMatch'],
+            requestBody: 'AttachmentCreateRequest',
+            responses: {
+                201: { description: '添付ファイルの情報とアップロード用のURL', schema: 'AttachmentUpload', headers: ['ETag'] },
+            },
+            errors: [
+                ...ITEM_WRITE_ERRORS,
+                HTTP_STATUS.NOT_FOUND,
+                HTTP_STATUS.CONFLICT,
+                HTTP_STATUS.GONE,
+                HTTP_STATUS.PRECONDITION_FAILED,
+            ],
+        },
+    },
+    {
+        method: 'GET',
+        path: '/items/{id}/attachments/{attachmentId}',
+        handler: getAttachment,
+        docs: {
+            summary: '添付ファイルのダウンロード用の署名付きURLを発行する',
+            tag: 'items',
+            responses: { 200: { description: '添付ファイルの情報とダウンロード用のURL', schema: 'AttachmentDownload' } },
+            errors: [...ITEM_ERRORS, HTTP_STATUS.NOT_FOUND, HTTP_STATUS.GONE],
+        },
+    },
+    {
+        method: 'POST',
+        path: '/items:batch',
+        handler: batchCreateItems,
+        docs: {
+            summary: 'アイテムを一括作成する',
+            tag: 'items',
+            requestBody: 'BatchCreateRequest',
+            responses: { 200: { description: '1件ごとの結果', schema: 'BatchCreateResponse' } },
+            errors: ITEM_WRITE_ERRORS,
+        },
+    },
+    {
+        method: 'POST',
+        path: '/items:batchGet',
+        handler: batchGetItems,
+        docs: {
+            summary: 'アイテムを一括取得する',
+            tag: 'items',
+            requestBody: 'BatchGetRequest',
+            responses: { 200: { description: '1件ごとの結果', schema: 'BatchGetResponse' } },
+            errors: ITEM_ERRORS,
+        },
+    },
+
+    // ========================================
+    // APIキー(管理者のみ)
+    // ========================================
+    {
+        method: 'POST',
+        path: '/api-keys',
+        handler: (event, _repository, principal) => handleCreateApiKey(event, principal),
+        docs: {
+            summary: 'APIキーを発行する',
+            tag: 'api-keys',
+            requestBody: 'ApiKeyCreateRequest',
+            responses: { 201: { description: '発行したAPIキー', schema: 'ApiKeyCreated' } },
+            errors: [HTTP_STATUS.BAD_REQUEST, HTTP_STATUS.FORBIDDEN, ...DATABASE_ERRORS],
+        },
+    },
+    {
+        method: 'GET',
+        path: '/api-keys',
+        handler: (_event, _repository, principal) => handleListApiKeys(principal),
+        docs: {
+            summary: 'APIキーの一覧を取得する',
+            tag: 'api-keys',
+            responses: { 200: { description: 'APIキーの一覧', schema: 'ApiKeyList' } },
+            errors: [HTTP_STATUS.FORBIDDEN, ...DATABASE_ERRORS],
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/api-keys/{keyId}',
+        handler: (event, _repository, principal) => handleRevokeApiKey(event, principal),
+        docs: {
+            summary: 'APIキーを失効させる',
+            tag: 'api-keys',
+            responses: { 200: { description: '失効させたAPIキー', schema: 'ApiKey' } },
+            errors: [
+                HTTP_STATUS.BAD_REQUEST,
+                HTTP_STATUS.FORBIDDEN,
+                HTTP_STATUS.NOT_FOUND,
+                ...DATABASE_ERRORS,
+            ],
+        },
+    },
+
+    // ========================================
+    // Webhook(管理者のみ)
+    // ========================================
+    {
+        method: 'POST',
+        path: '/webhooks',
+        handler: (event, _repository, principal) => handleCreateWebhook(event, principal),
+        docs: {
+            summary: 'Webhook(変更の通知先)を登録する',
+            tag: 'webhooks',
+            requestBody: 'WebhookCreateRequest',
+            responses: { 201: { description: '登録した通知先', schema: 'WebhookCreated' } },
+            errors: [HTTP_STATUS.BAD_REQUEST, HTTP_STATUS.FORBIDDEN, ...DATABASE_ERRORS],
+        },
+    },
+    {
+        method: 'GET',
+        path: '/webhooks',
+        handler: (_event, _repository, principal) => handleListWebhooks(principal),
+        docs: {
+            summary: 'Webhook の一覧を取得する',
+            tag: 'webhooks',
+            responses: { 200: { description: '通知先の一覧', schema: 'WebhookList' } },
+            errors: [HTTP_STATUS.FORBIDDEN, ...DATABASE_ERRORS],
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/webhooks/{webhookId}',
+        handler: (event, _repository, principal) => handleDeleteWebhook(event, principal),
+        docs: {
+            summary: 'Webhook を削除する',
+            tag: 'webhooks',
+            responses: { 204: { description: '削除した' } },
+            errors: [
+                HTTP_STATUS.BAD_REQUEST,
+                HTTP_STATUS.FORBIDDEN,
+                HTTP_STATUS.NOT_FOUND,
+                ...DATABASE_ERRORS,
+            ],
+        },
+    },
+    {
+        method: 'GET',
+        path: '/webhooks/{webhookId}/deliveries',
+        handler: (event, _repository, principal) => handleListWebhookDeliveries(event, principal),
+        docs: {
+            summary: 'Webhook の配信の記録を新しい順に取得する',
+            tag: 'webhooks',
+            query: [
+                {
+                    name: 'limit',
+                    description: '1ページの件数',
+                    schema: { type: 'integer', minimum: 1, maximum: CONFIG.MAX_PAGE_LIMIT, default: CONFIG.DEFAULT_PAGE_LIMIT },
+                },
+                { name: 'cursor', description: '前のページの nextCursor', schema: { type: 'string' } },
+            ],
+            responses: { 200: { description: '配信の記録', schema: 'WebhookDeliveryPage' } },
+            errors: [
+                HTTP_STATUS.BAD_REQUEST,
+                HTTP_STATUS.FORBIDDEN,
+                HTTP_STATUS.NOT_FOUND,
+                ...DATABASE_ERRORS,
+            ],
+        },
+    },
+
+    // ========================================
+    // 仕様書
+    // ========================================
+    {
+        method: 'GET',
+        path: '/openapi.json',
+        public: true,
+        handler: async () => createSuccessResponse(HTTP_STATUS.OK, getOpenApiDocument()),
+        docs: {
+            summary: 'このAPIの OpenAPI 3.1 の仕様書を取得する',
+            tag: 'meta',
+            responses: { 200: { description: 'OpenAPI のドキュメント' } },
+            errors: [],
+        },
+    },
+];
+
+/**
+ * ルーター(コールドスタート時に1回だけ作成する)
+ */
+const router = createRouter(ROUTES);
+
+/**
+ * OpenAPI のドキュメント(最初のリクエストで作成してキャッシュする)
+ */
+let openApiDocument: OpenApiDocument | undefined;
+
+/**
+ * ルートの一覧とアイテムのスキーマから OpenAPI のドキュメントを作成する
+ * 
+ * 学習ポイント：
+ * - 仕様書は ROUTES と ITEM_SCHEMA から生成するので、手で更新する必要がない
+ * - 上限値は CONFIG の値を使い、バリデーションと仕様書がずれないようにする
+ * 
+ * @returns OpenAPI のドキュメント
+ */
+export function getOpenApiDocument(): OpenApiDocument {
+    openApiDocument ??= createOpenApiDocument(ROUTES, {
+        title: 'Items API',
+        version: '1.0.0',
+        itemSchema: ITEM_SCHEMA,
+        maxIdLength: CONFIG.MAX_ID_LENGTH,
+        maxBatchItems: CONFIG.MAX_BATCH_ITEMS,
+        maxItemTtlSeconds: CONFIG.MAX_ITEM_TTL_SECONDS,
+        maxAttachmentsPerItem: CONFIG.MAX_ATTACHMENTS_PER_ITEM,
+        attachments: ATTACHMENT_OPTIONS,
+        maxApiKeyNameLength: CONFIG.MAX_API_KEY_NAME_LENGTH,
+        maxRateLimitCapacity: CONFIG.MAX_RATE_LIMIT_CAPACITY,
+        maxRateLimitRefillPerSecond: CONFIG.MAX_RATE_LIMIT_REFILL_PER_SECOND,
+    });
+    return openApiDocument;
+}
+
+/**
+ * Allow ヘッダーの値を作成する
+ * 
+ * 学習ポイント：
+ * - OPTIONS はすべてのパスで受け付けるので、ルートのメソッドに加えて返す
+ * 
+ * @param methods - パスに定義されているメソッド
+ * @returns Allow ヘッダーの値(例: "GET, PUT, PATCH, DELETE, OPTIONS")
+ */
+function createAllowHeader(methods: string[]): string {
+    return [...methods, 'OPTIONS'].join(', ');
+}
+
+// ========================================
+// CORS(プリフライトとレスポンスヘッダー)
+// ========================================
+/**
+ * OPTIONS リクエストに応答する
+ * 
+ * 学習ポイント：
+ * - ブラウザのプリフライトには Authorization ヘッダーが付かないため、認証の前に応答する
+ * - Origin と Access-Control-Request-Method があればプリフライト、なければそのパスの Allow ヘッダーだけを返す
+ * - 許可されていないプリフライトは403エラー(Access-Control-Allow-* を付けないのでブラウザが止める)
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param cors - CORSの設定
+ * @returns API Gatewayレスポンス
+ */
+function handleOptions(event: APIGatewayProxyEvent, cors: CorsOptions): APIGatewayProxyResult {
+    setLogContext({ route: 'OPTIONS' });
+
+    const origin = getHeader(event, 'Origin');
+    const requestMethod = getHeader(event, 'Access-Control-Request-Method');
+    if (origin === undefined || requestMethod === undefined) {
+        const match = router.match('OPTIONS', splitTenantPath(event.path).path);
+        if (match.type === 'notFound') {
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ROUTE_NOT_FOUND',
+                'Not found'
+            );
+        }
+        // OPTIONS 自体はルートに登録していないので、見つかるのはパスに定義されているメソッドの一覧
+        const methods = match.type === 'methodNotAllowed' ? match.allowedMethods : [];
+        return createSuccessResponse(HTTP_STATUS.NO_CONTENT, undefined, { Allow: createAllowHeader(methods) });
+    }
+
+    const result = checkPreflight(
+        { origin, method: requestMethod, headers: getHeader(event, 'Access-Control-Request-Headers') },
+        cors
+    );
+    if (!result.allowed) {
+        logger.info('CORS preflight rejected', { origin, reason: result.reason });
+        const response = createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'CORS_REJECTED',
+            result.reason
+        );
+        return { ...response, headers: { ...response.headers, ...result.headers } };
+    }
+    return createSuccessResponse(HTTP_STATUS.NO_CONTENT, undefined, result.headers);
+}
+
+/**
+ * レスポンスにCORSヘッダーを付ける
+ * 
+ * @param response - API Gatewayレスポンス
+ * @param origin - Origin ヘッダーの値
+ * @param cors - CORSの設定
+ * @returns CORSヘッダーを付けたレスポンス
+ */
+function withCorsHeaders(
+    response: APIGatewayProxyResult,
+    origin: string | undefined,
+    cors: CorsOptions
+): APIGatewayProxyResult {
+    return { ...response, headers: { ...response.headers, ...createCorsHeaders(origin, cors) } };
+}
+
+// ========================================
+// POST /items - アイテム作成
+// ========================================
+/**
+ * POST /items - アイテムを作成する
+ * 
+ * リクエストボディのJSONをDynamoDBに保存する
+ * 
+ * 使用例：
+ * curl -X POST https://your-api.com/items \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"name": "サンプル商品", "price": 1000}'
+ * 
+ * 成功時のレスポンス：
+ * {
+ *   "id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "name": "サンプル商品",
+ *   "price": 1000,
+ *   "createdAt": "2025-10-21T10:30:00.000Z"
+ * }
+ * 
+ * 学習ポイント：
+ * - リクエストボディのバリデーション
+ * - DynamoDBへのデータ保存
+ * - 適切なHTTPステータスコードの返却
+ */
+async function createItem(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting create item process');
+
+    // 409エラーのレスポンスで使うため、try の外で宣言する
+    let itemId: string | undefined;
+    let upsertRequested = false;
+    let idProvided = false;
+
+    try {
+        // ========================================
+        // バリデーション
+        // ========================================
+        logger.debug('Validating request body');
+        const validation = validateRequestBody(event.body);
+        if (!validation.isValid) {
+            logger.info('Validation failed', { error: validation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                validation.code!,
+                validation.error!
+            );
+        }
+        logger.debug('Validation passed');
+
+        const body = validation.data!;
+
+        const schemaErrors = [...validateItem(body, ITEM_SCHEMA), ...normalizeExpiry(body, Date.now())];
+        if (schemaErrors.length > 0) {
+            logger.info('Schema validation failed', { errors: schemaErrors });
+            return createValidationErrorResponse(schemaErrors);
+        }
+
+        // ?upsert=true の場合のみ、同じIDのアイテムの置き換えを許可する
+        const upsert = parseBooleanParam(event.queryStringParameters?.upsert);
+        if (upsert === null) {
+            logger.info('Invalid upsert parameter', { upsert: event.queryStringParameters?.upsert });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'INVALID_QUERY_PARAMETER',
+                "upsert must be 'true' or 'false'"
+            );
+        }
+        upsertRequested = upsert;
+
+        // ========================================
+        // IDの処理
+        // ========================================
+        /**
+         * IDが指定されていない場合はUUIDを自動生成
+         * 
+         * なぜUUIDを使うのか：
+         * - グローバルに一意なIDを生成できる
+         * - 分散システムでも衝突の心配がない
+         * - セキュリティ：連番IDと違い推測されにくい
+         */
+        if (body.id !== undefined) {
+            // IDが指定されている場合はバリデーション
+            logger.debug('User provided ID', { itemId: body.id });
+            idProvided = true;
+            if (!isValidNewItemId(body.id)) {
+                logger.debug('Invalid ID format');
+                return createErrorResponse(
+                    HTTP_STATUS.BAD_REQUEST,
+                    'INVALID_ID',
+                    'ID must be a non-empty string'
+                );
+            }
+        } else {
+            // IDが指定されていない場合は自動生成
+            body.id = randomUUID();
+            logger.debug('Generated UUID', { itemId: body.id });
+        }
+        itemId = body.id;
+
+        // ========================================
+        // タイムスタンプの追加
+        // ========================================
+        /**
+         * 作成日時を自動追加
+         * 
+         * 学習ポイント：
+         * - ISO 8601形式の日時文字列
+         * - サーバー側でタイムスタンプを管理する重要性
+         */
+        body.createdAt = new Date().toISOString();
+        logger.debug('Created at', { createdAt: body.createdAt });
+
+        // ========================================
+        // バージョンの設定
+        // ========================================
+        /**
+         * version は楽観的排他制御に使う番号(サーバー管理)
+         * 
+         * 学習ポイント：
+         * - 新規作成は 1 から始まり、更新のたびに 1 ずつ増える
+         * - upsert で既存のアイテムを置き換える場合は、既存の version の続きにする
+         * - 期限が過ぎてまだ削除されていないアイテム(stored)は存在しないものとして扱うが、
+         *   書き込みの条件と version(変更履歴のキー)には使う
+         * - 指定したIDのアイテムが物理削除・TTLで削除されていた場合は、残っている変更履歴の続きにする
+         */
+        const stored = upsert ? await repository.get(body.id) : undefined;
+        const existing = stored && !isExpired(stored) ? stored : undefined;
+
+        // 他のユーザーのアイテムは upsert でも置き換えられない
+        if (existing && !canAccessItem(existing, principal)) {
+            logger.info('Item owned by another user', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                'ITEM_ALREADY_EXISTS',
+                'Item already exists',
+                { id: itemId }
+            );
+        }
+
+        // アイテムの所有者(トークンの sub)。管理者が他のユーザーのアイテムを置き換えても所有者は変わらない
+        body.ownerId = existing?.ownerId ?? principal.subject;
+        body.version = stored || !idProvided ? nextVersion(stored) : await nextCreatedVersion(repository, body.id);
+
+        // 添付ファイル(S3 のファイル)は置き換えても引き継ぐ
+        if (existing?.attachments) {
+            body.attachments = existing.attachments;
+        }
+
+        // ========================================
+        // リポジトリに保存
+        // ========================================
+        /**
+         * repository.put でアイテムを保存
+         * 
+         * 学習ポイント：
+         * - async/await での非同期処理
+         * - 同じIDがあると上書きしてしまうため、expected に undefined を渡して
+         *   「まだ存在しない場合のみ」書き込む
+         * - upsert の場合は「読み取った時点から変更されていない場合のみ」書き込む
+         * - 条件を満たさない場合は ConditionFailedError が投げられる
+         */
+        logger.debug('Saving item', { upsert });
+
+        const context = createChangeContext(principal, body.createdAt);
+        try {
+            await repository.put(body, stored, context);
+        } catch (err) {
+            // 同じIDのアイテムが期限切れでまだ削除されていない場合は、そのアイテムを置き換えて作成する
+            const expired = !upsert && isConditionalCheckFailedError(err) ? await repository.get(body.id) : undefined;
+            if (!expired || !isExpired(expired)) {
+                throw err;
+            }
+            logger.info('Replacing expired item', { itemId });
+            body.version = nextVersion(expired);
+            await repository.put(body, expired, context);
+        }
+
+        logger.debug('Item saved successfully');
+
+        // upsert で既存のアイテムを置き換えた場合は200 OK
+        if (existing) {
+            logger.info('Item replaced', { itemId: body.id });
+            return createSuccessResponse(HTTP_STATUS.OK, body, { ETag: createETag(body) });
+        }
+
+        logger.info('Item created', { itemId: body.id });
+
+        // 作成したアイテムを返す(201 Created)
+        return createSuccessResponse(HTTP_STATUS.CREATED, body, { ETag: createETag(body) });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error creating item', { error: err });
+
+        // 同じIDのアイテムがすでに存在する場合は409エラー
+        // (upsert の場合は、読み取ってから書き込むまでに他のリクエストが更新した)
+        if (isConditionalCheckFailedError(err) && upsertRequested) {
+            logger.info('Item was modified concurrently', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                'CONCURRENT_MODIFICATION',
+                'Item was modified by another request',
+                { id: itemId }
+            );
+        }
+        if (isConditionalCheckFailedError(err)) {
+            logger.info('Item already exists', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                'ITEM_ALREADY_EXISTS',
+                'Item already exists',
+                { id: itemId }
+            );
+        }
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// Idempotency-Key(冪等キー)
+// ========================================
+/**
+ * Idempotency-Key ヘッダーがある場合、同じリクエストの再送を1回分として扱う
+ * 
+ * 使用例：
+ * curl -X POST https://your-api.com/items \
+ *   -H "Content-Type: application/json" \
+ *   -H "Idempotency-Key: 7c4a8d09-ca37-4e3a-9f5b-1b2c3d4e5f60" \
+ *   -d '{"name": "サンプル商品", "price": 1000}'
+ * 
+ * 学習ポイント：
+ * - 通信エラーで再送しても、アイテムが二重に作成されない
+ * - 再送されたリクエストには保存したレスポンスを返す(Idempotent-Replayed: true)
+ * - 5xxエラーや予期しないエラーの結果は保存せず、同じキーで再送できるようにする
+ * - キーはテナント・ユーザーごとに別々に管理する(他のユーザーと同じキーを使っても、そのレスポンスは返さない)
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param principal - 認証されたユーザー
+ * @param handler - 実際の処理(createItem など)
+ * @returns API Gatewayに返すレスポンス
+ */
+async function withIdempotency(
+    event: APIGatewayProxyEvent,
+    principal: Principal,
+    handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>
+): Promise<APIGatewayProxyResult> {
+    const headerValue = getHeader(event, 'Idempotency-Key');
+    if (headerValue === undefined) {
+        return handler(event);
+    }
+
+    if (headerValue.trim() === '' || headerValue.length > CONFIG.MAX_IDEMPOTENCY_KEY_LENGTH) {
+        logger.info('Invalid idempotency key');
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'INVALID_IDEMPOTENCY_KEY',
+            `Idempotency-Key must be 1 to ${CONFIG.MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+        );
+    }
+
+    // テナント・ユーザーID・ヘッダーの値の組を保存用のキーにする(区切り文字が値に含まれても曖昧にならないようJSONにする)
+    const key = JSON.stringify([principal.tenantId, principal.subject, headerValue]);
+
+    // ========================================
+    // 冪等キーの登録
+    // ========================================
+    let started: IdempotencyStartResult;
+    try {
+        started = await startIdempotentRequest(
+            dynamodb,
+            IDEMPOTENCY_OPTIONS,
+            key,
+            hashRequest(event.body, event.queryStringParameters)
+        );
+    } catch (err) {
+        logger.warn('Error starting idempotent request', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+
+    if (started.state === 'mismatch') {
+        logger.info('Idempotency key reused with a different request');
+        return createErrorResponse(
+            HTTP_STATUS.UNPROCESSABLE_ENTITY,
+            'IDEMPOTENCY_KEY_REUSED',
+            'Idempotency-Key has already been used with a different request'
+        );
+    }
+    if (started.state === 'inProgress') {
+        logger.info('Idempotent request is in progress');
+        return createErrorResponse(
+            HTTP_STATUS.CONFLICT,
+            'IDEMPOTENCY_KEY_IN_PROGRESS',
+            'A request with the same Idempotency-Key is in progress'
+        );
+    }
+    if (started.state === 'replay') {
+        logger.info('Replaying idempotent response', { statusCode: started.response.statusCode });
+        return {
+            ...started.response,
+            headers: { ...started.response.headers, 'Idempotent-Replayed': 'true' },
+        };
+    }
+
+    // ========================================
+    // 処理の実行と結果の保存
+    // ========================================
+    let response: APIGatewayProxyResult;
+    try {
+        response = await handler(event);
+    } catch (err) {
+        await releaseIdempotencyKey(key);
+        throw err;
+    }
+
+    if (response.statusCode >= 500) {
+        await releaseIdempotencyKey(key);
+        return response;
+    }
+
+    try {
+        await completeIdempotentRequest(dynamodb, IDEMPOTENCY_OPTIONS, key, response);
+    } catch (err) {
+        // アイテムは作成済みなので、レスポンスはそのまま返す
+        // (ロックの期限が切れるまでは、再送に409を返す)
+        logger.error('Error saving idempotent response', { error: err });
+    }
+    return response;
+}
+
+/**
+ * 冪等キーを削除する(削除に失敗してもリクエストは失敗させない)
+ * 
+ * @param key - 保存用のキー
+ */
+async function releaseIdempotencyKey(key: string): Promise<void> {
+    try {
+        await releaseIdempotentRequest(dynamodb, IDEMPOTENCY_OPTIONS, key);
+    } catch (err) {
+        logger.error('Error releasing idempotency key', { error: err });
+    }
+}
+
+// ========================================
+// APIキーによる認証とレート制限
+// ========================================
+/**
+ * APIキーで認証し、レート制限の範囲内であれば処理を実行する
+ * 
+ * 処理の流れ：
+ * 1. X-Api-Key ヘッダーのキーを検証(不正・失効したキーは401エラー)
+ * 2. キーごとのトークンバケットからトークンを1つ消費(なければ429エラー)
+ * 3. キーの ownerId をユーザーIDとして処理を実行
+ * 
+ * 学習ポイント：
+ * - どのレスポンスにも X-RateLimit-* ヘッダーを付け、クライアントが残りの回数を確認できるようにする
+ * - 429エラーには Retry-After ヘッダーで、次に送ってよいまでの秒数を伝える
+ * - APIキーのユーザーは管理者として扱わない(APIキーでAPIキーを発行できないようにする)
+ * 
+ * @param apiKey - X-Api-Key ヘッダーの値
+ * @param handler - 認証後に実行する処理
+ * @returns API Gatewayに返すレスポンス
+ */
+async function withApiKey(
+    apiKey: string,
+    handler: (principal: Principal) => Promise<APIGatewayProxyResult>
+): Promise<APIGatewayProxyResult> {
+    let record: ApiKeyRecord | undefined;
+    let rateLimit: RateLimitResult;
+    try {
+        record = await findApiKey(dynamodb, API_KEY_OPTIONS, apiKey);
+        if (!record) {
+            logger.info('Invalid API key');
+            return createErrorResponse(
+                HTTP_STATUS.UNAUTHORIZED,
+                'INVALID_API_KEY',
+                'Invalid API key'
+            );
+        }
+        setLogContext({ apiKeyId: record.keyId });
+        rateLimit = await consumeRateLimitToken(dynamodb, API_KEY_OPTIONS, record);
+    } catch (err) {
+        logger.warn('Error checking API key', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+
+    const rateLimitHeaders = createRateLimitHeaders(rateLimit);
+    if (!rateLimit.allowed) {
+        logger.info('Rate limit exceeded', { retryAfterSeconds: rateLimit.retryAfterSeconds });
+        const response = createErrorResponse(
+            HTTP_STATUS.TOO_MANY_REQUESTS,
+            'RATE_LIMITED',
+            'Rate limit exceeded'
+        );
+        return {
+            ...response,
+            headers: { ...response.headers, ...rateLimitHeaders, 'Retry-After': String(rateLimit.retryAfterSeconds) },
+        };
+    }
+
+    // キーのテナントだけを読み書きできる(tenantId のない古いキーはデフォルトのテナント)
+    const response = await handler({
+        subject: record.ownerId,
+        scopes: [],
+        isAdmin: false,
+        tenantId: record.tenantId ?? DEFAULT_TENANT_ID,
+    });
+    return { ...response, headers: { ...response.headers, ...rateLimitHeaders } };
+}
+
+/**
+ * レート制限の状態をレスポンスヘッダーにする
+ * 
+ * 学習ポイント：
+ * - X-RateLimit-Limit: バケットの容量
+ * - X-RateLimit-Remaining: 残りのリクエスト数
+ * - X-RateLimit-Reset: 残りの回数が容量まで回復するまでの秒数
+ * 
+ * @param rateLimit - レート制限の判定結果
+ * @returns レスポンスヘッダー
+ */
+function createRateLimitHeaders(rateLimit: RateLimitResult): Record<string, string> {
+    return {
+        'X-RateLimit-Limit': String(rateLimit.limit),
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+        'X-RateLimit-Reset': String(rateLimit.resetSeconds),
+    };
+}
+
+// ========================================
+// テナント
+// ========================================
+/**
+ * リクエストの対象のテナントを決め、そのテナントのリポジトリで処理を実行する
+ * 
+ * 使用例：
+ * curl https://your-api.com/tenants/acme/items/item-1
+ * curl https://your-api.com/items/item-1 -H "X-Tenant-Id: acme"
+ * 
+ * 学習ポイント：
+ * - 各処理にはテナントのリポジトリを渡すので、他のテナントのアイテムは読み書きできない
+ * - テナントの形式が不正な場合とパス・ヘッダーが食い違う場合は400エラー、
+ *   トークンのテナントと違うテナントを指定した場合は403エラー
+ * - 処理に渡すユーザーの tenantId は、リクエストの対象のテナントにする(冪等キーもテナントごとに分ける)
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param pathTenantId - パスで指定されたテナント
+ * @param repository - アイテムのリポジトリ
+ * @param principal - 認証されたユーザー
+ * @param handler - テナントが決まった後に実行する処理
+ * @returns API Gatewayに返すレスポンス
+ */
+async function withTenant(
+    event: APIGatewayProxyEvent,
+    pathTenantId: string | undefined,
+    repository: ItemRepository,
+    principal: Principal,
+    handler: (repository: ItemRepository, principal: Principal) => Promise<APIGatewayProxyResult>
+): Promise<APIGatewayProxyResult> {
+    const resolution = resolveTenant({ pathTenantId, headerTenantId: getHeader(event, TENANT_HEADER) }, principal);
+    if ('error' in resolution) {
+        logger.info('Tenant rejected', { reason: resolution.error, tokenTenantId: principal.tenantId });
+        if (resolution.error === 'forbidden') {
+            return createErrorResponse(
+                HTTP_STATUS.FORBIDDEN,
+                'TENANT_FORBIDDEN',
+                resolution.message
+            );
+        }
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            resolution.error === 'mismatch' ? 'TENANT_MISMATCH' : 'INVALID_TENANT_ID',
+            resolution.message
+        );
+    }
+
+    const { tenantId } = resolution;
+    setLogContext({ tenantId });
+    return handler(repository.forTenant(tenantId), { ...principal, tenantId });
+}
+
+// ========================================
+// /api-keys - APIキーの管理(管理者用)
+// ========================================
+/**
+ * POST /api-keys - APIキーを発行する
+ * 
+ * 使用例：
+ * curl -X POST https://your-api.com/api-keys \
+ *   -H "Authorization: Bearer <管理者のトークン>" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"name": "partner-a", "rateLimit": {"capacity": 100, "refillPerSecond": 5}}'
+ * 
+ * 成功時のレスポンス：
+ * {
+ *   "keyId": "3f2a9c1b7e4d8a60",
+ *   "name": "partner-a",
+ *   "ownerId": "apikey:3f2a9c1b7e4d8a60",
+ *   "tenantId": "acme",
+ *   "rateLimit": { "capacity": 100, "refillPerSecond": 5 },
+ *   "createdAt": "2025-10-21T10:30:00.000Z",
+ *   "apiKey": "ik_3f2a9c1b7e4d8a60_..."
+ * }
+ * 
+ * 学習ポイント：
+ * - apiKey はこのレスポンスでしか返さない(サーバーにはハッシュ値しか残らない)
+ * - ownerId を指定すると、既存のユーザーと同じアイテムをAPIキーで操作できる
+ * - キーで読み書きできるのは、発行した管理者のテナント(tenantId)だけ
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param principal - 認証されたユーザー
+ * @returns API Gatewayレスポンス
+ */
+async function handleCreateApiKey(
+    event: APIGatewayProxyEvent,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    if (!principal.isAdmin) {
+        logger.info('Forbidden: admin scope required');
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'FORBIDDEN',
+            'Forbidden'
+        );
+    }
+
+    const validation = validateRequestBody(event.body);
+    if (!validation.isValid) {
+        logger.info('Validation failed', { error: validation.error });
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            validation.code!,
+            validation.error!
+        );
+    }
+    const body = validation.data!;
+
+    if (typeof body.name !== 'string' || body.name.trim() === '' || body.name.length > CONFIG.MAX_API_KEY_NAME_LENGTH) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            `name must be a string of 1 to ${CONFIG.MAX_API_KEY_NAME_LENGTH} characters`
+        );
+    }
+    if (
+        body.ownerId !== undefined &&
+        (typeof body.ownerId !== 'string' || body.ownerId.trim() === '' || body.ownerId.length > CONFIG.MAX_ID_LENGTH)
+    ) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            `ownerId must be a string of 1 to ${CONFIG.MAX_ID_LENGTH} characters`
+        );
+    }
+    const rateLimit = parseRateLimit(body.rateLimit);
+    if (!rateLimit) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            `rateLimit.capacity must be an integer from 1 to ${CONFIG.MAX_RATE_LIMIT_CAPACITY} ` +
+                `and rateLimit.refillPerSecond must be a number greater than 0 and at most ${CONFIG.MAX_RATE_LIMIT_REFILL_PER_SECOND}`
+        );
+    }
+
+    try {
+        const { apiKey, key } = await createApiKey(dynamodb, API_KEY_OPTIONS, {
+            name: body.name,
+            ownerId: body.ownerId,
+            tenantId: principal.tenantId ?? DEFAULT_TENANT_ID,
+            rateLimit,
+        });
+        logger.info('API key created', { keyId: key.keyId });
+        return createSuccessResponse(HTTP_STATUS.CREATED, { ...key, apiKey });
+    } catch (err) {
+        logger.error('Error creating API key', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+/**
+ * GET /api-keys - APIキーの一覧を取得する
+ * 
+ * 学習ポイント：
+ * - キーそのものもハッシュ値も返さない(keyId で識別する)
+ * - 失効したキーも revokedAt 付きで返す
+ * - 管理者のテナントのキーだけを読む(テナントのインデックスを Query する。全件の Scan はしない)
+ * 
+ * @param principal - 認証されたユーザー
+ * @returns API Gatewayレスポンス
+ */
+async function handleListApiKeys(principal: Principal): Promise<APIGatewayProxyResult> {
+    if (!principal.isAdmin) {
+        logger.info('Forbidden: admin scope required');
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'FORBIDDEN',
+            'Forbidden'
+        );
+    }
+
+    try {
+        const tenantId = principal.tenantId ?? DEFAULT_TENANT_ID;
+        const keys = await listApiKeys(dynamodb, API_KEY_OPTIONS, tenantId);
+        return createSuccessResponse(HTTP_STATUS.OK, { keys, count: keys.length });
+    } catch (err) {
+        logger.error('Error listing API keys', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+/**
+ * DELETE /api-keys/{keyId} - APIキーを失効させる
+ * 
+ * 学習ポイント：
+ * - 失効したキーは次のリクエストから401エラーになる
+ * - 失効済みのキーをもう一度失効させても成功する(冪等)
+ * - 他のテナントのキーは、存在しないキーとして404エラーにする
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param principal - 認証されたユーザー
+ * @returns API Gatewayレスポンス
+ */
+async function handleRevokeApiKey(
+    event: APIGatewayProxyEvent,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    if (!principal.isAdmin) {
+        logger.info('Forbidden: admin scope required');
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'FORBIDDEN',
+            'Forbidden'
+        );
+    }
+
+    const keyId = event.pathParameters?.keyId;
+    if (!keyId) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'ID_REQUIRED',
+            'API key ID is required'
+        );
+    }
+
+    try {
+        const tenantId = principal.tenantId ?? DEFAULT_TENANT_ID;
+        const revoked = await revokeApiKey(dynamodb, API_KEY_OPTIONS, keyId, tenantId);
+        if (!revoked) {
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'API_KEY_NOT_FOUND',
+                'API key not found'
+            );
+        }
+        logger.info('API key revoked', { keyId });
+        return createSuccessResponse(HTTP_STATUS.OK, revoked);
+    } catch (err) {
+        logger.error('Error revoking API key', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+/**
+ * リクエストボディの rateLimit を検証する
+ * 
+ * @param value - rateLimit の値(省略時はデフォルトのレート制限)
+ * @returns レート制限。不正な場合はnull
+ */
+function parseRateLimit(value: unknown): RateLimit | null {
+    if (value === undefined) {
+        return {
+            capacity: CONFIG.DEFAULT_RATE_LIMIT_CAPACITY,
+            refillPerSecond: CONFIG.DEFAULT_RATE_LIMIT_REFILL_PER_SECOND,
+        };
+    }
+    if (!isPlainObject(value)) {
+        return null;
+    }
+    const { capacity, refillPerSecond } = value;
+    if (
+        typeof capacity !== 'number' ||
+        !Number.isInteger(capacity) ||
+        capacity < 1 ||
+        capacity > CONFIG.MAX_RATE_LIMIT_CAPACITY ||
+        typeof refillPerSecond !== 'number' ||
+        !Number.isFinite(refillPerSecond) ||
+        refillPerSecond <= 0 ||
+        refillPerSecond > CONFIG.MAX_RATE_LIMIT_REFILL_PER_SECOND
+    ) {
+        return null;
+    }
+    return { capacity, refillPerSecond };
+}
+
+// ========================================
+// /webhooks - Webhook の管理(管理者用)
+// ========================================
+/**
+ * POST /webhooks - Webhook(変更の通知先)を登録する
+ * 
+ * 使用例：
+ * curl -X POST https://your-api.com/webhooks \
+ *   -H "Authorization: Bearer <管理者のトークン>" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"url": "https://partner.example.com/hooks/items", "eventTypes": ["item.created", "item.updated"]}'
+ * 
+ * 成功時のレスポンス：
+ * {
+ *   "webhookId": "3f2a9c1b7e4d8a60",
+ *   "url": "https://partner.example.com/hooks/items",
+ *   "eventTypes": ["item.created", "item.updated"],
+ *   "status": "active",
+ *   "consecutiveFailures": 0,
+ *   "createdAt": "2025-10-21T10:30:00.000Z",
+ *   "createdBy": "admin-1",
+ *   "tenantId": "default",
+ *   "secret": "whsec_..."
+ * }
+ * 
+ * 学習ポイント：
+ * - secret を省略するとサーバーが作成する。secret はこのレスポンスでしか返さない
+ * - eventTypes を省略すると、すべての種類のイベントを通知する
+ * - 通知先には、登録した管理者のテナントのイベントだけが届く
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param principal - 認証されたユーザー
+ * @returns API Gatewayレスポンス
+ */
+async function handleCreateWebhook(
+    event: APIGatewayProxyEvent,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    if (!principal.isAdmin) {
+        logger.info('Forbidden: admin scope required');
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'FORBIDDEN',
+            'Forbidden'
+        );
+    }
+
+    const validation = validateRequestBody(event.body);
+    if (!validation.isValid) {
+        logger.info('Validation failed', { error: validation.error });
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            validation.code!,
+            validation.error!
+        );
+    }
+    const body = validation.data!;
+
+    const urlError = validateWebhookUrl(body.url, CONFIG.WEBHOOK_ALLOW_INSECURE_URLS);
+    if (urlError) {
+        logger.info('Invalid webhook URL', { error: urlError });
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            urlError
+        );
+    }
+    const eventTypes = body.eventTypes ?? [...WEBHOOK_EVENT_TYPES];
+    if (
+        !Array.isArray(eventTypes) ||
+        eventTypes.length === 0 ||
+        !eventTypes.every((type) => WEBHOOK_EVENT_TYPES.includes(type)) ||
+        new Set(eventTypes).size !== eventTypes.length
+    ) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            `eventTypes must be a non-empty array of unique values from ${WEBHOOK_EVENT_TYPES.join(', ')}`
+        );
+    }
+    if (
+        body.secret !== undefined &&
+        (typeof body.secret !== 'string' ||
+            body.secret.length < MIN_WEBHOOK_SECRET_LENGTH ||
+            body.secret.length > MAX_WEBHOOK_SECRET_LENGTH)
+    ) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            `secret must be a string of ${MIN_WEBHOOK_SECRET_LENGTH} to ${MAX_WEBHOOK_SECRET_LENGTH} characters`
+        );
+    }
+    if (
+        body.description !== undefined &&
+        (typeof body.description !== 'string' || body.description.length > MAX_WEBHOOK_DESCRIPTION_LENGTH)
+    ) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'VALIDATION_FAILED',
+            `description must be a string of at most ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters`
+        );
+    }
+
+    const webhook: WebhookRecord = {
+        webhookId: createWebhookId(),
+        url: body.url,
+        eventTypes,
+        ...(body.description !== undefined ? { description: body.description } : {}),
+        status: 'active',
+        consecutiveFailures: 0,
+        createdAt: new Date().toISOString(),
+        createdBy: principal.subject,
+        tenantId: principal.tenantId ?? DEFAULT_TENANT_ID,
+        secret: body.secret ?? createWebhookSecret(),
+    };
+
+    try {
+        await webhookStore.create(webhook);
+        logger.info('Webhook created', { webhookId: webhook.webhookId, eventTypes });
+        return createSuccessResponse(HTTP_STATUS.CREATED, { ...toWebhook(webhook), secret: webhook.secret });
+    } catch (err) {
+        logger.error('Error creating webhook', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+/**
+ * GET /webhooks - Webhook の一覧を取得する
+ * 
+ * 学習ポイント：
+ * - secret は返さない
+ * - 失敗が続いて止まった通知先も status: disabled として返す
+ * - 管理者のテナントの通知先だけを読む(テナントのインデックスを Query する。全件の Scan はしない)
+ * 
+ * @param principal - 認証されたユーザー
+ * @returns API Gatewayレスポンス
+ */
+async function handleListWebhooks(principal: Principal): Promise<APIGatewayProxyResult> {
+    if (!principal.isAdmin) {
+        logger.info('Forbidden: admin scope required');
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'FORBIDDEN',
+            'Forbidden'
+        );
+    }
+
+    try {
+        const tenantId = principal.tenantId ?? DEFAULT_TENANT_ID;
+        const webhooks = (await webhookStore.list(tenantId)).map(toWebhook);
+        return createSuccessResponse(HTTP_STATUS.OK, { webhooks, count: webhooks.length });
+    } catch (err) {
+        logger.error('Error listing webhooks', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+/**
+ * DELETE /webhooks/{webhookId} - Webhook を削除する
+ * 
+ * 学習ポイント：
+ * - 削除した通知先には、次のイベントから配信しない
+ * - 配信の記録はTTL(30日)で自動削除される
+ * - 他のテナントの通知先は、存在しない通知先と同じ404エラーにする
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param principal - 認証されたユーザー
+ * @returns API Gatewayレスポンス
+ */
+async function handleDeleteWebhook(
+    event: APIGatewayProxyEvent,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    if (!principal.isAdmin) {
+        logger.info('Forbidden: admin scope required');
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'FORBIDDEN',
+            'Forbidden'
+        );
+    }
+
+    const webhookId = event.pathParameters?.webhookId;
+    if (!webhookId) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'ID_REQUIRED',
+            'Webhook ID is required'
+        );
+    }
+
+    try {
+        const webhook = await webhookStore.get(webhookId);
+        const deleted =
+            webhook !== undefined &&
+            belongsToTenant(webhook, principal.tenantId ?? DEFAULT_TENANT_ID) &&
+            (await webhookStore.delete(webhookId));
+        if (!deleted) {
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'WEBHOOK_NOT_FOUND',
+                'Webhook not found'
+            );
+        }
+        logger.info('Webhook deleted', { webhookId });
+        return createSuccessResponse(HTTP_STATUS.NO_CONTENT);
+    } catch (err) {
+        logger.error('Error deleting webhook', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+/**
+ * GET /webhooks/{webhookId}/deliveries - Webhook の配信の記録を新しい順に取得する
+ * 
+ * 学習ポイント：
+ * - 1件の記録には、再試行を含めた送信ごとのステータスコード・エラー・かかった時間が入る
+ * - 他のテナントの通知先の記録は、存在しない通知先と同じ404エラーにする
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param principal - 認証されたユーザー
+ * @returns API Gatewayレスポンス
+ */
+async function handleListWebhookDeliveries(
+    event: APIGatewayProxyEvent,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    if (!principal.isAdmin) {
+        logger.info('Forbidden: admin scope required');
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            'FORBIDDEN',
+            'Forbidden'
+        );
+    }
+
+    const webhookId = event.pathParameters?.webhookId;
+    if (!webhookId) {
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'ID_REQUIRED',
+            'Webhook ID is required'
+        );
+    }
+
+    const query = event.queryStringParameters || {};
+    const unknownParameters = Object.keys(query).filter((name) => !WEBHOOK_DELIVERY_QUERY_PARAMETERS.includes(name));
+    if (unknownParameters.length > 0) {
+        logger.info('Unknown query parameters', { parameters: unknownParameters });
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'UNKNOWN_QUERY_PARAMETER',
+            `Unknown query parameter: ${unknownParameters.join(', ')}`
+        );
+    }
+    const limit = parseLimit(query.limit);
+    if (limit === null) {
+        logger.info('Invalid limit parameter', { limit: query.limit });
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            'INVALID_QUERY_PARAMETER',
+            `limit must be an integer between 1 and ${CONFIG.MAX_PAGE_LIMIT}`
+        );
+    }
+
+    try {
+        const webhook = await webhookStore.get(webhookId);
+        if (!webhook || !belongsToTenant(webhook, principal.tenantId ?? DEFAULT_TENANT_ID)) {
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'WEBHOOK_NOT_FOUND',
+                'Webhook not found'
+            );
+        }
+
+        let page;
+        try {
+            page = await webhookStore.listDeliveries(webhookId, limit, query.cursor || undefined);
+        } catch (err) {
+            if (err instanceof InvalidCursorError) {
+                logger.info('Invalid cursor parameter');
+                return createErrorResponse(
+                    HTTP_STATUS.BAD_REQUEST,
+                    'INVALID_CURSOR',
+                    'Invalid cursor'
+                );
+            }
+            throw err;
+        }
+
+        return createSuccessResponse(HTTP_STATUS.OK, {
+            deliveries: page.deliveries,
+            count: page.deliveries.length,
+            nextCursor: page.nextCursor,
+        });
+    } catch (err) {
+        logger.error('Error listing webhook deliveries', { error: err });
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// GET /items/{id} - アイテム取得
+// ========================================
+/**
+ * GET /items/{id} - 指定されたIDのアイテムを取得する
+ * 
+ * パスパラメータからIDを取得してDynamoDBから検索する
+ * 
+ * 使用例：
+ * curl https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000
+ * curl "https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000?asOf=2025-10-21T10:30:00Z"
+ * 
+ * 成功時のレスポンス：
+ * {
+ *   "id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "name": "サンプル商品",
+ *   "price": 1000,
+ *   "createdAt": "2025-10-21T10:30:00.000Z"
+ * }
+ * 
+ * 学習ポイント：
+ * - パスパラメータの取得方法
+ * - DynamoDBからのデータ取得
+ * - 404エラーの適切な処理
+ * - ?asOf を指定すると、変更履歴からその時点のアイテムを復元して返す
+ *   (その時点で存在しなかった・物理削除されていた場合は404、論理削除されていた場合は410)
+ */
+async function getItem(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting get item process');
+
+    try {
+        // ========================================
+        // パスパラメータの検証
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+
+        const itemId = idValidation.id!;
+        logger.debug('Requested item', { itemId });
+
+        // ========================================
+        // asOf の検証
+        // ========================================
+        let asOf: string | undefined;
+        const asOfParam = event.queryStringParameters?.asOf;
+        if (asOfParam !== undefined) {
+            // changedAt は toISOString() の形式で保存しているので、同じ形式にそろえて文字列で比較する
+            const time = Date.parse(asOfParam);
+            if (Number.isNaN(time)) {
+                logger.info('Invalid asOf parameter', { asOf: asOfParam });
+                return createErrorResponse(
+                    HTTP_STATUS.BAD_REQUEST,
+                    'INVALID_QUERY_PARAMETER',
+                    'asOf must be an ISO 8601 date-time'
+                );
+            }
+            asOf = new Date(time).toISOString();
+        }
+
+        // ========================================
+        // リポジトリから取得
+        // ========================================
+        /**
+         * repository.get でアイテムを取得
+         * 
+         * 学習ポイント：
+         * - プライマリキー(id)を指定した取得
+         * - 取得結果が存在しない場合の処理
+         * - asOf を指定した場合は、現在のアイテムの代わりに復元したアイテムを使う
+         */
+        const item = asOf === undefined ? await repository.get(itemId) : await findItemAsOf(repository, itemId, asOf);
+
+        // アイテムが見つからない場合は404エラー
+        // (他のユーザーのアイテムも、存在を知られないように404エラーにする)
+        // 期限(expiresAt)が過ぎたアイテムも、TTLでまだ削除されていなくても404エラーにする
+        // (asOf の場合は、その時点で期限が過ぎていたか)
+        const now = asOf === undefined ? Date.now() : Date.parse(asOf);
+        if (!item || !canAccessItem(item, principal) || isExpired(item, now)) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+
+        // 論理削除されたアイテムは410エラー
+        if (item.deletedAt) {
+            logger.info('Item has been deleted', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.GONE,
+                'ITEM_DELETED',
+                'Item has been deleted'
+            );
+        }
+
+        // ========================================
+        // 条件付きGET(If-None-Match)
+        // ========================================
+        /**
+         * クライアントが持っているバージョンと同じなら 304 Not Modified
+         * 
+         * 学習ポイント：
+         * - ETag はアイテムのバージョンを表す識別子
+         * - 変更がなければボディを返さずに済み、通信量を節約できる
+         */
+        const etag = createETag(item);
+        const ifNoneMatch = getHeader(event, 'If-None-Match');
+        if (ifNoneMatch !== undefined && matchesETag(ifNoneMatch, etag)) {
+            logger.info('Item not modified', { itemId, etag });
+            return createSuccessResponse(HTTP_STATUS.NOT_MODIFIED, undefined, { ETag: etag });
+        }
+
+        logger.info('Item retrieved', { itemId, asOf });
+
+        // 取得したアイテムを返す(200 OK)
+        return createSuccessResponse(HTTP_STATUS.OK, item, { ETag: etag });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error getting item', { error: err });
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// PUT /items/{id} - アイテム置き換え
+// ========================================
+/**
+ * PUT /items/{id} - 既存のアイテムを丸ごと置き換える
+ * 
+ * リクエストボディの内容でアイテムを上書きする。
+ * ボディに含まれないフィールドは削除される(部分更新はPATCHを使う)。
+ * 
+ * 使用例：
+ * curl -X PUT https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000 \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"name": "新しい商品名", "price": 1200}'
+ * 
+ * 成功時のレスポンス：
+ * {
+ *   "id": "550e8400-e29b-41d4-a716-446655440000",
+ *   "name": "新しい商品名",
+ *   "price": 1200,
+ *   "createdAt": "2025-10-21T10:30:00.000Z",
+ *   "updatedAt": "2025-10-22T09:00:00.000Z"
+ * }
+ * 
+ * 学習ポイント：
+ * - PUTは「置き換え」であり、冪等(何度実行しても同じ結果)
+ * - createdAt と添付ファイル(attachments)はサーバー側で管理し、元の値を引き継ぐ
+ */
+async function replaceItem(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting replace item process');
+
+    try {
+        // ========================================
+        // バリデーション
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+        const itemId = idValidation.id!;
+
+        const validation = validateRequestBody(event.body);
+        if (!validation.isValid) {
+            logger.info('Validation failed', { error: validation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                validation.code!,
+                validation.error!
+            );
+        }
+        const body = validation.data!;
+
+        // 有効期限は置き換え後のアイテムにも指定し直す(指定しなければ期限なし)
+        const schemaErrors = [...validateItem(body, ITEM_SCHEMA), ...normalizeExpiry(body, Date.now())];
+        if (schemaErrors.length > 0) {
+            logger.info('Schema validation failed', { errors: schemaErrors });
+            return createValidationErrorResponse(schemaErrors);
+        }
+
+        // ボディのIDはパスのIDと一致している必要がある(IDの変更は不可)
+        if (body.id !== undefined && body.id !== itemId) {
+            logger.info('ID mismatch', { itemId, requestedId: body.id });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'ID_MISMATCH',
+                'ID in body does not match path'
+            );
+        }
+
+        // ========================================
+        // 既存アイテムの取得
+        // ========================================
+        const existing = await repository.get(itemId);
+        if (!existing || !canAccessItem(existing, principal) || isExpired(existing)) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+        if (existing.deletedAt) {
+            logger.info('Item has been deleted', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.GONE,
+                'ITEM_DELETED',
+                'Item has been deleted'
+            );
+        }
+
+        // ========================================
+        // 楽観的排他制御(If-Match)
+        // ========================================
+        if (!checkIfMatch(event, existing)) {
+            logger.info('ETag mismatch', { itemId, etag: createETag(existing) });
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified',
+                { etag: createETag(existing) }
+            );
+        }
+
+        // ========================================
+        // 置き換え後のアイテムを組み立てて保存
+        // ========================================
+        const item = {
+            ...body,
+            id: itemId,
+            createdAt: existing.createdAt,
+            updatedAt: new Date().toISOString(),
+            ownerId: existing.ownerId ?? principal.subject,
+            ...(existing.attachments ? { attachments: existing.attachments } : {}),
+            version: nextVersion(existing),
+        };
+
+        logger.debug('Replacing item');
+        await repository.put(item, existing, createChangeContext(principal, item.updatedAt));
+
+        logger.info('Item replaced', { itemId });
+        return createSuccessResponse(HTTP_STATUS.OK, item, { ETag: createETag(item) });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error replacing item', { error: err });
+
+        // 読み取ってから書き込むまでに、他のリクエストがアイテムを更新した
+        if (isConditionalCheckFailedError(err)) {
+            logger.info('Item was modified concurrently');
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified'
+            );
+        }
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// PATCH /items/{id} - アイテム部分更新
+// ========================================
+/**
+ * PATCH /items/{id} - JSON Merge Patch (RFC 7396) でアイテムを部分更新する
+ * 
+ * 使用例：
+ * curl -X PATCH https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000 \
+ *   -H "Content-Type: application/merge-patch+json" \
+ *   -d '{"price": 900, "description": null}'
+ * 
+ * 上記の例では price を 900 に変更し、description を削除する。
+ * 
+ * 学習ポイント：
+ * - Merge Patch のルール(null は削除、オブジェクトは再帰的にマージ、それ以外は置き換え)
+ * - id / createdAt / updatedAt はサーバー管理のため変更できない
+ */
+async function patchItem(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting patch item process');
+
+    try {
+        // ========================================
+        // バリデーション
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+        const itemId = idValidation.id!;
+
+        const validation = validateRequestBody(event.body);
+        if (!validation.isValid) {
+            logger.info('Validation failed', { error: validation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                validation.code!,
+                validation.error!
+            );
+        }
+        const patch = validation.data!;
+
+        // IDはパッチで変更できない
+        if (patch.id !== undefined && patch.id !== itemId) {
+            logger.info('Attempt to change ID', { requestedId: patch.id });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'ID_MISMATCH',
+                'ID in body does not match path'
+            );
+        }
+        delete patch.id;
+
+        // ========================================
+        // 既存アイテムの取得
+        // ========================================
+        const existing = await repository.get(itemId);
+        if (!existing || !canAccessItem(existing, principal) || isExpired(existing)) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+        if (existing.deletedAt) {
+            logger.info('Item has been deleted', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.GONE,
+                'ITEM_DELETED',
+                'Item has been deleted'
+            );
+        }
+
+        // ========================================
+        // 楽観的排他制御(If-Match)
+        // ========================================
+        if (!checkIfMatch(event, existing)) {
+            logger.info('ETag mismatch', { itemId, etag: createETag(existing) });
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified',
+                { etag: createETag(existing) }
+            );
+        }
+
+        // ========================================
+        // パッチを適用してバリデーション
+        // ========================================
+        /**
+         * パッチ適用後のアイテムをスキーマでチェックする
+         * 
+         * 学習ポイント：
+         * - パッチ単体では必須項目がそろっていないのが普通なので、適用後の結果を見る
+         * - サーバー管理のフィールドは、既存のアイテムの値ではなくパッチに含まれるかで判定する
+         */
+        const expiryErrors = normalizeExpiry(patch, Date.now(), true);
+        const patched = applyMergePatch(existing, patch) as Record<string, any>;
+        const candidate = { ...patched };
+        for (const field of ITEM_SCHEMA.reserved) {
+            delete candidate[field];
+        }
+        const schemaErrors = [
+            ...findReservedFields(patch, ITEM_SCHEMA),
+            ...expiryErrors,
+            ...validateItem(candidate, ITEM_SCHEMA),
+        ];
+        if (schemaErrors.length > 0) {
+            logger.info('Schema validation failed', { errors: schemaErrors });
+            return createValidationErrorResponse(schemaErrors);
+        }
+
+        // ========================================
+        // 保存
+        // ========================================
+        const item = {
+            ...patched,
+            updatedAt: new Date().toISOString(),
+            version: nextVersion(existing),
+        };
+
+        logger.debug('Saving patched item');
+        await repository.put(item, existing, createChangeContext(principal, item.updatedAt));
+
+        logger.info('Item patched', { itemId });
+        return createSuccessResponse(HTTP_STATUS.OK, item, { ETag: createETag(item) });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error patching item', { error: err });
+
+        // 読み取ってから書き込むまでに、他のリクエストがアイテムを更新した
+        if (isConditionalCheckFailedError(err)) {
+            logger.info('Item was modified concurrently');
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified'
+            );
+        }
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// DELETE /items/{id} - アイテム削除
+// ========================================
+/**
+ * DELETE /items/{id} - アイテムを削除する
+ * 
+ * デフォルトは論理削除(deletedAt を付与するだけ)で、後から復元できる。
+ * ?hard=true を指定すると DeleteCommand で物理削除する。
+ * 
+ * 使用例：
+ * curl -X DELETE https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000
+ * curl -X DELETE "https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000?hard=true"
+ * 
+ * 成功時のレスポンス：
+ * - 論理削除: 200 OK と deletedAt が付与されたアイテム
+ * - 物理削除: 204 No Content(ボディなし)
+ * 
+ * 学習ポイント：
+ * - 論理削除と物理削除の違い
+ * - 削除済みアイテムへのアクセスは 410 Gone で区別する
+ */
+async function deleteItem(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting delete item process');
+
+    try {
+        // ========================================
+        // バリデーション
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+        const itemId = idValidation.id!;
+
+        const hard = parseBooleanParam(event.queryStringParameters?.hard);
+        if (hard === null) {
+            logger.info('Invalid hard parameter', { hard: event.queryStringParameters?.hard });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'INVALID_QUERY_PARAMETER',
+                "hard must be 'true' or 'false'"
+            );
+        }
+
+        // ========================================
+        // 既存アイテムの取得
+        // ========================================
+        const existing = await repository.get(itemId);
+        if (!existing || !canAccessItem(existing, principal) || isExpired(existing)) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+
+        // ========================================
+        // 楽観的排他制御(If-Match)
+        // ========================================
+        if (!checkIfMatch(event, existing)) {
+            logger.info('ETag mismatch', { itemId, etag: createETag(existing) });
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified',
+                { etag: createETag(existing) }
+            );
+        }
+
+        // ========================================
+        // 物理削除
+        // ========================================
+        /**
+         * repository.delete でアイテムを削除
+         * 
+         * 学習ポイント：
+         * - 論理削除済みのアイテムも物理削除できる
+         * - 読み取った時点から変更されていない場合のみ削除する
+         */
+        if (hard) {
+            logger.debug('Hard deleting item');
+            await repository.delete(itemId, existing, createChangeContext(principal));
+
+            logger.info('Item hard deleted', { itemId });
+            return createSuccessResponse(HTTP_STATUS.NO_CONTENT);
+        }
+
+        // ========================================
+        // 論理削除
+        // ========================================
+        if (existing.deletedAt) {
+            logger.info('Item has already been deleted', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.GONE,
+                'ITEM_DELETED',
+                'Item has been deleted'
+            );
+        }
+
+        const item = {
+            ...existing,
+            deletedAt: new Date().toISOString(),
+            version: nextVersion(existing),
+        };
+
+        logger.debug('Soft deleting item');
+        await repository.put(item, existing, createChangeContext(principal, item.deletedAt));
+
+        logger.info('Item soft deleted', { itemId });
+        return createSuccessResponse(HTTP_STATUS.OK, item, { ETag: createETag(item) });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error deleting item', { error: err });
+
+        // 読み取ってから書き込むまでに、他のリクエストがアイテムを更新した
+        if (isConditionalCheckFailedError(err)) {
+            logger.info('Item was modified concurrently');
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified'
+            );
+        }
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// POST /items/{id}/restore - アイテム復元
+// ========================================
+/**
+ * POST /items/{id}/restore - 論理削除したアイテムを復元する
+ * 
+ * 使用例：
+ * curl -X POST https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000/restore
+ * 
+ * 学習ポイント：
+ * - 論理削除なら deletedAt を取り除くだけで元に戻せる
+ * - 削除されていないアイテムの復元は 409 Conflict
+ */
+async function restoreItem(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting restore item process');
+
+    try {
+        // ========================================
+        // バリデーション
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+        const itemId = idValidation.id!;
+
+        // ========================================
+        // 既存アイテムの取得
+        // ========================================
+        const existing = await repository.get(itemId);
+        if (!existing || !canAccessItem(existing, principal) || isExpired(existing)) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+        if (!existing.deletedAt) {
+            logger.info('Item is not deleted', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                'ITEM_NOT_DELETED',
+                'Item is not deleted'
+            );
+        }
+
+        // ========================================
+        // 楽観的排他制御(If-Match)
+        // ========================================
+        if (!checkIfMatch(event, existing)) {
+            logger.info('ETag mismatch', { itemId, etag: createETag(existing) });
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified',
+                { etag: createETag(existing) }
+            );
+        }
+
+        // ========================================
+        // deletedAt を取り除いて保存
+        // ========================================
+        const item: Record<string, any> = {
+            ...existing,
+            updatedAt: new Date().toISOString(),
+            version: nextVersion(existing),
+        };
+        delete item.deletedAt;
+
+        logger.debug('Restoring item');
+        await repository.put(item, existing, createChangeContext(principal, item.updatedAt));
+
+        logger.info('Item restored', { itemId });
+        return createSuccessResponse(HTTP_STATUS.OK, item, { ETag: createETag(item) });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error restoring item', { error: err });
+
+        // 読み取ってから書き込むまでに、他のリクエストがアイテムを更新した
+        if (isConditionalCheckFailedError(err)) {
+            logger.info('Item was modified concurrently');
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified'
+            );
+        }
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// GET /items/{id}/history - 変更履歴の取得
+// ========================================
+/**
+ * GET /items/{id}/history - アイテムの変更履歴をページ単位で取得する
+ * 
+ * 使用例：
+ * curl "https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000/history?limit=10"
+ * curl "https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000/history?order=oldest"
+ * 
+ * 成功時のレスポンス(デフォルトは新しい順)：
+ * {
+ *   "entries": [
+ *     {
+ *       "itemId": "550e8400-...",
+ *       "version": 2,
+ *       "operation": "update",
+ *       "changedAt": "2025-10-21T11:00:00.000Z",
+ *       "changedBy": "user-123",
+ *       "changes": [{ "op": "replace", "path": "/price", "value": 1200 }]
+ *     }
+ *   ],
+ *   "count": 1,
+ *   "nextCursor": null
+ * }
+ * 
+ * 学習ポイント：
+ * - 論理削除・物理削除されたアイテムの履歴も取得できる(監査のため)
+ * - 物理削除されたアイテムは、履歴に残した所有者(ownerId)で見てよいユーザーを判定する
+ */
+async function getItemHistory(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting get item history process');
+
+    try {
+        // ========================================
+        // パスパラメータ・クエリパラメータの検証
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+        const itemId = idValidation.id!;
+
+        const query = event.queryStringParameters || {};
+        const unknownParameters = Object.keys(query).filter((name) => !HISTORY_QUERY_PARAMETERS.includes(name));
+        if (unknownParameters.length > 0) {
+            logger.info('Unknown query parameters', { parameters: unknownParameters });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'UNKNOWN_QUERY_PARAMETER',
+                `Unknown query parameter: ${unknownParameters.join(', ')}`
+            );
+        }
+
+        const limit = parseLimit(query.limit);
+        if (limit === null) {
+            logger.info('Invalid limit parameter', { limit: query.limit });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'INVALID_QUERY_PARAMETER',
+                `limit must be an integer between 1 and ${CONFIG.MAX_PAGE_LIMIT}`
+            );
+        }
+
+        const order = (query.order ?? 'newest') as HistoryQuery['order'];
+        if (!HISTORY_ORDER_OPTIONS.includes(order)) {
+            logger.info('Invalid order parameter', { order: query.order });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'INVALID_QUERY_PARAMETER',
+                `order must be one of ${HISTORY_ORDER_OPTIONS.join(', ')}`
+            );
+        }
+
+        // ========================================
+        // リポジトリから取得
+        // ========================================
+        let page;
+        try {
+            page = await repository.listHistory(itemId, { limit, cursor: query.cursor || undefined, order });
+        } catch (err) {
+            if (err instanceof InvalidCursorError) {
+                logger.info('Invalid cursor parameter');
+                return createErrorResponse(
+                    HTTP_STATUS.BAD_REQUEST,
+                    'INVALID_CURSOR',
+                    'Invalid cursor'
+                );
+            }
+            throw err;
+        }
+
+        // ========================================
+        // 認可
+        // ========================================
+        /**
+         * 現在のアイテムがあればその所有者、物理削除されていれば履歴の所有者で判定する
+         * 
+         * 学習ポイント：
+         * - 他のユーザーのアイテムは、履歴があることも知られないように404エラーにする
+         * - 物理削除したIDを別のユーザーが作り直すと、前のアイテムの履歴も同じIDに残っている。
+         *   履歴エントリーごとに所有者を確認し、見てよいエントリーだけを返す
+         */
+        const current = await repository.get(itemId);
+        const entries = page.entries.filter((entry) => canAccessItem(entry, principal));
+        const accessible = current ? canAccessItem(current, principal) : entries.length > 0;
+        if (!accessible) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+
+        logger.info('Item history listed', { itemId, count: entries.length, hasNext: page.nextCursor !== null });
+
+        return createSuccessResponse(HTTP_STATUS.OK, {
+            entries,
+            count: entries.length,
+            nextCursor: page.nextCursor,
+        });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error getting item history', { error: err });
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// POST /items/{id}/attachments - 添付ファイルの追加
+// ========================================
+/**
+ * POST /items/{id}/attachments - 添付ファイルの情報をアイテムに保存し、アップロード用の署名付きURLを返す
+ * 
+ * 使用例：
+ * curl -X POST https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000/attachments \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"name": "manual.pdf", "contentType": "application/pdf", "size": 123456, "checksum": "n4bQgYhMfWWaL+qgxVrQFaO/TxsrC4Is0V1sFbDwCgg="}'
+ * 
+ * 成功時のレスポンス(201 Created)：
+ * {
+ *   "attachment": { "id": "0f8fad5b-...", "name": "manual.pdf", "contentType": "application/pdf", ... },
+ *   "upload": {
+ *     "url": "https://items-attachments.s3.ap-northeast-1.amazonaws.com/default/550e8400-.../0f8fad5b-...?X-Amz-...",
+ *     "method": "PUT",
+ *     "headers": { "Content-Type": "application/pdf", "x-amz-checksum-sha256": "n4bQ..." },
+ *     "expiresAt": "2025-10-21T10:35:00.000Z"
+ *   }
+ * }
+ * 
+ * アップロード：
+ * curl -X PUT "<upload.url>" -H "Content-Type: application/pdf" \
+ *   -H "x-amz-checksum-sha256: n4bQ..." --data-binary @manual.pdf
+ * 
+ * 学習ポイント：
+ * - ファイルの中身は API を通さず、クライアントが S3 に直接アップロードする
+ * - 添付ファイルの追加もアイテムの更新なので、version が増え、変更履歴と変更イベントに残る
+ * - 署名付きURLの作成(ローカルの計算)を先に行い、URLを返せない場合はアイテムを更新しない
+ * - URLの期限が切れた場合や、アップロードに失敗した場合は、新しい添付ファイルとして追加し直す
+ */
+async function createAttachment(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting create attachment process');
+
+    try {
+        // ========================================
+        // バリデーション
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+        const itemId = idValidation.id!;
+
+        const validation = validateRequestBody(event.body);
+        if (!validation.isValid) {
+            logger.info('Validation failed', { error: validation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                validation.code!,
+                validation.error!
+            );
+        }
+        const body = validation.data!;
+
+        const attachmentErrors = validateAttachmentInput(body, ATTACHMENT_OPTIONS);
+        if (attachmentErrors.length > 0) {
+            logger.info('Attachment validation failed', { errors: attachmentErrors });
+            return createValidationErrorResponse(attachmentErrors);
+        }
+
+        // ========================================
+        // 既存アイテムの取得
+        // ========================================
+        const existing = await repository.get(itemId);
+        if (!existing || !canAccessItem(existing, principal) || isExpired(existing)) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+        if (existing.deletedAt) {
+            logger.info('Item has been deleted', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.GONE,
+                'ITEM_DELETED',
+                'Item has been deleted'
+            );
+        }
+
+        // ========================================
+        // 楽観的排他制御(If-Match)
+        // ========================================
+        if (!checkIfMatch(event, existing)) {
+            logger.info('ETag mismatch', { itemId, etag: createETag(existing) });
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified',
+                { etag: createETag(existing) }
+            );
+        }
+
+        const attachments: Attachment[] = existing.attachments ?? [];
+        if (attachments.length >= CONFIG.MAX_ATTACHMENTS_PER_ITEM) {
+            logger.info('Too many attachments', { itemId, count: attachments.length });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                'TOO_MANY_ATTACHMENTS',
+                `An item can have at most ${CONFIG.MAX_ATTACHMENTS_PER_ITEM} attachments`
+            );
+        }
+
+        // ========================================
+        // アップロード用のURLを作成
+        // ========================================
+        const now = new Date();
+        const attachment: Attachment = {
+            id: randomUUID(),
+            name: body.name,
+            contentType: body.contentType.toLowerCase(),
+            size: body.size,
+            checksum: body.checksum,
+            createdAt: now.toISOString(),
+        };
+        const key = createAttachmentKey(principal.tenantId ?? DEFAULT_TENANT_ID, itemId, attachment.id);
+        const url = await attachmentStorage.createUploadUrl(key, attachment, ATTACHMENT_OPTIONS.urlExpiresSeconds);
+
+        // ========================================
+        // 添付ファイルの情報をアイテムに保存
+        // ========================================
+        const item = {
+            ...existing,
+            attachments: [...attachments, attachment],
+            updatedAt: attachment.createdAt,
+            version: nextVersion(existing),
+        };
+
+        logger.debug('Saving attachment');
+        await repository.put(item, existing, createChangeContext(principal, item.updatedAt));
+
+        logger.info('Attachment created', { itemId, attachmentId: attachment.id, size: attachment.size });
+        return createSuccessResponse(
+            HTTP_STATUS.CREATED,
+            {
+                attachment,
+                upload: {
+                    url,
+                    method: 'PUT',
+                    headers: createUploadHeaders(attachment),
+                    expiresAt: new Date(now.getTime() + ATTACHMENT_OPTIONS.urlExpiresSeconds * 1000).toISOString(),
+                },
+            },
+            { ETag: createETag(item) }
+        );
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error creating attachment', { error: err });
+
+        // 読み取ってから書き込むまでに、他のリクエストがアイテムを更新した
+        if (isConditionalCheckFailedError(err)) {
+            logger.info('Item was modified concurrently');
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_FAILED,
+                'PRECONDITION_FAILED',
+                'Item has been modified'
+            );
+        }
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// GET /items/{id}/attachments/{attachmentId} - 添付ファイルの取得
+// ========================================
+/**
+ * GET /items/{id}/attachments/{attachmentId} - 添付ファイルのダウンロード用の署名付きURLを返す
+ * 
+ * 使用例：
+ * curl https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000/attachments/0f8fad5b-d9cb-469f-a165-70867728950e
+ * 
+ * 成功時のレスポンス：
+ * {
+ *   "attachment": { "id": "0f8fad5b-...", "name": "manual.pdf", ... },
+ *   "download": { "url": "https://items-attachments.s3...", "method": "GET", "expiresAt": "2025-10-21T10:35:00.000Z" }
+ * }
+ * 
+ * 学習ポイント：
+ * - アイテムを読めるユーザーだけがURLを受け取れる(URLを知っていれば、期限までは誰でもダウンロードできる)
+ * - まだアップロードされていないファイルのURLも返す(S3 が404を返す)
+ */
+async function getAttachment(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting get attachment process');
+
+    try {
+        // ========================================
+        // パスパラメータの検証
+        // ========================================
+        const idValidation = validateItemId(event.pathParameters);
+        if (!idValidation.isValid) {
+            logger.info('Invalid ID parameter', { error: idValidation.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                idValidation.code!,
+                idValidation.error!
+            );
+        }
+        const itemId = idValidation.id!;
+        const attachmentId = event.pathParameters?.attachmentId;
+
+        // ========================================
+        // リポジトリから取得
+        // ========================================
+        const item = await repository.get(itemId);
+        if (!item || !canAccessItem(item, principal) || isExpired(item)) {
+            logger.info('Item not found', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ITEM_NOT_FOUND',
+                'Item not found'
+            );
+        }
+        if (item.deletedAt) {
+            logger.info('Item has been deleted', { itemId });
+            return createErrorResponse(
+                HTTP_STATUS.GONE,
+                'ITEM_DELETED',
+                'Item has been deleted'
+            );
+        }
+
+        const attachment = (item.attachments as Attachment[] | undefined)?.find(
+            (candidate) => candidate.id === attachmentId
+        );
+        if (!attachment) {
+            logger.info('Attachment not found', { itemId, attachmentId });
+            return createErrorResponse(
+                HTTP_STATUS.NOT_FOUND,
+                'ATTACHMENT_NOT_FOUND',
+                'Attachment not found'
+            );
+        }
+
+        // ========================================
+        // ダウンロード用のURLを作成
+        // ========================================
+        const now = Date.now();
+        const key = createAttachmentKey(principal.tenantId ?? DEFAULT_TENANT_ID, itemId, attachment.id);
+        const url = await attachmentStorage.createDownloadUrl(key, attachment, ATTACHMENT_OPTIONS.urlExpiresSeconds);
+
+        logger.info('Attachment download URL created', { itemId, attachmentId });
+        return createSuccessResponse(HTTP_STATUS.OK, {
+            attachment,
+            download: {
+                url,
+                method: 'GET',
+                expiresAt: new Date(now + ATTACHMENT_OPTIONS.urlExpiresSeconds * 1000).toISOString(),
+            },
+        });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error getting attachment', { error: err });
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// 認可(アイテムの所有者)のヘルパー関数
+// ========================================
+/**
+ * ユーザーがアイテムを操作できるかを判定する
+ * 
+ * 学習ポイント：
+ * - アイテムを操作できるのは、作成したユーザー(ownerId)と管理者だけ
+ * - ownerId のない(認証を導入する前に作成された)アイテムは管理者だけが操作できる
+ * 
+ * @param item - アイテム
+ * @param principal - 認証されたユーザー
+ * @returns 操作できる場合true
+ */
+function canAccessItem(item: Record<string, any>, principal: Principal): boolean {
+    return principal.isAdmin || (item.ownerId !== undefined && item.ownerId === principal.subject);
+}
+
+// ========================================
+// 変更履歴のヘルパー関数
+// ========================================
+/**
+ * 変更履歴に残す「誰が・いつ」を作る
+ * 
+ * 学習ポイント：
+ * - 履歴の日時は、アイテムに保存する updatedAt などと同じ値にそろえる
+ * 
+ * @param principal - 認証されたユーザー
+ * @param timestamp - 変更した日時(省略した場合は現在時刻)
+ * @returns 書き込みの情報
+ */
+function createChangeContext(principal: Principal, timestamp: string = new Date().toISOString()): ChangeContext {
+    return { actor: principal.subject, timestamp };
+}
+
+/**
+ * 変更履歴から、指定した日時の時点のアイテムを復元する
+ * 
+ * 学習ポイント：
+ * - 古い順に、asOf 以前の履歴エントリーだけを集めて差分を適用する
+ * - asOf より後のエントリーが出てきたら、続きのページは読まない
+ * 
+ * @param repository - リポジトリ
+ * @param itemId - アイテムのID
+ * @param asOf - 復元する日時(toISOString() の形式)
+ * @returns 復元したアイテム。その時点で存在しなかった・物理削除されていた場合はundefined
+ */
+async function findItemAsOf(repository: ItemRepository, itemId: string, asOf: string): Promise<Record<string, any> | undefined> {
+    const entries: HistoryEntry[] = [];
+    let cursor: string | undefined;
+
+    do {
+        const page = await repository.listHistory(itemId, { limit: CONFIG.MAX_PAGE_LIMIT, cursor, order: 'oldest' });
+        const applicable = page.entries.filter((entry) => entry.changedAt <= asOf);
+        entries.push(...applicable);
+        if (applicable.length < page.entries.length) {
+            break;
+        }
+        cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    logger.debug('Reconstructing item from history', { itemId, asOf, entries: entries.length });
+    return reconstructItem(entries);
+}
+
+// ========================================
+// 有効期限(TTL)のヘルパー関数
+// ========================================
+/**
+ * 有効期限(expiresAt または ttlSeconds)を検証し、expiresAt(UNIX時間の秒)にそろえる
+ * 
+ * 使用例(どちらか一方を指定する)：
+ * { "name": "仮予約", "ttlSeconds": 3600 }                      // 1時間後に期限切れ
+ * { "name": "下書き", "expiresAt": "2025-10-22T09:00:00Z" }     // 指定した日時に期限切れ
+ * 
+ * 学習ポイント：
+ * - expiresAt は DynamoDB の TTL 属性(template.yaml の TimeToLiveSpecification)なので、数値(UNIX時間の秒)で保存する
+ *   (ISO 8601 の日時も受け付けて変換する)
+ * - ttlSeconds は保存せず、expiresAt に変換する
+ * - PATCH では expiresAt: null で有効期限をなくせる(Merge Patch の削除)
+ * 
+ * @param data - リクエストボディ(変換した値で書き換える)
+ * @param now - 現在時刻(UNIX時間のミリ秒)
+ * @param allowNull - expiresAt: null を許可するか(PATCH の場合true)
+ * @returns 違反のリスト
+ */
+function normalizeExpiry(data: Record<string, any>, now: number, allowNull = false): ValidationError[] {
+    const nowSeconds = Math.floor(now / 1000);
+    const maxSeconds = CONFIG.MAX_ITEM_TTL_SECONDS;
+
+    if (data.expiresAt !== undefined && data.ttlSeconds !== undefined) {
+        return [{ pointer: '', message: 'must not contain both expiresAt and ttlSeconds' }];
+    }
+
+    if (data.ttlSeconds !== undefined) {
+        const ttlSeconds = data.ttlSeconds;
+        if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > maxSeconds) {
+            return [{ pointer: '/ttlSeconds', message: `must be an integer between 1 and ${maxSeconds}` }];
+        }
+        delete data.ttlSeconds;
+        data.expiresAt = nowSeconds + ttlSeconds;
+        return [];
+    }
+
+    if (data.expiresAt === undefined || (data.expiresAt === null && allowNull)) {
+        return [];
+    }
+    const expiresAt =
+        typeof data.expiresAt === 'string' ? Math.floor(Date.parse(data.expiresAt) / 1000) : data.expiresAt;
+    if (!Number.isInteger(expiresAt)) {
+        return [{ pointer: '/expiresAt', message: 'must be a UNIX time in seconds or an ISO 8601 date-time' }];
+    }
+    if (expiresAt <= nowSeconds || expiresAt > nowSeconds + maxSeconds) {
+        return [{ pointer: '/expiresAt', message: `must be in the future and within ${maxSeconds} seconds from now` }];
+    }
+    data.expiresAt = expiresAt;
+    return [];
+}
+
+// ========================================
+// バージョン管理(楽観的排他制御)のヘルパー関数
+// ========================================
+/**
+ * 次のバージョン番号を返す
+ * 
+ * 学習ポイント：
+ * - version 属性を持たない古いアイテムはバージョン0として扱う
+ * 
+ * @param existing - 更新前のアイテム(新規作成ならundefined)
+ * @returns 書き込むアイテムのバージョン
+ */
+function nextVersion(existing: Record<string, any> | undefined): number {
+    return (existing?.version ?? 0) + 1;
+}
+
+/**
+ * 指定したIDで新しく作成するアイテムのバージョン番号を返す
+ * 
+ * 学習ポイント：
+ * - 物理削除や TTL で削除されたIDには、前のアイテムの変更履歴が残っている
+ * - 変更履歴のキーは (itemId, version) なので、1 から始めると残っている履歴エントリーと重なり、
+ *   書き込みが失敗し続けてしまう。そのため最後の履歴エントリーの続きから始める
+ * - 自動生成したID(UUID)には履歴がないので、呼び出さなくてよい
+ * 
+ * @param repository - リポジトリ
+ * @param itemId - アイテムのID
+ * @returns 書き込むアイテムのバージョン
+ */
+async function nextCreatedVersion(repository: ItemRepository, itemId: string): Promise<number> {
+    const { entries } = await repository.listHistory(itemId, { limit: 1, order: 'newest' });
+    return (entries[0]?.version ?? 0) + 1;
+}
+
+/**
+ * アイテムのETagを作成する
+ * 
+ * 学習ポイント：
+ * - ETag はダブルクォートで囲んだ文字列(RFC 9110)
+ * - ここではバージョン番号をそのままETagにしている
+ * 
+ * @param item - アイテム
+ * @returns ETag文字列(例: "3")
+ */
+function createETag(item: Record<string, any>): string {
+    return `"${item.version ?? 0}"`;
+}
+
+/**
+ * If-Match / If-None-Match ヘッダーが ETag に一致するかを判定する
+ * 
+ * 学習ポイント：
+ * - ヘッダーにはカンマ区切りで複数のETagを指定できる
+ * - "*" はどのETagにも一致する
+ * - 弱いETag(W/"...")もバージョン番号の比較には使える
+ * 
+ * @param header - ヘッダーの値
+ * @param etag - 現在のアイテムのETag
+ * @returns 一致する場合true
+ */
+function matchesETag(header: string, etag: string): boolean {
+    return header
+        .split(',')
+        .map((value) => value.trim().replace(/^W\//, ''))
+        .some((value) => value === '*' || value === etag);
+}
+
+/**
+ * If-Match ヘッダーの条件を満たすかを判定する
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param existing - 現在のアイテム
+ * @returns If-Match がない、または一致する場合true
+ */
+function checkIfMatch(event: APIGatewayProxyEvent, existing: Record<string, any>): boolean {
+    const ifMatch = getHeader(event, 'If-Match');
+    return ifMatch === undefined || matchesETag(ifMatch, createETag(existing));
+}
+
+/**
+ * リクエストヘッダーを大文字・小文字を区別せずに取得する
+ * 
+ * 学習ポイント：
+ * - HTTPヘッダー名は大文字・小文字を区別しない
+ * - API Gateway はクライアントが送った表記のまま渡してくる
+ * 
+ * @param event - API Gatewayから渡されるイベント情報
+ * @param name - ヘッダー名
+ * @returns ヘッダーの値。存在しない場合はundefined
+ */
+function getHeader(event: APIGatewayProxyEvent, name: string): string | undefined {
+    const headers = event.headers || {};
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * JSON Merge Patch (RFC 7396) を適用する
+ * 
+ * 学習ポイント：
+ * - RFC 7396 の擬似コードをそのまま再帰関数にしたもの
+ * - 元のオブジェクトは変更せず、新しいオブジェクトを返す
+ * 
+ * @param target - パッチ適用前の値
+ * @param patch - パッチ
+ * @returns パッチ適用後の値
+ */
+function applyMergePatch(target: unknown, patch: unknown): unknown {
+    // パッチがオブジェクトでなければ、値そのもので置き換える
+    if (!isPlainObject(patch)) {
+        return patch;
+    }
+
+    const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) {
+            delete result[key];
+        } else {
+            result[key] = applyMergePatch(result[key], value);
+        }
+    }
+    return result;
+}
+
+/**
+ * 値が(配列ではない)JSONオブジェクトかどうかを判定する
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ========================================
+// GET /items - アイテム一覧取得
+// ========================================
+/**
+ * GET /items - アイテムの一覧をページ単位で取得する
+ * 
+ * 条件に合うアイテムをリポジトリから取得し、
+ * 続きがある場合は nextCursor を返す
+ * 
+ * 使用例：
+ * curl "https://your-api.com/items?limit=10"
+ * curl "https://your-api.com/items?limit=10&cursor=eyJpZCI6Ii4uLiJ9"
+ * curl "https://your-api.com/items?priceMin=100&priceMax=500&sort=-price"
+ * curl "https://your-api.com/items?name=サンプル商品&createdAfter=2025-10-01T00:00:00Z"
+ * 
+ * 成功時のレスポンス：
+ * {
+ *   "items": [{ "id": "...", "name": "サンプル商品", ... }],
+ *   "count": 10,
+ *   "nextCursor": "eyJpZCI6IjU1MGU4NDAwLi4uIn0"
+ * }
+ * 
+ * 学習ポイント：
+ * - カーソルの中身をクライアントに意識させない(不透明なカーソル)
+ * - 最後のページでは nextCursor が null になる
+ */
+async function listItems(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting list items process');
+
+    try {
+        const query = event.queryStringParameters || {};
+
+        // ========================================
+        // クエリパラメータの検証
+        // ========================================
+        /**
+         * 知らないパラメータは無視せずに400エラーにする
+         * 
+         * 学習ポイント：
+         * - ?prise=100 のようなタイプミスを無視すると、絞り込まれていない結果が返ってしまう
+         */
+        const unknownParameters = Object.keys(query).filter((name) => !LIST_QUERY_PARAMETERS.includes(name));
+        if (unknownParameters.length > 0) {
+            logger.info('Unknown query parameters', { parameters: unknownParameters });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'UNKNOWN_QUERY_PARAMETER',
+                `Unknown query parameter: ${unknownParameters.join(', ')}`
+            );
+        }
+
+        // ========================================
+        // limit の検証
+        // ========================================
+        const limit = parseLimit(query.limit);
+        if (limit === null) {
+            logger.info('Invalid limit parameter', { limit: query.limit });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'INVALID_QUERY_PARAMETER',
+                `limit must be an integer between 1 and ${CONFIG.MAX_PAGE_LIMIT}`
+            );
+        }
+
+        // ========================================
+        // 絞り込み・並び替えの条件の検証
+        // ========================================
+        const parsed = parseListFilters(query);
+        if (parsed.error) {
+            logger.info('Invalid filter parameter', { error: parsed.error });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'INVALID_QUERY_PARAMETER',
+                parsed.error
+            );
+        }
+        // 管理者以外は、自分が作成したアイテムだけを返す
+        const filters: ListFilters = principal.isAdmin
+            ? parsed.filters!
+            : { ...parsed.filters!, ownerId: principal.subject };
+
+        // ========================================
+        // リポジトリから取得
+        // ========================================
+        /**
+         * repository.list で1ページ分を取得
+         * 
+         * 学習ポイント：
+         * - DynamoDB版では、条件に合うGSIがあればGSIを、なければテーブルをテナントで Query する
+         * - 論理削除されたアイテム(deletedAt あり)は除外される
+         * - カーソルの検証はリポジトリが行う(形式は実装ごとに異なる)
+         */
+        let page;
+        try {
+            page = await repository.list({ filters, limit, cursor: query.cursor || undefined });
+        } catch (err) {
+            if (err instanceof InvalidCursorError) {
+                logger.info('Invalid cursor parameter');
+                return createErrorResponse(
+                    HTTP_STATUS.BAD_REQUEST,
+                    'INVALID_CURSOR',
+                    'Invalid cursor'
+                );
+            }
+            throw err;
+        }
+
+        // 期限が過ぎてまだ削除されていないアイテムは除く(このページの件数が limit より少なくなることがある)
+        const now = Date.now();
+        const items = page.items.filter((item) => !isExpired(item, now));
+        const { nextCursor } = page;
+
+        logger.info('Items listed', { count: items.length, hasNext: nextCursor !== null });
+
+        return createSuccessResponse(HTTP_STATUS.OK, {
+            items,
+            count: items.length,
+            nextCursor,
+        });
+    } catch (err) {
+        // DynamoDB関連のエラー
+        logger.warn('Error listing items', { error: err });
+
+        // DynamoDBのエラーを適切に処理
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
+        }
+
+        throw err; // 予期しないエラーは上位でキャッチ
+    }
+}
+
+// ========================================
+// 絞り込み・並び替え用ヘルパー関数
+// ========================================
+/**
+ * 絞り込み・並び替えのクエリパラメータを解析する
+ * 
+ * @param query - クエリパラメータ
+ * @returns 解析した条件。不正な値の場合はエラーメッセージ
+ */
+function parseListFilters(query: Record<string, string | undefined>): { filters?: ListFilters; error?: string } {
+    const filters: ListFilters = {};
+
+    if (query.name !== undefined) {
+        if (query.name === '') {
+            return { error: 'name must not be empty' };
+        }
+        filters.name = query.name;
+    }
+
+    for (const param of ['priceMin', 'priceMax'] as const) {
+        const value = query[param];
+        if (value === undefined) {
+            continue;
+        }
+        // Number('') は 0、Number('1e3') は 1000 になるため、形式を先に確認する
+        if (!/^-?\d+(\.\d+)?$/.test(value)) {
+            return { error: `${param} must be a number` };
+        }
+        filters[param] = Number(value);
+    }
+    if (filters.priceMin !== undefined && filters.priceMax !== undefined && filters.priceMin > filters.priceMax) {
+        return { error: 'priceMin must be less than or equal to priceMax' };
+    }
+
+    if (query.createdAfter !== undefined) {
+        // createdAt は toISOString() の形式で保存しているので、同じ形式にそろえて文字列で比較する
+        const time = Date.parse(query.createdAfter);
+        if (Number.isNaN(time)) {
+            return { error: 'createdAfter must be an ISO 8601 date-time' };
+        }
+        filters.createdAfter = new Date(time).toISOString();
+    }
+
+    if (query.sort !== undefined) {
+        if (!LIST_SORT_OPTIONS.includes(query.sort)) {
+            return { error: `sort must be one of ${LIST_SORT_OPTIONS.join(', ')}` };
+        }
+        const descending = query.sort.startsWith('-');
+        filters.sort = {
+            field: (descending ? query.sort.slice(1) : query.sort) as 'createdAt' | 'price',
+            descending,
+        };
+    }
+
+    return { filters };
+}
+
 // ========================================
-// メインハンドラー
+// ページネーション用ヘルパー関数
 // ========================================
 /**
- * Lambda関数のメインハンドラー
+ * limit クエリパラメータを解析する
  * 
- * API GatewayからのリクエストをHTTPメソッドに応じて処理する
- * 
- * 学習ポイント：
- * - Lambda関数のエントリーポイント
- * - async/await の使い方
- * - エラーハンドリングの基本パターン
- * 
- * @param event - API Gatewayから渡されるイベント情報
- * @returns API Gatewayに返すレスポンス
+ * @param value - クエリパラメータの文字列(未指定ならundefined)
+ * @returns 有効な件数。不正な値の場合はnull
  */
-export const lambdaHandler = async (
-    event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
-    console.log('[START] Lambda Handler');
-    console.log('[REQUEST] Method:', event.httpMethod);
-    console.log('[REQUEST] Path:', event.path);
-    console.log('[REQUEST] Body:', event.body);
-
-    try {
-        // HTTPメソッドを取得
-        const method = event.httpMethod;
+function parseLimit(value: string | undefined): number | null {
+    if (value === undefined || value === '') {
+        return CONFIG.DEFAULT_PAGE_LIMIT;
+    }
 
-        // POST /items - アイテムを作成
-        if (method === 'POST') {
-            console.log('[ROUTE] POST /items - Create Item');
-            return await createItem(event);
-        }
+    // "10abc" や "1.5" を弾くため、数字のみで構成されているかを確認
+    if (!/^\d+$/.test(value)) {
+        return null;
+    }
 
-        // GET /items/{id} - アイテムを取得
-        if (method === 'GET') {
-            console.log('[ROUTE] GET /items/{id} - Get Item');
-            return await getItem(event);
-        }
+    const limit = Number(value);
+    if (limit < 1 || limit > CONFIG.MAX_PAGE_LIMIT) {
+        return null;
+    }
+    return limit;
+}
 
-        // 上記以外のメソッドはサポートしない
-        console.log('[ERROR] Method not allowed:', method);
-        return createErrorResponse(
-            HTTP_STATUS.METHOD_NOT_ALLOWED,
-            'Method not allowed'
-        );
-    } catch (err) {
-        // 予期しないエラーが発生した場合
-        console.error('[ERROR] Unexpected error:', err);
-        return createErrorResponse(
-            HTTP_STATUS.INTERNAL_SERVER_ERROR,
-            'Internal server error'
-        );
+/**
+ * true/false を表すクエリパラメータを解析する
+ * 
+ * @param value - クエリパラメータの文字列(未指定ならundefined)
+ * @returns 真偽値(未指定はfalse)。不正な値の場合はnull
+ */
+function parseBooleanParam(value: string | undefined): boolean | null {
+    if (value === undefined || value === 'false') {
+        return false;
     }
-};
+    if (value === 'true') {
+        return true;
+    }
+    return null;
+}
 
 // ========================================
-// POST /items - アイテム作成
+// POST /items:batch, POST /items:batchGet - 一括処理
 // ========================================
 /**
- * POST /items - アイテムを作成する
+ * 一括作成の結果(1件ごと)
  * 
- * リクエストボディのJSONをDynamoDBに保存する
+ * - created: 作成した
+ * - invalid: バリデーションエラー(リクエストを修正しない限り成功しない)
+ * - failed: 既に存在する、またはDynamoDB側の理由で書き込めなかった
+ */
+type BatchCreateResult =
+    | { index: number; status: 'created'; id: string; item: Record<string, any> }
+    | { index: number; status: 'invalid'; errors: ValidationError[] }
+    | { index: number; status: 'failed'; id: string; error: string };
+
+/**
+ * 一括取得の結果(1件ごと)
+ */
+type BatchGetResult =
+    | { id: string; status: 'found'; item: Record<string, any> }
+    | { id: string; status: 'notFound' | 'deleted' }
+    | { id: string; status: 'failed'; error: string };
+
+/**
+ * POST /items:batch - アイテムを一括作成する
+ * 
+ * 1件ずつ POST /items を呼び出す代わりに、最大 MAX_BATCH_ITEMS 件をまとめて作成する
  * 
  * 使用例：
- * curl -X POST https://your-api.com/items \
+ * curl -X POST https://your-api.com/items:batch \
  *   -H "Content-Type: application/json" \
- *   -d '{"name": "サンプル商品", "price": 1000}'
+ *   -d '{"items": [{"name": "商品A", "price": 100}, {"name": ""}]}'
  * 
- * 成功時のレスポンス：
+ * 成功時のレスポンス(一部が失敗しても200 OK)：
  * {
- *   "id": "550e8400-e29b-41d4-a716-446655440000",
- *   "name": "サンプル商品",
- *   "price": 1000,
- *   "createdAt": "2025-10-21T10:30:00.000Z"
+ *   "results": [
+ *     { "index": 0, "status": "created", "id": "...", "item": { ... } },
+ *     { "index": 1, "status": "invalid", "errors": [{ "pointer": "/name", "message": "..." }] }
+ *   ],
+ *   "summary": { "created": 1, "invalid": 1, "failed": 0 }
  * }
  * 
  * 学習ポイント：
- * - リクエストボディのバリデーション
- * - DynamoDBへのデータ保存
- * - 適切なHTTPステータスコードの返却
+ * - BatchWriteCommand は1回に25件まで書き込める(それ以上は分割する)
+ * - 先に BatchGetCommand で既存のIDを確認する
+ * - 確認から書き込みまでの間に他のリクエストが同じIDを作成した場合は、そのアイテムだけを失敗にし、残りは作成する
+ * - バリデーションは POST /items と同じルール(ITEM_SCHEMA)を使う
  */
-async function createItem(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-    console.log('[CREATE] Starting create item process');
+async function batchCreateItems(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting batch create process');
 
     try {
         // ========================================
         // バリデーション
         // ========================================
-        console.log('[VALIDATE] Validating request body');
         const validation = validateRequestBody(event.body);
         if (!validation.isValid) {
-            console.log('[VALIDATE] Validation failed:', validation.error);
+            logger.info('Validation failed', { error: validation.error });
             return createErrorResponse(
                 HTTP_STATUS.BAD_REQUEST,
+                validation.code!,
                 validation.error!
             );
         }
-        console.log('[VALIDATE] Validation passed');
 
-        const body = validation.data!;
+        const requested = validation.data!.items;
+        if (!Array.isArray(requested) || requested.length === 0 || requested.length > CONFIG.MAX_BATCH_ITEMS) {
+            logger.info('Invalid batch size', { count: Array.isArray(requested) ? requested.length : null });
+            return createErrorResponse(
+                HTTP_STATUS.BAD_REQUEST,
+                'INVALID_BATCH_SIZE',
+                `items must be an array of 1 to ${CONFIG.MAX_BATCH_ITEMS} items`
+            );
+        }
 
-        // ========================================
-        // IDの処理
-        // ========================================
         /**
-         * IDが指定されていない場合はUUIDを自動生成
+         * 1件ずつバリデーションし、有効なアイテムだけを書き込み対象にする
          * 
-         * なぜUUIDを使うのか：
-         * - グローバルに一意なIDを生成できる
-         * - 分散システムでも衝突の心配がない
-         * - セキュリティ：連番IDと違い推測されにくい
+         * 学習ポイント：
+         * - 1件の不正なデータで全体を失敗させない(部分的な成功を許す)
+         * - 同じIDが2回含まれていると BatchWriteCommand 全体が失敗するため、事前に弾く
          */
-        if (body.id !== undefined) {
-            // IDが指定されている場合はバリデーション
-            console.log('[ID] User provided ID:', body.id);
-            if (typeof body.id !== 'string' || body.id.trim() === '') {
-                console.log('[ID] Invalid ID format');
-                return createErrorResponse(
-                    HTTP_STATUS.BAD_REQUEST,
-                    'ID must be a non-empty string'
-                );
+        const results: BatchCreateResult[] = new Array(requested.length);
+        const pending: { index: number; item: Record<string, any> }[] = [];
+        const seenIds = new Set<string>();
+        const now = Date.now();
+        const createdAt = new Date(now).toISOString();
+
+        requested.forEach((candidate: unknown, index: number) => {
+            if (!isPlainObject(candidate)) {
+                results[index] = { index, status: 'invalid', errors: [{ pointer: '', message: 'must be a JSON object' }] };
+                return;
             }
-        } else {
-            // IDが指定されていない場合は自動生成
-            body.id = randomUUID();
-            console.log('[ID] Generated UUID:', body.id);
-        }
+
+            const errors = [...validateItem(candidate, ITEM_SCHEMA), ...normalizeExpiry(candidate, now)];
+            if (errors.length === 0 && !isValidNewItemId(candidate.id)) {
+                errors.push({ pointer: '/id', message: 'must be a non-empty string' });
+            }
+            if (errors.length === 0 && typeof candidate.id === 'string' && seenIds.has(candidate.id)) {
+                errors.push({ pointer: '/id', message: 'must be unique within the batch' });
+            }
+            if (errors.length > 0) {
+                results[index] = { index, status: 'invalid', errors };
+                return;
+            }
+
+            const item = {
+                ...candidate,
+                id: candidate.id ?? randomUUID(),
+                createdAt,
+                ownerId: principal.subject,
+                version: 1,
+            };
+            seenIds.add(item.id as string);
+            pending.push({ index, item });
+        });
 
         // ========================================
-        // タイムスタンプの追加
+        // 既存のIDの確認
         // ========================================
+        const { items: existingItems, unprocessedIds: uncheckedIds } = await repository.batchGet(
+            pending.map(({ item }) => item.id)
+        );
+        // 期限切れのアイテムは存在しないものとして扱い、createItem と同じく置き換える
+        const expiredById = new Map(
+            existingItems.filter((item) => isExpired(item, now)).map((item) => [item.id, item])
+        );
+        const existingIds = new Set(existingItems.filter((item) => !expiredById.has(item.id)).map((item) => item.id));
+
+        const writable = pending.filter(({ index, item }) => {
+            if (existingIds.has(item.id)) {
+                results[index] = { index, status: 'failed', id: item.id, error: 'Item already exists' };
+                return false;
+            }
+            if (uncheckedIds.includes(item.id)) {
+                results[index] = { index, status: 'failed', id: item.id, error: 'Request was throttled' };
+                return false;
+            }
+            return true;
+        });
+
         /**
-         * 作成日時を自動追加
-         * 
+         * 期限切れのアイテムを置き換える場合は、そのアイテムの続きのバージョンにする
+         * 物理削除されたIDを指定した場合は、残っている変更履歴の続きのバージョンにする
+         *
          * 学習ポイント：
-         * - ISO 8601形式の日時文字列
-         * - サーバー側でタイムスタンプを管理する重要性
+         * - 最大100件の Query を一度に送ると、スロットリングされやすい
+         *   HISTORY_LOOKUP_CONCURRENCY 件ずつに分けて問い合わせる
+         * - 問い合わせに失敗したアイテムだけを failed にし、リクエスト全体は失敗させない
          */
-        body.createdAt = new Date().toISOString();
-        console.log('[TIMESTAMP] Created at:', body.createdAt);
+        const withRequestedId = writable.filter(
+            ({ index }) => (requested[index] as Record<string, any>).id !== undefined
+        );
+        for (const group of chunkArray(withRequestedId, CONFIG.HISTORY_LOOKUP_CONCURRENCY)) {
+            await Promise.all(
+                group.map(async ({ index, item }) => {
+                    const expired = expiredById.get(item.id);
+                    if (expired) {
+                        item.version = nextVersion(expired);
+                        return;
+                    }
+                    try {
+                        item.version = await nextCreatedVersion(repository, item.id);
+                    } catch (err) {
+                        const databaseError = classifyDynamoDBError(err);
+                        if (!databaseError) {
+                            throw err;
+                        }
+                        logger.warn('History lookup failed', { itemId: item.id, error: err });
+                        results[index] = { index, status: 'failed', id: item.id, error: databaseError.message };
+                    }
+                })
+            );
+        }
+        const versioned = writable.filter(({ index }) => results[index] === undefined);
 
         // ========================================
-        // DynamoDBに保存
+        // リポジトリに一括保存
         // ========================================
-        /**
-         * PutCommand でアイテムを保存
-         * 
-         * 学習ポイント：
-         * - AWS SDK v3 のコマンドパターン
-         * - async/await での非同期処理
-         * - 同じIDがある場合は上書きされる(Putの特性)
-         */
-        console.log('[DYNAMODB] Saving to table:', CONFIG.TABLE_NAME);
-        console.log('[DYNAMODB] Item data:', JSON.stringify(body));
-        
-        await dynamodb.send(
-            new PutCommand({
-                TableName: CONFIG.TABLE_NAME,
-                Item: body,
-            })
-        );
+        for (const chunk of chunkArray(versioned, CONFIG.BATCH_WRITE_CHUNK_SIZE)) {
+            let unprocessedIds: string[];
+            let conflictIds: string[] = [];
+            let failureMessage = 'Database service unavailable';
+            try {
+                const result = await repository.batchPut(
+                    chunk.map(({ item }) => item),
+                    createChangeContext(principal, createdAt),
+                    chunk.flatMap(({ item }) => expiredById.get(item.id) ?? [])
+                );
+                unprocessedIds = result.unprocessed.map((item) => item.id);
+                conflictIds = result.conflictIds;
+            } catch (err) {
+                // 1つのチャンクの失敗で、書き込めた他のチャンクの結果を失わないようにする
+                const databaseError = classifyDynamoDBError(err);
+                if (!databaseError) {
+                    throw err;
+                }
+                logger.warn('Batch write chunk failed', { error: err });
+                unprocessedIds = chunk.map(({ item }) => item.id);
+                failureMessage = databaseError.message;
+            }
 
-        console.log('[DYNAMODB] Item saved successfully');
-        console.log('[SUCCESS] Item created with ID:', body.id);
+            // 確認から書き込みまでの間に他のリクエストが作成したIDは、そのアイテムだけを失敗にする
+            for (const { index, item } of chunk) {
+                if (conflictIds.includes(item.id)) {
+                    results[index] = { index, status: 'failed', id: item.id, error: 'Item already exists' };
+                } else if (unprocessedIds.includes(item.id)) {
+                    results[index] = { index, status: 'failed', id: item.id, error: failureMessage };
+                } else {
+                    results[index] = { index, status: 'created', id: item.id, item };
+                }
+            }
+        }
 
-        // 作成したアイテムを返す(201 Created)
-        return createSuccessResponse(HTTP_STATUS.CREATED, body);
+        const summary = {
+            created: results.filter((result) => result.status === 'created').length,
+            invalid: results.filter((result) => result.status === 'invalid').length,
+            failed: results.filter((result) => result.status === 'failed').length,
+        };
+        logger.info('Batch create completed', summary);
+
+        return createSuccessResponse(HTTP_STATUS.OK, { results, summary });
     } catch (err) {
         // DynamoDB関連のエラー
-        console.error('[ERROR] Error creating item:', err);
+        logger.warn('Error creating items in batch', { error: err });
 
         // DynamoDBのエラーを適切に処理
-        if (isDynamoDBError(err)) {
-            console.error('[ERROR] DynamoDB service error');
-            return createErrorResponse(
-                HTTP_STATUS.SERVICE_UNAVAILABLE,
-                'Database service unavailable'
-            );
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
         }
 
         throw err; // 予期しないエラーは上位でキャッチ
     }
 }
 
-// ========================================
-// GET /items/{id} - アイテム取得
-// ========================================
 /**
- * GET /items/{id} - 指定されたIDのアイテムを取得する
- * 
- * パスパラメータからIDを取得してDynamoDBから検索する
+ * POST /items:batchGet - 複数のIDのアイテムをまとめて取得する
  * 
  * 使用例：
- * curl https://your-api.com/items/550e8400-e29b-41d4-a716-446655440000
+ * curl -X POST https://your-api.com/items:batchGet \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"ids": ["id-1", "id-2"]}'
  * 
- * 成功時のレスポンス：
+ * 成功時のレスポンス(リクエストしたIDの順)：
  * {
- *   "id": "550e8400-e29b-41d4-a716-446655440000",
- *   "name": "サンプル商品",
- *   "price": 1000,
- *   "createdAt": "2025-10-21T10:30:00.000Z"
+ *   "results": [
+ *     { "id": "id-1", "status": "found", "item": { ... } },
+ *     { "id": "id-2", "status": "notFound" }
+ *   ]
  * }
  * 
  * 学習ポイント：
- * - パスパラメータの取得方法
- * - DynamoDBからのデータ取得
- * - 404エラーの適切な処理
+ * - BatchGetCommand は結果の順番を保証しないため、IDで引き直して並べる
+ * - 論理削除されたアイテムは item を返さず status: 'deleted' にする
  */
-async function getItem(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-    console.log('[GET] Starting get item process');
+async function batchGetItems(
+    event: APIGatewayProxyEvent,
+    repository: ItemRepository,
+    principal: Principal
+): Promise<APIGatewayProxyResult> {
+    logger.debug('Starting batch get process');
 
     try {
         // ========================================
-        // パスパラメータの検証
+        // バリデーション
         // ========================================
-        /**
-         * パスパラメータの存在確認
-         * 
-         * 学習ポイント：
-         * - 早期リターンパターン(ガード節)
-         * - null/undefined チェックの重要性
-         */
-        if (!event.pathParameters) {
-            console.log('[ERROR] Path parameters missing');
+        const validation = validateRequestBody(event.body);
+        if (!validation.isValid) {
+            logger.info('Validation failed', { error: validation.error });
             return createErrorResponse(
                 HTTP_STATUS.BAD_REQUEST,
-                'Path parameters are required'
+                validation.code!,
+                validation.error!
             );
         }
 
-        // パスパラメータからIDを取得
-        const itemId = event.pathParameters.id;
-        console.log('[GET] Requested item ID:', itemId);
-
-        // IDのバリデーション
-        if (!itemId || itemId.trim() === '') {
-            console.log('[ERROR] ID parameter is empty');
+        const ids = validation.data!.ids;
+        if (!Array.isArray(ids) || ids.length === 0 || ids.length > CONFIG.MAX_BATCH_ITEMS) {
+            logger.info('Invalid batch size', { count: Array.isArray(ids) ? ids.length : null });
             return createErrorResponse(
                 HTTP_STATUS.BAD_REQUEST,
-                'ID parameter is required'
+                'INVALID_BATCH_SIZE',
+                `ids must be an array of 1 to ${CONFIG.MAX_BATCH_ITEMS} ids`
             );
         }
 
-        // IDの形式チェック(基本的なサニタイゼーション)
-        if (itemId.length > CONFIG.MAX_ID_LENGTH) {
-            console.log('[ERROR] ID parameter too long:', itemId.length);
-            return createErrorResponse(
-                HTTP_STATUS.BAD_REQUEST,
-                'ID parameter is too long'
-            );
+        const idErrors: ValidationError[] = [];
+        ids.forEach((id: unknown, index: number) => {
+            if (typeof id !== 'string' || id === '') {
+                idErrors.push({ pointer: `/ids/${index}`, message: 'must be a non-empty string' });
+            } else if (id.length > CONFIG.MAX_ID_LENGTH) {
+                idErrors.push({
+                    pointer: `/ids/${index}`,
+                    message: `must be at most ${CONFIG.MAX_ID_LENGTH} characters`,
+                });
+            }
+        });
+        if (idErrors.length > 0) {
+            logger.info('Invalid ids', { errors: idErrors });
+            return createValidationErrorResponse(idErrors);
         }
 
         // ========================================
-        // DynamoDBから取得
+        // DynamoDBから一括取得
         // ========================================
-        /**
-         * GetCommand でアイテムを取得
-         * 
-         * 学習ポイント：
-         * - プライマリキーを指定したGet操作
-         * - 取得結果が存在しない場合の処理
-         */
-        console.log('[DYNAMODB] Getting item from table:', CONFIG.TABLE_NAME);
-        const response = await dynamodb.send(
-            new GetCommand({
-                TableName: CONFIG.TABLE_NAME,
-                Key: { id: itemId },
-            })
-        );
+        // 同じIDが2回含まれていると BatchGetCommand 全体が失敗するため、重複を除く
+        const { items, unprocessedIds } = await repository.batchGet([...new Set<string>(ids)]);
+        const itemsById = new Map(items.map((item) => [item.id as string, item]));
 
-        // アイテムが見つからない場合は404エラー
-        if (!response.Item) {
-            console.log('[NOT_FOUND] Item not found for ID:', itemId);
-            return createErrorResponse(
-                HTTP_STATUS.NOT_FOUND,
-                'Item not found'
-            );
-        }
+        const results: BatchGetResult[] = ids.map((id: string): BatchGetResult => {
+            const item = itemsById.get(id);
+            // 他のユーザーのアイテムと期限が過ぎたアイテムは、存在しないものとして扱う
+            if (item && canAccessItem(item, principal) && !isExpired(item)) {
+                return item.deletedAt ? { id, status: 'deleted' } : { id, status: 'found', item };
+            }
+            if (unprocessedIds.includes(id)) {
+                return { id, status: 'failed', error: 'Request was throttled' };
+            }
+            return { id, status: 'notFound' };
+        });
 
-        console.log('[SUCCESS] Item retrieved:', JSON.stringify(response.Item));
+        logger.info('Batch get completed', { requested: ids.length, found: items.length });
 
-        // 取得したアイテムを返す(200 OK)
-        return createSuccessResponse(HTTP_STATUS.OK, response.Item);
+        return createSuccessResponse(HTTP_STATUS.OK, { results });
     } catch (err) {
         // DynamoDB関連のエラー
-        console.error('[ERROR] Error getting item:', err);
+        logger.warn('Error getting items in batch', { error: err });
 
         // DynamoDBのエラーを適切に処理
-        if (isDynamoDBError(err)) {
-            console.error('[ERROR] DynamoDB service error');
-            return createErrorResponse(
-                HTTP_STATUS.SERVICE_UNAVAILABLE,
-                'Database service unavailable'
-            );
+        const databaseError = classifyDynamoDBError(err);
+        if (databaseError) {
+            return createDatabaseErrorResponse(databaseError);
         }
 
         throw err; // 予期しないエラーは上位でキャッチ
     }
 }
 
+// ========================================
+// 一括処理用ヘルパー関数
+// ========================================
+/**
+ * 配列を指定した件数ごとに分割する
+ * 
+ * @param array - 分割する配列
+ * @param size - 1つあたりの件数
+ * @returns 分割した配列の配列
+ */
+function chunkArray<T>(array: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < array.length; i += size) {
+        chunks.push(array.slice(i, i + size));
+    }
+    return chunks;
+}
+
 // ========================================
 // バリデーション関数
 // ========================================
+/**
+ * ログに出力するためにリクエストボディを解析する
+ * 
+ * 学習ポイント：
+ * - 文字列のままだとマスキングできないため、JSONとして解析してからロガーに渡す
+ * - 解析できないボディは中身を出さず、サイズだけを残す
+ * 
+ * @param body - リクエストボディの文字列
+ * @returns ログに出力する値
+ */
+function parseBodyForLog(body: string | null): unknown {
+    if (!body) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return `[unparseable body: ${Buffer.byteLength(body, 'utf8')} bytes]`;
+    }
+}
+
+/**
+ * パスパラメータのIDのバリデーション
+ * 
+ * 学習ポイント：
+ * - 早期リターンパターン(ガード節)
+ * - null/undefined チェックの重要性
+ * - GET/PUT/PATCH で同じチェックを共有する
+ * 
+ * @param pathParameters - API Gatewayから渡されるパスパラメータ
+ * @returns バリデーション結果オブジェクト
+ */
+function validateItemId(pathParameters: APIGatewayProxyEvent['pathParameters']): {
+    isValid: boolean;
+    code?: ErrorCode;
+    error?: string;
+    id?: string;
+} {
+    // 1. パスパラメータの存在チェック
+    if (!pathParameters) {
+        return { isValid: false, code: 'ID_REQUIRED', error: 'Path parameters are required' };
+    }
+
+    // 2. IDの存在チェック
+    const itemId = pathParameters.id;
+    if (!itemId || itemId.trim() === '') {
+        return { isValid: false, code: 'ID_REQUIRED', error: 'ID parameter is required' };
+    }
+
+    // 3. IDの形式チェック(基本的なサニタイゼーション)
+    if (itemId.length > CONFIG.MAX_ID_LENGTH) {
+        return { isValid: false, code: 'ID_TOO_LONG', error: 'ID parameter is too long' };
+    }
+
+    return { isValid: true, id: itemId };
+}
+
+/**
+ * 作成時にクライアントが指定したIDのバリデーション
+ * 
+ * 学習ポイント：
+ * - POST /items と POST /items:batch で同じルールを使う
+ * - 未指定(undefined)の場合はサーバーがUUIDを生成するので有効
+ * 
+ * @param id - リクエストボディの id
+ * @returns 有効な場合true
+ */
+function isValidNewItemId(id: unknown): boolean {
+    return id === undefined || (typeof id === 'string' && id.trim() !== '');
+}
+
 /**
  * リクエストボディのバリデーション
  * 
@@ -382,12 +4216,13 @@ async function getItem(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResu
  */
 function validateRequestBody(body: string | null): {
     isValid: boolean;
+    code?: ErrorCode;
     error?: string;
     data?: Record<string, any>;
 } {
     // 1. ボディの存在チェック
     if (!body) {
-        return { isValid: false, error: 'Request body is required' };
+        return { isValid: false, code: 'BODY_REQUIRED', error: 'Request body is required' };
     }
 
     // 2. JSONパース
@@ -395,13 +4230,18 @@ function validateRequestBody(body: string | null): {
     try {
         parsedBody = JSON.parse(body);
     } catch (parseError) {
-        console.log('[VALIDATE] JSON parse error:', parseError);
-        return { isValid: false, error: 'Invalid JSON format' };
+        logger.debug('JSON parse error', { error: parseError });
+        return { isValid: false, code: 'INVALID_JSON', error: 'Invalid JSON format' };
+    }
+
+    // 3. オブジェクトかどうかのチェック(配列や数値などは受け付けない)
+    if (!isPlainObject(parsedBody)) {
+        return { isValid: false, code: 'BODY_NOT_OBJECT', error: 'Request body must be a JSON object' };
     }
 
-    // 3. 空オブジェクトチェック
+    // 4. 空オブジェクトチェック
     if (Object.keys(parsedBody).length === 0) {
-        return { isValid: false, error: 'Request body cannot be empty' };
+        return { isValid: false, code: 'EMPTY_BODY', error: 'Request body cannot be empty' };
     }
 
     return { isValid: true, data: parsedBody };
@@ -419,80 +4259,171 @@ function validateRequestBody(body: string | null): {
  * - Content-Typeヘッダーの重要性
  * 
  * @param statusCode - HTTPステータスコード
- * @param data - レスポンスボディのデータ
+ * @param data - レスポンスボディのデータ(省略するとボディなし)
+ * @param headers - 追加するレスポンスヘッダー(ETag など)
  * @returns API Gatewayレスポンスオブジェクト
  */
-function createSuccessResponse(statusCode: number, data: any): APIGatewayProxyResult {
-    console.log('[RESPONSE] Success response:', statusCode);
+function createSuccessResponse(
+    statusCode: number,
+    data?: any,
+    headers?: Record<string, string>
+): APIGatewayProxyResult {
+    logger.debug('Success response', { statusCode });
     return {
         statusCode,
         headers: {
             'Content-Type': 'application/json',
+            ...headers,
         },
-        body: JSON.stringify(data),
+        // 204 No Content / 304 Not Modified などボディのないレスポンスは空文字列にする
+        body: data === undefined ? '' : JSON.stringify(data),
     };
 }
 
 /**
- * エラーレスポンスを作成するヘルパー関数
+ * エラーレスポンス(application/problem+json)を作成するヘルパー関数
  * 
  * 学習ポイント：
- * - 一貫性のあるエラーレスポンス形式
- * - タイムスタンプの付与(デバッグ用)
+ * - 一貫性のあるエラーレスポンス形式(RFC 7807、詳しくは problem.ts を参照)
+ * - クライアントは message(detail)の文字列ではなく code で判定する
+ * - instance(リクエストID)とレガシー形式への変換は、createLambdaHandler が最後に行う
  * - 適切なHTTPステータスコードの使用
  * 
  * @param statusCode - HTTPステータスコード
- * @param message - エラーメッセージ
+ * @param code - エラーコード(problem.ts の ERROR_CODES)
+ * @param message - エラーメッセージ(detail)
+ * @param details - エラーの補足情報(拡張メンバーとしてレスポンスボディに追加される)
  * @returns API Gatewayレスポンスオブジェクト
  */
-function createErrorResponse(statusCode: number, message: string): APIGatewayProxyResult {
-    console.log('[RESPONSE] Error response:', statusCode, message);
+function createErrorResponse(
+    statusCode: number,
+    code: ErrorCode,
+    message: string,
+    details?: Record<string, any>
+): APIGatewayProxyResult {
+    logger.debug('Error response', { statusCode, code, error: message });
     return {
         statusCode,
         headers: {
-            'Content-Type': 'application/json',
+            'Content-Type': PROBLEM_MEDIA_TYPE,
         },
-        body: JSON.stringify({
-            error: message,
-            statusCode,
-            timestamp: new Date().toISOString(),
-        }),
+        body: JSON.stringify(createProblem(statusCode, code, message, details)),
     };
 }
 
+/**
+ * エラーレスポンスに instance を付け、要求された形式に変換する
+ * 
+ * 学習ポイント：
+ * - 各処理は常に problem+json を作り、形式の選択はこの1か所で行う
+ * - 冪等キーで保存したエラーを再送する場合も、今回のリクエストIDと形式で返す
+ * 
+ * @param response - API Gatewayレスポンス
+ * @param format - エラーレスポンスの形式
+ * @param requestId - リクエストID(instance に入れる)
+ * @returns 変換したレスポンス(エラーでなければそのまま)
+ */
+function formatErrorResponse(
+    response: APIGatewayProxyResult,
+    format: ErrorFormat,
+    requestId: string | undefined
+): APIGatewayProxyResult {
+    if (response.headers?.['Content-Type'] !== PROBLEM_MEDIA_TYPE) {
+        return response;
+    }
+
+    const problem: ProblemDetails = { ...JSON.parse(response.body), instance: requestId };
+    if (format === 'legacy') {
+        return {
+            ...response,
+            headers: { ...response.headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify(toLegacyError(problem)),
+        };
+    }
+    return { ...response, body: JSON.stringify(problem) };
+}
+
+/**
+ * スキーマのバリデーションエラーのレスポンスを作成するヘルパー関数
+ * 
+ * レスポンス例：
+ * {
+ *   "type": "urn:items-api:problem:validation-failed",
+ *   "title": "Validation failed",
+ *   "status": 400,
+ *   "detail": "Validation failed",
+ *   "code": "VALIDATION_FAILED",
+ *   "errors": [
+ *     { "pointer": "/name", "message": "is required" },
+ *     { "pointer": "/price", "message": "must be a number" }
+ *   ]
+ * }
+ * 
+ * @param errors - スキーマの違反のリスト
+ * @returns API Gatewayレスポンスオブジェクト
+ */
+function createValidationErrorResponse(errors: ValidationError[]): APIGatewayProxyResult {
+    return createErrorResponse(
+        HTTP_STATUS.BAD_REQUEST,
+        'VALIDATION_FAILED',
+        'Validation failed',
+        { errors }
+    );
+}
+
+/**
+ * 401 Unauthorized のレスポンスを作成する
+ * 
+ * 学習ポイント：
+ * - WWW-Authenticate ヘッダーで、必要な認証方式(Bearerトークン)をクライアントに伝える
+ * 
+ * @param message - エラーメッセージ
+ * @returns API Gatewayレスポンスオブジェクト
+ */
+function createUnauthorizedResponse(message: string): APIGatewayProxyResult {
+    const response = createErrorResponse(
+        HTTP_STATUS.UNAUTHORIZED,
+        'UNAUTHORIZED',
+        message
+    );
+    return { ...response, headers: { ...response.headers, 'WWW-Authenticate': 'Bearer' } };
+}
+
+/**
+ * DynamoDBのエラーのレスポンスを作成するヘルパー関数
+ * 
+ * 学習ポイント：
+ * - エラーの種類に応じて 400 / 409 / 413 / 429 / 503 / 504 を返す(dynamodb-errors.ts を参照)
+ * - 混雑や一時的な障害の場合は Retry-After ヘッダーで、再試行までに待つ秒数を伝える
+ * - サーバー側の問題(5xx)は error、リクエスト側の問題(4xx)は warn でログに出す
+ * 
+ * @param databaseError - DynamoDBのエラーの分類結果
+ * @returns API Gatewayレスポンスオブジェクト
+ */
+function createDatabaseErrorResponse(databaseError: DynamoDBErrorClassification): APIGatewayProxyResult {
+    const log = databaseError.statusCode >= HTTP_STATUS.INTERNAL_SERVER_ERROR ? logger.error : logger.warn;
+    log('DynamoDB error', { errorKind: databaseError.kind, statusCode: databaseError.statusCode });
+
+    const response = createErrorResponse(
+        databaseError.statusCode,
+        databaseError.code,
+        databaseError.message
+    );
+    if (databaseError.retryAfterSeconds === undefined) {
+        return response;
+    }
+    return { ...response, headers: { ...response.headers, 'Retry-After': String(databaseError.retryAfterSeconds) } };
+}
+
 // ========================================
 // エラー判定ヘルパー関数
 // ========================================
 /**
- * DynamoDBのエラーかどうかを判定するヘルパー関数
- * 
- * 学習ポイント：
- * - unknown型の安全な型チェック方法
- * - Type Guardパターン
- * - DynamoDBの主要なエラー種類
+ * 条件付き書き込みの失敗かどうかを判定するヘルパー関数
  * 
  * @param err - チェックするエラーオブジェクト
- * @returns DynamoDBエラーの場合true
+ * @returns ConditionFailedError(ConditionalCheckFailedException)の場合true
  */
-function isDynamoDBError(err: unknown): boolean {
-    if (typeof err === 'object' && err !== null) {
-        const error = err as { name?: string };
-        
-        /**
-         * 既知のDynamoDBエラー名のリスト
-         * 
-         * 主なエラーの意味：
-         * - ResourceNotFoundException: テーブルが存在しない
-         * - ProvisionedThroughputExceededException: スループット制限超過
-         * - ServiceUnavailable: DynamoDBサービスが利用不可
-         */
-        const dynamoDBErrors = [
-            'ResourceNotFoundException',
-            'ProvisionedThroughputExceededException',
-            'ServiceUnavailable',
-        ];
-        
-        return dynamoDBErrors.includes(error.name || '');
-    }
-    return false;
-}
\ No newline at end of file
+function isConditionalCheckFailedError(err: unknown): boolean {
+    return classifyDynamoDBError(err)?.kind === 'CONDITIONAL_CHECK_FAILED';
+}
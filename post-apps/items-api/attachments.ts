@@ -0,0 +1,337 @@
+/**
+ * アイテムの添付ファイル(画像・PDFなど)の署名付きURL(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. S3 の署名付きURL(presigned URL)で、ファイルの中身を Lambda に通さずにアップロード・ダウンロードさせる方法
+ * 2. 署名にサイズ・Content-Type・チェックサムを含めて、申告と違うファイルを S3 に拒否させる方法
+ * 3. 保存先をインターフェースにして、S3 と S3 互換のサーバー(ローカル開発・テスト)を差し替える方法
+ *
+ * 流れ：
+ * 1. POST /items/{id}/attachments でファイルの情報(名前・種類・サイズ・チェックサム)を送る
+ *    → アイテムに添付ファイルの情報を保存し、アップロード用のURLを返す
+ * 2. クライアントはそのURLにファイルを PUT する(指定されたヘッダーを付ける)
+ * 3. GET /items/{id}/attachments/{attachmentId} でダウンロード用のURLを受け取り、そのURLから GET する
+ *
+ * アイテムに保存する情報の例：
+ * "attachments": [
+ *   {
+ *     "id": "0f8fad5b-d9cb-469f-a165-70867728950e",
+ *     "name": "manual.pdf",
+ *     "contentType": "application/pdf",
+ *     "size": 123456,
+ *     "checksum": "n4bQgYhMfWWaL+qgxVrQFaO/TxsrC4Is0V1sFbDwCgg=",
+ *     "createdAt": "2025-10-21T10:30:00.000Z"
+ *   }
+ * ]
+ *
+ * 学習ポイント：
+ * - API Gateway のペイロードの上限(10MB)があるため、ファイルの中身は API を通さずに S3 と直接やり取りする
+ * - 署名付きURLは、署名した Lambda のロールの権限で、決められた時間だけ1つの操作(1つのキーへの PUT / GET)を許可する
+ * - S3 のキーはテナント・アイテムごとに分ける(他のテナントのファイルのURLは作られない)
+ */
+
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { parseInteger } from './retry';
+import { ValidationError } from './schema';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * アイテムに保存する添付ファイルの情報
+ */
+export interface Attachment {
+    id: string;
+    /** ファイル名(ダウンロード時のファイル名になる) */
+    name: string;
+    /** ファイルの種類(MIMEタイプ) */
+    contentType: string;
+    /** ファイルのサイズ(バイト) */
+    size: number;
+    /** ファイルの SHA-256(Base64)。S3 がアップロードされた中身と照合する */
+    checksum: string;
+    createdAt: string;
+}
+
+/**
+ * POST /items/{id}/attachments のリクエストボディ
+ */
+export type AttachmentInput = Pick<Attachment, 'name' | 'contentType' | 'size' | 'checksum'>;
+
+/**
+ * 添付ファイルの制限
+ */
+export interface AttachmentOptions {
+    /** ファイルの最大サイズ(バイト) */
+    maxSizeBytes: number;
+    /** 添付できるファイルの種類(MIMEタイプ) */
+    allowedContentTypes: string[];
+    /** 署名付きURLの有効期間(秒) */
+    urlExpiresSeconds: number;
+}
+
+/**
+ * S3 の保存先の設定
+ */
+export interface S3AttachmentStorageOptions {
+    /** ファイルを保存するバケット */
+    bucketName: string;
+}
+
+/**
+ * 添付ファイルの保存先
+ *
+ * 学習ポイント：
+ * - 保存先はファイルの中身を受け取らない(URLを作るだけ)。中身はクライアントと保存先が直接やり取りする
+ */
+export interface AttachmentStorage {
+    /**
+     * アップロード用のURLを作成する
+     *
+     * @param key - 保存先のキー
+     * @param attachment - 添付ファイルの情報(サイズ・種類・チェックサムを署名に含める)
+     * @param expiresInSeconds - URLの有効期間(秒)
+     * @returns PUT するURL
+     */
+    createUploadUrl(key: string, attachment: Attachment, expiresInSeconds: number): Promise<string>;
+    /**
+     * ダウンロード用のURLを作成する
+     *
+     * @param key - 保存先のキー
+     * @param attachment - 添付ファイルの情報(ファイル名と種類をレスポンスのヘッダーにする)
+     * @param expiresInSeconds - URLの有効期間(秒)
+     * @returns GET するURL
+     */
+    createDownloadUrl(key: string, attachment: Attachment, expiresInSeconds: number): Promise<string>;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * デフォルトの制限(10MBまでの画像とPDF、URLは5分間有効)
+ */
+export const DEFAULT_ATTACHMENT_OPTIONS: AttachmentOptions = {
+    maxSizeBytes: 10 * 1024 * 1024,
+    allowedContentTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'],
+    urlExpiresSeconds: 300,
+};
+
+/**
+ * ファイル名の最大長
+ */
+export const MAX_ATTACHMENT_NAME_LENGTH = 255;
+
+/**
+ * 署名付きURLの有効期間の上限(署名バージョン4の上限の7日間)
+ *
+ * 学習ポイント：
+ * - Lambda のロールの一時的な認証情報で署名したURLは、認証情報の期限(数時間)が切れると、この期間より前でも使えなくなる
+ */
+export const MAX_ATTACHMENT_URL_EXPIRES_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * チェックサムの形式(SHA-256 の32バイトを Base64 にした44文字)
+ */
+const CHECKSUM_PATTERN = /^[A-Za-z0-9+/]{43}=$/;
+
+/**
+ * MIMEタイプの形式(type/subtype)
+ */
+const CONTENT_TYPE_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/;
+
+/**
+ * リクエストボディに指定できるフィールド
+ */
+const ATTACHMENT_INPUT_FIELDS = ['name', 'contentType', 'size', 'checksum'];
+
+// ========================================
+// 設定の読み込み
+// ========================================
+/**
+ * 環境変数から添付ファイルの制限を読み込む
+ *
+ * 使用例(template.yaml の環境変数)：
+ * ATTACHMENT_MAX_SIZE_BYTES: '20971520'
+ * ATTACHMENT_CONTENT_TYPES: 'image/png,image/jpeg,application/pdf'
+ * ATTACHMENT_URL_EXPIRES_SECONDS: '600'
+ *
+ * @param env - 環境変数
+ * @returns 添付ファイルの制限
+ */
+export function loadAttachmentOptions(env: Record<string, string | undefined>): AttachmentOptions {
+    const options: AttachmentOptions = {
+        maxSizeBytes: parseInteger(env, 'ATTACHMENT_MAX_SIZE_BYTES', 1) ?? DEFAULT_ATTACHMENT_OPTIONS.maxSizeBytes,
+        allowedContentTypes: DEFAULT_ATTACHMENT_OPTIONS.allowedContentTypes,
+        urlExpiresSeconds:
+            parseInteger(env, 'ATTACHMENT_URL_EXPIRES_SECONDS', 1) ?? DEFAULT_ATTACHMENT_OPTIONS.urlExpiresSeconds,
+    };
+
+    const contentTypes = env.ATTACHMENT_CONTENT_TYPES?.split(',')
+        .map((value) => value.trim().toLowerCase())
+        .filter((value) => value !== '');
+    if (contentTypes !== undefined && contentTypes.length > 0) {
+        const invalid = contentTypes.filter((value) => !CONTENT_TYPE_PATTERN.test(value));
+        if (invalid.length > 0) {
+            throw new Error(`Invalid ATTACHMENT_CONTENT_TYPES: ${invalid.join(', ')}`);
+        }
+        options.allowedContentTypes = contentTypes;
+    }
+
+    if (options.urlExpiresSeconds > MAX_ATTACHMENT_URL_EXPIRES_SECONDS) {
+        throw new Error(
+            `Invalid ATTACHMENT_URL_EXPIRES_SECONDS: must be less than or equal to ${MAX_ATTACHMENT_URL_EXPIRES_SECONDS}`
+        );
+    }
+    return options;
+}
+
+// ========================================
+// バリデーション
+// ========================================
+/**
+ * POST /items/{id}/attachments のリクエストボディを検証する
+ *
+ * 学習ポイント：
+ * - サイズ・種類・チェックサムは署名に含めるので、ここで通した値と違うファイルは S3 がアップロードを拒否する
+ * - ファイル名はダウンロード時の Content-Disposition に使うため、制御文字とパスの区切り文字を許可しない
+ *
+ * @param data - リクエストボディ
+ * @param options - 添付ファイルの制限
+ * @returns 違反の一覧(問題がなければ空の配列)
+ */
+export function validateAttachmentInput(data: Record<string, unknown>, options: AttachmentOptions): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const field of Object.keys(data).filter((field) => !ATTACHMENT_INPUT_FIELDS.includes(field))) {
+        errors.push({ pointer: `/${field}`, message: 'is not allowed' });
+    }
+
+    const { name, contentType, size, checksum } = data;
+    if (
+        typeof name !== 'string' ||
+        name.trim() === '' ||
+        name.length > MAX_ATTACHMENT_NAME_LENGTH ||
+        /[\u0000-\u001f\u007f/\\]/.test(name)
+    ) {
+        errors.push({
+            pointer: '/name',
+            message: `must be a file name of 1 to ${MAX_ATTACHMENT_NAME_LENGTH} characters without slashes or control characters`,
+        });
+    }
+    if (typeof contentType !== 'string' || !options.allowedContentTypes.includes(contentType.toLowerCase())) {
+        errors.push({ pointer: '/contentType', message: `must be one of ${options.allowedContentTypes.join(', ')}` });
+    }
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > options.maxSizeBytes) {
+        errors.push({ pointer: '/size', message: `must be an integer between 1 and ${options.maxSizeBytes}` });
+    }
+    if (typeof checksum !== 'string' || !CHECKSUM_PATTERN.test(checksum)) {
+        errors.push({ pointer: '/checksum', message: 'must be the base64-encoded SHA-256 digest of the file' });
+    }
+
+    return errors;
+}
+
+// ========================================
+// キーとヘッダー
+// ========================================
+/**
+ * 添付ファイルを保存するキーを作成する
+ *
+ * 使用例：
+ * createAttachmentKey('acme', 'item-1', '0f8fad5b-...');  // 'acme/item-1/0f8fad5b-...'
+ *
+ * 学習ポイント：
+ * - アイテムIDには / などを含められるため、エンコードしてキーの階層がずれないようにする
+ *   (テナントIDと添付ファイルのIDは / を含まない)
+ *
+ * @param tenantId - テナントID
+ * @param itemId - アイテムID
+ * @param attachmentId - 添付ファイルのID
+ * @returns 保存先のキー
+ */
+export function createAttachmentKey(tenantId: string, itemId: string, attachmentId: string): string {
+    return `${tenantId}/${encodeURIComponent(itemId)}/${attachmentId}`;
+}
+
+/**
+ * ダウンロード時の Content-Disposition を作成する
+ *
+ * 使用例：
+ * createContentDisposition('説明書.pdf');
+ * // attachment; filename="___.pdf"; filename*=UTF-8''%E8%AA%AC%E6%98%8E%E6%9B%B8.pdf
+ *
+ * 学習ポイント：
+ * - filename には ASCII しか書けないので、日本語のファイル名は filename*(RFC 6266 / RFC 5987)で渡す
+ * - attachment にすると、ブラウザは表示せずに保存する(アップロードされた HTML などをサイト上で開かせない)
+ *
+ * @param name - ファイル名
+ * @returns Content-Disposition の値
+ */
+export function createContentDisposition(name: string): string {
+    const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    const encoded = encodeURIComponent(name).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * アップロードのときに付けるヘッダー(署名に含めたヘッダー)
+ *
+ * 学習ポイント：
+ * - Content-Length は HTTP クライアントがボディから自動で付けるので、クライアントに指定させない
+ *
+ * @param attachment - 添付ファイルの情報
+ * @returns ヘッダー名 → 値
+ */
+export function createUploadHeaders(attachment: Attachment): Record<string, string> {
+    return {
+        'Content-Type': attachment.contentType,
+        'x-amz-checksum-sha256': attachment.checksum,
+    };
+}
+
+// ========================================
+// S3
+// ========================================
+/**
+ * S3 の署名付きURLを作成する保存先を作成する
+ *
+ * 学習ポイント：
+ * - 署名付きURLの作成はローカルの計算だけで、S3 にはリクエストしない(S3 が使えなくてもURLは作れる)
+ * - Content-Type と Content-Length を署名するヘッダーに入れると、違う種類・サイズのファイルは署名が一致せずに拒否される
+ * - x-amz-checksum-sha256 はクエリ文字列に移さず(unhoistableHeaders)ヘッダーのまま送らせ、S3 に中身と照合させる
+ * - client の endpoint を S3 互換のサーバー(MinIO など)にすると、AWS なしで動かせる
+ *
+ * @param client - S3 クライアント
+ * @param options - 保存先の設定
+ * @returns 添付ファイルの保存先
+ */
+export function createS3AttachmentStorage(client: S3Client, options: S3AttachmentStorageOptions): AttachmentStorage {
+    return {
+        async createUploadUrl(key, attachment, expiresInSeconds) {
+            const command = new PutObjectCommand({
+                Bucket: options.bucketName,
+                Key: key,
+                ContentType: attachment.contentType,
+                ContentLength: attachment.size,
+                ChecksumSHA256: attachment.checksum,
+            });
+            return getSignedUrl(client, command, {
+                expiresIn: expiresInSeconds,
+                signableHeaders: new Set(['content-type', 'content-length']),
+                unhoistableHeaders: new Set(['x-amz-checksum-sha256']),
+            });
+        },
+
+        async createDownloadUrl(key, attachment, expiresInSeconds) {
+            const command = new GetObjectCommand({
+                Bucket: options.bucketName,
+                Key: key,
+                ResponseContentType: attachment.contentType,
+                ResponseContentDisposition: createContentDisposition(attachment.name),
+            });
+            return getSignedUrl(client, command, { expiresIn: expiresInSeconds });
+        },
+    };
+}
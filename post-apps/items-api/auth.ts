@@ -0,0 +1,375 @@
+/**
+ * JWT(Bearerトークン)による認証(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. JWTの構造(ヘッダー・ペイロード・署名)と署名の検証
+ * 2. JWKS(公開鍵のセット)と共有シークレットの使い分け
+ * 3. API Gateway のオーソライザーが検証済みのクレームの利用
+ *
+ * 対応する署名アルゴリズム：
+ * - RS256 / ES256: JWKS(AUTH_JWKS または AUTH_JWKS_URL)の公開鍵で検証
+ * - HS256: 共有シークレット(AUTH_JWT_SECRET)で検証
+ *
+ * 注意：
+ * - alg: none のトークンや、鍵の種類とアルゴリズムが合わないトークンは受け付けない
+ *   (公開鍵をHS256のシークレットとして使わせる「アルゴリズム混同攻撃」を防ぐ)
+ */
+
+import { createHmac, createPublicKey, JsonWebKey, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 認証されたユーザー
+ */
+export interface Principal {
+    /** ユーザーID(トークンの sub クレーム) */
+    subject: string;
+    /** トークンのスコープ */
+    scopes: string[];
+    /** 管理者(他のユーザーのアイテムも操作できる) */
+    isAdmin: boolean;
+    /**
+     * テナントID
+     * - 認証の直後: トークンのテナントのクレーム(ない場合はundefined)
+     * - 各処理に渡すとき: リクエストの対象のテナント(tenant.ts の resolveTenant で決める)
+     */
+    tenantId?: string;
+}
+
+/**
+ * JWKS(JSON Web Key Set)
+ */
+export interface JsonWebKeySet {
+    keys: (JsonWebKey & { kid?: string; alg?: string; use?: string })[];
+}
+
+/**
+ * 認証の設定
+ */
+export interface AuthOptions {
+    /** 'jwt': トークンを検証する / 'none': 認証しない(ローカル開発用。すべて管理者として扱う) */
+    mode: 'jwt' | 'none';
+    /** 公開鍵のセット(オフラインでの検証やテスト用) */
+    jwks?: JsonWebKeySet;
+    /** 公開鍵のセットを取得するURL(Cognito など) */
+    jwksUrl?: string;
+    /** HS256 の共有シークレット */
+    secret?: string;
+    /** 期待する発行者(iss)。未設定なら検証しない */
+    issuer?: string;
+    /** 期待する利用者(aud)。未設定なら検証しない */
+    audience?: string;
+    /** 管理者のスコープ */
+    adminScope: string;
+    /** テナントIDが入っているクレームの名前(Cognito のカスタム属性なら custom:tenantId)。未設定なら tenant_id */
+    tenantClaim?: string;
+    /** 時刻のずれの許容(秒) */
+    clockToleranceSeconds?: number;
+    /** jwksUrl から取得した鍵をキャッシュする時間(秒) */
+    jwksCacheSeconds?: number;
+}
+
+/**
+ * リクエストを認証する関数
+ */
+export type Authenticator = (event: APIGatewayProxyEvent) => Promise<Principal>;
+
+// ========================================
+// エラー
+// ========================================
+/**
+ * 認証の失敗を表すエラー(401 Unauthorized)
+ *
+ * 学習ポイント：
+ * - message はクライアントに返すため、失敗の詳しい理由(署名が違う、期限切れなど)は reason に分ける
+ */
+export class AuthenticationError extends Error {
+    constructor(
+        message: string,
+        readonly reason: string = message
+    ) {
+        super(message);
+        this.name = 'AuthenticationError';
+    }
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * アルゴリズムごとの検証方法
+ */
+const ALGORITHMS = {
+    RS256: { kty: 'RSA', dsaEncoding: undefined },
+    ES256: { kty: 'EC', dsaEncoding: 'ieee-p1363' },
+} as const;
+
+/**
+ * テナントIDが入っているクレームの名前(AuthOptions.tenantClaim のデフォルト)
+ */
+const DEFAULT_TENANT_CLAIM = 'tenant_id';
+
+/**
+ * 認証しない場合のユーザー
+ */
+const ANONYMOUS_PRINCIPAL: Principal = { subject: 'anonymous', scopes: [], isAdmin: true };
+
+// ========================================
+// 認証
+// ========================================
+/**
+ * リクエストを認証する関数を作成する
+ *
+ * 学習ポイント：
+ * - API Gateway のオーソライザー(Cognito など)を設定している場合、検証済みのクレームが
+ *   requestContext.authorizer に入るので、それを使う(クライアントは requestContext を書き換えられない)
+ * - オーソライザーがない場合は Authorization: Bearer <トークン> を自分で検証する
+ *
+ * @param options - 認証の設定
+ * @returns リクエストを認証する関数(失敗時は AuthenticationError)
+ */
+export function createAuthenticator(options: AuthOptions): Authenticator {
+    if (options.mode === 'none') {
+        return async () => ANONYMOUS_PRINCIPAL;
+    }
+
+    const resolveKey = createKeyResolver(options);
+
+    return async (event) => {
+        const authorizerClaims = getAuthorizerClaims(event);
+        if (authorizerClaims) {
+            return toPrincipal(authorizerClaims, options);
+        }
+
+        const header = event.headers?.Authorization ?? event.headers?.authorization;
+        const match = header ? /^Bearer +(\S+)$/i.exec(header) : null;
+        if (!match) {
+            throw new AuthenticationError('Missing bearer token');
+        }
+
+        const claims = await verifyJwt(match[1], resolveKey, options);
+        return toPrincipal(claims, options);
+    };
+}
+
+/**
+ * API Gateway のオーソライザーが検証したクレームを取り出す
+ *
+ * - REST API(Cognito オーソライザー): requestContext.authorizer.claims
+ * - HTTP API(JWT オーソライザー): requestContext.authorizer.jwt.claims
+ */
+function getAuthorizerClaims(event: APIGatewayProxyEvent): Record<string, unknown> | undefined {
+    const authorizer = event.requestContext?.authorizer as Record<string, any> | null | undefined;
+    const claims = authorizer?.claims ?? authorizer?.jwt?.claims;
+    return typeof claims === 'object' && claims !== null ? claims : undefined;
+}
+
+/**
+ * クレームからユーザーを作成する
+ *
+ * 学習ポイント：
+ * - スコープは scope(スペース区切りの文字列)または scp(配列)に入っている
+ * - テナントのクレームが文字列でない(空文字を含む)場合は、テナントなしとして扱う
+ */
+function toPrincipal(claims: Record<string, unknown>, options: AuthOptions): Principal {
+    if (typeof claims.sub !== 'string' || claims.sub === '') {
+        throw new AuthenticationError('Invalid token', 'sub claim is missing');
+    }
+
+    const rawScopes = claims.scope ?? claims.scp;
+    const scopes = Array.isArray(rawScopes)
+        ? rawScopes.filter((scope): scope is string => typeof scope === 'string')
+        : typeof rawScopes === 'string'
+          ? rawScopes.split(' ').filter((scope) => scope !== '')
+          : [];
+
+    const tenantId = claims[options.tenantClaim ?? DEFAULT_TENANT_CLAIM];
+    return {
+        subject: claims.sub,
+        scopes,
+        isAdmin: scopes.includes(options.adminScope),
+        ...(typeof tenantId === 'string' && tenantId !== '' ? { tenantId } : {}),
+    };
+}
+
+// ========================================
+// JWTの検証
+// ========================================
+/**
+ * 署名の検証に使う鍵を探す関数
+ */
+type KeyResolver = (alg: string, kid: string | undefined) => Promise<KeyObject | Buffer | undefined>;
+
+/**
+ * JWTを検証してクレームを返す
+ *
+ * 学習ポイント：
+ * - 署名を検証する前にペイロードを信用しない
+ * - 期限(exp)は必須。有効期限のないトークンは盗まれると永久に使えてしまう
+ *
+ * @param token - JWT文字列
+ * @param resolveKey - 鍵を探す関数
+ * @param options - 認証の設定
+ * @returns 検証済みのクレーム
+ * @throws AuthenticationError - 検証に失敗した場合
+ */
+export async function verifyJwt(
+    token: string,
+    resolveKey: KeyResolver,
+    options: Pick<AuthOptions, 'issuer' | 'audience' | 'clockToleranceSeconds'>
+): Promise<Record<string, unknown>> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new AuthenticationError('Invalid token', 'malformed token');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+    const header = decodeSegment(encodedHeader);
+    const payload = decodeSegment(encodedPayload);
+    if (!header || !payload || typeof header.alg !== 'string') {
+        throw new AuthenticationError('Invalid token', 'malformed token');
+    }
+
+    // ========================================
+    // 署名の検証
+    // ========================================
+    const alg = header.alg;
+    const kid = typeof header.kid === 'string' ? header.kid : undefined;
+    const key = await resolveKey(alg, kid);
+    if (!key) {
+        throw new AuthenticationError('Invalid token', `no key for alg ${alg} and kid ${kid}`);
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    let valid: boolean;
+    if (alg === 'HS256') {
+        valid = verifyHmac(signingInput, signature, key as Buffer);
+    } else {
+        const { dsaEncoding } = ALGORITHMS[alg as keyof typeof ALGORITHMS];
+        valid = verify('sha256', signingInput, { key: key as KeyObject, dsaEncoding }, signature);
+    }
+    if (!valid) {
+        throw new AuthenticationError('Invalid token', 'signature mismatch');
+    }
+
+    // ========================================
+    // クレームの検証
+    // ========================================
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = options.clockToleranceSeconds ?? 0;
+
+    if (typeof payload.exp !== 'number') {
+        throw new AuthenticationError('Invalid token', 'exp claim is missing');
+    }
+    if (payload.exp + tolerance <= now) {
+        throw new AuthenticationError('Token expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - tolerance > now) {
+        throw new AuthenticationError('Invalid token', 'token is not yet valid');
+    }
+    if (options.issuer !== undefined && payload.iss !== options.issuer) {
+        throw new AuthenticationError('Invalid token', 'issuer mismatch');
+    }
+    if (options.audience !== undefined) {
+        const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+        if (!audiences.includes(options.audience)) {
+            throw new AuthenticationError('Invalid token', 'audience mismatch');
+        }
+    }
+
+    return payload;
+}
+
+/**
+ * base64url でエンコードされたJSONオブジェクトを解析する
+ */
+function decodeSegment(segment: string): Record<string, any> | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+        return typeof decoded === 'object' && decoded !== null && !Array.isArray(decoded) ? decoded : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * HS256 の署名を検証する
+ *
+ * 学習ポイント：
+ * - 比較にかかる時間から署名を推測されないよう、timingSafeEqual で比較する
+ */
+function verifyHmac(signingInput: Buffer, signature: Buffer, secret: Buffer): boolean {
+    const expected = createHmac('sha256', secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+}
+
+// ========================================
+// 鍵の取得
+// ========================================
+/**
+ * 設定に応じて鍵を探す関数を作成する
+ *
+ * 学習ポイント：
+ * - jwksUrl の鍵はキャッシュし、知らない kid が来た場合だけ取得し直す(鍵のローテーション対応)
+ * - 取得し直すのは1分に1回まで(不正な kid を大量に送られても、取得先に負荷をかけない)
+ */
+function createKeyResolver(options: AuthOptions): KeyResolver {
+    const secret = options.secret ? Buffer.from(options.secret, 'utf8') : undefined;
+    const cacheMs = (options.jwksCacheSeconds ?? 600) * 1000;
+    let remote: { jwks: JsonWebKeySet; fetchedAt: number } | undefined;
+
+    const fetchRemote = async (force: boolean): Promise<JsonWebKeySet | undefined> => {
+        if (!options.jwksUrl) {
+            return undefined;
+        }
+        const age = remote ? Date.now() - remote.fetchedAt : Infinity;
+        if (age > cacheMs || (force && age > 60 * 1000)) {
+            const response = await fetch(options.jwksUrl, { signal: AbortSignal.timeout(2000) });
+            if (!response.ok) {
+                throw new Error(`Failed to fetch JWKS: ${response.status}`);
+            }
+            remote = { jwks: (await response.json()) as JsonWebKeySet, fetchedAt: Date.now() };
+        }
+        return remote?.jwks;
+    };
+
+    return async (alg, kid) => {
+        if (alg === 'HS256') {
+            return secret;
+        }
+        if (!(alg in ALGORITHMS)) {
+            return undefined;
+        }
+
+        const find = (jwks: JsonWebKeySet | undefined) => findKey(jwks, alg as keyof typeof ALGORITHMS, kid);
+        return find(options.jwks) ?? find(await fetchRemote(false)) ?? find(await fetchRemote(true));
+    };
+}
+
+/**
+ * JWKS からアルゴリズムと kid に合う公開鍵を探す
+ *
+ * @returns 公開鍵。見つからなければundefined
+ */
+function findKey(
+    jwks: JsonWebKeySet | undefined,
+    alg: keyof typeof ALGORITHMS,
+    kid: string | undefined
+): KeyObject | undefined {
+    const candidates = (jwks?.keys ?? []).filter(
+        (jwk) =>
+            jwk.kty === ALGORITHMS[alg].kty &&
+            (jwk.alg === undefined || jwk.alg === alg) &&
+            (jwk.use === undefined || jwk.use === 'sig')
+    );
+    // kid のないトークンは、候補が1つだけの場合に限りその鍵を使う
+    if (kid === undefined) {
+        return candidates.length === 1 ? createPublicKey({ key: candidates[0], format: 'jwk' }) : undefined;
+    }
+    const jwk = candidates.find((key) => key.kid === kid);
+    return jwk ? createPublicKey({ key: jwk, format: 'jwk' }) : undefined;
+}
@@ -0,0 +1,287 @@
+/**
+ * CORS(オリジン間リソース共有)の設定と判定(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. ブラウザが別のオリジンのAPIを呼び出すときの仕組み(CORS)
+ * 2. プリフライトリクエスト(OPTIONS)への応答
+ * 3. Vary: Origin が必要な理由(キャッシュの混同を防ぐ)
+ *
+ * CORSの流れ：
+ * 1. ブラウザは「単純でない」リクエスト(JSONのPOST、Authorization ヘッダー付きなど)の前に
+ *    OPTIONS のプリフライトリクエストを送り、送ってよいかを確認する
+ * 2. サーバーは許可するオリジン・メソッド・ヘッダーを Access-Control-Allow-* ヘッダーで返す
+ * 3. 本番のリクエストのレスポンスにも Access-Control-Allow-Origin が必要
+ *    (ないとブラウザはレスポンスをJavaScriptに渡さない)
+ *
+ * 注意：
+ * - CORSはブラウザを守る仕組みで、APIの認証の代わりにはならない(curl などは制限を受けない)
+ */
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * CORSの設定
+ */
+export interface CorsOptions {
+    /** 許可するオリジン(完全一致、"*"、または https://*.example.com のようなワイルドカード)。空ならCORSを無効にする */
+    allowedOrigins: string[];
+    /** プリフライトで許可するメソッド */
+    allowedMethods: string[];
+    /** プリフライトで許可するリクエストヘッダー */
+    allowedHeaders: string[];
+    /** ブラウザのJavaScriptから読めるようにするレスポンスヘッダー */
+    exposedHeaders: string[];
+    /** Cookie や Authorization ヘッダー付きのリクエスト(credentials: 'include')を許可するか */
+    allowCredentials: boolean;
+    /** プリフライトの結果をブラウザがキャッシュする秒数 */
+    maxAgeSeconds: number;
+}
+
+/**
+ * プリフライトリクエストの内容
+ */
+export interface PreflightRequest {
+    /** Origin ヘッダー */
+    origin: string;
+    /** Access-Control-Request-Method ヘッダー */
+    method: string;
+    /** Access-Control-Request-Headers ヘッダー(カンマ区切り) */
+    headers?: string;
+}
+
+/**
+ * プリフライトの判定結果
+ */
+export type PreflightResult =
+    | { allowed: true; headers: Record<string, string> }
+    | { allowed: false; reason: string; headers: Record<string, string> };
+
+// ========================================
+// デフォルトの設定
+// ========================================
+/**
+ * デフォルトのCORSの設定
+ *
+ * 学習ポイント：
+ * - オリジンはデフォルトでは許可しない(使うアプリのオリジンを明示的に設定する)
+ * - ETag や X-RateLimit-* はデフォルトではブラウザから読めないため、exposedHeaders に入れる
+ */
+export const DEFAULT_CORS_OPTIONS: CorsOptions = {
+    allowedOrigins: [],
+    allowedMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-Api-Key',
+        'If-Match',
+        'If-None-Match',
+        'Idempotency-Key',
+        'X-Tenant-Id',
+    ],
+    exposedHeaders: [
+        'ETag',
+        'Idempotent-Replayed',
+        'Retry-After',
+        'X-RateLimit-Limit',
+        'X-RateLimit-Remaining',
+        'X-RateLimit-Reset',
+    ],
+    allowCredentials: false,
+    maxAgeSeconds: 600,
+};
+
+/**
+ * オリジンの形式(scheme://host[:port]。host と port には * を使える)
+ */
+const ORIGIN_PATTERN = /^https?:\/\/[A-Za-z0-9.*-]+(:(\d+|\*))?$/;
+
+// ========================================
+// 設定の読み込み
+// ========================================
+/**
+ * 環境変数からCORSの設定を読み込む
+ *
+ * 使用例(template.yaml の環境変数)：
+ * CORS_ALLOWED_ORIGINS: 'https://app.example.com,https://*.preview.example.com'
+ * CORS_ALLOW_CREDENTIALS: 'true'
+ *
+ * 学習ポイント：
+ * - 一覧はカンマ区切りで指定し、未設定の項目はデフォルトの値を使う
+ * - "*"(すべてのオリジン)と credentials の組み合わせは、どのサイトからでも
+ *   ユーザーの Cookie 付きでAPIを呼べてしまうため、設定ミスとして起動時に例外にする
+ *
+ * @param env - 環境変数
+ * @returns CORSの設定
+ */
+export function loadCorsOptions(env: Record<string, string | undefined>): CorsOptions {
+    const options: CorsOptions = {
+        allowedOrigins: parseList(env.CORS_ALLOWED_ORIGINS) ?? DEFAULT_CORS_OPTIONS.allowedOrigins,
+        allowedMethods:
+            parseList(env.CORS_ALLOWED_METHODS)?.map((method) => method.toUpperCase()) ??
+            DEFAULT_CORS_OPTIONS.allowedMethods,
+        allowedHeaders: parseList(env.CORS_ALLOWED_HEADERS) ?? DEFAULT_CORS_OPTIONS.allowedHeaders,
+        exposedHeaders: parseList(env.CORS_EXPOSED_HEADERS) ?? DEFAULT_CORS_OPTIONS.exposedHeaders,
+        allowCredentials: DEFAULT_CORS_OPTIONS.allowCredentials,
+        maxAgeSeconds: DEFAULT_CORS_OPTIONS.maxAgeSeconds,
+    };
+
+    const credentials = env.CORS_ALLOW_CREDENTIALS?.trim();
+    if (credentials !== undefined && credentials !== '') {
+        if (credentials !== 'true' && credentials !== 'false') {
+            throw new Error("Invalid CORS_ALLOW_CREDENTIALS: must be 'true' or 'false'");
+        }
+        options.allowCredentials = credentials === 'true';
+    }
+
+    const maxAge = env.CORS_MAX_AGE_SECONDS?.trim();
+    if (maxAge !== undefined && maxAge !== '') {
+        if (!/^\d+$/.test(maxAge)) {
+            throw new Error('Invalid CORS_MAX_AGE_SECONDS: must be a non-negative integer');
+        }
+        options.maxAgeSeconds = Number(maxAge);
+    }
+
+    const invalidOrigins = options.allowedOrigins.filter((origin) => origin !== '*' && !ORIGIN_PATTERN.test(origin));
+    if (invalidOrigins.length > 0) {
+        throw new Error(`Invalid CORS_ALLOWED_ORIGINS: ${invalidOrigins.join(', ')}`);
+    }
+    if (options.allowCredentials && options.allowedOrigins.includes('*')) {
+        throw new Error("Invalid CORS configuration: '*' cannot be used with CORS_ALLOW_CREDENTIALS=true");
+    }
+    return options;
+}
+
+// ========================================
+// CORSの判定
+// ========================================
+/**
+ * オリジンが許可されているかを判定する
+ *
+ * 学習ポイント：
+ * - https://*.example.com は https://app.example.com や https://a.b.example.com に一致するが、
+ *   https://example.com や https://evil-example.com には一致しない
+ * - 前方一致や部分一致で判定すると https://example.com.evil.com を許可してしまう
+ *
+ * @param origin - Origin ヘッダーの値
+ * @param options - CORSの設定
+ * @returns 許可されている場合true
+ */
+export function isOriginAllowed(origin: string, options: CorsOptions): boolean {
+    return options.allowedOrigins.some((pattern) => {
+        if (pattern === '*') {
+            return true;
+        }
+        if (!pattern.includes('*')) {
+            return pattern.toLowerCase() === origin.toLowerCase();
+        }
+        const regex = pattern
+            .split('*')
+            .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('[A-Za-z0-9-]+(?:\\.[A-Za-z0-9-]+)*');
+        return new RegExp(`^${regex}$`, 'i').test(origin);
+    });
+}
+
+/**
+ * 通常のレスポンスに付けるCORSヘッダーを作成する
+ *
+ * 学習ポイント：
+ * - 許可されたオリジンには、そのオリジンをそのまま Access-Control-Allow-Origin で返す
+ *   (credentials を許可する場合は "*" を返せないため)
+ * - レスポンスの内容がオリジンによって変わるので Vary: Origin を付け、
+ *   CDN やブラウザのキャッシュが別のオリジン向けのレスポンスを返さないようにする
+ * - 許可されていないオリジンには Access-Control-Allow-Origin を付けない(ブラウザがブロックする)
+ *
+ * @param origin - Origin ヘッダーの値(同じオリジンからのリクエストなどではundefined)
+ * @param options - CORSの設定
+ * @returns レスポンスヘッダー(CORSが無効ならなし)
+ */
+export function createCorsHeaders(origin: string | undefined, options: CorsOptions): Record<string, string> {
+    if (options.allowedOrigins.length === 0) {
+        return {};
+    }
+
+    const headers: Record<string, string> = { Vary: 'Origin' };
+    if (origin === undefined || !isOriginAllowed(origin, options)) {
+        return headers;
+    }
+
+    headers['Access-Control-Allow-Origin'] = allowOriginValue(origin, options);
+    if (options.allowCredentials) {
+        headers['Access-Control-Allow-Credentials'] = 'true';
+    }
+    if (options.exposedHeaders.length > 0) {
+        headers['Access-Control-Expose-Headers'] = options.exposedHeaders.join(', ');
+    }
+    return headers;
+}
+
+/**
+ * プリフライトリクエストを判定し、応答のヘッダーを作成する
+ *
+ * 学習ポイント：
+ * - オリジン・メソッド・ヘッダーのすべてが許可されている場合だけ Access-Control-Allow-* を返す
+ * - ヘッダー名は大文字・小文字を区別しない
+ * - Access-Control-Max-Age の間、ブラウザは同じリクエストのプリフライトを省略する
+ *
+ * @param request - プリフライトリクエストの内容
+ * @param options - CORSの設定
+ * @returns 判定結果と応答のヘッダー
+ */
+export function checkPreflight(request: PreflightRequest, options: CorsOptions): PreflightResult {
+    const headers: Record<string, string> = {
+        Vary: 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers',
+    };
+
+    if (!isOriginAllowed(request.origin, options)) {
+        return { allowed: false, reason: 'CORS origin not allowed', headers };
+    }
+    if (!options.allowedMethods.includes(request.method.toUpperCase())) {
+        return { allowed: false, reason: 'CORS method not allowed', headers };
+    }
+    const allowedHeaders = options.allowedHeaders.map((header) => header.toLowerCase());
+    const requestedHeaders = parseList(request.headers) ?? [];
+    if (requestedHeaders.some((header) => !allowedHeaders.includes(header.toLowerCase()))) {
+        return { allowed: false, reason: 'CORS header not allowed', headers };
+    }
+
+    headers['Access-Control-Allow-Origin'] = allowOriginValue(request.origin, options);
+    headers['Access-Control-Allow-Methods'] = options.allowedMethods.join(', ');
+    headers['Access-Control-Allow-Headers'] = options.allowedHeaders.join(', ');
+    headers['Access-Control-Max-Age'] = String(options.maxAgeSeconds);
+    if (options.allowCredentials) {
+        headers['Access-Control-Allow-Credentials'] = 'true';
+    }
+    return { allowed: true, headers };
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * Access-Control-Allow-Origin に返す値を決める
+ *
+ * @param origin - Origin ヘッダーの値(許可済み)
+ * @param options - CORSの設定
+ * @returns すべてのオリジンを許可していて credentials がなければ "*"、それ以外はオリジン
+ */
+function allowOriginValue(origin: string, options: CorsOptions): string {
+    return options.allowedOrigins.includes('*') && !options.allowCredentials ? '*' : origin;
+}
+
+/**
+ * カンマ区切りの一覧を配列にする
+ *
+ * @param value - カンマ区切りの文字列
+ * @returns 空白を取り除いた配列。未設定ならundefined
+ */
+function parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+}
@@ -0,0 +1,266 @@
+/**
+ * DynamoDB(AWS SDK)のエラーの分類(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. SDKのエラーを、クライアントに返すHTTPステータスコードに対応付ける方法
+ * 2. 「クライアントの問題」「混雑」「障害」「タイムアウト」の区別
+ * 3. 再試行してよいエラー(一時的なエラー)の見分け方
+ *
+ * 分類の一覧：
+ * | 種類                     | ステータス | 主なエラー                                                        | 再試行 |
+ * |--------------------------|-----------|-------------------------------------------------------------------|--------|
+ * | CONDITIONAL_CHECK_FAILED | 409       | ConditionalCheckFailedException                                   | しない |
+ * | TRANSACTION_CONFLICT     | 409       | TransactionConflictException                                      | する   |
+ * | INVALID_REQUEST          | 400       | ValidationException                                               | しない |
+ * | ITEM_TOO_LARGE           | 413       | ValidationException(Item size has exceeded...)                    | しない |
+ * | THROTTLED                | 429       | ProvisionedThroughputExceededException, ThrottlingException など  | する   |
+ * | UNAVAILABLE              | 503       | ServiceUnavailable, InternalServerError, 接続エラー など          | する   |
+ * | TIMEOUT                  | 504       | TimeoutError, ETIMEDOUT など                                      | する   |
+ * (TransactionCanceledException は、CancellationReasons の理由に応じて上のいずれかに分類する)
+ *
+ * 学習ポイント：
+ * - SDKのエラーメッセージにはテーブル名などの内部情報が含まれるため、そのままクライアントに返さない
+ * - テーブルが存在しない(ResourceNotFoundException)のは設定ミスなので、503だが再試行しない
+ * - トランザクション(TransactWriteCommand)の失敗は TransactionCanceledException にまとめられるので、
+ *   操作ごとの理由(CancellationReasons)で分類する
+ */
+
+import { ErrorCode } from './problem';
+import { ConditionFailedError } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * DynamoDBエラーの種類
+ */
+export type DynamoDBErrorKind =
+    | 'CONDITIONAL_CHECK_FAILED'
+    | 'TRANSACTION_CONFLICT'
+    | 'INVALID_REQUEST'
+    | 'ITEM_TOO_LARGE'
+    | 'THROTTLED'
+    | 'UNAVAILABLE'
+    | 'TIMEOUT';
+
+/**
+ * DynamoDBエラーの分類結果
+ */
+export interface DynamoDBErrorClassification {
+    /** エラーの種類 */
+    kind: DynamoDBErrorKind;
+    /** クライアントに返すHTTPステータスコード */
+    statusCode: number;
+    /** エラーコード(problem.ts の ERROR_CODES) */
+    code: ErrorCode;
+    /** クライアントに返すメッセージ(SDKのメッセージは含めない) */
+    message: string;
+    /** 同じリクエストを再試行すれば成功する可能性があるか */
+    retryable: boolean;
+    /** Retry-After ヘッダーで伝える秒数(伝えない場合はundefined) */
+    retryAfterSeconds?: number;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * 混雑(スロットリング)を表すエラー名
+ *
+ * - ProvisionedThroughputExceededException: テーブルのキャパシティを超えた
+ * - ThrottlingException: コントロールプレーンやオンデマンドの上限を超えた
+ * - RequestLimitExceeded: アカウント全体のリクエストの上限を超えた
+ */
+const THROTTLING_ERRORS = ['ProvisionedThroughputExceededException', 'ThrottlingException', 'RequestLimitExceeded'];
+
+/**
+ * 一時的な障害を表すエラー名
+ */
+const TRANSIENT_SERVICE_ERRORS = ['ServiceUnavailable', 'InternalServerError', 'InternalFailure'];
+
+/**
+ * タイムアウトを表すエラー名・エラーコード
+ */
+const TIMEOUT_ERRORS = ['TimeoutError', 'RequestTimeout', 'RequestTimeoutException', 'ETIMEDOUT'];
+
+/**
+ * 接続エラーを表すエラーコード(Node.js の err.code)
+ */
+const NETWORK_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND'];
+
+/**
+ * アイテムのサイズ超過を表す ValidationException のメッセージ
+ *
+ * 学習ポイント：
+ * - DynamoDBの1アイテムの上限は400KB。超えると ValidationException になる
+ * - 他の ValidationException と区別するにはメッセージを見るしかない
+ */
+const ITEM_TOO_LARGE_PATTERN = /item size (to update )?has exceeded/i;
+
+/**
+ * トランザクションの失敗の理由(CancellationReasons の Code)と、対応するエラー名
+ *
+ * 学習ポイント：
+ * - 理由が None の操作は、他の操作の失敗に巻き込まれただけ
+ */
+const CANCELLATION_REASON_ERRORS: Record<string, string> = {
+    ConditionalCheckFailed: 'ConditionalCheckFailedException',
+    TransactionConflict: 'TransactionConflictException',
+    ProvisionedThroughputExceeded: 'ProvisionedThroughputExceededException',
+    ThrottlingError: 'ThrottlingException',
+    ValidationError: 'ValidationException',
+    ItemCollectionSizeLimitExceeded: 'ItemCollectionSizeLimitExceededException',
+};
+
+/**
+ * 混雑・一時的な障害のときに Retry-After で伝える秒数
+ */
+const RETRY_AFTER_SECONDS = 1;
+
+// ========================================
+// エラーの分類
+// ========================================
+/**
+ * DynamoDBのエラーを分類する
+ *
+ * 学習ポイント：
+ * - unknown型の安全な型チェック方法
+ * - エラー名(name)、Node.js のエラーコード(code)、HTTPステータスコード($metadata)の順に判定する
+ * - 「障害」と「条件不一致」は返すべきステータスコードが違う
+ *
+ * @param err - 分類するエラーオブジェクト
+ * @returns 分類結果。DynamoDBのエラーでなければnull
+ */
+export function classifyDynamoDBError(err: unknown): DynamoDBErrorClassification | null {
+    if (typeof err !== 'object' || err === null) {
+        return null;
+    }
+    const error = err as {
+        name?: string;
+        code?: string;
+        message?: string;
+        $fault?: 'client' | 'server';
+        $metadata?: { httpStatusCode?: number };
+        CancellationReasons?: { Code?: string; Message?: string }[];
+    };
+    const name = error.name ?? '';
+
+    // トランザクションの失敗は、最初の(None 以外の)理由のエラーとして分類する
+    if (name === 'TransactionCanceledException') {
+        const reason = (error.CancellationReasons ?? []).find((r) => r.Code && r.Code !== 'None');
+        const reasonError = CANCELLATION_REASON_ERRORS[reason?.Code ?? ''];
+        if (reasonError) {
+            return classifyDynamoDBError({ name: reasonError, message: reason?.Message });
+        }
+        // 理由が分からない場合は、一時的な障害として扱う
+        return classifyDynamoDBError({ name: 'InternalServerError' });
+    }
+
+    /**
+     * 条件付き書き込みの失敗
+     *
+     * リポジトリの expected(DynamoDBでは ConditionExpression)を満たさなかった場合に発生する。
+     * 保存先は正常に動いているので、障害として扱ってはいけない。
+     */
+    if (err instanceof ConditionFailedError || name === 'ConditionalCheckFailedException') {
+        return {
+            kind: 'CONDITIONAL_CHECK_FAILED',
+            statusCode: 409,
+            code: 'CONCURRENT_MODIFICATION',
+            message: 'Item was modified by another request',
+            retryable: false,
+        };
+    }
+
+    // トランザクション同士の競合(少し待てば成功する)
+    if (name === 'TransactionConflictException') {
+        return {
+            kind: 'TRANSACTION_CONFLICT',
+            statusCode: 409,
+            code: 'CONCURRENT_MODIFICATION',
+            message: 'Item was modified by another request',
+            retryable: true,
+        };
+    }
+
+    // リクエストの内容が不正(同じリクエストを再試行しても成功しない)
+    if (name === 'ValidationException' || name === 'ItemCollectionSizeLimitExceededException') {
+        if (name === 'ItemCollectionSizeLimitExceededException' || ITEM_TOO_LARGE_PATTERN.test(error.message ?? '')) {
+            return {
+                kind: 'ITEM_TOO_LARGE',
+                statusCode: 413,
+                code: 'ITEM_TOO_LARGE',
+                message: 'Item exceeds the maximum size allowed by the database',
+                retryable: false,
+            };
+        }
+        return {
+            kind: 'INVALID_REQUEST',
+            statusCode: 400,
+            code: 'DB_REJECTED_REQUEST',
+            message: 'Request was rejected by the database',
+            retryable: false,
+        };
+    }
+
+    if (THROTTLING_ERRORS.includes(name)) {
+        return {
+            kind: 'THROTTLED',
+            statusCode: 429,
+            code: 'DB_THROTTLED',
+            message: 'Database is busy',
+            retryable: true,
+            retryAfterSeconds: RETRY_AFTER_SECONDS,
+        };
+    }
+
+    if (TIMEOUT_ERRORS.includes(name) || TIMEOUT_ERRORS.includes(error.code ?? '')) {
+        return {
+            kind: 'TIMEOUT',
+            statusCode: 504,
+            code: 'DB_TIMEOUT',
+            message: 'Database request timed out',
+            retryable: true,
+        };
+    }
+
+    // テーブルが存在しない(設定ミス。再試行しても成功しない)
+    if (name === 'ResourceNotFoundException') {
+        return {
+            kind: 'UNAVAILABLE',
+            statusCode: 503,
+            code: 'DB_UNAVAILABLE',
+            message: 'Database service unavailable',
+            retryable: false,
+        };
+    }
+
+    // 一時的な障害・接続エラー・その他のサーバー側(5xx)のエラー
+    if (
+        TRANSIENT_SERVICE_ERRORS.includes(name) ||
+        NETWORK_ERRORS.includes(error.code ?? '') ||
+        error.$fault === 'server' ||
+        (error.$metadata?.httpStatusCode ?? 0) >= 500
+    ) {
+        return {
+            kind: 'UNAVAILABLE',
+            statusCode: 503,
+            code: 'DB_UNAVAILABLE',
+            message: 'Database service unavailable',
+            retryable: true,
+            retryAfterSeconds: RETRY_AFTER_SECONDS,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * 再試行すれば成功する可能性のあるエラー(一時的なエラー)かどうかを判定する
+ *
+ * @param err - 判定するエラーオブジェクト
+ * @returns 一時的なエラーの場合true
+ */
+export function isTransientDynamoDBError(err: unknown): boolean {
+    return classifyDynamoDBError(err)?.retryable ?? false;
+}
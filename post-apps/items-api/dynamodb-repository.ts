@@ -0,0 +1,740 @@
+/**
+ * DynamoDBを使ったアイテムのリポジトリ(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 条件付き書き込み(ConditionExpression)による楽観的排他制御
+ * 2. GSIを使った Query と、使えない場合のテーブルの Query の使い分け
+ * 3. BatchGetCommand の未処理分(UnprocessedKeys)の再試行
+ * 4. TransactWriteCommand でアイテムと変更履歴を同時に(アトミックに)書き込む方法
+ * 5. 複合キー(パーティションキー tenantId + ソートキー id)によるテナントごとのデータの分離
+ *
+ * テーブルに保存する形式：
+ * { "tenantId": "acme", "id": "item-1", "tenantName": "acme#商品", "name": "商品", ... }
+ *
+ * 学習ポイント：
+ * - tenantId と tenantName はキー(とGSIのキー)のためにリポジトリが追加する属性で、読み取るときに取り除く
+ *   (ハンドラーはテナントを意識しない)
+ */
+
+import {
+    DynamoDBDocumentClient,
+    GetCommand,
+    QueryCommand,
+    BatchGetCommand,
+    TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { isTransientDynamoDBError } from './dynamodb-errors';
+import { createHistoryEntry, decodeHistoryCursor, encodeHistoryCursor, HistoryEntry } from './history';
+import { logger } from './logger';
+import {
+    ConditionFailedError,
+    DEFAULT_TENANT_ID,
+    InvalidCursorError,
+    Item,
+    ItemRepository,
+    ListFilters,
+    ListQuery,
+} from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * DynamoDBリポジトリの設定
+ */
+export interface DynamoDBItemRepositoryOptions {
+    /** アイテムを保存するテーブル名 */
+    tableName: string;
+    /** 変更履歴を保存するテーブル名(パーティションキー tenantItemId、ソートキー version) */
+    historyTableName: string;
+    /** 扱うテナント(省略時はデフォルトのテナント) */
+    tenantId?: string;
+    /** 未処理分(UnprocessedKeys)や一時的に失敗した一括作成を再試行する回数 */
+    maxRetries?: number;
+    /** 再試行の間隔の基準(ミリ秒)。1回ごとに2倍になる */
+    retryBaseDelayMs?: number;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * DynamoDBのAPIの上限
+ *
+ * 学習ポイント：
+ * - TransactWriteCommand は1回に100操作、BatchGetCommand は1回に100件まで
+ * - 1件のアイテムの書き込みは「アイテム + 履歴」の2操作なので、1回のトランザクションで50件まで
+ */
+const TRANSACT_WRITE_ITEMS_LIMIT = 50;
+const BATCH_GET_LIMIT = 100;
+
+/**
+ * 移行スクリプト(migrate-tenants.ts)が移したアイテムに付ける属性(値は移行元のテーブル名)
+ *
+ * 学習ポイント：
+ * - ストリームの関数(stream-handler.ts)は、この属性のある書き込みを変更イベントとして発行しない
+ * - APIからの書き込みでは必ず取り除くので、移行の後に変更したアイテムは普通のイベントになる
+ */
+export const MIGRATED_FROM_ATTRIBUTE = 'migratedFrom';
+
+/**
+ * 一覧取得で使うGSI(グローバルセカンダリインデックス)の定義
+ *
+ * 学習ポイント：
+ * - DynamoDBはキー(パーティションキー・ソートキー)でしか効率よく検索・並び替えできない
+ * - よく使う検索条件ごとにGSIを用意する(template.yaml と同じ定義にする)
+ * - テナントの全件を並び替えるため、ByCreatedAt / ByPrice のパーティションキーは tenantId にする
+ * - 名前で絞り込む ByName は、テナントと名前をつないだ tenantName をパーティションキーにする
+ *   (name だけだと、他のテナントの同じ名前のアイテムまで読んでしまう)
+ */
+const LIST_INDEXES = {
+    byName: { indexName: 'ByName', partitionKey: 'tenantName', sortKey: 'createdAt' },
+    byCreatedAt: { indexName: 'ByCreatedAt', partitionKey: 'tenantId', sortKey: 'createdAt' },
+    byPrice: { indexName: 'ByPrice', partitionKey: 'tenantId', sortKey: 'price' },
+} as const;
+
+type ListIndex = (typeof LIST_INDEXES)[keyof typeof LIST_INDEXES];
+
+// ========================================
+// リポジトリの作成
+// ========================================
+/**
+ * DynamoDBを使ったリポジトリを作成する
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - リポジトリの設定
+ * @returns リポジトリ
+ */
+export function createDynamoDBItemRepository(
+    client: DynamoDBDocumentClient,
+    options: DynamoDBItemRepositoryOptions
+): ItemRepository {
+    const { tableName, historyTableName } = options;
+    const tenantId = options.tenantId ?? DEFAULT_TENANT_ID;
+    const maxRetries = options.maxRetries ?? 3;
+    const retryBaseDelayMs = options.retryBaseDelayMs ?? 50;
+
+    /**
+     * 再試行の前に待つ(50ms, 100ms, 200ms...の指数バックオフ)
+     */
+    const backoff = (attempt: number): Promise<void> => sleep(retryBaseDelayMs * 2 ** (attempt - 1));
+
+    return {
+        async get(id) {
+            logger.debug('Getting item from table', { tableName });
+            const response = await client.send(
+                new GetCommand({
+                    TableName: tableName,
+                    Key: { tenantId, id },
+                })
+            );
+            return response.Item && fromItemRecord(response.Item);
+        },
+
+        /**
+         * アイテムの保存と履歴エントリーの追加を1つのトランザクションで行う
+         *
+         * 学習ポイント：
+         * - どちらかの条件を満たさなければ、両方とも書き込まれない
+         * - 条件を満たした時点で、保存されているアイテムは expected と同じ(差分は expected との比較でよい)
+         */
+        async put(item, expected, context) {
+            logger.debug('Putting item to table with history', { tableName, historyTableName });
+            await translateConditionalCheckFailed(
+                client.send(
+                    new TransactWriteCommand({
+                        TransactItems: [
+                            {
+                                Put: {
+                                    TableName: tableName,
+                                    Item: toItemRecord(tenantId, item),
+                                    ...versionCondition(expected),
+                                },
+                            },
+                            historyPut(historyTableName, tenantId, createHistoryEntry(expected, item, context)),
+                        ],
+                    })
+                )
+            );
+        },
+
+        async delete(id, expected, context) {
+            logger.debug('Deleting item from table with history', { tableName, historyTableName });
+            await translateConditionalCheckFailed(
+                client.send(
+                    new TransactWriteCommand({
+                        TransactItems: [
+                            {
+                                Delete: {
+                                    TableName: tableName,
+                                    Key: { tenantId, id },
+                                    ...versionCondition(expected),
+                                },
+                            },
+                            historyPut(historyTableName, tenantId, createHistoryEntry(expected, undefined, context)),
+                        ],
+                    })
+                )
+            );
+        },
+
+        async list({ filters, limit, cursor }) {
+            const index = chooseListIndex(filters);
+
+            /**
+             * カーソル(LastEvaluatedKey)の属性は、使うインデックスによって変わる
+             *
+             * 学習ポイント：
+             * - テーブル: tenantId + id
+             * - GSI: tenantId + id + GSIのパーティションキー + ソートキー
+             * - テナントの属性はカーソルに入れず、戻すときにこのリポジトリのテナントを入れる
+             *   (カーソルを書き換えて他のテナントを読むことはできない)
+             */
+            let exclusiveStartKey: Record<string, any> | undefined;
+            if (cursor) {
+                const decoded = decodeCursor(cursor, index ? ['id', index.sortKey] : ['id']);
+                if (!decoded) {
+                    throw new InvalidCursorError();
+                }
+                exclusiveStartKey = {
+                    ...decoded,
+                    tenantId,
+                    ...(index?.partitionKey === 'tenantName' ? { tenantName: joinKey(tenantId, filters.name!) } : {}),
+                };
+            }
+
+            /**
+             * QueryCommand で1ページ分を取得
+             *
+             * 学習ポイント：
+             * - Limit は「読み取る件数」の上限(フィルタ適用前の件数)
+             * - LastEvaluatedKey があれば続きのページが存在する
+             * - 論理削除されたアイテム(deletedAt あり)は除外する
+             * - name は DynamoDB の予約語なので、式の中では #name のように置き換える
+             * - 使えるGSIがなくても、テーブルをテナント(パーティションキー)で Query する(Scan で全テナントを読まない)
+             */
+            const expression = buildListExpression(filters, index, tenantId);
+
+            logger.debug('Querying items', { tableName, indexName: index?.indexName, limit });
+            const response = await client.send(
+                new QueryCommand({
+                    TableName: tableName,
+                    IndexName: index?.indexName,
+                    Limit: limit,
+                    ExclusiveStartKey: exclusiveStartKey,
+                    KeyConditionExpression: expression.keyCondition,
+                    FilterExpression: expression.filter,
+                    ExpressionAttributeNames: expression.names,
+                    ExpressionAttributeValues: expression.values,
+                    ScanIndexForward: !filters.sort?.descending,
+                })
+            );
+
+            return {
+                items: (response.Items ?? []).map(fromItemRecord),
+                nextCursor: response.LastEvaluatedKey ? encodeCursor(fromItemRecord(response.LastEvaluatedKey)) : null,
+            };
+        },
+
+        /**
+         * BatchGetCommand でアイテムを取得し、未処理分(UnprocessedKeys)を再試行する
+         */
+        async batchGet(ids) {
+            const items: Item[] = [];
+            const unprocessedIds: string[] = [];
+
+            for (const chunk of chunkArray(ids, BATCH_GET_LIMIT)) {
+                let keys = chunk.map((id) => ({ tenantId, id }));
+
+                for (let attempt = 0; keys.length > 0; attempt++) {
+                    if (attempt > 0) {
+                        if (attempt > maxRetries) {
+                            break;
+                        }
+                        logger.info('Retrying unprocessed keys', { attempt, count: keys.length });
+                        await backoff(attempt);
+                    }
+
+                    const response = await client.send(
+                        new BatchGetCommand({
+                            RequestItems: { [tableName]: { Keys: keys } },
+                        })
+                    );
+                    items.push(...(response.Responses?.[tableName] ?? []).map(fromItemRecord));
+                    keys = (response.UnprocessedKeys?.[tableName]?.Keys ?? []).map((key) => ({ tenantId, id: key.id }));
+                }
+
+                unprocessedIds.push(...keys.map((key) => key.id));
+            }
+
+            return { items, unprocessedIds };
+        },
+
+        /**
+         * TransactWriteCommand でアイテムと履歴をまとめて書き込み、一時的に失敗した場合は再試行する
+         *
+         * 学習ポイント：
+         * - BatchWriteCommand はアトミックでないため、アイテムだけ書き込まれて履歴が残らないことがある
+         * - トランザクションは全部成功するか全部失敗するかなので、未処理分はトランザクション単位になる
+         * - 同じIDのアイテムが1件でも既に存在すると、トランザクション全体が取り消される
+         *   CancellationReasons(操作ごとの理由)から条件を満たさなかったアイテムを見つけ、
+         *   そのアイテムだけを conflictIds にして、残りを書き直す(一時的なエラーの再試行には数えない)
+         * - expected にあるID(期限切れのアイテムなど)は、put と同じくバージョンを条件にして置き換える
+         */
+        async batchPut(items, context, expected = []) {
+            const unprocessed: Item[] = [];
+            const expectedById = new Map(expected.map((item) => [item.id, item]));
+            const conflictIds: string[] = [];
+
+            for (const chunk of chunkArray(items, TRANSACT_WRITE_ITEMS_LIMIT)) {
+                let remaining = chunk;
+                let attempt = 0;
+
+                while (remaining.length > 0) {
+                    const transactItems = remaining.flatMap((item) => [
+                        {
+                            Put: {
+                                TableName: tableName,
+                                Item: toItemRecord(tenantId, item),
+                                ...versionCondition(expectedById.get(item.id)),
+                            },
+                        },
+                        historyPut(
+                            historyTableName,
+                            tenantId,
+                            createHistoryEntry(expectedById.get(item.id), item, context),
+                        ),
+                    ]);
+
+                    try {
+                        await client.send(new TransactWriteCommand({ TransactItems: transactItems }));
+                        break;
+                    } catch (err) {
+                        const conflicted = findConditionFailedItems(err, remaining);
+                        if (conflicted.length > 0) {
+                            logger.info('Skipping items that already exist', { count: conflicted.length });
+                            conflictIds.push(...conflicted.map((item) => item.id));
+                            remaining = remaining.filter((item) => !conflicted.includes(item));
+                            continue;
+                        }
+                        if (!isTransientDynamoDBError(err)) {
+                            throw err;
+                        }
+                        if (attempt >= maxRetries) {
+                            unprocessed.push(...remaining);
+                            break;
+                        }
+                        attempt++;
+                        logger.info('Retrying transaction', { attempt, count: remaining.length });
+                        await backoff(attempt);
+                    }
+                }
+            }
+
+            return { unprocessed, conflictIds };
+        },
+
+        /**
+         * 履歴テーブルを tenantItemId(テナントID#アイテムID)で Query する
+         *
+         * 学習ポイント：
+         * - ソートキー(version)の順に並ぶので、ScanIndexForward で新しい順・古い順を切り替える
+         */
+        async listHistory(id, { limit, cursor, order }) {
+            const tenantItemId = joinKey(tenantId, id);
+            const exclusiveStartKey =
+                cursor === undefined ? undefined : { tenantItemId, version: decodeHistoryCursor(cursor) };
+
+            logger.debug('Querying history table', { historyTableName, limit });
+            const response = await client.send(
+                new QueryCommand({
+                    TableName: historyTableName,
+                    KeyConditionExpression: '#tenantItemId = :tenantItemId',
+                    ExpressionAttributeNames: { '#tenantItemId': 'tenantItemId' },
+                    ExpressionAttributeValues: { ':tenantItemId': tenantItemId },
+                    Limit: limit,
+                    ExclusiveStartKey: exclusiveStartKey,
+                    ScanIndexForward: order === 'oldest',
+                })
+            );
+
+            return {
+                entries: (response.Items ?? []).map(({ tenantItemId: _key, ...entry }) => entry as HistoryEntry),
+                nextCursor: response.LastEvaluatedKey ? encodeHistoryCursor(response.LastEvaluatedKey.version) : null,
+            };
+        },
+
+        forTenant(otherTenantId) {
+            return createDynamoDBItemRepository(client, { ...options, tenantId: otherTenantId });
+        },
+    };
+}
+
+// ========================================
+// テナントのキーのヘルパー関数
+// ========================================
+/**
+ * アイテムをテーブルに保存する形式にする(テナントのキーの属性を追加する)
+ *
+ * 学習ポイント：
+ * - キーの属性はアイテムの後ろに書き、アイテムに同じ名前のフィールドがあっても上書きする
+ * - name のないアイテムには tenantName を付けない(ByName のインデックスに入らない)
+ * - 移行の印(migratedFrom)は取り除く(クライアントが指定して変更イベントを止められないように)
+ *
+ * @param tenantId - テナントID
+ * @param item - アイテム
+ * @returns テーブルに保存するレコード
+ */
+export function toItemRecord(tenantId: string, item: Item): Record<string, any> {
+    const { tenantName: _tenantName, [MIGRATED_FROM_ATTRIBUTE]: _migratedFrom, ...rest } = item;
+    return {
+        ...rest,
+        tenantId,
+        ...(typeof item.name === 'string' ? { tenantName: joinKey(tenantId, item.name) } : {}),
+    };
+}
+
+/**
+ * テーブルのレコード(またはキー)からテナントのキーと移行の印の属性を取り除く
+ *
+ * @param record - テーブルのレコード
+ * @returns アイテム
+ */
+export function fromItemRecord(record: Record<string, any>): Item {
+    const {
+        tenantId: _tenantId,
+        tenantName: _tenantName,
+        [MIGRATED_FROM_ATTRIBUTE]: _migratedFrom,
+        ...item
+    } = record;
+    return item;
+}
+
+/**
+ * 履歴エントリーを履歴テーブルに保存する形式にする(パーティションキー tenantItemId を追加する)
+ *
+ * @param tenantId - テナントID
+ * @param entry - 履歴エントリー
+ * @returns 履歴テーブルに保存するレコード
+ */
+export function toHistoryRecord(tenantId: string, entry: HistoryEntry): Record<string, any> {
+    return { ...entry, tenantItemId: joinKey(tenantId, entry.itemId) };
+}
+
+/**
+ * テナントIDと値をつないだキーを作る(例: acme#item-1)
+ *
+ * 学習ポイント：
+ * - テナントIDには # を使えない(tenant.ts)ので、最初の # で必ず分けられる
+ */
+function joinKey(tenantId: string, value: string): string {
+    return `${tenantId}#${value}`;
+}
+
+// ========================================
+// 楽観的排他制御のヘルパー関数
+// ========================================
+/**
+ * 「読み取った時点から変更されていない場合のみ書き込む」条件を作る
+ *
+ * 学習ポイント：
+ * - 楽観的排他制御：ロックを取らずに、書き込み時に競合を検出する
+ * - 競合した場合は ConditionalCheckFailedException が発生する
+ *
+ * @param expected - 読み取ったアイテム(新規作成ならundefined)
+ * @returns トランザクションの Put / Delete に渡す条件
+ */
+function versionCondition(expected: Item | undefined): {
+    ConditionExpression: string;
+    ExpressionAttributeValues?: Record<string, any>;
+} {
+    // 新規作成：まだ存在しない場合のみ
+    if (!expected) {
+        return { ConditionExpression: 'attribute_not_exists(id)' };
+    }
+
+    // version 属性のない古いアイテム：まだ誰もバージョンを付けていない場合のみ
+    if (expected.version === undefined) {
+        return { ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(version)' };
+    }
+
+    return {
+        ConditionExpression: 'version = :expectedVersion',
+        ExpressionAttributeValues: { ':expectedVersion': expected.version },
+    };
+}
+
+/**
+ * 条件を満たさなかったことによる失敗を ConditionFailedError に置き換える
+ *
+ * 学習ポイント：
+ * - ハンドラーがDynamoDBのエラー名を知らなくても済むようにする
+ * - トランザクションでは TransactionCanceledException になり、
+ *   CancellationReasons(操作ごとの理由)に ConditionalCheckFailed が含まれる
+ *
+ * @param promise - DynamoDBへの書き込み
+ */
+async function translateConditionalCheckFailed(promise: Promise<unknown>): Promise<void> {
+    try {
+        await promise;
+    } catch (err) {
+        const error = err as { name?: string; CancellationReasons?: { Code?: string }[] } | null;
+        if (
+            error?.name === 'ConditionalCheckFailedException' ||
+            (error?.name === 'TransactionCanceledException' &&
+                (error.CancellationReasons ?? []).some((reason) => reason.Code === 'ConditionalCheckFailed'))
+        ) {
+            throw new ConditionFailedError();
+        }
+        throw err;
+    }
+}
+
+/**
+ * 一括作成のトランザクションで、条件を満たさなかった(既に存在した)アイテムを探す
+ *
+ * 学習ポイント：
+ * - CancellationReasons は TransactItems と同じ順番に並ぶ
+ * - 1件のアイテムは「アイテム + 履歴」の2操作なので、操作の位置を2で割るとアイテムの位置になる
+ *
+ * @param err - TransactWriteCommand のエラー
+ * @param items - トランザクションで書き込んだアイテム
+ * @returns 条件を満たさなかったアイテム(条件の失敗でない場合は空)
+ */
+function findConditionFailedItems(err: unknown, items: Item[]): Item[] {
+    const error = err as { name?: string; CancellationReasons?: { Code?: string }[] } | null;
+    if (error?.name !== 'TransactionCanceledException') {
+        return [];
+    }
+    const indexes = new Set(
+        (error.CancellationReasons ?? []).flatMap((reason, index) =>
+            reason.Code === 'ConditionalCheckFailed' ? [Math.floor(index / 2)] : []
+        )
+    );
+    return items.filter((_item, index) => indexes.has(index));
+}
+
+/**
+ * 履歴エントリーを追加するトランザクションの操作を作る
+ *
+ * 学習ポイント：
+ * - 同じバージョンの履歴エントリーが既にあれば失敗させる(履歴を上書きしない)
+ * - パーティションキーの tenantItemId で、テナントが違う同じIDのアイテムの履歴を分ける
+ *
+ * @param historyTableName - 履歴テーブル名
+ * @param tenantId - テナントID
+ * @param entry - 履歴エントリー
+ * @returns TransactWriteCommand の操作
+ */
+function historyPut(
+    historyTableName: string,
+    tenantId: string,
+    entry: HistoryEntry
+): { Put: { TableName: string; Item: Record<string, any>; ConditionExpression: string } } {
+    return {
+        Put: {
+            TableName: historyTableName,
+            Item: toHistoryRecord(tenantId, entry),
+            ConditionExpression: 'attribute_not_exists(version)',
+        },
+    };
+}
+
+// ========================================
+// 絞り込み・並び替え用ヘルパー関数
+// ========================================
+/**
+ * 条件に合うGSIを選ぶ
+ *
+ * 学習ポイント：
+ * - 並び替えはGSIのソートキーでしかできないので、sort を最優先する
+ * - 次に、絞り込める件数が多い(選択性の高い)条件のインデックスを選ぶ
+ * - 使えるインデックスがなければ undefined(テーブルをテナントで Query する)
+ *
+ * @param filters - 絞り込み・並び替えの条件
+ * @returns 使うインデックス
+ */
+function chooseListIndex(filters: ListFilters): ListIndex | undefined {
+    if (filters.sort?.field === 'price') {
+        return LIST_INDEXES.byPrice;
+    }
+    if (filters.sort?.field === 'createdAt') {
+        return filters.name !== undefined ? LIST_INDEXES.byName : LIST_INDEXES.byCreatedAt;
+    }
+    if (filters.name !== undefined) {
+        return LIST_INDEXES.byName;
+    }
+    if (filters.priceMin !== undefined || filters.priceMax !== undefined) {
+        return LIST_INDEXES.byPrice;
+    }
+    if (filters.createdAfter !== undefined) {
+        return LIST_INDEXES.byCreatedAt;
+    }
+    return undefined;
+}
+
+/**
+ * 条件を KeyConditionExpression と FilterExpression に振り分ける
+ *
+ * 学習ポイント：
+ * - インデックスのキーにかかる条件は KeyConditionExpression(読む範囲そのものを絞る)
+ * - それ以外の条件は FilterExpression(読んだ後に捨てる。読み取りコストは減らない)
+ *
+ * @param filters - 絞り込み・並び替えの条件
+ * @param index - 使うインデックス(テーブルの場合は undefined)
+ * @param tenantId - テナントID
+ * @returns 式と、式で使う属性名・値
+ */
+function buildListExpression(
+    filters: ListFilters,
+    index: ListIndex | undefined,
+    tenantId: string
+): {
+    keyCondition: string;
+    filter: string;
+    names: Record<string, string>;
+    values: Record<string, any>;
+} {
+    const keyConditions: string[] = [];
+    const filterConditions: string[] = ['attribute_not_exists(deletedAt)'];
+    const names: Record<string, string> = {};
+    const values: Record<string, any> = {};
+
+    // パーティションキーは必ずテナントで絞る(ByName は テナントID#名前)
+    if (index?.partitionKey === 'tenantName') {
+        names['#tenantName'] = 'tenantName';
+        values[':tenantName'] = joinKey(tenantId, filters.name!);
+        keyConditions.push('#tenantName = :tenantName');
+    } else {
+        names['#tenantId'] = 'tenantId';
+        values[':tenantId'] = tenantId;
+        keyConditions.push('#tenantId = :tenantId');
+        if (filters.name !== undefined) {
+            names['#name'] = 'name';
+            values[':name'] = filters.name;
+            filterConditions.push('#name = :name');
+        }
+    }
+
+    // 所有者で絞り込むGSIはないため、常に FilterExpression で絞り込む
+    if (filters.ownerId !== undefined) {
+        names['#ownerId'] = 'ownerId';
+        values[':ownerId'] = filters.ownerId;
+        filterConditions.push('#ownerId = :ownerId');
+    }
+
+    if (filters.createdAfter !== undefined) {
+        names['#createdAt'] = 'createdAt';
+        values[':createdAfter'] = filters.createdAfter;
+        (index?.sortKey === 'createdAt' ? keyConditions : filterConditions).push('#createdAt > :createdAfter');
+    }
+
+    if (filters.priceMin !== undefined || filters.priceMax !== undefined) {
+        names['#price'] = 'price';
+        const priceConditions = index?.sortKey === 'price' ? keyConditions : filterConditions;
+        if (filters.priceMin !== undefined && filters.priceMax !== undefined) {
+            values[':priceMin'] = filters.priceMin;
+            values[':priceMax'] = filters.priceMax;
+            priceConditions.push('#price BETWEEN :priceMin AND :priceMax');
+        } else if (filters.priceMin !== undefined) {
+            values[':priceMin'] = filters.priceMin;
+            priceConditions.push('#price >= :priceMin');
+        } else {
+            values[':priceMax'] = filters.priceMax;
+            priceConditions.push('#price <= :priceMax');
+        }
+    }
+
+    return {
+        keyCondition: keyConditions.join(' AND '),
+        filter: filterConditions.join(' AND '),
+        names,
+        values,
+    };
+}
+
+// ========================================
+// ページネーション用ヘルパー関数
+// ========================================
+/**
+ * LastEvaluatedKey を不透明なカーソル文字列に変換する
+ *
+ * 学習ポイント：
+ * - base64url でURLに埋め込める形にする
+ * - クライアントはカーソルの中身を解釈せず、そのまま送り返すだけ
+ *
+ * @param key - DynamoDBの LastEvaluatedKey
+ * @returns カーソル文字列
+ */
+function encodeCursor(key: Record<string, any>): string {
+    return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+}
+
+/**
+ * カーソル文字列を ExclusiveStartKey に戻す
+ *
+ * 学習ポイント：
+ * - クライアントから来た値は改ざんされている前提で検証する
+ * - 使うインデックスのキー属性以外を含むカーソルは受け付けない
+ *   (別の絞り込み条件で取得したカーソルを使い回した場合も400エラーになる)
+ *
+ * @param cursor - クライアントから受け取ったカーソル
+ * @param keyNames - 期待するキー属性の名前(テナントの属性を除く。テーブルなら id のみ)
+ * @returns ExclusiveStartKey。不正なカーソルの場合はnull
+ */
+function decodeCursor(cursor: string, keyNames: string[]): Record<string, any> | null {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+
+    if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+        return null;
+    }
+
+    const key = decoded as Record<string, unknown>;
+    const names = Object.keys(key);
+    if (names.length !== keyNames.length || !names.every((name) => keyNames.includes(name))) {
+        return null;
+    }
+
+    // price は数値、それ以外(id, createdAt)は空でない文字列
+    for (const name of names) {
+        const valid =
+            name === 'price'
+                ? typeof key[name] === 'number' && Number.isFinite(key[name])
+                : typeof key[name] === 'string' && key[name] !== '';
+        if (!valid) {
+            return null;
+        }
+    }
+
+    return { ...key };
+}
+
+// ========================================
+// 一括処理用ヘルパー関数
+// ========================================
+/**
+ * 配列を指定した件数ごとに分割する
+ *
+ * @param array - 分割する配列
+ * @param size - 1つあたりの件数
+ * @returns 分割した配列の配列
+ */
+function chunkArray<T>(array: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < array.length; i += size) {
+        chunks.push(array.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * 指定したミリ秒だけ待つ
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
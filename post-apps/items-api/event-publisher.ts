@@ -0,0 +1,299 @@
+/**
+ * アイテムの変更イベントの発行先(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 発行先をインターフェースにして、EventBridge・SNS・インメモリを差し替える方法
+ * 2. PutEvents / PublishBatch(1回に10件まで)の一部だけが失敗した場合の扱い
+ * 3. テスト用のインメモリの発行先の作り方
+ *
+ * 学習ポイント：
+ * - 発行先は publish で「発行できなかったイベント」を返す(リポジトリの batchPut と同じ考え方)
+ * - 呼び出し側(stream-handler.ts)は、最初に発行できなかったイベントから再試行・デッドレターの対象にできる
+ * - 発行できなかったイベントより後ろは発行しない(再試行で前のイベントが後から届き、順番が入れ替わらないように)
+ */
+
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { SNSClient, PublishBatchCommand } from '@aws-sdk/client-sns';
+import { ItemChangeEvent } from './events';
+import { logger } from './logger';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 変更イベントの発行先
+ */
+export interface EventPublisher {
+    /**
+     * イベントを順番どおりに発行し、発行できなかったイベントがあればそこで止める
+     *
+     * @param events - 発行するイベント
+     * @param context - 呼び出しごとの発行の状況
+     * @returns 最初に発行できなかったイベントとそれより後ろのイベント(すべて発行できた場合は空の配列)
+     */
+    publish(events: ItemChangeEvent[], context?: PublishContext): Promise<ItemChangeEvent[]>;
+}
+
+/**
+ * 呼び出しごとの発行の状況
+ *
+ * 学習ポイント：
+ * - Lambdaの残り時間は呼び出しごとに違うので、発行先を作るときではなく発行するときに渡す
+ */
+export interface PublishContext {
+    /** Lambdaの残り時間(ミリ秒)を返す関数(ない場合は残り時間を考慮しない) */
+    getRemainingTimeInMillis?: () => number;
+}
+
+/**
+ * EventBridge の発行先の設定
+ */
+export interface EventBridgePublisherOptions {
+    /** イベントバスの名前(デフォルトのバスは 'default') */
+    eventBusName: string;
+    /** イベントの source(ルールの絞り込みに使う) */
+    source: string;
+}
+
+/**
+ * SNS の発行先の設定
+ */
+export interface SnsPublisherOptions {
+    /** トピックのARN */
+    topicArn: string;
+}
+
+/**
+ * インメモリの発行先(テスト用)
+ */
+export interface InMemoryEventPublisher extends EventPublisher {
+    /** 発行したイベント(発行した順) */
+    readonly published: ItemChangeEvent[];
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * PutEvents / PublishBatch の1回あたりの上限
+ */
+const PUBLISH_BATCH_LIMIT = 10;
+
+/**
+ * デフォルトのイベントの source
+ */
+export const DEFAULT_EVENT_SOURCE = 'items-api';
+
+// ========================================
+// EventBridge
+// ========================================
+/**
+ * EventBridge にイベントを発行する発行先を作成する
+ *
+ * 学習ポイント：
+ * - DetailType にイベントの種類(item.created など)を入れると、ルールで種類ごとに振り分けられる
+ * - PutEvents は一部のエントリーだけが失敗しても例外にならない(Entries の ErrorCode を確認する)
+ * - レスポンスの Entries はリクエストと同じ順番
+ * - 1回の PutEvents の中では順番が保証されないため、同じアイテムのイベントは別の PutEvents に分ける
+ *
+ * @param client - EventBridge クライアント
+ * @param options - 発行先の設定
+ * @returns 発行先
+ */
+export function createEventBridgePublisher(
+    client: EventBridgeClient,
+    options: EventBridgePublisherOptions
+): EventPublisher {
+    return {
+        async publish(events) {
+            const failed = new Set<string>();
+            for (const chunk of chunkByItem(events, PUBLISH_BATCH_LIMIT)) {
+                try {
+                    const response = await client.send(
+                        new PutEventsCommand({
+                            Entries: chunk.map((event) => ({
+                                EventBusName: options.eventBusName,
+                                Source: options.source,
+                                DetailType: event.type,
+                                Detail: JSON.stringify(event),
+                                Time: new Date(event.occurredAt),
+                            })),
+                        })
+                    );
+                    chunk.forEach((event, index) => {
+                        const entry = response.Entries?.[index];
+                        if (!entry || entry.ErrorCode) {
+                            logger.warn('Failed to put event', {
+                                eventId: event.id,
+                                errorCode: entry?.ErrorCode,
+                                errorMessage: entry?.ErrorMessage,
+                            });
+                            failed.add(event.id);
+                        }
+                    });
+                } catch (err) {
+                    logger.error('Failed to put events', { error: err, count: chunk.length });
+                    chunk.forEach((event) => failed.add(event.id));
+                }
+                if (failed.size > 0) {
+                    break;
+                }
+            }
+            return unpublishedFrom(events, failed);
+        },
+    };
+}
+
+// ========================================
+// SNS
+// ========================================
+/**
+ * SNS トピックにイベントを発行する発行先を作成する
+ *
+ * 学習ポイント：
+ * - メッセージ属性 eventType を付けると、サブスクリプションのフィルターポリシーで種類ごとに絞り込める
+ * - PublishBatch のエントリーの Id はバッチの中で一意であればよい(ここでは配列の添字)
+ * - EventBridge と同じく、同じアイテムのイベントは別の PublishBatch に分ける
+ *
+ * @param client - SNS クライアント
+ * @param options - 発行先の設定
+ * @returns 発行先
+ */
+export function createSnsPublisher(client: SNSClient, options: SnsPublisherOptions): EventPublisher {
+    return {
+        async publish(events) {
+            const failed = new Set<string>();
+            for (const chunk of chunkByItem(events, PUBLISH_BATCH_LIMIT)) {
+                try {
+                    const response = await client.send(
+                        new PublishBatchCommand({
+                            TopicArn: options.topicArn,
+                            PublishBatchRequestEntries: chunk.map((event, index) => ({
+                                Id: String(index),
+                                Message: JSON.stringify(event),
+                                MessageAttributes: {
+                                    eventType: { DataType: 'String', StringValue: event.type },
+                                },
+                            })),
+                        })
+                    );
+                    for (const entry of response.Failed ?? []) {
+                        const event = chunk[Number(entry.Id)];
+                        logger.warn('Failed to publish event', {
+                            eventId: event?.id,
+                            errorCode: entry.Code,
+                            errorMessage: entry.Message,
+                        });
+                        if (event) {
+                            failed.add(event.id);
+                        }
+                    }
+                } catch (err) {
+                    logger.error('Failed to publish events', { error: err, count: chunk.length });
+                    chunk.forEach((event) => failed.add(event.id));
+                }
+                if (failed.size > 0) {
+                    break;
+                }
+            }
+            return unpublishedFrom(events, failed);
+        },
+    };
+}
+
+// ========================================
+// インメモリ(テスト用)
+// ========================================
+/**
+ * 発行したイベントをメモリに保存する発行先を作成する
+ *
+ * 学習ポイント：
+ * - shouldFail で、発行に失敗するイベントを指定できる(失敗の扱いのテスト用)
+ * - 他の発行先と同じく、失敗したイベントより後ろは発行しない
+ *
+ * @param shouldFail - 発行に失敗させるイベントを判定する関数
+ * @returns 発行先
+ */
+export function createInMemoryEventPublisher(
+    shouldFail: (event: ItemChangeEvent) => boolean = () => false
+): InMemoryEventPublisher {
+    const published: ItemChangeEvent[] = [];
+
+    return {
+        published,
+
+        async publish(events) {
+            for (const [index, event] of events.entries()) {
+                if (shouldFail(event)) {
+                    return events.slice(index);
+                }
+                published.push(structuredClone(event));
+            }
+            return [];
+        },
+    };
+}
+
+// ========================================
+// 複数の発行先
+// ========================================
+/**
+ * 複数の発行先に同じイベントを発行する発行先を作成する
+ *
+ * 学習ポイント：
+ * - どれか1つの発行先で最初に失敗したイベントから後ろを、発行できなかったイベントとして返す
+ *   (再試行すると、成功した発行先にも同じイベントがもう一度届く。発行先ごとの順番は変わらない)
+ *
+ * @param publishers - 発行先
+ * @returns 発行先
+ */
+export function combinePublishers(...publishers: EventPublisher[]): EventPublisher {
+    return {
+        async publish(events, context) {
+            const results = await Promise.all(publishers.map((publisher) => publisher.publish(events, context)));
+            return unpublishedFrom(events, new Set(results.flat().map((event) => event.id)));
+        },
+    };
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 最初に発行できなかったイベントと、それより後ろのイベントを返す
+ *
+ * @param events - 発行しようとしたイベント(ストリームの順番)
+ * @param failedIds - 発行できなかったイベントのID
+ * @returns 最初に発行できなかったイベントから後ろのイベント(すべて発行できた場合は空の配列)
+ */
+export function unpublishedFrom(events: ItemChangeEvent[], failedIds: Set<string>): ItemChangeEvent[] {
+    const index = events.findIndex((event) => failedIds.has(event.id));
+    return index < 0 ? [] : events.slice(index);
+}
+
+/**
+ * イベントを指定サイズごとに分割する(同じアイテムのイベントは同じ分割に入れない)
+ *
+ * 学習ポイント：
+ * - 1回の発行の一部だけが失敗しても、同じアイテムの後のイベントが先に届かないようにする
+ *   (同じ分割にあるのは別々のアイテムのイベントなので、再試行で重複はしても順番は入れ替わらない)
+ */
+function chunkByItem(events: ItemChangeEvent[], size: number): ItemChangeEvent[][] {
+    const chunks: ItemChangeEvent[][] = [];
+    let current: ItemChangeEvent[] = [];
+    const itemKeys = new Set<string>();
+    for (const event of events) {
+        const itemKey = `${event.tenantId}#${event.itemId}`;
+        if (current.length >= size || itemKeys.has(itemKey)) {
+            chunks.push(current);
+            current = [];
+            itemKeys.clear();
+        }
+        current.push(event);
+        itemKeys.add(itemKey);
+    }
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+}
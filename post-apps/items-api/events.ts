@@ -0,0 +1,187 @@
+/**
+ * アイテムの変更イベント(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. DynamoDB Streams のレコード(INSERT / MODIFY / REMOVE)の読み方
+ * 2. DynamoDBの形式(AttributeValue)から普通のオブジェクトへの変換(unmarshall)
+ * 3. 下流のサービスに渡す、型の決まったイベント(ドメインイベント)の作り方
+ *
+ * イベントの例：
+ * {
+ *   "id": "c4ca4238a0b923820dcc509a6f75849b",
+ *   "type": "item.updated",
+ *   "itemId": "item-1",
+ *   "version": 2,
+ *   "occurredAt": "2025-10-21T10:30:00.000Z",
+ *   "oldImage": { "id": "item-1", "name": "商品A", "price": 1000, "version": 1, ... },
+ *   "newImage": { "id": "item-1", "name": "商品A", "price": 1200, "version": 2, ... }
+ * }
+ *
+ * 学習ポイント：
+ * - テーブルのストリームは StreamViewType: NEW_AND_OLD_IMAGES(変更前と変更後の両方を含める)にする
+ * - id はストリームのレコードのID。同じイベントが2回以上届くことがあるため、受け取る側は id で重複を除く
+ * - 論理削除(deletedAt が付いた更新)は item.deleted として扱う(history.ts の delete と同じ考え方)
+ */
+
+import { AttributeValue as DynamoDBAttributeValue } from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { AttributeValue, DynamoDBRecord } from 'aws-lambda';
+import { fromItemRecord, MIGRATED_FROM_ATTRIBUTE } from './dynamodb-repository';
+import { Item } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * イベントの種類
+ *
+ * - item.created: 作成
+ * - item.updated: 更新(論理削除からの復元を含む)
+ * - item.deleted: 論理削除・物理削除
+ */
+export type ItemEventType = 'item.created' | 'item.updated' | 'item.deleted';
+
+/**
+ * アイテムの変更イベント
+ */
+export interface ItemChangeEvent {
+    /** イベントのID(ストリームのレコードのID。重複を除くために使う) */
+    id: string;
+    type: ItemEventType;
+    /** アイテムのテナント */
+    tenantId: string;
+    itemId: string;
+    /** 変更後のバージョン(物理削除の場合は削除前のバージョン) */
+    version?: number;
+    /** 変更された日時(ISO 8601) */
+    occurredAt: string;
+    /** 削除の種類(item.deleted の場合のみ。soft: 論理削除、hard: 物理削除、expired: 有効期限(TTL)による削除) */
+    deletion?: 'soft' | 'hard' | 'expired';
+    /** 変更前のアイテム(item.created の場合はなし) */
+    oldImage?: Item;
+    /** 変更後のアイテム(物理削除の場合はなし) */
+    newImage?: Item;
+}
+
+/**
+ * イベントに変換できないストリームのレコード
+ *
+ * 学習ポイント：
+ * - StreamViewType の設定が間違っている(変更前・変更後が含まれない)場合などに発生する
+ */
+export class InvalidStreamRecordError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidStreamRecordError';
+    }
+}
+
+// ========================================
+// 変換
+// ========================================
+/**
+ * DynamoDB Streams のレコードをアイテムの変更イベントに変換する
+ *
+ * 学習ポイント：
+ * - INSERT → item.created、REMOVE → item.deleted(物理削除)
+ * - TTL による削除の REMOVE は userIdentity が DynamoDB のサービス(dynamodb.amazonaws.com)になる
+ * - MODIFY のうち deletedAt が新しく付いたものは item.deleted(論理削除)、それ以外は item.updated
+ * - テナントはキー(tenantId)から取り出し、変更前・変更後のアイテムからはキーの属性を取り除く(APIのレスポンスと同じ形)
+ *
+ * @param record - ストリームのレコード
+ * @returns アイテムの変更イベント
+ * @throws InvalidStreamRecordError - イベントに変換できない場合
+ */
+export function toItemChangeEvent(record: DynamoDBRecord): ItemChangeEvent {
+    const stream = record.dynamodb;
+    if (!record.eventID || !stream?.Keys) {
+        throw new InvalidStreamRecordError('Stream record has no eventID or keys');
+    }
+
+    const { tenantId, id: itemId } = toItem(stream.Keys);
+    if (typeof tenantId !== 'string' || typeof itemId !== 'string') {
+        throw new InvalidStreamRecordError('Stream record has no tenant id or item id');
+    }
+    const oldImage = stream.OldImage ? fromItemRecord(toItem(stream.OldImage)) : undefined;
+    const newImage = stream.NewImage ? fromItemRecord(toItem(stream.NewImage)) : undefined;
+
+    const base = {
+        id: record.eventID,
+        tenantId,
+        itemId,
+        occurredAt: toIsoString(stream.ApproximateCreationDateTime),
+    };
+
+    switch (record.eventName) {
+        case 'INSERT':
+            if (!newImage) {
+                throw new InvalidStreamRecordError('INSERT record has no NewImage (StreamViewType must include new images)');
+            }
+            return { ...base, type: 'item.created', version: newImage.version, newImage };
+
+        case 'MODIFY':
+            if (!oldImage || !newImage) {
+                throw new InvalidStreamRecordError('MODIFY record must have both images (use NEW_AND_OLD_IMAGES)');
+            }
+            if (newImage.deletedAt && !oldImage.deletedAt) {
+                return { ...base, type: 'item.deleted', version: newImage.version, deletion: 'soft', oldImage, newImage };
+            }
+            return { ...base, type: 'item.updated', version: newImage.version, oldImage, newImage };
+
+        case 'REMOVE':
+            if (!oldImage) {
+                throw new InvalidStreamRecordError('REMOVE record has no OldImage (StreamViewType must include old images)');
+            }
+            return {
+                ...base,
+                type: 'item.deleted',
+                version: oldImage.version,
+                deletion: isTtlDeletion(record) ? 'expired' : 'hard',
+                oldImage,
+            };
+
+        default:
+            throw new InvalidStreamRecordError(`Unknown stream event name: ${record.eventName}`);
+    }
+}
+
+/**
+ * 移行スクリプト(migrate-tenants.ts)が書き込んだレコードか
+ *
+ * 学習ポイント：
+ * - 移したアイテムはAPIでの作成・変更ではないので、変更イベントとして発行しない
+ * - 変更後のアイテムに印があるものだけが対象(移行の後にAPIで変更・削除したものは発行する)
+ *
+ * @param record - ストリームのレコード
+ * @returns 移行で書き込んだレコードか
+ */
+export function isMigrationRecord(record: DynamoDBRecord): boolean {
+    return record.dynamodb?.NewImage?.[MIGRATED_FROM_ATTRIBUTE] !== undefined;
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * DynamoDBの形式({ "S": "..." } など)から普通のオブジェクトに変換する
+ *
+ * 学習ポイント：
+ * - aws-lambda と SDK で AttributeValue の型定義が別々にあるため、SDK の型として渡す
+ */
+function toItem(image: Record<string, AttributeValue>): Item {
+    return unmarshall(image as Record<string, DynamoDBAttributeValue>);
+}
+
+/**
+ * ストリームのレコードの作成日時(UNIX時間の秒)をISO 8601の文字列に変換する
+ */
+function toIsoString(epochSeconds: number | undefined): string {
+    return (epochSeconds === undefined ? new Date() : new Date(epochSeconds * 1000)).toISOString();
+}
+
+/**
+ * TTL(有効期限)によって DynamoDB が削除したレコードかどうか
+ */
+function isTtlDeletion(record: DynamoDBRecord): boolean {
+    return record.userIdentity?.type === 'Service' && record.userIdentity?.principalId === 'dynamodb.amazonaws.com';
+}
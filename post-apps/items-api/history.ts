@@ -0,0 +1,310 @@
+/**
+ * アイテムの変更履歴(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 変更前と変更後のアイテムから差分(JSON Patch 形式)を作る方法
+ * 2. 差分を順に適用して、過去のある時点のアイテムを復元する方法(イベントソーシングの考え方)
+ * 3. 誰が・いつ・何を変更したかを残す監査ログ(Audit Trail)の作り方
+ *
+ * 履歴エントリーの例：
+ * {
+ *   "itemId": "item-1",
+ *   "version": 2,
+ *   "operation": "update",
+ *   "changedAt": "2025-10-21T10:30:00.000Z",
+ *   "changedBy": "user-123",
+ *   "ownerId": "user-123",
+ *   "changes": [
+ *     { "op": "replace", "path": "/price", "value": 1200 },
+ *     { "op": "add", "path": "/updatedAt", "value": "2025-10-21T10:30:00.000Z" }
+ *   ]
+ * }
+ *
+ * 学習ポイント：
+ * - 履歴エントリーは追記するだけで、書き換えも削除もしない(イミュータブル)
+ * - バージョン(version)ごとに1件なので、(itemId, version) で一意になる
+ * - 物理削除したIDで作り直したアイテムは、前のアイテムの最後の履歴エントリーの続きのバージョンから始まる
+ * - 差分はトップレベルのフィールド単位(ネストしたオブジェクトは値ごと置き換える)
+ */
+
+import { InvalidCursorError, Item } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 変更の種類
+ *
+ * - create: 作成
+ * - update: 更新(論理削除からの復元を含む)
+ * - delete: 論理削除・物理削除
+ */
+export type HistoryOperation = 'create' | 'update' | 'delete';
+
+/**
+ * 1つのフィールドの変更(RFC 6902 JSON Patch のうち add / remove / replace)
+ */
+export interface HistoryChange {
+    op: 'add' | 'remove' | 'replace';
+    /** 変更したフィールド(JSON Pointer。例: /price) */
+    path: string;
+    /** 変更後の値(remove の場合はなし) */
+    value?: unknown;
+}
+
+/**
+ * 履歴エントリー(1回の変更)
+ */
+export interface HistoryEntry {
+    itemId: string;
+    /** 変更後のバージョン(物理削除の場合は削除前のバージョン + 1) */
+    version: number;
+    operation: HistoryOperation;
+    /** 変更した日時(ISO 8601) */
+    changedAt: string;
+    /** 変更したユーザー(認証されたユーザーのID) */
+    changedBy: string;
+    /** アイテムの所有者(物理削除された後も、履歴を見てよいユーザーを判定するため) */
+    ownerId?: string;
+    changes: HistoryChange[];
+}
+
+/**
+ * 書き込みの情報(誰が・いつ)
+ */
+export interface ChangeContext {
+    /** 変更したユーザー */
+    actor: string;
+    /** 変更した日時(ISO 8601) */
+    timestamp: string;
+}
+
+/**
+ * 履歴の取得の条件
+ */
+export interface HistoryQuery {
+    /** 1ページの最大件数 */
+    limit: number;
+    /** 前のページの nextCursor */
+    cursor?: string;
+    /** 並び順(newest: 新しい順、oldest: 古い順) */
+    order: 'newest' | 'oldest';
+}
+
+/**
+ * 履歴の取得の結果(1ページ分)
+ */
+export interface HistoryPage {
+    entries: HistoryEntry[];
+    nextCursor: string | null;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * 書き込みの情報を渡さなかった場合の変更者(移行スクリプトなど)
+ */
+export const SYSTEM_ACTOR = 'system';
+
+// ========================================
+// 履歴エントリーの作成
+// ========================================
+/**
+ * 変更前と変更後のアイテムから履歴エントリーを作成する
+ *
+ * 学習ポイント：
+ * - 変更前がなければ作成、変更後がなければ物理削除
+ * - deletedAt が新しく付いた場合は論理削除
+ *
+ * @param before - 変更前のアイテム(作成の場合はundefined)
+ * @param after - 変更後のアイテム(物理削除の場合はundefined)
+ * @param context - 書き込みの情報(省略した場合は SYSTEM_ACTOR と現在時刻)
+ * @returns 履歴エントリー
+ */
+export function createHistoryEntry(
+    before: Item | undefined,
+    after: Item | undefined,
+    context: ChangeContext = defaultChangeContext()
+): HistoryEntry {
+    const current = after ?? before;
+    if (!current) {
+        throw new Error('Either before or after is required');
+    }
+
+    let operation: HistoryOperation;
+    if (!before) {
+        operation = 'create';
+    } else if (!after || (after.deletedAt && !before.deletedAt)) {
+        operation = 'delete';
+    } else {
+        operation = 'update';
+    }
+
+    const entry: HistoryEntry = {
+        itemId: current.id,
+        version: after ? (after.version ?? 1) : (before!.version ?? 0) + 1,
+        operation,
+        changedAt: context.timestamp,
+        changedBy: context.actor,
+        changes: diffItems(before, after),
+    };
+    if (current.ownerId !== undefined) {
+        entry.ownerId = current.ownerId;
+    }
+    return entry;
+}
+
+/**
+ * 2つのアイテムの差分を作成する
+ *
+ * @param before - 変更前のアイテム
+ * @param after - 変更後のアイテム
+ * @returns 差分(フィールド名の順)
+ */
+export function diffItems(before: Item | undefined, after: Item | undefined): HistoryChange[] {
+    const previous = before ?? {};
+    const next = after ?? {};
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(next)])].sort();
+
+    const changes: HistoryChange[] = [];
+    for (const field of fields) {
+        const path = `/${escapePointer(field)}`;
+        if (!(field in next)) {
+            changes.push({ op: 'remove', path });
+        } else if (!(field in previous)) {
+            changes.push({ op: 'add', path, value: next[field] });
+        } else if (!isDeepEqual(previous[field], next[field])) {
+            changes.push({ op: 'replace', path, value: next[field] });
+        }
+    }
+    return changes;
+}
+
+/**
+ * アイテムに差分を適用する
+ *
+ * @param item - 適用前のアイテム(変更しない)
+ * @param changes - 差分
+ * @returns 適用後のアイテム
+ */
+export function applyChanges(item: Item, changes: HistoryChange[]): Item {
+    const result = structuredClone(item);
+    for (const change of changes) {
+        const field = unescapePointer(change.path.slice(1));
+        if (change.op === 'remove') {
+            delete result[field];
+        } else {
+            result[field] = structuredClone(change.value);
+        }
+    }
+    return result;
+}
+
+/**
+ * 古い順の履歴エントリーから、最後のエントリーの時点のアイテムを復元する
+ *
+ * 学習ポイント：
+ * - 作成(create)から順に差分を適用すると、その時点のアイテムになる
+ * - 履歴を記録し始める前からあるアイテムは、最初のエントリーが create ではないため復元できない
+ * - 物理削除や TTL で削除された後に同じIDで作り直した場合、create から復元し直す
+ *   (TTL による削除は履歴に残らないため、前のアイテムのフィールドを引き継がないようにする)
+ *
+ * @param entries - 古い順の履歴エントリー
+ * @returns 復元したアイテム。物理削除されていた場合・復元できない場合はundefined
+ */
+export function reconstructItem(entries: HistoryEntry[]): Item | undefined {
+    if (entries.length === 0 || entries[0].operation !== 'create') {
+        return undefined;
+    }
+
+    let item: Item | undefined;
+    for (const entry of entries) {
+        const applied = applyChanges(entry.operation === 'create' ? {} : (item ?? {}), entry.changes);
+        item = Object.keys(applied).length > 0 ? applied : undefined;
+    }
+    return item;
+}
+
+// ========================================
+// ページネーション用ヘルパー関数
+// ========================================
+/**
+ * 最後に返した履歴エントリーのバージョンをカーソル文字列に変換する
+ *
+ * 学習ポイント：
+ * - どのリポジトリの実装でも同じ形式にする(itemId はリクエストのパスから分かる)
+ *
+ * @param version - 最後に返した履歴エントリーのバージョン
+ * @returns カーソル文字列
+ */
+export function encodeHistoryCursor(version: number): string {
+    return Buffer.from(JSON.stringify({ version }), 'utf8').toString('base64url');
+}
+
+/**
+ * カーソル文字列をバージョンに戻す
+ *
+ * @param cursor - クライアントから受け取ったカーソル
+ * @returns 最後に返した履歴エントリーのバージョン
+ * @throws InvalidCursorError - 不正なカーソルの場合
+ */
+export function decodeHistoryCursor(cursor: string): number {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new InvalidCursorError();
+    }
+
+    const version = (decoded as { version?: unknown } | null)?.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || Object.keys(decoded as object).length !== 1) {
+        throw new InvalidCursorError();
+    }
+    return version;
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 書き込みの情報を渡さなかった場合のデフォルト
+ */
+function defaultChangeContext(): ChangeContext {
+    return { actor: SYSTEM_ACTOR, timestamp: new Date().toISOString() };
+}
+
+/**
+ * 2つの値が同じ内容かを判定する(JSONとして比較)
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return (
+        aKeys.length === bKeys.length &&
+        aKeys.every((key) => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+    );
+}
+
+/**
+ * フィールド名を JSON Pointer の形式にエスケープする(~ → ~0、/ → ~1)
+ */
+function escapePointer(field: string): string {
+    return field.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * JSON Pointer の形式からフィールド名に戻す
+ */
+function unescapePointer(token: string): string {
+    return token.replace(/~1/g, '/').replace(/~0/g, '~');
+}
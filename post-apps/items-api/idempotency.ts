@@ -0,0 +1,221 @@
+/**
+ * Idempotency-Key(冪等キー)の管理(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 「同じリクエストを何度送っても結果が1回分になる」冪等性の実現方法
+ * 2. DynamoDBの条件付き書き込みを使った排他制御(ロック)
+ * 3. TTL(Time To Live)による古いレコードの自動削除
+ *
+ * 処理の流れ：
+ * 1. 最初のリクエスト: キーを IN_PROGRESS として登録 → 処理 → レスポンスを保存(COMPLETED)
+ * 2. 同じキー・同じボディの再送: 保存したレスポンスをそのまま返す(再実行しない)
+ * 3. 同じキー・違うボディ: キーの使い回しなので 422 エラー
+ * 4. 最初のリクエストの処理中に届いた再送: 409 エラー(少し待ってから再送してもらう)
+ *
+ * 保存するレコードの例：
+ * {
+ *   "idempotencyKey": "7c4a8d09-...",
+ *   "requestHash": "9f86d081...",
+ *   "status": "COMPLETED",
+ *   "response": { "statusCode": 201, "headers": { ... }, "body": "{...}" },
+ *   "lockExpiresAt": 1729506630,
+ *   "expiresAt": 1729593000
+ * }
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'crypto';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 冪等キーの保存先の設定
+ */
+export interface IdempotencyOptions {
+    /** 保存先のDynamoDBテーブル名 */
+    tableName: string;
+    /** レコードを保持する秒数(これを過ぎたキーは再利用できる) */
+    ttlSeconds: number;
+    /** 処理中(IN_PROGRESS)のロックの秒数(Lambdaが途中で停止してもキーが永久にロックされないようにする) */
+    lockSeconds: number;
+}
+
+/**
+ * 冪等キーの登録結果
+ *
+ * - started: 初めてのキー。リクエストを処理してよい
+ * - replay: 処理済み。保存したレスポンスを返す
+ * - mismatch: 同じキーが別のリクエストに使われている
+ * - inProgress: 同じキーのリクエストを処理中
+ */
+export type IdempotencyStartResult =
+    | { state: 'started' }
+    | { state: 'replay'; response: APIGatewayProxyResult }
+    | { state: 'mismatch' }
+    | { state: 'inProgress' };
+
+// ========================================
+// 冪等キーの操作
+// ========================================
+/**
+ * リクエストの内容からハッシュ値を作る
+ *
+ * 学習ポイント：
+ * - ボディ全体を保存せずに「同じリクエストかどうか」を比較できる
+ * - クエリパラメータ(?upsert=true など)が違えば別のリクエストとして扱う
+ *
+ * @param body - リクエストボディ
+ * @param query - クエリパラメータ
+ * @returns SHA-256のハッシュ値(16進数)
+ */
+export function hashRequest(body: string | null, query: Record<string, string | undefined> | null): string {
+    const sortedQuery = Object.entries(query ?? {}).sort(([a], [b]) => a.localeCompare(b));
+    return createHash('sha256')
+        .update(JSON.stringify({ query: sortedQuery, body: body ?? '' }))
+        .digest('hex');
+}
+
+/**
+ * 冪等キーを登録する(処理を始めてよいかを判定する)
+ *
+ * 学習ポイント：
+ * - 「まだ登録されていない場合のみ書き込む」条件付き書き込みで、
+ *   同時に届いた同じキーのリクエストのうち1つだけが処理を始められる
+ * - TTLによる削除は即時ではないため、期限切れのレコードは条件式でも「存在しない」として扱う
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param key - Idempotency-Key ヘッダーの値
+ * @param requestHash - hashRequest で作ったハッシュ値
+ * @returns 登録結果
+ */
+export async function startIdempotentRequest(
+    client: DynamoDBDocumentClient,
+    options: IdempotencyOptions,
+    key: string,
+    requestHash: string
+): Promise<IdempotencyStartResult> {
+    const now = nowInSeconds();
+
+    try {
+        await client.send(
+            new PutCommand({
+                TableName: options.tableName,
+                Item: {
+                    idempotencyKey: key,
+                    requestHash,
+                    status: 'IN_PROGRESS',
+                    lockExpiresAt: now + options.lockSeconds,
+                    expiresAt: now + options.ttlSeconds,
+                },
+                ConditionExpression:
+                    'attribute_not_exists(idempotencyKey) OR expiresAt < :now ' +
+                    'OR (#status = :inProgress AND lockExpiresAt < :now AND requestHash = :requestHash)',
+                ExpressionAttributeNames: { '#status': 'status' },
+                ExpressionAttributeValues: {
+                    ':now': now,
+                    ':inProgress': 'IN_PROGRESS',
+                    ':requestHash': requestHash,
+                },
+            })
+        );
+        return { state: 'started' };
+    } catch (err) {
+        if ((err as { name?: string } | null)?.name !== 'ConditionalCheckFailedException') {
+            throw err;
+        }
+    }
+
+    // すでに登録されている場合は、登録済みのレコードの状態で判定する
+    const response = await client.send(
+        new GetCommand({
+            TableName: options.tableName,
+            Key: { idempotencyKey: key },
+            ConsistentRead: true,
+        })
+    );
+    const record = response.Item;
+
+    if (!record) {
+        // 判定の間に削除された(先に処理していたリクエストが失敗した)
+        return { state: 'inProgress' };
+    }
+    if (record.requestHash !== requestHash) {
+        return { state: 'mismatch' };
+    }
+    if (record.status === 'COMPLETED') {
+        return { state: 'replay', response: record.response as APIGatewayProxyResult };
+    }
+    return { state: 'inProgress' };
+}
+
+/**
+ * 処理が完了したレスポンスを保存する
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param key - Idempotency-Key ヘッダーの値
+ * @param response - 再送時に返すレスポンス
+ */
+export async function completeIdempotentRequest(
+    client: DynamoDBDocumentClient,
+    options: IdempotencyOptions,
+    key: string,
+    response: APIGatewayProxyResult
+): Promise<void> {
+    await client.send(
+        new UpdateCommand({
+            TableName: options.tableName,
+            Key: { idempotencyKey: key },
+            UpdateExpression: 'SET #status = :completed, #response = :response REMOVE lockExpiresAt',
+            ExpressionAttributeNames: { '#status': 'status', '#response': 'response' },
+            ExpressionAttributeValues: {
+                ':completed': 'COMPLETED',
+                ':response': {
+                    statusCode: response.statusCode,
+                    headers: response.headers ?? {},
+                    body: response.body,
+                },
+            },
+        })
+    );
+}
+
+/**
+ * 処理に失敗した冪等キーを削除する
+ *
+ * 学習ポイント：
+ * - サーバー側の一時的な障害(5xx)の結果は保存しない
+ * - キーを削除しておけば、クライアントは同じキーで再送できる
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @param key - Idempotency-Key ヘッダーの値
+ */
+export async function releaseIdempotentRequest(
+    client: DynamoDBDocumentClient,
+    options: IdempotencyOptions,
+    key: string
+): Promise<void> {
+    await client.send(
+        new DeleteCommand({
+            TableName: options.tableName,
+            Key: { idempotencyKey: key },
+        })
+    );
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 現在時刻(UNIX時間の秒)を返す
+ *
+ * 学習ポイント：
+ * - DynamoDBのTTLは「UNIX時間の秒」の数値属性で指定する
+ */
+function nowInSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+}
@@ -41,6 +41,16 @@ const config: Config = {
    */
   roots: ['<rootDir>'],
 
+  /**
+   * モジュール解決時に優先する拡張子
+   *
+   * 学習ポイント：
+   * - tsc の出力先が同じディレクトリ（app.js）のため、
+   *   デフォルトの順序（js優先）だとコンパイル済みファイルがテストされてしまう
+   * - ts を先頭にして、常にTypeScriptのソースをテストする
+   */
+  moduleFileExtensions: ['ts', 'js', 'json', 'node'],
+
   /**
    * テストファイルのパターン
    * 
@@ -63,6 +73,30 @@ const config: Config = {
    */
   collectCoverageFrom: [
     'app.ts',
+    'schema.ts',
+    'logger.ts',
+    'idempotency.ts',
+    'repository.ts',
+    'dynamodb-repository.ts',
+    'memory-repository.ts',
+    'local-server.ts',
+    'auth.ts',
+    'api-keys.ts',
+    'cors.ts',
+    'router.ts',
+    'openapi.ts',
+    'problem.ts',
+    'dynamodb-errors.ts',
+    'retry.ts',
+    'history.ts',
+    'events.ts',
+    'event-publisher.ts',
+    'stream-handler.ts',
+    'webhooks.ts',
+    'webhook-dispatcher.ts',
+    'tenant.ts',
+    'migrate-tenants.ts',
+    'attachments.ts',
     // 将来的にファイルが増えたら以下のパターンも使用可能
     // '**/*.ts',
     '!**/*.test.ts',
@@ -0,0 +1,316 @@
+/**
+ * ローカル開発用のHTTPサーバー(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. API Gateway がHTTPリクエストを Lambda のイベントに変換する仕組み
+ * 2. パステンプレート(/items/{id})からのパスパラメータの取り出し
+ * 3. Node.js 標準の http モジュールだけで動くサーバー
+ *
+ * 使い方：
+ * npm run start:local
+ * curl http://localhost:3000/items
+ *
+ * 注意：
+ * - デフォルトではアイテムをメモリ上に保存する(ITEM_STORAGE=dynamodb で DynamoDB を使う)
+ * - デフォルトでは認証しない(AUTH_MODE=jwt でトークンを検証する)
+ * - API Gateway の機能(認証、スロットリングなど)は再現しない
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createItemRepository, createLambdaHandler, createRequestAuthenticator } from './app';
+import { logger } from './logger';
+import { matchPathTemplate } from './router';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * Lambda関数のハンドラー
+ */
+export type LocalHandler = (event: APIGatewayProxyEvent, context?: Context) => Promise<APIGatewayProxyResult>;
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * API Gateway に定義しているパス(template.yaml の Events と同じにする)
+ *
+ * 学習ポイント：
+ * - API Gateway はパスをテンプレートと照合し、一致したテンプレートを event.resource に入れる
+ * - {id} の部分は event.pathParameters.id に入る
+ * - テナントのパスは template.yaml では /tenants/{tenantId}/{proxy+} にまとめているが、
+ *   ここでは {proxy+} を使わず /items のパスごとに書く
+ */
+export const RESOURCES = [
+    '/items',
+    '/items/{id}',
+    '/items/{id}/restore',
+    '/items/{id}/history',
+    '/items/{id}/attachments',
+    '/items/{id}/attachments/{attachmentId}',
+    '/items:batch',
+    '/items:batchGet',
+    '/tenants/{tenantId}/items',
+    '/tenants/{tenantId}/items/{id}',
+    '/tenants/{tenantId}/items/{id}/restore',
+    '/tenants/{tenantId}/items/{id}/history',
+    '/tenants/{tenantId}/items/{id}/attachments',
+    '/tenants/{tenantId}/items/{id}/attachments/{attachmentId}',
+    '/tenants/{tenantId}/items:batch',
+    '/tenants/{tenantId}/items:batchGet',
+    '/api-keys',
+    '/api-keys/{keyId}',
+    '/webhooks',
+    '/webhooks/{webhookId}',
+    '/webhooks/{webhookId}/deliveries',
+    '/openapi.json',
+];
+
+/**
+ * リクエストボディの最大サイズ(API Gateway の上限と同じ10MB)
+ */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Lambda関数のタイムアウト(template.yaml の Globals.Function.Timeout と同じ3秒)
+ */
+const TIMEOUT_MS = 3000;
+
+// ========================================
+// ルーティング
+// ========================================
+/**
+ * パスに一致するリソース(パステンプレート)を探す
+ *
+ * 学習ポイント：
+ * - 固定の文字列(/items:batch)を先に照合し、{id} が「:batch」を含むIDとして一致しないようにする
+ * - テンプレートとの照合は router.ts の matchPathTemplate を使う(Lambda のルーティングと同じ規則)
+ *
+ * @param path - リクエストのパス(クエリ文字列を除く)
+ * @returns 一致したリソースとパスパラメータ。一致しなければnull
+ */
+export function matchResource(
+    path: string
+): { resource: string; pathParameters: Record<string, string> | null } | null {
+    const sorted = [...RESOURCES].sort((a, b) => Number(a.includes('{')) - Number(b.includes('{')));
+
+    for (const resource of sorted) {
+        const pathParameters = matchPathTemplate(resource, path);
+        if (pathParameters === undefined) {
+            continue;
+        }
+        if (pathParameters === null) {
+            // %E0%A4%A のような不正なエンコーディング
+            return null;
+        }
+        return { resource, pathParameters: Object.keys(pathParameters).length > 0 ? pathParameters : null };
+    }
+    return null;
+}
+
+// ========================================
+// HTTPリクエスト → Lambdaイベント
+// ========================================
+/**
+ * HTTPリクエストを API Gateway(REST API)のイベントに変換する
+ *
+ * 学習ポイント：
+ * - headers は最後の値、multiValueHeaders はすべての値を持つ(クエリパラメータも同じ)
+ * - 値がない場合は空のオブジェクトではなく null になる
+ *
+ * @param request - HTTPリクエスト
+ * @param body - リクエストボディ
+ * @param matched - 一致したリソースとパスパラメータ
+ * @returns API Gateway のイベント
+ */
+export function toApiGatewayEvent(
+    request: IncomingMessage,
+    body: string,
+    matched: { resource: string; pathParameters: Record<string, string> | null }
+): APIGatewayProxyEvent {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const method = request.method ?? 'GET';
+
+    // rawHeaders は [名前, 値, 名前, 値, ...] の配列で、元の大文字・小文字が残っている
+    const headers: Record<string, string> = {};
+    const multiValueHeaders: Record<string, string[]> = {};
+    for (let i = 0; i < request.rawHeaders.length; i += 2) {
+        const [name, value] = [request.rawHeaders[i], request.rawHeaders[i + 1]];
+        headers[name] = value;
+        multiValueHeaders[name] = [...(multiValueHeaders[name] ?? []), value];
+    }
+
+    const queryStringParameters: Record<string, string> = {};
+    const multiValueQueryStringParameters: Record<string, string[]> = {};
+    for (const [name, value] of url.searchParams) {
+        queryStringParameters[name] = value;
+        multiValueQueryStringParameters[name] = [...(multiValueQueryStringParameters[name] ?? []), value];
+    }
+    const hasQuery = Object.keys(queryStringParameters).length > 0;
+
+    return {
+        httpMethod: method,
+        path: url.pathname,
+        resource: matched.resource,
+        pathParameters: matched.pathParameters,
+        headers,
+        multiValueHeaders,
+        queryStringParameters: hasQuery ? queryStringParameters : null,
+        multiValueQueryStringParameters: hasQuery ? multiValueQueryStringParameters : null,
+        body: body === '' ? null : body,
+        isBase64Encoded: false,
+        stageVariables: null,
+        requestContext: {
+            accountId: 'local',
+            apiId: 'local',
+            authorizer: null,
+            httpMethod: method,
+            identity: { sourceIp: request.socket.remoteAddress ?? '127.0.0.1' } as any,
+            path: url.pathname,
+            protocol: `HTTP/${request.httpVersion}`,
+            requestId: randomUUID(),
+            requestTimeEpoch: Date.now(),
+            resourceId: 'local',
+            resourcePath: matched.resource,
+            stage: 'local',
+        },
+    };
+}
+
+/**
+ * Lambda の context を作成する
+ *
+ * 学習ポイント：
+ * - ハンドラーが使うのは awsRequestId と getRemainingTimeInMillis 程度なので、それ以外は固定値
+ */
+function createContext(): Context {
+    const deadline = Date.now() + TIMEOUT_MS;
+    return {
+        callbackWaitsForEmptyEventLoop: true,
+        functionName: 'items-api-local',
+        functionVersion: '$LATEST',
+        invokedFunctionArn: 'arn:aws:lambda:local:000000000000:function:items-api-local',
+        memoryLimitInMB: '128',
+        awsRequestId: randomUUID(),
+        logGroupName: '/aws/lambda/items-api-local',
+        logStreamName: 'local',
+        getRemainingTimeInMillis: () => Math.max(0, deadline - Date.now()),
+        done: () => undefined,
+        fail: () => undefined,
+        succeed: () => undefined,
+    };
+}
+
+// ========================================
+// Lambdaレスポンス → HTTPレスポンス
+// ========================================
+/**
+ * ハンドラーの結果をHTTPレスポンスとして書き込む
+ *
+ * @param response - HTTPレスポンス
+ * @param result - ハンドラーの結果
+ */
+function writeResult(response: ServerResponse, result: APIGatewayProxyResult): void {
+    for (const [name, value] of Object.entries(result.headers ?? {})) {
+        response.setHeader(name, String(value));
+    }
+    for (const [name, values] of Object.entries(result.multiValueHeaders ?? {})) {
+        response.setHeader(name, values.map(String));
+    }
+    response.statusCode = result.statusCode;
+    response.end(result.isBase64Encoded ? Buffer.from(result.body, 'base64') : result.body);
+}
+
+/**
+ * JSONのエラーレスポンスを書き込む(API Gateway が返すエラーと同じ形式)
+ */
+function writeError(response: ServerResponse, statusCode: number, message: string): void {
+    response.statusCode = statusCode;
+    response.setHeader('Content-Type', 'application/json');
+    response.end(JSON.stringify({ message }));
+}
+
+/**
+ * リクエストボディを読み込む
+ *
+ * @param request - HTTPリクエスト
+ * @returns ボディの文字列。上限を超えた場合はnull
+ */
+async function readBody(request: IncomingMessage): Promise<string | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            return null;
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+// ========================================
+// サーバー
+// ========================================
+/**
+ * ハンドラーを呼び出すHTTPサーバーを作成する
+ *
+ * 学習ポイント：
+ * - 定義されていないパスは Lambda を呼び出さずに404を返す
+ * - ハンドラーが例外を投げた場合は、API Gateway と同じく502を返す
+ *
+ * @param handler - Lambda関数のハンドラー
+ * @returns HTTPサーバー(listen はまだ呼ばれていない)
+ */
+export function createLocalServer(handler: LocalHandler): Server {
+    return createServer(async (request, response) => {
+        try {
+            const url = new URL(request.url ?? '/', 'http://localhost');
+            const matched = matchResource(url.pathname);
+            if (!matched) {
+                writeError(response, 404, 'Not Found');
+                return;
+            }
+
+            const body = await readBody(request);
+            if (body === null) {
+                writeError(response, 413, 'Request Entity Too Large');
+                return;
+            }
+
+            const result = await handler(toApiGatewayEvent(request, body, matched), createContext());
+            writeResult(response, result);
+        } catch (err) {
+            logger.error('Local server error', { error: err });
+            if (!response.headersSent) {
+                writeError(response, 502, 'Internal server error');
+            } else {
+                response.end();
+            }
+        }
+    });
+}
+
+/**
+ * サーバーを起動する(npm run start:local)
+ *
+ * 環境変数：
+ * - PORT: 待ち受けるポート(デフォルト 3000)
+ * - HOST: 待ち受けるアドレス(デフォルト localhost)
+ * - ITEM_STORAGE: アイテムの保存先(デフォルト memory)
+ * - AUTH_MODE: 認証の方法(デフォルト none)
+ */
+if (require.main === module) {
+    const port = Number(process.env.PORT ?? 3000);
+    const host = process.env.HOST ?? 'localhost';
+    const handler = createLambdaHandler(
+        createItemRepository(process.env.ITEM_STORAGE ?? 'memory'),
+        createRequestAuthenticator(process.env.AUTH_MODE ?? 'none')
+    );
+
+    createLocalServer(handler).listen(port, host, () => {
+        logger.info('Local server listening', { url: `http://${host}:${port}` });
+    });
+}
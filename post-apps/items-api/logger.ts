@@ -0,0 +1,235 @@
+/**
+ * 構造化ログ(JSON Lines)のロガー(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 1行1JSONの構造化ログ(CloudWatch Logs Insights で検索・集計できる)
+ * 2. ログレベルによる出力の絞り込み
+ * 3. AsyncLocalStorage を使ったリクエスト単位のコンテキスト(リクエストIDなど)の受け渡し
+ * 4. 個人情報(PII)をログに残さないためのマスキング
+ *
+ * 出力例：
+ * {"timestamp":"2025-10-21T10:30:00.000Z","level":"info","message":"Request completed",
+ *  "awsRequestId":"...","requestId":"...","route":"POST /items","statusCode":201,"latencyMs":42}
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * ログレベル(下に行くほど重要)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * リクエスト単位で全ログに付与するコンテキスト
+ *
+ * 学習ポイント：
+ * - awsRequestId: Lambdaの実行ごとのID(Lambdaのログと紐付けられる)
+ * - requestId: API GatewayのリクエストID(API Gatewayのアクセスログと紐付けられる)
+ */
+export interface LogContext {
+    awsRequestId?: string;
+    requestId?: string;
+    route?: string;
+    /** APIキーで認証したリクエストのキーID(どのクライアントのリクエストかを追跡する) */
+    apiKeyId?: string;
+    /** リクエストの対象のテナント */
+    tenantId?: string;
+}
+
+/**
+ * ロガーの設定
+ */
+export interface LoggerOptions {
+    /** 出力する最低レベル(未設定なら 'info') */
+    level?: string;
+    /** マスキングするフィールド名(カンマ区切り、大文字・小文字は区別しない) */
+    redactFields?: string;
+    /** 1行分のJSON文字列の出力先 */
+    write?: (line: string) => void;
+}
+
+/**
+ * ロガー
+ */
+export interface Logger {
+    debug(message: string, data?: Record<string, unknown>): void;
+    info(message: string, data?: Record<string, unknown>): void;
+    warn(message: string, data?: Record<string, unknown>): void;
+    error(message: string, data?: Record<string, unknown>): void;
+    /** 設定されたフィールドをマスキングした値を返す */
+    redact(value: unknown): unknown;
+}
+
+// ========================================
+// 定数
+// ========================================
+const LEVEL_ORDER: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+};
+
+/**
+ * デフォルトでマスキングするフィールド
+ *
+ * 学習ポイント：
+ * - ログは多くの人が閲覧でき、長期間保存されるため個人情報を残さない
+ */
+const DEFAULT_REDACT_FIELDS = 'password,email,phone,address,creditCard,token';
+
+const REDACTED = '[REDACTED]';
+
+// ========================================
+// リクエストコンテキスト
+// ========================================
+/**
+ * 実行中のリクエストのコンテキストを保持する
+ *
+ * 学習ポイント：
+ * - AsyncLocalStorage は await をまたいでも値を引き継げる
+ * - 関数の引数でリクエストIDを渡し回す必要がなくなる
+ * - 同時に複数のリクエストを処理しても、コンテキストが混ざらない
+ */
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * コンテキストを設定して関数を実行する
+ *
+ * @param context - このリクエストのコンテキスト
+ * @param fn - 実行する関数
+ * @returns fn の戻り値
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => Promise<T>): Promise<T> {
+    return contextStorage.run({ ...context }, fn);
+}
+
+/**
+ * 実行中のリクエストのコンテキストに項目を追加する(ルーティング後の route など)
+ *
+ * @param values - 追加する項目
+ */
+export function setLogContext(values: Partial<LogContext>): void {
+    const context = contextStorage.getStore();
+    if (context) {
+        Object.assign(context, values);
+    }
+}
+
+// ========================================
+// ロガーの作成
+// ========================================
+/**
+ * ロガーを作成する
+ *
+ * 学習ポイント：
+ * - 出力先(write)を差し替えられるようにしておくとテストしやすい
+ *
+ * @param options - ロガーの設定
+ * @returns ロガー
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+    const minLevel = parseLevel(options.level);
+    const redactFields = new Set(
+        (options.redactFields ?? DEFAULT_REDACT_FIELDS)
+            .split(',')
+            .map((field) => field.trim().toLowerCase())
+            .filter((field) => field !== '')
+    );
+    const write = options.write ?? ((line: string) => process.stdout.write(`${line}\n`));
+
+    const redact = (value: unknown): unknown => redactValue(value, redactFields);
+
+    const log = (level: LogLevel, message: string, data?: Record<string, unknown>): void => {
+        if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+            return;
+        }
+        const entry = {
+            timestamp: new Date().toISOString(),
+            level,
+            message,
+            ...contextStorage.getStore(),
+            ...(data ? (serialize(redact(data)) as Record<string, unknown>) : {}),
+        };
+        write(JSON.stringify(entry));
+    };
+
+    return {
+        debug: (message, data) => log('debug', message, data),
+        info: (message, data) => log('info', message, data),
+        warn: (message, data) => log('warn', message, data),
+        error: (message, data) => log('error', message, data),
+        redact,
+    };
+}
+
+/**
+ * アプリケーション全体で使うロガー
+ *
+ * 学習ポイント：
+ * - LOG_LEVEL: 出力する最低レベル(debug / info / warn / error)
+ * - LOG_REDACT_FIELDS: マスキングするフィールド名(カンマ区切り)
+ */
+export const logger = createLogger({
+    level: process.env.LOG_LEVEL,
+    redactFields: process.env.LOG_REDACT_FIELDS,
+});
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * ログレベルの文字列を解析する(不正な値は 'info' として扱う)
+ */
+function parseLevel(level: string | undefined): LogLevel {
+    const normalized = (level ?? '').trim().toLowerCase();
+    return normalized in LEVEL_ORDER ? (normalized as LogLevel) : 'info';
+}
+
+/**
+ * 指定されたフィールドの値を再帰的にマスキングする
+ *
+ * 学習ポイント：
+ * - 元のオブジェクトは変更せず、コピーを返す
+ * - ネストしたオブジェクトや配列の中もマスキングする
+ */
+function redactValue(value: unknown, fields: Set<string>): unknown {
+    if (Array.isArray(value)) {
+        return value.map((element) => redactValue(element, fields));
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Error)) {
+        const result: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(value)) {
+            result[key] = fields.has(key.toLowerCase()) ? REDACTED : redactValue(child, fields);
+        }
+        return result;
+    }
+    return value;
+}
+
+/**
+ * JSON.stringify で失われる値を、ログに残せる形に変換する
+ *
+ * 学習ポイント：
+ * - Error の message や stack は列挙可能なプロパティではないため、
+ *   そのまま JSON.stringify すると {} になってしまう
+ */
+function serialize(value: unknown): unknown {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (Array.isArray(value)) {
+        return value.map(serialize);
+    }
+    if (typeof value === 'object' && value !== null) {
+        const result: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(value)) {
+            result[key] = serialize(child);
+        }
+        return result;
+    }
+    return value;
+}
@@ -0,0 +1,287 @@
+/**
+ * メモリ上にアイテムを保存するリポジトリ(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 同じインターフェースを満たす別の実装(テストダブル)の作り方
+ * 2. AWSがなくてもAPIを動かせるローカル開発環境
+ *
+ * 注意：
+ * - データはプロセスのメモリ上にあるため、Lambdaのインスタンスごとに別々で、再起動すると消える
+ * - 本番環境では使わない(ローカル開発・テスト用)
+ */
+
+import { createHistoryEntry, decodeHistoryCursor, encodeHistoryCursor, HistoryEntry } from './history';
+import {
+    ConditionFailedError,
+    DEFAULT_TENANT_ID,
+    InvalidCursorError,
+    Item,
+    ItemRepository,
+    ListFilters,
+    matchesExpectedVersion,
+} from './repository';
+
+// ========================================
+// リポジトリの作成
+// ========================================
+/**
+ * 1つのテナントのアイテムと変更履歴
+ */
+interface TenantStore {
+    items: Map<string, Item>;
+    history: Map<string, HistoryEntry[]>;
+}
+
+/**
+ * メモリ上にアイテムを保存するリポジトリを作成する
+ *
+ * 学習ポイント：
+ * - 保存・取得のたびにコピーを作り、呼び出し元がオブジェクトを書き換えても保存内容が変わらないようにする
+ * - アイテムと変更履歴は同じ同期処理の中で書き込むので、片方だけ書き込まれることはない
+ * - テナントごとに別の Map に保存する(forTenant で作ったリポジトリも同じ保存先を使う)
+ *
+ * @param initialItems - 最初から保存しておくアイテム(デフォルトのテナント)
+ * @returns デフォルトのテナントのリポジトリ
+ */
+export function createInMemoryItemRepository(initialItems: Item[] = []): ItemRepository {
+    const tenants = new Map<string, TenantStore>([
+        [
+            DEFAULT_TENANT_ID,
+            { items: new Map(initialItems.map((item) => [item.id, structuredClone(item)])), history: new Map() },
+        ],
+    ]);
+
+    /**
+     * テナントのリポジトリを作成する(保存先がまだなければ作る)
+     */
+    const forTenant = (tenantId: string): ItemRepository => {
+        let store = tenants.get(tenantId);
+        if (!store) {
+            store = { items: new Map(), history: new Map() };
+            tenants.set(tenantId, store);
+        }
+        return createTenantRepository(store, forTenant);
+    };
+
+    return forTenant(DEFAULT_TENANT_ID);
+}
+
+/**
+ * 1つのテナントの保存先を使うリポジトリを作成する
+ *
+ * @param store - テナントのアイテムと変更履歴
+ * @param forTenant - 他のテナントのリポジトリを作成する関数
+ * @returns リポジトリ
+ */
+function createTenantRepository(
+    { items, history }: TenantStore,
+    forTenant: (tenantId: string) => ItemRepository
+): ItemRepository {
+    /**
+     * 同じバージョンの履歴エントリーが既にあるか
+     *
+     * 学習ポイント：
+     * - DynamoDB版(attribute_not_exists(version))と同じく、履歴を上書きしない
+     * - 物理削除したIDで作り直す場合、呼び出し元は最後の履歴エントリーの続きのバージョンにする
+     */
+    const hasHistoryVersion = (entry: HistoryEntry): boolean =>
+        (history.get(entry.itemId) ?? []).some((existing) => existing.version === entry.version);
+
+    /**
+     * 履歴エントリーを追加する(同じバージョンが既にあれば ConditionFailedError)
+     */
+    const appendHistory = (entry: HistoryEntry): void => {
+        if (hasHistoryVersion(entry)) {
+            throw new ConditionFailedError();
+        }
+        history.set(entry.itemId, [...(history.get(entry.itemId) ?? []), entry]);
+    };
+
+    return {
+        async get(id) {
+            const item = items.get(id);
+            return item ? structuredClone(item) : undefined;
+        },
+
+        async put(item, expected, context) {
+            const current = items.get(item.id);
+            if (!matchesExpectedVersion(current, expected)) {
+                throw new ConditionFailedError();
+            }
+            appendHistory(createHistoryEntry(current, structuredClone(item), context));
+            items.set(item.id, structuredClone(item));
+        },
+
+        async delete(id, expected, context) {
+            const current = items.get(id);
+            if (!matchesExpectedVersion(current, expected)) {
+                throw new ConditionFailedError();
+            }
+            appendHistory(createHistoryEntry(current, undefined, context));
+            items.delete(id);
+        },
+
+        /**
+         * 学習ポイント：
+         * - 毎回すべてのアイテムを絞り込み・並び替えてから、カーソルの位置以降を返す
+         * - カーソルには最後に返したアイテムの「並び順の値」を入れる
+         *   (その間にアイテムが削除されても、続きの位置がずれない)
+         */
+        async list({ filters, limit, cursor }) {
+            const sortField = filters.sort?.field;
+            const direction = filters.sort?.descending ? -1 : 1;
+            const position = cursor === undefined ? undefined : decodeCursor(cursor);
+
+            const sorted = [...items.values()]
+                .filter((item) => matchesFilters(item, filters))
+                .map((item) => ({ item, key: [sortField ? item[sortField] : '', item.id] as SortKey }))
+                .sort((a, b) => direction * compareSortKeys(a.key, b.key));
+            const remaining = position
+                ? sorted.filter(({ key }) => direction * compareSortKeys(key, position) > 0)
+                : sorted;
+
+            const page = remaining.slice(0, limit);
+            const hasNext = remaining.length > limit;
+            return {
+                items: page.map(({ item }) => structuredClone(item)),
+                nextCursor: hasNext ? encodeCursor(page[page.length - 1].key) : null,
+            };
+        },
+
+        async batchGet(ids) {
+            return {
+                items: ids.filter((id) => items.has(id)).map((id) => structuredClone(items.get(id)!)),
+                unprocessedIds: [],
+            };
+        },
+
+        async batchPut(newItems, context, expected = []) {
+            // 既に存在するID・履歴と重なるアイテムだけを作成しない(DynamoDB版と同じ)
+            // expected にあるIDは、保存されているアイテムのバージョンが同じ場合のみ置き換える
+            const conflictIds: string[] = [];
+            for (const item of newItems) {
+                const replaced = expected.find((existing) => existing.id === item.id);
+                const entry = createHistoryEntry(replaced, structuredClone(item), context);
+                if (!matchesExpectedVersion(items.get(item.id), replaced) || hasHistoryVersion(entry)) {
+                    conflictIds.push(item.id);
+                    continue;
+                }
+                appendHistory(entry);
+                items.set(item.id, structuredClone(item));
+            }
+            return { unprocessed: [], conflictIds };
+        },
+
+        async listHistory(id, { limit, cursor, order }) {
+            const direction = order === 'newest' ? -1 : 1;
+            const position = cursor === undefined ? undefined : decodeHistoryCursor(cursor);
+
+            const sorted = [...(history.get(id) ?? [])].sort((a, b) => direction * (a.version - b.version));
+            const remaining =
+                position === undefined ? sorted : sorted.filter((entry) => direction * (entry.version - position) > 0);
+
+            const page = remaining.slice(0, limit);
+            const hasNext = remaining.length > limit;
+            return {
+                entries: page.map((entry) => structuredClone(entry)),
+                nextCursor: hasNext ? encodeHistoryCursor(page[page.length - 1].version) : null,
+            };
+        },
+
+        forTenant,
+    };
+}
+
+// ========================================
+// 絞り込み・並び替え用ヘルパー関数
+// ========================================
+/**
+ * 並び順の値([並び替えるフィールドの値, id])
+ */
+type SortKey = [string | number, string];
+
+/**
+ * アイテムが絞り込みの条件に合うかを判定する
+ *
+ * 学習ポイント：
+ * - DynamoDB版(GSIを使う)と同じ結果になるようにする
+ * - 価格で絞り込み・並び替えをする場合、price を持たないアイテムは含めない
+ *
+ * @param item - アイテム
+ * @param filters - 絞り込み・並び替えの条件
+ * @returns 条件に合う場合true
+ */
+function matchesFilters(item: Item, filters: ListFilters): boolean {
+    if (item.deletedAt) {
+        return false;
+    }
+    if (filters.name !== undefined && item.name !== filters.name) {
+        return false;
+    }
+    if (filters.ownerId !== undefined && item.ownerId !== filters.ownerId) {
+        return false;
+    }
+    if (filters.createdAfter !== undefined && !(item.createdAt > filters.createdAfter)) {
+        return false;
+    }
+    const usesPrice =
+        filters.priceMin !== undefined || filters.priceMax !== undefined || filters.sort?.field === 'price';
+    if (usesPrice && typeof item.price !== 'number') {
+        return false;
+    }
+    if (filters.priceMin !== undefined && item.price < filters.priceMin) {
+        return false;
+    }
+    if (filters.priceMax !== undefined && item.price > filters.priceMax) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * 並び順の値を比較する
+ */
+function compareSortKeys(a: SortKey, b: SortKey): number {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] < b[i]) {
+            return -1;
+        }
+        if (a[i] > b[i]) {
+            return 1;
+        }
+    }
+    return 0;
+}
+
+/**
+ * 並び順の値をカーソル文字列に変換する
+ */
+function encodeCursor(key: SortKey): string {
+    return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+}
+
+/**
+ * カーソル文字列を並び順の値に戻す
+ *
+ * @param cursor - クライアントから受け取ったカーソル
+ * @returns 並び順の値
+ * @throws InvalidCursorError - 不正なカーソルの場合
+ */
+function decodeCursor(cursor: string): SortKey {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new InvalidCursorError();
+    }
+
+    if (
+        !Array.isArray(decoded) ||
+        decoded.length !== 2 ||
+        !['string', 'number'].includes(typeof decoded[0]) ||
+        typeof decoded[1] !== 'string'
+    ) {
+        throw new InvalidCursorError();
+    }
+    return decoded as SortKey;
+}
@@ -0,0 +1,236 @@
+/**
+ * 単一テナントのデータをデフォルトのテナントに移すスクリプト(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. キーの形を変えたテーブルへのデータの移行(古いテーブルを読み、新しいテーブルに書く)
+ * 2. Scan のページネーション(LastEvaluatedKey)で全件を読む方法
+ * 3. BatchWriteCommand の未処理分(UnprocessedItems)の再試行
+ *
+ * 使い方：
+ * npm run migrate:tenants
+ * TENANT_ID=acme SOURCE_TABLE_NAME=Items TARGET_TABLE_NAME=TenantItems npm run migrate:tenants
+ *
+ * 移行の内容：
+ * - アイテム: { "id": "item-1", "listPartition": "ITEM", ... }
+ *          → { "tenantId": "default", "id": "item-1", "tenantName": "default#商品", "migratedFrom": "Items", ... }
+ * - 変更履歴: { "itemId": "item-1", "version": 1, ... }
+ *          → { "tenantItemId": "default#item-1", "itemId": "item-1", "version": 1, ... }
+ *
+ * 注意：
+ * - 移行の間はAPIへの書き込みを止める(移行の後に古いテーブルに書かれた変更は移らない)
+ * - 同じアイテムを上書きするだけなので、途中で失敗しても最初からやり直せる
+ * - 新しいテーブルのストリームには移したアイテムも流れるが、migratedFrom の印があるので
+ *   stream-handler.ts は変更イベントとして発行しない(EventBridge や Webhook に item.created が届かない)
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchWriteCommand, DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { MIGRATED_FROM_ATTRIBUTE, toHistoryRecord, toItemRecord } from './dynamodb-repository';
+import { HistoryEntry } from './history';
+import { logger } from './logger';
+import { DEFAULT_TENANT_ID } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 移行の設定
+ */
+export interface TenantMigrationOptions {
+    /** 移行元のアイテムのテーブル(キーは id だけ) */
+    sourceTableName: string;
+    /** 移行先のアイテムのテーブル(キーは tenantId + id) */
+    targetTableName: string;
+    /** 移行元の変更履歴のテーブル(キーは itemId + version)。省略すると履歴は移さない */
+    sourceHistoryTableName?: string;
+    /** 移行先の変更履歴のテーブル(キーは tenantItemId + version) */
+    targetHistoryTableName?: string;
+    /** 移行先のテナント(省略時はデフォルトのテナント) */
+    tenantId?: string;
+    /** 未処理分(UnprocessedItems)を再試行する回数 */
+    maxRetries?: number;
+    /** 再試行の間隔の基準(ミリ秒)。1回ごとに2倍になる */
+    retryBaseDelayMs?: number;
+}
+
+/**
+ * 移行の結果(移した件数)
+ */
+export interface TenantMigrationResult {
+    items: number;
+    historyEntries: number;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * BatchWriteCommand の1回の上限(25件)
+ */
+const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * 以前のバージョンで全件の並び替えに使っていた属性(移行先では使わない)
+ */
+const LEGACY_LIST_PARTITION = 'listPartition';
+
+// ========================================
+// 移行
+// ========================================
+/**
+ * 単一テナントのテーブルのデータを、テナントのキーを持つテーブルに移す
+ *
+ * 学習ポイント：
+ * - アイテムの形式は dynamodb-repository.ts の toItemRecord / toHistoryRecord に合わせる
+ *   (リポジトリと同じ関数を使うので、移したデータをそのまま読める)
+ * - 以前の listPartition は属性からも履歴の差分からも取り除く(?asOf= で復元したアイテムに出てこないようにする)
+ * - アイテムには移行の印(migratedFrom)を付け、ストリームから変更イベントとして発行されないようにする
+ *   (印はリポジトリが読み取るときに取り除き、APIで変更すると消える)
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 移行の設定
+ * @returns 移した件数
+ */
+export async function migrateToTenant(
+    client: DynamoDBDocumentClient,
+    options: TenantMigrationOptions
+): Promise<TenantMigrationResult> {
+    const tenantId = options.tenantId ?? DEFAULT_TENANT_ID;
+    const { sourceHistoryTableName, targetHistoryTableName } = options;
+    if ((sourceHistoryTableName === undefined) !== (targetHistoryTableName === undefined)) {
+        throw new Error('sourceHistoryTableName and targetHistoryTableName must be set together');
+    }
+
+    const items = await copyTable(client, options.sourceTableName, options.targetTableName, options, (record) => {
+        const { [LEGACY_LIST_PARTITION]: _listPartition, ...item } = record;
+        return { ...toItemRecord(tenantId, item), [MIGRATED_FROM_ATTRIBUTE]: options.sourceTableName };
+    });
+    logger.info('Migrated items', { tenantId, count: items });
+
+    let historyEntries = 0;
+    if (sourceHistoryTableName !== undefined && targetHistoryTableName !== undefined) {
+        historyEntries = await copyTable(client, sourceHistoryTableName, targetHistoryTableName, options, (record) => {
+            const entry = record as HistoryEntry;
+            return toHistoryRecord(tenantId, {
+                ...entry,
+                changes: entry.changes.filter((change) => change.path !== `/${LEGACY_LIST_PARTITION}`),
+            });
+        });
+        logger.info('Migrated history entries', { tenantId, count: historyEntries });
+    }
+
+    return { items, historyEntries };
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * テーブルの全件を読み、変換して別のテーブルに書き込む
+ *
+ * 学習ポイント：
+ * - Scan は1回に1MBまでしか返さないので、LastEvaluatedKey がなくなるまで続けて読む
+ * - 1ページずつ書き込むので、テーブル全体をメモリに載せない
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param sourceTableName - 読み込むテーブル
+ * @param targetTableName - 書き込むテーブル
+ * @param options - 再試行の設定
+ * @param transform - 1件のレコードの変換
+ * @returns 書き込んだ件数
+ */
+async function copyTable(
+    client: DynamoDBDocumentClient,
+    sourceTableName: string,
+    targetTableName: string,
+    options: TenantMigrationOptions,
+    transform: (record: Record<string, any>) => Record<string, any>
+): Promise<number> {
+    let count = 0;
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const response = await client.send(
+            new ScanCommand({ TableName: sourceTableName, ExclusiveStartKey: exclusiveStartKey })
+        );
+        const records = (response.Items ?? []).map(transform);
+        for (let i = 0; i < records.length; i += BATCH_WRITE_LIMIT) {
+            await writeBatch(client, targetTableName, records.slice(i, i + BATCH_WRITE_LIMIT), options);
+        }
+        count += records.length;
+        exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return count;
+}
+
+/**
+ * 25件までのレコードを書き込み、未処理分を再試行する
+ *
+ * 学習ポイント：
+ * - BatchWriteCommand は一部だけ処理されずに成功することがある(UnprocessedItems に残りが入る)
+ * - 再試行しても残った場合は、移行を止めて例外にする(やり直せば上書きされる)
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param tableName - 書き込むテーブル
+ * @param records - 書き込むレコード
+ * @param options - 再試行の設定
+ */
+async function writeBatch(
+    client: DynamoDBDocumentClient,
+    tableName: string,
+    records: Record<string, any>[],
+    options: TenantMigrationOptions
+): Promise<void> {
+    const maxRetries = options.maxRetries ?? 5;
+    const retryBaseDelayMs = options.retryBaseDelayMs ?? 100;
+    let requests = records.map((record) => ({ PutRequest: { Item: record } }));
+
+    for (let attempt = 0; requests.length > 0; attempt++) {
+        if (attempt > 0) {
+            if (attempt > maxRetries) {
+                throw new Error(`Failed to write ${requests.length} records to ${tableName}`);
+            }
+            logger.info('Retrying unprocessed items', { tableName, attempt, count: requests.length });
+            await sleep(retryBaseDelayMs * 2 ** (attempt - 1));
+        }
+
+        const response = await client.send(new BatchWriteCommand({ RequestItems: { [tableName]: requests } }));
+        requests = (response.UnprocessedItems?.[tableName] ?? []).map((request) => ({
+            PutRequest: { Item: request.PutRequest!.Item! },
+        }));
+    }
+}
+
+/**
+ * 指定したミリ秒だけ待つ
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ========================================
+// コマンドラインからの実行
+// ========================================
+/**
+ * 学習ポイント：
+ * - テーブル名は環境変数で指定する(デフォルトは template.yaml の古いテーブルと新しいテーブル)
+ * - DYNAMODB_ENDPOINT を指定すると DynamoDB Local のテーブルを移行できる
+ */
+if (require.main === module) {
+    const endpoint = process.env.DYNAMODB_ENDPOINT;
+    const client = DynamoDBDocumentClient.from(new DynamoDBClient(endpoint ? { endpoint } : {}));
+
+    migrateToTenant(client, {
+        sourceTableName: process.env.SOURCE_TABLE_NAME ?? 'Items',
+        targetTableName: process.env.TARGET_TABLE_NAME ?? 'TenantItems',
+        sourceHistoryTableName: process.env.SOURCE_HISTORY_TABLE_NAME ?? 'ItemsHistory',
+        targetHistoryTableName: process.env.TARGET_HISTORY_TABLE_NAME ?? 'TenantItemsHistory',
+        tenantId: process.env.TENANT_ID || undefined,
+    })
+        .then((result) => logger.info('Migration completed', { ...result }))
+        .catch((err) => {
+            logger.error('Migration failed', { error: err });
+            process.exitCode = 1;
+        });
+}
@@ -0,0 +1,837 @@
+/**
+ * OpenAPI 3.1 のドキュメントの生成(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. コードのルート定義とスキーマ定義から、APIの仕様書(OpenAPI)を生成する方法
+ * 2. 共通のスキーマ(components.schemas)を $ref で参照して重複をなくす方法
+ * 3. OpenAPI 3.1 と JSON Schema の関係
+ *
+ * 学習ポイント：
+ * - 仕様書を手で書くと、コードを変更したときに更新し忘れて実装とずれていく
+ * - ルートの一覧(app.ts の ROUTES)とアイテムのスキーマ(schema.ts)から生成すれば、
+ *   ルートを追加するだけで仕様書にも載る
+ * - OpenAPI 3.1 のスキーマは JSON Schema(2020-12)そのものなので、null は type: ['string', 'null'] と書く
+ *
+ * このファイルは API Gateway や DynamoDB には依存しない(app.ts が GET /openapi.json で返す)。
+ */
+
+import { ERROR_CODES, PROBLEM_MEDIA_TYPE } from './problem';
+import { FieldSchema, ItemSchema } from './schema';
+import { AttachmentOptions, MAX_ATTACHMENT_NAME_LENGTH } from './attachments';
+import {
+    MAX_WEBHOOK_DESCRIPTION_LENGTH,
+    MAX_WEBHOOK_SECRET_LENGTH,
+    MAX_WEBHOOK_URL_LENGTH,
+    MIN_WEBHOOK_SECRET_LENGTH,
+    WEBHOOK_EVENT_TYPES,
+} from './webhooks';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * JSON Schema(OpenAPI 3.1 のスキーマオブジェクト)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * OpenAPI のドキュメント
+ */
+export interface OpenApiDocument {
+    openapi: string;
+    info: { title: string; version: string; description?: string };
+    paths: Record<string, Record<string, unknown>>;
+    components: Record<string, Record<string, unknown>>;
+    security: Record<string, string[]>[];
+}
+
+/**
+ * クエリパラメータの説明
+ */
+export interface QueryParameterDocs {
+    name: string;
+    description: string;
+    schema: JsonSchema;
+}
+
+/**
+ * 成功時のレスポンスの説明
+ */
+export interface ResponseDocs {
+    description: string;
+    /** ボディのスキーマ名(components.schemas のキー)。ボディがなければ省略 */
+    schema?: string;
+    /** レスポンスヘッダー(components.headers のキー) */
+    headers?: string[];
+}
+
+/**
+ * 1つの操作(メソッドとパスの組み合わせ)の説明
+ */
+export interface OperationDocs {
+    /** 操作の概要(1行) */
+    summary: string;
+    /** 仕様書でのグループ */
+    tag: string;
+    /** クエリパラメータ */
+    query?: QueryParameterDocs[];
+    /** リクエストヘッダー(components.parameters のキー) */
+    headers?: string[];
+    /** リクエストボディのスキーマ名(components.schemas のキー) */
+    requestBody?: string;
+    /** リクエストボディの Content-Type(省略時は application/json) */
+    requestContentType?: string;
+    /** 成功時のレスポンス(ステータスコードごと) */
+    responses: Record<number, ResponseDocs>;
+    /** 返す可能性のあるエラーのステータスコード(共通の Error スキーマで記述する) */
+    errors: number[];
+}
+
+/**
+ * 仕様書に載せるルート
+ */
+export interface DocumentedRoute {
+    method: string;
+    path: string;
+    /** 認証なしで呼び出せるか */
+    public?: boolean;
+    docs: OperationDocs;
+}
+
+/**
+ * 仕様書の生成の設定
+ *
+ * 学習ポイント：
+ * - 上限値はバリデーションに使っている値(app.ts の CONFIG)を受け取り、仕様書とのずれを防ぐ
+ */
+export interface OpenApiOptions {
+    title: string;
+    version: string;
+    itemSchema: ItemSchema;
+    maxIdLength: number;
+    maxBatchItems: number;
+    maxItemTtlSeconds: number;
+    maxAttachmentsPerItem: number;
+    attachments: AttachmentOptions;
+    maxApiKeyNameLength: number;
+    maxRateLimitCapacity: number;
+    maxRateLimitRefillPerSecond: number;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * エラーのステータスコードの説明
+ */
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+    400: 'リクエストが不正(バリデーションエラーは errors に違反の一覧が入る)',
+    401: '認証されていない(トークンまたはAPIキーがない・不正)',
+    403: '権限がない',
+    404: 'リソースが見つからない',
+    405: 'このパスでは使えないメソッド(Allow ヘッダーに使えるメソッドが入る)',
+    409: '競合(IDの重複、削除されていないアイテムの復元、添付ファイルの数の上限など)',
+    410: '削除済み',
+    412: 'If-Match の ETag が一致しない',
+    413: 'アイテムがデータベースのサイズの上限を超えた',
+    422: '同じ Idempotency-Key で内容の違うリクエスト',
+    429: 'レート制限を超えた、またはデータベースが混雑している(Retry-After ヘッダーの秒数後に再試行する)',
+    500: 'サーバー内部のエラー',
+    503: 'データベースが一時的に利用できない(Retry-After ヘッダーがあればその秒数後に再試行する)',
+    504: 'データベースの応答がタイムアウトした',
+};
+
+/**
+ * サーバーが管理するフィールドのスキーマ(schema.ts の reserved に対応)
+ */
+const SERVER_FIELD_SCHEMAS: Record<string, JsonSchema> = {
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    deletedAt: { type: 'string', format: 'date-time' },
+    version: { type: 'integer', minimum: 1 },
+    ownerId: { type: 'string' },
+    tenantId: { type: 'string' },
+    tenantName: { type: 'string' },
+    attachments: { type: 'array', items: schemaRef('Attachment') },
+};
+
+// ========================================
+// ドキュメントの生成
+// ========================================
+/**
+ * ルートの一覧から OpenAPI のドキュメントを作成する
+ *
+ * 学習ポイント：
+ * - パスパラメータ({id} など)はパステンプレートから取り出すので、ルートごとに書かなくてよい
+ * - 認証が必要なルートには 401(認証エラー)と 429(APIキーのレート制限)、すべてのルートには 500 を自動で追加する
+ * - /items のルートには X-Tenant-Id ヘッダーと、テナントのエラー(400 / 403)を自動で追加する
+ * - エラーレスポンスはすべて共通の Error スキーマ(problem+json)を参照する。レガシー形式は application/json で記述する
+ *
+ * @param routes - ルートの一覧
+ * @param options - 生成の設定
+ * @returns OpenAPI 3.1 のドキュメント
+ */
+export function createOpenApiDocument(routes: DocumentedRoute[], options: OpenApiOptions): OpenApiDocument {
+    const paths: OpenApiDocument['paths'] = {};
+
+    for (const route of routes) {
+        const pathParameters = [...route.path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => ({
+            name,
+            in: 'path',
+            required: true,
+            schema: { type: 'string', minLength: 1, maxLength: options.maxIdLength },
+        }));
+        const queryParameters = (route.docs.query ?? []).map((parameter) => ({
+            name: parameter.name,
+            in: 'query',
+            required: false,
+            description: parameter.description,
+            schema: parameter.schema,
+        }));
+        const tenantScoped = !route.public && /^\/items(?:[/:]|$)/.test(route.path);
+        const headerParameters = [...(route.docs.headers ?? []), ...(tenantScoped ? ['TenantId'] : [])].map(
+            (name) => ({ $ref: `#/components/parameters/${name}` })
+        );
+        const parameters = [...pathParameters, ...queryParameters, ...headerParameters];
+
+        const errors = new Set(route.docs.errors);
+        if (!route.public) {
+            errors.add(401);
+            errors.add(429);
+        }
+        if (tenantScoped) {
+            errors.add(400);
+            errors.add(403);
+        }
+        errors.add(500);
+
+        const responses: Record<string, unknown> = {};
+        for (const [status, response] of Object.entries(route.docs.responses)) {
+            responses[status] = createResponseObject(response);
+        }
+        for (const status of [...errors].sort((a, b) => a - b)) {
+            responses[String(status)] = { $ref: `#/components/responses/${errorResponseName(status)}` };
+        }
+
+        const operation: Record<string, unknown> = {
+            operationId: createOperationId(route.method, route.path),
+            summary: route.docs.summary,
+            tags: [route.docs.tag],
+            ...(parameters.length > 0 ? { parameters } : {}),
+            ...(route.docs.requestBody
+                ? {
+                      requestBody: {
+                          required: true,
+                          content: {
+                              [route.docs.requestContentType ?? 'application/json']: {
+                                  schema: schemaRef(route.docs.requestBody),
+                              },
+                          },
+                      },
+                  }
+                : {}),
+            responses,
+            // 空の配列で、ドキュメント全体の security(認証が必要)を上書きする
+            ...(route.public ? { security: [] } : {}),
+        };
+
+        paths[route.path] = { ...paths[route.path], [route.method.toLowerCase()]: operation };
+    }
+
+    const errorResponses: Record<string, unknown> = {};
+    for (const [status, description] of Object.entries(ERROR_DESCRIPTIONS)) {
+        errorResponses[errorResponseName(Number(status))] = {
+            description,
+            content: {
+                [PROBLEM_MEDIA_TYPE]: { schema: schemaRef('Error') },
+                'application/json': { schema: schemaRef('LegacyError') },
+            },
+        };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: options.title,
+            version: options.version,
+            description: 'このドキュメントはコードのルート定義とスキーマ定義から生成されています。',
+        },
+        paths,
+        components: {
+            schemas: createComponentSchemas(options),
+            responses: errorResponses,
+            parameters: {
+                IdempotencyKey: {
+                    name: 'Idempotency-Key',
+                    in: 'header',
+                    required: false,
+                    description: '同じキーの再送には、最初のレスポンスをそのまま返す(24時間有効)',
+                    schema: { type: 'string', minLength: 1, maxLength: 255 },
+                },
+                IfMatch: {
+                    name: 'If-Match',
+                    in: 'header',
+                    required: false,
+                    description: 'ETag が一致する場合だけ処理する(一致しなければ412)',
+                    schema: { type: 'string' },
+                },
+                IfNoneMatch: {
+                    name: 'If-None-Match',
+                    in: 'header',
+                    required: false,
+                    description: 'ETag が一致する場合は304(ボディなし)',
+                    schema: { type: 'string' },
+                },
+                TenantId: {
+                    name: 'X-Tenant-Id',
+                    in: 'header',
+                    required: false,
+                    description:
+                        '対象のテナント(/tenants/{tenantId}/items... のパスでも指定できる。省略するとトークンのテナント)',
+                    schema: { type: 'string', pattern: '^[A-Za-z0-9][A-Za-z0-9_-]*$', maxLength: 64 },
+                },
+            },
+            headers: {
+                ETag: { description: 'アイテムのバージョン(例: "3")', schema: { type: 'string' } },
+                IdempotentReplayed: {
+                    description: '保存したレスポンスを再送した場合は true',
+                    schema: { type: 'string', enum: ['true'] },
+                },
+            },
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+                apiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key' },
+            },
+        },
+        // どちらか一方で認証する
+        security: [{ bearerAuth: [] }, { apiKey: [] }],
+    };
+}
+
+/**
+ * フィールドのスキーマ(schema.ts)を JSON Schema に変換する
+ *
+ * 学習ポイント：
+ * - schema.ts の FieldSchema は JSON Schema の一部と同じ名前のキーを使っているので、ほぼそのまま変換できる
+ *
+ * @param field - フィールドのスキーマ
+ * @returns JSON Schema
+ */
+export function toJsonSchema(field: FieldSchema): JsonSchema {
+    const schema: JsonSchema = { type: field.type };
+    for (const key of ['minimum', 'maximum', 'minLength', 'maxLength', 'maxItems', 'required'] as const) {
+        if (field[key] !== undefined) {
+            schema[key] = field[key];
+        }
+    }
+    if (field.items) {
+        schema.items = toJsonSchema(field.items);
+    }
+    if (field.properties) {
+        schema.properties = mapValues(field.properties, toJsonSchema);
+    }
+    return schema;
+}
+
+// ========================================
+// 共通のスキーマ
+// ========================================
+/**
+ * components.schemas を作成する
+ *
+ * 学習ポイント：
+ * - Item / ItemInput / ItemPatch はアイテムのスキーマ(ITEM_SCHEMA)から作るので、
+ *   環境変数 ITEM_SCHEMA でフィールドを変えると仕様書も変わる
+ * - スキーマにないフィールドも保存できるため additionalProperties: true にする
+ *
+ * @param options - 生成の設定
+ * @returns スキーマ名 → JSON Schema
+ */
+function createComponentSchemas(options: OpenApiOptions): Record<string, JsonSchema> {
+    const { itemSchema } = options;
+    const fields = mapValues(itemSchema.properties, toJsonSchema);
+    const serverFields = Object.fromEntries(
+        itemSchema.reserved.map((name) => [name, { ...(SERVER_FIELD_SCHEMAS[name] ?? {}), readOnly: true }])
+    );
+    const itemArray = (schema: string, maxItems: number): JsonSchema => ({
+        type: 'array',
+        minItems: 1,
+        maxItems,
+        items: schemaRef(schema),
+    });
+    const expiryFields: Record<string, JsonSchema> = {
+        expiresAt: {
+            type: ['integer', 'string'],
+            description: '有効期限(UNIX時間の秒、または ISO 8601 の日時)。過ぎると存在しないものとして扱われる',
+        },
+        ttlSeconds: {
+            type: 'integer',
+            minimum: 1,
+            maximum: options.maxItemTtlSeconds,
+            description: '今から何秒後に期限切れにするか(expiresAt とは同時に指定できない)',
+        },
+    };
+    const eventTypeArray = (): JsonSchema => ({
+        type: 'array',
+        minItems: 1,
+        uniqueItems: true,
+        items: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES] },
+    });
+
+    return {
+        Error: {
+            type: 'object',
+            description: 'すべてのエラーレスポンスの共通の形式(RFC 7807 の Problem Details)',
+            required: ['type', 'title', 'status', 'detail', 'code'],
+            properties: {
+                type: { type: 'string', format: 'uri', description: '問題の種類を表すURI' },
+                title: { type: 'string', description: '問題の種類の短い説明(code ごとに固定)' },
+                status: { type: 'integer', description: 'HTTPステータスコード' },
+                detail: { type: 'string', description: 'このリクエストでの問題の説明' },
+                instance: { type: 'string', description: 'リクエストID' },
+                code: { type: 'string', enum: Object.keys(ERROR_CODES), description: '機械が判定するためのエラーコード' },
+                errors: {
+                    type: 'array',
+                    description: 'バリデーションエラーの場合の違反の一覧',
+                    items: schemaRef('ValidationError'),
+                },
+            },
+            additionalProperties: true,
+        },
+        LegacyError: {
+            type: 'object',
+            description: 'レガシー形式のエラーレスポンス(ERROR_FORMAT=legacy、または Accept で要求した場合)',
+            required: ['error', 'statusCode', 'timestamp', 'code'],
+            properties: {
+                error: { type: 'string', description: 'エラーメッセージ' },
+                statusCode: { type: 'integer', description: 'HTTPステータスコード' },
+                timestamp: { type: 'string', format: 'date-time' },
+                code: { type: 'string', enum: Object.keys(ERROR_CODES) },
+                errors: { type: 'array', items: schemaRef('ValidationError') },
+            },
+            additionalProperties: true,
+        },
+        ValidationError: {
+            type: 'object',
+            required: ['pointer', 'message'],
+            properties: {
+                pointer: { type: 'string', description: 'JSON Pointer(ボディ全体は空文字列)', examples: ['/price'] },
+                message: { type: 'string' },
+            },
+        },
+        Item: {
+            type: 'object',
+            required: ['id', ...itemSchema.required.filter((name) => name !== 'id'), 'createdAt', 'version'],
+            properties: {
+                ...fields,
+                id: { type: 'string' },
+                ...serverFields,
+                expiresAt: { type: 'integer', description: '有効期限(UNIX時間の秒。期限なしの場合はなし)' },
+            },
+            additionalProperties: true,
+        },
+        ItemInput: {
+            type: 'object',
+            description: `サーバーが管理するフィールド(${itemSchema.reserved.join(', ')})は指定できない`,
+            required: itemSchema.required,
+            properties: { ...fields, ...expiryFields },
+            additionalProperties: true,
+        },
+        ItemPatch: {
+            type: 'object',
+            description: 'JSON Merge Patch(RFC 7396)。null を指定したフィールドは削除される',
+            properties: mapValues({ ...fields, ...expiryFields }, (schema) => ({
+                ...schema,
+                type: [schema.type, 'null'].flat(),
+            })),
+            additionalProperties: true,
+        },
+        ItemList: {
+            type: 'object',
+            required: ['items', 'count', 'nextCursor'],
+            properties: {
+                items: { type: 'array', items: schemaRef('Item') },
+                count: { type: 'integer' },
+                nextCursor: { type: ['string', 'null'], description: '次のページのカーソル(最後のページでは null)' },
+            },
+        },
+        HistoryEntry: {
+            type: 'object',
+            required: ['itemId', 'version', 'operation', 'changedAt', 'changedBy', 'changes'],
+            properties: {
+                itemId: { type: 'string' },
+                version: { type: 'integer', description: '変更後のバージョン' },
+                operation: { type: 'string', enum: ['create', 'update', 'delete'] },
+                changedAt: { type: 'string', format: 'date-time' },
+                changedBy: { type: 'string', description: '変更したユーザー' },
+                ownerId: { type: 'string' },
+                changes: {
+                    type: 'array',
+                    description: '変更前との差分(JSON Patch の add / remove / replace)',
+                    items: {
+                        type: 'object',
+                        required: ['op', 'path'],
+                        properties: {
+                            op: { type: 'string', enum: ['add', 'remove', 'replace'] },
+                            path: { type: 'string', description: 'フィールドの JSON Pointer(例: /price)' },
+                            value: {},
+                        },
+                    },
+                },
+            },
+        },
+        HistoryPage: {
+            type: 'object',
+            required: ['entries', 'count', 'nextCursor'],
+            properties: {
+                entries: { type: 'array', items: schemaRef('HistoryEntry') },
+                count: { type: 'integer' },
+                nextCursor: { type: ['string', 'null'], description: '次のページのカーソル(最後のページでは null)' },
+            },
+        },
+        Attachment: {
+            type: 'object',
+            required: ['id', 'name', 'contentType', 'size', 'checksum', 'createdAt'],
+            properties: {
+                id: { type: 'string' },
+                name: { type: 'string', description: 'ダウンロード時のファイル名' },
+                contentType: { type: 'string' },
+                size: { type: 'integer', description: 'ファイルのサイズ(バイト)' },
+                checksum: { type: 'string', description: 'ファイルの SHA-256(Base64)' },
+                createdAt: { type: 'string', format: 'date-time' },
+            },
+        },
+        AttachmentCreateRequest: {
+            type: 'object',
+            description: `1つのアイテムに ${options.maxAttachmentsPerItem} 個まで添付できる`,
+            required: ['name', 'contentType', 'size', 'checksum'],
+            properties: {
+                name: { type: 'string', minLength: 1, maxLength: MAX_ATTACHMENT_NAME_LENGTH, description: '/ と制御文字は使えない' },
+                contentType: { type: 'string', enum: options.attachments.allowedContentTypes },
+                size: { type: 'integer', minimum: 1, maximum: options.attachments.maxSizeBytes },
+                checksum: {
+                    type: 'string',
+                    pattern: '^[A-Za-z0-9+/]{43}=$',
+                    description: 'ファイルの SHA-256(Base64)。違う中身のアップロードは S3 が拒否する',
+                },
+            },
+            additionalProperties: false,
+        },
+        AttachmentUpload: {
+            type: 'object',
+            required: ['attachment', 'upload'],
+            properties: {
+                attachment: schemaRef('Attachment'),
+                upload: {
+                    type: 'object',
+                    required: ['url', 'method', 'headers', 'expiresAt'],
+                    properties: {
+                        url: { type: 'string', format: 'uri', description: 'ファイルをアップロードする署名付きURL' },
+                        method: { type: 'string', enum: ['PUT'] },
+                        headers: {
+                            type: 'object',
+                            description: 'アップロードのリクエストに付けるヘッダー(署名に含まれている)',
+                            additionalProperties: { type: 'string' },
+                        },
+                        expiresAt: { type: 'string', format: 'date-time', description: 'URLの有効期限' },
+                    },
+                },
+            },
+        },
+        AttachmentDownload: {
+            type: 'object',
+            required: ['attachment', 'download'],
+            properties: {
+                attachment: schemaRef('Attachment'),
+                download: {
+                    type: 'object',
+                    required: ['url', 'method', 'expiresAt'],
+                    properties: {
+                        url: { type: 'string', format: 'uri', description: 'ファイルをダウンロードする署名付きURL' },
+                        method: { type: 'string', enum: ['GET'] },
+                        expiresAt: { type: 'string', format: 'date-time', description: 'URLの有効期限' },
+                    },
+                },
+            },
+        },
+        BatchCreateRequest: {
+            type: 'object',
+            required: ['items'],
+            properties: { items: itemArray('ItemInput', options.maxBatchItems) },
+        },
+        BatchCreateResponse: {
+            type: 'object',
+            required: ['results', 'summary'],
+            properties: {
+                results: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        required: ['index', 'status'],
+                        properties: {
+                            index: { type: 'integer' },
+                            status: { type: 'string', enum: ['created', 'invalid', 'failed'] },
+                            id: { type: 'string' },
+                            item: schemaRef('Item'),
+                            errors: { type: 'array', items: schemaRef('ValidationError') },
+                            error: { type: 'string' },
+                        },
+                    },
+                },
+                summary: {
+                    type: 'object',
+                    properties: {
+                        created: { type: 'integer' },
+                        invalid: { type: 'integer' },
+                        failed: { type: 'integer' },
+                    },
+                },
+            },
+        },
+        BatchGetRequest: {
+            type: 'object',
+            required: ['ids'],
+            properties: {
+                ids: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: options.maxBatchItems,
+                    items: { type: 'string', minLength: 1, maxLength: options.maxIdLength },
+                },
+            },
+        },
+        BatchGetResponse: {
+            type: 'object',
+            required: ['results'],
+            properties: {
+                results: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        required: ['id', 'status'],
+                        properties: {
+                            id: { type: 'string' },
+                            status: { type: 'string', enum: ['found', 'notFound', 'deleted', 'failed'] },
+                            item: schemaRef('Item'),
+                            error: { type: 'string' },
+                        },
+                    },
+                },
+            },
+        },
+        RateLimit: {
+            type: 'object',
+            required: ['capacity', 'refillPerSecond'],
+            properties: {
+                capacity: { type: 'integer', minimum: 1, maximum: options.maxRateLimitCapacity },
+                refillPerSecond: { type: 'number', exclusiveMinimum: 0, maximum: options.maxRateLimitRefillPerSecond },
+            },
+        },
+        ApiKey: {
+            type: 'object',
+            required: ['keyId', 'name', 'ownerId', 'rateLimit', 'createdAt'],
+            properties: {
+                keyId: { type: 'string' },
+                name: { type: 'string' },
+                ownerId: { type: 'string' },
+                tenantId: { type: 'string', description: 'キーでアクセスできるテナント' },
+                rateLimit: schemaRef('RateLimit'),
+                createdAt: { type: 'string', format: 'date-time' },
+                revokedAt: { type: 'string', format: 'date-time' },
+            },
+        },
+        ApiKeyCreateRequest: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+                name: { type: 'string', minLength: 1, maxLength: options.maxApiKeyNameLength },
+                ownerId: { type: 'string', minLength: 1, maxLength: options.maxIdLength },
+                rateLimit: schemaRef('RateLimit'),
+            },
+        },
+        ApiKeyCreated: {
+            allOf: [
+                schemaRef('ApiKey'),
+                {
+                    type: 'object',
+                    required: ['apiKey'],
+                    properties: {
+                        apiKey: { type: 'string', description: 'APIキー(このレスポンスでしか返さない)' },
+                    },
+                },
+            ],
+        },
+        ApiKeyList: {
+            type: 'object',
+            required: ['keys', 'count'],
+            properties: {
+                keys: { type: 'array', items: schemaRef('ApiKey') },
+                count: { type: 'integer' },
+            },
+        },
+        Webhook: {
+            type: 'object',
+            required: ['webhookId', 'url', 'eventTypes', 'status', 'consecutiveFailures', 'createdAt', 'createdBy'],
+            properties: {
+                webhookId: { type: 'string' },
+                url: { type: 'string', format: 'uri' },
+                eventTypes: eventTypeArray(),
+                description: { type: 'string' },
+                status: { type: 'string', enum: ['active', 'disabled'], description: 'disabled: 失敗が続いたため配信を止めた' },
+                consecutiveFailures: { type: 'integer', description: '連続して失敗した配信の数' },
+                createdAt: { type: 'string', format: 'date-time' },
+                createdBy: { type: 'string' },
+                tenantId: { type: 'string', description: '通知するイベントのテナント' },
+                lastDeliveryAt: { type: 'string', format: 'date-time' },
+                disabledAt: { type: 'string', format: 'date-time' },
+            },
+        },
+        WebhookCreateRequest: {
+            type: 'object',
+            required: ['url'],
+            properties: {
+                url: { type: 'string', format: 'uri', maxLength: MAX_WEBHOOK_URL_LENGTH, description: 'https のURL' },
+                eventTypes: { ...eventTypeArray(), description: '省略するとすべての種類' },
+                secret: {
+                    type: 'string',
+                    minLength: MIN_WEBHOOK_SECRET_LENGTH,
+                    maxLength: MAX_WEBHOOK_SECRET_LENGTH,
+                    description: '署名に使う共有シークレット(省略するとサーバーが作成する)',
+                },
+                description: { type: 'string', maxLength: MAX_WEBHOOK_DESCRIPTION_LENGTH },
+            },
+        },
+        WebhookCreated: {
+            allOf: [
+                schemaRef('Webhook'),
+                {
+                    type: 'object',
+                    required: ['secret'],
+                    properties: {
+                        secret: { type: 'string', description: '共有シークレット(このレスポンスでしか返さない)' },
+                    },
+                },
+            ],
+        },
+        WebhookList: {
+            type: 'object',
+            required: ['webhooks', 'count'],
+            properties: {
+                webhooks: { type: 'array', items: schemaRef('Webhook') },
+                count: { type: 'integer' },
+            },
+        },
+        WebhookDelivery: {
+            type: 'object',
+            required: ['webhookId', 'deliveryId', 'eventId', 'eventType', 'status', 'attempts', 'createdAt', 'expiresAt'],
+            properties: {
+                webhookId: { type: 'string' },
+                deliveryId: { type: 'string', description: 'X-Items-Delivery ヘッダーの値' },
+                eventId: { type: 'string' },
+                eventType: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES] },
+                status: { type: 'string', enum: ['succeeded', 'failed'] },
+                attempts: {
+                    type: 'array',
+                    description: '送信ごとの結果(再試行を含む)',
+                    items: {
+                        type: 'object',
+                        required: ['attempt', 'attemptedAt', 'durationMs'],
+                        properties: {
+                            attempt: { type: 'integer', minimum: 1 },
+                            attemptedAt: { type: 'string', format: 'date-time' },
+                            statusCode: { type: 'integer' },
+                            error: { type: 'string' },
+                            durationMs: { type: 'integer' },
+                        },
+                    },
+                },
+                createdAt: { type: 'string', format: 'date-time' },
+                expiresAt: { type: 'integer', description: '記録が削除される時刻(UNIX時間の秒)' },
+            },
+        },
+        WebhookDeliveryPage: {
+            type: 'object',
+            required: ['deliveries', 'count', 'nextCursor'],
+            properties: {
+                deliveries: { type: 'array', items: schemaRef('WebhookDelivery') },
+                count: { type: 'integer' },
+                nextCursor: { type: ['string', 'null'], description: '次のページのカーソル(最後のページでは null)' },
+            },
+        },
+    };
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 成功時のレスポンスオブジェクトを作成する
+ */
+function createResponseObject(response: ResponseDocs): Record<string, unknown> {
+    return {
+        description: response.description,
+        ...(response.headers
+            ? {
+                  headers: Object.fromEntries(
+                      response.headers.map((name) => [headerName(name), { $ref: `#/components/headers/${name}` }])
+                  ),
+              }
+            : {}),
+        ...(response.schema ? { content: { 'application/json': { schema: schemaRef(response.schema) } } } : {}),
+    };
+}
+
+/**
+ * operationId を作成する(例: GET /items/{id} → getItemsById)
+ *
+ * 学習ポイント：
+ * - operationId はコード生成ツールが関数名に使うため、ルートごとに一意で読みやすい名前にする
+ */
+function createOperationId(method: string, path: string): string {
+    const words = path
+        .split(/[/:.-]/)
+        .filter((segment) => segment !== '')
+        .map((segment) => {
+            const name = /^\{(.+)\}$/.exec(segment)?.[1];
+            return name ? `By${capitalize(name)}` : capitalize(segment);
+        });
+    return method.toLowerCase() + words.join('');
+}
+
+/**
+ * components.headers のキーをHTTPヘッダー名にする(IdempotentReplayed → Idempotent-Replayed)
+ */
+function headerName(name: string): string {
+    return name === 'ETag' ? name : name.replace(/([a-z])([A-Z])/g, '$1-$2');
+}
+
+/**
+ * components.responses のエラーレスポンスの名前(例: 404 → Error404)
+ */
+function errorResponseName(status: number): string {
+    if (ERROR_DESCRIPTIONS[status] === undefined) {
+        throw new Error(`No description for error status: ${status}`);
+    }
+    return `Error${status}`;
+}
+
+/**
+ * components.schemas への参照を作成する
+ */
+function schemaRef(name: string): JsonSchema {
+    return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * 先頭の文字を大文字にする
+ */
+function capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * オブジェクトの値を変換する
+ */
+function mapValues<T, U>(object: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+    return Object.fromEntries(Object.entries(object).map(([key, value]) => [key, fn(value)]));
+}
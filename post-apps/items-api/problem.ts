@@ -0,0 +1,256 @@
+/**
+ * RFC 7807 (Problem Details for HTTP APIs) のエラーレスポンス(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. application/problem+json によるエラーの標準的な表現
+ * 2. 機械が判定するための安定したエラーコードと、人が読むためのメッセージの分離
+ * 3. Accept ヘッダーと設定による、古い形式(レガシー)との互換性の維持
+ *
+ * レスポンス例(problem+json)：
+ * HTTP/1.1 404 Not Found
+ * Content-Type: application/problem+json
+ *
+ * {
+ *   "type": "urn:items-api:problem:item-not-found",
+ *   "title": "Item not found",
+ *   "status": 404,
+ *   "detail": "Item not found",
+ *   "instance": "c6af9ac6-7b61-11e6-9a41-93e8deadbeef",
+ *   "code": "ITEM_NOT_FOUND"
+ * }
+ *
+ * レガシー形式(以前の形式)：
+ * { "error": "Item not found", "statusCode": 404, "timestamp": "2025-10-21T10:30:00.000Z", "code": "ITEM_NOT_FOUND" }
+ *
+ * 学習ポイント：
+ * - detail の英文はあとから変わることがあるため、クライアントは文字列ではなく code で判定する
+ * - code は一度公開したら名前を変えない(追加だけする)
+ */
+
+// ========================================
+// エラーコード
+// ========================================
+/**
+ * エラーコードと title(コードごとに固定の短い説明)
+ *
+ * 学習ポイント：
+ * - title はコードごとに同じ文字列にする(リクエストごとの詳しい内容は detail に入れる)
+ */
+export const ERROR_CODES = {
+    // リクエストの形式
+    BODY_REQUIRED: 'Request body is required',
+    INVALID_JSON: 'Invalid JSON',
+    BODY_NOT_OBJECT: 'Request body must be a JSON object',
+    EMPTY_BODY: 'Request body is empty',
+    VALIDATION_FAILED: 'Validation failed',
+    INVALID_QUERY_PARAMETER: 'Invalid query parameter',
+    UNKNOWN_QUERY_PARAMETER: 'Unknown query parameter',
+    INVALID_CURSOR: 'Invalid cursor',
+    INVALID_BATCH_SIZE: 'Invalid batch size',
+
+    // ID
+    ID_REQUIRED: 'ID is required',
+    ID_TOO_LONG: 'ID is too long',
+    INVALID_ID: 'Invalid ID',
+    ID_MISMATCH: 'ID in body does not match path',
+
+    // テナント
+    INVALID_TENANT_ID: 'Invalid tenant ID',
+    TENANT_MISMATCH: 'Tenant in header does not match path',
+    TENANT_FORBIDDEN: 'Access to tenant is not allowed',
+
+    // アイテムの状態
+    ITEM_NOT_FOUND: 'Item not found',
+    ITEM_DELETED: 'Item has been deleted',
+    ITEM_NOT_DELETED: 'Item is not deleted',
+    ITEM_ALREADY_EXISTS: 'Item already exists',
+    CONCURRENT_MODIFICATION: 'Item was modified by another request',
+    PRECONDITION_FAILED: 'Precondition failed',
+
+    // 添付ファイル
+    ATTACHMENT_NOT_FOUND: 'Attachment not found',
+    TOO_MANY_ATTACHMENTS: 'Too many attachments',
+
+    // 冪等キー
+    INVALID_IDEMPOTENCY_KEY: 'Invalid Idempotency-Key',
+    IDEMPOTENCY_KEY_REUSED: 'Idempotency-Key reused',
+    IDEMPOTENCY_KEY_IN_PROGRESS: 'Idempotency-Key in progress',
+
+    // 認証・認可・レート制限
+    UNAUTHORIZED: 'Unauthorized',
+    INVALID_API_KEY: 'Invalid API key',
+    FORBIDDEN: 'Forbidden',
+    RATE_LIMITED: 'Rate limit exceeded',
+    API_KEY_NOT_FOUND: 'API key not found',
+    WEBHOOK_NOT_FOUND: 'Webhook not found',
+    CORS_REJECTED: 'CORS request rejected',
+
+    // ルーティング
+    ROUTE_NOT_FOUND: 'Not found',
+    METHOD_NOT_ALLOWED: 'Method not allowed',
+
+    // データベース
+    ITEM_TOO_LARGE: 'Item too large',
+    DB_REJECTED_REQUEST: 'Request rejected by the database',
+    DB_THROTTLED: 'Database is busy',
+    DB_UNAVAILABLE: 'Database service unavailable',
+    DB_TIMEOUT: 'Database request timed out',
+
+    // サーバー側
+    INTERNAL_ERROR: 'Internal server error',
+} as const;
+
+/**
+ * エラーコード
+ */
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * エラーレスポンスの形式
+ *
+ * - problem: application/problem+json(RFC 7807)
+ * - legacy: 以前の { error, statusCode, timestamp } 形式
+ */
+export type ErrorFormat = 'problem' | 'legacy';
+
+/**
+ * Problem Details(RFC 7807)のボディ
+ *
+ * 学習ポイント：
+ * - type / title / status / detail / instance は RFC 7807 で定義されたメンバー
+ * - code や errors のような独自のメンバー(拡張メンバー)を追加できる
+ */
+export interface ProblemDetails {
+    /** 問題の種類を表すURI */
+    type: string;
+    /** 問題の種類の短い説明(コードごとに固定) */
+    title: string;
+    /** HTTPステータスコード */
+    status: number;
+    /** このリクエストでの問題の説明 */
+    detail: string;
+    /** このリクエストを識別するURI(リクエストID) */
+    instance?: string;
+    /** 機械が判定するためのエラーコード */
+    code: ErrorCode;
+    /** 拡張メンバー(バリデーションエラーの errors など) */
+    [extension: string]: unknown;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * problem+json のメディアタイプ
+ */
+export const PROBLEM_MEDIA_TYPE = 'application/problem+json';
+
+/**
+ * レガシー形式を要求するメディアタイプ(Accept ヘッダーに指定する)
+ */
+export const LEGACY_ERROR_MEDIA_TYPE = 'application/vnd.items-api.legacy-error+json';
+
+// ========================================
+// エラーレスポンスの作成と変換
+// ========================================
+/**
+ * Problem Details のボディを作成する
+ *
+ * @param status - HTTPステータスコード
+ * @param code - エラーコード
+ * @param detail - このリクエストでの問題の説明
+ * @param extensions - 拡張メンバー(errors, id, etag など)
+ * @returns Problem Details
+ */
+export function createProblem(
+    status: number,
+    code: ErrorCode,
+    detail: string,
+    extensions?: Record<string, unknown>
+): ProblemDetails {
+    return {
+        ...extensions,
+        type: problemType(code),
+        title: ERROR_CODES[code],
+        status,
+        detail,
+        code,
+    };
+}
+
+/**
+ * エラーコードから type のURIを作成する(ITEM_NOT_FOUND → urn:items-api:problem:item-not-found)
+ *
+ * 学習ポイント：
+ * - type はURIであればよく、アクセスできるURLである必要はない
+ *
+ * @param code - エラーコード
+ * @returns type のURI
+ */
+export function problemType(code: ErrorCode): string {
+    return `urn:items-api:problem:${code.toLowerCase().replace(/_/g, '-')}`;
+}
+
+/**
+ * Problem Details をレガシー形式のボディに変換する
+ *
+ * 学習ポイント：
+ * - 既存のクライアントが使っている error / statusCode / timestamp はそのまま返す
+ * - code は追加のフィールドなので、既存のクライアントを壊さずに移行を始められる
+ *
+ * @param problem - Problem Details
+ * @param now - 現在時刻(テスト用)
+ * @returns レガシー形式のボディ
+ */
+export function toLegacyError(problem: ProblemDetails, now: Date = new Date()): Record<string, unknown> {
+    const { type: _type, title: _title, status, detail, instance: _instance, code, ...extensions } = problem;
+    return {
+        error: detail,
+        statusCode: status,
+        timestamp: now.toISOString(),
+        code,
+        ...extensions,
+    };
+}
+
+/**
+ * Accept ヘッダーと設定からエラーレスポンスの形式を選ぶ
+ *
+ * 学習ポイント：
+ * - Accept に application/problem+json があれば、設定に関係なく problem+json を返す
+ * - Accept にレガシー形式のメディアタイプがあれば、レガシー形式を返す
+ * - どちらもなければ設定(ERROR_FORMAT)の形式を返す
+ *
+ * @param accept - Accept ヘッダーの値
+ * @param defaultFormat - 設定の形式
+ * @returns エラーレスポンスの形式
+ */
+export function selectErrorFormat(accept: string | undefined, defaultFormat: ErrorFormat): ErrorFormat {
+    const mediaTypes = (accept ?? '').split(',').map((value) => value.split(';')[0].trim().toLowerCase());
+    if (mediaTypes.includes(PROBLEM_MEDIA_TYPE)) {
+        return 'problem';
+    }
+    if (mediaTypes.includes(LEGACY_ERROR_MEDIA_TYPE)) {
+        return 'legacy';
+    }
+    return defaultFormat;
+}
+
+/**
+ * 設定の値をエラーレスポンスの形式として読み込む
+ *
+ * @param value - 環境変数 ERROR_FORMAT の値
+ * @returns エラーレスポンスの形式(未設定なら problem)
+ */
+export function loadErrorFormat(value: string | undefined): ErrorFormat {
+    if (value === undefined || value === '') {
+        return 'problem';
+    }
+    if (value !== 'problem' && value !== 'legacy') {
+        throw new Error(`Invalid ERROR_FORMAT: ${value} (expected 'problem' or 'legacy')`);
+    }
+    return value;
+}
@@ -0,0 +1,190 @@
+/**
+ * アイテムの保存先(リポジトリ)のインターフェース(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. リポジトリパターン：ハンドラーから保存先(DynamoDB など)の詳細を隠す
+ * 2. インターフェースを使った実装の差し替え(DynamoDB / インメモリ)
+ * 3. 保存先に依存しないエラーの表現
+ * 4. テナント(顧客)ごとにデータを分けるマルチテナントのリポジトリ
+ *
+ * 実装：
+ * - dynamodb-repository.ts: 本番用(DynamoDB)
+ * - memory-repository.ts: ローカル開発・テスト用(プロセスのメモリ上に保存)
+ */
+
+import { ChangeContext, HistoryPage, HistoryQuery } from './history';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 保存するアイテム
+ */
+export type Item = Record<string, any>;
+
+/**
+ * 一覧取得の絞り込み・並び替えの条件
+ */
+export interface ListFilters {
+    name?: string;
+    priceMin?: number;
+    priceMax?: number;
+    createdAfter?: string;
+    sort?: { field: 'createdAt' | 'price'; descending: boolean };
+    /** 所有者(ownerId)。管理者以外のユーザーの一覧取得で使う */
+    ownerId?: string;
+}
+
+/**
+ * 一覧取得の条件
+ */
+export interface ListQuery {
+    filters: ListFilters;
+    /** 1ページの最大件数 */
+    limit: number;
+    /** 前のページの nextCursor */
+    cursor?: string;
+}
+
+/**
+ * 一覧取得の結果(1ページ分)
+ *
+ * 学習ポイント：
+ * - カーソルの形式は実装ごとに異なる(クライアントは中身を解釈しない)
+ * - 絞り込みの仕方によっては、最後のページでなくても items が limit より少ないことがある
+ */
+export interface ListPage {
+    items: Item[];
+    nextCursor: string | null;
+}
+
+/**
+ * 一括取得の結果
+ */
+export interface BatchGetResult {
+    items: Item[];
+    /** 再試行しても取得できなかったID */
+    unprocessedIds: string[];
+}
+
+/**
+ * 一括作成の結果
+ */
+export interface BatchPutResult {
+    /** 一時的なエラーで保存できなかったアイテム */
+    unprocessed: Item[];
+    /** 既に存在した(または同じバージョンの変更履歴があった)ため作成しなかったアイテムのID */
+    conflictIds: string[];
+}
+
+/**
+ * アイテムのリポジトリ
+ *
+ * 学習ポイント：
+ * - 書き込み系のメソッドは expected(読み取った時点のアイテム)を受け取り、
+ *   その後に他のリクエストが変更していた場合は ConditionFailedError を投げる(楽観的排他制御)
+ * - 保存先の障害はそれぞれの実装のエラーのまま投げる
+ * - 書き込みと同時に変更履歴(history.ts)を記録する。context は履歴に残す「誰が・いつ」
+ *   (アイテムだけ書き込まれて履歴が残らない、ということが起きないようにする)
+ * - リポジトリは1つのテナントのアイテムだけを扱う(作成時はデフォルトのテナント)。
+ *   他のテナントは forTenant で切り替える(IDはテナントごとに別々で、他のテナントのアイテムは見えない)
+ */
+export interface ItemRepository {
+    /** IDを指定してアイテムを1件取得する(論理削除済みも含む)。存在しない場合はundefined */
+    get(id: string): Promise<Item | undefined>;
+    /**
+     * アイテムを保存する
+     * - expected が undefined: 同じIDのアイテムがまだ存在しない場合のみ
+     * - expected がある: 保存されているアイテムのバージョンが expected と同じ場合のみ
+     */
+    put(item: Item, expected: Item | undefined, context?: ChangeContext): Promise<void>;
+    /** アイテムを物理削除する(保存されているアイテムのバージョンが expected と同じ場合のみ) */
+    delete(id: string, expected: Item, context?: ChangeContext): Promise<void>;
+    /** 論理削除されていないアイテムの一覧を取得する。不正なカーソルの場合は InvalidCursorError */
+    list(query: ListQuery): Promise<ListPage>;
+    /** 複数のIDのアイテムをまとめて取得する(IDは重複なし) */
+    batchGet(ids: string[]): Promise<BatchGetResult>;
+    /**
+     * まだ存在しない複数のアイテムをまとめて作成する
+     * (既に存在するIDは作成せずに conflictIds で返し、残りのアイテムは作成する)
+     * - expected に含まれるIDは、保存されているアイテム(期限切れなど)のバージョンが同じ場合のみ置き換える
+     */
+    batchPut(items: Item[], context?: ChangeContext, expected?: Item[]): Promise<BatchPutResult>;
+    /** アイテムの変更履歴を取得する(物理削除されたアイテムも含む)。不正なカーソルの場合は InvalidCursorError */
+    listHistory(id: string, query: HistoryQuery): Promise<HistoryPage>;
+    /** 指定したテナントのアイテムを扱うリポジトリを返す(保存先は同じ) */
+    forTenant(tenantId: string): ItemRepository;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * デフォルトのテナント
+ *
+ * 学習ポイント：
+ * - テナントを指定しないリクエストと、マルチテナントにする前から存在するアイテム(migrate-tenants.ts で移行)のテナント
+ */
+export const DEFAULT_TENANT_ID = 'default';
+
+// ========================================
+// エラー
+// ========================================
+/**
+ * 書き込みの条件(expected)を満たさなかったことを表すエラー
+ */
+export class ConditionFailedError extends Error {
+    constructor(message = 'The item was modified or already exists') {
+        super(message);
+        this.name = 'ConditionFailedError';
+    }
+}
+
+/**
+ * 不正なカーソルを表すエラー
+ */
+export class InvalidCursorError extends Error {
+    constructor(message = 'Invalid cursor') {
+        super(message);
+        this.name = 'InvalidCursorError';
+    }
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 保存されているアイテムが、読み取った時点(expected)から変更されていないかを判定する
+ *
+ * 学習ポイント：
+ * - どの実装でも同じルールで判定する(version 属性のない古いアイテムも考慮する)
+ *
+ * @param current - 保存されているアイテム
+ * @param expected - 読み取った時点のアイテム(新規作成ならundefined)
+ * @returns 書き込んでよい場合true
+ */
+export function matchesExpectedVersion(current: Item | undefined, expected: Item | undefined): boolean {
+    if (!expected) {
+        return current === undefined;
+    }
+    if (!current) {
+        return false;
+    }
+    return current.version === expected.version;
+}
+
+/**
+ * アイテムの有効期限(expiresAt)が過ぎているかを判定する
+ *
+ * 学習ポイント：
+ * - expiresAt は DynamoDB の TTL 属性(UNIX時間の秒)。TTL による削除は期限から数日遅れることがあるため、
+ *   まだ削除されていなくても期限が過ぎたアイテムは存在しないものとして扱う
+ * - 数値でない expiresAt は TTL の対象にならないため、期限なしとして扱う
+ *
+ * @param item - アイテム
+ * @param now - 現在時刻(UNIX時間のミリ秒)
+ * @returns 期限が過ぎている場合true
+ */
+export function isExpired(item: Item, now: number = Date.now()): boolean {
+    return typeof item.expiresAt === 'number' && item.expiresAt * 1000 <= now;
+}
@@ -0,0 +1,215 @@
+/**
+ * 一時的なエラーの再試行(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 指数バックオフとジッター(ゆらぎ)による再試行の間隔の決め方
+ * 2. Lambdaの残り時間(context.getRemainingTimeInMillis)の中で再試行をやめる判断
+ * 3. リポジトリをデコレーター(同じインターフェースで包む)で拡張する方法
+ *
+ * 学習ポイント：
+ * - 再試行するのは一時的なエラー(スロットリング・一時的な障害・タイムアウト)だけ(dynamodb-errors.ts を参照)
+ * - 全員が同じ間隔で再試行すると、混雑しているDynamoDBに同時にリクエストが集中する
+ *   「0〜上限」のランダムな時間だけ待つ(Full Jitter)ことで、再試行のタイミングを分散させる
+ * - Lambdaがタイムアウトすると、クライアントには何も返せない(API Gateway の502/504になる)
+ *   残り時間が足りなければ再試行せず、503などのエラーを返す方がよい
+ * - 条件付き書き込みは、1回目が実は成功していた場合(タイムアウトなど)、再試行が条件を満たさず409/412になることがある
+ *   作成を確実に1回にしたい場合は Idempotency-Key を使う
+ */
+
+import { isTransientDynamoDBError, classifyDynamoDBError } from './dynamodb-errors';
+import { logger } from './logger';
+import { ItemRepository } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 再試行の設定
+ */
+export interface RetryOptions {
+    /** 最初の1回を含む最大の試行回数(1なら再試行しない) */
+    maxAttempts: number;
+    /** 待ち時間の上限の基準(ミリ秒)。1回ごとに2倍になる */
+    baseDelayMs: number;
+    /** 待ち時間の上限(ミリ秒) */
+    maxDelayMs: number;
+    /** 再試行するために必要な、待った後のLambdaの残り時間(ミリ秒) */
+    minRemainingTimeMs: number;
+}
+
+/**
+ * リクエストごとの再試行の状況
+ */
+export interface RetryContext {
+    /** Lambdaの残り時間(ミリ秒)を返す関数(ローカル実行などでない場合は残り時間を考慮しない) */
+    getRemainingTimeInMillis?: () => number;
+    /** 0以上1未満の乱数を返す関数(テスト用) */
+    random?: () => number;
+    /** 指定したミリ秒だけ待つ関数(テスト用) */
+    sleep?: (ms: number) => Promise<void>;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * デフォルトの再試行の設定
+ *
+ * 学習ポイント：
+ * - Lambdaのタイムアウト(template.yaml では3秒)に比べて十分短い待ち時間にする
+ */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxAttempts: 3,
+    baseDelayMs: 50,
+    maxDelayMs: 1000,
+    minRemainingTimeMs: 500,
+};
+
+// ========================================
+// 再試行
+// ========================================
+/**
+ * 一時的なエラーの場合に、処理を再試行する
+ *
+ * @param operation - 実行する処理
+ * @param options - 再試行の設定
+ * @param context - リクエストごとの再試行の状況
+ * @returns 処理の結果
+ * @throws 一時的でないエラー、または再試行をあきらめた場合は最後のエラー
+ */
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    options: RetryOptions,
+    context: RetryContext = {}
+): Promise<T> {
+    const random = context.random ?? Math.random;
+    const sleep = context.sleep ?? defaultSleep;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            if (!isTransientDynamoDBError(err) || attempt >= options.maxAttempts) {
+                throw err;
+            }
+
+            const delayMs = computeBackoffDelay(attempt, options, random);
+            const remainingMs = context.getRemainingTimeInMillis?.();
+            if (remainingMs !== undefined && remainingMs - delayMs < options.minRemainingTimeMs) {
+                logger.warn('Not enough time left to retry', { attempt, delayMs, remainingMs });
+                throw err;
+            }
+
+            logger.info('Retrying DynamoDB request', {
+                attempt,
+                delayMs,
+                errorKind: classifyDynamoDBError(err)?.kind,
+            });
+            await sleep(delayMs);
+        }
+    }
+}
+
+/**
+ * 再試行の前に待つ時間を計算する(指数バックオフ + Full Jitter)
+ *
+ * 例(baseDelayMs=50)：1回目の失敗の後は0〜50ms、2回目の後は0〜100ms、3回目の後は0〜200ms
+ *
+ * @param attempt - 失敗した試行の回数(1から)
+ * @param options - 再試行の設定
+ * @param random - 0以上1未満の乱数を返す関数
+ * @returns 待つ時間(ミリ秒)
+ */
+export function computeBackoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+    const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    return Math.floor(random() * ceiling);
+}
+
+/**
+ * リポジトリの各操作を、一時的なエラーの場合に再試行するように包む
+ *
+ * 学習ポイント：
+ * - ハンドラーは再試行を意識せず、同じ ItemRepository として使える
+ * - Lambdaの残り時間はリクエストごとに違うので、リクエストごとに包む
+ *
+ * @param repository - 元のリポジトリ
+ * @param options - 再試行の設定
+ * @param context - リクエストごとの再試行の状況
+ * @returns 再試行するリポジトリ
+ */
+export function createRetryingRepository(
+    repository: ItemRepository,
+    options: RetryOptions,
+    context: RetryContext = {}
+): ItemRepository {
+    const retry = <T>(operation: () => Promise<T>): Promise<T> => withRetry(operation, options, context);
+
+    return {
+        get: (id) => retry(() => repository.get(id)),
+        put: (item, expected, changeContext) => retry(() => repository.put(item, expected, changeContext)),
+        delete: (id, expected, changeContext) => retry(() => repository.delete(id, expected, changeContext)),
+        list: (query) => retry(() => repository.list(query)),
+        batchGet: (ids) => retry(() => repository.batchGet(ids)),
+        batchPut: (items, changeContext, expected) => retry(() => repository.batchPut(items, changeContext, expected)),
+        listHistory: (id, query) => retry(() => repository.listHistory(id, query)),
+        forTenant: (tenantId) => createRetryingRepository(repository.forTenant(tenantId), options, context),
+    };
+}
+
+// ========================================
+// 設定の読み込み
+// ========================================
+/**
+ * 環境変数から再試行の設定を読み込む
+ *
+ * 環境変数：
+ * - DB_MAX_ATTEMPTS: 最初の1回を含む最大の試行回数(1なら再試行しない)
+ * - DB_RETRY_BASE_DELAY_MS: 待ち時間の上限の基準(ミリ秒)
+ * - DB_RETRY_MAX_DELAY_MS: 待ち時間の上限(ミリ秒)
+ * - DB_RETRY_MIN_REMAINING_MS: 再試行するために必要な、待った後のLambdaの残り時間(ミリ秒)
+ *
+ * @param env - 環境変数
+ * @returns 再試行の設定
+ */
+export function loadRetryOptions(env: Record<string, string | undefined>): RetryOptions {
+    const options: RetryOptions = {
+        maxAttempts: parseInteger(env, 'DB_MAX_ATTEMPTS', 1) ?? DEFAULT_RETRY_OPTIONS.maxAttempts,
+        baseDelayMs: parseInteger(env, 'DB_RETRY_BASE_DELAY_MS', 0) ?? DEFAULT_RETRY_OPTIONS.baseDelayMs,
+        maxDelayMs: parseInteger(env, 'DB_RETRY_MAX_DELAY_MS', 0) ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+        minRemainingTimeMs:
+            parseInteger(env, 'DB_RETRY_MIN_REMAINING_MS', 0) ?? DEFAULT_RETRY_OPTIONS.minRemainingTimeMs,
+    };
+    if (options.maxDelayMs < options.baseDelayMs) {
+        throw new Error('Invalid DB_RETRY_MAX_DELAY_MS: must be greater than or equal to DB_RETRY_BASE_DELAY_MS');
+    }
+    return options;
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 環境変数を整数として読み込む(webhook-dispatcher.ts の設定の読み込みでも使う)
+ *
+ * @param env - 環境変数
+ * @param name - 環境変数の名前
+ * @param min - 最小値
+ * @returns 整数。未設定ならundefined
+ */
+export function parseInteger(env: Record<string, string | undefined>, name: string, min: number): number | undefined {
+    const value = env[name]?.trim();
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    if (!/^\d+$/.test(value) || Number(value) < min) {
+        throw new Error(`Invalid ${name}: must be an integer greater than or equal to ${min}`);
+    }
+    return Number(value);
+}
+
+/**
+ * 指定したミリ秒だけ待つ
+ */
+function defaultSleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
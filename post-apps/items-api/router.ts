@@ -0,0 +1,189 @@
+/**
+ * HTTPメソッドとパステンプレートによるルーティング(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. ルーティングテーブル(メソッド・パス・処理の一覧)による振り分け
+ * 2. パステンプレート(/items/{id})からのパスパラメータの取り出し
+ * 3. 404(パスがない)と405(パスはあるがメソッドが違う)の使い分け
+ *
+ * 使用例：
+ * const router = createRouter([
+ *     { method: 'GET', path: '/items/{id}', handler: getItem },
+ *     { method: 'DELETE', path: '/items/{id}', handler: deleteItem },
+ * ]);
+ * router.match('GET', '/items/abc');   // { type: 'found', route, params: { id: 'abc' } }
+ * router.match('PUT', '/items/abc');   // { type: 'methodNotAllowed', allowedMethods: ['GET', 'DELETE'] }
+ * router.match('GET', '/unknown');     // { type: 'notFound' }
+ */
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * ルート(1つのメソッドとパステンプレートの組み合わせ)
+ */
+export interface Route<H> {
+    /** HTTPメソッド(大文字) */
+    method: string;
+    /** パステンプレート(例: /items/{id})。{name} は1つのセグメントに一致する */
+    path: string;
+    /** 一致したときに呼び出す処理 */
+    handler: H;
+}
+
+/**
+ * ルーティングの結果
+ */
+export type RouteMatch<R> =
+    | { type: 'found'; route: R; params: Record<string, string> }
+    | { type: 'methodNotAllowed'; allowedMethods: string[] }
+    | { type: 'notFound' };
+
+/**
+ * ルーター
+ *
+ * R はルートの型(Route に独自のプロパティを追加した型も使える)
+ */
+export interface Router<R extends Route<unknown>> {
+    /** 登録されているルート(登録した順) */
+    routes: R[];
+    /**
+     * メソッドとパスに一致するルートを探す
+     *
+     * @param method - HTTPメソッド
+     * @param path - リクエストのパス(クエリ文字列を除く)
+     */
+    match(method: string, path: string): RouteMatch<R>;
+}
+
+/**
+ * 正規表現に変換したパステンプレート
+ */
+interface CompiledTemplate {
+    path: string;
+    pattern: RegExp;
+    names: string[];
+}
+
+// ========================================
+// ルーターの作成
+// ========================================
+/**
+ * ルーティングテーブルからルーターを作成する
+ *
+ * 学習ポイント：
+ * - パスが一致するテンプレートがなければ notFound(404)
+ * - パスは一致するがメソッドが違えば methodNotAllowed(405)。Allow ヘッダーに使うメソッドの一覧を返す
+ * - 固定の文字列だけのテンプレート(/items:batch)を先に照合し、{id} が「:batch」を含むIDとして一致しないようにする
+ * - 同じメソッドとパスのルートが重複している場合は設定ミスとして例外にする
+ *
+ * @param routes - ルーティングテーブル
+ * @returns ルーター
+ */
+export function createRouter<R extends Route<unknown>>(routes: R[]): Router<R> {
+    const seen = new Set<string>();
+    for (const route of routes) {
+        const key = `${route.method.toUpperCase()} ${route.path}`;
+        if (seen.has(key)) {
+            throw new Error(`Duplicate route: ${key}`);
+        }
+        seen.add(key);
+    }
+
+    // パラメータの少ないテンプレートほど優先する(sort は安定なので、同じ数なら登録した順)
+    const templates = [...new Set(routes.map((route) => route.path))]
+        .map(compileTemplate)
+        .sort((a, b) => a.names.length - b.names.length);
+
+    return {
+        routes,
+        match(method, path) {
+            for (const template of templates) {
+                const params = matchTemplate(template, path);
+                if (params === undefined) {
+                    continue;
+                }
+                if (params === null) {
+                    // パスパラメータのエンコーディングが不正(存在しないパスとして扱う)
+                    return { type: 'notFound' };
+                }
+
+                const candidates = routes.filter((route) => route.path === template.path);
+                const route = candidates.find((candidate) => candidate.method.toUpperCase() === method.toUpperCase());
+                if (!route) {
+                    return {
+                        type: 'methodNotAllowed',
+                        allowedMethods: candidates.map((candidate) => candidate.method.toUpperCase()),
+                    };
+                }
+                return { type: 'found', route, params };
+            }
+            return { type: 'notFound' };
+        },
+    };
+}
+
+/**
+ * パスがパステンプレートに一致するかを判定し、パスパラメータを取り出す
+ *
+ * 学習ポイント：
+ * - {id} は1つのセグメント(/ を含まない)にだけ一致する
+ * - パスパラメータはURLデコードして返す(/items/a%20b → id は "a b")
+ *
+ * @param template - パステンプレート(例: /items/{id})
+ * @param path - リクエストのパス
+ * @returns 一致した場合はパスパラメータ、一致しなければundefined、エンコーディングが不正ならnull
+ */
+export function matchPathTemplate(template: string, path: string): Record<string, string> | null | undefined {
+    return matchTemplate(compileTemplate(template), path);
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * パステンプレートを正規表現に変換する
+ *
+ * @param path - パステンプレート
+ * @returns 正規表現とパラメータ名
+ */
+function compileTemplate(path: string): CompiledTemplate {
+    const names: string[] = [];
+    const pattern = path
+        .split(/(\{[^}]+\})/)
+        .map((part) => {
+            const name = /^\{([^}]+)\}$/.exec(part)?.[1];
+            if (name) {
+                names.push(name);
+                return '([^/]+)';
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    return { path, pattern: new RegExp(`^${pattern}$`), names };
+}
+
+/**
+ * 変換済みのテンプレートとパスを照合する
+ *
+ * @param template - 変換済みのテンプレート
+ * @param path - リクエストのパス
+ * @returns matchPathTemplate と同じ
+ */
+function matchTemplate(template: CompiledTemplate, path: string): Record<string, string> | null | undefined {
+    const match = template.pattern.exec(path);
+    if (!match) {
+        return undefined;
+    }
+
+    const params: Record<string, string> = {};
+    try {
+        template.names.forEach((name, i) => {
+            params[name] = decodeURIComponent(match[i + 1]);
+        });
+    } catch {
+        // %E0%A4%A のような不正なエンコーディング
+        return null;
+    }
+    return params;
+}
@@ -0,0 +1,394 @@
+/**
+ * アイテムのスキーマ定義とバリデーション(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 宣言的なスキーマ(データでルールを表現する)によるバリデーション
+ * 2. すべての違反をまとめて返すエラー設計
+ * 3. JSON Pointer (RFC 6901) によるエラー箇所の指定
+ * 4. 環境変数からの設定の読み込みと検証
+ *
+ * app.ts 以外のテーブル用のAPIからも再利用できるよう、
+ * DynamoDBやAPI Gatewayには依存しない作りにしている。
+ */
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * フィールドの型
+ *
+ * 学習ポイント：
+ * - JSONで表現できる型だけを扱う
+ * - 'integer' は小数を許可しない数値
+ */
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+/**
+ * 1つのフィールドのスキーマ
+ */
+export interface FieldSchema {
+    type: FieldType;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    maxItems?: number;
+    /** type が 'array' の場合の要素のスキーマ */
+    items?: FieldSchema;
+    /** type が 'object' の場合の各プロパティのスキーマ */
+    properties?: Record<string, FieldSchema>;
+    /** type が 'object' の場合の必須プロパティ */
+    required?: string[];
+}
+
+/**
+ * アイテム全体のスキーマ
+ *
+ * 学習ポイント：
+ * - properties に書かれていないフィールドは自由に保存できる
+ * - reserved はサーバーが管理するフィールドで、クライアントからは指定できない
+ */
+export interface ItemSchema {
+    properties: Record<string, FieldSchema>;
+    required: string[];
+    reserved: string[];
+    /** アイテムをJSONにしたときの最大バイト数 */
+    maxBytes: number;
+    /** オブジェクト・配列の最大ネスト数(トップレベルのオブジェクトが1) */
+    maxDepth: number;
+}
+
+/**
+ * バリデーションエラー1件分
+ *
+ * 学習ポイント：
+ * - pointer は JSON Pointer 形式(例: "/price", "/tags/0")
+ * - ボディ全体に対するエラーは空文字列 ""
+ */
+export interface ValidationError {
+    pointer: string;
+    message: string;
+}
+
+// ========================================
+// デフォルトのスキーマ
+// ========================================
+/**
+ * Itemsテーブル用のデフォルトスキーマ
+ *
+ * 学習ポイント：
+ * - DynamoDBの1アイテムの上限は400KBなので、余裕を持った上限にする
+ * - 深すぎるネストは処理コストが高く、攻撃にも使われるため制限する
+ */
+export const DEFAULT_ITEM_SCHEMA: ItemSchema = {
+    properties: {
+        id: { type: 'string', minLength: 1, maxLength: 255 },
+        name: { type: 'string', minLength: 1, maxLength: 200 },
+        price: { type: 'number', minimum: 0 },
+    },
+    required: ['name'],
+    reserved: ['createdAt', 'updatedAt', 'deletedAt', 'version', 'ownerId', 'tenantId', 'tenantName', 'attachments'],
+    maxBytes: 100 * 1024,
+    maxDepth: 5,
+};
+
+const FIELD_TYPES: FieldType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array'];
+
+// ========================================
+// スキーマの読み込み
+// ========================================
+/**
+ * 設定(JSON文字列)からスキーマを読み込む
+ *
+ * 使用例(template.yaml の環境変数)：
+ * ITEM_SCHEMA: '{"properties":{"title":{"type":"string"}},"required":["title"]}'
+ *
+ * 学習ポイント：
+ * - 省略された項目はデフォルトスキーマの値を使う
+ * - 設定ミスは起動時(コールドスタート時)に例外にして早く気づけるようにする
+ *
+ * @param json - スキーマのJSON文字列(未設定ならundefined)
+ * @returns スキーマ
+ */
+export function loadSchema(json: string | undefined): ItemSchema {
+    if (json === undefined || json.trim() === '') {
+        return DEFAULT_ITEM_SCHEMA;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('Invalid item schema: not valid JSON');
+    }
+    if (!isPlainObject(parsed)) {
+        throw new Error('Invalid item schema: must be a JSON object');
+    }
+
+    const schema: ItemSchema = {
+        properties: (parsed.properties as ItemSchema['properties']) ?? DEFAULT_ITEM_SCHEMA.properties,
+        required: (parsed.required as string[]) ?? DEFAULT_ITEM_SCHEMA.required,
+        reserved: (parsed.reserved as string[]) ?? DEFAULT_ITEM_SCHEMA.reserved,
+        maxBytes: (parsed.maxBytes as number) ?? DEFAULT_ITEM_SCHEMA.maxBytes,
+        maxDepth: (parsed.maxDepth as number) ?? DEFAULT_ITEM_SCHEMA.maxDepth,
+    };
+
+    const problems = checkSchema(schema);
+    if (problems.length > 0) {
+        throw new Error(`Invalid item schema: ${problems.join(', ')}`);
+    }
+    return schema;
+}
+
+/**
+ * スキーマ自体が正しい形かどうかを確認する
+ *
+ * @param schema - 確認するスキーマ
+ * @returns 問題点のリスト(問題がなければ空配列)
+ */
+function checkSchema(schema: ItemSchema): string[] {
+    const problems: string[] = [];
+
+    if (!isStringArray(schema.required)) {
+        problems.push('required must be an array of strings');
+    }
+    if (!isStringArray(schema.reserved)) {
+        problems.push('reserved must be an array of strings');
+    }
+    if (!Number.isInteger(schema.maxBytes) || schema.maxBytes < 1) {
+        problems.push('maxBytes must be a positive integer');
+    }
+    if (!Number.isInteger(schema.maxDepth) || schema.maxDepth < 1) {
+        problems.push('maxDepth must be a positive integer');
+    }
+    if (!isPlainObject(schema.properties)) {
+        problems.push('properties must be an object');
+    } else {
+        for (const [name, field] of Object.entries(schema.properties)) {
+            checkFieldSchema(field, `properties.${name}`, problems);
+        }
+    }
+    return problems;
+}
+
+/**
+ * フィールドのスキーマが正しい形かどうかを再帰的に確認する
+ */
+function checkFieldSchema(field: unknown, path: string, problems: string[]): void {
+    if (!isPlainObject(field) || !FIELD_TYPES.includes(field.type as FieldType)) {
+        problems.push(`${path}.type must be one of ${FIELD_TYPES.join('|')}`);
+        return;
+    }
+    if (field.items !== undefined) {
+        checkFieldSchema(field.items, `${path}.items`, problems);
+    }
+    if (field.properties !== undefined) {
+        if (!isPlainObject(field.properties)) {
+            problems.push(`${path}.properties must be an object`);
+        } else {
+            for (const [name, child] of Object.entries(field.properties)) {
+                checkFieldSchema(child, `${path}.properties.${name}`, problems);
+            }
+        }
+    }
+    if (field.required !== undefined && !isStringArray(field.required)) {
+        problems.push(`${path}.required must be an array of strings`);
+    }
+}
+
+// ========================================
+// バリデーション
+// ========================================
+/**
+ * アイテムをスキーマでバリデーションする
+ *
+ * 学習ポイント：
+ * - 最初のエラーで止めず、すべての違反を集めて返す
+ * - クライアントは1回のリクエストですべての問題を修正できる
+ *
+ * @param data - バリデーションするアイテム
+ * @param schema - スキーマ
+ * @returns 違反のリスト(問題がなければ空配列)
+ */
+export function validateItem(data: Record<string, unknown>, schema: ItemSchema): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    // 1. 深さとサイズ(ボディ全体に対するチェック)
+    // 深すぎるデータは以降のチェックで再帰が深くなるため、ここで打ち切る
+    if (exceedsDepth(data, schema.maxDepth)) {
+        errors.push({ pointer: '', message: `must not be nested deeper than ${schema.maxDepth} levels` });
+        return errors;
+    }
+    const bytes = Buffer.byteLength(JSON.stringify(data), 'utf8');
+    if (bytes > schema.maxBytes) {
+        errors.push({ pointer: '', message: `must not exceed ${schema.maxBytes} bytes` });
+    }
+
+    // 2. サーバー管理のフィールド
+    errors.push(...findReservedFields(data, schema));
+
+    // 3. 各フィールドの型と制約
+    validateObject(data, { type: 'object', properties: schema.properties, required: schema.required }, '', errors);
+
+    return errors;
+}
+
+/**
+ * クライアントが指定できないフィールド(reserved)を探す
+ *
+ * 学習ポイント：
+ * - PATCH の null(削除の指示)も「指定した」とみなすため、値ではなくキーの有無で判定する
+ *
+ * @param data - クライアントから受け取ったデータ
+ * @param schema - スキーマ
+ * @returns 違反のリスト
+ */
+export function findReservedFields(data: Record<string, unknown>, schema: ItemSchema): ValidationError[] {
+    return schema.reserved
+        .filter((name) => Object.prototype.hasOwnProperty.call(data, name))
+        .map((name) => ({ pointer: toPointer('', name), message: 'is managed by the server and cannot be set' }));
+}
+
+/**
+ * 値を1つのフィールドスキーマでバリデーションする
+ */
+function validateValue(value: unknown, field: FieldSchema, pointer: string, errors: ValidationError[]): void {
+    switch (field.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                errors.push({ pointer, message: 'must be a string' });
+                return;
+            }
+            if (field.minLength !== undefined && value.length < field.minLength) {
+                errors.push({ pointer, message: `must be at least ${field.minLength} characters` });
+            }
+            if (field.maxLength !== undefined && value.length > field.maxLength) {
+                errors.push({ pointer, message: `must be at most ${field.maxLength} characters` });
+            }
+            return;
+
+        case 'number':
+        case 'integer':
+            // NaN や Infinity は JSON では表現できないが、念のため弾く
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                errors.push({ pointer, message: `must be ${field.type === 'integer' ? 'an integer' : 'a number'}` });
+                return;
+            }
+            if (field.type === 'integer' && !Number.isInteger(value)) {
+                errors.push({ pointer, message: 'must be an integer' });
+            }
+            if (field.minimum !== undefined && value < field.minimum) {
+                errors.push({ pointer, message: `must be greater than or equal to ${field.minimum}` });
+            }
+            if (field.maximum !== undefined && value > field.maximum) {
+                errors.push({ pointer, message: `must be less than or equal to ${field.maximum}` });
+            }
+            return;
+
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                errors.push({ pointer, message: 'must be a boolean' });
+            }
+            return;
+
+        case 'array':
+            if (!Array.isArray(value)) {
+                errors.push({ pointer, message: 'must be an array' });
+                return;
+            }
+            if (field.maxItems !== undefined && value.length > field.maxItems) {
+                errors.push({ pointer, message: `must contain at most ${field.maxItems} items` });
+            }
+            if (field.items) {
+                const itemSchema = field.items;
+                value.forEach((element, index) => {
+                    validateValue(element, itemSchema, toPointer(pointer, String(index)), errors);
+                });
+            }
+            return;
+
+        case 'object':
+            if (!isPlainObject(value)) {
+                errors.push({ pointer, message: 'must be an object' });
+                return;
+            }
+            validateObject(value, field, pointer, errors);
+            return;
+    }
+}
+
+/**
+ * オブジェクトの必須プロパティと各プロパティをバリデーションする
+ */
+function validateObject(
+    value: Record<string, unknown>,
+    field: FieldSchema,
+    pointer: string,
+    errors: ValidationError[]
+): void {
+    for (const name of field.required ?? []) {
+        if (value[name] === undefined || value[name] === null) {
+            errors.push({ pointer: toPointer(pointer, name), message: 'is required' });
+        }
+    }
+
+    for (const [name, childSchema] of Object.entries(field.properties ?? {})) {
+        // 未指定のプロパティは required のチェックに任せる
+        if (value[name] === undefined || value[name] === null) {
+            continue;
+        }
+        validateValue(value[name], childSchema, toPointer(pointer, name), errors);
+    }
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * JSON Pointer (RFC 6901) を組み立てる
+ *
+ * 学習ポイント：
+ * - "~" は "~0"、"/" は "~1" にエスケープする
+ *
+ * @param parent - 親の JSON Pointer
+ * @param token - 追加するプロパティ名または配列のインデックス
+ * @returns JSON Pointer
+ */
+export function toPointer(parent: string, token: string): string {
+    return `${parent}/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/**
+ * オブジェクト・配列のネストが上限を超えているかを判定する
+ *
+ * 学習ポイント：
+ * - 上限を超えた時点で探索をやめるので、極端に深いデータでもスタックを使い切らない
+ *
+ * @param value - 判定する値
+ * @param remaining - 残りの許容ネスト数
+ * @returns 上限を超えている場合true
+ */
+function exceedsDepth(value: unknown, remaining: number): boolean {
+    const children = Array.isArray(value) ? value : isPlainObject(value) ? Object.values(value) : null;
+    if (children === null) {
+        return false;
+    }
+    if (remaining === 0) {
+        return true;
+    }
+    return children.some((child) => exceedsDepth(child, remaining - 1));
+}
+
+/**
+ * 値が(配列ではない)JSONオブジェクトかどうかを判定する
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 値が文字列の配列かどうかを判定する
+ */
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((element) => typeof element === 'string');
+}
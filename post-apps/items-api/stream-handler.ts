@@ -0,0 +1,183 @@
+/**
+ * アイテムの変更イベントを発行するLambda関数(教育用)
+ *
+ * === このコードで学べること ===
+ * 1. DynamoDB Streams をイベントソースにしたLambda関数の書き方
+ * 2. 部分的なバッチの失敗の報告(ReportBatchItemFailures)
+ * 3. 再試行しても失敗するレコードをデッドレターキュー(DLQ)に送る流れ
+ *
+ * 処理の流れ：
+ * Items テーブル → DynamoDB Streams → この関数 → 発行先(EventBridge / SNS)
+ *                                        │     └── 登録されている Webhook(webhook-dispatcher.ts)
+ *                                        │
+ *                                        └── 失敗したレコード → 再試行 → 上限を超えたらDLQ(SQS)
+ *
+ * 学習ポイント：
+ * - API の Lambda 関数(app.ts)とは別の関数にすることで、発行先の障害がAPIに影響しない
+ * - 失敗したレコードのシーケンス番号を返すと、Lambda はそのレコードから再試行する
+ *   (発行先は失敗したイベントより後を発行しないため、再試行しても同じアイテムの変更の順番は入れ替わらない。
+ *   成功した発行先や同じ PutEvents の別のアイテムには同じイベントがもう一度届くため、受け取る側は id で重複を除く)
+ * - 再試行の回数(MaximumRetryAttempts)を超えたバッチの情報は、template.yaml の DestinationConfig.OnFailure のDLQに送られる
+ */
+
+import { Context, DynamoDBBatchResponse, DynamoDBStreamEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { SNSClient } from '@aws-sdk/client-sns';
+import { isMigrationRecord, ItemChangeEvent, toItemChangeEvent } from './events';
+import {
+    combinePublishers,
+    createEventBridgePublisher,
+    createInMemoryEventPublisher,
+    createSnsPublisher,
+    DEFAULT_EVENT_SOURCE,
+    EventPublisher,
+} from './event-publisher';
+import { logger, runWithLogContext } from './logger';
+import { createWebhookPublisher, loadWebhookDeliveryOptions } from './webhook-dispatcher';
+import { createDynamoDBWebhookStore } from './webhooks';
+
+// ========================================
+// 設定値の定数定義
+// ========================================
+/**
+ * アプリケーション設定値
+ */
+const CONFIG = {
+    // イベントの発行先('eventbridge'、'sns' または 'memory')
+    EVENT_PUBLISHER: process.env.EVENT_PUBLISHER || 'eventbridge',
+    // EventBridge のイベントバスとイベントの source
+    EVENT_BUS_NAME: process.env.EVENT_BUS_NAME || 'default',
+    EVENT_SOURCE: process.env.EVENT_SOURCE || DEFAULT_EVENT_SOURCE,
+    // SNS のトピック(EVENT_PUBLISHER=sns の場合に必須)
+    EVENT_TOPIC_ARN: process.env.EVENT_TOPIC_ARN || undefined,
+    // 登録されている Webhook にも配信するか
+    WEBHOOKS_ENABLED: process.env.WEBHOOKS_ENABLED !== 'false',
+    WEBHOOK_TABLE_NAME: process.env.WEBHOOK_TABLE_NAME || 'ItemsWebhooks',
+    WEBHOOK_DELIVERY_TABLE_NAME: process.env.WEBHOOK_DELIVERY_TABLE_NAME || 'ItemsWebhookDeliveries',
+};
+
+/**
+ * 設定に応じてイベントの発行先を作成する
+ *
+ * 学習ポイント：
+ * - 関数は EventPublisher インターフェースだけを使い、発行先の詳細を知らない
+ * - 設定ミスはイベントを処理する前に例外で知らせる
+ *
+ * @param type - 発行先('eventbridge'、'sns' または 'memory')
+ * @returns 発行先
+ */
+export function createEventPublisher(type: string = CONFIG.EVENT_PUBLISHER): EventPublisher {
+    if (type === 'eventbridge') {
+        return createEventBridgePublisher(new EventBridgeClient({}), {
+            eventBusName: CONFIG.EVENT_BUS_NAME,
+            source: CONFIG.EVENT_SOURCE,
+        });
+    }
+    if (type === 'sns') {
+        if (!CONFIG.EVENT_TOPIC_ARN) {
+            throw new Error('EVENT_TOPIC_ARN is required when EVENT_PUBLISHER is sns');
+        }
+        return createSnsPublisher(new SNSClient({}), { topicArn: CONFIG.EVENT_TOPIC_ARN });
+    }
+    if (type === 'memory') {
+        return createInMemoryEventPublisher();
+    }
+    throw new Error(`Invalid EVENT_PUBLISHER: ${type} (expected 'eventbridge', 'sns' or 'memory')`);
+}
+
+/**
+ * 設定に応じて Webhook の配信を加えた発行先を作成する
+ *
+ * 学習ポイント：
+ * - 発行先(EventBridge など)と Webhook の両方に同じイベントを発行する
+ *
+ * @param publisher - 発行先
+ * @param enabled - Webhook にも配信するか
+ * @returns 発行先
+ */
+export function withWebhooks(publisher: EventPublisher, enabled: boolean = CONFIG.WEBHOOKS_ENABLED): EventPublisher {
+    if (!enabled) {
+        return publisher;
+    }
+    const store = createDynamoDBWebhookStore(DynamoDBDocumentClient.from(new DynamoDBClient({})), {
+        tableName: CONFIG.WEBHOOK_TABLE_NAME,
+        deliveryTableName: CONFIG.WEBHOOK_DELIVERY_TABLE_NAME,
+    });
+    return combinePublishers(publisher, createWebhookPublisher(store, loadWebhookDeliveryOptions(process.env)));
+}
+
+// ========================================
+// Lambda ハンドラー
+// ========================================
+/**
+ * 発行先を指定してストリームのハンドラーを作成する
+ *
+ * 学習ポイント：
+ * - テストではインメモリの発行先を渡して、AWSなしで動作を確認できる
+ * - 同じアイテムの変更はストリームの順番どおりに届くため、失敗したレコードより後ろは先に進めない
+ *   (変換できないレコードがあれば、その手前までだけを発行する)
+ * - 移行スクリプトが書き込んだレコードは発行しない(移したアイテムが item.created として通知されないように)
+ *
+ * @param publisher - イベントの発行先
+ * @returns Lambda ハンドラー
+ */
+export function createStreamHandler(
+    publisher: EventPublisher
+): (event: DynamoDBStreamEvent, context?: Context) => Promise<DynamoDBBatchResponse> {
+    return async (event, context) =>
+        runWithLogContext({ awsRequestId: context?.awsRequestId }, async () => {
+            const records = event.Records;
+
+            // 変換できないレコードがあれば、そこで止める
+            // (移行のレコードを飛ばすため、イベントごとに元のレコードの位置を覚えておく)
+            const events: ItemChangeEvent[] = [];
+            const recordIndexes: number[] = [];
+            let invalidIndex: number | undefined;
+            let skipped = 0;
+            for (const [index, record] of records.entries()) {
+                if (isMigrationRecord(record)) {
+                    skipped++;
+                    continue;
+                }
+                try {
+                    events.push(toItemChangeEvent(record));
+                    recordIndexes.push(index);
+                } catch (err) {
+                    logger.error('Failed to convert stream record', {
+                        error: err,
+                        eventId: record.eventID,
+                        sequenceNumber: record.dynamodb?.SequenceNumber,
+                    });
+                    invalidIndex = index;
+                    break;
+                }
+            }
+
+            // 発行先は最初に失敗したイベントで止まり、そこから後ろを発行できなかったイベントとして返す
+            const failed = new Set((await publisher.publish(events, context)).map((failedEvent) => failedEvent.id));
+
+            // 最初に失敗したレコード(変換・発行のどちらか)から再試行してもらう
+            const failedIndex = events.findIndex((itemEvent) => failed.has(itemEvent.id));
+            const retryFrom = failedIndex >= 0 ? recordIndexes[failedIndex] : invalidIndex;
+
+            logger.info('Stream batch processed', {
+                records: records.length,
+                published: events.length - failed.size,
+                skipped,
+                failed: failed.size + (invalidIndex === undefined ? 0 : 1),
+            });
+
+            if (retryFrom === undefined) {
+                return { batchItemFailures: [] };
+            }
+            // シーケンス番号がない(空文字)場合、Lambda はバッチ全体を再試行する
+            return { batchItemFailures: [{ itemIdentifier: records[retryFrom].dynamodb?.SequenceNumber ?? '' }] };
+        });
+}
+
+/**
+ * Lambda関数のメインハンドラー(template.yaml の ItemEventsFunction)
+ */
+export const streamHandler = createStreamHandler(withWebhooks(createEventPublisher()));
@@ -0,0 +1,161 @@
+/**
+ * テナント(APIを共有する顧客)の判定(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 1つのデプロイで複数の顧客(テナント)にサービスを提供するマルチテナントの考え方
+ * 2. リクエストの対象のテナントを、パス・ヘッダー・トークンのクレームから決める方法
+ * 3. 他のテナントのデータにアクセスさせないための確認
+ *
+ * テナントの指定方法(どれか1つ。何も指定しなければトークンのテナント、それもなければデフォルトのテナント)：
+ * - パス:     /tenants/acme/items/item-1
+ * - ヘッダー: X-Tenant-Id: acme
+ * - クレーム: トークンの tenant_id(AUTH_TENANT_CLAIM で変更できる)
+ *
+ * 学習ポイント：
+ * - テナントはリポジトリ(repository.ts の forTenant)で分けるので、各処理はテナントを意識しない
+ * - トークンにテナントのクレームがあるユーザーは、そのテナントにしかアクセスできない(管理者も同じ)
+ * - テナントのクレームがないユーザー(APIキーを含む)は、デフォルトのテナントにしかアクセスできない
+ */
+
+import { Principal } from './auth';
+import { DEFAULT_TENANT_ID } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * リクエストで指定されたテナント
+ */
+export interface TenantRequest {
+    /** パス(/tenants/{tenantId}/items...)で指定されたテナント */
+    pathTenantId?: string;
+    /** X-Tenant-Id ヘッダーで指定されたテナント */
+    headerTenantId?: string;
+}
+
+/**
+ * テナントの判定結果
+ *
+ * - invalid: テナントIDの形式が不正(400)
+ * - mismatch: パスとヘッダーで違うテナントが指定された(400)
+ * - forbidden: ユーザーのテナントと違うテナントが指定された(403)
+ */
+export type TenantResolution =
+    | { tenantId: string }
+    | { error: 'invalid' | 'mismatch' | 'forbidden'; message: string };
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * テナントを指定するヘッダー
+ */
+export const TENANT_HEADER = 'X-Tenant-Id';
+
+/**
+ * テナントIDの最大長
+ */
+export const MAX_TENANT_ID_LENGTH = 64;
+
+/**
+ * テナントIDの形式(英数字で始まり、英数字・ハイフン・アンダースコアだけを含む)
+ *
+ * 学習ポイント：
+ * - DynamoDBのキー(tenantId#name など)の区切り文字 # を含まないようにする
+ */
+const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * テナントを指定するパスの形式(/tenants/{tenantId} の後ろが /items で始まるパスだけ)
+ *
+ * 学習ポイント：
+ * - APIキーや Webhook の管理は、管理者のテナント(トークンのテナント)のものだけを扱うので、テナントのパスでは呼び出せない
+ */
+const TENANT_PATH_PATTERN = /^\/tenants\/([^/]+)(\/items(?:[/:].*)?)$/;
+
+// ========================================
+// テナントの判定
+// ========================================
+/**
+ * パスからテナントを取り出す
+ *
+ * 使用例：
+ * splitTenantPath('/tenants/acme/items/item-1');  // { tenantId: 'acme', path: '/items/item-1' }
+ * splitTenantPath('/items/item-1');               // { path: '/items/item-1' }
+ *
+ * @param path - リクエストのパス
+ * @returns テナント(パスで指定されていなければなし)と、テナントの部分を除いたパス
+ */
+export function splitTenantPath(path: string): { tenantId?: string; path: string } {
+    const match = TENANT_PATH_PATTERN.exec(path);
+    if (!match) {
+        return { path };
+    }
+    try {
+        return { tenantId: decodeURIComponent(match[1]), path: match[2] };
+    } catch {
+        // %E0%A4%A のような不正なエンコーディングは、存在しないパスとして扱う
+        return { path };
+    }
+}
+
+/**
+ * テナントIDの形式が正しいかを判定する
+ *
+ * @param tenantId - テナントID
+ * @returns 正しい場合true
+ */
+export function isValidTenantId(tenantId: string): boolean {
+    return tenantId.length <= MAX_TENANT_ID_LENGTH && TENANT_ID_PATTERN.test(tenantId);
+}
+
+/**
+ * リクエストの対象のテナントを決める
+ *
+ * 学習ポイント：
+ * - パスとヘッダーの両方で指定する場合は、同じテナントでなければならない
+ * - ユーザーのテナントは、トークンのテナント(なければデフォルトのテナント)
+ * - 何も指定しなければユーザーのテナント。それ以外のテナントを指定すると forbidden
+ *   (管理者のスコープはテナントの中での権限で、他のテナントのアイテムは読み書きできない)
+ *
+ * @param request - リクエストで指定されたテナント
+ * @param principal - 認証されたユーザー(tenantId はトークンのテナント)
+ * @param defaultTenantId - どこにも指定がない場合のテナント
+ * @returns テナントの判定結果
+ */
+export function resolveTenant(
+    request: TenantRequest,
+    principal: Principal,
+    defaultTenantId: string = DEFAULT_TENANT_ID
+): TenantResolution {
+    const { pathTenantId, headerTenantId } = request;
+    if (pathTenantId !== undefined && headerTenantId !== undefined && pathTenantId !== headerTenantId) {
+        return { error: 'mismatch', message: `${TENANT_HEADER} header does not match the tenant in the path` };
+    }
+
+    const ownTenantId = principal.tenantId ?? defaultTenantId;
+    const requested = pathTenantId ?? headerTenantId;
+    if (requested === undefined) {
+        return { tenantId: ownTenantId };
+    }
+    if (!isValidTenantId(requested)) {
+        return invalidTenant();
+    }
+    if (requested !== ownTenantId) {
+        return { error: 'forbidden', message: 'Access to this tenant is not allowed' };
+    }
+    return { tenantId: requested };
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * テナントIDの形式が不正な場合の判定結果
+ */
+function invalidTenant(): TenantResolution {
+    return {
+        error: 'invalid',
+        message: `Tenant ID must be 1 to ${MAX_TENANT_ID_LENGTH} letters, digits, hyphens or underscores`,
+    };
+}
@@ -0,0 +1,392 @@
+/**
+ * APIキーとレート制限のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. ハッシュ値だけを保存していることの検証
+ * 2. 時刻を引数で渡して、トークンバケットの補充を待たずにテストする方法
+ * 3. 条件付き書き込みの競合(同時リクエスト)のテスト
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+    DynamoDBDocumentClient,
+    PutCommand,
+    GetCommand,
+    UpdateCommand,
+    ScanCommand,
+    QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+    createApiKey,
+    findApiKey,
+    listApiKeys,
+    revokeApiKey,
+    consumeRateLimitToken,
+    hashApiKey,
+    ApiKeyOptions,
+    ApiKeyRecord,
+} from '../../api-keys';
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const options: ApiKeyOptions = { tableName: 'TestApiKeys' };
+
+beforeEach(() => {
+    ddbMock.reset();
+});
+
+/**
+ * 条件付き書き込みの失敗を表すエラーを作成
+ */
+function conditionalCheckFailed(): Error {
+    const error = new Error('The conditional request failed');
+    error.name = 'ConditionalCheckFailedException';
+    return error;
+}
+
+/**
+ * テスト用のAPIキーのレコードを作成
+ */
+function createRecord(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+    return {
+        keyId: '0123456789abcdef',
+        keyHash: 'hash',
+        name: 'partner',
+        ownerId: 'apikey:0123456789abcdef',
+        rateLimit: { capacity: 3, refillPerSecond: 1 },
+        createdAt: '2025-10-21T10:00:00.000Z',
+        ...overrides,
+    };
+}
+
+// ========================================
+// createApiKey / findApiKey のテスト
+// ========================================
+describe('createApiKey, findApiKey - APIキーの発行と検証', () => {
+    /**
+     * 正常系テスト：発行
+     *
+     * 学習ポイント：
+     * - 保存されるのはハッシュ値だけで、APIキーそのものはどこにも保存されない
+     */
+    test('正常系：発行したキーはハッシュ値だけが保存される', async () => {
+        // Arrange
+        ddbMock.on(PutCommand).resolves({});
+
+        // Act
+        const { apiKey, key } = await createApiKey(client, options, {
+            name: 'partner',
+            tenantId: 'acme',
+            rateLimit: { capacity: 10, refillPerSecond: 1 },
+        });
+
+        // Assert
+        expect(apiKey).toMatch(new RegExp(`^ik_${key.keyId}_[A-Za-z0-9_-]{43}$`));
+        expect(key).toMatchObject({ ownerId: `apikey:${key.keyId}`, tenantId: 'acme' });
+        const input = ddbMock.commandCalls(PutCommand)[0].args[0].input;
+        expect(input.TableName).toBe('TestApiKeys');
+        expect(input.Item!.keyHash).toBe(hashApiKey(apiKey));
+        expect(JSON.stringify(input.Item)).not.toContain(apiKey);
+        expect(input.ConditionExpression).toBe('attribute_not_exists(keyId)');
+    });
+
+    test('正常系：発行したキーで検証できる', async () => {
+        // Arrange
+        const records = new Map<string, Record<string, any>>();
+        ddbMock.on(PutCommand).callsFake((input) => {
+            records.set(input.Item.keyId, input.Item);
+            return {};
+        });
+        ddbMock.on(GetCommand).callsFake((input) => ({ Item: records.get(input.Key.keyId) }));
+        const { apiKey, key } = await createApiKey(client, options, {
+            name: 'partner',
+            ownerId: 'partner-user',
+            tenantId: 'default',
+            rateLimit: { capacity: 10, refillPerSecond: 1 },
+        });
+
+        // Act
+        const record = await findApiKey(client, options, apiKey);
+
+        // Assert
+        expect(record).toMatchObject({ keyId: key.keyId, ownerId: 'partner-user' });
+        expect(ddbMock.commandCalls(GetCommand)[0].args[0].input.ConsistentRead).toBe(true);
+    });
+
+    /**
+     * セキュリティテスト：不正なキー
+     *
+     * 学習ポイント：
+     * - keyId が正しくても、secret の部分が違えばハッシュ値が一致しない
+     */
+    test.each([
+        ['形式が不正な', 'not-an-api-key'],
+        ['secret が違う', `ik_0123456789abcdef_${'a'.repeat(43)}`],
+    ])('セキュリティ：%sキーはundefined', async (_label, apiKey) => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: createRecord({ keyHash: hashApiKey(`ik_0123456789abcdef_${'b'.repeat(43)}`) }) });
+
+        // Act
+        const record = await findApiKey(client, options, apiKey);
+
+        // Assert
+        expect(record).toBeUndefined();
+    });
+
+    test('セキュリティ：失効したキーはundefined', async () => {
+        // Arrange
+        const apiKey = `ik_0123456789abcdef_${'b'.repeat(43)}`;
+        ddbMock.on(GetCommand).resolves({
+            Item: createRecord({ keyHash: hashApiKey(apiKey), revokedAt: '2025-10-22T10:00:00.000Z' }),
+        });
+
+        // Act
+        const record = await findApiKey(client, options, apiKey);
+
+        // Assert
+        expect(record).toBeUndefined();
+    });
+});
+
+// ========================================
+// listApiKeys / revokeApiKey のテスト
+// ========================================
+describe('listApiKeys, revokeApiKey - APIキーの一覧と失効', () => {
+    test('正常系：一覧にはハッシュ値とトークンの状態を含めない', async () => {
+        // Arrange
+        ddbMock
+            .on(ScanCommand)
+            .resolvesOnce({
+                Items: [createRecord({ keyId: 'b', createdAt: '2025-10-22T10:00:00.000Z', tokens: 1 })],
+                LastEvaluatedKey: { keyId: 'b' },
+            })
+            .resolvesOnce({ Items: [createRecord({ keyId: 'a', tokensUpdatedAt: 1 })] });
+
+        // Act
+        const keys = await listApiKeys(client, options);
+
+        // Assert
+        expect(keys.map((key) => key.keyId)).toEqual(['a', 'b']);
+        expect(keys[0]).not.toHaveProperty('keyHash');
+        expect(keys[0]).not.toHaveProperty('tokensUpdatedAt');
+        expect(keys[1]).not.toHaveProperty('tokens');
+        expect(ddbMock.commandCalls(ScanCommand)[1].args[0].input.ExclusiveStartKey).toEqual({ keyId: 'b' });
+    });
+
+    /**
+     * 正常系テスト：テナントを指定した一覧
+     *
+     * 学習ポイント：
+     * - ByTenant インデックスを Query し、他のテナントのキーを読まない(Scan しない)
+     */
+    test('正常系：テナントを指定すると ByTenant インデックスを Query する', async () => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({ Items: [createRecord({ tenantId: 'acme' })] });
+
+        // Act
+        const keys = await listApiKeys(client, options, 'acme');
+
+        // Assert
+        expect(keys.map((key) => key.tenantId)).toEqual(['acme']);
+        expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+            TableName: 'TestApiKeys',
+            IndexName: 'ByTenant',
+            KeyConditionExpression: 'tenantId = :tenantId',
+            ExpressionAttributeValues: { ':tenantId': 'acme' },
+        });
+        expect(ddbMock.commandCalls(ScanCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 正常系テスト：tenantId のない古いキー
+     *
+     * 学習ポイント：
+     * - tenantId のないキーはインデックスに入らないため、デフォルトのテナントの場合だけ Scan で加える
+     */
+    test('正常系：デフォルトのテナントには tenantId のない古いキーも作成日時の順に含める', async () => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({
+            Items: [createRecord({ keyId: 'b', tenantId: 'default', createdAt: '2025-10-22T10:00:00.000Z' })],
+        });
+        ddbMock.on(ScanCommand).resolves({ Items: [createRecord({ keyId: 'a' })] });
+
+        // Act
+        const keys = await listApiKeys(client, options, 'default');
+
+        // Assert
+        expect(keys.map((key) => key.keyId)).toEqual(['a', 'b']);
+        expect(ddbMock.commandCalls(ScanCommand)[0].args[0].input.FilterExpression).toBe(
+            'attribute_not_exists(tenantId)'
+        );
+    });
+
+    test('正常系：失効させると revokedAt が記録される', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).resolves({
+            Attributes: createRecord({ revokedAt: '2025-10-22T10:00:00.000Z' }),
+        });
+
+        // Act
+        const revoked = await revokeApiKey(client, options, '0123456789abcdef');
+
+        // Assert
+        expect(revoked).toMatchObject({ keyId: '0123456789abcdef', revokedAt: '2025-10-22T10:00:00.000Z' });
+        expect(revoked).not.toHaveProperty('keyHash');
+        expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input.ConditionExpression).toBe('attribute_exists(keyId)');
+    });
+
+    /**
+     * セキュリティテスト：テナントの条件
+     *
+     * 学習ポイント：
+     * - 他のテナントのキーは条件付き書き込みで失敗し、存在しないキーと同じ扱いになる
+     * - tenantId のない古いキーは、デフォルトのテナントとして失効できる
+     */
+    test.each([
+        ['acme', 'attribute_exists(keyId) AND tenantId = :tenantId'],
+        ['default', 'attribute_exists(keyId) AND (tenantId = :tenantId OR attribute_not_exists(tenantId))'],
+    ])('セキュリティ：テナント %s を指定すると、そのテナントのキーだけを失効させる', async (tenantId, condition) => {
+        // Arrange
+        ddbMock.on(UpdateCommand).resolves({ Attributes: createRecord({ tenantId }) });
+
+        // Act
+        await revokeApiKey(client, options, '0123456789abcdef', tenantId);
+
+        // Assert
+        const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+        expect(input.ConditionExpression).toBe(condition);
+        expect(input.ExpressionAttributeValues![':tenantId']).toBe(tenantId);
+    });
+
+    test('異常系：存在しないキーはundefined', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed());
+
+        // Act
+        const revoked = await revokeApiKey(client, options, 'missing');
+
+        // Assert
+        expect(revoked).toBeUndefined();
+    });
+});
+
+// ========================================
+// consumeRateLimitToken のテスト
+// ========================================
+describe('consumeRateLimitToken - トークンバケット', () => {
+    const now = 1_700_000_000_000;
+
+    /**
+     * 正常系テスト：最初のリクエスト
+     *
+     * 学習ポイント：
+     * - バケットは満タン(capacity)から始まり、1つ消費した残りが保存される
+     */
+    test('正常系：最初のリクエストは満タンのバケットから1つ消費する', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).resolves({});
+
+        // Act
+        const result = await consumeRateLimitToken(client, options, createRecord(), now);
+
+        // Assert
+        expect(result).toEqual({ allowed: true, limit: 3, remaining: 2, resetSeconds: 1 });
+        const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+        expect(input.ExpressionAttributeValues).toMatchObject({ ':tokens': 2, ':now': now });
+        expect(input.ConditionExpression).toContain('attribute_not_exists(tokensUpdatedAt)');
+    });
+
+    test('正常系：経過時間に応じてトークンが補充される', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).resolves({});
+        const record = createRecord({ tokens: 0.5, tokensUpdatedAt: now - 1500 });
+
+        // Act
+        const result = await consumeRateLimitToken(client, options, record, now);
+
+        // Assert
+        expect(result.allowed).toBe(true);
+        const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+        expect(input.ExpressionAttributeValues![':tokens']).toBeCloseTo(1);
+        expect(input.ExpressionAttributeValues![':previous']).toBe(now - 1500);
+        expect(input.ConditionExpression).toBe('tokensUpdatedAt = :previous');
+    });
+
+    test('正常系：長時間経っても容量を超えて補充されない', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).resolves({});
+        const record = createRecord({ tokens: 0, tokensUpdatedAt: now - 60_000 });
+
+        // Act
+        const result = await consumeRateLimitToken(client, options, record, now);
+
+        // Assert
+        expect(result.remaining).toBe(2);
+        expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input.ExpressionAttributeValues![':tokens']).toBe(2);
+    });
+
+    /**
+     * 異常系テスト：トークンがない
+     *
+     * 学習ポイント：
+     * - 拒否する場合は書き込まない(拒否されたリクエストでトークンを減らさない)
+     * - Retry-After は次のトークンが補充されるまでの秒数(切り上げ)
+     */
+    test('異常系：トークンがない場合は拒否され、書き込まない', async () => {
+        // Arrange
+        const record = createRecord({ tokens: 0.25, tokensUpdatedAt: now });
+
+        // Act
+        const result = await consumeRateLimitToken(client, options, record, now);
+
+        // Assert
+        expect(result).toEqual({ allowed: false, limit: 3, remaining: 0, resetSeconds: 3, retryAfterSeconds: 1 });
+        expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 正常系テスト：同時リクエストの競合
+     *
+     * 学習ポイント：
+     * - 他のリクエストが先にトークンを消費した場合は、最新の状態を読み直して再計算する
+     */
+    test('正常系：更新が競合した場合は読み直して再計算する', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).rejectsOnce(conditionalCheckFailed()).resolves({});
+        ddbMock.on(GetCommand).resolves({ Item: createRecord({ tokens: 1.5, tokensUpdatedAt: now }) });
+
+        // Act
+        const result = await consumeRateLimitToken(client, options, createRecord({ tokens: 3, tokensUpdatedAt: now - 1 }), now);
+
+        // Assert
+        expect(result).toMatchObject({ allowed: true, remaining: 0 });
+        const calls = ddbMock.commandCalls(UpdateCommand);
+        expect(calls).toHaveLength(2);
+        expect(calls[1].args[0].input.ExpressionAttributeValues).toMatchObject({ ':tokens': 0.5, ':previous': now });
+    });
+
+    test('異常系：競合が続く場合は拒否する', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed());
+        ddbMock.on(GetCommand).resolves({ Item: createRecord({ tokens: 3, tokensUpdatedAt: now }) });
+
+        // Act
+        const result = await consumeRateLimitToken(client, options, createRecord(), now);
+
+        // Assert
+        expect(result).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+        expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(3);
+    });
+
+    test('異常系：DynamoDBのエラーはそのまま投げる', async () => {
+        // Arrange
+        ddbMock.on(UpdateCommand).rejects({ name: 'ProvisionedThroughputExceededException' });
+
+        // Act & Assert
+        await expect(consumeRateLimitToken(client, options, createRecord(), now)).rejects.toMatchObject({
+            name: 'ProvisionedThroughputExceededException',
+        });
+    });
+});
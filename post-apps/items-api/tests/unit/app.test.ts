@@ -16,8 +16,24 @@
 
 import { APIGatewayProxyEvent } from 'aws-lambda';
 import { mockClient } from 'aws-sdk-client-mock';
-import { DynamoDBDocumentClient, PutCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
-import { lambdaHandler } from '../../app';
+import {
+    DynamoDBDocumentClient,
+    PutCommand,
+    GetCommand,
+    ScanCommand,
+    QueryCommand,
+    DeleteCommand,
+    BatchGetCommand,
+    UpdateCommand,
+    TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { createHash, createHmac } from 'crypto';
+import { lambdaHandler, createLambdaHandler, createItemRepository, createRequestAuthenticator } from '../../app';
+import { createAuthenticator } from '../../auth';
+import { DEFAULT_CORS_OPTIONS } from '../../cors';
+import { toItemRecord } from '../../dynamodb-repository';
+import { createInMemoryItemRepository } from '../../memory-repository';
+import { STAND_IN_CREDENTIALS, startS3StandIn } from './s3-stand-in';
 
 // ========================================
 // モックの設定
@@ -42,34 +58,95 @@ const ddbMock = mockClient(DynamoDBDocumentClient);
  * - beforeEach/afterEach の使い方
  * - テストの独立性を保つ重要性
  * - 環境変数の設定方法
- * - console.errorのモック（テストログをきれいに保つ）
+ * - ログ出力のモック（テストログをきれいに保つ）
  */
 
-// console.errorをモック（エラーテスト時のログ出力を抑制）
-let consoleErrorSpy: jest.SpyInstance;
+// ログ出力(標準出力)をモック（ログの内容を検証できるようにする）
+let stdoutSpy: jest.SpyInstance;
 
 beforeEach(() => {
     // モックをリセット（前のテストの影響を受けないようにする）
     ddbMock.reset();
-    
+
+    // IDを指定した作成では、変更履歴の最後のバージョンを確認する(デフォルトは履歴なし)
+    ddbMock.on(QueryCommand, { TableName: 'TenantItemsHistory' }).resolves({ Items: [] });
+
     // 環境変数を設定
     process.env.TABLE_NAME = 'TestTable';
     
-    // console.errorをモック（テストログをきれいに保つ）
-    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    // ロガーは1行1JSONを標準出力に書き込む
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
 });
 
 afterEach(() => {
     // 環境変数をクリア
     delete process.env.TABLE_NAME;
     
-    // console.errorのモックをリストア
-    consoleErrorSpy.mockRestore();
+    // 標準出力のモックをリストア
+    stdoutSpy.mockRestore();
 });
 
 // ========================================
 // ヘルパー関数
 // ========================================
+/**
+ * 出力されたログを解析して返す
+ * 
+ * 学習ポイント：
+ * - 構造化ログは1行ずつJSONとして解析できる
+ */
+function getLogEntries(): Record<string, any>[] {
+    return stdoutSpy.mock.calls.map(([line]) => JSON.parse(String(line)));
+}
+
+/**
+ * アイテムのテーブルへの書き込み(TransactWriteCommand の最初の操作)を返す
+ * 
+ * 学習ポイント：
+ * - アイテムの書き込みは、変更履歴の追加と一緒に1つのトランザクションで行われる
+ * - TransactItems[0] がアイテムの Put / Delete、TransactItems[1] が履歴の Put
+ */
+function getItemWrites(): Record<string, any>[] {
+    return ddbMock.commandCalls(TransactWriteCommand).map((call) => {
+        const [write] = call.args[0].input.TransactItems!;
+        return (write.Put ?? write.Delete)!;
+    });
+}
+
+/**
+ * メモリ上のテーブルを Scan する(FilterExpression は tenantId のないレコードの絞り込みだけを再現する)
+ */
+function scanRecords(records: Map<string, Record<string, any>>, input: Record<string, any>): Record<string, any>[] {
+    const all = [...records.values()];
+    return input.FilterExpression === 'attribute_not_exists(tenantId)'
+        ? all.filter((record) => record.tenantId === undefined)
+        : all;
+}
+
+/**
+ * メモリ上のテーブルの ByTenant インデックスを Query する
+ * 
+ * 学習ポイント：
+ * - tenantId のないレコードはインデックスに入らない(スパースインデックス)
+ */
+function queryByTenant(records: Map<string, Record<string, any>>, input: Record<string, any>): Record<string, any>[] {
+    return [...records.values()].filter((record) => record.tenantId === input.ExpressionAttributeValues[':tenantId']);
+}
+
+/**
+ * 条件を満たさずに失敗したトランザクションのエラーを作成する
+ * 
+ * 学習ポイント：
+ * - トランザクションでは ConditionalCheckFailedException ではなく TransactionCanceledException になる
+ * - CancellationReasons に操作ごとの理由が入る(失敗していない操作は None)
+ */
+function createTransactionCanceledError(code = 'ConditionalCheckFailed'): Error {
+    return Object.assign(new Error('Transaction cancelled'), {
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: code }, { Code: 'None' }],
+    });
+}
+
 /**
  * テスト用のAPIGatewayイベントを作成
  * 
@@ -84,6 +161,8 @@ function createMockEvent(
     body?: string | null,
     pathParameters?: Record<string, string> | null
 ): APIGatewayProxyEvent {
+    // ルーターはパスで振り分けるので、ID があれば /items/{id} のパスにする
+    const id = pathParameters?.id;
     return {
         httpMethod: method,
         body: body ?? null,
@@ -91,12 +170,13 @@ function createMockEvent(
         headers: {},
         multiValueHeaders: {},
         isBase64Encoded: false,
-        path: '/items',
+        path: id === undefined ? '/items' : `/items/${encodeURIComponent(id)}`,
         queryStringParameters: null,
         multiValueQueryStringParameters: null,
         stageVariables: null,
-        requestContext: {} as any,
-        resource: '',
+        // API Gateway のオーソライザーが検証したクレーム(デフォルトは管理者)
+        requestContext: { authorizer: { claims: { sub: 'test-user', scope: 'items:admin' } } } as any,
+        resource: id === undefined ? '/items' : '/items/{id}',
     };
 }
 
@@ -119,8 +199,8 @@ describe('POST /items - アイテム作成', () => {
             price: 1000,
         };
         
-        // DynamoDBのPutCommandが成功することをモック
-        ddbMock.on(PutCommand).resolves({});
+        // アイテムと変更履歴の書き込み(TransactWriteCommand)が成功することをモック
+        ddbMock.on(TransactWriteCommand).resolves({});
 
         const event = createMockEvent('POST', JSON.stringify(requestBody));
 
@@ -138,6 +218,10 @@ describe('POST /items - アイテム作成', () => {
         
         // DynamoDBが正しく呼ばれたことを確認
         expect(ddbMock.calls()).toHaveLength(1);
+
+        // 同じIDのアイテムを上書きしないよう、条件付きで書き込まれていること
+        const input = getItemWrites()[0];
+        expect(input.ConditionExpression).toBe('attribute_not_exists(id)');
     });
 
     /**
@@ -155,7 +239,7 @@ describe('POST /items - アイテム作成', () => {
             name: 'カスタムID商品',
         };
         
-        ddbMock.on(PutCommand).resolves({});
+        ddbMock.on(TransactWriteCommand).resolves({});
         const event = createMockEvent('POST', JSON.stringify(requestBody));
 
         // Act
@@ -185,8 +269,8 @@ describe('POST /items - アイテム作成', () => {
         // Assert
         expect(result.statusCode).toBe(400);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('Request body is required');
-        expect(body).toHaveProperty('timestamp');
+        expect(body.detail).toBe('Request body is required');
+        expect(body.code).toBe('BODY_REQUIRED');
     });
 
     /**
@@ -206,7 +290,7 @@ describe('POST /items - アイテム作成', () => {
         // Assert
         expect(result.statusCode).toBe(400);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('Invalid JSON format');
+        expect(body.detail).toBe('Invalid JSON format');
     });
 
     /**
@@ -226,7 +310,7 @@ describe('POST /items - アイテム作成', () => {
         // Assert
         expect(result.statusCode).toBe(400);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('Request body cannot be empty');
+        expect(body.detail).toBe('Request body cannot be empty');
     });
 
     /**
@@ -250,7 +334,171 @@ describe('POST /items - アイテム作成', () => {
         // Assert
         expect(result.statusCode).toBe(400);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('ID must be a non-empty string');
+        expect(body.detail).toBe('ID must be a non-empty string');
+    });
+
+    /**
+     * 異常系テスト：スキーマ違反
+     * 
+     * 学習ポイント：
+     * - 違反しているフィールドをすべて、JSON Pointer 付きで返す
+     * - DynamoDBには書き込まない
+     */
+    test('異常系：スキーマに違反する場合は違反箇所をすべて返す400エラー', async () => {
+        // Arrange
+        const requestBody = { price: 'abc', version: 5, description: '説明' };
+        const event = createMockEvent('POST', JSON.stringify(requestBody));
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        const body = JSON.parse(result.body);
+        expect(body.detail).toBe('Validation failed');
+        expect(body.code).toBe('VALIDATION_FAILED');
+        expect(body.errors).toEqual([
+            { pointer: '/version', message: 'is managed by the server and cannot be set' },
+            { pointer: '/name', message: 'is required' },
+            { pointer: '/price', message: 'must be a number' },
+        ]);
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：深すぎるネスト
+     */
+    test('異常系：ネストが深すぎる場合400エラー', async () => {
+        // Arrange
+        const requestBody = { name: '商品', a: { b: { c: { d: { e: { f: 'too deep' } } } } } };
+        const event = createMockEvent('POST', JSON.stringify(requestBody));
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).errors).toEqual([
+            { pointer: '', message: 'must not be nested deeper than 5 levels' },
+        ]);
+    });
+
+    /**
+     * 異常系テスト：既存のIDを指定
+     * 
+     * 学習ポイント：
+     * - ConditionalCheckFailedException は障害(503)ではなく競合(409)
+     * - レスポンスに既存アイテムのIDが含まれる
+     */
+    test('異常系：既に存在するIDを指定した場合409エラー', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).rejects(createTransactionCanceledError());
+        // 競合したアイテムが期限切れかどうかを確認するために読み直す
+        ddbMock.on(GetCommand).resolves({ Item: { id: 'existing-id', name: '既存の商品', version: 1 } });
+        const event = createMockEvent('POST', JSON.stringify({ id: 'existing-id', name: '商品' }));
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(409);
+        const body = JSON.parse(result.body);
+        expect(body.detail).toBe('Item already exists');
+        expect(body.code).toBe('ITEM_ALREADY_EXISTS');
+        expect(body.id).toBe('existing-id');
+    });
+
+    /**
+     * 正常系テスト：upsert で新規作成
+     * 
+     * 学習ポイント：
+     * - upsert のときは条件を付けずに書き込む
+     * - 既存のアイテムがなければ 201 Created
+     */
+    test('正常系：upsert=trueで存在しないIDなら201で作成される', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({});
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = {
+            ...createMockEvent('POST', JSON.stringify({ id: 'new-id', name: '商品' })),
+            queryStringParameters: { upsert: 'true' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body).version).toBe(1);
+    });
+
+    /**
+     * 正常系テスト：upsert で既存アイテムを置き換え
+     */
+    test('正常系：upsert=trueで既存のIDなら200で置き換えられる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: { id: 'existing-id', name: '古い商品', version: 3 } });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = {
+            ...createMockEvent('POST', JSON.stringify({ id: 'existing-id', name: '新しい商品' })),
+            queryStringParameters: { upsert: 'true' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.name).toBe('新しい商品');
+        // バージョンは既存のアイテムの続きになる
+        expect(body.version).toBe(4);
+        expect(result.headers?.ETag).toBe('"4"');
+        const input = getItemWrites()[0];
+        expect(input.ConditionExpression).toBe('version = :expectedVersion');
+        expect(input.ExpressionAttributeValues).toEqual({ ':expectedVersion': 3 });
+    });
+
+    /**
+     * 異常系テスト：upsert の競合
+     * 
+     * 学習ポイント：
+     * - 読み取ってから書き込むまでに他のリクエストが更新すると、条件付き書き込みが失敗する
+     */
+    test('異常系：upsert中に他のリクエストが更新した場合409エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: { id: 'existing-id', name: '古い商品', version: 3 } });
+        ddbMock.on(TransactWriteCommand).rejects(createTransactionCanceledError());
+        const event = {
+            ...createMockEvent('POST', JSON.stringify({ id: 'existing-id', name: '新しい商品' })),
+            queryStringParameters: { upsert: 'true' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(409);
+        expect(JSON.parse(result.body).detail).toBe('Item was modified by another request');
+    });
+
+    /**
+     * 異常系テスト：upsertパラメータの値が不正
+     */
+    test('異常系：upsertパラメータが不正な値の場合400エラー', async () => {
+        // Arrange
+        const event = {
+            ...createMockEvent('POST', JSON.stringify({ name: '商品' })),
+            queryStringParameters: { upsert: '1' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe("upsert must be 'true' or 'false'");
+        expect(ddbMock.calls()).toHaveLength(0);
     });
 
     /**
@@ -268,7 +516,7 @@ describe('POST /items - アイテム作成', () => {
         // DynamoDBがエラーを返すようにモック
         const error = new Error('DynamoDB Error');
         (error as any).name = 'ServiceUnavailable';
-        ddbMock.on(PutCommand).rejects(error);
+        ddbMock.on(TransactWriteCommand).rejects(error);
 
         const event = createMockEvent('POST', JSON.stringify(requestBody));
 
@@ -278,7 +526,7 @@ describe('POST /items - アイテム作成', () => {
         // Assert
         expect(result.statusCode).toBe(503);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('Database service unavailable');
+        expect(body.detail).toBe('Database service unavailable');
     });
 });
 
@@ -346,27 +594,27 @@ describe('GET /items/{id} - アイテム取得', () => {
         // Assert
         expect(result.statusCode).toBe(404);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('Item not found');
+        expect(body.detail).toBe('Item not found');
+        expect(body.code).toBe('ITEM_NOT_FOUND');
     });
 
     /**
-     * 異常系テスト：パスパラメータがない
+     * 異常系テスト：IDのないパス
      * 
      * 学習ポイント：
-     * - 必須パラメータのバリデーション
-     * - API Gatewayの統合タイプによる違い
+     * - /items/ は /items/{id} にも /items にも一致しないので、ルーターが404エラーにする
      */
-    test('異常系：パスパラメータがない場合400エラー', async () => {
+    test('異常系：IDのないパス(/items/)は404エラー', async () => {
         // Arrange
-        const event = createMockEvent('GET', null, null);
+        const event = { ...createMockEvent('GET'), path: '/items/' };
 
         // Act
         const result = await lambdaHandler(event);
 
         // Assert
-        expect(result.statusCode).toBe(400);
-        const body = JSON.parse(result.body);
-        expect(body.error).toBe('Path parameters are required');
+        expect(result.statusCode).toBe(404);
+        expect(JSON.parse(result.body).detail).toBe('Not found');
+        expect(ddbMock.commandCalls(GetCommand)).toHaveLength(0);
     });
 
     /**
@@ -386,7 +634,7 @@ describe('GET /items/{id} - アイテム取得', () => {
         // Assert
         expect(result.statusCode).toBe(400);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('ID parameter is required');
+        expect(body.detail).toBe('ID parameter is required');
     });
 
     /**
@@ -407,7 +655,7 @@ describe('GET /items/{id} - アイテム取得', () => {
         // Assert
         expect(result.statusCode).toBe(400);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('ID parameter is too long');
+        expect(body.detail).toBe('ID parameter is too long');
     });
 
     /**
@@ -433,115 +681,4368 @@ describe('GET /items/{id} - アイテム取得', () => {
         // Assert
         expect(result.statusCode).toBe(503);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('Database service unavailable');
+        expect(body.detail).toBe('Database service unavailable');
     });
 });
 
 // ========================================
-// その他のHTTPメソッドのテスト
+// GET /items のテスト
 // ========================================
-describe('サポートされていないHTTPメソッド', () => {
+describe('GET /items - アイテム一覧取得', () => {
     /**
-     * 異常系テスト：PUTメソッド
+     * 一覧取得用のイベントを作成
      * 
      * 学習ポイント：
-     * - 405 Method Not Allowed の使用
-     * - サポートされていないメソッドの拒否
+     * - パス /items への GET は一覧取得にルーティングされる
+     * - クエリパラメータは queryStringParameters で渡される
+     */
+    function createListEvent(query?: Record<string, string>): APIGatewayProxyEvent {
+        return {
+            ...createMockEvent('GET'),
+            queryStringParameters: query ?? null,
+        };
+    }
+
+    /**
+     * テスト用のカーソルを作成(実装と同じ base64url 形式)
+     */
+    function toCursor(key: unknown): string {
+        return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+    }
+
+    /**
+     * 正常系テスト：最初のページ
+     * 
+     * 学習ポイント：
+     * - LastEvaluatedKey が nextCursor として返されること
+     * - デフォルトの limit が使われること
      */
-    test('異常系：PUTメソッドは405エラー', async () => {
+    test('正常系：最初のページを取得でき、nextCursorが返される', async () => {
         // Arrange
-        const event = createMockEvent('PUT', JSON.stringify({ name: 'test' }));
+        const items = [
+            { id: 'item-1', name: '商品1' },
+            { id: 'item-2', name: '商品2' },
+        ];
+        ddbMock.on(QueryCommand).resolves({
+            Items: items,
+            LastEvaluatedKey: { tenantId: 'default', id: 'item-2' },
+        });
 
         // Act
-        const result = await lambdaHandler(event);
+        const result = await lambdaHandler(createListEvent());
 
         // Assert
-        expect(result.statusCode).toBe(405);
+        expect(result.statusCode).toBe(200);
         const body = JSON.parse(result.body);
-        expect(body.error).toBe('Method not allowed');
+        expect(body.items).toEqual(items);
+        expect(body.count).toBe(2);
+        // カーソルにはテナントを含めない(テナントはリクエストごとに決める)
+        expect(body.nextCursor).toBe(toCursor({ id: 'item-2' }));
+
+        // インデックスを使わない場合も、テーブルをテナントで Query する(Scan はしない)
+        const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+        expect(input.IndexName).toBeUndefined();
+        expect(input.KeyConditionExpression).toBe('#tenantId = :tenantId');
+        expect(input.ExpressionAttributeValues).toEqual({ ':tenantId': 'default' });
+        expect(ddbMock.commandCalls(ScanCommand)).toHaveLength(0);
+        expect(input.Limit).toBe(20);
+        expect(input.ExclusiveStartKey).toBeUndefined();
+        // 論理削除されたアイテムは除外される
+        expect(input.FilterExpression).toBe('attribute_not_exists(deletedAt)');
     });
 
     /**
-     * 異常系テスト：DELETEメソッド
+     * 正常系テスト：途中のページ
+     * 
+     * 学習ポイント：
+     * - 受け取ったカーソルが ExclusiveStartKey に復元されること
      */
-    test('異常系：DELETEメソッドは405エラー', async () => {
+    test('正常系：カーソルを指定して途中のページを取得できる', async () => {
         // Arrange
-        const event = createMockEvent('DELETE');
+        ddbMock.on(QueryCommand).resolves({
+            Items: [{ id: 'item-3', name: '商品3' }],
+            LastEvaluatedKey: { tenantId: 'default', id: 'item-3' },
+        });
+        const event = createListEvent({ limit: '1', cursor: toCursor({ id: 'item-2' }) });
 
         // Act
         const result = await lambdaHandler(event);
 
         // Assert
-        expect(result.statusCode).toBe(405);
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.count).toBe(1);
+        expect(body.nextCursor).toBe(toCursor({ id: 'item-3' }));
+
+        const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+        expect(input.Limit).toBe(1);
+        expect(input.ExclusiveStartKey).toEqual({ tenantId: 'default', id: 'item-2' });
     });
 
     /**
-     * 異常系テスト：PATCHメソッド
+     * 正常系テスト：最後のページ
+     * 
+     * 学習ポイント：
+     * - LastEvaluatedKey がなければ nextCursor は null
      */
-    test('異常系：PATCHメソッドは405エラー', async () => {
+    test('正常系：最後のページではnextCursorがnull', async () => {
         // Arrange
-        const event = createMockEvent('PATCH', JSON.stringify({ name: 'test' }));
+        ddbMock.on(QueryCommand).resolves({
+            Items: [{ id: 'item-4', name: '商品4' }],
+        });
+        const event = createListEvent({ cursor: toCursor({ id: 'item-3' }) });
 
         // Act
         const result = await lambdaHandler(event);
 
         // Assert
-        expect(result.statusCode).toBe(405);
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.items).toHaveLength(1);
+        expect(body.nextCursor).toBeNull();
     });
-});
 
-// ========================================
-// エッジケースのテスト
-// ========================================
-describe('エッジケースとセキュリティ', () => {
     /**
-     * セキュリティテスト：特殊文字を含むID
-     * 
-     * 学習ポイント：
-     * - 入力のサニタイゼーション
-     * - インジェクション攻撃の防御
+     * 正常系テスト：テーブルが空
      */
-    test('セキュリティ：特殊文字を含むIDでも正常に動作', async () => {
+    test('正常系：アイテムがない場合は空配列を返す', async () => {
         // Arrange
-        const specialId = 'test-id-<script>alert("xss")</script>';
-        
-        ddbMock.on(GetCommand).resolves({
-            Item: { id: specialId, name: 'test' },
-        });
-
-        const event = createMockEvent('GET', undefined, { id: specialId });
+        ddbMock.on(QueryCommand).resolves({});
 
         // Act
-        const result = await lambdaHandler(event);
+        const result = await lambdaHandler(createListEvent());
 
         // Assert
         expect(result.statusCode).toBe(200);
         const body = JSON.parse(result.body);
-        expect(body.id).toBe(specialId);
+        expect(body).toEqual({ items: [], count: 0, nextCursor: null });
     });
 
     /**
-     * パフォーマンステスト：大きなJSONボディ
+     * 異常系テスト：改ざんされたカーソル
      * 
      * 学習ポイント：
-     * - 大きなデータの処理
-     * - メモリ使用量の考慮
+     * - クライアントから来たカーソルは信用しない
+     * - DynamoDBを呼ぶ前に400で弾く
      */
-    test('エッジケース：大きなJSONボディでも処理できる', async () => {
+    test.each([
+        ['base64でもJSONでもない', '!!!not-a-cursor!!!'],
+        ['JSONが配列', toCursor(['item-1'])],
+        ['キー以外の属性を含む', toCursor({ id: 'item-1', admin: true })],
+        ['idが文字列ではない', toCursor({ id: 123 })],
+        ['別のキー名', toCursor({ pk: 'item-1' })],
+        ['テナントを含む', toCursor({ id: 'item-1', tenantId: 'other' })],
+    ])('異常系：改ざんされたカーソル（%s）の場合400エラー', async (_label, cursor) => {
+        // Act
+        const result = await lambdaHandler(createListEvent({ cursor }));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        const body = JSON.parse(result.body);
+        expect(body.detail).toBe('Invalid cursor');
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：limitの境界値
+     * 
+     * 学習ポイント：
+     * - 上限を超える値や数値でない値は拒否する
+     */
+    test.each(['0', '101', 'abc', '1.5', '-1'])('異常系：limit=%s の場合400エラー', async (limit) => {
+        // Act
+        const result = await lambdaHandler(createListEvent({ limit }));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        const body = JSON.parse(result.body);
+        expect(body.detail).toBe('limit must be an integer between 1 and 100');
+    });
+
+    /**
+     * 正常系テスト：limitの上限値
+     */
+    test('正常系：limit=100 は受け付ける', async () => {
         // Arrange
-        const largeObject = {
-            name: 'テスト',
-            description: 'a'.repeat(1000), // 1000文字の説明
-            tags: Array(100).fill('tag'), // 100個のタグ
-        };
+        ddbMock.on(QueryCommand).resolves({ Items: [] });
 
-        ddbMock.on(PutCommand).resolves({});
-        const event = createMockEvent('POST', JSON.stringify(largeObject));
+        // Act
+        const result = await lambdaHandler(createListEvent({ limit: '100' }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input.Limit).toBe(100);
+    });
+
+    /**
+     * 異常系テスト：DynamoDBエラー
+     */
+    test('異常系：DynamoDBエラーの場合503エラー', async () => {
+        // Arrange
+        const error = new Error('DynamoDB Error');
+        (error as any).name = 'ServiceUnavailable';
+        ddbMock.on(QueryCommand).rejects(error);
 
         // Act
-        const result = await lambdaHandler(event);
+        const result = await lambdaHandler(createListEvent());
 
         // Assert
-        expect(result.statusCode).toBe(201);
+        expect(result.statusCode).toBe(503);
     });
-});
\ No newline at end of file
+
+    /**
+     * 異常系テスト：知らないクエリパラメータ
+     * 
+     * 学習ポイント：
+     * - タイプミス(prise)を無視すると、絞り込まれていない一覧が返ってしまう
+     */
+    test('異常系：知らないクエリパラメータの場合400エラー', async () => {
+        // Act
+        const result = await lambdaHandler(createListEvent({ prise: '100', name: '商品' }));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('Unknown query parameter: prise');
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 正常系テスト：名前での絞り込み
+     * 
+     * 学習ポイント：
+     * - ByName のパーティションキーはテナントと名前をつないだ tenantName
+     * - 他のテナントの同じ名前のアイテムは読まない
+     */
+    test('正常系：nameを指定するとByNameインデックスをQueryする', async () => {
+        // Arrange
+        const items = [{ id: 'item-1', name: '商品' }];
+        ddbMock.on(QueryCommand).resolves({ Items: items });
+
+        // Act
+        const result = await lambdaHandler(createListEvent({ name: '商品' }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).items).toEqual(items);
+        const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+        expect(input.IndexName).toBe('ByName');
+        expect(input.KeyConditionExpression).toBe('#tenantName = :tenantName');
+        expect(input.FilterExpression).toBe('attribute_not_exists(deletedAt)');
+        expect(input.ExpressionAttributeNames).toEqual({ '#tenantName': 'tenantName' });
+        expect(input.ExpressionAttributeValues).toEqual({ ':tenantName': 'default#商品' });
+    });
+
+    /**
+     * 正常系テスト：価格の範囲と並び替え
+     * 
+     * 学習ポイント：
+     * - インデックスのソートキー(price)の条件は KeyConditionExpression に入る
+     * - 降順は ScanIndexForward: false
+     */
+    test('正常系：価格の範囲とsort=-priceはByPriceインデックスを降順でQueryする', async () => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({ Items: [] });
+
+        // Act
+        const result = await lambdaHandler(createListEvent({ priceMin: '100', priceMax: '500.5', sort: '-price' }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+        expect(input.IndexName).toBe('ByPrice');
+        expect(input.KeyConditionExpression).toBe(
+            '#tenantId = :tenantId AND #price BETWEEN :priceMin AND :priceMax'
+        );
+        expect(input.ExpressionAttributeValues).toEqual({
+            ':tenantId': 'default',
+            ':priceMin': 100,
+            ':priceMax': 500.5,
+        });
+        expect(input.ScanIndexForward).toBe(false);
+    });
+
+    /**
+     * 正常系テスト：作成日時での絞り込み
+     * 
+     * 学習ポイント：
+     * - 日時は保存時と同じ形式(toISOString)にそろえてから比較する
+     */
+    test('正常系：createdAfterとsort=createdAtはByCreatedAtインデックスを昇順でQueryする', async () => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({ Items: [] });
+
+        // Act
+        await lambdaHandler(createListEvent({ createdAfter: '2025-10-01T09:00:00+09:00', sort: 'createdAt' }));
+
+        // Assert
+        const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+        expect(input.IndexName).toBe('ByCreatedAt');
+        expect(input.KeyConditionExpression).toBe('#tenantId = :tenantId AND #createdAt > :createdAfter');
+        expect(input.ExpressionAttributeValues![':createdAfter']).toBe('2025-10-01T00:00:00.000Z');
+        expect(input.ScanIndexForward).toBe(true);
+    });
+
+    /**
+     * 正常系テスト：インデックスのキー以外の条件
+     * 
+     * 学習ポイント：
+     * - キーにかからない条件は FilterExpression になる
+     */
+    test.each([
+        [
+            'nameと価格',
+            { name: '商品', priceMin: '100' },
+            'ByName',
+            '#tenantName = :tenantName',
+            'attribute_not_exists(deletedAt) AND #price >= :priceMin',
+        ],
+        [
+            'nameとsort=price',
+            { name: '商品', priceMax: '100', sort: 'price' },
+            'ByPrice',
+            '#tenantId = :tenantId AND #price <= :priceMax',
+            'attribute_not_exists(deletedAt) AND #name = :name',
+        ],
+        [
+            '価格とcreatedAfter',
+            { priceMin: '0', createdAfter: '2025-10-01' },
+            'ByPrice',
+            '#tenantId = :tenantId AND #price >= :priceMin',
+            'attribute_not_exists(deletedAt) AND #createdAt > :createdAfter',
+        ],
+    ])('正常系：%sの場合', async (_label, query, indexName, keyCondition, filter) => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({ Items: [] });
+
+        // Act
+        await lambdaHandler(createListEvent(query));
+
+        // Assert
+        const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+        expect(input.IndexName).toBe(indexName);
+        expect(input.KeyConditionExpression).toBe(keyCondition);
+        expect(input.FilterExpression).toBe(filter);
+    });
+
+    /**
+     * 正常系テスト：インデックスのカーソル
+     * 
+     * 学習ポイント：
+     * - GSIの LastEvaluatedKey にはテーブルのキーとGSIのキーが含まれる
+     * - テナントの属性はカーソルから取り除き、ExclusiveStartKey に戻すときに足す
+     */
+    test('正常系：インデックスのカーソルで続きのページを取得できる', async () => {
+        // Arrange
+        const lastKey = { tenantId: 'default', id: 'item-2', price: 300 };
+        ddbMock.on(QueryCommand).resolves({ Items: [], LastEvaluatedKey: lastKey });
+        const cursor = toCursor({ id: 'item-2', price: 300 });
+
+        // Act
+        const result = await lambdaHandler(createListEvent({ sort: 'price', cursor }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).nextCursor).toBe(cursor);
+        expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input.ExclusiveStartKey).toEqual(lastKey);
+    });
+
+    /**
+     * 異常系テスト：別の条件のカーソル
+     */
+    test.each([
+        ['テーブルのカーソルをsortで使う', { sort: 'price', cursor: toCursor({ id: 'item-1' }) }],
+        [
+            'priceが文字列',
+            { sort: 'price', cursor: toCursor({ id: 'item-1', price: '300' }) },
+        ],
+        [
+            'インデックスのカーソルをsortなしで使う',
+            { cursor: toCursor({ id: 'item-1', price: 300 }) },
+        ],
+    ])('異常系：%sの場合400エラー', async (_label, query) => {
+        // Act
+        const result = await lambdaHandler(createListEvent(query));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('Invalid cursor');
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：不正な絞り込み・並び替えの値
+     */
+    test.each([
+        [{ name: '' }, 'name must not be empty'],
+        [{ priceMin: 'abc' }, 'priceMin must be a number'],
+        [{ priceMax: '1e3' }, 'priceMax must be a number'],
+        [{ priceMin: '500', priceMax: '100' }, 'priceMin must be less than or equal to priceMax'],
+        [{ createdAfter: 'yesterday' }, 'createdAfter must be an ISO 8601 date-time'],
+        [{ sort: 'name' }, 'sort must be one of createdAt, -createdAt, price, -price'],
+    ])('異常系：%p の場合400エラー', async (query, message) => {
+        // Act
+        const result = await lambdaHandler(createListEvent(query));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe(message);
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+});
+
+// ========================================
+// PUT /items/{id} のテスト
+// ========================================
+describe('PUT /items/{id} - アイテム置き換え', () => {
+    const existingItem = {
+        id: 'item-1',
+        name: '古い商品名',
+        price: 1000,
+        description: '説明',
+        createdAt: '2025-10-21T10:00:00.000Z',
+    };
+
+    /**
+     * 正常系テスト：アイテムを置き換える
+     * 
+     * 学習ポイント：
+     * - ボディにないフィールド(description)は消える
+     * - createdAt は元の値が引き継がれ、updatedAt が付与される
+     */
+    test('正常系：アイテムを置き換えられる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createMockEvent('PUT', JSON.stringify({ name: '新しい商品名', price: 1200 }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body).toEqual({
+            id: 'item-1',
+            name: '新しい商品名',
+            price: 1200,
+            createdAt: existingItem.createdAt,
+            updatedAt: expect.any(String),
+            ownerId: 'test-user',
+            version: 1,
+        });
+
+        // テーブルにはテナントのキーの属性を付けて保存する
+        const saved = getItemWrites()[0].Item;
+        expect(saved).toEqual(toItemRecord('default', body));
+    });
+
+    /**
+     * 異常系テスト：クライアントが createdAt を指定
+     * 
+     * 学習ポイント：
+     * - サーバー管理のフィールドは黙って上書きせず、400で知らせる
+     */
+    test('異常系：ボディにcreatedAtを含む場合400エラー', async () => {
+        // Arrange
+        const requestBody = { id: 'item-1', name: '商品', createdAt: '1999-01-01T00:00:00.000Z' };
+        const event = createMockEvent('PUT', JSON.stringify(requestBody), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).errors).toEqual([
+            { pointer: '/createdAt', message: 'is managed by the server and cannot be set' },
+        ]);
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：存在しないアイテム
+     */
+    test('異常系：存在しないアイテムの場合404エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({});
+        const event = createMockEvent('PUT', JSON.stringify({ name: '商品' }), { id: 'missing' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+        expect(JSON.parse(result.body).detail).toBe('Item not found');
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：ボディのIDとパスのIDが異なる
+     */
+    test('異常系：ボディのIDがパスと異なる場合400エラー', async () => {
+        // Arrange
+        const event = createMockEvent('PUT', JSON.stringify({ id: 'other', name: '商品' }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('ID in body does not match path');
+    });
+
+    /**
+     * 異常系テスト：ボディのバリデーション(POSTと同じルール)
+     */
+    test('異常系：不正なJSON形式の場合400エラー', async () => {
+        // Arrange
+        const event = createMockEvent('PUT', '{invalid', { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('Invalid JSON format');
+    });
+
+    /**
+     * 異常系テスト：IDのないパス
+     * 
+     * 学習ポイント：
+     * - PUT /items は定義されていないので、一覧の取得や作成として処理せずに405エラーにする
+     */
+    test('異常系：IDのないパス(PUT /items)は405エラー', async () => {
+        // Arrange
+        const event = createMockEvent('PUT', JSON.stringify({ name: 'test' }));
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(405);
+        expect(result.headers?.Allow).toBe('POST, GET, OPTIONS');
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：DynamoDBエラー
+     */
+    test('異常系：DynamoDBエラーの場合503エラー', async () => {
+        // Arrange
+        const error = new Error('DynamoDB Error');
+        (error as any).name = 'ServiceUnavailable';
+        ddbMock.on(GetCommand).rejects(error);
+        const event = createMockEvent('PUT', JSON.stringify({ name: '商品' }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+    });
+});
+
+// ========================================
+// PATCH /items/{id} のテスト
+// ========================================
+describe('PATCH /items/{id} - アイテム部分更新', () => {
+    const existingItem = {
+        id: 'item-1',
+        name: '商品',
+        price: 1000,
+        description: '説明',
+        dimensions: { width: 10, height: 20 },
+        tags: ['a', 'b'],
+        createdAt: '2025-10-21T10:00:00.000Z',
+    };
+
+    /**
+     * 正常系テスト：JSON Merge Patch の適用
+     * 
+     * 学習ポイント：
+     * - 値の置き換え(price)
+     * - null による削除(description)
+     * - ネストしたオブジェクトのマージ(dimensions)
+     * - 配列は丸ごと置き換え(tags)
+     */
+    test('正常系：Merge Patchのルールで部分更新できる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const patch = {
+            price: 900,
+            description: null,
+            dimensions: { height: 25, depth: 5 },
+            tags: ['c'],
+        };
+        const event = createMockEvent('PATCH', JSON.stringify(patch), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body).toEqual({
+            id: 'item-1',
+            name: '商品',
+            price: 900,
+            dimensions: { width: 10, height: 25, depth: 5 },
+            tags: ['c'],
+            createdAt: existingItem.createdAt,
+            updatedAt: expect.any(String),
+            version: 1,
+        });
+        expect(getItemWrites()[0].Item).toEqual(toItemRecord('default', body));
+    });
+
+    /**
+     * 異常系テスト：サーバー管理フィールドは変更できない
+     * 
+     * 学習ポイント：
+     * - null(削除の指示)も変更とみなして拒否する
+     */
+    test('異常系：createdAtやupdatedAtをパッチに含む場合400エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        const patch = { name: '新商品', createdAt: null, updatedAt: '1999-01-01T00:00:00.000Z' };
+        const event = createMockEvent('PATCH', JSON.stringify(patch), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        const body = JSON.parse(result.body);
+        expect(body.errors).toEqual([
+            { pointer: '/createdAt', message: 'is managed by the server and cannot be set' },
+            { pointer: '/updatedAt', message: 'is managed by the server and cannot be set' },
+        ]);
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：パッチ適用後のアイテムがスキーマに違反する
+     * 
+     * 学習ポイント：
+     * - 必須項目(name)を null で削除しようとすると400
+     */
+    test('異常系：パッチで必須項目を削除しようとした場合400エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        const event = createMockEvent('PATCH', JSON.stringify({ name: null, price: -1 }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).errors).toEqual([
+            { pointer: '/name', message: 'is required' },
+            { pointer: '/price', message: 'must be greater than or equal to 0' },
+        ]);
+    });
+
+    /**
+     * 異常系テスト：存在しないアイテム
+     */
+    test('異常系：存在しないアイテムの場合404エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({});
+        const event = createMockEvent('PATCH', JSON.stringify({ price: 1 }), { id: 'missing' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：IDの変更
+     */
+    test('異常系：IDを変更しようとした場合400エラー', async () => {
+        // Arrange
+        const event = createMockEvent('PATCH', JSON.stringify({ id: 'other' }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('ID in body does not match path');
+    });
+
+    /**
+     * 異常系テスト：オブジェクト以外のパッチ
+     * 
+     * 学習ポイント：
+     * - RFC 7396 ではオブジェクト以外のパッチは「全体の置き換え」になるが、
+     *   アイテムがオブジェクトでなくなってしまうため受け付けない
+     */
+    test('異常系：配列のパッチは400エラー', async () => {
+        // Arrange
+        const event = createMockEvent('PATCH', JSON.stringify([{ price: 1 }]), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('Request body must be a JSON object');
+    });
+
+    /**
+     * 異常系テスト：DynamoDBの混雑
+     * 
+     * 学習ポイント：
+     * - スロットリングは再試行した後もだめなら429エラー(Retry-After 付き)
+     */
+    test('異常系：DynamoDBが混雑している場合は再試行した後429エラー', async () => {
+        // Arrange
+        const error = new Error('DynamoDB Error');
+        (error as any).name = 'ProvisionedThroughputExceededException';
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).rejects(error);
+        const event = createMockEvent('PATCH', JSON.stringify({ price: 1 }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(429);
+        expect(result.headers?.['Retry-After']).toBe('1');
+        expect(JSON.parse(result.body).code).toBe('DB_THROTTLED');
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(3);
+    });
+});
+
+// ========================================
+// DELETE /items/{id} と復元のテスト
+// ========================================
+describe('DELETE /items/{id} - アイテム削除と復元', () => {
+    const existingItem = {
+        id: 'item-1',
+        name: '商品',
+        price: 1000,
+        createdAt: '2025-10-21T10:00:00.000Z',
+    };
+    const deletedItem = {
+        ...existingItem,
+        deletedAt: '2025-10-22T10:00:00.000Z',
+    };
+
+    /**
+     * 復元用のイベントを作成
+     */
+    function createRestoreEvent(id: string): APIGatewayProxyEvent {
+        return {
+            ...createMockEvent('POST', null, { id }),
+            path: `/items/${encodeURIComponent(id)}/restore`,
+            resource: '/items/{id}/restore',
+        };
+    }
+
+    /**
+     * 正常系テスト：論理削除
+     * 
+     * 学習ポイント：
+     * - デフォルトではアイテムは消えず、deletedAt が付与される
+     * - アイテムの Delete ではなく Put になる
+     */
+    test('正常系：アイテムを論理削除できる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createMockEvent('DELETE', null, { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.deletedAt).toEqual(expect.any(String));
+        expect(getItemWrites()[0].Item).toEqual(toItemRecord('default', body));
+        expect(getItemWrites()[0].Key).toBeUndefined();
+    });
+
+    /**
+     * 正常系テスト：削除後の取得
+     * 
+     * 学習ポイント：
+     * - 論理削除されたアイテムは 410 Gone(存在しない 404 と区別する)
+     */
+    test('正常系：論理削除したアイテムをGETすると410エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: deletedItem });
+        const event = createMockEvent('GET', undefined, { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(410);
+        expect(JSON.parse(result.body).detail).toBe('Item has been deleted');
+    });
+
+    /**
+     * 異常系テスト：削除済みアイテムの更新
+     */
+    test('異常系：論理削除したアイテムはPUTできず410エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: deletedItem });
+        const event = createMockEvent('PUT', JSON.stringify({ name: '商品' }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(410);
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：二重削除
+     */
+    test('異常系：削除済みのアイテムを再度削除すると410エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: deletedItem });
+        const event = createMockEvent('DELETE', null, { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(410);
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：存在しないアイテムの削除
+     */
+    test('異常系：存在しないアイテムの削除は404エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({});
+        const event = createMockEvent('DELETE', null, { id: 'missing' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    /**
+     * 正常系テスト：復元
+     * 
+     * 学習ポイント：
+     * - deletedAt が取り除かれ、updatedAt が付与される
+     */
+    test('正常系：論理削除したアイテムを復元できる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: deletedItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+
+        // Act
+        const result = await lambdaHandler(createRestoreEvent('item-1'));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body).not.toHaveProperty('deletedAt');
+        expect(body.updatedAt).toEqual(expect.any(String));
+        expect(getItemWrites()[0].Item).toEqual(toItemRecord('default', body));
+    });
+
+    /**
+     * 異常系テスト：削除されていないアイテムの復元
+     */
+    test('異常系：削除されていないアイテムの復元は409エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+
+        // Act
+        const result = await lambdaHandler(createRestoreEvent('item-1'));
+
+        // Assert
+        expect(result.statusCode).toBe(409);
+        expect(JSON.parse(result.body).detail).toBe('Item is not deleted');
+        expect(JSON.parse(result.body).code).toBe('ITEM_NOT_DELETED');
+    });
+
+    /**
+     * 異常系テスト：存在しないアイテムの復元
+     */
+    test('異常系：存在しないアイテムの復元は404エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({});
+
+        // Act
+        const result = await lambdaHandler(createRestoreEvent('missing'));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    /**
+     * 正常系テスト：物理削除
+     * 
+     * 学習ポイント：
+     * - ?hard=true でアイテムの Delete(と履歴の Put)のトランザクションになる
+     * - 204 No Content はボディを返さない
+     */
+    test('正常系：hard=trueで物理削除できる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = {
+            ...createMockEvent('DELETE', null, { id: 'item-1' }),
+            queryStringParameters: { hard: 'true' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(204);
+        expect(result.body).toBe('');
+        const input = getItemWrites()[0];
+        expect(input.Key).toEqual({ tenantId: 'default', id: 'item-1' });
+    });
+
+    /**
+     * 異常系テスト：存在しないアイテムの物理削除
+     */
+    test('異常系：hard=trueで存在しないアイテムの場合404エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({});
+        const event = {
+            ...createMockEvent('DELETE', null, { id: 'missing' }),
+            queryStringParameters: { hard: 'true' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    /**
+     * 異常系テスト：hardパラメータの値が不正
+     */
+    test('異常系：hardパラメータが不正な値の場合400エラー', async () => {
+        // Arrange
+        const event = {
+            ...createMockEvent('DELETE', null, { id: 'item-1' }),
+            queryStringParameters: { hard: 'yes' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：DynamoDBエラー
+     */
+    test('異常系：DynamoDBエラーの場合503エラー', async () => {
+        // Arrange
+        const error = new Error('DynamoDB Error');
+        (error as any).name = 'ServiceUnavailable';
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).rejects(error);
+        const event = {
+            ...createMockEvent('DELETE', null, { id: 'item-1' }),
+            queryStringParameters: { hard: 'true' },
+        };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+    });
+});
+
+// ========================================
+// 楽観的排他制御(ETag / If-Match)のテスト
+// ========================================
+describe('楽観的排他制御 - version / ETag / If-Match', () => {
+    const existingItem = {
+        id: 'item-1',
+        name: '商品',
+        price: 1000,
+        createdAt: '2025-10-21T10:00:00.000Z',
+        version: 3,
+    };
+
+    /**
+     * ヘッダー付きのイベントを作成
+     */
+    function withHeaders(event: APIGatewayProxyEvent, headers: Record<string, string>): APIGatewayProxyEvent {
+        return { ...event, headers };
+    }
+
+    /**
+     * 正常系テスト：作成時のバージョン
+     * 
+     * 学習ポイント：
+     * - 新規作成は version 1 から始まり、ETag ヘッダーで返される
+     */
+    test('正常系：作成したアイテムはversion 1でETagが返される', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createMockEvent('POST', JSON.stringify({ name: '商品' }));
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body).version).toBe(1);
+        expect(result.headers?.ETag).toBe('"1"');
+    });
+
+    /**
+     * 正常系テスト：GETでETagが返される
+     */
+    test('正常系：GETのレスポンスにETagが含まれる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        const event = createMockEvent('GET', undefined, { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(result.headers?.ETag).toBe('"3"');
+        expect(result.headers?.['Content-Type']).toBe('application/json');
+    });
+
+    /**
+     * 正常系テスト：If-None-Match が一致すると304
+     * 
+     * 学習ポイント：
+     * - ヘッダー名の大文字・小文字は区別しない
+     * - 304 はボディを返さない
+     */
+    test('正常系：If-None-Matchが一致する場合304を返す', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        const event = withHeaders(createMockEvent('GET', undefined, { id: 'item-1' }), {
+            'if-none-match': '"3"',
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(304);
+        expect(result.body).toBe('');
+        expect(result.headers?.ETag).toBe('"3"');
+    });
+
+    /**
+     * 正常系テスト：If-None-Match が一致しなければ200
+     */
+    test('正常系：If-None-Matchが一致しない場合200を返す', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        const event = withHeaders(createMockEvent('GET', undefined, { id: 'item-1' }), {
+            'If-None-Match': '"1", "2"',
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body)).toEqual(existingItem);
+    });
+
+    /**
+     * 正常系テスト：If-Match が一致すれば更新できる
+     * 
+     * 学習ポイント：
+     * - 更新のたびにバージョンが1つ増える
+     * - 書き込み時にも読み取ったバージョンを条件にする
+     */
+    test('正常系：If-Matchが一致する場合PUTで更新でき、versionが増える', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = withHeaders(createMockEvent('PUT', JSON.stringify({ name: '新商品' }), { id: 'item-1' }), {
+            'If-Match': '"3"',
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).version).toBe(4);
+        expect(result.headers?.ETag).toBe('"4"');
+        const input = getItemWrites()[0];
+        expect(input.ConditionExpression).toBe('version = :expectedVersion');
+        expect(input.ExpressionAttributeValues).toEqual({ ':expectedVersion': 3 });
+    });
+
+    /**
+     * 異常系テスト：If-Match が一致しない
+     */
+    test.each([
+        ['PUT', JSON.stringify({ name: '新商品' })],
+        ['PATCH', JSON.stringify({ price: 1 })],
+        ['DELETE', null],
+    ])('異常系：If-Matchが一致しない場合%sは412エラー', async (method, body) => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        const event = withHeaders(createMockEvent(method, body, { id: 'item-1' }), {
+            'If-Match': '"2"',
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(412);
+        const responseBody = JSON.parse(result.body);
+        expect(responseBody.detail).toBe('Item has been modified');
+        expect(responseBody.code).toBe('PRECONDITION_FAILED');
+        expect(responseBody.etag).toBe('"3"');
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：物理削除でも If-Match を確認する
+     */
+    test('異常系：If-Matchが一致しない場合物理削除も412エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        const event = withHeaders(
+            {
+                ...createMockEvent('DELETE', null, { id: 'item-1' }),
+                queryStringParameters: { hard: 'true' },
+            },
+            { 'If-Match': '"2"' }
+        );
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(412);
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 正常系テスト：If-Match: * はどのバージョンにも一致する
+     */
+    test('正常系：If-Match: * の場合は削除できる', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = withHeaders(createMockEvent('DELETE', null, { id: 'item-1' }), { 'If-Match': '*' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).version).toBe(4);
+    });
+
+    /**
+     * 異常系テスト：書き込みの競合
+     * 
+     * 学習ポイント：
+     * - If-Match がなくても、読み取り〜書き込みの間の更新は検出される
+     */
+    test('異常系：読み取り後に他のリクエストが更新した場合412エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).rejects(createTransactionCanceledError());
+        const event = createMockEvent('PATCH', JSON.stringify({ price: 1 }), { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(412);
+    });
+
+    /**
+     * 正常系テスト：version属性のない古いアイテム
+     * 
+     * 学習ポイント：
+     * - 古いアイテムはバージョン0として扱う
+     */
+    test('正常系：versionのない既存アイテムはバージョン0として扱われる', async () => {
+        // Arrange
+        const legacyItem = { id: 'legacy', name: '古い商品', createdAt: '2025-01-01T00:00:00.000Z' };
+        ddbMock.on(GetCommand).resolves({ Item: legacyItem });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = withHeaders(createMockEvent('PATCH', JSON.stringify({ price: 1 }), { id: 'legacy' }), {
+            'If-Match': '"0"',
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).version).toBe(1);
+        const input = getItemWrites()[0];
+        expect(input.ConditionExpression).toBe('attribute_exists(id) AND attribute_not_exists(version)');
+    });
+});
+
+// ========================================
+// Idempotency-Key のテスト
+// ========================================
+describe('POST /items - Idempotency-Key', () => {
+    const IDEMPOTENCY_TABLE = 'ItemsIdempotency';
+
+    /**
+     * 冪等キーのテーブルをメモリ上で再現する
+     * 
+     * 学習ポイント：
+     * - 条件付き書き込み(登録済みなら失敗)を再現すると、同時リクエストのテストができる
+     * - テーブル名で、アイテムのテーブルへの呼び出しと区別する
+     */
+    function mockIdempotencyTable(): Map<string, Record<string, any>> {
+        const records = new Map<string, Record<string, any>>();
+        ddbMock.on(PutCommand, { TableName: IDEMPOTENCY_TABLE }).callsFake((input) => {
+            if (records.has(input.Item.idempotencyKey)) {
+                const error = new Error('The conditional request failed');
+                error.name = 'ConditionalCheckFailedException';
+                throw error;
+            }
+            records.set(input.Item.idempotencyKey, { ...input.Item });
+            return {};
+        });
+        ddbMock.on(GetCommand, { TableName: IDEMPOTENCY_TABLE }).callsFake((input) => ({
+            Item: records.get(input.Key.idempotencyKey),
+        }));
+        ddbMock.on(UpdateCommand, { TableName: IDEMPOTENCY_TABLE }).callsFake((input) => {
+            const record = records.get(input.Key.idempotencyKey)!;
+            record.status = input.ExpressionAttributeValues[':completed'];
+            record.response = input.ExpressionAttributeValues[':response'];
+            return {};
+        });
+        ddbMock.on(DeleteCommand, { TableName: IDEMPOTENCY_TABLE }).callsFake((input) => {
+            records.delete(input.Key.idempotencyKey);
+            return {};
+        });
+        return records;
+    }
+
+    /**
+     * 冪等キーのテーブルに保存されるキー(テナント・ユーザーID・ヘッダーの値の組)
+     */
+    function storedKey(key: string, subject = 'test-user', tenantId = 'default'): string {
+        return JSON.stringify([tenantId, subject, key]);
+    }
+
+    /**
+     * Idempotency-Key 付きのイベントを作成
+     */
+    function createIdempotentEvent(key: string, body: unknown): APIGatewayProxyEvent {
+        return { ...createMockEvent('POST', JSON.stringify(body)), headers: { 'Idempotency-Key': key } };
+    }
+
+    /**
+     * 正常系テスト：再送
+     * 
+     * 学習ポイント：
+     * - 再送しても2つ目のアイテムは作成されず、最初のレスポンス(同じID)が返される
+     */
+    test('正常系：同じキー・同じボディの再送は保存したレスポンスを返す', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        mockIdempotencyTable();
+        const event = createIdempotentEvent('key-1', { name: '商品' });
+
+        // Act
+        const first = await lambdaHandler(event);
+        const second = await lambdaHandler(event);
+
+        // Assert
+        expect(first.statusCode).toBe(201);
+        expect(second.statusCode).toBe(201);
+        expect(second.body).toBe(first.body);
+        expect(second.headers?.ETag).toBe(first.headers?.ETag);
+        expect(second.headers?.['Idempotent-Replayed']).toBe('true');
+        expect(first.headers?.['Idempotent-Replayed']).toBeUndefined();
+        expect(getItemWrites()).toHaveLength(1);
+    });
+
+    /**
+     * 正常系テスト：保存するレコード
+     * 
+     * 学習ポイント：
+     * - TTL(expiresAt)は UNIX時間の秒で、24時間後
+     */
+    test('正常系：冪等キーはTTL付きで保存される', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const records = mockIdempotencyTable();
+        const now = Math.floor(Date.now() / 1000);
+
+        // Act
+        await lambdaHandler(createIdempotentEvent('key-1', { name: '商品' }));
+
+        // Assert
+        const record = records.get(storedKey('key-1'))!;
+        expect(record.status).toBe('COMPLETED');
+        expect(record.response.statusCode).toBe(201);
+        expect(record.expiresAt).toBeGreaterThanOrEqual(now + 24 * 60 * 60);
+        expect(record.expiresAt).toBeLessThanOrEqual(now + 24 * 60 * 60 + 5);
+    });
+
+    /**
+     * 異常系テスト：キーの使い回し
+     */
+    test('異常系：同じキー・違うボディの場合422エラー', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        mockIdempotencyTable();
+        await lambdaHandler(createIdempotentEvent('key-1', { name: '商品A' }));
+
+        // Act
+        const result = await lambdaHandler(createIdempotentEvent('key-1', { name: '商品B' }));
+
+        // Assert
+        expect(result.statusCode).toBe(422);
+        expect(JSON.parse(result.body).detail).toBe('Idempotency-Key has already been used with a different request');
+        expect(getItemWrites()).toHaveLength(1);
+    });
+
+    /**
+     * 同時実行テスト：同じキーのリクエストが同時に届く
+     * 
+     * 学習ポイント：
+     * - 条件付き書き込みにより、処理されるのは1つだけ
+     * - 他のリクエストは409(処理中)か、保存したレスポンスの再送になる
+     */
+    test('同時実行：同じキーの同時リクエストでもアイテムは1つだけ作成される', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        mockIdempotencyTable();
+        const event = createIdempotentEvent('key-1', { name: '商品' });
+
+        // Act
+        const results = await Promise.all(Array.from({ length: 5 }, () => lambdaHandler(event)));
+
+        // Assert
+        expect(getItemWrites()).toHaveLength(1);
+        const created = results.filter((result) => result.statusCode === 201);
+        const inProgress = results.filter((result) => result.statusCode === 409);
+        expect(created.length + inProgress.length).toBe(5);
+        expect(new Set(created.map((result) => JSON.parse(result.body).id)).size).toBe(1);
+        for (const result of inProgress) {
+            expect(JSON.parse(result.body).detail).toBe('A request with the same Idempotency-Key is in progress');
+        }
+
+        // 処理が終わった後の再送は、最初のレスポンスを返す
+        const retried = await lambdaHandler(event);
+        expect(retried.statusCode).toBe(201);
+        expect(retried.headers?.['Idempotent-Replayed']).toBe('true');
+    });
+
+    /**
+     * 同時実行テスト：違うキーは独立して処理される
+     */
+    test('同時実行：違うキーの同時リクエストはそれぞれ作成される', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        mockIdempotencyTable();
+
+        // Act
+        const results = await Promise.all(
+            ['key-1', 'key-2', 'key-3'].map((key) => lambdaHandler(createIdempotentEvent(key, { name: '商品' })))
+        );
+
+        // Assert
+        expect(results.map((result) => result.statusCode)).toEqual([201, 201, 201]);
+        expect(getItemWrites()).toHaveLength(3);
+    });
+
+    /**
+     * 正常系テスト：失敗したリクエストの再送
+     * 
+     * 学習ポイント：
+     * - 5xxエラーは保存しないため、同じキーで再送すると処理が実行される
+     * - 1回目のリクエストでは、再試行(3回)もすべて失敗させる
+     */
+    test('正常系：503エラーの後、同じキーで再送すると作成される', async () => {
+        // Arrange
+        const records = mockIdempotencyTable();
+        ddbMock
+            .on(TransactWriteCommand)
+            .rejectsOnce({ name: 'ServiceUnavailable' })
+            .rejectsOnce({ name: 'ServiceUnavailable' })
+            .rejectsOnce({ name: 'ServiceUnavailable' })
+            .resolves({});
+        const event = createIdempotentEvent('key-1', { name: '商品' });
+
+        // Act
+        const first = await lambdaHandler(event);
+        const second = await lambdaHandler(event);
+
+        // Assert
+        expect(first.statusCode).toBe(503);
+        expect(second.statusCode).toBe(201);
+        expect(second.headers?.['Idempotent-Replayed']).toBeUndefined();
+        expect(records.get(storedKey('key-1'))?.status).toBe('COMPLETED');
+    });
+
+    /**
+     * 正常系テスト：クライアントエラーも保存する
+     */
+    test('正常系：400エラーも保存され、再送で同じレスポンスを返す', async () => {
+        // Arrange
+        mockIdempotencyTable();
+        const event = createIdempotentEvent('key-1', { price: 100 });
+
+        // Act
+        const first = await lambdaHandler(event);
+        const second = await lambdaHandler(event);
+
+        // Assert
+        expect(first.statusCode).toBe(400);
+        expect(second.statusCode).toBe(400);
+        expect(second.headers?.['Idempotent-Replayed']).toBe('true');
+    });
+
+    /**
+     * 異常系テスト：不正なキー
+     */
+    test.each([
+        ['空白のみ', '   '],
+        ['長すぎる', 'k'.repeat(256)],
+    ])('異常系：キーが%sの場合400エラー', async (_label, key) => {
+        // Arrange
+        const event = createIdempotentEvent(key, { name: '商品' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('Idempotency-Key must be 1 to 255 characters');
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：冪等キーのテーブルが利用できない
+     */
+    test('異常系：冪等キーのテーブルが利用できない場合503エラー', async () => {
+        // Arrange
+        ddbMock.on(PutCommand, { TableName: IDEMPOTENCY_TABLE }).rejects({ name: 'ResourceNotFoundException' });
+        const event = createIdempotentEvent('key-1', { name: '商品' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+        expect(getItemWrites()).toHaveLength(0);
+    });
+
+    /**
+     * セキュリティテスト：ユーザーごとの冪等キー
+     * 
+     * 学習ポイント：
+     * - キーはユーザーごとに区別され、他のユーザーのレスポンスが返されることはない
+     */
+    test('セキュリティ：別のユーザーが同じキーを使っても再送とはみなされない', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const records = mockIdempotencyTable();
+        const eventOf = (sub: string): APIGatewayProxyEvent => ({
+            ...createIdempotentEvent('key-1', { name: '商品' }),
+            requestContext: { authorizer: { claims: { sub } } } as any,
+        });
+
+        // Act
+        const first = await lambdaHandler(eventOf('alice'));
+        const second = await lambdaHandler(eventOf('bob'));
+
+        // Assert
+        expect(first.statusCode).toBe(201);
+        expect(second.statusCode).toBe(201);
+        expect(second.headers?.['Idempotent-Replayed']).toBeUndefined();
+        expect(JSON.parse(second.body).id).not.toBe(JSON.parse(first.body).id);
+        expect(records.has(storedKey('key-1', 'alice'))).toBe(true);
+        expect(records.has(storedKey('key-1', 'bob'))).toBe(true);
+    });
+});
+
+// ========================================
+// POST /items:batch, POST /items:batchGet のテスト
+// ========================================
+describe('POST /items:batch, POST /items:batchGet - 一括処理', () => {
+    /**
+     * 一括処理用のイベントを作成
+     */
+    function createBatchEvent(resource: '/items:batch' | '/items:batchGet', body: unknown): APIGatewayProxyEvent {
+        return { ...createMockEvent('POST', JSON.stringify(body)), resource, path: resource };
+    }
+
+    /**
+     * コマンドの入力からテーブル名を取り出す
+     * 
+     * 学習ポイント：
+     * - RequestItems はテーブル名をキーにしたオブジェクト
+     */
+    function tableOf(input: { RequestItems?: Record<string, unknown> }): string {
+        return Object.keys(input.RequestItems!)[0];
+    }
+
+    /**
+     * 正常系テスト：一括作成
+     * 
+     * 学習ポイント：
+     * - 無効なアイテムがあっても、有効なアイテムは作成される(部分的な成功)
+     * - 結果はリクエストと同じ順番で返される
+     */
+    test('正常系：有効なアイテムは作成され、無効なアイテムはinvalidになる', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).resolves({ Responses: {} });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createBatchEvent('/items:batch', {
+            items: [{ name: '商品A', price: 100 }, { name: '' }, 'not an object', { id: 'item-1', name: '商品B' }],
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.summary).toEqual({ created: 2, invalid: 2, failed: 0 });
+        expect(body.results[0]).toMatchObject({ index: 0, status: 'created', item: { name: '商品A', version: 1 } });
+        expect(body.results[1]).toEqual({
+            index: 1,
+            status: 'invalid',
+            errors: [{ pointer: '/name', message: 'must be at least 1 characters' }],
+        });
+        expect(body.results[2]).toEqual({
+            index: 2,
+            status: 'invalid',
+            errors: [{ pointer: '', message: 'must be a JSON object' }],
+        });
+        expect(body.results[3]).toMatchObject({ index: 3, status: 'created', id: 'item-1' });
+
+        // 有効な2件だけが、履歴と一緒に1回の TransactWriteCommand で書き込まれる
+        const writeCalls = ddbMock.commandCalls(TransactWriteCommand);
+        expect(writeCalls).toHaveLength(1);
+        const puts = writeCalls[0].args[0].input.TransactItems!.map((write) => write.Put!);
+        expect(puts.filter((put) => put.TableName === 'TenantItems').map((put) => put.Item!.name)).toEqual(['商品A', '商品B']);
+        expect(puts.filter((put) => put.TableName === 'TenantItemsHistory').map((put) => put.Item!.operation)).toEqual([
+            'create',
+            'create',
+        ]);
+    });
+
+    /**
+     * 正常系テスト：25件ずつの分割
+     * 
+     * 学習ポイント：
+     * - 25件ずつのトランザクション(アイテム + 履歴で50操作)に分割して書き込む
+     */
+    test('正常系：26件以上は25件ずつに分割して書き込まれる', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).resolves({ Responses: {} });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const items = Array.from({ length: 30 }, (_, i) => ({ name: `商品${i}` }));
+        const event = createBatchEvent('/items:batch', { items });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(JSON.parse(result.body).summary).toEqual({ created: 30, invalid: 0, failed: 0 });
+        const sizes = ddbMock
+            .commandCalls(TransactWriteCommand)
+            .map((call) => call.args[0].input.TransactItems!.length);
+        expect(sizes).toEqual([50, 10]);
+    });
+
+    /**
+     * 正常系テスト：トランザクションの再試行
+     * 
+     * 学習ポイント：
+     * - スロットリングで失敗したトランザクションは、同じ内容で再送する
+     */
+    test('正常系：スロットリングで失敗したトランザクションは再試行される', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).resolves({ Responses: {} });
+        ddbMock
+            .on(TransactWriteCommand)
+            .rejectsOnce(createTransactionCanceledError('ThrottlingError'))
+            .resolves({});
+        const event = createBatchEvent('/items:batch', { items: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        const body = JSON.parse(result.body);
+        expect(body.summary).toEqual({ created: 2, invalid: 0, failed: 0 });
+        const writeCalls = ddbMock.commandCalls(TransactWriteCommand);
+        expect(writeCalls).toHaveLength(2);
+        expect(writeCalls[1].args[0].input).toEqual(writeCalls[0].args[0].input);
+    });
+
+    /**
+     * 異常系テスト：再試行しても処理されない
+     */
+    test('異常系：再試行の上限を超えたアイテムはfailedになる', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).resolves({ Responses: {} });
+        ddbMock.on(TransactWriteCommand).rejects(createTransactionCanceledError('ThrottlingError'));
+        const event = createBatchEvent('/items:batch', { items: [{ id: 'a', name: 'A' }] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).results).toEqual([
+            { index: 0, status: 'failed', id: 'a', error: 'Database service unavailable' },
+        ]);
+        // 最初の1回 + 再試行3回
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(4);
+    });
+
+    /**
+     * 異常系テスト：既存のIDと重複するID
+     * 
+     * 学習ポイント：
+     * - POST /items と同じく、既存のアイテムは上書きしない
+     * - リクエスト内で同じIDが2回あるとトランザクション全体が失敗するため invalid にする
+     */
+    test('異常系：既存のIDはfailed、リクエスト内で重複したIDはinvalidになる', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).callsFake((input) => ({
+            Responses: { [tableOf(input)]: [{ id: 'existing', name: '既存', version: 1 }] },
+        }));
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createBatchEvent('/items:batch', {
+            items: [
+                { id: 'existing', name: 'A' },
+                { id: 'new', name: 'B' },
+                { id: 'new', name: 'C' },
+            ],
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        const body = JSON.parse(result.body);
+        expect(body.results[0]).toEqual({ index: 0, status: 'failed', id: 'existing', error: 'Item already exists' });
+        expect(body.results[1]).toMatchObject({ index: 1, status: 'created', id: 'new' });
+        expect(body.results[2]).toEqual({
+            index: 2,
+            status: 'invalid',
+            errors: [{ pointer: '/id', message: 'must be unique within the batch' }],
+        });
+        expect(getItemWrites()).toHaveLength(1);
+        expect(getItemWrites()[0].Item.id).toBe('new');
+    });
+
+    /**
+     * 正常系テスト：期限切れのアイテムと同じID
+     *
+     * 学習ポイント：
+     * - POST /items と同じく、期限切れのアイテムは存在しないものとして置き換える
+     * - 置き換えたアイテムは前のアイテムの続きのバージョンになり、バージョンを条件にして書き込む
+     */
+    test('正常系：期限切れのアイテムと同じIDは、続きのバージョンで置き換えられる', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).callsFake((input) => ({
+            Responses: { [tableOf(input)]: [{ id: 'expired', name: '期限切れ', version: 2, expiresAt: 1 }] },
+        }));
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createBatchEvent('/items:batch', { items: [{ id: 'expired', name: '再作成' }] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        const body = JSON.parse(result.body);
+        expect(body.results[0]).toMatchObject({ index: 0, status: 'created', id: 'expired', item: { version: 3 } });
+        const [put, historyPut] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+        expect(put.Put).toMatchObject({
+            ConditionExpression: 'version = :expectedVersion',
+            ExpressionAttributeValues: { ':expectedVersion': 2 },
+        });
+        expect(historyPut.Put!.Item).toMatchObject({ version: 3, operation: 'update' });
+    });
+
+    /**
+     * 異常系テスト：変更履歴の問い合わせの失敗
+     *
+     * 学習ポイント：
+     * - 指定したIDのバージョンを決めるための Query が失敗しても、リクエスト全体は503にしない
+     * - 問い合わせに失敗したアイテムだけが failed になり、残りのアイテムは作成される
+     */
+    test('異常系：変更履歴の問い合わせに失敗したアイテムだけがfailedになる', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).resolves({ Responses: {} });
+        ddbMock.on(QueryCommand, { TableName: 'TenantItemsHistory' }).callsFake((input) => {
+            if (input.ExpressionAttributeValues[':tenantItemId'] === 'default#broken') {
+                throw Object.assign(new Error('Table not found'), { name: 'ResourceNotFoundException' });
+            }
+            return { Items: [] };
+        });
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createBatchEvent('/items:batch', {
+            items: [
+                { id: 'a', name: 'A' },
+                { id: 'broken', name: 'B' },
+                { id: 'c', name: 'C' },
+            ],
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.summary).toEqual({ created: 2, invalid: 0, failed: 1 });
+        expect(body.results[1]).toEqual({
+            index: 1,
+            status: 'failed',
+            id: 'broken',
+            error: 'Database service unavailable',
+        });
+        const [writeCall] = ddbMock.commandCalls(TransactWriteCommand);
+        const puts = writeCall.args[0].input.TransactItems!.map((write) => write.Put!);
+        expect(puts.filter((put) => put.TableName === 'TenantItems').map((put) => put.Item!.id)).toEqual(['a', 'c']);
+    });
+
+    /**
+     * 異常系テスト：確認から書き込みまでの間の競合
+     * 
+     * 学習ポイント：
+     * - BatchGetCommand で確認した後に他のリクエストが同じIDを作成すると、トランザクション全体が取り消される
+     * - CancellationReasons から競合したアイテムを見つけ、そのアイテムだけを failed にして残りを書き直す
+     */
+    test('異常系：書き込みの直前に作成されたIDだけがfailedになり、同じチャンクの残りは作成される', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).resolves({ Responses: {} });
+        ddbMock
+            .on(TransactWriteCommand)
+            .rejectsOnce(
+                Object.assign(new Error('Transaction cancelled'), {
+                    name: 'TransactionCanceledException',
+                    CancellationReasons: [
+                        { Code: 'None' },
+                        { Code: 'None' },
+                        { Code: 'ConditionalCheckFailed' },
+                        { Code: 'None' },
+                        { Code: 'None' },
+                        { Code: 'None' },
+                    ],
+                })
+            )
+            .resolves({});
+        const event = createBatchEvent('/items:batch', {
+            items: [
+                { id: 'a', name: 'A' },
+                { id: 'raced', name: 'B' },
+                { id: 'c', name: 'C' },
+            ],
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        const body = JSON.parse(result.body);
+        expect(body.summary).toEqual({ created: 2, invalid: 0, failed: 1 });
+        expect(body.results[0]).toMatchObject({ index: 0, status: 'created', id: 'a' });
+        expect(body.results[1]).toEqual({ index: 1, status: 'failed', id: 'raced', error: 'Item already exists' });
+        expect(body.results[2]).toMatchObject({ index: 2, status: 'created', id: 'c' });
+        const writeCalls = ddbMock.commandCalls(TransactWriteCommand);
+        expect(writeCalls).toHaveLength(2);
+        const rewritten = writeCalls[1].args[0].input.TransactItems!.map((write) => write.Put!);
+        expect(rewritten.filter((put) => put.TableName === 'TenantItems').map((put) => put.Item!.id)).toEqual(['a', 'c']);
+    });
+
+    /**
+     * 異常系テスト：POST /items と同じバリデーション
+     */
+    test('異常系：サーバー管理のフィールドや空白のみのIDはinvalidになる', async () => {
+        // Arrange
+        const event = createBatchEvent('/items:batch', {
+            items: [
+                { name: 'A', version: 10 },
+                { id: '   ', name: 'B' },
+            ],
+        });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        const body = JSON.parse(result.body);
+        expect(body.results.map((r: any) => r.errors)).toEqual([
+            [{ pointer: '/version', message: 'is managed by the server and cannot be set' }],
+            [{ pointer: '/id', message: 'must be a non-empty string' }],
+        ]);
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：リクエスト全体が不正
+     */
+    test.each([
+        ['itemsがない', { data: [{ name: 'A' }] }],
+        ['itemsが配列でない', { items: { name: 'A' } }],
+        ['itemsが空', { items: [] }],
+        ['itemsが多すぎる', { items: Array.from({ length: 101 }, () => ({ name: 'A' })) }],
+    ])('異常系：%sの場合400エラー', async (_label, requestBody) => {
+        // Arrange
+        const event = createBatchEvent('/items:batch', requestBody);
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('items must be an array of 1 to 100 items');
+    });
+
+    /**
+     * 異常系テスト：DynamoDBの障害
+     */
+    test('異常系：DynamoDBが利用できない場合503エラー', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).rejects({ name: 'ResourceNotFoundException' });
+        const event = createBatchEvent('/items:batch', { items: [{ name: 'A' }] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+    });
+
+    /**
+     * 正常系テスト：一括取得
+     * 
+     * 学習ポイント：
+     * - 結果はリクエストしたIDの順番で返される(DynamoDBの返す順番は不定)
+     * - 重複したIDは1回だけ取得する
+     */
+    test('正常系：一括取得はIDの順番で結果が返される', async () => {
+        // Arrange
+        ddbMock.on(BatchGetCommand).callsFake((input) => ({
+            Responses: {
+                [tableOf(input)]: [
+                    { id: 'deleted', name: '削除済み', deletedAt: '2025-10-21T10:00:00.000Z' },
+                    { id: 'b', name: 'B' },
+                    { id: 'a', name: 'A' },
+                ],
+            },
+        }));
+        const event = createBatchEvent('/items:batchGet', { ids: ['a', 'missing', 'b', 'deleted', 'a'] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).results).toEqual([
+            { id: 'a', status: 'found', item: { id: 'a', name: 'A' } },
+            { id: 'missing', status: 'notFound' },
+            { id: 'b', status: 'found', item: { id: 'b', name: 'B' } },
+            { id: 'deleted', status: 'deleted' },
+            { id: 'a', status: 'found', item: { id: 'a', name: 'A' } },
+        ]);
+        const keys = Object.values(ddbMock.commandCalls(BatchGetCommand)[0].args[0].input.RequestItems!)[0].Keys;
+        expect(keys).toEqual(['a', 'missing', 'b', 'deleted'].map((id) => ({ tenantId: 'default', id })));
+    });
+
+    /**
+     * 正常系テスト：UnprocessedKeys の再試行
+     */
+    test('正常系：UnprocessedKeysは再試行される', async () => {
+        // Arrange
+        ddbMock
+            .on(BatchGetCommand)
+            .callsFakeOnce((input) => ({
+                Responses: { [tableOf(input)]: [{ id: 'a', name: 'A' }] },
+                UnprocessedKeys: { [tableOf(input)]: { Keys: [{ id: 'b' }] } },
+            }))
+            .callsFake((input) => ({ Responses: { [tableOf(input)]: [{ id: 'b', name: 'B' }] } }));
+        const event = createBatchEvent('/items:batchGet', { ids: ['a', 'b'] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        const results = JSON.parse(result.body).results;
+        expect(results.map((r: any) => r.status)).toEqual(['found', 'found']);
+        expect(ddbMock.commandCalls(BatchGetCommand)).toHaveLength(2);
+    });
+
+    /**
+     * 異常系テスト：不正なID
+     */
+    test('異常系：不正なIDが含まれる場合400エラー', async () => {
+        // Arrange
+        const event = createBatchEvent('/items:batchGet', { ids: ['a', '', 123, 'x'.repeat(256)] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).errors).toEqual([
+            { pointer: '/ids/1', message: 'must be a non-empty string' },
+            { pointer: '/ids/2', message: 'must be a non-empty string' },
+            { pointer: '/ids/3', message: 'must be at most 255 characters' },
+        ]);
+        expect(ddbMock.commandCalls(BatchGetCommand)).toHaveLength(0);
+    });
+
+    /**
+     * 異常系テスト：idsが不正
+     */
+    test('異常系：idsが空の場合400エラー', async () => {
+        // Arrange
+        const event = createBatchEvent('/items:batchGet', { ids: [] });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).detail).toBe('ids must be an array of 1 to 100 ids');
+    });
+});
+
+// ========================================
+// ルーティング(404と405)のテスト
+// ========================================
+describe('ルーティング', () => {
+    /**
+     * 異常系テスト：HEADメソッド
+     * 
+     * 学習ポイント：
+     * - 405 Method Not Allowed の使用
+     * - Allow ヘッダーでそのパスに使えるメソッドを知らせる
+     */
+    test('異常系：HEADメソッドは405エラー', async () => {
+        // Arrange
+        const event = createMockEvent('HEAD', undefined, { id: 'item-1' });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(405);
+        const body = JSON.parse(result.body);
+        expect(body.detail).toBe('Method not allowed');
+        expect(body.code).toBe('METHOD_NOT_ALLOWED');
+        expect(result.headers?.Allow).toBe('GET, PUT, PATCH, DELETE, OPTIONS');
+    });
+
+    /**
+     * 異常系テスト：TRACEメソッド
+     */
+    test('異常系：TRACEメソッドは405エラー', async () => {
+        // Arrange
+        const event = createMockEvent('TRACE');
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(405);
+        expect(result.headers?.Allow).toBe('POST, GET, OPTIONS');
+    });
+
+    /**
+     * 異常系テスト：パスごとの Allow ヘッダー
+     * 
+     * 学習ポイント：
+     * - 同じメソッドでも、パスによって使える場合と使えない場合がある
+     */
+    test.each([
+        ['DELETE', '/items', 'POST, GET, OPTIONS'],
+        ['GET', '/items:batch', 'POST, OPTIONS'],
+        ['GET', '/items/item-1/restore', 'POST, OPTIONS'],
+        ['PUT', '/api-keys', 'POST, GET, OPTIONS'],
+        ['GET', '/api-keys/key-1', 'DELETE, OPTIONS'],
+    ])('異常系：%s %s は405エラー(Allow: %s)', async (method, path, allow) => {
+        // Arrange
+        const event = { ...createMockEvent(method), path };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(405);
+        expect(result.headers?.Allow).toBe(allow);
+    });
+
+    /**
+     * 異常系テスト：存在しないパス
+     * 
+     * 学習ポイント：
+     * - 以前はメソッドだけで振り分けていたため、どのパスへの GET も getItem に届いていた
+     * - 存在しないパスはデータベースにアクセスせずに404エラーにする
+     */
+    test.each([
+        ['GET', '/unknown'],
+        ['GET', '/items/item-1/versions'],
+        ['GET', '/items/a/b'],
+        ['GET', '/items/%E0%A4%A'],
+    ])('異常系：%s %s は404エラー', async (method, path) => {
+        // Arrange
+        const event = { ...createMockEvent(method), path };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+        expect(JSON.parse(result.body).detail).toBe('Not found');
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 正常系テスト：パスパラメータ
+     * 
+     * 学習ポイント：
+     * - パスパラメータはパスから取り出してURLデコードする
+     */
+    test('正常系：パスから取り出したIDをデコードして使う', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: { id: 'a b', name: 'test' } });
+        const event = { ...createMockEvent('GET'), path: '/items/a%20b' };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(ddbMock.commandCalls(GetCommand)[0].args[0].input.Key).toEqual({ tenantId: 'default', id: 'a b' });
+    });
+});
+
+// ========================================
+// GET /openapi.json のテスト
+// ========================================
+describe('GET /openapi.json - 仕様書', () => {
+    /**
+     * 正常系テスト：認証なしで取得
+     * 
+     * 学習ポイント：
+     * - 仕様書は public なルートなので、トークンがなくても返す
+     */
+    test('正常系：認証なしで OpenAPI の仕様書を取得できる', async () => {
+        // Arrange
+        const event = { ...createMockEvent('GET'), path: '/openapi.json', requestContext: {} as any };
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const document = JSON.parse(result.body);
+        expect(document.openapi).toBe('3.1.0');
+        expect(Object.keys(document.paths)).toEqual(
+            expect.arrayContaining(['/items', '/items/{id}', '/items:batch', '/api-keys', '/openapi.json'])
+        );
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    /**
+     * 正常系テスト：エラーレスポンスの形式
+     * 
+     * 学習ポイント：
+     * - createErrorResponse が返すボディが、仕様書の Error スキーマと一致することを確認する
+     */
+    test('正常系：エラーレスポンスは仕様書の Error スキーマに一致する', async () => {
+        // Arrange
+        const spec = JSON.parse(
+            (await lambdaHandler({ ...createMockEvent('GET'), path: '/openapi.json' })).body
+        );
+        const errorSchema = spec.components.schemas.Error;
+
+        // Act
+        const result = await lambdaHandler({ ...createMockEvent('GET'), path: '/unknown' });
+
+        // Assert
+        const body = JSON.parse(result.body);
+        expect(Object.keys(body)).toEqual(expect.arrayContaining(errorSchema.required));
+        expect(Object.keys(errorSchema.properties)).toEqual(expect.arrayContaining(Object.keys(body)));
+        expect(body.status).toBe(result.statusCode);
+    });
+});
+
+// ========================================
+// エラーレスポンスの形式のテスト
+// ========================================
+describe('エラーレスポンスの形式 - RFC 7807', () => {
+    /**
+     * 存在しないアイテムを取得するイベントを作成
+     */
+    function createNotFoundEvent(headers: Record<string, string> = {}): APIGatewayProxyEvent {
+        const event = createMockEvent('GET', undefined, { id: 'missing' });
+        return {
+            ...event,
+            headers,
+            requestContext: { ...event.requestContext, requestId: 'api-request-id' },
+        };
+    }
+
+    /**
+     * 正常系テスト：problem+json
+     * 
+     * 学習ポイント：
+     * - type / title / status / detail / instance と、機械が判定するための code を返す
+     * - instance には API Gateway のリクエストIDが入るので、問い合わせのときにログを探せる
+     */
+    test('正常系：エラーは application/problem+json で返す', async () => {
+        // Arrange
+        const handler = createLambdaHandler(createInMemoryItemRepository());
+
+        // Act
+        const result = await handler(createNotFoundEvent());
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+        expect(result.headers?.['Content-Type']).toBe('application/problem+json');
+        expect(JSON.parse(result.body)).toEqual({
+            type: 'urn:items-api:problem:item-not-found',
+            title: 'Item not found',
+            status: 404,
+            detail: 'Item not found',
+            instance: 'api-request-id',
+            code: 'ITEM_NOT_FOUND',
+        });
+    });
+
+    test('正常系：API Gateway のリクエストIDがない場合は Lambda のリクエストIDを instance にする', async () => {
+        // Arrange
+        const handler = createLambdaHandler(createInMemoryItemRepository());
+        const event = { ...createMockEvent('GET'), path: '/unknown', requestContext: {} as any };
+
+        // Act
+        const result = await handler(event, { awsRequestId: 'lambda-request-id' } as any);
+
+        // Assert
+        expect(JSON.parse(result.body)).toMatchObject({ code: 'ROUTE_NOT_FOUND', instance: 'lambda-request-id' });
+    });
+
+    test('正常系：成功したレスポンスの形式は変わらない', async () => {
+        const handler = createLambdaHandler(createInMemoryItemRepository([{ id: 'item-1', name: '商品', version: 1 }]));
+        const result = await handler(createMockEvent('GET', undefined, { id: 'item-1' }));
+        expect(result.headers?.['Content-Type']).toBe('application/json');
+        expect(JSON.parse(result.body)).not.toHaveProperty('instance');
+    });
+
+    /**
+     * 正常系テスト：レガシー形式
+     * 
+     * 学習ポイント：
+     * - 移行中のクライアントは Accept ヘッダーで以前の { error, statusCode, timestamp } 形式を要求できる
+     * - レガシー形式にも code が付くので、code での判定に少しずつ移行できる
+     */
+    test('正常系：Accept ヘッダーでレガシー形式を要求できる', async () => {
+        // Arrange
+        const handler = createLambdaHandler(createInMemoryItemRepository());
+        const event = createNotFoundEvent({ Accept: 'application/vnd.items-api.legacy-error+json' });
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+        expect(result.headers?.['Content-Type']).toBe('application/json');
+        expect(JSON.parse(result.body)).toEqual({
+            error: 'Item not found',
+            statusCode: 404,
+            timestamp: expect.any(String),
+            code: 'ITEM_NOT_FOUND',
+        });
+    });
+
+    test('正常系：設定でレガシー形式を既定にでき、Accept で problem+json を要求できる', async () => {
+        // Arrange
+        const handler = createLambdaHandler(createInMemoryItemRepository(), undefined, undefined, 'legacy');
+
+        // Act
+        const legacy = await handler(createNotFoundEvent({ Accept: 'application/json' }));
+        const problem = await handler(createNotFoundEvent({ accept: 'application/problem+json, application/json' }));
+
+        // Assert
+        expect(JSON.parse(legacy.body)).toMatchObject({ error: 'Item not found', code: 'ITEM_NOT_FOUND' });
+        expect(problem.headers?.['Content-Type']).toBe('application/problem+json');
+        expect(JSON.parse(problem.body)).toMatchObject({ detail: 'Item not found', code: 'ITEM_NOT_FOUND' });
+    });
+
+    test('正常系：レガシー形式でもバリデーションエラーの違反の一覧を返す', async () => {
+        // Arrange
+        const handler = createLambdaHandler(createInMemoryItemRepository(), undefined, undefined, 'legacy');
+        const event = createMockEvent('POST', JSON.stringify({ id: 'item-1', name: '', price: -1 }));
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        const body = JSON.parse(result.body);
+        expect(body).toMatchObject({ error: 'Validation failed', statusCode: 400, code: 'VALIDATION_FAILED' });
+        expect(body.errors.length).toBeGreaterThan(0);
+        expect(body).not.toHaveProperty('type');
+    });
+});
+
+// ========================================
+// DynamoDBのエラーの分類と再試行のテスト
+// ========================================
+describe('DynamoDBのエラーの分類と再試行', () => {
+    const existingItem = { id: 'item-1', name: '商品', price: 1000, createdAt: '2025-10-21T10:00:00.000Z', version: 1 };
+
+    /**
+     * 再試行の待ち時間を短くしたハンドラーを作成
+     */
+    function createHandler(maxAttempts: number): ReturnType<typeof createLambdaHandler> {
+        return createLambdaHandler(createItemRepository('dynamodb'), undefined, undefined, undefined, {
+            maxAttempts,
+            baseDelayMs: 1,
+            maxDelayMs: 1,
+            minRemainingTimeMs: 500,
+        });
+    }
+
+    /**
+     * 正常系テスト：一時的なエラーの再試行
+     * 
+     * 学習ポイント：
+     * - 一時的な障害は、少し待って再試行すれば成功することが多い
+     */
+    test('正常系：一時的なエラーは再試行して成功する', async () => {
+        // Arrange
+        ddbMock
+            .on(GetCommand)
+            .rejectsOnce({ name: 'ServiceUnavailable' })
+            .rejectsOnce({ name: 'ThrottlingException' })
+            .resolves({ Item: existingItem });
+
+        // Act
+        const result = await createHandler(3)(createMockEvent('GET', undefined, { id: 'item-1' }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(ddbMock.commandCalls(GetCommand)).toHaveLength(3);
+        expect(getLogEntries().filter((entry) => entry.message === 'Retrying DynamoDB request')).toHaveLength(2);
+    });
+
+    /**
+     * 異常系テスト：エラーの分類
+     * 
+     * 学習ポイント：
+     * - SDKのエラーメッセージ(テーブル名などを含む)はクライアントに返さない
+     */
+    test.each([
+        ['ValidationException', 'One or more parameter values were invalid', 400, 'DB_REJECTED_REQUEST', undefined],
+        ['ValidationException', 'Item size has exceeded the maximum allowed size', 413, 'ITEM_TOO_LARGE', undefined],
+        ['ThrottlingException', 'Rate of requests exceeds the allowed throughput', 429, 'DB_THROTTLED', '1'],
+        ['RequestLimitExceeded', 'Throughput exceeds the current throughput limit', 429, 'DB_THROTTLED', '1'],
+        ['InternalServerError', 'Internal server error', 503, 'DB_UNAVAILABLE', '1'],
+        ['ResourceNotFoundException', 'Requested resource not found: Table: Items', 503, 'DB_UNAVAILABLE', undefined],
+        ['TimeoutError', 'Connection timed out after 1000 ms', 504, 'DB_TIMEOUT', undefined],
+    ])('異常系：%s(%s)は%iエラー', async (name, message, statusCode, code, retryAfter) => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: existingItem });
+        ddbMock.on(TransactWriteCommand).rejects(Object.assign(new Error(message), { name }));
+        const event = createMockEvent('PUT', JSON.stringify({ name: '商品', price: 1 }), { id: 'item-1' });
+
+        // Act
+        const result = await createHandler(1)(event);
+
+        // Assert
+        expect(result.statusCode).toBe(statusCode);
+        expect(result.headers?.['Retry-After']).toBe(retryAfter);
+        const body = JSON.parse(result.body);
+        expect(body.code).toBe(code);
+        expect(body.detail).not.toContain(message);
+    });
+
+    test('異常系：一時的でないエラーは再試行しない', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).rejects({ name: 'ResourceNotFoundException' });
+
+        // Act
+        const result = await createHandler(3)(createMockEvent('GET', undefined, { id: 'item-1' }));
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+        expect(ddbMock.commandCalls(GetCommand)).toHaveLength(1);
+    });
+
+    /**
+     * 異常系テスト：Lambdaの残り時間
+     * 
+     * 学習ポイント：
+     * - 再試行している間にLambdaがタイムアウトすると、クライアントには何も返せない
+     * - 残り時間が足りなければ再試行をあきらめ、エラーを返す
+     */
+    test('異常系：Lambdaの残り時間が足りない場合は再試行しない', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).rejects({ name: 'ServiceUnavailable' });
+        const context = { awsRequestId: 'lambda-request-id', getRemainingTimeInMillis: () => 300 } as any;
+
+        // Act
+        const result = await createHandler(3)(createMockEvent('GET', undefined, { id: 'item-1' }), context);
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+        expect(ddbMock.commandCalls(GetCommand)).toHaveLength(1);
+        expect(getLogEntries().some((entry) => entry.message === 'Not enough time left to retry')).toBe(true);
+    });
+});
+
+// ========================================
+// エッジケースのテスト
+// ========================================
+describe('エッジケースとセキュリティ', () => {
+    /**
+     * セキュリティテスト：特殊文字を含むID
+     * 
+     * 学習ポイント：
+     * - 入力のサニタイゼーション
+     * - インジェクション攻撃の防御
+     */
+    test('セキュリティ：特殊文字を含むIDでも正常に動作', async () => {
+        // Arrange
+        const specialId = 'test-id-<script>alert("xss")</script>';
+        
+        ddbMock.on(GetCommand).resolves({
+            Item: { id: specialId, name: 'test' },
+        });
+
+        const event = createMockEvent('GET', undefined, { id: specialId });
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.id).toBe(specialId);
+    });
+
+    /**
+     * パフォーマンステスト：大きなJSONボディ
+     * 
+     * 学習ポイント：
+     * - 大きなデータの処理
+     * - メモリ使用量の考慮
+     */
+    test('エッジケース：大きなJSONボディでも処理できる', async () => {
+        // Arrange
+        const largeObject = {
+            name: 'テスト',
+            description: 'a'.repeat(1000), // 1000文字の説明
+            tags: Array(100).fill('tag'), // 100個のタグ
+        };
+
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const event = createMockEvent('POST', JSON.stringify(largeObject));
+
+        // Act
+        const result = await lambdaHandler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+    });
+});
+
+// ========================================
+// 構造化ログのテスト
+// ========================================
+describe('構造化ログ', () => {
+    /**
+     * 正常系テスト：アクセスログ
+     * 
+     * 学習ポイント：
+     * - 1リクエストにつき1行、リクエストIDやレイテンシを含むログが出力される
+     * - Lambdaの context と API Gateway の requestContext の両方のIDが付与される
+     */
+    test('正常系：リクエスト完了時にアクセスログが出力される', async () => {
+        // Arrange
+        ddbMock.on(GetCommand).resolves({ Item: { id: 'item-1', name: '商品', version: 1 } });
+        const event = {
+            ...createMockEvent('GET', undefined, { id: 'item-1' }),
+            requestContext: { ...createMockEvent('GET').requestContext, requestId: 'api-request-id' },
+        };
+        const context = { awsRequestId: 'lambda-request-id' } as any;
+
+        // Act
+        await lambdaHandler(event, context);
+
+        // Assert
+        const accessLog = getLogEntries().find((entry) => entry.message === 'Request completed');
+        expect(accessLog).toEqual({
+            timestamp: expect.any(String),
+            level: 'info',
+            message: 'Request completed',
+            awsRequestId: 'lambda-request-id',
+            requestId: 'api-request-id',
+            route: 'GET /items/{id}',
+            tenantId: 'default',
+            method: 'GET',
+            path: '/items/item-1',
+            statusCode: 200,
+            latencyMs: expect.any(Number),
+        });
+
+        // 同じリクエストの他のログにもIDが付与される
+        const itemLog = getLogEntries().find((entry) => entry.message === 'Item retrieved');
+        expect(itemLog?.awsRequestId).toBe('lambda-request-id');
+        expect(itemLog?.itemId).toBe('item-1');
+    });
+
+    /**
+     * セキュリティテスト：リクエストボディをそのまま出力しない
+     * 
+     * 学習ポイント：
+     * - デフォルトの LOG_LEVEL(info)ではボディ自体を出力しない
+     * - 出力されたとしても、個人情報のフィールドはマスキングされる
+     */
+    test('セキュリティ：リクエストボディの個人情報はログに出力されない', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+        const requestBody = { name: '商品', email: 'user@example.com' };
+        const event = createMockEvent('POST', JSON.stringify(requestBody));
+
+        // Act
+        await lambdaHandler(event);
+
+        // Assert
+        const output = stdoutSpy.mock.calls.map(([line]) => String(line)).join('');
+        expect(output).not.toContain('user@example.com');
+    });
+});
+
+
+// ========================================
+// リポジトリの差し替えのテスト
+// ========================================
+describe('リポジトリの差し替え', () => {
+    /**
+     * 正常系テスト：インメモリリポジトリ
+     * 
+     * 学習ポイント：
+     * - createLambdaHandler にリポジトリを渡すと、DynamoDBのモックなしでハンドラーをテストできる
+     */
+    test('正常系：インメモリリポジトリで作成・取得・一覧取得ができる', async () => {
+        // Arrange
+        const handler = createLambdaHandler(createInMemoryItemRepository());
+
+        // Act
+        const created = await handler(createMockEvent('POST', JSON.stringify({ name: '商品', price: 100 })));
+        const id = JSON.parse(created.body).id;
+        const retrieved = await handler(createMockEvent('GET', null, { id }));
+        const listed = await handler(createMockEvent('GET'));
+
+        // Assert
+        expect(created.statusCode).toBe(201);
+        expect(retrieved.statusCode).toBe(200);
+        expect(JSON.parse(retrieved.body)).toMatchObject({ id, name: '商品', price: 100, version: 1 });
+        expect(JSON.parse(listed.body)).toMatchObject({ count: 1, nextCursor: null });
+        expect(ddbMock.calls()).toHaveLength(0);
+    });
+
+    test('正常系：更新の競合はインメモリリポジトリでも412になる', async () => {
+        // Arrange
+        const handler = createLambdaHandler(createInMemoryItemRepository([{ id: 'item-1', name: '商品', version: 2 }]));
+        const event = {
+            ...createMockEvent('PUT', JSON.stringify({ name: '更新' }), { id: 'item-1' }),
+            headers: { 'If-Match': '"1"' },
+        };
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(412);
+    });
+
+    test('異常系：不明な ITEM_STORAGE は例外になる', () => {
+        // Act & Assert
+        expect(() => createItemRepository('redis')).toThrow("Invalid ITEM_STORAGE: redis (expected 'dynamodb' or 'memory')");
+    });
+});
+
+// ========================================
+// 変更履歴のテスト
+// ========================================
+describe('変更履歴 - GET /items/{id}/history と ?asOf', () => {
+    const v1 = {
+        id: 'item-1',
+        name: '商品',
+        price: 100,
+        createdAt: '2025-10-01T00:00:00.000Z',
+        ownerId: 'test-user',
+        version: 1,
+    };
+    const v2 = { ...v1, price: 120, updatedAt: '2025-10-02T00:00:00.000Z', version: 2 };
+    const v3 = { ...v2, deletedAt: '2025-10-03T00:00:00.000Z', version: 3 };
+
+    let repository: ReturnType<typeof createInMemoryItemRepository>;
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    /**
+     * 作成 → 更新 → 論理削除 の履歴を持つリポジトリを用意する
+     * 
+     * 学習ポイント：
+     * - リポジトリに直接書き込むと、履歴の日時を固定できる
+     */
+    beforeEach(async () => {
+        repository = createInMemoryItemRepository();
+        await repository.put(v1, undefined, { actor: 'test-user', timestamp: v1.createdAt });
+        await repository.put(v2, v1, { actor: 'test-user', timestamp: v2.updatedAt });
+        await repository.put(v3, v2, { actor: 'admin', timestamp: v3.deletedAt });
+        handler = createLambdaHandler(repository);
+    });
+
+    /**
+     * 履歴取得用のイベントを作成
+     */
+    function createHistoryEvent(id: string, query: Record<string, string> | null = null): APIGatewayProxyEvent {
+        return {
+            ...createMockEvent('GET', null, { id }),
+            path: `/items/${encodeURIComponent(id)}/history`,
+            resource: '/items/{id}/history',
+            queryStringParameters: query,
+        };
+    }
+
+    /**
+     * ?asOf 付きの取得用のイベントを作成
+     */
+    function createAsOfEvent(id: string, asOf: string): APIGatewayProxyEvent {
+        return { ...createMockEvent('GET', null, { id }), queryStringParameters: { asOf } };
+    }
+
+    /**
+     * 正常系テスト：変更履歴の取得
+     * 
+     * 学習ポイント：
+     * - デフォルトは新しい順
+     * - 論理削除されたアイテムの履歴も取得できる
+     */
+    test('正常系：新しい順に変更履歴を返す', async () => {
+        // Act
+        const result = await handler(createHistoryEvent('item-1'));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body).toMatchObject({ count: 3, nextCursor: null });
+        expect(body.entries.map((entry: any) => [entry.version, entry.operation, entry.changedBy])).toEqual([
+            [3, 'delete', 'admin'],
+            [2, 'update', 'test-user'],
+            [1, 'create', 'test-user'],
+        ]);
+        expect(body.entries[1].changes).toEqual([
+            { op: 'replace', path: '/price', value: 120 },
+            { op: 'add', path: '/updatedAt', value: v2.updatedAt },
+            { op: 'replace', path: '/version', value: 2 },
+        ]);
+    });
+
+    /**
+     * 正常系テスト：ハンドラーからの書き込み
+     * 
+     * 学習ポイント：
+     * - 変更したユーザーは認証されたユーザー(sub)、日時はアイテムの updatedAt と同じ
+     */
+    test('正常系：PATCHで更新すると、誰が・いつ・何を変更したかが記録される', async () => {
+        // Arrange
+        await handler(createMockEvent('POST', JSON.stringify({ id: 'item-2', name: '新商品', price: 500 })));
+
+        // Act
+        const patched = await handler(createMockEvent('PATCH', JSON.stringify({ price: 450 }), { id: 'item-2' }));
+        const result = await handler(createHistoryEvent('item-2'));
+
+        // Assert
+        const [latest, created] = JSON.parse(result.body).entries;
+        expect(created).toMatchObject({ version: 1, operation: 'create', changedBy: 'test-user' });
+        expect(latest).toMatchObject({
+            version: 2,
+            operation: 'update',
+            changedBy: 'test-user',
+            changedAt: JSON.parse(patched.body).updatedAt,
+        });
+        expect(latest.changes).toContainEqual({ op: 'replace', path: '/price', value: 450 });
+    });
+
+    test('正常系：limit と cursor でページをたどれる', async () => {
+        // Act
+        const first = JSON.parse((await handler(createHistoryEvent('item-1', { limit: '2', order: 'oldest' }))).body);
+        const second = JSON.parse(
+            (await handler(createHistoryEvent('item-1', { limit: '2', order: 'oldest', cursor: first.nextCursor }))).body
+        );
+
+        // Assert
+        expect(first.entries.map((entry: any) => entry.version)).toEqual([1, 2]);
+        expect(first.nextCursor).toEqual(expect.any(String));
+        expect(second.entries.map((entry: any) => entry.version)).toEqual([3]);
+        expect(second.nextCursor).toBeNull();
+    });
+
+    /**
+     * 正常系テスト：物理削除後の履歴
+     * 
+     * 学習ポイント：
+     * - アイテムが消えても、履歴は監査のために残る
+     */
+    test('正常系：物理削除した後も変更履歴を取得できる', async () => {
+        // Arrange
+        await handler({
+            ...createMockEvent('DELETE', null, { id: 'item-1' }),
+            queryStringParameters: { hard: 'true' },
+        });
+
+        // Act
+        const result = await handler(createHistoryEvent('item-1'));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).entries[0]).toMatchObject({ version: 4, operation: 'delete' });
+    });
+
+    /**
+     * 正常系テスト：物理削除したIDでの作り直し
+     * 
+     * 学習ポイント：
+     * - 前のアイテムの履歴が残っているので、version は最後の履歴エントリーの続きから始まる
+     *   (1 から始めると、履歴のキー (itemId, version) が重なって作成できなくなる)
+     */
+    test('正常系：物理削除したIDで作り直すと履歴の続きのバージョンになる', async () => {
+        // Arrange
+        await repository.delete('item-1', v3, { actor: 'admin', timestamp: '2025-10-04T00:00:00.000Z' });
+
+        // Act
+        const result = await handler(createMockEvent('POST', JSON.stringify({ id: 'item-1', name: '作り直した商品' })));
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body).version).toBe(5);
+        const history = JSON.parse((await handler(createHistoryEvent('item-1'))).body);
+        expect(history.entries.map((entry: any) => entry.operation)).toEqual([
+            'create',
+            'delete',
+            'delete',
+            'update',
+            'create',
+        ]);
+    });
+
+    test('正常系：物理削除したIDを一括作成で作り直せる', async () => {
+        // Arrange
+        await repository.delete('item-1', v3, { actor: 'admin', timestamp: '2025-10-04T00:00:00.000Z' });
+        const event = {
+            ...createMockEvent('POST', JSON.stringify({ items: [{ id: 'item-1', name: '作り直した商品' }] })),
+            resource: '/items:batch',
+            path: '/items:batch',
+        };
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(JSON.parse(result.body).results[0]).toMatchObject({ status: 'created', item: { version: 5 } });
+    });
+
+    /**
+     * セキュリティテスト：作り直したアイテムの履歴
+     * 
+     * 学習ポイント：
+     * - 同じIDの履歴には前のアイテムのエントリーも残っているため、エントリーごとに所有者を確認する
+     */
+    test('セキュリティ：物理削除したIDを別のユーザーが作り直しても前の所有者の履歴は見えない', async () => {
+        // Arrange
+        await repository.delete('item-1', v3, { actor: 'admin', timestamp: '2025-10-04T00:00:00.000Z' });
+        const asOtherUser = (event: APIGatewayProxyEvent): APIGatewayProxyEvent => ({
+            ...event,
+            requestContext: { authorizer: { claims: { sub: 'other-user', scope: 'items:write' } } } as any,
+        });
+        await handler(asOtherUser(createMockEvent('POST', JSON.stringify({ id: 'item-1', name: '別の商品' }))));
+
+        // Act
+        const result = await handler(asOtherUser(createHistoryEvent('item-1')));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.entries).toEqual([expect.objectContaining({ version: 5, operation: 'create', ownerId: 'other-user' })]);
+        expect(body.count).toBe(1);
+    });
+
+    test.each([
+        ['不正な limit', { limit: '0' }, 'INVALID_QUERY_PARAMETER'],
+        ['不正な order', { order: 'random' }, 'INVALID_QUERY_PARAMETER'],
+        ['不正なカーソル', { cursor: 'not-a-cursor' }, 'INVALID_CURSOR'],
+        ['知らないパラメータ', { sort: 'version' }, 'UNKNOWN_QUERY_PARAMETER'],
+    ])('異常系：%sは400エラー', async (_label, query, code) => {
+        // Act
+        const result = await handler(createHistoryEvent('item-1', query));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).code).toBe(code);
+    });
+
+    test('異常系：存在しないアイテムの履歴は404エラー', async () => {
+        // Act
+        const result = await handler(createHistoryEvent('missing'));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    /**
+     * セキュリティテスト：他のユーザーの履歴
+     * 
+     * 学習ポイント：
+     * - 物理削除された後も、履歴に残した所有者で判定する
+     */
+    test('セキュリティ：他のユーザーのアイテムの履歴は物理削除の前後とも404エラー', async () => {
+        // Arrange
+        const asOtherUser = (event: APIGatewayProxyEvent): APIGatewayProxyEvent => ({
+            ...event,
+            requestContext: { authorizer: { claims: { sub: 'other-user', scope: 'items:read' } } } as any,
+        });
+
+        // Act
+        const before = await handler(asOtherUser(createHistoryEvent('item-1')));
+        await repository.delete('item-1', v3);
+        const after = await handler(asOtherUser(createHistoryEvent('item-1')));
+
+        // Assert
+        expect(before.statusCode).toBe(404);
+        expect(after.statusCode).toBe(404);
+    });
+
+    /**
+     * 正常系テスト：過去の時点のアイテム
+     * 
+     * 学習ポイント：
+     * - asOf 以前の履歴を古い順に適用して復元する
+     * - ちょうど変更した日時を指定すると、変更後のアイテムになる
+     */
+    test.each([
+        ['作成後', '2025-10-01T12:00:00Z', v1],
+        ['更新した日時ちょうど', '2025-10-02T00:00:00.000Z', v2],
+        ['タイムゾーン付き', '2025-10-02T18:00:00+09:00', v2],
+    ])('正常系：asOf(%s)の時点のアイテムを返す', async (_label, asOf, expected) => {
+        // Act
+        const result = await handler(createAsOfEvent('item-1', asOf));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body)).toEqual(expected);
+        expect(result.headers?.ETag).toBe(`"${expected.version}"`);
+    });
+
+    test('異常系：asOf が論理削除した後の時点なら410エラー', async () => {
+        // Act
+        const result = await handler(createAsOfEvent('item-1', '2025-10-05T00:00:00Z'));
+
+        // Assert
+        expect(result.statusCode).toBe(410);
+    });
+
+    test('異常系：asOf が作成する前の時点なら404エラー', async () => {
+        // Act
+        const result = await handler(createAsOfEvent('item-1', '2025-09-30T00:00:00Z'));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    test('異常系：asOf が日時でない場合400エラー', async () => {
+        // Act
+        const result = await handler(createAsOfEvent('item-1', 'yesterday'));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body)).toMatchObject({
+            code: 'INVALID_QUERY_PARAMETER',
+            detail: 'asOf must be an ISO 8601 date-time',
+        });
+    });
+});
+
+// ========================================
+// 有効期限(TTL)のテスト
+// ========================================
+describe('有効期限(TTL) - expiresAt / ttlSeconds', () => {
+    const nowSeconds = () => Math.floor(Date.now() / 1000);
+    const expired = {
+        id: 'expired-item',
+        name: '期限切れ',
+        createdAt: '2025-10-01T00:00:00.000Z',
+        ownerId: 'test-user',
+        version: 1,
+        expiresAt: 1000000000,
+    };
+
+    let repository: ReturnType<typeof createInMemoryItemRepository>;
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    /**
+     * 期限切れでまだ削除されていないアイテムを持つリポジトリを用意する
+     * 
+     * 学習ポイント：
+     * - DynamoDB の TTL による削除は遅れるため、期限切れのアイテムがテーブルに残っている状態を再現する
+     */
+    beforeEach(async () => {
+        repository = createInMemoryItemRepository();
+        await repository.put(expired, undefined, { actor: 'test-user', timestamp: expired.createdAt });
+        handler = createLambdaHandler(repository);
+    });
+
+    /**
+     * 正常系テスト：ttlSeconds で作成
+     * 
+     * 学習ポイント：
+     * - ttlSeconds は保存されず、expiresAt(UNIX時間の秒)に変換される
+     */
+    test('正常系：ttlSecondsはexpiresAtに変換して保存される', async () => {
+        // Arrange
+        const before = nowSeconds();
+        const event = createMockEvent('POST', JSON.stringify({ name: '仮予約', ttlSeconds: 3600 }));
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        const body = JSON.parse(result.body);
+        expect(body.ttlSeconds).toBeUndefined();
+        expect(body.expiresAt).toBeGreaterThanOrEqual(before + 3600);
+        expect(body.expiresAt).toBeLessThanOrEqual(nowSeconds() + 3600);
+        expect((await repository.get(body.id))?.expiresAt).toBe(body.expiresAt);
+    });
+
+    test('正常系：ISO 8601 の expiresAt はUNIX時間の秒に変換される', async () => {
+        // Arrange
+        const expiresAt = new Date((nowSeconds() + 600) * 1000).toISOString();
+        const event = createMockEvent('POST', JSON.stringify({ name: '下書き', expiresAt }));
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body).expiresAt).toBe(Date.parse(expiresAt) / 1000);
+    });
+
+    /**
+     * 異常系テスト：有効期限の検証
+     */
+    test.each([
+        ['両方を指定', { expiresAt: 4102444800, ttlSeconds: 60 }, ''],
+        ['ttlSeconds が0', { ttlSeconds: 0 }, '/ttlSeconds'],
+        ['ttlSeconds が小数', { ttlSeconds: 1.5 }, '/ttlSeconds'],
+        ['ttlSeconds が上限を超える', { ttlSeconds: 366 * 24 * 60 * 60 }, '/ttlSeconds'],
+        ['expiresAt が過去', { expiresAt: 1000000000 }, '/expiresAt'],
+        ['expiresAt が日時ではない', { expiresAt: 'tomorrow' }, '/expiresAt'],
+        ['expiresAt が遠すぎる', { expiresAt: '2999-01-01T00:00:00Z' }, '/expiresAt'],
+    ])('異常系：%sの場合は400エラー', async (_label, expiry, pointer) => {
+        // Arrange
+        const event = createMockEvent('POST', JSON.stringify({ name: '商品', ...expiry }));
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).errors).toEqual([{ pointer, message: expect.any(String) }]);
+    });
+
+    /**
+     * 正常系テスト：期限切れのアイテムは存在しないものとして扱う
+     * 
+     * 学習ポイント：
+     * - テーブルに残っていても、取得・一覧・一括取得・更新では見つからない
+     */
+    test('正常系：期限切れのアイテムの取得は404エラー', async () => {
+        // Act
+        const result = await handler(createMockEvent('GET', null, { id: 'expired-item' }));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    test('正常系：期限切れのアイテムは一覧と一括取得に含まれない', async () => {
+        // Arrange
+        await handler(createMockEvent('POST', JSON.stringify({ id: 'live-item', name: '有効', ttlSeconds: 60 })));
+        const batchGet = {
+            ...createMockEvent('POST', JSON.stringify({ ids: ['expired-item', 'live-item'] })),
+            resource: '/items:batchGet',
+            path: '/items:batchGet',
+        };
+
+        // Act
+        const listResult = await handler(createMockEvent('GET'));
+        const batchResult = await handler(batchGet);
+
+        // Assert
+        expect(JSON.parse(listResult.body).items.map((item: any) => item.id)).toEqual(['live-item']);
+        expect(JSON.parse(batchResult.body).results.map((result: any) => result.status)).toEqual([
+            'notFound',
+            'found',
+        ]);
+    });
+
+    test('正常系：期限切れのアイテムの更新・削除は404エラー', async () => {
+        // Act
+        const results = await Promise.all([
+            handler(createMockEvent('PUT', JSON.stringify({ name: '更新' }), { id: 'expired-item' })),
+            handler(createMockEvent('PATCH', JSON.stringify({ name: '更新' }), { id: 'expired-item' })),
+            handler(createMockEvent('DELETE', null, { id: 'expired-item' })),
+        ]);
+
+        // Assert
+        expect(results.map((result) => result.statusCode)).toEqual([404, 404, 404]);
+    });
+
+    /**
+     * 正常系テスト：期限切れのIDでの作成
+     * 
+     * 学習ポイント：
+     * - 期限切れのアイテムは置き換えて作成できる(履歴が続くようにバージョンは引き継ぐ)
+     */
+    test('正常系：期限切れのアイテムと同じIDで作成できる', async () => {
+        // Arrange
+        const event = createMockEvent('POST', JSON.stringify({ id: 'expired-item', name: '新しい商品' }));
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        const stored = await repository.get('expired-item');
+        expect(stored).toMatchObject({ name: '新しい商品', version: 2 });
+        expect(stored?.expiresAt).toBeUndefined();
+    });
+
+    /**
+     * 正常系テスト：PATCH での有効期限の変更
+     * 
+     * 学習ポイント：
+     * - expiresAt: null で有効期限をなくせる(Merge Patch の削除)
+     */
+    test('正常系：PATCHでexpiresAtをnullにすると有効期限がなくなる', async () => {
+        // Arrange
+        await handler(createMockEvent('POST', JSON.stringify({ id: 'temp', name: '一時', ttlSeconds: 60 })));
+
+        // Act
+        const result = await handler(createMockEvent('PATCH', JSON.stringify({ expiresAt: null }), { id: 'temp' }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).expiresAt).toBeUndefined();
+    });
+
+    test('正常系：PATCHでttlSecondsを指定すると有効期限を延長できる', async () => {
+        // Arrange
+        await handler(createMockEvent('POST', JSON.stringify({ id: 'temp', name: '一時', ttlSeconds: 60 })));
+
+        // Act
+        const result = await handler(createMockEvent('PATCH', JSON.stringify({ ttlSeconds: 7200 }), { id: 'temp' }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.expiresAt).toBeGreaterThanOrEqual(nowSeconds() + 7199);
+        expect(body.ttlSeconds).toBeUndefined();
+    });
+});
+
+// ========================================
+// 認証と所有者のテスト
+// ========================================
+describe('認証と所有者', () => {
+    const SECRET = 'test-secret';
+
+    /**
+     * HS256で署名したトークンを作成
+     */
+    function createToken(sub: string, scope?: string): string {
+        const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const payload = { sub, scope, exp: Math.floor(Date.now() / 1000) + 60 };
+        const signingInput = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+        const signature = createHmac('sha256', SECRET).update(signingInput).digest('base64url');
+        return `${signingInput}.${signature}`;
+    }
+
+    /**
+     * Authorization ヘッダー付きのイベントを作成
+     * 
+     * 学習ポイント：
+     * - オーソライザーのクレーム(requestContext.authorizer)がない場合は、ヘッダーのトークンを検証する
+     */
+    function createAuthEvent(
+        token: string | null,
+        method: string,
+        body?: unknown,
+        id?: string,
+        path?: string
+    ): APIGatewayProxyEvent {
+        const event = createMockEvent(method, body === undefined ? null : JSON.stringify(body), id ? { id } : null);
+        return {
+            ...event,
+            headers: token ? { Authorization: `Bearer ${token}` } : {},
+            requestContext: {} as any,
+            path: path ?? event.path,
+        };
+    }
+
+    const alice = createToken('alice');
+    const bob = createToken('bob');
+    const admin = createToken('admin', 'items:read items:admin');
+
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    beforeEach(() => {
+        handler = createLambdaHandler(
+            createInMemoryItemRepository([
+                { id: 'alice-item', name: 'アリスの商品', price: 100, version: 1, ownerId: 'alice' },
+                { id: 'bob-item', name: 'ボブの商品', price: 200, version: 1, ownerId: 'bob' },
+            ]),
+            createAuthenticator({ mode: 'jwt', secret: SECRET, adminScope: 'items:admin' })
+        );
+    });
+
+    /**
+     * 異常系テスト：トークンがない
+     * 
+     * 学習ポイント：
+     * - 401 には WWW-Authenticate ヘッダーで認証方法を示す
+     */
+    test('異常系：トークンがない場合401エラー', async () => {
+        // Act
+        const result = await handler(createAuthEvent(null, 'GET'));
+
+        // Assert
+        expect(result.statusCode).toBe(401);
+        expect(result.headers?.['WWW-Authenticate']).toMatch(/^Bearer/);
+    });
+
+    test('異常系：署名が不正なトークンは401エラー', async () => {
+        // Arrange
+        const tampered = `${alice.slice(0, -2)}xx`;
+
+        // Act
+        const result = await handler(createAuthEvent(tampered, 'GET'));
+
+        // Assert
+        expect(result.statusCode).toBe(401);
+    });
+
+    /**
+     * 正常系テスト：所有者の記録
+     * 
+     * 学習ポイント：
+     * - 作成したユーザー(トークンの sub)が ownerId として保存される
+     */
+    test('正常系：作成したアイテムの ownerId はトークンの sub', async () => {
+        // Act
+        const result = await handler(createAuthEvent(alice, 'POST', { name: '新商品' }));
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body).ownerId).toBe('alice');
+    });
+
+    test('異常系：ボディで ownerId を指定すると400エラー', async () => {
+        // Act
+        const result = await handler(createAuthEvent(alice, 'POST', { name: '新商品', ownerId: 'bob' }));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+    });
+
+    /**
+     * セキュリティテスト：他のユーザーのアイテム
+     * 
+     * 学習ポイント：
+     * - 403 ではなく 404 を返し、アイテムが存在することも知らせない
+     */
+    test.each([
+        ['GET', undefined],
+        ['PUT', { name: '乗っ取り' }],
+        ['PATCH', { price: 1 }],
+        ['DELETE', undefined],
+    ])('セキュリティ：他のユーザーのアイテムへの %s は404エラー', async (method, body) => {
+        // Act
+        const result = await handler(createAuthEvent(bob, method, body, 'alice-item'));
+        const retrieved = await handler(createAuthEvent(alice, 'GET', undefined, 'alice-item'));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+        expect(JSON.parse(retrieved.body)).toMatchObject({ name: 'アリスの商品', price: 100, version: 1 });
+    });
+
+    test('セキュリティ：他のユーザーのアイテムは復元できない', async () => {
+        // Arrange
+        await handler(createAuthEvent(alice, 'DELETE', undefined, 'alice-item'));
+
+        // Act
+        const result = await handler(
+            createAuthEvent(bob, 'POST', undefined, 'alice-item', '/items/alice-item/restore')
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    test('セキュリティ：他のユーザーのIDを指定した作成は409エラー', async () => {
+        // Act
+        const result = await handler(createAuthEvent(bob, 'POST', { id: 'alice-item', name: '乗っ取り' }));
+
+        // Assert
+        expect(result.statusCode).toBe(409);
+    });
+
+    /**
+     * 正常系テスト：一覧取得
+     * 
+     * 学習ポイント：
+     * - 一般ユーザーには自分のアイテムだけ、管理者にはすべてのアイテムを返す
+     */
+    test('正常系：一覧は自分のアイテムだけ、管理者はすべて', async () => {
+        // Act
+        const own = await handler(createAuthEvent(alice, 'GET'));
+        const all = await handler(createAuthEvent(admin, 'GET'));
+
+        // Assert
+        expect(JSON.parse(own.body).items.map((item: any) => item.id)).toEqual(['alice-item']);
+        expect(JSON.parse(all.body).count).toBe(2);
+    });
+
+    test('セキュリティ：一括取得では他のユーザーのアイテムは notFound', async () => {
+        // Act
+        const result = await handler(
+            createAuthEvent(alice, 'POST', { ids: ['alice-item', 'bob-item'] }, undefined, '/items:batchGet')
+        );
+
+        // Assert
+        expect(JSON.parse(result.body).results).toEqual([
+            expect.objectContaining({ id: 'alice-item', status: 'found' }),
+            { id: 'bob-item', status: 'notFound' },
+        ]);
+    });
+
+    /**
+     * 正常系テスト：管理者
+     * 
+     * 学習ポイント：
+     * - 管理者が更新しても ownerId は元の所有者のまま
+     */
+    test('正常系：管理者は他のユーザーのアイテムを更新でき、ownerId は変わらない', async () => {
+        // Act
+        const result = await handler(createAuthEvent(admin, 'PUT', { name: '管理者が更新' }, 'bob-item'));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body)).toMatchObject({ name: '管理者が更新', ownerId: 'bob' });
+    });
+
+    test('異常系：不明な AUTH_MODE は例外になる', () => {
+        // Act & Assert
+        expect(() => createRequestAuthenticator('basic')).toThrow(
+            "Invalid AUTH_MODE: basic (expected 'jwt' or 'none')"
+        );
+    });
+});
+
+// ========================================
+// マルチテナントのテスト
+// ========================================
+describe('マルチテナント - /tenants/{tenantId}/items と X-Tenant-Id', () => {
+    const acme = { sub: 'test-user', tenant_id: 'acme' };
+
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    /**
+     * テナントを指定したイベントを作成
+     * 
+     * 学習ポイント：
+     * - claims はオーソライザーが検証したトークンのクレーム(tenant_id がトークンのテナント)
+     */
+    function createTenantEvent(
+        method: string,
+        path: string,
+        options: { body?: unknown; headers?: Record<string, string>; claims?: Record<string, unknown> } = {}
+    ): APIGatewayProxyEvent {
+        return {
+            ...createMockEvent(method, options.body === undefined ? null : JSON.stringify(options.body)),
+            path,
+            headers: options.headers ?? {},
+            requestContext: { authorizer: { claims: options.claims ?? { sub: 'test-user' } } } as any,
+        };
+    }
+
+    beforeEach(() => {
+        handler = createLambdaHandler(
+            createInMemoryItemRepository([{ id: 'item-1', name: 'デフォルトの商品', version: 1, ownerId: 'test-user' }]),
+            createAuthenticator({ mode: 'jwt', adminScope: 'items:admin' })
+        );
+    });
+
+    /**
+     * 正常系テスト：テナントのパス
+     * 
+     * 学習ポイント：
+     * - /tenants/acme/items... は /items... と同じ処理で、対象のテナントだけが変わる
+     * - 同じIDのアイテムでも、テナントが違えば別のアイテム
+     */
+    test('正常系：パスで指定したテナントのアイテムを作成・取得できる', async () => {
+        // Act
+        const created = await handler(
+            createTenantEvent('POST', '/tenants/acme/items', { body: { id: 'item-1', name: 'acmeの商品' }, claims: acme })
+        );
+        const acmeItem = await handler(createTenantEvent('GET', '/tenants/acme/items/item-1', { claims: acme }));
+        const defaultItem = await handler(createTenantEvent('GET', '/items/item-1'));
+
+        // Assert
+        expect(created.statusCode).toBe(201);
+        expect(JSON.parse(acmeItem.body)).toMatchObject({ id: 'item-1', name: 'acmeの商品' });
+        expect(JSON.parse(acmeItem.body).tenantId).toBeUndefined();
+        expect(JSON.parse(defaultItem.body).name).toBe('デフォルトの商品');
+    });
+
+    test('正常系：X-Tenant-Id ヘッダーで指定したテナントの一覧', async () => {
+        // Arrange
+        await handler(createTenantEvent('POST', '/tenants/acme/items', { body: { name: 'acmeの商品' }, claims: acme }));
+
+        // Act
+        const result = await handler(
+            createTenantEvent('GET', '/items', { headers: { 'x-tenant-id': 'acme' }, claims: acme })
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).items.map((item: any) => item.name)).toEqual(['acmeの商品']);
+    });
+
+    test('正常系：何も指定しなければトークンのテナント', async () => {
+        // Arrange
+        await handler(
+            createTenantEvent('POST', '/tenants/acme/items', { body: { id: 'acme-item', name: '商品' }, claims: acme })
+        );
+
+        // Act
+        const result = await handler(createTenantEvent('GET', '/items/acme-item', { claims: acme }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+    });
+
+    test.each([
+        ['不正なテナントID', '/tenants/acme%23x/items', {}, 'INVALID_TENANT_ID'],
+        ['パスとヘッダーで違うテナント', '/tenants/acme/items', { 'X-Tenant-Id': 'other' }, 'TENANT_MISMATCH'],
+    ])('異常系：%sの場合400エラー', async (_label, path, headers, code) => {
+        // Act
+        const result = await handler(createTenantEvent('GET', path, { headers }));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).code).toBe(code);
+    });
+
+    /**
+     * セキュリティテスト：他のテナントへのアクセス
+     * 
+     * 学習ポイント：
+     * - トークンのテナントと違うテナントは、パスでもヘッダーでも指定できない(403)
+     * - 管理者のスコープがあっても、他のテナントは指定できない
+     */
+    test('セキュリティ：トークンのテナントと違うテナントは管理者でも403エラー', async () => {
+        // Act
+        const byPath = await handler(createTenantEvent('DELETE', '/tenants/default/items/item-1', { claims: acme }));
+        const byHeader = await handler(
+            createTenantEvent('GET', '/items/item-1', { claims: acme, headers: { 'X-Tenant-Id': 'default' } })
+        );
+        const asAdmin = await handler(
+            createTenantEvent('GET', '/tenants/default/items/item-1', {
+                claims: { ...acme, scope: 'items:admin' },
+            })
+        );
+
+        // Assert
+        expect(byPath.statusCode).toBe(403);
+        expect(JSON.parse(byPath.body).code).toBe('TENANT_FORBIDDEN');
+        expect(byHeader.statusCode).toBe(403);
+        expect(asAdmin.statusCode).toBe(403);
+    });
+
+    /**
+     * セキュリティテスト：トークンにテナントがないユーザー
+     * 
+     * 学習ポイント：
+     * - テナントのクレームがなければデフォルトのテナントのユーザーで、他のテナントは指定できない
+     */
+    test('セキュリティ：テナントのないトークンはデフォルト以外のテナントを指定すると403エラー', async () => {
+        // Act
+        const byPath = await handler(createTenantEvent('POST', '/tenants/acme/items', { body: { name: '商品' } }));
+        const byHeader = await handler(createTenantEvent('GET', '/items', { headers: { 'X-Tenant-Id': 'acme' } }));
+        const asAdmin = await handler(
+            createTenantEvent('GET', '/tenants/acme/items', { claims: { sub: 'admin', scope: 'items:admin' } })
+        );
+        const ownTenant = await handler(createTenantEvent('GET', '/tenants/default/items/item-1'));
+
+        // Assert
+        expect([byPath, byHeader, asAdmin].map((result) => result.statusCode)).toEqual([403, 403, 403]);
+        expect(ownTenant.statusCode).toBe(200);
+    });
+
+    test('異常系：テナントのパスでは /items 以外のルートは404エラー', async () => {
+        // Act
+        const result = await handler(createTenantEvent('GET', '/tenants/acme/api-keys'));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+});
+
+// ========================================
+// APIキーとレート制限のテスト
+// ========================================
+describe('APIキーとレート制限', () => {
+    const API_KEY_TABLE = 'ItemsApiKeys';
+
+    /**
+     * APIキーのテーブルをメモリ上で再現する
+     * 
+     * 学習ポイント：
+     * - トークンの消費(条件付き更新)と失効(revokedAt の記録)を UpdateExpression で区別する
+     */
+    function mockApiKeyTable(): Map<string, Record<string, any>> {
+        const records = new Map<string, Record<string, any>>();
+        ddbMock.on(PutCommand, { TableName: API_KEY_TABLE }).callsFake((input) => {
+            records.set(input.Item.keyId, { ...input.Item });
+            return {};
+        });
+        ddbMock.on(GetCommand, { TableName: API_KEY_TABLE }).callsFake((input) => ({
+            Item: records.get(input.Key.keyId),
+        }));
+        ddbMock.on(ScanCommand, { TableName: API_KEY_TABLE }).callsFake((input) => ({
+            Items: scanRecords(records, input),
+        }));
+        ddbMock.on(QueryCommand, { TableName: API_KEY_TABLE }).callsFake((input) => ({
+            Items: queryByTenant(records, input),
+        }));
+        ddbMock.on(UpdateCommand, { TableName: API_KEY_TABLE }).callsFake((input) => {
+            const record = records.get(input.Key.keyId);
+            const values = input.ExpressionAttributeValues;
+            if (
+                !record ||
+                (values[':previous'] !== undefined && record.tokensUpdatedAt !== values[':previous']) ||
+                (values[':tenantId'] !== undefined && (record.tenantId ?? 'default') !== values[':tenantId'])
+            ) {
+                const error = new Error('The conditional request failed');
+                error.name = 'ConditionalCheckFailedException';
+                throw error;
+            }
+            if (input.UpdateExpression.includes('revokedAt')) {
+                record.revokedAt = record.revokedAt ?? values[':now'];
+            } else {
+                record.tokens = values[':tokens'];
+                record.tokensUpdatedAt = values[':now'];
+            }
+            return { Attributes: { ...record } };
+        });
+        return records;
+    }
+
+    /**
+     * APIキーの管理用のイベントを作成(デフォルトは管理者)
+     */
+    function createApiKeysEvent(
+        method: string,
+        body?: unknown,
+        keyId?: string,
+        claims: Record<string, string> = { sub: 'admin', scope: 'items:admin' }
+    ): APIGatewayProxyEvent {
+        return {
+            ...createMockEvent(method, body === undefined ? null : JSON.stringify(body), keyId ? { keyId } : null),
+            resource: keyId ? '/api-keys/{keyId}' : '/api-keys',
+            path: keyId ? `/api-keys/${keyId}` : '/api-keys',
+            requestContext: { authorizer: { claims } } as any,
+        };
+    }
+
+    /**
+     * X-Api-Key ヘッダー付きのイベントを作成
+     */
+    function withApiKeyHeader(event: APIGatewayProxyEvent, apiKey: string): APIGatewayProxyEvent {
+        return { ...event, headers: { ...event.headers, 'X-Api-Key': apiKey }, requestContext: {} as any };
+    }
+
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    beforeEach(() => {
+        handler = createLambdaHandler(createInMemoryItemRepository());
+    });
+
+    /**
+     * APIキーを発行する
+     */
+    async function issueApiKey(body: Record<string, unknown> = { name: 'partner' }): Promise<Record<string, any>> {
+        const result = await handler(createApiKeysEvent('POST', body));
+        return JSON.parse(result.body);
+    }
+
+    /**
+     * 正常系テスト：発行とAPIキーでのリクエスト
+     * 
+     * 学習ポイント：
+     * - APIキーで作成したアイテムの ownerId は、キーの ownerId になる
+     * - レスポンスには X-RateLimit-* ヘッダーが付く
+     */
+    test('正常系：発行したAPIキーでアイテムを作成できる', async () => {
+        // Arrange
+        const records = mockApiKeyTable();
+        const issued = await issueApiKey({ name: 'partner', rateLimit: { capacity: 5, refillPerSecond: 1 } });
+
+        // Act
+        const result = await handler(
+            withApiKeyHeader(createMockEvent('POST', JSON.stringify({ name: '商品' })), issued.apiKey)
+        );
+
+        // Assert
+        expect(issued).toMatchObject({ name: 'partner', ownerId: `apikey:${issued.keyId}`, tenantId: 'default' });
+        expect(records.get(issued.keyId)!.keyHash).not.toBe(issued.apiKey);
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body).ownerId).toBe(`apikey:${issued.keyId}`);
+        expect(result.headers).toMatchObject({
+            'X-RateLimit-Limit': '5',
+            'X-RateLimit-Remaining': '4',
+        });
+    });
+
+    /**
+     * 異常系テスト：レート制限
+     * 
+     * 学習ポイント：
+     * - バケットの容量を使い切ると429エラーになり、Retry-After で待つ秒数を伝える
+     */
+    test('異常系：容量を超えたリクエストは429エラー', async () => {
+        // Arrange
+        mockApiKeyTable();
+        const issued = await issueApiKey({ name: 'partner', rateLimit: { capacity: 2, refillPerSecond: 0.5 } });
+        const event = withApiKeyHeader(createMockEvent('GET'), issued.apiKey);
+
+        // Act
+        const results = [];
+        for (let i = 0; i < 3; i++) {
+            results.push(await handler(event));
+        }
+
+        // Assert
+        expect(results.map((result) => result.statusCode)).toEqual([200, 200, 429]);
+        expect(JSON.parse(results[2].body).detail).toBe('Rate limit exceeded');
+        expect(results[2].headers).toMatchObject({
+            'Retry-After': '2',
+            'X-RateLimit-Limit': '2',
+            'X-RateLimit-Remaining': '0',
+        });
+    });
+
+    test('異常系：不正なAPIキーは401エラー', async () => {
+        // Arrange
+        mockApiKeyTable();
+
+        // Act
+        const result = await handler(withApiKeyHeader(createMockEvent('GET'), 'ik_invalid'));
+
+        // Assert
+        expect(result.statusCode).toBe(401);
+        expect(JSON.parse(result.body).detail).toBe('Invalid API key');
+        expect(JSON.parse(result.body).code).toBe('INVALID_API_KEY');
+    });
+
+    test('異常系：失効したAPIキーは401エラー', async () => {
+        // Arrange
+        mockApiKeyTable();
+        const issued = await issueApiKey();
+
+        // Act
+        const revoked = await handler(createApiKeysEvent('DELETE', undefined, issued.keyId));
+        const result = await handler(withApiKeyHeader(createMockEvent('GET'), issued.apiKey));
+
+        // Assert
+        expect(revoked.statusCode).toBe(200);
+        expect(JSON.parse(revoked.body).revokedAt).toEqual(expect.any(String));
+        expect(result.statusCode).toBe(401);
+    });
+
+    test('異常系：存在しないAPIキーの失効は404エラー', async () => {
+        // Arrange
+        mockApiKeyTable();
+
+        // Act
+        const result = await handler(createApiKeysEvent('DELETE', undefined, 'missing'));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    test('正常系：一覧にはAPIキーもハッシュ値も含まれない', async () => {
+        // Arrange
+        mockApiKeyTable();
+        const issued = await issueApiKey();
+
+        // Act
+        const result = await handler(createApiKeysEvent('GET'));
+
+        // Assert
+        const body = JSON.parse(result.body);
+        expect(body.count).toBe(1);
+        expect(body.keys[0]).toMatchObject({ keyId: issued.keyId, name: 'partner' });
+        expect(result.body).not.toContain(issued.apiKey);
+        expect(body.keys[0]).not.toHaveProperty('keyHash');
+    });
+
+    /**
+     * セキュリティテスト：管理者以外
+     * 
+     * 学習ポイント：
+     * - APIキーの管理は管理者だけができる(APIキーのユーザーも管理者ではない)
+     */
+    test('セキュリティ：管理者以外はAPIキーを発行できない', async () => {
+        // Arrange
+        mockApiKeyTable();
+        const issued = await issueApiKey();
+
+        // Act
+        const byUser = await handler(createApiKeysEvent('POST', { name: 'x' }, undefined, { sub: 'alice' }));
+        const byApiKey = await handler(withApiKeyHeader(createApiKeysEvent('POST', { name: 'x' }), issued.apiKey));
+        const listByUser = await handler(createApiKeysEvent('GET', undefined, undefined, { sub: 'alice' }));
+
+        // Assert
+        expect(byUser.statusCode).toBe(403);
+        expect(byApiKey.statusCode).toBe(403);
+        expect(listByUser.statusCode).toBe(403);
+    });
+
+    /**
+     * セキュリティテスト：APIキーのテナント
+     * 
+     * 学習ポイント：
+     * - APIキーは発行した管理者のテナントに紐づき、他のテナントにはアクセスできない
+     * - 他のテナントの管理者は、そのキーを一覧で見ることも失効することもできない
+     */
+    test('セキュリティ：APIキーは発行したテナントにしかアクセスできない', async () => {
+        // Arrange
+        const records = mockApiKeyTable();
+        const acmeAdmin = { sub: 'admin', scope: 'items:admin', tenant_id: 'acme' };
+        const issued = JSON.parse(
+            (await handler(createApiKeysEvent('POST', { name: 'partner' }, undefined, acmeAdmin))).body
+        );
+        const createEvent = (path: string) => ({
+            ...createMockEvent('POST', JSON.stringify({ name: '商品' })),
+            path,
+        });
+
+        // Act
+        const ownTenant = await handler(withApiKeyHeader(createEvent('/tenants/acme/items'), issued.apiKey));
+        const defaultTenant = await handler(withApiKeyHeader(createEvent('/tenants/default/items'), issued.apiKey));
+        const listByDefaultAdmin = await handler(createApiKeysEvent('GET'));
+        const revokeByDefaultAdmin = await handler(createApiKeysEvent('DELETE', undefined, issued.keyId));
+
+        // Assert
+        expect(records.get(issued.keyId)!.tenantId).toBe('acme');
+        expect(ownTenant.statusCode).toBe(201);
+        expect(defaultTenant.statusCode).toBe(403);
+        expect(JSON.parse(listByDefaultAdmin.body).count).toBe(0);
+        expect(revokeByDefaultAdmin.statusCode).toBe(404);
+        expect(records.get(issued.keyId)!.revokedAt).toBeUndefined();
+    });
+
+    test.each([
+        ['name がない', { rateLimit: { capacity: 1, refillPerSecond: 1 } }],
+        ['capacity が小数の', { name: 'x', rateLimit: { capacity: 1.5, refillPerSecond: 1 } }],
+        ['refillPerSecond が0の', { name: 'x', rateLimit: { capacity: 1, refillPerSecond: 0 } }],
+        ['ownerId が空の', { name: 'x', ownerId: '' }],
+    ])('異常系：%s場合400エラー', async (_label, body) => {
+        // Arrange
+        mockApiKeyTable();
+
+        // Act
+        const result = await handler(createApiKeysEvent('POST', body));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+    });
+
+    test('異常系：APIキーのパスに対するGETは405エラー', async () => {
+        // Act
+        const result = await handler(createApiKeysEvent('GET', undefined, 'key-1'));
+
+        // Assert
+        expect(result.statusCode).toBe(405);
+    });
+
+    test('異常系：APIキーのテーブルが利用できない場合503エラー', async () => {
+        // Arrange
+        ddbMock.on(GetCommand, { TableName: API_KEY_TABLE }).rejects({ name: 'ResourceNotFoundException' });
+
+        // Act
+        const result = await handler(withApiKeyHeader(createMockEvent('GET'), `ik_0123456789abcdef_${'a'.repeat(43)}`));
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+    });
+});
+
+// ========================================
+// Webhook のテスト
+// ========================================
+describe('Webhook - /webhooks', () => {
+    const WEBHOOK_TABLE = 'ItemsWebhooks';
+    const DELIVERY_TABLE = 'ItemsWebhookDeliveries';
+
+    /**
+     * 通知先のテーブルをメモリ上で再現する
+     */
+    function mockWebhookTable(): Map<string, Record<string, any>> {
+        const records = new Map<string, Record<string, any>>();
+        ddbMock.on(PutCommand, { TableName: WEBHOOK_TABLE }).callsFake((input) => {
+            records.set(input.Item.webhookId, { ...input.Item });
+            return {};
+        });
+        ddbMock.on(GetCommand, { TableName: WEBHOOK_TABLE }).callsFake((input) => ({
+            Item: records.get(input.Key.webhookId),
+        }));
+        ddbMock.on(ScanCommand, { TableName: WEBHOOK_TABLE }).callsFake((input) => ({
+            Items: scanRecords(records, input),
+        }));
+        ddbMock.on(QueryCommand, { TableName: WEBHOOK_TABLE }).callsFake((input) => ({
+            Items: queryByTenant(records, input),
+        }));
+        ddbMock.on(DeleteCommand, { TableName: WEBHOOK_TABLE }).callsFake((input) => {
+            const record = records.get(input.Key.webhookId);
+            records.delete(input.Key.webhookId);
+            return { Attributes: record };
+        });
+        return records;
+    }
+
+    /**
+     * Webhook の管理用のイベントを作成(デフォルトは管理者)
+     */
+    function createWebhooksEvent(
+        method: string,
+        resource: string,
+        options: {
+            body?: unknown;
+            webhookId?: string;
+            query?: Record<string, string>;
+            claims?: Record<string, string>;
+        } = {}
+    ): APIGatewayProxyEvent {
+        const { body, webhookId, query, claims = { sub: 'admin', scope: 'items:admin' } } = options;
+        return {
+            ...createMockEvent(method, body === undefined ? null : JSON.stringify(body), webhookId ? { webhookId } : null),
+            resource,
+            path: resource.replace('{webhookId}', webhookId ?? ''),
+            queryStringParameters: query ?? null,
+            requestContext: { authorizer: { claims } } as any,
+        };
+    }
+
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    beforeEach(() => {
+        handler = createLambdaHandler(createInMemoryItemRepository());
+    });
+
+    /**
+     * 正常系テスト：登録
+     * 
+     * 学習ポイント：
+     * - secret は登録時のレスポンスでしか返さず、一覧には含まれない
+     * - eventTypes を省略すると、すべての種類を通知する
+     */
+    test('正常系：登録した通知先は secret を含めずに一覧に返る', async () => {
+        // Arrange
+        const records = mockWebhookTable();
+
+        // Act
+        const created = await handler(
+            createWebhooksEvent('POST', '/webhooks', { body: { url: 'https://partner.example.com/hooks' } })
+        );
+        const listed = await handler(createWebhooksEvent('GET', '/webhooks'));
+
+        // Assert
+        expect(created.statusCode).toBe(201);
+        const webhook = JSON.parse(created.body);
+        expect(webhook).toMatchObject({
+            url: 'https://partner.example.com/hooks',
+            eventTypes: ['item.created', 'item.updated', 'item.deleted'],
+            status: 'active',
+            consecutiveFailures: 0,
+            createdBy: 'admin',
+            tenantId: 'default',
+            secret: expect.stringMatching(/^whsec_/),
+        });
+        expect(records.get(webhook.webhookId)!.secret).toBe(webhook.secret);
+        const body = JSON.parse(listed.body);
+        expect(body.count).toBe(1);
+        expect(body.webhooks[0]).toMatchObject({ webhookId: webhook.webhookId });
+        expect(listed.body).not.toContain(webhook.secret);
+    });
+
+    test('正常系：指定した secret と eventTypes で登録できる', async () => {
+        // Arrange
+        const records = mockWebhookTable();
+        const secret = 's'.repeat(32);
+
+        // Act
+        const result = await handler(
+            createWebhooksEvent('POST', '/webhooks', {
+                body: { url: 'https://partner.example.com/hooks', eventTypes: ['item.deleted'], secret },
+            })
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        const webhook = JSON.parse(result.body);
+        expect(records.get(webhook.webhookId)).toMatchObject({ eventTypes: ['item.deleted'], secret });
+    });
+
+    test.each([
+        ['url がない', {}],
+        ['url が http の', { url: 'http://partner.example.com/hooks' }],
+        ['url がメタデータのアドレスの', { url: 'https://169.254.169.254/latest/meta-data' }],
+        ['eventTypes が空の', { url: 'https://partner.example.com', eventTypes: [] }],
+        ['eventTypes に不明な種類がある', { url: 'https://partner.example.com', eventTypes: ['item.moved'] }],
+        ['eventTypes が重複している', { url: 'https://partner.example.com', eventTypes: ['item.created', 'item.created'] }],
+        ['secret が短すぎる', { url: 'https://partner.example.com', secret: 'short' }],
+    ])('異常系：%s場合400エラー', async (_label, body) => {
+        // Arrange
+        mockWebhookTable();
+
+        // Act
+        const result = await handler(createWebhooksEvent('POST', '/webhooks', { body }));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+    });
+
+    test('正常系：削除すると204、存在しない通知先の削除は404エラー', async () => {
+        // Arrange
+        mockWebhookTable();
+        const created = await handler(
+            createWebhooksEvent('POST', '/webhooks', { body: { url: 'https://partner.example.com/hooks' } })
+        );
+        const { webhookId } = JSON.parse(created.body);
+
+        // Act
+        const deleted = await handler(createWebhooksEvent('DELETE', '/webhooks/{webhookId}', { webhookId }));
+        const again = await handler(createWebhooksEvent('DELETE', '/webhooks/{webhookId}', { webhookId }));
+
+        // Assert
+        expect(deleted.statusCode).toBe(204);
+        expect(again.statusCode).toBe(404);
+        expect(JSON.parse(again.body).code).toBe('WEBHOOK_NOT_FOUND');
+    });
+
+    /**
+     * 正常系テスト：配信の記録
+     * 
+     * 学習ポイント：
+     * - 配信の記録は webhookId で Query し、新しい順(ScanIndexForward: false)に返す
+     */
+    test('正常系：配信の記録を新しい順に取得できる', async () => {
+        // Arrange
+        const records = mockWebhookTable();
+        records.set('hook-1', { webhookId: 'hook-1', url: 'https://partner.example.com', createdAt: '2025-10-21T10:30:00.000Z' });
+        const delivery = { webhookId: 'hook-1', deliveryId: 'mh0abcdef0123456789ab', status: 'succeeded', attempts: [] };
+        ddbMock.on(QueryCommand, { TableName: DELIVERY_TABLE }).resolves({
+            Items: [delivery],
+            LastEvaluatedKey: { webhookId: 'hook-1', deliveryId: delivery.deliveryId },
+        });
+
+        // Act
+        const result = await handler(
+            createWebhooksEvent('GET', '/webhooks/{webhookId}/deliveries', { webhookId: 'hook-1', query: { limit: '1' } })
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body).toMatchObject({ deliveries: [delivery], count: 1, nextCursor: expect.any(String) });
+        expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+            KeyConditionExpression: 'webhookId = :webhookId',
+            ScanIndexForward: false,
+            Limit: 1,
+        });
+    });
+
+    test.each([
+        ['存在しない通知先', 'missing', {}, 404],
+        ['不正なカーソル', 'hook-1', { cursor: 'invalid' }, 400],
+        ['不正な limit', 'hook-1', { limit: '0' }, 400],
+        ['不明なクエリパラメータ', 'hook-1', { status: 'failed' }, 400],
+    ])('異常系：%sの配信の記録の取得はエラー', async (_label, webhookId, query, status) => {
+        // Arrange
+        const records = mockWebhookTable();
+        records.set('hook-1', { webhookId: 'hook-1', url: 'https://partner.example.com', createdAt: '2025-10-21T10:30:00.000Z' });
+
+        // Act
+        const result = await handler(
+            createWebhooksEvent('GET', '/webhooks/{webhookId}/deliveries', { webhookId, query })
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(status);
+    });
+
+    /**
+     * セキュリティテスト：管理者以外
+     * 
+     * 学習ポイント：
+     * - 通知先にはテナントのすべてのアイテムの変更が届くため、管理者だけが登録できる
+     */
+    test('セキュリティ：管理者以外は Webhook を管理できない', async () => {
+        // Arrange
+        mockWebhookTable();
+        const claims = { sub: 'alice' };
+
+        // Act
+        const results = await Promise.all([
+            handler(createWebhooksEvent('POST', '/webhooks', { body: { url: 'https://attacker.example.com' }, claims })),
+            handler(createWebhooksEvent('GET', '/webhooks', { claims })),
+            handler(createWebhooksEvent('DELETE', '/webhooks/{webhookId}', { webhookId: 'hook-1', claims })),
+            handler(createWebhooksEvent('GET', '/webhooks/{webhookId}/deliveries', { webhookId: 'hook-1', claims })),
+        ]);
+
+        // Assert
+        expect(results.map((result) => result.statusCode)).toEqual([403, 403, 403, 403]);
+        expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+    });
+
+    /**
+     * セキュリティテスト：他のテナントの管理者
+     * 
+     * 学習ポイント：
+     * - 通知先は登録した管理者のテナントに紐づき、他のテナントの管理者からは存在しない通知先に見える
+     */
+    test('セキュリティ：他のテナントの管理者は通知先を見ることも削除することもできない', async () => {
+        // Arrange
+        const records = mockWebhookTable();
+        const acmeAdmin = { sub: 'admin', scope: 'items:admin', tenant_id: 'acme' };
+        const created = await handler(
+            createWebhooksEvent('POST', '/webhooks', { body: { url: 'https://acme.example.com/hooks' }, claims: acmeAdmin })
+        );
+        const { webhookId } = JSON.parse(created.body);
+
+        // Act
+        const listed = await handler(createWebhooksEvent('GET', '/webhooks'));
+        const deliveries = await handler(createWebhooksEvent('GET', '/webhooks/{webhookId}/deliveries', { webhookId }));
+        const deleted = await handler(createWebhooksEvent('DELETE', '/webhooks/{webhookId}', { webhookId }));
+        const listedByAcme = await handler(createWebhooksEvent('GET', '/webhooks', { claims: acmeAdmin }));
+
+        // Assert
+        expect(records.get(webhookId)!.tenantId).toBe('acme');
+        expect(JSON.parse(listed.body).count).toBe(0);
+        expect(deliveries.statusCode).toBe(404);
+        expect(deleted.statusCode).toBe(404);
+        expect(records.has(webhookId)).toBe(true);
+        expect(JSON.parse(listedByAcme.body).count).toBe(1);
+    });
+
+    test('異常系：通知先のテーブルが利用できない場合503エラー', async () => {
+        // Arrange
+        ddbMock.on(QueryCommand, { TableName: WEBHOOK_TABLE }).rejects({ name: 'ResourceNotFoundException' });
+
+        // Act
+        const result = await handler(createWebhooksEvent('GET', '/webhooks'));
+
+        // Assert
+        expect(result.statusCode).toBe(503);
+    });
+});
+
+// ========================================
+// CORSのテスト
+// ========================================
+describe('CORS', () => {
+    const corsOptions = {
+        ...DEFAULT_CORS_OPTIONS,
+        allowedOrigins: ['https://app.example.com', 'https://*.preview.example.com'],
+    };
+
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    beforeEach(() => {
+        handler = createLambdaHandler(createInMemoryItemRepository(), undefined, corsOptions);
+    });
+
+    /**
+     * Origin ヘッダー付きのイベントを作成
+     */
+    function createCorsEvent(method: string, headers: Record<string, string>): APIGatewayProxyEvent {
+        return { ...createMockEvent(method), headers };
+    }
+
+    /**
+     * 正常系テスト：プリフライト
+     * 
+     * 学習ポイント：
+     * - プリフライトには Authorization ヘッダーが付かないため、認証せずに204を返す
+     */
+    test('正常系：許可されたオリジンのプリフライトは204', async () => {
+        // Arrange
+        const event = {
+            ...createCorsEvent('OPTIONS', {
+                Origin: 'https://pr-12.preview.example.com',
+                'Access-Control-Request-Method': 'POST',
+                'Access-Control-Request-Headers': 'content-type,authorization',
+            }),
+            requestContext: {} as any,
+        };
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(204);
+        expect(result.body).toBe('');
+        expect(result.headers).toMatchObject({
+            'Access-Control-Allow-Origin': 'https://pr-12.preview.example.com',
+            'Access-Control-Allow-Methods': expect.stringContaining('POST'),
+            'Access-Control-Allow-Headers': expect.stringContaining('Authorization'),
+            'Access-Control-Max-Age': '600',
+        });
+        expect(result.headers?.Vary).toContain('Origin');
+    });
+
+    test('異常系：許可されていないオリジンのプリフライトは403', async () => {
+        // Arrange
+        const event = createCorsEvent('OPTIONS', {
+            Origin: 'https://evil.example.org',
+            'Access-Control-Request-Method': 'DELETE',
+        });
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(403);
+        expect(JSON.parse(result.body).detail).toBe('CORS origin not allowed');
+        expect(result.headers?.['Access-Control-Allow-Origin']).toBeUndefined();
+    });
+
+    test('正常系：プリフライトでない OPTIONS はそのパスの Allow ヘッダーを返す', async () => {
+        // Act
+        const result = await handler(createCorsEvent('OPTIONS', {}));
+
+        // Assert
+        expect(result.statusCode).toBe(204);
+        expect(result.headers?.Allow).toBe('POST, GET, OPTIONS');
+    });
+
+    test('異常系：存在しないパスへのプリフライトでない OPTIONS は404', async () => {
+        // Act
+        const result = await handler({ ...createCorsEvent('OPTIONS', {}), path: '/unknown' });
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+    });
+
+    /**
+     * 正常系テスト：本番のリクエスト
+     * 
+     * 学習ポイント：
+     * - ETag などをJavaScriptから読めるように Access-Control-Expose-Headers を付ける
+     */
+    test('正常系：許可されたオリジンのレスポンスにCORSヘッダーが付く', async () => {
+        // Act
+        const result = await handler(createCorsEvent('GET', { Origin: 'https://app.example.com' }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(result.headers).toMatchObject({
+            'Access-Control-Allow-Origin': 'https://app.example.com',
+            'Access-Control-Expose-Headers': expect.stringContaining('ETag'),
+            Vary: 'Origin',
+        });
+        expect(result.headers?.['Access-Control-Allow-Credentials']).toBeUndefined();
+    });
+
+    test('異常系：許可されていないオリジンのレスポンスには Access-Control-Allow-Origin が付かない', async () => {
+        // Act
+        const result = await handler(createCorsEvent('GET', { Origin: 'https://evil.example.org' }));
+
+        // Assert
+        expect(result.headers?.['Access-Control-Allow-Origin']).toBeUndefined();
+        expect(result.headers?.Vary).toBe('Origin');
+    });
+
+    /**
+     * 正常系テスト：credentials
+     * 
+     * 学習ポイント：
+     * - credentials を許可する場合は "*" ではなく、リクエストのオリジンをそのまま返す
+     */
+    test('正常系：credentials を許可する場合は Access-Control-Allow-Credentials が付く', async () => {
+        // Arrange
+        const credentialed = createLambdaHandler(createInMemoryItemRepository(), undefined, {
+            ...corsOptions,
+            allowCredentials: true,
+        });
+
+        // Act
+        const result = await credentialed(createCorsEvent('GET', { Origin: 'https://app.example.com' }));
+
+        // Assert
+        expect(result.headers).toMatchObject({
+            'Access-Control-Allow-Origin': 'https://app.example.com',
+            'Access-Control-Allow-Credentials': 'true',
+        });
+    });
+
+    test('正常系：認証エラー(401)にもCORSヘッダーが付く', async () => {
+        // Arrange
+        const event = { ...createCorsEvent('GET', { Origin: 'https://app.example.com' }), requestContext: {} as any };
+
+        // Act
+        const result = await handler(event);
+
+        // Assert
+        expect(result.statusCode).toBe(401);
+        expect(result.headers?.['Access-Control-Allow-Origin']).toBe('https://app.example.com');
+    });
+});
+
+// ========================================
+// 添付ファイルのテスト
+// ========================================
+describe('添付ファイル - /items/{id}/attachments', () => {
+    const checksum = createHash('sha256').update('%PDF-1.7').digest('base64');
+    const file = { name: '説明書.pdf', contentType: 'application/pdf', size: 8, checksum };
+
+    let repository: ReturnType<typeof createInMemoryItemRepository>;
+    let handler: ReturnType<typeof createLambdaHandler>;
+
+    /**
+     * 添付ファイルのリクエストのイベントを作成
+     */
+    function createAttachmentEvent(
+        method: string,
+        path: string,
+        options: { body?: unknown; headers?: Record<string, string>; claims?: Record<string, unknown> } = {}
+    ): APIGatewayProxyEvent {
+        return {
+            ...createMockEvent(method, options.body === undefined ? null : JSON.stringify(options.body)),
+            path,
+            headers: options.headers ?? {},
+            requestContext: {
+                authorizer: { claims: options.claims ?? { sub: 'test-user', scope: 'items:admin' } },
+            } as any,
+        };
+    }
+
+    /**
+     * 署名付きURLを作成するための設定
+     *
+     * 学習ポイント：
+     * - 署名付きURLの作成は S3 にリクエストしないが、署名に使う認証情報とリージョンは必要
+     * - S3Client は最初の署名のときに環境変数から読み込む
+     */
+    beforeEach(() => {
+        process.env.AWS_ACCESS_KEY_ID = STAND_IN_CREDENTIALS.accessKeyId;
+        process.env.AWS_SECRET_ACCESS_KEY = STAND_IN_CREDENTIALS.secretAccessKey;
+        process.env.AWS_REGION = 'ap-northeast-1';
+
+        repository = createInMemoryItemRepository([
+            { id: 'item-1', name: '商品', version: 1, ownerId: 'test-user' },
+            {
+                id: 'deleted-item',
+                name: '削除済み',
+                version: 2,
+                ownerId: 'test-user',
+                deletedAt: '2025-10-01T00:00:00.000Z',
+            },
+        ]);
+        handler = createLambdaHandler(repository, createAuthenticator({ mode: 'jwt', adminScope: 'items:admin' }));
+    });
+
+    afterEach(() => {
+        delete process.env.AWS_ACCESS_KEY_ID;
+        delete process.env.AWS_SECRET_ACCESS_KEY;
+        delete process.env.AWS_REGION;
+    });
+
+    /**
+     * 正常系テスト：アップロード用のURL
+     *
+     * 学習ポイント：
+     * - ファイル自体は API を通さず、返されたURLに直接 PUT する
+     * - キーは テナント/アイテム/添付ファイル で、クライアントは指定できない
+     */
+    test('正常系：添付ファイルの情報を保存し、アップロード用のURLを返す', async () => {
+        // Act
+        const result = await handler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file }));
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        const body = JSON.parse(result.body);
+        expect(body.attachment).toMatchObject({ ...file, id: expect.any(String), createdAt: expect.any(String) });
+        expect(body.upload).toMatchObject({
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/pdf', 'x-amz-checksum-sha256': checksum },
+        });
+        const url = new URL(body.upload.url);
+        expect(url.pathname).toBe(`/default/item-1/${body.attachment.id}`);
+        expect(url.hostname).toMatch(/^items-attachments\.s3\./);
+        expect(url.searchParams.get('X-Amz-Expires')).toBe('300');
+        expect(Date.parse(body.upload.expiresAt)).toBeGreaterThan(Date.now());
+
+        const stored = await repository.get('item-1');
+        expect(stored).toMatchObject({ version: 2, attachments: [body.attachment] });
+        expect(result.headers?.ETag).toBe('"2"');
+    });
+
+    test('正常系：テナントのアイテムの添付ファイルはテナントのキーに保存される', async () => {
+        // Arrange
+        const claims = { sub: 'test-user', tenant_id: 'acme' };
+        await handler(
+            createAttachmentEvent('POST', '/tenants/acme/items', { body: { id: 'item-1', name: '商品' }, claims })
+        );
+
+        // Act
+        const result = await handler(
+            createAttachmentEvent('POST', '/tenants/acme/items/item-1/attachments', { body: file, claims })
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(201);
+        const body = JSON.parse(result.body);
+        expect(new URL(body.upload.url).pathname).toBe(`/acme/item-1/${body.attachment.id}`);
+    });
+
+    /**
+     * 異常系テスト：ファイルの情報の検証
+     */
+    test.each([
+        ['許可していない種類', { contentType: 'text/html' }, '/contentType'],
+        ['上限を超えるサイズ', { size: 10 * 1024 * 1024 + 1 }, '/size'],
+        ['パスを含むファイル名', { name: '../secret.pdf' }, '/name'],
+    ])('異常系：%sの場合は400エラー', async (_label, overrides, pointer) => {
+        // Act
+        const result = await handler(
+            createAttachmentEvent('POST', '/items/item-1/attachments', { body: { ...file, ...overrides } })
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+        expect(JSON.parse(result.body).errors).toEqual([{ pointer, message: expect.any(String) }]);
+        expect((await repository.get('item-1'))?.attachments).toBeUndefined();
+    });
+
+    test('異常系：削除されたアイテムへの追加は410エラー', async () => {
+        // Act
+        const result = await handler(createAttachmentEvent('POST', '/items/deleted-item/attachments', { body: file }));
+
+        // Assert
+        expect(result.statusCode).toBe(410);
+    });
+
+    test('異常系：If-Match が一致しない場合は412エラー', async () => {
+        // Act
+        const result = await handler(
+            createAttachmentEvent('POST', '/items/item-1/attachments', { body: file, headers: { 'If-Match': '"9"' } })
+        );
+
+        // Assert
+        expect(result.statusCode).toBe(412);
+        expect((await repository.get('item-1'))?.version).toBe(1);
+    });
+
+    /**
+     * 異常系テスト：添付ファイルの数の上限
+     *
+     * 学習ポイント：
+     * - 添付ファイルの情報はアイテムに入るため、アイテムの大きさ(400KB)を超えないよう数を制限する
+     */
+    test('異常系：添付ファイルが上限の数に達している場合は409エラー', async () => {
+        // Arrange
+        for (let i = 0; i < 20; i++) {
+            await handler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file }));
+        }
+
+        // Act
+        const result = await handler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file }));
+
+        // Assert
+        expect(result.statusCode).toBe(409);
+        expect(JSON.parse(result.body).code).toBe('TOO_MANY_ATTACHMENTS');
+        expect((await repository.get('item-1'))?.attachments).toHaveLength(20);
+    });
+
+    /**
+     * セキュリティテスト：他のユーザーのアイテム
+     *
+     * 学習ポイント：
+     * - 他のユーザーのアイテムは、存在を知られないよう404にする(取得と同じ)
+     */
+    test('セキュリティ：他のユーザーのアイテムの添付ファイルは追加も取得もできない', async () => {
+        // Arrange
+        const created = await handler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file }));
+        const attachmentId = JSON.parse(created.body).attachment.id;
+        const claims = { sub: 'other-user' };
+
+        // Act
+        const results = await Promise.all([
+            handler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file, claims })),
+            handler(createAttachmentEvent('GET', `/items/item-1/attachments/${attachmentId}`, { claims })),
+        ]);
+
+        // Assert
+        expect(results.map((result) => result.statusCode)).toEqual([404, 404]);
+        expect(results.map((result) => JSON.parse(result.body).code)).toEqual(['ITEM_NOT_FOUND', 'ITEM_NOT_FOUND']);
+    });
+
+    /**
+     * 正常系テスト：ダウンロード用のURL
+     *
+     * 学習ポイント：
+     * - ダウンロード時のファイル名と種類は、保存した情報から response-content-disposition などで指定する
+     */
+    test('正常系：ダウンロード用のURLを返す', async () => {
+        // Arrange
+        const created = await handler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file }));
+        const attachmentId = JSON.parse(created.body).attachment.id;
+
+        // Act
+        const result = await handler(createAttachmentEvent('GET', `/items/item-1/attachments/${attachmentId}`));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        const body = JSON.parse(result.body);
+        expect(body.attachment.id).toBe(attachmentId);
+        expect(body.download.method).toBe('GET');
+        const url = new URL(body.download.url);
+        expect(url.pathname).toBe(`/default/item-1/${attachmentId}`);
+        expect(url.searchParams.get('response-content-type')).toBe('application/pdf');
+        expect(url.searchParams.get('response-content-disposition')).toContain("filename*=UTF-8''");
+    });
+
+    test('異常系：存在しない添付ファイルは404エラー', async () => {
+        // Act
+        const result = await handler(createAttachmentEvent('GET', '/items/item-1/attachments/missing'));
+
+        // Assert
+        expect(result.statusCode).toBe(404);
+        expect(JSON.parse(result.body).code).toBe('ATTACHMENT_NOT_FOUND');
+    });
+
+    /**
+     * 正常系テスト：アイテムの更新と添付ファイル
+     *
+     * 学習ポイント：
+     * - attachments はサーバー側で管理するフィールドなので、PUT では引き継ぎ、リクエストでは変更できない
+     */
+    test('正常系：PUTで置き換えても添付ファイルは残る', async () => {
+        // Arrange
+        await handler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file }));
+
+        // Act
+        const result = await handler(createAttachmentEvent('PUT', '/items/item-1', { body: { name: '新しい名前' } }));
+
+        // Assert
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body).attachments).toHaveLength(1);
+    });
+
+    test('異常系：PATCHでattachmentsを変更すると400エラー', async () => {
+        // Act
+        const result = await handler(createAttachmentEvent('PATCH', '/items/item-1', { body: { attachments: [] } }));
+
+        // Assert
+        expect(result.statusCode).toBe(400);
+    });
+
+    /**
+     * 正常系テスト：返されたURLで実際にアップロード・ダウンロードする
+     *
+     * 学習ポイント：
+     * - S3_ENDPOINT を S3 の代わりのローカルサーバーにして、app.ts を読み込み直す
+     *   (保存先はモジュールの読み込み時に作成されるため、jest.isolateModules で別のモジュールとして読み込む)
+     */
+    test('正常系：返されたURLでアップロードしたファイルをダウンロードできる', async () => {
+        // Arrange
+        const standIn = await startS3StandIn();
+        process.env.S3_ENDPOINT = standIn.endpoint;
+        let isolatedApp!: typeof import('../../app');
+        jest.isolateModules(() => {
+            isolatedApp = require('../../app');
+        });
+        delete process.env.S3_ENDPOINT;
+        const isolatedHandler = isolatedApp.createLambdaHandler(
+            repository,
+            createAuthenticator({ mode: 'jwt', adminScope: 'items:admin' })
+        );
+
+        try {
+            // Act
+            const created = JSON.parse(
+                (await isolatedHandler(createAttachmentEvent('POST', '/items/item-1/attachments', { body: file }))).body
+            );
+            const uploaded = await fetch(created.upload.url, {
+                method: 'PUT',
+                headers: created.upload.headers,
+                body: '%PDF-1.7',
+            });
+            const download = JSON.parse(
+                (
+                    await isolatedHandler(
+                        createAttachmentEvent('GET', `/items/item-1/attachments/${created.attachment.id}`)
+                    )
+                ).body
+            ).download;
+            const downloaded = await fetch(download.url);
+
+            // Assert
+            expect(uploaded.status).toBe(200);
+            expect(downloaded.status).toBe(200);
+            expect(await downloaded.text()).toBe('%PDF-1.7');
+            expect(downloaded.headers.get('content-type')).toBe('application/pdf');
+        } finally {
+            await standIn.close();
+        }
+    });
+});
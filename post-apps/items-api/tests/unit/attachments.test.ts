@@ -0,0 +1,295 @@
+/**
+ * 添付ファイルの署名付きURLのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. S3 の代わりのローカルサーバーで、署名付きURLを使った実際のアップロード・ダウンロードをテストする方法
+ * 2. 署名に含めたヘッダー(種類・サイズ)やチェックサムと違うアップロードが拒否されることの確認
+ * 3. ファイルの情報のバリデーションと設定の読み込みのテスト
+ */
+
+import { createHash } from 'crypto';
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+    createAttachmentKey,
+    createContentDisposition,
+    createS3AttachmentStorage,
+    createUploadHeaders,
+    loadAttachmentOptions,
+    validateAttachmentInput,
+    Attachment,
+    AttachmentStorage,
+    DEFAULT_ATTACHMENT_OPTIONS,
+} from '../../attachments';
+import { S3StandIn, STAND_IN_CREDENTIALS, startS3StandIn } from './s3-stand-in';
+
+/**
+ * ファイルの SHA-256(Base64)を計算する
+ */
+function checksumOf(body: Buffer): string {
+    return createHash('sha256').update(body).digest('base64');
+}
+
+/**
+ * テスト用の添付ファイルの情報
+ */
+function attachmentOf(body: Buffer, overrides: Partial<Attachment> = {}): Attachment {
+    return {
+        id: 'file-1',
+        name: 'manual.pdf',
+        contentType: 'application/pdf',
+        size: body.length,
+        checksum: checksumOf(body),
+        createdAt: '2025-10-21T10:30:00.000Z',
+        ...overrides,
+    };
+}
+
+// ========================================
+// loadAttachmentOptions のテスト
+// ========================================
+describe('loadAttachmentOptions - 環境変数からの読み込み', () => {
+    test('正常系：未設定ならデフォルトの制限', () => {
+        expect(loadAttachmentOptions({})).toEqual(DEFAULT_ATTACHMENT_OPTIONS);
+    });
+
+    test('正常系：環境変数で制限を変更できる', () => {
+        expect(
+            loadAttachmentOptions({
+                ATTACHMENT_MAX_SIZE_BYTES: '1024',
+                ATTACHMENT_CONTENT_TYPES: 'image/png, Application/PDF',
+                ATTACHMENT_URL_EXPIRES_SECONDS: '60',
+            })
+        ).toEqual({ maxSizeBytes: 1024, allowedContentTypes: ['image/png', 'application/pdf'], urlExpiresSeconds: 60 });
+    });
+
+    test.each([
+        [{ ATTACHMENT_MAX_SIZE_BYTES: '0' }, 'Invalid ATTACHMENT_MAX_SIZE_BYTES'],
+        [{ ATTACHMENT_CONTENT_TYPES: 'pdf' }, 'Invalid ATTACHMENT_CONTENT_TYPES: pdf'],
+        [{ ATTACHMENT_URL_EXPIRES_SECONDS: '604801' }, 'Invalid ATTACHMENT_URL_EXPIRES_SECONDS'],
+    ])('異常系：不正な設定は起動時に例外 %o', (env, message) => {
+        expect(() => loadAttachmentOptions(env)).toThrow(message);
+    });
+});
+
+// ========================================
+// validateAttachmentInput のテスト
+// ========================================
+describe('validateAttachmentInput - ファイルの情報の検証', () => {
+    const valid = {
+        name: '説明書.pdf',
+        contentType: 'application/pdf',
+        size: 1024,
+        checksum: checksumOf(Buffer.from('pdf')),
+    };
+
+    test('正常系：正しいファイルの情報', () => {
+        expect(validateAttachmentInput(valid, DEFAULT_ATTACHMENT_OPTIONS)).toEqual([]);
+        expect(validateAttachmentInput({ ...valid, contentType: 'IMAGE/PNG' }, DEFAULT_ATTACHMENT_OPTIONS)).toEqual([]);
+    });
+
+    test.each([
+        ['空のファイル名', { name: '' }, '/name'],
+        ['長すぎるファイル名', { name: 'a'.repeat(256) }, '/name'],
+        ['許可していない種類', { contentType: 'text/html' }, '/contentType'],
+        ['0バイト', { size: 0 }, '/size'],
+        ['整数でないサイズ', { size: 1.5 }, '/size'],
+        ['上限を超えるサイズ', { size: DEFAULT_ATTACHMENT_OPTIONS.maxSizeBytes + 1 }, '/size'],
+        ['SHA-256 でないチェックサム', { checksum: 'abc' }, '/checksum'],
+        ['未知のフィールド', { url: 'https://example.com/file.pdf' }, '/url'],
+    ])('異常系：%s は %s の違反', (_label, overrides, pointer) => {
+        expect(validateAttachmentInput({ ...valid, ...overrides }, DEFAULT_ATTACHMENT_OPTIONS)).toEqual([
+            { pointer, message: expect.any(String) },
+        ]);
+    });
+
+    test('異常系：必須のフィールドがない場合はすべての違反を返す', () => {
+        const pointers = validateAttachmentInput({}, DEFAULT_ATTACHMENT_OPTIONS).map((error) => error.pointer);
+        expect(pointers).toEqual(['/name', '/contentType', '/size', '/checksum']);
+    });
+
+    /**
+     * セキュリティテスト：ファイル名
+     *
+     * 学習ポイント：
+     * - ファイル名はダウンロード時のヘッダーに入るため、改行(ヘッダーの分割)やパスの区切り文字を拒否する
+     */
+    test.each([['../etc/passwd'], ['a\\b.pdf'], ['a\r\nSet-Cookie: x=1']])('セキュリティ：%j は不正なファイル名', (name) => {
+        expect(validateAttachmentInput({ ...valid, name }, DEFAULT_ATTACHMENT_OPTIONS)).toEqual([
+            { pointer: '/name', message: expect.any(String) },
+        ]);
+    });
+});
+
+// ========================================
+// キーとヘッダーのテスト
+// ========================================
+describe('createAttachmentKey / createContentDisposition', () => {
+    test('正常系：キーはテナント・アイテム・添付ファイルの順', () => {
+        expect(createAttachmentKey('acme', 'item-1', 'file-1')).toBe('acme/item-1/file-1');
+    });
+
+    test('正常系：アイテムIDの / はエンコードしてキーの階層をずらさない', () => {
+        expect(createAttachmentKey('acme', 'a/b', 'file-1')).toBe('acme/a%2Fb/file-1');
+    });
+
+    test('正常系：日本語のファイル名は filename* で渡す', () => {
+        expect(createContentDisposition('説明書 (1).pdf')).toBe(
+            `attachment; filename="___ (1).pdf"; filename*=UTF-8''%E8%AA%AC%E6%98%8E%E6%9B%B8%20%281%29.pdf`
+        );
+    });
+
+    test('正常系：アップロードのヘッダーは署名に含めた種類とチェックサム', () => {
+        const body = Buffer.from('%PDF-1.7');
+        expect(createUploadHeaders(attachmentOf(body))).toEqual({
+            'Content-Type': 'application/pdf',
+            'x-amz-checksum-sha256': checksumOf(body),
+        });
+    });
+});
+
+// ========================================
+// createS3AttachmentStorage のテスト
+// ========================================
+/**
+ * 学習ポイント：
+ * - S3Client の endpoint を S3 の代わりのローカルサーバーにして、本物のAWSを使わずに署名付きURLを試す
+ * - forcePathStyle: バケット名をホスト名ではなくパスに入れる(127.0.0.1 のサブドメインは作れないため)
+ */
+describe('createS3AttachmentStorage - 署名付きURLでのアップロード・ダウンロード', () => {
+    let standIn: S3StandIn;
+    let storage: AttachmentStorage;
+    const body = Buffer.from('%PDF-1.7 テスト用のファイル');
+
+    beforeAll(async () => {
+        standIn = await startS3StandIn();
+        const client = new S3Client({
+            endpoint: standIn.endpoint,
+            forcePathStyle: true,
+            region: 'ap-northeast-1',
+            credentials: STAND_IN_CREDENTIALS,
+        });
+        storage = createS3AttachmentStorage(client, { bucketName: 'attachments' });
+    });
+
+    afterAll(async () => {
+        await standIn.close();
+    });
+
+    beforeEach(() => {
+        standIn.objects.clear();
+    });
+
+    /**
+     * 正常系テスト：アップロードとダウンロード
+     *
+     * 学習ポイント：
+     * - アップロードでは、レスポンスで返すヘッダー(createUploadHeaders)を付けて PUT する
+     * - ダウンロードでは、保存時のファイル名が Content-Disposition に入る
+     */
+    test('正常系：アップロードしたファイルをダウンロードできる', async () => {
+        // Arrange
+        const attachment = attachmentOf(body);
+        const key = createAttachmentKey('acme', 'item-1', attachment.id);
+
+        // Act
+        const uploadUrl = await storage.createUploadUrl(key, attachment, 300);
+        const uploaded = await fetch(uploadUrl, { method: 'PUT', headers: createUploadHeaders(attachment), body });
+        const downloadUrl = await storage.createDownloadUrl(key, attachment, 300);
+        const downloaded = await fetch(downloadUrl);
+
+        // Assert
+        expect(uploaded.status).toBe(200);
+        expect(standIn.objects.get('attachments/acme/item-1/file-1')?.contentType).toBe('application/pdf');
+        expect(downloaded.status).toBe(200);
+        expect(Buffer.from(await downloaded.arrayBuffer())).toEqual(body);
+        expect(downloaded.headers.get('content-type')).toBe('application/pdf');
+        expect(downloaded.headers.get('content-disposition')).toBe(createContentDisposition('manual.pdf'));
+    });
+
+    test('正常系：URLには有効期間と署名するヘッダーが入る', async () => {
+        // Act
+        const url = new URL(await storage.createUploadUrl('acme/item-1/file-1', attachmentOf(body), 120));
+
+        // Assert
+        expect(url.pathname).toBe('/attachments/acme/item-1/file-1');
+        expect(url.searchParams.get('X-Amz-Expires')).toBe('120');
+        expect(url.searchParams.get('X-Amz-SignedHeaders')).toBe(
+            'content-length;content-type;host;x-amz-checksum-sha256'
+        );
+    });
+
+    test('異常系：まだアップロードしていないファイルは404', async () => {
+        // Act
+        const url = await storage.createDownloadUrl('acme/item-1/file-1', attachmentOf(body), 300);
+        const response = await fetch(url);
+
+        // Assert
+        expect(response.status).toBe(404);
+    });
+
+    /**
+     * 異常系テスト：申告と違うファイル
+     *
+     * 学習ポイント：
+     * - 種類とサイズは署名に含まれているので、違うと署名が一致しない(403)
+     * - 中身がチェックサムと違うと、S3 が BadDigest(400)で拒否する
+     */
+    test('異常系：中身がチェックサムと違うファイルは拒否される', async () => {
+        // Arrange
+        const attachment = attachmentOf(body);
+        const url = await storage.createUploadUrl('acme/item-1/file-1', attachment, 300);
+        const tampered = Buffer.alloc(body.length, 'x');
+
+        // Act
+        const response = await fetch(url, { method: 'PUT', headers: createUploadHeaders(attachment), body: tampered });
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect(await response.text()).toContain('BadDigest');
+        expect(standIn.objects.size).toBe(0);
+    });
+
+    test.each([
+        ['種類', { 'Content-Type': 'text/html' }, body],
+        ['サイズ', {}, Buffer.concat([body, Buffer.from('extra')])],
+    ])('異常系：申告と違う%sのファイルは署名が一致せずに拒否される', async (_label, headers, content) => {
+        // Arrange
+        const attachment = attachmentOf(body);
+        const url = await storage.createUploadUrl('acme/item-1/file-1', attachment, 300);
+
+        // Act
+        const response = await fetch(url, {
+            method: 'PUT',
+            headers: { ...createUploadHeaders(attachment), ...headers },
+            body: content,
+        });
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(await response.text()).toContain('SignatureDoesNotMatch');
+        expect(standIn.objects.size).toBe(0);
+    });
+
+    /**
+     * セキュリティテスト：別のキーへの書き込み
+     *
+     * 学習ポイント：
+     * - URLのパス(キー)も署名に含まれるので、他のテナント・アイテムのキーには使えない
+     */
+    test('セキュリティ：URLのキーを書き換えると拒否される', async () => {
+        // Arrange
+        const attachment = attachmentOf(body);
+        const url = await storage.createUploadUrl('acme/item-1/file-1', attachment, 300);
+
+        // Act
+        const response = await fetch(url.replace('/acme/', '/other/'), {
+            method: 'PUT',
+            headers: createUploadHeaders(attachment),
+            body,
+        });
+
+        // Assert
+        expect(response.status).toBe(403);
+        expect(standIn.objects.size).toBe(0);
+    });
+});
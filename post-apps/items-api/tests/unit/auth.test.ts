@@ -0,0 +1,390 @@
+/**
+ * JWT認証のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. テスト用の鍵でトークンを作成し、ネットワークなしで検証するテスト
+ * 2. 署名・期限・発行者などの検証が失敗するパターンのテスト
+ * 3. ローカルのHTTPサーバーを使ったJWKSの取得のテスト
+ */
+
+import { createHmac, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { AuthenticationError, AuthOptions, createAuthenticator, JsonWebKeySet } from '../../auth';
+
+// ========================================
+// テスト用の鍵
+// ========================================
+const SECRET = 'test-secret';
+const rsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ecKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+/**
+ * 公開鍵をJWKに変換する
+ */
+function toJwk(key: KeyObject, kid: string): JsonWebKeySet['keys'][number] {
+    return { ...key.export({ format: 'jwk' }), kid };
+}
+
+const JWKS: JsonWebKeySet = {
+    keys: [toJwk(rsaKeys.publicKey, 'rsa-1'), toJwk(ecKeys.publicKey, 'ec-1')],
+};
+
+const BASE_OPTIONS: AuthOptions = { mode: 'jwt', jwks: JWKS, secret: SECRET, adminScope: 'items:admin' };
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * トークンを作成する
+ *
+ * 学習ポイント：
+ * - JWT は「base64url(ヘッダー).base64url(ペイロード).base64url(署名)」
+ */
+function createToken(
+    payload: Record<string, unknown>,
+    header: Record<string, unknown> = { alg: 'HS256' },
+    key: string | KeyObject = SECRET
+): string {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode(header)}.${encode(payload)}`;
+
+    let signature: Buffer;
+    if (header.alg === 'HS256') {
+        signature = createHmac('sha256', key as string).update(signingInput).digest();
+    } else if (header.alg === 'ES256') {
+        signature = sign('sha256', Buffer.from(signingInput), { key: key as KeyObject, dsaEncoding: 'ieee-p1363' });
+    } else {
+        signature = sign('sha256', Buffer.from(signingInput), key as KeyObject);
+    }
+    return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * 有効期限付きのペイロードを作成する
+ */
+function claims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return { sub: 'user-1', exp: Math.floor(Date.now() / 1000) + 60, ...overrides };
+}
+
+/**
+ * テスト用のイベントを作成する
+ */
+function createEvent(
+    headers: Record<string, string> = {},
+    authorizer: Record<string, unknown> | null = null
+): APIGatewayProxyEvent {
+    return { headers, requestContext: { authorizer } } as unknown as APIGatewayProxyEvent;
+}
+
+/**
+ * 署名はそのままでペイロードだけを書き換える
+ */
+function tamperPayload(token: string, payload: Record<string, unknown>): string {
+    const [header, , signature] = token.split('.');
+    return `${header}.${Buffer.from(JSON.stringify(payload)).toString('base64url')}.${signature}`;
+}
+
+/**
+ * Bearerトークン付きのイベントを作成する
+ */
+function bearer(token: string): APIGatewayProxyEvent {
+    return createEvent({ Authorization: `Bearer ${token}` });
+}
+
+// ========================================
+// Bearerトークンの検証
+// ========================================
+describe('createAuthenticator - Bearerトークン', () => {
+    const authenticate = createAuthenticator(BASE_OPTIONS);
+
+    test.each([
+        ['HS256(共有シークレット)', { alg: 'HS256' }, SECRET],
+        ['RS256(JWKS)', { alg: 'RS256', kid: 'rsa-1' }, rsaKeys.privateKey],
+        ['ES256(JWKS)', { alg: 'ES256', kid: 'ec-1' }, ecKeys.privateKey],
+    ])('正常系：%s のトークンを検証できる', async (_label, header, key) => {
+        // Act
+        const principal = await authenticate(bearer(createToken(claims(), header, key)));
+
+        // Assert
+        expect(principal).toEqual({ subject: 'user-1', scopes: [], isAdmin: false });
+    });
+
+    test.each([
+        ['scope(スペース区切り)', { scope: 'items:read items:admin' }, ['items:read', 'items:admin']],
+        ['scp(配列)', { scp: ['items:admin'] }, ['items:admin']],
+    ])('正常系：%s の管理者スコープ', async (_label, extra, scopes) => {
+        // Act
+        const principal = await authenticate(bearer(createToken(claims(extra))));
+
+        // Assert
+        expect(principal).toEqual({ subject: 'user-1', scopes, isAdmin: true });
+    });
+
+    /**
+     * 正常系テスト：テナントのクレーム
+     *
+     * 学習ポイント：
+     * - クレームの名前は tenantClaim で変更できる(デフォルトは tenant_id)
+     * - 文字列でないクレームは無視する
+     */
+    test('正常系：テナントのクレームを tenantId にする', async () => {
+        // Arrange
+        const custom = createAuthenticator({ ...BASE_OPTIONS, tenantClaim: 'org' });
+
+        // Act
+        const principal = await authenticate(bearer(createToken(claims({ tenant_id: 'acme' }))));
+        const customPrincipal = await custom(bearer(createToken(claims({ org: 'other', tenant_id: 'acme' }))));
+        const ignored = await authenticate(bearer(createToken(claims({ tenant_id: 123 }))));
+
+        // Assert
+        expect(principal).toEqual({ subject: 'user-1', scopes: [], isAdmin: false, tenantId: 'acme' });
+        expect(customPrincipal.tenantId).toBe('other');
+        expect(ignored.tenantId).toBeUndefined();
+    });
+
+    test('正常系：ヘッダー名の大文字・小文字は区別しない', async () => {
+        // Act
+        const principal = await authenticate(createEvent({ authorization: `bearer ${createToken(claims())}` }));
+
+        // Assert
+        expect(principal.subject).toBe('user-1');
+    });
+
+    test('正常系：kid のないトークンは、候補の鍵が1つだけなら検証できる', async () => {
+        // Act
+        const principal = await authenticate(bearer(createToken(claims(), { alg: 'RS256' }, rsaKeys.privateKey)));
+
+        // Assert
+        expect(principal.subject).toBe('user-1');
+    });
+
+    test.each([
+        ['Authorization ヘッダーなし', createEvent(), 'Missing bearer token'],
+        ['Bearer 以外の方式', createEvent({ Authorization: 'Basic dXNlcjpwYXNz' }), 'Missing bearer token'],
+    ])('異常系：%s', async (_label, event, message) => {
+        // Act & Assert
+        await expect(authenticate(event)).rejects.toEqual(new AuthenticationError(message));
+    });
+
+    test.each([
+        ['形式が不正', 'not-a-jwt', 'malformed token'],
+        ['署名が違う', createToken(claims(), { alg: 'HS256' }, 'wrong-secret'), 'signature mismatch'],
+        ['改ざんされたペイロード', tamperPayload(createToken(claims()), claims({ sub: 'admin' })), 'signature mismatch'],
+        ['知らない kid', createToken(claims(), { alg: 'RS256', kid: 'unknown' }, rsaKeys.privateKey), 'no key'],
+        ['exp なし', createToken({ sub: 'user-1' }), 'exp claim is missing'],
+        ['sub なし', createToken(claims({ sub: undefined })), 'sub claim is missing'],
+        ['nbf が未来', createToken(claims({ nbf: Math.floor(Date.now() / 1000) + 600 })), 'not yet valid'],
+    ])('異常系：%s のトークンは Invalid token', async (_label, token, reason) => {
+        // Act
+        const error = await authenticate(bearer(token)).catch((err) => err);
+
+        // Assert
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect(error.message).toBe('Invalid token');
+        expect(error.reason).toContain(reason);
+    });
+
+    test('異常系：alg: none のトークン(署名なし)は受け付けない', async () => {
+        // Arrange
+        const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const token = `${encode({ alg: 'none' })}.${encode(claims())}.`;
+
+        // Act & Assert
+        await expect(authenticate(bearer(token))).rejects.toMatchObject({ reason: expect.stringContaining('no key') });
+    });
+
+    /**
+     * セキュリティテスト：アルゴリズム混同攻撃
+     *
+     * 学習ポイント：
+     * - 公開鍵は誰でも入手できるため、公開鍵をHS256のシークレットとして使えると署名を偽造できる
+     */
+    test('セキュリティ：公開鍵をHS256のシークレットとして使ったトークンは受け付けない', async () => {
+        // Arrange
+        const authenticateWithJwksOnly = createAuthenticator({ ...BASE_OPTIONS, secret: undefined });
+        const publicPem = rsaKeys.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+        const token = createToken(claims(), { alg: 'HS256', kid: 'rsa-1' }, publicPem);
+
+        // Act & Assert
+        await expect(authenticateWithJwksOnly(bearer(token))).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    test('セキュリティ：RSAの鍵の kid を指定したES256のトークンは受け付けない', async () => {
+        // Arrange
+        const token = createToken(claims(), { alg: 'ES256', kid: 'rsa-1' }, ecKeys.privateKey);
+
+        // Act & Assert
+        await expect(authenticate(bearer(token))).rejects.toMatchObject({ reason: expect.stringContaining('no key') });
+    });
+
+    test('異常系：期限切れのトークンは Token expired', async () => {
+        // Arrange
+        const token = createToken(claims({ exp: Math.floor(Date.now() / 1000) - 60 }));
+
+        // Act & Assert
+        await expect(authenticate(bearer(token))).rejects.toEqual(new AuthenticationError('Token expired'));
+    });
+
+    test('正常系：clockToleranceSeconds の範囲内なら期限切れ直後でも受け付ける', async () => {
+        // Arrange
+        const lenient = createAuthenticator({ ...BASE_OPTIONS, clockToleranceSeconds: 30 });
+        const token = createToken(claims({ exp: Math.floor(Date.now() / 1000) - 10 }));
+
+        // Act
+        const principal = await lenient(bearer(token));
+
+        // Assert
+        expect(principal.subject).toBe('user-1');
+    });
+
+    test.each([
+        ['iss', { issuer: 'https://issuer.example.com' }, { iss: 'https://evil.example.com' }, 'issuer mismatch'],
+        ['aud', { audience: 'items-api' }, { aud: ['other-api'] }, 'audience mismatch'],
+    ])('異常系：%s が一致しない場合は Invalid token', async (_label, options, extra, reason) => {
+        // Arrange
+        const strict = createAuthenticator({ ...BASE_OPTIONS, ...options });
+
+        // Act & Assert
+        await expect(strict(bearer(createToken(claims(extra))))).rejects.toMatchObject({ reason });
+    });
+
+    test('正常系：iss と aud が一致すれば受け付ける', async () => {
+        // Arrange
+        const strict = createAuthenticator({
+            ...BASE_OPTIONS,
+            issuer: 'https://issuer.example.com',
+            audience: 'items-api',
+        });
+        const token = createToken(claims({ iss: 'https://issuer.example.com', aud: 'items-api' }));
+
+        // Act
+        const principal = await strict(bearer(token));
+
+        // Assert
+        expect(principal.subject).toBe('user-1');
+    });
+});
+
+// ========================================
+// API Gateway のオーソライザー
+// ========================================
+describe('createAuthenticator - API Gateway のオーソライザー', () => {
+    const authenticate = createAuthenticator({ mode: 'jwt', adminScope: 'items:admin' });
+
+    test.each([
+        ['REST API(claims)', { claims: { sub: 'user-2', scope: 'items:admin' } }],
+        ['HTTP API(jwt.claims)', { jwt: { claims: { sub: 'user-2', scope: 'items:admin' } } }],
+    ])('正常系：%s の検証済みクレームを使う', async (_label, authorizer) => {
+        // Act
+        const principal = await authenticate(createEvent({}, authorizer));
+
+        // Assert
+        expect(principal).toEqual({ subject: 'user-2', scopes: ['items:admin'], isAdmin: true });
+    });
+
+    test('異常系：クレームに sub がない場合は Invalid token', async () => {
+        // Act & Assert
+        await expect(authenticate(createEvent({}, { claims: {} }))).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    test('異常系：鍵が設定されていない場合、Bearerトークンは検証できない', async () => {
+        // Act & Assert
+        await expect(authenticate(bearer(createToken(claims())))).rejects.toBeInstanceOf(AuthenticationError);
+    });
+});
+
+// ========================================
+// 認証しない場合
+// ========================================
+describe('createAuthenticator - 認証しない(mode: none)', () => {
+    test('正常系：トークンなしでも管理者として扱う', async () => {
+        // Arrange
+        const authenticate = createAuthenticator({ mode: 'none', adminScope: 'items:admin' });
+
+        // Act
+        const principal = await authenticate(createEvent());
+
+        // Assert
+        expect(principal).toEqual({ subject: 'anonymous', scopes: [], isAdmin: true });
+    });
+});
+
+// ========================================
+// JWKS の取得
+// ========================================
+describe('createAuthenticator - JWKS の取得(jwksUrl)', () => {
+    let server: Server;
+    let jwksUrl: string;
+    let served: JsonWebKeySet;
+    let requestCount: number;
+
+    beforeEach(async () => {
+        served = { keys: [toJwk(rsaKeys.publicKey, 'rsa-1')] };
+        requestCount = 0;
+        server = createServer((_request, response) => {
+            requestCount++;
+            response.setHeader('Content-Type', 'application/json');
+            response.end(JSON.stringify(served));
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        jwksUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jwks.json`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('正常系：取得した鍵はキャッシュされる', async () => {
+        // Arrange
+        const authenticate = createAuthenticator({ mode: 'jwt', jwksUrl, adminScope: 'items:admin' });
+        const token = createToken(claims(), { alg: 'RS256', kid: 'rsa-1' }, rsaKeys.privateKey);
+
+        // Act
+        await authenticate(bearer(token));
+        await authenticate(bearer(token));
+
+        // Assert
+        expect(requestCount).toBe(1);
+    });
+
+    test('正常系：キャッシュの期限が切れたら取得し直し、新しい kid を使える', async () => {
+        // Arrange
+        const authenticate = createAuthenticator({
+            mode: 'jwt',
+            jwksUrl,
+            adminScope: 'items:admin',
+            jwksCacheSeconds: 0,
+        });
+        await authenticate(bearer(createToken(claims(), { alg: 'RS256', kid: 'rsa-1' }, rsaKeys.privateKey)));
+        const rotated = generateKeyPairSync('rsa', { modulusLength: 2048 });
+        served = { keys: [toJwk(rotated.publicKey, 'rsa-2')] };
+
+        // Act
+        const principal = await authenticate(
+            bearer(createToken(claims(), { alg: 'RS256', kid: 'rsa-2' }, rotated.privateKey))
+        );
+
+        // Assert
+        expect(principal.subject).toBe('user-1');
+        expect(requestCount).toBe(2);
+    });
+
+    /**
+     * セキュリティテスト：不正な kid による取得の連発
+     */
+    test('セキュリティ：知らない kid が続いても、1分以内に取得し直すのは1回まで', async () => {
+        // Arrange
+        const authenticate = createAuthenticator({ mode: 'jwt', jwksUrl, adminScope: 'items:admin' });
+        const token = createToken(claims(), { alg: 'RS256', kid: 'unknown' }, rsaKeys.privateKey);
+
+        // Act
+        for (let i = 0; i < 5; i++) {
+            await authenticate(bearer(token)).catch(() => undefined);
+        }
+
+        // Assert
+        expect(requestCount).toBe(1);
+    });
+});
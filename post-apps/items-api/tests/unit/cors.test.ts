@@ -0,0 +1,188 @@
+/**
+ * CORSの設定と判定のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. ワイルドカードのオリジンが意図しないオリジンに一致しないことの確認
+ * 2. プリフライトの許可・拒否のテスト
+ * 3. 設定ミス(環境変数)を起動時に検出するテスト
+ */
+
+import {
+    loadCorsOptions,
+    isOriginAllowed,
+    createCorsHeaders,
+    checkPreflight,
+    CorsOptions,
+    DEFAULT_CORS_OPTIONS,
+} from '../../cors';
+
+/**
+ * テスト用のCORSの設定を作成
+ */
+function createOptions(overrides: Partial<CorsOptions> = {}): CorsOptions {
+    return {
+        ...DEFAULT_CORS_OPTIONS,
+        allowedOrigins: ['https://app.example.com', 'https://*.preview.example.com'],
+        ...overrides,
+    };
+}
+
+// ========================================
+// loadCorsOptions のテスト
+// ========================================
+describe('loadCorsOptions - 環境変数からの読み込み', () => {
+    test('正常系：未設定の場合はデフォルトの設定(CORSは無効)', () => {
+        expect(loadCorsOptions({})).toEqual(DEFAULT_CORS_OPTIONS);
+        expect(DEFAULT_CORS_OPTIONS.allowedOrigins).toEqual([]);
+    });
+
+    test('正常系：カンマ区切りの一覧を読み込む', () => {
+        // Act
+        const options = loadCorsOptions({
+            CORS_ALLOWED_ORIGINS: 'https://app.example.com, http://localhost:*',
+            CORS_ALLOWED_METHODS: 'get,post',
+            CORS_ALLOW_CREDENTIALS: 'true',
+            CORS_MAX_AGE_SECONDS: '60',
+        });
+
+        // Assert
+        expect(options).toMatchObject({
+            allowedOrigins: ['https://app.example.com', 'http://localhost:*'],
+            allowedMethods: ['GET', 'POST'],
+            allowCredentials: true,
+            maxAgeSeconds: 60,
+        });
+    });
+
+    /**
+     * 異常系テスト：設定ミス
+     *
+     * 学習ポイント：
+     * - "*" と credentials の組み合わせは、どのサイトからでも Cookie 付きで呼べてしまう
+     */
+    test.each([
+        ['"*" と credentials', { CORS_ALLOWED_ORIGINS: '*', CORS_ALLOW_CREDENTIALS: 'true' }, "'*' cannot be used"],
+        ['オリジンの形式が不正', { CORS_ALLOWED_ORIGINS: 'app.example.com' }, 'Invalid CORS_ALLOWED_ORIGINS'],
+        ['パス付きのオリジン', { CORS_ALLOWED_ORIGINS: 'https://app.example.com/' }, 'Invalid CORS_ALLOWED_ORIGINS'],
+        ['credentials が真偽値でない', { CORS_ALLOW_CREDENTIALS: 'yes' }, 'Invalid CORS_ALLOW_CREDENTIALS'],
+        ['max age が数値でない', { CORS_MAX_AGE_SECONDS: '-1' }, 'Invalid CORS_MAX_AGE_SECONDS'],
+    ])('異常系：%sの場合は例外', (_label, env, message) => {
+        expect(() => loadCorsOptions(env)).toThrow(message);
+    });
+});
+
+// ========================================
+// isOriginAllowed のテスト
+// ========================================
+describe('isOriginAllowed - オリジンの照合', () => {
+    const options = createOptions();
+
+    test.each([
+        ['https://app.example.com'],
+        ['https://APP.example.com'],
+        ['https://pr-1.preview.example.com'],
+        ['https://a.b.preview.example.com'],
+    ])('正常系：%s は許可される', (origin) => {
+        expect(isOriginAllowed(origin, options)).toBe(true);
+    });
+
+    /**
+     * セキュリティテスト：似たオリジン
+     *
+     * 学習ポイント：
+     * - スキーム・サブドメイン・末尾が違うオリジンは、見た目が似ていても別のオリジン
+     */
+    test.each([
+        ['http://app.example.com'],
+        ['https://app.example.com.evil.com'],
+        ['https://evil-app.example.com'],
+        ['https://preview.example.com'],
+        ['https://evil.com/.preview.example.com'],
+        ['null'],
+    ])('セキュリティ：%s は許可されない', (origin) => {
+        expect(isOriginAllowed(origin, options)).toBe(false);
+    });
+
+    test('正常系：ポートのワイルドカード', () => {
+        const localhost = createOptions({ allowedOrigins: ['http://localhost:*'] });
+        expect(isOriginAllowed('http://localhost:5173', localhost)).toBe(true);
+        expect(isOriginAllowed('http://localhost.evil.com', localhost)).toBe(false);
+    });
+});
+
+// ========================================
+// createCorsHeaders のテスト
+// ========================================
+describe('createCorsHeaders - レスポンスのCORSヘッダー', () => {
+    test('正常系：許可されたオリジンにはそのオリジンを返す', () => {
+        // Act
+        const headers = createCorsHeaders('https://app.example.com', createOptions());
+
+        // Assert
+        expect(headers).toEqual({
+            Vary: 'Origin',
+            'Access-Control-Allow-Origin': 'https://app.example.com',
+            'Access-Control-Expose-Headers': DEFAULT_CORS_OPTIONS.exposedHeaders.join(', '),
+        });
+    });
+
+    test('正常系：credentials を許可する場合は Access-Control-Allow-Credentials を返す', () => {
+        // Act
+        const headers = createCorsHeaders('https://app.example.com', createOptions({ allowCredentials: true }));
+
+        // Assert
+        expect(headers['Access-Control-Allow-Credentials']).toBe('true');
+        expect(headers['Access-Control-Allow-Origin']).toBe('https://app.example.com');
+    });
+
+    test('正常系："*" の場合は Access-Control-Allow-Origin: *', () => {
+        expect(createCorsHeaders('https://any.example.org', createOptions({ allowedOrigins: ['*'] }))).toMatchObject({
+            'Access-Control-Allow-Origin': '*',
+        });
+    });
+
+    test('異常系：許可されていないオリジンには Vary だけを返す', () => {
+        expect(createCorsHeaders('https://evil.com', createOptions())).toEqual({ Vary: 'Origin' });
+        expect(createCorsHeaders(undefined, createOptions())).toEqual({ Vary: 'Origin' });
+    });
+
+    test('正常系：CORSが無効な場合はヘッダーなし', () => {
+        expect(createCorsHeaders('https://app.example.com', DEFAULT_CORS_OPTIONS)).toEqual({});
+    });
+});
+
+// ========================================
+// checkPreflight のテスト
+// ========================================
+describe('checkPreflight - プリフライトの判定', () => {
+    test('正常系：許可されたプリフライトには Access-Control-Allow-* を返す', () => {
+        // Act
+        const result = checkPreflight(
+            { origin: 'https://app.example.com', method: 'PATCH', headers: 'content-type, authorization, if-match' },
+            createOptions({ maxAgeSeconds: 120 })
+        );
+
+        // Assert
+        expect(result.allowed).toBe(true);
+        expect(result.headers).toMatchObject({
+            'Access-Control-Allow-Origin': 'https://app.example.com',
+            'Access-Control-Allow-Methods': DEFAULT_CORS_OPTIONS.allowedMethods.join(', '),
+            'Access-Control-Allow-Headers': DEFAULT_CORS_OPTIONS.allowedHeaders.join(', '),
+            'Access-Control-Max-Age': '120',
+        });
+        expect(result.headers.Vary).toContain('Origin');
+    });
+
+    test.each([
+        ['オリジン', { origin: 'https://evil.com', method: 'GET' }, 'CORS origin not allowed'],
+        ['メソッド', { origin: 'https://app.example.com', method: 'TRACE' }, 'CORS method not allowed'],
+        ['ヘッダー', { origin: 'https://app.example.com', method: 'GET', headers: 'X-Custom' }, 'CORS header not allowed'],
+    ])('異常系：%sが許可されていない場合は拒否', (_label, request, reason) => {
+        // Act
+        const result = checkPreflight(request, createOptions());
+
+        // Assert
+        expect(result).toMatchObject({ allowed: false, reason });
+        expect(result.headers).not.toHaveProperty('Access-Control-Allow-Origin');
+    });
+});
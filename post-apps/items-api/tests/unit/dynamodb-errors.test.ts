@@ -0,0 +1,125 @@
+/**
+ * DynamoDBのエラーの分類のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. SDKのエラー名・エラーコード・HTTPステータスコードによる分類のテスト
+ * 2. 再試行してよいエラーの判定のテスト
+ */
+
+import { classifyDynamoDBError, isTransientDynamoDBError } from '../../dynamodb-errors';
+import { ConditionFailedError } from '../../repository';
+
+/**
+ * SDKのエラーと同じ形のエラーを作成
+ */
+function createSdkError(name: string, message = name, extra: Record<string, unknown> = {}): Error {
+    return Object.assign(new Error(message), { name, ...extra });
+}
+
+// ========================================
+// classifyDynamoDBError のテスト
+// ========================================
+describe('classifyDynamoDBError - エラーの分類', () => {
+    test.each([
+        ['ConditionalCheckFailedException', 'CONDITIONAL_CHECK_FAILED', 409, false],
+        ['TransactionConflictException', 'TRANSACTION_CONFLICT', 409, true],
+        ['ValidationException', 'INVALID_REQUEST', 400, false],
+        ['ItemCollectionSizeLimitExceededException', 'ITEM_TOO_LARGE', 413, false],
+        ['ProvisionedThroughputExceededException', 'THROTTLED', 429, true],
+        ['ThrottlingException', 'THROTTLED', 429, true],
+        ['RequestLimitExceeded', 'THROTTLED', 429, true],
+        ['ServiceUnavailable', 'UNAVAILABLE', 503, true],
+        ['InternalServerError', 'UNAVAILABLE', 503, true],
+        ['ResourceNotFoundException', 'UNAVAILABLE', 503, false],
+        ['TimeoutError', 'TIMEOUT', 504, true],
+    ])('正常系：%s は %s(%i)', (name, kind, statusCode, retryable) => {
+        expect(classifyDynamoDBError(createSdkError(name))).toMatchObject({ kind, statusCode, retryable });
+    });
+
+    /**
+     * 正常系テスト：アイテムのサイズ超過
+     *
+     * 学習ポイント：
+     * - 同じ ValidationException でも、サイズ超過は413として区別する
+     */
+    test('正常系：サイズ超過の ValidationException は413', () => {
+        const error = createSdkError('ValidationException', 'Item size has exceeded the maximum allowed size');
+        expect(classifyDynamoDBError(error)).toMatchObject({ statusCode: 413, code: 'ITEM_TOO_LARGE' });
+    });
+
+    /**
+     * 正常系テスト：トランザクションの失敗
+     *
+     * 学習ポイント：
+     * - TransactionCanceledException は、None 以外の最初の理由(CancellationReasons)で分類する
+     */
+    test.each([
+        ['ConditionalCheckFailed', 'CONDITIONAL_CHECK_FAILED', 409],
+        ['TransactionConflict', 'TRANSACTION_CONFLICT', 409],
+        ['ThrottlingError', 'THROTTLED', 429],
+        ['ValidationError', 'INVALID_REQUEST', 400],
+        ['UnknownReason', 'UNAVAILABLE', 503],
+    ])('正常系：理由が %s のトランザクションの失敗は %s(%i)', (code, kind, statusCode) => {
+        // Arrange
+        const error = createSdkError('TransactionCanceledException', 'Transaction cancelled', {
+            CancellationReasons: [{ Code: 'None' }, { Code: code }],
+        });
+
+        // Act & Assert
+        expect(classifyDynamoDBError(error)).toMatchObject({ kind, statusCode });
+    });
+
+    test('正常系：リポジトリの ConditionFailedError は条件付き書き込みの失敗', () => {
+        expect(classifyDynamoDBError(new ConditionFailedError())?.kind).toBe('CONDITIONAL_CHECK_FAILED');
+    });
+
+    test.each([
+        ['ECONNRESET', 'UNAVAILABLE'],
+        ['EAI_AGAIN', 'UNAVAILABLE'],
+        ['ETIMEDOUT', 'TIMEOUT'],
+    ])('正常系：接続エラー(%s)は %s', (code, kind) => {
+        expect(classifyDynamoDBError(createSdkError('Error', 'socket error', { code }))?.kind).toBe(kind);
+    });
+
+    test('正常系：名前を知らないサーバー側のエラー(5xx)は一時的な障害', () => {
+        // Arrange
+        const error = createSdkError('UnknownError', 'unknown', { $fault: 'server', $metadata: { httpStatusCode: 500 } });
+
+        // Act & Assert
+        expect(classifyDynamoDBError(error)).toMatchObject({ kind: 'UNAVAILABLE', retryAfterSeconds: 1 });
+    });
+
+    test('正常系：Retry-After は混雑と一時的な障害の場合だけ', () => {
+        expect(classifyDynamoDBError(createSdkError('ThrottlingException'))?.retryAfterSeconds).toBe(1);
+        expect(classifyDynamoDBError(createSdkError('TimeoutError'))?.retryAfterSeconds).toBeUndefined();
+        expect(classifyDynamoDBError(createSdkError('ResourceNotFoundException'))?.retryAfterSeconds).toBeUndefined();
+    });
+
+    test.each([
+        ['通常のエラー', new Error('boom')],
+        ['TypeError', new TypeError('x is not a function')],
+        ['クライアント側の不明なエラー', createSdkError('UnknownError', 'unknown', { $fault: 'client' })],
+        ['文字列', 'error'],
+        ['null', null],
+    ])('異常系：%sは分類しない', (_label, error) => {
+        expect(classifyDynamoDBError(error)).toBeNull();
+    });
+});
+
+// ========================================
+// isTransientDynamoDBError のテスト
+// ========================================
+describe('isTransientDynamoDBError - 一時的なエラーの判定', () => {
+    test('正常系：混雑・一時的な障害・タイムアウトは一時的なエラー', () => {
+        expect(isTransientDynamoDBError(createSdkError('ProvisionedThroughputExceededException'))).toBe(true);
+        expect(isTransientDynamoDBError(createSdkError('ServiceUnavailable'))).toBe(true);
+        expect(isTransientDynamoDBError(createSdkError('TimeoutError'))).toBe(true);
+    });
+
+    test('異常系：リクエストの問題や設定ミスは一時的なエラーではない', () => {
+        expect(isTransientDynamoDBError(createSdkError('ValidationException'))).toBe(false);
+        expect(isTransientDynamoDBError(createSdkError('ConditionalCheckFailedException'))).toBe(false);
+        expect(isTransientDynamoDBError(createSdkError('ResourceNotFoundException'))).toBe(false);
+        expect(isTransientDynamoDBError(new Error('boom'))).toBe(false);
+    });
+});
@@ -0,0 +1,438 @@
+/**
+ * DynamoDBリポジトリのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. モックを使った、DynamoDBに送るコマンドの検証
+ * 2. トランザクション(TransactWriteCommand)の失敗理由の変換のテスト
+ * 3. DynamoDB Local を使った契約テスト(環境変数で有効化)
+ *
+ * === DynamoDB Local での実行方法 ===
+ * docker run -p 8000:8000 amazon/dynamodb-local
+ * DYNAMODB_ENDPOINT=http://localhost:8000 npm test -- dynamodb-repository
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { CreateTableCommand, DeleteTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+    DynamoDBDocumentClient,
+    QueryCommand,
+    BatchGetCommand,
+    TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { createDynamoDBItemRepository } from '../../dynamodb-repository';
+import { ConditionFailedError, InvalidCursorError } from '../../repository';
+import { describeItemRepositoryContract } from './repository-contract';
+
+// ログ出力(標準出力)をモック（テストログをきれいに保つ）
+let stdoutSpy: jest.SpyInstance;
+
+beforeEach(() => {
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+    stdoutSpy.mockRestore();
+});
+
+/**
+ * カーソル文字列を作成
+ */
+function cursorOf(key: Record<string, any>): string {
+    return Buffer.from(JSON.stringify(key), 'utf8').toString('base64url');
+}
+
+// ========================================
+// モックを使ったテスト
+// ========================================
+describe('DynamoDBItemRepository - 送信するコマンド', () => {
+    const ddbMock = mockClient(DynamoDBDocumentClient);
+    const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+    const repository = createDynamoDBItemRepository(client, {
+        tableName: 'TestItems',
+        historyTableName: 'TestItemsHistory',
+        retryBaseDelayMs: 1,
+    });
+
+    beforeEach(() => {
+        ddbMock.reset();
+    });
+
+    afterAll(() => {
+        ddbMock.restore();
+    });
+
+    /**
+     * 正常系テスト：アイテムと履歴のトランザクション
+     *
+     * 学習ポイント：
+     * - 1つ目の操作がアイテムの Put、2つ目が履歴エントリーの Put
+     * - 履歴エントリーは同じバージョンが既にあれば失敗する(上書きしない)
+     */
+    test('正常系：expected がない場合は attribute_not_exists(id) を条件に、履歴と一緒に書き込む', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+
+        // Act
+        await repository.put({ id: 'a', name: 'りんご', version: 1 }, undefined, {
+            actor: 'user-1',
+            timestamp: '2025-10-21T10:00:00.000Z',
+        });
+
+        // Assert
+        const [itemPut, historyPut] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+        expect(itemPut.Put).toMatchObject({
+            TableName: 'TestItems',
+            ConditionExpression: 'attribute_not_exists(id)',
+            Item: { tenantId: 'default', id: 'a', tenantName: 'default#りんご' },
+        });
+        expect(historyPut.Put).toMatchObject({
+            TableName: 'TestItemsHistory',
+            ConditionExpression: 'attribute_not_exists(version)',
+            Item: {
+                tenantItemId: 'default#a',
+                itemId: 'a',
+                version: 1,
+                operation: 'create',
+                changedAt: '2025-10-21T10:00:00.000Z',
+                changedBy: 'user-1',
+            },
+        });
+    });
+
+    test('正常系：物理削除はアイテムの Delete と履歴の Put のトランザクション', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+
+        // Act
+        await repository.delete('a', { id: 'a', version: 3 });
+
+        // Assert
+        const [itemDelete, historyPut] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+        expect(itemDelete.Delete).toMatchObject({ TableName: 'TestItems', Key: { tenantId: 'default', id: 'a' } });
+        expect(historyPut.Put!.Item).toMatchObject({ itemId: 'a', version: 4, operation: 'delete', changedBy: 'system' });
+    });
+
+    /**
+     * 異常系テスト：条件を満たさないトランザクション
+     *
+     * 学習ポイント：
+     * - トランザクションでは TransactionCanceledException の CancellationReasons で理由が分かる
+     */
+    test('異常系：ConditionalCheckFailed で取り消されたトランザクションは ConditionFailedError に変換される', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).rejects({
+            name: 'TransactionCanceledException',
+            CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+        } as any);
+
+        // Act & Assert
+        await expect(repository.put({ id: 'a', version: 2 }, { id: 'a', version: 1 })).rejects.toBeInstanceOf(
+            ConditionFailedError
+        );
+    });
+
+    test('異常系：それ以外のエラーはそのまま投げる', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).rejects({ name: 'ProvisionedThroughputExceededException' });
+
+        // Act & Assert
+        await expect(repository.put({ id: 'a', version: 1 }, undefined)).rejects.toMatchObject({
+            name: 'ProvisionedThroughputExceededException',
+        });
+    });
+
+    test.each([
+        ['条件なし', {}, undefined],
+        ['name', { name: 'りんご' }, 'ByName'],
+        ['priceMin', { priceMin: 100 }, 'ByPrice'],
+        ['createdAfter', { createdAfter: '2025-10-01T00:00:00.000Z' }, 'ByCreatedAt'],
+        ['name と sort=price', { name: 'りんご', sort: { field: 'price', descending: false } }, 'ByPrice'],
+    ])('正常系：%s の場合のインデックス', async (_label, filters, indexName) => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({ Items: [] });
+
+        // Act
+        await repository.list({ filters: filters as any, limit: 10 });
+
+        // Assert
+        // 使えるインデックスがなければ、テーブルをテナントで Query する(Scan はしない)
+        expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input.IndexName).toBe(indexName);
+    });
+
+    /**
+     * 正常系テスト：テナントのキー
+     *
+     * 学習ポイント：
+     * - Query のパーティションキーは必ずテナントになる(他のテナントのアイテムは読まない)
+     * - 読み取ったアイテムからはテナントのキーの属性を取り除く
+     */
+    test('正常系：forTenant のリポジトリはそのテナントのキーで読み書きする', async () => {
+        // Arrange
+        const acme = repository.forTenant('acme');
+        ddbMock.on(QueryCommand).resolves({
+            Items: [{ tenantId: 'acme', id: 'a', tenantName: 'acme#りんご', name: 'りんご' }],
+            LastEvaluatedKey: { tenantId: 'acme', id: 'a', tenantName: 'acme#りんご', createdAt: '2025-10-21' },
+        });
+
+        // Act
+        const byName = await acme.list({ filters: { name: 'りんご' }, limit: 1 });
+        await acme.list({ filters: {}, limit: 1 });
+
+        // Assert
+        const [nameQuery, tableQuery] = ddbMock.commandCalls(QueryCommand).map((call) => call.args[0].input);
+        expect(nameQuery).toMatchObject({
+            IndexName: 'ByName',
+            KeyConditionExpression: '#tenantName = :tenantName',
+            ExpressionAttributeValues: { ':tenantName': 'acme#りんご' },
+        });
+        expect(tableQuery).toMatchObject({
+            KeyConditionExpression: '#tenantId = :tenantId',
+            ExpressionAttributeValues: { ':tenantId': 'acme' },
+        });
+        expect(byName.items).toEqual([{ id: 'a', name: 'りんご' }]);
+        expect(byName.nextCursor).toBe(cursorOf({ id: 'a', createdAt: '2025-10-21' }));
+    });
+
+    test('正常系：カーソルにテナントを足して ExclusiveStartKey にする', async () => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({ Items: [] });
+        const cursor = cursorOf({ id: 'a', createdAt: '2025-10-21' });
+
+        // Act
+        await repository.forTenant('acme').list({ filters: { name: 'りんご' }, limit: 1, cursor });
+
+        // Assert
+        expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input.ExclusiveStartKey).toEqual({
+            tenantId: 'acme',
+            tenantName: 'acme#りんご',
+            id: 'a',
+            createdAt: '2025-10-21',
+        });
+    });
+
+    test('異常系：インデックスのキーと合わないカーソルは、DynamoDBに送る前に InvalidCursorError', async () => {
+        // Arrange
+        const cursor = cursorOf({ id: 'a' });
+
+        // Act & Assert
+        await expect(repository.list({ filters: { name: 'りんご' }, limit: 10, cursor })).rejects.toBeInstanceOf(
+            InvalidCursorError
+        );
+        expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+    });
+
+    test('正常系：履歴は tenantItemId で Query し、order で並び順を切り替える', async () => {
+        // Arrange
+        ddbMock.on(QueryCommand).resolves({
+            Items: [{ tenantItemId: 'default#a', itemId: 'a', version: 2 }],
+            LastEvaluatedKey: { tenantItemId: 'default#a', version: 2 },
+        });
+
+        // Act
+        const page = await repository.listHistory('a', { limit: 1, order: 'newest' });
+
+        // Assert
+        const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+        expect(input).toMatchObject({
+            TableName: 'TestItemsHistory',
+            ExpressionAttributeValues: { ':tenantItemId': 'default#a' },
+            Limit: 1,
+            ScanIndexForward: false,
+        });
+        expect(page.entries).toEqual([{ itemId: 'a', version: 2 }]);
+        expect(page.nextCursor).toBe(cursorOf({ version: 2 }));
+    });
+
+    test('異常系：一括作成のトランザクションが再試行しても失敗した場合は未処理分として返す', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).rejects({ name: 'ProvisionedThroughputExceededException' });
+
+        // Act
+        const result = await repository.batchPut([{ id: 'a', version: 1 }]);
+
+        // Assert
+        expect(result).toEqual({ unprocessed: [{ id: 'a', version: 1 }], conflictIds: [] });
+        // 最初の1回 + 再試行3回
+        expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(4);
+    });
+
+    /**
+     * 異常系テスト：一括作成の一部が既に存在する
+     *
+     * 学習ポイント：
+     * - CancellationReasons の位置(アイテム + 履歴の2操作ずつ)から既に存在したアイテムを見つける
+     * - そのアイテムだけを conflictIds にし、残りのアイテムでトランザクションを書き直す
+     */
+    test('異常系：一括作成で条件を満たさなかったアイテムだけを除き、残りを書き直す', async () => {
+        // Arrange
+        ddbMock
+            .on(TransactWriteCommand)
+            .rejectsOnce({
+                name: 'TransactionCanceledException',
+                CancellationReasons: [
+                    { Code: 'None' },
+                    { Code: 'None' },
+                    { Code: 'ConditionalCheckFailed' },
+                    { Code: 'None' },
+                    { Code: 'None' },
+                    { Code: 'None' },
+                ],
+            } as any)
+            .resolves({});
+
+        // Act
+        const result = await repository.batchPut([
+            { id: 'a', version: 1 },
+            { id: 'b', version: 1 },
+            { id: 'c', version: 1 },
+        ]);
+
+        // Assert
+        expect(result).toEqual({ unprocessed: [], conflictIds: ['b'] });
+        const calls = ddbMock.commandCalls(TransactWriteCommand);
+        expect(calls).toHaveLength(2);
+        const rewritten = calls[1].args[0].input.TransactItems!.map(({ Put }) => Put!.Item!.id ?? Put!.Item!.itemId);
+        expect(rewritten).toEqual(['a', 'a', 'c', 'c']);
+    });
+
+    test('正常系：expected に渡したアイテムはバージョンを条件にして置き換える', async () => {
+        // Arrange
+        ddbMock.on(TransactWriteCommand).resolves({});
+
+        // Act
+        const result = await repository.batchPut(
+            [
+                { id: 'a', version: 3 },
+                { id: 'b', version: 1 },
+            ],
+            undefined,
+            [{ id: 'a', version: 2, expiresAt: 1 }]
+        );
+
+        // Assert
+        expect(result).toEqual({ unprocessed: [], conflictIds: [] });
+        const [replaced, replacedHistory, created] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input
+            .TransactItems!;
+        expect(replaced.Put).toMatchObject({
+            ConditionExpression: 'version = :expectedVersion',
+            ExpressionAttributeValues: { ':expectedVersion': 2 },
+        });
+        expect(replacedHistory.Put!.Item).toMatchObject({ version: 3, operation: 'update' });
+        expect(created.Put!.ConditionExpression).toBe('attribute_not_exists(id)');
+    });
+
+    test('正常系：BatchGetCommand の未処理分(UnprocessedKeys)を再試行する', async () => {
+        // Arrange
+        ddbMock
+            .on(BatchGetCommand)
+            .resolvesOnce({
+                Responses: { TestItems: [{ id: 'a' }] },
+                UnprocessedKeys: { TestItems: { Keys: [{ id: 'b' }] } },
+            })
+            .resolvesOnce({ Responses: { TestItems: [{ id: 'b' }] } });
+
+        // Act
+        const result = await repository.batchGet(['a', 'b']);
+
+        // Assert
+        expect(result).toEqual({ items: [{ id: 'a' }, { id: 'b' }], unprocessedIds: [] });
+        expect(ddbMock.commandCalls(BatchGetCommand)).toHaveLength(2);
+    });
+});
+
+// ========================================
+// DynamoDB Local を使った契約テスト
+// ========================================
+/**
+ * 学習ポイント：
+ * - DYNAMODB_ENDPOINT が設定されている場合だけ実行する(CIなどで DynamoDB Local がない場合はスキップ)
+ * - テストごとに新しいテーブルを作り、テスト同士が影響しないようにする
+ * - テーブルとGSIの定義は template.yaml と同じにする(履歴のテーブルも作る)
+ */
+const describeWithDynamoDBLocal = process.env.DYNAMODB_ENDPOINT ? describe : describe.skip;
+
+describeWithDynamoDBLocal('DynamoDBItemRepository - DynamoDB Local', () => {
+    const rawClient = new DynamoDBClient({
+        endpoint: process.env.DYNAMODB_ENDPOINT,
+        region: 'local',
+        credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+    });
+    const client = DynamoDBDocumentClient.from(rawClient);
+    let tableName: string | undefined;
+    let tableCount = 0;
+
+    afterEach(async () => {
+        if (tableName) {
+            await rawClient.send(new DeleteTableCommand({ TableName: tableName }));
+            await rawClient.send(new DeleteTableCommand({ TableName: `${tableName}History` }));
+            tableName = undefined;
+        }
+    });
+
+    afterAll(() => {
+        rawClient.destroy();
+    });
+
+    describeItemRepositoryContract(async () => {
+        tableName = `ItemsContractTest${Date.now()}${tableCount++}`;
+        const projection = { ProjectionType: 'ALL' as const };
+        await rawClient.send(
+            new CreateTableCommand({
+                TableName: tableName,
+                BillingMode: 'PAY_PER_REQUEST',
+                AttributeDefinitions: [
+                    { AttributeName: 'tenantId', AttributeType: 'S' },
+                    { AttributeName: 'id', AttributeType: 'S' },
+                    { AttributeName: 'tenantName', AttributeType: 'S' },
+                    { AttributeName: 'createdAt', AttributeType: 'S' },
+                    { AttributeName: 'price', AttributeType: 'N' },
+                ],
+                KeySchema: [
+                    { AttributeName: 'tenantId', KeyType: 'HASH' },
+                    { AttributeName: 'id', KeyType: 'RANGE' },
+                ],
+                GlobalSecondaryIndexes: [
+                    {
+                        IndexName: 'ByName',
+                        KeySchema: [
+                            { AttributeName: 'tenantName', KeyType: 'HASH' },
+                            { AttributeName: 'createdAt', KeyType: 'RANGE' },
+                        ],
+                        Projection: projection,
+                    },
+                    {
+                        IndexName: 'ByCreatedAt',
+                        KeySchema: [
+                            { AttributeName: 'tenantId', KeyType: 'HASH' },
+                            { AttributeName: 'createdAt', KeyType: 'RANGE' },
+                        ],
+                        Projection: projection,
+                    },
+                    {
+                        IndexName: 'ByPrice',
+                        KeySchema: [
+                            { AttributeName: 'tenantId', KeyType: 'HASH' },
+                            { AttributeName: 'price', KeyType: 'RANGE' },
+                        ],
+                        Projection: projection,
+                    },
+                ],
+            })
+        );
+        await rawClient.send(
+            new CreateTableCommand({
+                TableName: `${tableName}History`,
+                BillingMode: 'PAY_PER_REQUEST',
+                AttributeDefinitions: [
+                    { AttributeName: 'tenantItemId', AttributeType: 'S' },
+                    { AttributeName: 'version', AttributeType: 'N' },
+                ],
+                KeySchema: [
+                    { AttributeName: 'tenantItemId', KeyType: 'HASH' },
+                    { AttributeName: 'version', KeyType: 'RANGE' },
+                ],
+            })
+        );
+        return createDynamoDBItemRepository(client, { tableName, historyTableName: `${tableName}History` });
+    });
+});
@@ -0,0 +1,284 @@
+/**
+ * 変更イベントの発行先のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. aws-sdk-client-mock で EventBridge・SNS のクライアントをモックする方法
+ * 2. 10件ずつの分割と、一部だけが失敗した場合のテスト
+ * 3. インメモリの発行先と、複数の発行先の組み合わせのテスト
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { SNSClient, PublishBatchCommand } from '@aws-sdk/client-sns';
+import {
+    createEventBridgePublisher,
+    createSnsPublisher,
+    createInMemoryEventPublisher,
+    combinePublishers,
+} from '../../event-publisher';
+import { ItemChangeEvent } from '../../events';
+
+const eventBridgeMock = mockClient(EventBridgeClient);
+const snsMock = mockClient(SNSClient);
+
+/**
+ * テスト用のイベントを作成
+ */
+function createEvents(count: number): ItemChangeEvent[] {
+    return Array.from({ length: count }, (_, i) => ({
+        id: `event-${i}`,
+        type: 'item.created',
+        tenantId: 'default',
+        itemId: `item-${i}`,
+        version: 1,
+        occurredAt: '2025-10-21T10:30:00.000Z',
+        newImage: { id: `item-${i}`, name: `商品${i}`, version: 1 },
+    }));
+}
+
+// ログ出力(標準出力)をモック
+let stdoutSpy: jest.SpyInstance;
+
+beforeEach(() => {
+    eventBridgeMock.reset();
+    snsMock.reset();
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+    stdoutSpy.mockRestore();
+});
+
+// ========================================
+// EventBridge のテスト
+// ========================================
+describe('createEventBridgePublisher - EventBridge', () => {
+    const publisher = createEventBridgePublisher(new EventBridgeClient({}), {
+        eventBusName: 'test-bus',
+        source: 'items-api',
+    });
+
+    test('正常系：10件ずつ PutEvents で発行し、DetailType はイベントの種類', async () => {
+        // Arrange
+        eventBridgeMock.on(PutEventsCommand).callsFake((input) => ({
+            FailedEntryCount: 0,
+            Entries: input.Entries.map((_: unknown, i: number) => ({ EventId: `eb-${i}` })),
+        }));
+        const events = createEvents(12);
+
+        // Act
+        const failed = await publisher.publish(events);
+
+        // Assert
+        expect(failed).toEqual([]);
+        const calls = eventBridgeMock.commandCalls(PutEventsCommand);
+        expect(calls.map((call) => call.args[0].input.Entries?.length)).toEqual([10, 2]);
+        expect(calls[0].args[0].input.Entries?.[0]).toMatchObject({
+            EventBusName: 'test-bus',
+            Source: 'items-api',
+            DetailType: 'item.created',
+            Detail: JSON.stringify(events[0]),
+        });
+    });
+
+    /**
+     * 異常系テスト：一部のエントリーの失敗
+     *
+     * 学習ポイント：
+     * - PutEvents は例外にならず、失敗したエントリーに ErrorCode が入る
+     * - 最初に失敗したイベントから後ろを返す(ストリームからそのイベント以降が再試行される)
+     */
+    test('異常系：ErrorCode のあるエントリーから後ろを発行できなかったイベントとして返す', async () => {
+        // Arrange
+        eventBridgeMock.on(PutEventsCommand).resolves({
+            FailedEntryCount: 1,
+            Entries: [{ EventId: 'eb-0' }, { ErrorCode: 'InternalFailure', ErrorMessage: 'failed' }, { EventId: 'eb-2' }],
+        });
+        const events = createEvents(3);
+
+        // Act
+        const failed = await publisher.publish(events);
+
+        // Assert
+        expect(failed).toEqual([events[1], events[2]]);
+    });
+
+    test('異常系：PutEvents が例外になった場合は、その10件から後ろを発行せずに返す', async () => {
+        // Arrange
+        eventBridgeMock
+            .on(PutEventsCommand)
+            .rejectsOnce(Object.assign(new Error('throttled'), { name: 'ThrottlingException' }))
+            .resolves({ FailedEntryCount: 0, Entries: [{ EventId: 'eb-0' }] });
+        const events = createEvents(11);
+
+        // Act
+        const failed = await publisher.publish(events);
+
+        // Assert
+        expect(failed).toEqual(events);
+        expect(eventBridgeMock.commandCalls(PutEventsCommand)).toHaveLength(1);
+    });
+
+    /**
+     * 正常系テスト：同じアイテムのイベント
+     *
+     * 学習ポイント：
+     * - 1回の PutEvents の中では順番が保証されず、一部だけが失敗することもある
+     * - 同じアイテムのイベントを別の PutEvents に分けると、後の変更が先に届くことがない
+     */
+    test('正常系：同じアイテムのイベントは別の PutEvents に分けて順番に発行する', async () => {
+        // Arrange
+        eventBridgeMock.on(PutEventsCommand).callsFake((input) => ({
+            FailedEntryCount: 0,
+            Entries: input.Entries.map((_: unknown, i: number) => ({ EventId: `eb-${i}` })),
+        }));
+        const [created, other] = createEvents(2);
+        const updated = { ...created, id: 'event-updated', type: 'item.updated' as const, version: 2 };
+
+        // Act
+        const failed = await publisher.publish([created, other, updated]);
+
+        // Assert
+        expect(failed).toEqual([]);
+        const details = eventBridgeMock
+            .commandCalls(PutEventsCommand)
+            .map((call) => call.args[0].input.Entries!.map((entry) => JSON.parse(entry.Detail!).id));
+        expect(details).toEqual([['event-0', 'event-1'], ['event-updated']]);
+    });
+});
+
+// ========================================
+// SNS のテスト
+// ========================================
+describe('createSnsPublisher - SNS', () => {
+    const publisher = createSnsPublisher(new SNSClient({}), { topicArn: 'arn:aws:sns:us-east-1:123456789012:items' });
+
+    test('正常系：10件ずつ PublishBatch で発行し、メッセージ属性 eventType を付ける', async () => {
+        // Arrange
+        snsMock.on(PublishBatchCommand).resolves({ Successful: [], Failed: [] });
+        const events = createEvents(11);
+
+        // Act
+        const failed = await publisher.publish(events);
+
+        // Assert
+        expect(failed).toEqual([]);
+        const calls = snsMock.commandCalls(PublishBatchCommand);
+        expect(calls.map((call) => call.args[0].input.PublishBatchRequestEntries?.length)).toEqual([10, 1]);
+        expect(calls[0].args[0].input).toMatchObject({
+            TopicArn: 'arn:aws:sns:us-east-1:123456789012:items',
+        });
+        expect(calls[0].args[0].input.PublishBatchRequestEntries?.[0]).toEqual({
+            Id: '0',
+            Message: JSON.stringify(events[0]),
+            MessageAttributes: { eventType: { DataType: 'String', StringValue: 'item.created' } },
+        });
+    });
+
+    test('異常系：Failed のエントリーから後ろを発行できなかったイベントとして返し、残りは発行しない', async () => {
+        // Arrange
+        snsMock.on(PublishBatchCommand).resolves({
+            Successful: [{ Id: '0' }],
+            Failed: [{ Id: '1', Code: 'InternalError', SenderFault: false }],
+        });
+        const events = createEvents(12);
+
+        // Act
+        const failed = await publisher.publish(events);
+
+        // Assert
+        expect(failed).toEqual(events.slice(1));
+        expect(snsMock.commandCalls(PublishBatchCommand)).toHaveLength(1);
+    });
+
+    test('異常系：PublishBatch が例外になった場合は、すべて発行できなかったイベントとして返す', async () => {
+        // Arrange
+        snsMock.on(PublishBatchCommand).rejects(new Error('network error'));
+        const events = createEvents(2);
+
+        // Act & Assert
+        await expect(publisher.publish(events)).resolves.toEqual(events);
+    });
+});
+
+// ========================================
+// インメモリのテスト
+// ========================================
+describe('createInMemoryEventPublisher - インメモリ', () => {
+    test('正常系：発行したイベントを順に保存する', async () => {
+        // Arrange
+        const publisher = createInMemoryEventPublisher();
+        const events = createEvents(2);
+
+        // Act
+        const failed = await publisher.publish(events);
+
+        // Assert
+        expect(failed).toEqual([]);
+        expect(publisher.published).toEqual(events);
+    });
+
+    test('正常系：shouldFail で指定したイベントから後ろは発行せず、発行できなかったイベントとして返す', async () => {
+        // Arrange
+        const publisher = createInMemoryEventPublisher((event) => event.id === 'event-1');
+        const events = createEvents(3);
+
+        // Act
+        const failed = await publisher.publish(events);
+
+        // Assert
+        expect(failed).toEqual([events[1], events[2]]);
+        expect(publisher.published.map((event) => event.id)).toEqual(['event-0']);
+    });
+});
+
+// ========================================
+// 複数の発行先のテスト
+// ========================================
+describe('combinePublishers - 複数の発行先', () => {
+    test('正常系：すべての発行先に同じイベントを発行する', async () => {
+        // Arrange
+        const first = createInMemoryEventPublisher();
+        const second = createInMemoryEventPublisher();
+        const events = createEvents(2);
+
+        // Act
+        const failed = await combinePublishers(first, second).publish(events);
+
+        // Assert
+        expect(failed).toEqual([]);
+        expect(first.published).toEqual(events);
+        expect(second.published).toEqual(events);
+    });
+
+    test('異常系：どれか1つの発行先で最初に失敗したイベントから後ろを返す', async () => {
+        // Arrange
+        const first = createInMemoryEventPublisher((event) => event.id === 'event-2');
+        const second = createInMemoryEventPublisher((event) => event.id === 'event-1');
+        const events = createEvents(3);
+
+        // Act
+        const failed = await combinePublishers(first, second).publish(events);
+
+        // Assert
+        expect(failed).toEqual([events[1], events[2]]);
+        expect(first.published.map((event) => event.id)).toEqual(['event-0', 'event-1']);
+        expect(second.published.map((event) => event.id)).toEqual(['event-0']);
+    });
+
+    test('正常系：呼び出しごとの発行の状況(Lambdaの残り時間)をすべての発行先に渡す', async () => {
+        // Arrange
+        const publish = jest.fn().mockResolvedValue([]);
+        const context = { getRemainingTimeInMillis: () => 60000 };
+        const events = createEvents(1);
+
+        // Act
+        await combinePublishers({ publish }, { publish }).publish(events, context);
+
+        // Assert
+        expect(publish.mock.calls).toEqual([
+            [events, context],
+            [events, context],
+        ]);
+    });
+});
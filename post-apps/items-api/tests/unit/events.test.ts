@@ -0,0 +1,135 @@
+/**
+ * アイテムの変更イベントのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. ストリームのレコードの種類(INSERT / MODIFY / REMOVE)ごとの変換のテスト
+ * 2. 論理削除と物理削除の区別のテスト
+ * 3. 変換できないレコードのテスト
+ */
+
+import { toItemChangeEvent, InvalidStreamRecordError, isMigrationRecord } from '../../events';
+import { createStreamRecord } from './stream-records';
+
+const item = { id: 'item-1', name: '商品', price: 1000, ownerId: 'user-1', version: 1 };
+
+// ========================================
+// toItemChangeEvent のテスト
+// ========================================
+describe('toItemChangeEvent - ストリームのレコードの変換', () => {
+    test('正常系：INSERT は item.created(変更後のアイテムのみ)', () => {
+        // Act
+        const event = toItemChangeEvent(createStreamRecord('INSERT', undefined, item));
+
+        // Assert
+        expect(event).toEqual({
+            id: 'event-100',
+            type: 'item.created',
+            tenantId: 'default',
+            itemId: 'item-1',
+            version: 1,
+            occurredAt: '2025-10-21T10:30:00.000Z',
+            newImage: item,
+        });
+    });
+
+    test('正常系：MODIFY は item.updated(変更前と変更後のアイテム)', () => {
+        // Arrange
+        const updated = { ...item, price: 1200, version: 2 };
+
+        // Act
+        const event = toItemChangeEvent(createStreamRecord('MODIFY', item, updated));
+
+        // Assert
+        expect(event).toMatchObject({ type: 'item.updated', version: 2, oldImage: item, newImage: updated });
+        expect(event.deletion).toBeUndefined();
+    });
+
+    /**
+     * 正常系テスト：論理削除と復元
+     *
+     * 学習ポイント：
+     * - deletedAt が新しく付いた MODIFY は item.deleted、deletedAt が消えた MODIFY(復元)は item.updated
+     */
+    test('正常系：deletedAt が付いた MODIFY は item.deleted(論理削除)', () => {
+        // Arrange
+        const deleted = { ...item, deletedAt: '2025-10-21T10:30:00.000Z', version: 2 };
+
+        // Act
+        const event = toItemChangeEvent(createStreamRecord('MODIFY', item, deleted));
+        const restored = toItemChangeEvent(createStreamRecord('MODIFY', deleted, { ...item, version: 3 }));
+
+        // Assert
+        expect(event).toMatchObject({ type: 'item.deleted', deletion: 'soft', version: 2, newImage: deleted });
+        expect(restored.type).toBe('item.updated');
+    });
+
+    test('正常系：REMOVE は item.deleted(物理削除。変更前のアイテムのみ)', () => {
+        // Act
+        const event = toItemChangeEvent(createStreamRecord('REMOVE', item, undefined));
+
+        // Assert
+        expect(event).toMatchObject({ type: 'item.deleted', deletion: 'hard', version: 1, oldImage: item });
+        expect(event.newImage).toBeUndefined();
+    });
+
+    test('正常系：テナントはキーから取り出し、アイテムからはテナントのキーの属性を取り除く', () => {
+        // Act
+        const event = toItemChangeEvent(createStreamRecord('MODIFY', item, { ...item, version: 2 }, '100', 'acme'));
+
+        // Assert
+        expect(event.tenantId).toBe('acme');
+        expect(event.oldImage).toEqual(item);
+        expect(event.newImage).toEqual({ ...item, version: 2 });
+    });
+
+    test('正常系：TTL による REMOVE は item.deleted(有効期限による削除)', () => {
+        // Arrange
+        const record = {
+            ...createStreamRecord('REMOVE', item, undefined),
+            userIdentity: { type: 'Service', principalId: 'dynamodb.amazonaws.com' },
+        };
+
+        // Act
+        const event = toItemChangeEvent(record);
+
+        // Assert
+        expect(event).toMatchObject({ type: 'item.deleted', deletion: 'expired', version: 1, oldImage: item });
+    });
+
+    test.each([
+        ['INSERT に NewImage がない', createStreamRecord('INSERT', undefined, undefined)],
+        ['MODIFY に OldImage がない', createStreamRecord('MODIFY', undefined, item)],
+        ['REMOVE に OldImage がない', createStreamRecord('REMOVE', undefined, item)],
+        ['eventID がない', { ...createStreamRecord('INSERT', undefined, item), eventID: undefined }],
+        ['id が数値', createStreamRecord('INSERT', undefined, { ...item, id: 1 })],
+        ['eventName が不明', { ...createStreamRecord('INSERT', undefined, item), eventName: undefined }],
+    ])('異常系：%s場合は InvalidStreamRecordError', (_label, record) => {
+        expect(() => toItemChangeEvent(record)).toThrow(InvalidStreamRecordError);
+    });
+});
+
+// ========================================
+// isMigrationRecord のテスト
+// ========================================
+describe('isMigrationRecord - 移行スクリプトが書き込んだレコードの判定', () => {
+    /**
+     * 正常系テスト：移行の印
+     *
+     * 学習ポイント：
+     * - 変更後のアイテムに migratedFrom があるレコードだけが移行のレコード
+     * - 移行の後にAPIで変更すると印は消えるので、その変更は普通のイベントになる(印はイベントにも含まれない)
+     */
+    test('正常系：変更後のアイテムに migratedFrom があるレコードだけが移行のレコード', () => {
+        // Arrange
+        const migrated = createStreamRecord('INSERT', undefined, item);
+        migrated.dynamodb!.NewImage!.migratedFrom = { S: 'Items' };
+        const modified = createStreamRecord('MODIFY', item, { ...item, version: 2 });
+        modified.dynamodb!.OldImage!.migratedFrom = { S: 'Items' };
+
+        // Act & Assert
+        expect(isMigrationRecord(migrated)).toBe(true);
+        expect(isMigrationRecord(createStreamRecord('INSERT', undefined, item))).toBe(false);
+        expect(isMigrationRecord(modified)).toBe(false);
+        expect(toItemChangeEvent(modified).oldImage).toEqual(item);
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * アイテムの変更履歴のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 差分(JSON Patch)の作成と適用のテスト
+ * 2. 変更の種類(作成・更新・削除)の判定のテスト
+ * 3. 履歴からの復元のテスト
+ */
+
+import {
+    createHistoryEntry,
+    diffItems,
+    applyChanges,
+    reconstructItem,
+    encodeHistoryCursor,
+    decodeHistoryCursor,
+    HistoryEntry,
+} from '../../history';
+import { InvalidCursorError } from '../../repository';
+
+const context = { actor: 'user-1', timestamp: '2025-10-21T10:00:00.000Z' };
+
+// ========================================
+// diffItems / applyChanges のテスト
+// ========================================
+describe('diffItems - 差分の作成', () => {
+    test('正常系：追加・削除・置き換えをフィールド名の順に返す', () => {
+        // Arrange
+        const before = { id: 'a', name: '商品', description: '説明', tags: ['x'] };
+        const after = { id: 'a', name: '新商品', price: 100, tags: ['x'] };
+
+        // Act
+        const changes = diffItems(before, after);
+
+        // Assert
+        expect(changes).toEqual([
+            { op: 'remove', path: '/description' },
+            { op: 'replace', path: '/name', value: '新商品' },
+            { op: 'add', path: '/price', value: 100 },
+        ]);
+    });
+
+    /**
+     * 正常系テスト：ネストしたオブジェクト
+     *
+     * 学習ポイント：
+     * - 中身が同じなら変更なし、違えばフィールドごと置き換える
+     */
+    test('正常系：ネストしたオブジェクトは内容で比較する', () => {
+        expect(diffItems({ dimensions: { width: 10 } }, { dimensions: { width: 10 } })).toEqual([]);
+        expect(diffItems({ dimensions: { width: 10 } }, { dimensions: { width: 20 } })).toEqual([
+            { op: 'replace', path: '/dimensions', value: { width: 20 } },
+        ]);
+        expect(diffItems({ tags: ['a', 'b'] }, { tags: { 0: 'a', 1: 'b' } })).toHaveLength(1);
+    });
+
+    test('正常系：/ や ~ を含むフィールド名はエスケープする', () => {
+        // Act
+        const changes = diffItems({}, { 'a/b': 1, 'c~d': 2 });
+
+        // Assert
+        expect(changes.map((change) => change.path)).toEqual(['/a~1b', '/c~0d']);
+        expect(applyChanges({}, changes)).toEqual({ 'a/b': 1, 'c~d': 2 });
+    });
+});
+
+describe('applyChanges - 差分の適用', () => {
+    test('正常系：差分を適用すると変更後のアイテムになり、元のアイテムは変わらない', () => {
+        // Arrange
+        const before = { id: 'a', name: '商品', description: '説明' };
+        const after = { id: 'a', name: '新商品', price: 100 };
+
+        // Act
+        const result = applyChanges(before, diffItems(before, after));
+
+        // Assert
+        expect(result).toEqual(after);
+        expect(before).toEqual({ id: 'a', name: '商品', description: '説明' });
+    });
+});
+
+// ========================================
+// createHistoryEntry のテスト
+// ========================================
+describe('createHistoryEntry - 履歴エントリーの作成', () => {
+    const item = { id: 'a', name: '商品', ownerId: 'user-1', version: 1 };
+
+    test.each([
+        ['作成', undefined, item, 'create', 1],
+        ['更新', item, { ...item, name: '新商品', version: 2 }, 'update', 2],
+        ['論理削除', item, { ...item, deletedAt: '2025-10-21T10:00:00.000Z', version: 2 }, 'delete', 2],
+        ['復元', { ...item, deletedAt: 'x', version: 2 }, { ...item, version: 3 }, 'update', 3],
+        ['物理削除', { ...item, version: 5 }, undefined, 'delete', 6],
+    ])('正常系：%sは %s(バージョン%i)', (_label, before, after, operation, version) => {
+        // Act
+        const entry = createHistoryEntry(before, after, context);
+
+        // Assert
+        expect(entry).toMatchObject({
+            itemId: 'a',
+            operation,
+            version,
+            changedAt: context.timestamp,
+            changedBy: 'user-1',
+            ownerId: 'user-1',
+        });
+    });
+
+    test('正常系：書き込みの情報を省略した場合は system と現在時刻', () => {
+        // Act
+        const entry = createHistoryEntry(undefined, item);
+
+        // Assert
+        expect(entry.changedBy).toBe('system');
+        expect(Date.parse(entry.changedAt)).not.toBeNaN();
+    });
+
+    test('異常系：変更前も変更後もない場合は例外', () => {
+        expect(() => createHistoryEntry(undefined, undefined, context)).toThrow('Either before or after is required');
+    });
+});
+
+// ========================================
+// reconstructItem のテスト
+// ========================================
+describe('reconstructItem - 履歴からの復元', () => {
+    const v1 = { id: 'a', name: '商品', version: 1 };
+    const v2 = { id: 'a', name: '新商品', price: 100, version: 2 };
+    const entries: HistoryEntry[] = [
+        createHistoryEntry(undefined, v1, context),
+        createHistoryEntry(v1, v2, context),
+        createHistoryEntry(v2, undefined, context),
+    ];
+
+    test('正常系：古い順に差分を適用して、その時点のアイテムを復元する', () => {
+        expect(reconstructItem(entries.slice(0, 1))).toEqual(v1);
+        expect(reconstructItem(entries.slice(0, 2))).toEqual(v2);
+    });
+
+    test('正常系：物理削除された後はundefined', () => {
+        expect(reconstructItem(entries)).toBeUndefined();
+    });
+
+    /**
+     * 正常系テスト：同じIDで作り直したアイテム
+     *
+     * 学習ポイント：
+     * - TTL による削除は履歴に残らないため、delete のエントリーなしで create が続くことがある
+     * - create からは復元し直し、前のアイテムのフィールド(price)を引き継がない
+     */
+    test('正常系：作り直した後は新しいアイテムだけを復元する', () => {
+        // Arrange
+        const recreated = { id: 'a', name: '作り直した商品', version: 3 };
+
+        // Act
+        const item = reconstructItem([...entries.slice(0, 2), createHistoryEntry(undefined, recreated, context)]);
+
+        // Assert
+        expect(item).toEqual(recreated);
+    });
+
+    /**
+     * 異常系テスト：履歴を記録する前からあるアイテム
+     *
+     * 学習ポイント：
+     * - 最初のエントリーが create でなければ、途中からの差分しかないので復元できない
+     */
+    test('異常系：最初のエントリーが作成でない場合は復元できない', () => {
+        expect(reconstructItem(entries.slice(1))).toBeUndefined();
+        expect(reconstructItem([])).toBeUndefined();
+    });
+});
+
+// ========================================
+// カーソルのテスト
+// ========================================
+describe('encodeHistoryCursor / decodeHistoryCursor - カーソル', () => {
+    test('正常系：バージョンをカーソルにして戻せる', () => {
+        expect(decodeHistoryCursor(encodeHistoryCursor(3))).toBe(3);
+    });
+
+    test.each([
+        ['base64url でない', '%%%'],
+        ['version がない', Buffer.from(JSON.stringify({ id: 'a' })).toString('base64url')],
+        ['version が文字列', Buffer.from(JSON.stringify({ version: '3' })).toString('base64url')],
+        ['余分なキー', Buffer.from(JSON.stringify({ version: 3, itemId: 'b' })).toString('base64url')],
+    ])('異常系：%sカーソルは InvalidCursorError', (_label, cursor) => {
+        expect(() => decodeHistoryCursor(cursor)).toThrow(InvalidCursorError);
+    });
+});
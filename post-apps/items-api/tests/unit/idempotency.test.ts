@@ -0,0 +1,118 @@
+/**
+ * Idempotency-Key(冪等キー)のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 条件付き書き込み(ConditionExpression)の入力の検証
+ * 2. 登録済みのレコードの状態ごとの判定のテスト
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { hashRequest, startIdempotentRequest, IdempotencyOptions } from '../../idempotency';
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const options: IdempotencyOptions = { tableName: 'TestIdempotency', ttlSeconds: 3600, lockSeconds: 30 };
+
+beforeEach(() => {
+    ddbMock.reset();
+});
+
+/**
+ * 条件付き書き込みの失敗を表すエラーを作成
+ */
+function conditionalCheckFailed(): Error {
+    const error = new Error('The conditional request failed');
+    error.name = 'ConditionalCheckFailedException';
+    return error;
+}
+
+// ========================================
+// hashRequest のテスト
+// ========================================
+describe('hashRequest - リクエストのハッシュ値', () => {
+    test('正常系：同じボディとクエリパラメータは同じハッシュ値', () => {
+        expect(hashRequest('{"name":"A"}', { upsert: 'true', a: '1' })).toBe(
+            hashRequest('{"name":"A"}', { a: '1', upsert: 'true' })
+        );
+    });
+
+    test.each([
+        ['ボディが違う', '{"name":"B"}', null],
+        ['クエリパラメータが違う', '{"name":"A"}', { upsert: 'true' }],
+    ])('正常系：%s場合は違うハッシュ値', (_label, body, query) => {
+        expect(hashRequest(body, query)).not.toBe(hashRequest('{"name":"A"}', null));
+    });
+});
+
+// ========================================
+// startIdempotentRequest のテスト
+// ========================================
+describe('startIdempotentRequest - 冪等キーの登録', () => {
+    /**
+     * 正常系テスト：初めてのキー
+     *
+     * 学習ポイント：
+     * - 期限切れ(TTLによる削除待ち)のレコードや、ロックの切れた処理中のレコードは上書きできる
+     */
+    test('正常系：初めてのキーはIN_PROGRESSとして登録される', async () => {
+        // Arrange
+        ddbMock.on(PutCommand).resolves({});
+        const now = Math.floor(Date.now() / 1000);
+
+        // Act
+        const result = await startIdempotentRequest(client, options, 'key-1', 'hash-1');
+
+        // Assert
+        expect(result).toEqual({ state: 'started' });
+        const input = ddbMock.commandCalls(PutCommand)[0].args[0].input;
+        expect(input.TableName).toBe('TestIdempotency');
+        expect(input.Item).toMatchObject({ idempotencyKey: 'key-1', requestHash: 'hash-1', status: 'IN_PROGRESS' });
+        expect(input.Item!.expiresAt - now).toBeGreaterThanOrEqual(3600);
+        expect(input.Item!.lockExpiresAt - now).toBeGreaterThanOrEqual(30);
+        expect(input.ConditionExpression).toContain('attribute_not_exists(idempotencyKey)');
+        expect(input.ConditionExpression).toContain('expiresAt < :now');
+        expect(input.ConditionExpression).toContain('lockExpiresAt < :now');
+    });
+
+    /**
+     * 正常系テスト：登録済みのキー
+     */
+    test.each([
+        [
+            '処理済み・同じリクエスト',
+            { requestHash: 'hash-1', status: 'COMPLETED', response: { statusCode: 201, headers: {}, body: '{}' } },
+            { state: 'replay', response: { statusCode: 201, headers: {}, body: '{}' } },
+        ],
+        ['処理済み・違うリクエスト', { requestHash: 'hash-2', status: 'COMPLETED' }, { state: 'mismatch' }],
+        ['処理中・同じリクエスト', { requestHash: 'hash-1', status: 'IN_PROGRESS' }, { state: 'inProgress' }],
+        ['処理中・違うリクエスト', { requestHash: 'hash-2', status: 'IN_PROGRESS' }, { state: 'mismatch' }],
+    ])('正常系：%sの場合', async (_label, record, expected) => {
+        // Arrange
+        ddbMock.on(PutCommand).rejects(conditionalCheckFailed());
+        ddbMock.on(GetCommand).resolves({ Item: { idempotencyKey: 'key-1', ...record } });
+
+        // Act
+        const result = await startIdempotentRequest(client, options, 'key-1', 'hash-1');
+
+        // Assert
+        expect(result).toEqual(expected);
+        expect(ddbMock.commandCalls(GetCommand)[0].args[0].input.ConsistentRead).toBe(true);
+    });
+
+    /**
+     * 異常系テスト：DynamoDBの障害
+     */
+    test('異常系：条件付き書き込みの失敗以外のエラーはそのまま投げる', async () => {
+        // Arrange
+        ddbMock.on(PutCommand).rejects({ name: 'ResourceNotFoundException' });
+
+        // Act & Assert
+        await expect(startIdempotentRequest(client, options, 'key-1', 'hash-1')).rejects.toMatchObject({
+            name: 'ResourceNotFoundException',
+        });
+        expect(ddbMock.commandCalls(GetCommand)).toHaveLength(0);
+    });
+});
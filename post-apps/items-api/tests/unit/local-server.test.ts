@@ -0,0 +1,192 @@
+/**
+ * ローカル開発用HTTPサーバーのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 実際にHTTPサーバーを起動して fetch でリクエストするテスト
+ * 2. ポート0(空いているポートを自動で選ぶ)を使ったテストの並列実行
+ */
+
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { createLambdaHandler, createRequestAuthenticator } from '../../app';
+import { createInMemoryItemRepository } from '../../memory-repository';
+import { createLocalServer, LocalHandler, matchResource } from '../../local-server';
+
+// ログ出力(標準出力)をモック（テストログをきれいに保つ）
+let stdoutSpy: jest.SpyInstance;
+
+beforeEach(() => {
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+    stdoutSpy.mockRestore();
+});
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * サーバーを起動してベースURLを返す
+ */
+async function startServer(handler: LocalHandler): Promise<{ server: Server; baseUrl: string }> {
+    const server = createLocalServer(handler);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+/**
+ * サーバーを停止する
+ */
+function stopServer(server: Server): Promise<void> {
+    return new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+}
+
+// ========================================
+// matchResource のテスト
+// ========================================
+describe('matchResource - パステンプレートの照合', () => {
+    test.each([
+        ['/items', '/items', null],
+        ['/items/abc', '/items/{id}', { id: 'abc' }],
+        ['/items/abc/restore', '/items/{id}/restore', { id: 'abc' }],
+        ['/items/abc/attachments/f1', '/items/{id}/attachments/{attachmentId}', { id: 'abc', attachmentId: 'f1' }],
+        ['/items:batch', '/items:batch', null],
+        ['/items:batchGet', '/items:batchGet', null],
+        ['/api-keys/abc', '/api-keys/{keyId}', { keyId: 'abc' }],
+        ['/webhooks/abc/deliveries', '/webhooks/{webhookId}/deliveries', { webhookId: 'abc' }],
+        ['/openapi.json', '/openapi.json', null],
+        ['/items/%E3%81%82', '/items/{id}', { id: 'あ' }],
+        ['/tenants/acme/items/abc', '/tenants/{tenantId}/items/{id}', { tenantId: 'acme', id: 'abc' }],
+        ['/tenants/acme/items:batch', '/tenants/{tenantId}/items:batch', { tenantId: 'acme' }],
+    ])('正常系：%s は %s に一致する', (path, resource, pathParameters) => {
+        expect(matchResource(path)).toEqual({ resource, pathParameters });
+    });
+
+    test.each([['/'], ['/users'], ['/items/a/b'], ['/items/%E0%A4%A']])('異常系：%s はどれにも一致しない', (path) => {
+        expect(matchResource(path)).toBeNull();
+    });
+});
+
+// ========================================
+// HTTPサーバーのテスト
+// ========================================
+describe('createLocalServer - ローカルHTTPサーバー', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    afterEach(async () => {
+        await stopServer(server);
+    });
+
+    /**
+     * 正常系テスト：インメモリリポジトリを使ったAPIの呼び出し
+     *
+     * 学習ポイント：
+     * - AWSアカウントなしで、HTTP経由で作成から取得まで確認できる
+     */
+    test('正常系：作成したアイテムをHTTP経由で取得できる', async () => {
+        // Arrange
+        ({ server, baseUrl } = await startServer(
+            createLambdaHandler(createInMemoryItemRepository(), createRequestAuthenticator('none'))
+        ));
+
+        // Act
+        const created = await fetch(`${baseUrl}/items`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'ローカル商品', price: 100 }),
+        });
+        const { id } = await created.json();
+        const retrieved = await fetch(`${baseUrl}/items/${id}`);
+
+        // Assert
+        expect(created.status).toBe(201);
+        expect(created.headers.get('content-type')).toBe('application/json');
+        expect(retrieved.status).toBe(200);
+        expect(retrieved.headers.get('etag')).toBe('"1"');
+        expect(await retrieved.json()).toMatchObject({ id, name: 'ローカル商品', price: 100 });
+    });
+
+    test('正常系：リクエストが API Gateway のイベントに変換される', async () => {
+        // Arrange
+        const handler = jest.fn<ReturnType<LocalHandler>, Parameters<LocalHandler>>().mockResolvedValue({
+            statusCode: 200,
+            body: '{}',
+        });
+        ({ server, baseUrl } = await startServer(handler));
+
+        // Act
+        await fetch(`${baseUrl}/items/item%201/restore?force=true&tag=a&tag=b`, {
+            method: 'POST',
+            headers: { 'If-Match': '"3"' },
+            body: '{"a":1}',
+        });
+
+        // Assert
+        const [event, context] = handler.mock.calls[0];
+        expect(event).toMatchObject<Partial<APIGatewayProxyEvent>>({
+            httpMethod: 'POST',
+            path: '/items/item%201/restore',
+            resource: '/items/{id}/restore',
+            pathParameters: { id: 'item 1' },
+            queryStringParameters: { force: 'true', tag: 'b' },
+            multiValueQueryStringParameters: { force: ['true'], tag: ['a', 'b'] },
+            body: '{"a":1}',
+            isBase64Encoded: false,
+        });
+        expect(event.headers['If-Match']).toBe('"3"');
+        expect(event.requestContext.requestId).toEqual(expect.any(String));
+        expect(context?.awsRequestId).toEqual(expect.any(String));
+        expect(context?.getRemainingTimeInMillis()).toBeGreaterThan(0);
+    });
+
+    test('正常系：ボディもクエリパラメータもない場合は null', async () => {
+        // Arrange
+        const handler = jest.fn<ReturnType<LocalHandler>, Parameters<LocalHandler>>().mockResolvedValue({
+            statusCode: 304,
+            body: '',
+        });
+        ({ server, baseUrl } = await startServer(handler));
+
+        // Act
+        const response = await fetch(`${baseUrl}/items`);
+
+        // Assert
+        expect(response.status).toBe(304);
+        const [event] = handler.mock.calls[0];
+        expect(event.body).toBeNull();
+        expect(event.queryStringParameters).toBeNull();
+        expect(event.pathParameters).toBeNull();
+    });
+
+    test('異常系：定義されていないパスはハンドラーを呼ばずに404', async () => {
+        // Arrange
+        const handler = jest.fn();
+        ({ server, baseUrl } = await startServer(handler));
+
+        // Act
+        const response = await fetch(`${baseUrl}/users`);
+
+        // Assert
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ message: 'Not Found' });
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('異常系：ハンドラーが例外を投げた場合は502', async () => {
+        // Arrange
+        ({ server, baseUrl } = await startServer(async () => {
+            throw new Error('boom');
+        }));
+
+        // Act
+        const response = await fetch(`${baseUrl}/items`);
+
+        // Assert
+        expect(response.status).toBe(502);
+        expect(await response.json()).toEqual({ message: 'Internal server error' });
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * 構造化ログのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 出力先を差し替えてログの内容を検証する方法
+ * 2. ログレベルとマスキングのテスト
+ * 3. 非同期処理をまたいだコンテキストの受け渡しのテスト
+ */
+
+import { createLogger, runWithLogContext, setLogContext } from '../../logger';
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * 出力された行をJSONとして集めるロガーを作成する
+ */
+function createTestLogger(options: { level?: string; redactFields?: string } = {}) {
+    const lines: Record<string, any>[] = [];
+    const logger = createLogger({ ...options, write: (line) => lines.push(JSON.parse(line)) });
+    return { logger, lines };
+}
+
+// ========================================
+// ログレベルのテスト
+// ========================================
+describe('createLogger - ログレベル', () => {
+    /**
+     * 正常系テスト：デフォルトは info 以上
+     */
+    test('正常系：デフォルトでは debug は出力されない', () => {
+        // Arrange
+        const { logger, lines } = createTestLogger();
+
+        // Act
+        logger.debug('debug message');
+        logger.info('info message');
+        logger.error('error message');
+
+        // Assert
+        expect(lines.map((line) => line.level)).toEqual(['info', 'error']);
+    });
+
+    /**
+     * 正常系テスト：レベルの指定
+     *
+     * 学習ポイント：
+     * - 大文字・小文字や前後の空白は無視する
+     * - 不正な値は info として扱う
+     */
+    test.each([
+        ['debug', ['debug', 'info', 'warn', 'error']],
+        [' WARN ', ['warn', 'error']],
+        ['error', ['error']],
+        ['verbose', ['info', 'warn', 'error']],
+    ])('正常系：LOG_LEVEL=%p の場合は %p が出力される', (level, expected) => {
+        // Arrange
+        const { logger, lines } = createTestLogger({ level });
+
+        // Act
+        logger.debug('m');
+        logger.info('m');
+        logger.warn('m');
+        logger.error('m');
+
+        // Assert
+        expect(lines.map((line) => line.level)).toEqual(expected);
+    });
+
+    /**
+     * 正常系テスト：1行の形式
+     */
+    test('正常系：timestamp, level, message と追加の項目が出力される', () => {
+        // Arrange
+        const { logger, lines } = createTestLogger();
+
+        // Act
+        logger.info('Item created', { itemId: 'item-1', statusCode: 201 });
+
+        // Assert
+        expect(lines).toEqual([
+            {
+                timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+                level: 'info',
+                message: 'Item created',
+                itemId: 'item-1',
+                statusCode: 201,
+            },
+        ]);
+    });
+
+    /**
+     * 正常系テスト：Error の出力
+     *
+     * 学習ポイント：
+     * - そのまま JSON.stringify すると {} になる Error も内容が残る
+     */
+    test('正常系：Errorはname, message, stackが出力される', () => {
+        // Arrange
+        const { logger, lines } = createTestLogger();
+        const error = new TypeError('boom');
+
+        // Act
+        logger.error('Failed', { error });
+
+        // Assert
+        expect(lines[0].error).toEqual({ name: 'TypeError', message: 'boom', stack: expect.any(String) });
+    });
+});
+
+// ========================================
+// マスキングのテスト
+// ========================================
+describe('createLogger - マスキング', () => {
+    /**
+     * セキュリティテスト：デフォルトのマスキング
+     *
+     * 学習ポイント：
+     * - ネストしたオブジェクトや配列の中もマスキングされる
+     * - フィールド名の大文字・小文字は区別しない
+     */
+    test('セキュリティ：個人情報のフィールドはマスキングされる', () => {
+        // Arrange
+        const { logger, lines } = createTestLogger();
+
+        // Act
+        logger.info('Request received', {
+            body: { name: '商品', Email: 'user@example.com', contacts: [{ phone: '090-0000-0000' }] },
+        });
+
+        // Assert
+        expect(lines[0].body).toEqual({
+            name: '商品',
+            Email: '[REDACTED]',
+            contacts: [{ phone: '[REDACTED]' }],
+        });
+    });
+
+    /**
+     * 正常系テスト：マスキング対象の変更
+     */
+    test('正常系：LOG_REDACT_FIELDSでマスキング対象を変更できる', () => {
+        // Arrange
+        const { logger, lines } = createTestLogger({ redactFields: 'name, secret' });
+
+        // Act
+        logger.info('m', { name: '商品', secret: 's', email: 'user@example.com' });
+
+        // Assert
+        expect(lines[0]).toMatchObject({ name: '[REDACTED]', secret: '[REDACTED]', email: 'user@example.com' });
+    });
+
+    /**
+     * 正常系テスト：元のデータを変更しない
+     */
+    test('正常系：redactは元のオブジェクトを変更しない', () => {
+        // Arrange
+        const { logger } = createTestLogger();
+        const data = { password: 'p', nested: { token: 't' } };
+
+        // Act
+        const redacted = logger.redact(data);
+
+        // Assert
+        expect(redacted).toEqual({ password: '[REDACTED]', nested: { token: '[REDACTED]' } });
+        expect(data).toEqual({ password: 'p', nested: { token: 't' } });
+    });
+});
+
+// ========================================
+// リクエストコンテキストのテスト
+// ========================================
+describe('runWithLogContext - リクエストコンテキスト', () => {
+    /**
+     * 正常系テスト：await をまたいだコンテキスト
+     */
+    test('正常系：awaitの後のログにもコンテキストが付与される', async () => {
+        // Arrange
+        const { logger, lines } = createTestLogger();
+
+        // Act
+        await runWithLogContext({ awsRequestId: 'aws-1', requestId: 'req-1' }, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            setLogContext({ route: 'GET /items' });
+            logger.info('inside');
+        });
+        logger.info('outside');
+
+        // Assert
+        expect(lines[0]).toMatchObject({ awsRequestId: 'aws-1', requestId: 'req-1', route: 'GET /items' });
+        expect(lines[1].awsRequestId).toBeUndefined();
+    });
+
+    /**
+     * 正常系テスト：同時に処理されるリクエスト
+     *
+     * 学習ポイント：
+     * - 並行して実行しても、それぞれのリクエストのIDが混ざらない
+     */
+    test('正常系：並行するリクエストのコンテキストは混ざらない', async () => {
+        // Arrange
+        const { logger, lines } = createTestLogger();
+        const handle = (id: string, delayMs: number) =>
+            runWithLogContext({ awsRequestId: id }, async () => {
+                await new Promise((resolve) => setTimeout(resolve, delayMs));
+                logger.info('done', { expected: id });
+            });
+
+        // Act
+        await Promise.all([handle('a', 5), handle('b', 1)]);
+
+        // Assert
+        expect(lines).toHaveLength(2);
+        for (const line of lines) {
+            expect(line.awsRequestId).toBe(line.expected);
+        }
+    });
+
+    /**
+     * 正常系テスト：コンテキストの外では何もしない
+     */
+    test('正常系：コンテキストの外でsetLogContextしても影響しない', () => {
+        // Arrange
+        const { logger, lines } = createTestLogger();
+
+        // Act
+        setLogContext({ route: 'GET /items' });
+        logger.info('m');
+
+        // Assert
+        expect(lines[0].route).toBeUndefined();
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * インメモリリポジトリのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 契約テスト(repository-contract.ts)の実行方法
+ */
+
+import { createInMemoryItemRepository } from '../../memory-repository';
+import { describeItemRepositoryContract } from './repository-contract';
+
+describe('InMemoryItemRepository', () => {
+    describeItemRepositoryContract(async () => createInMemoryItemRepository());
+
+    test('正常系：initialItems のアイテムが最初から保存されている', async () => {
+        // Arrange
+        const repository = createInMemoryItemRepository([{ id: 'a', name: 'サンプル', version: 1 }]);
+
+        // Act
+        const result = await repository.get('a');
+
+        // Assert
+        expect(result).toEqual({ id: 'a', name: 'サンプル', version: 1 });
+    });
+});
@@ -0,0 +1,200 @@
+/**
+ * テナントへの移行スクリプトのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. Scan のページネーションをモックで再現するテスト
+ * 2. BatchWriteCommand の未処理分(UnprocessedItems)の再試行のテスト
+ * 3. 移行したレコードがリポジトリの保存形式になっていることの確認
+ */
+
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchWriteCommand, DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { migrateToTenant } from '../../migrate-tenants';
+
+// ログ出力(標準出力)をモック（テストログをきれいに保つ）
+let stdoutSpy: jest.SpyInstance;
+
+beforeEach(() => {
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+    stdoutSpy.mockRestore();
+});
+
+/**
+ * BatchWriteCommand で書き込んだレコードを取り出す
+ */
+function writtenRecords(ddbMock: ReturnType<typeof mockClient>, tableName: string): Record<string, any>[] {
+    return ddbMock
+        .commandCalls(BatchWriteCommand)
+        .flatMap((call) => call.args[0].input.RequestItems?.[tableName] ?? [])
+        .map((request) => request.PutRequest!.Item!);
+}
+
+describe('migrateToTenant - デフォルトのテナントへの移行', () => {
+    const ddbMock = mockClient(DynamoDBDocumentClient);
+    const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+    const options = {
+        sourceTableName: 'Items',
+        targetTableName: 'TenantItems',
+        sourceHistoryTableName: 'ItemsHistory',
+        targetHistoryTableName: 'TenantItemsHistory',
+        retryBaseDelayMs: 0,
+    };
+
+    beforeEach(() => {
+        ddbMock.reset();
+        ddbMock.on(BatchWriteCommand).resolves({});
+    });
+
+    /**
+     * 正常系テスト：アイテムと履歴の移行
+     *
+     * 学習ポイント：
+     * - アイテムには tenantId と tenantName、履歴には tenantItemId が付く
+     * - アイテムには移行の印(migratedFrom)が付き、ストリームから変更イベントとして発行されない
+     * - 以前の listPartition は、属性からも履歴の差分からも取り除かれる
+     */
+    test('正常系：アイテムと履歴をデフォルトのテナントに移す', async () => {
+        // Arrange
+        ddbMock.on(ScanCommand, { TableName: 'Items' }).resolves({
+            Items: [{ id: 'item-1', name: '商品', price: 100, version: 1, listPartition: 'ITEM' }],
+        });
+        ddbMock.on(ScanCommand, { TableName: 'ItemsHistory' }).resolves({
+            Items: [
+                {
+                    itemId: 'item-1',
+                    version: 1,
+                    operation: 'create',
+                    changedAt: '2024-01-01T00:00:00.000Z',
+                    changedBy: 'user-1',
+                    changes: [
+                        { op: 'add', path: '/id', value: 'item-1' },
+                        { op: 'add', path: '/listPartition', value: 'ITEM' },
+                        { op: 'add', path: '/name', value: '商品' },
+                    ],
+                },
+            ],
+        });
+
+        // Act
+        const result = await migrateToTenant(client, options);
+
+        // Assert
+        expect(result).toEqual({ items: 1, historyEntries: 1 });
+        expect(writtenRecords(ddbMock, 'TenantItems')).toEqual([
+            {
+                tenantId: 'default',
+                tenantName: 'default#商品',
+                id: 'item-1',
+                name: '商品',
+                price: 100,
+                version: 1,
+                migratedFrom: 'Items',
+            },
+        ]);
+        const [entry] = writtenRecords(ddbMock, 'TenantItemsHistory');
+        expect(entry.tenantItemId).toBe('default#item-1');
+        expect(entry.changes).toEqual([
+            { op: 'add', path: '/id', value: 'item-1' },
+            { op: 'add', path: '/name', value: '商品' },
+        ]);
+    });
+
+    test('正常系：移行先のテナントを指定できる', async () => {
+        // Arrange
+        ddbMock.on(ScanCommand).resolves({ Items: [{ id: 'item-1', listPartition: 'ITEM' }] });
+
+        // Act
+        await migrateToTenant(client, {
+            sourceTableName: 'Items',
+            targetTableName: 'TenantItems',
+            tenantId: 'acme',
+        });
+
+        // Assert
+        expect(writtenRecords(ddbMock, 'TenantItems')).toEqual([{ tenantId: 'acme', id: 'item-1', migratedFrom: 'Items' }]);
+        expect(ddbMock.commandCalls(ScanCommand)).toHaveLength(1);
+    });
+
+    /**
+     * 正常系テスト：ページネーション
+     *
+     * 学習ポイント：
+     * - LastEvaluatedKey を次の Scan の ExclusiveStartKey にする
+     * - BatchWriteCommand は25件ずつに分ける
+     */
+    test('正常系：すべてのページを読み、25件ずつ書き込む', async () => {
+        // Arrange
+        const firstPage = Array.from({ length: 30 }, (_, i) => ({ id: `item-${i}` }));
+        ddbMock
+            .on(ScanCommand, { TableName: 'Items' })
+            .resolvesOnce({ Items: firstPage, LastEvaluatedKey: { id: 'item-29' } })
+            .resolvesOnce({ Items: [{ id: 'item-30' }] });
+        ddbMock.on(ScanCommand, { TableName: 'ItemsHistory' }).resolves({ Items: [] });
+
+        // Act
+        const result = await migrateToTenant(client, options);
+
+        // Assert
+        expect(result).toEqual({ items: 31, historyEntries: 0 });
+        const scans = ddbMock.commandCalls(ScanCommand, { TableName: 'Items' });
+        expect(scans[1].args[0].input.ExclusiveStartKey).toEqual({ id: 'item-29' });
+        const batchSizes = ddbMock
+            .commandCalls(BatchWriteCommand)
+            .map((call) => call.args[0].input.RequestItems!.TenantItems.length);
+        expect(batchSizes).toEqual([25, 5, 1]);
+    });
+
+    test('正常系：未処理分(UnprocessedItems)を再試行する', async () => {
+        // Arrange
+        ddbMock.on(ScanCommand, { TableName: 'Items' }).resolves({ Items: [{ id: 'item-1' }, { id: 'item-2' }] });
+        ddbMock.on(ScanCommand, { TableName: 'ItemsHistory' }).resolves({ Items: [] });
+        ddbMock
+            .on(BatchWriteCommand)
+            .resolvesOnce({
+                UnprocessedItems: {
+                    TenantItems: [{ PutRequest: { Item: { tenantId: 'default', id: 'item-2' } } }],
+                },
+            })
+            .resolves({});
+
+        // Act
+        await migrateToTenant(client, options);
+
+        // Assert
+        const calls = ddbMock.commandCalls(BatchWriteCommand);
+        expect(calls).toHaveLength(2);
+        expect(calls[1].args[0].input.RequestItems!.TenantItems).toEqual([
+            { PutRequest: { Item: { tenantId: 'default', id: 'item-2' } } },
+        ]);
+    });
+
+    test('異常系：再試行しても未処理分が残る場合は例外', async () => {
+        // Arrange
+        ddbMock.on(ScanCommand).resolves({ Items: [{ id: 'item-1' }] });
+        ddbMock.on(BatchWriteCommand).resolves({
+            UnprocessedItems: { TenantItems: [{ PutRequest: { Item: { tenantId: 'default', id: 'item-1' } } }] },
+        });
+
+        // Act & Assert
+        await expect(migrateToTenant(client, { ...options, maxRetries: 2 })).rejects.toThrow(
+            'Failed to write 1 records to TenantItems'
+        );
+        expect(ddbMock.commandCalls(BatchWriteCommand)).toHaveLength(3);
+    });
+
+    test('異常系：履歴のテーブルは移行元と移行先の両方を指定する', async () => {
+        // Act & Assert
+        await expect(
+            migrateToTenant(client, {
+                sourceTableName: 'Items',
+                targetTableName: 'TenantItems',
+                sourceHistoryTableName: 'ItemsHistory',
+            })
+        ).rejects.toThrow('sourceHistoryTableName and targetHistoryTableName must be set together');
+        expect(ddbMock.commandCalls(ScanCommand)).toHaveLength(0);
+    });
+});
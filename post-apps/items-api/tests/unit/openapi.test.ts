@@ -0,0 +1,292 @@
+/**
+ * OpenAPI の仕様書の生成のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 仕様書と template.yaml(API Gateway のルート)がずれていないことを確認するテスト
+ * 2. $ref の参照先が存在することの確認
+ * 3. スキーマ定義(schema.ts)から JSON Schema への変換のテスト
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getOpenApiDocument } from '../../app';
+import { createOpenApiDocument, toJsonSchema, DocumentedRoute, OpenApiOptions } from '../../openapi';
+import { ERROR_CODES } from '../../problem';
+import { DEFAULT_ATTACHMENT_OPTIONS } from '../../attachments';
+import { DEFAULT_ITEM_SCHEMA } from '../../schema';
+
+/**
+ * テスト用の生成の設定
+ */
+const options: OpenApiOptions = {
+    title: 'Test API',
+    version: '0.0.1',
+    itemSchema: DEFAULT_ITEM_SCHEMA,
+    maxIdLength: 255,
+    maxBatchItems: 100,
+    maxItemTtlSeconds: 31536000,
+    maxAttachmentsPerItem: 20,
+    attachments: DEFAULT_ATTACHMENT_OPTIONS,
+    maxApiKeyNameLength: 100,
+    maxRateLimitCapacity: 10000,
+    maxRateLimitRefillPerSecond: 1000,
+};
+
+/**
+ * template.yaml に定義されているルート(OPTIONS とテナントのパスを除く)を読み込む
+ *
+ * 学習ポイント：
+ * - template.yaml には !Ref などの独自のタグがあるため、YAMLとして読み込まずに Path と Method の行だけを取り出す
+ * - /tenants/{tenantId}/{proxy+} は /items のルートをテナントを指定して呼び出すためのパスなので、仕様書には含まれない
+ */
+function loadTemplateRoutes(): { method: string; path: string }[] {
+    const template = readFileSync(join(__dirname, '../../../template.yaml'), 'utf8');
+    const routes: { method: string; path: string }[] = [];
+    for (const match of template.matchAll(/^\s+Path: (\S+)\n\s+Method: (\S+)$/gm)) {
+        const [, path, method] = match;
+        if (method.toUpperCase() !== 'OPTIONS' && !path.startsWith('/tenants/')) {
+            routes.push({ method: method.toLowerCase(), path });
+        }
+    }
+    return routes;
+}
+
+/**
+ * ドキュメントに含まれる $ref をすべて集める
+ */
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+    if (Array.isArray(value)) {
+        value.forEach((child) => collectRefs(child, refs));
+    } else if (typeof value === 'object' && value !== null) {
+        for (const [key, child] of Object.entries(value)) {
+            if (key === '$ref' && typeof child === 'string') {
+                refs.push(child);
+            } else {
+                collectRefs(child, refs);
+            }
+        }
+    }
+    return refs;
+}
+
+// ========================================
+// 仕様書と template.yaml の照合
+// ========================================
+describe('getOpenApiDocument - このAPIの仕様書', () => {
+    const document = getOpenApiDocument();
+    const templateRoutes = loadTemplateRoutes();
+
+    /**
+     * 正常系テスト：ルートの漏れ
+     *
+     * 学習ポイント：
+     * - template.yaml にルートを追加して ROUTES に追加し忘れると、このテストが失敗する
+     */
+    test('正常系：template.yaml のすべてのルートが仕様書に含まれる', () => {
+        expect(templateRoutes.length).toBeGreaterThan(0);
+        const missing = templateRoutes.filter(({ method, path }) => document.paths[path]?.[method] === undefined);
+        expect(missing).toEqual([]);
+    });
+
+    test('正常系：仕様書のすべてのルートが template.yaml に含まれる', () => {
+        const documented = Object.entries(document.paths).flatMap(([path, operations]) =>
+            Object.keys(operations).map((method) => ({ method, path }))
+        );
+        expect(documented).toHaveLength(templateRoutes.length);
+        expect(documented).toEqual(expect.arrayContaining(templateRoutes));
+    });
+
+    test('正常系：$ref の参照先がすべて存在する', () => {
+        // Act
+        const refs = [...new Set(collectRefs(document))];
+
+        // Assert
+        const missing = refs.filter((ref) => {
+            const [, section, name] = /^#\/components\/(\w+)\/(\w+)$/.exec(ref) ?? [];
+            return document.components[section]?.[name] === undefined;
+        });
+        expect(refs.length).toBeGreaterThan(0);
+        expect(missing).toEqual([]);
+    });
+
+    test('正常系：operationId は一意', () => {
+        const ids = Object.values(document.paths).flatMap((operations) =>
+            Object.values(operations).map((operation) => (operation as { operationId: string }).operationId)
+        );
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    /**
+     * 正常系テスト：エラーレスポンス
+     *
+     * 学習ポイント：
+     * - すべてのエラーは共通の Error スキーマ(createErrorResponse の problem+json の形式)を参照する
+     * - レガシー形式(application/json)は LegacyError スキーマで記述する
+     */
+    test('正常系：エラーレスポンスは共通の Error スキーマを参照する', () => {
+        const getItem = document.paths['/items/{id}'].get as { responses: Record<string, unknown> };
+        expect(getItem.responses['404']).toEqual({ $ref: '#/components/responses/Error404' });
+        expect(document.components.responses.Error404).toEqual({
+            description: expect.any(String),
+            content: {
+                'application/problem+json': { schema: { $ref: '#/components/schemas/Error' } },
+                'application/json': { schema: { $ref: '#/components/schemas/LegacyError' } },
+            },
+        });
+    });
+
+    test('正常系：Error スキーマの code は定義済みのエラーコードだけを許可する', () => {
+        const error = document.components.schemas.Error as { required: string[]; properties: Record<string, any> };
+        expect(error.required).toEqual(['type', 'title', 'status', 'detail', 'code']);
+        expect(error.properties.code.enum).toEqual(Object.keys(ERROR_CODES));
+    });
+
+    test('正常系：GET /openapi.json は認証なしで呼び出せる', () => {
+        const operation = document.paths['/openapi.json'].get as Record<string, unknown>;
+        expect(operation.security).toEqual([]);
+        expect(operation.responses).not.toHaveProperty('401');
+        expect(document.security).toEqual([{ bearerAuth: [] }, { apiKey: [] }]);
+    });
+});
+
+// ========================================
+// createOpenApiDocument のテスト
+// ========================================
+describe('createOpenApiDocument - 仕様書の生成', () => {
+    const routes: DocumentedRoute[] = [
+        {
+            method: 'GET',
+            path: '/items/{id}',
+            docs: {
+                summary: '取得',
+                tag: 'items',
+                headers: ['IfNoneMatch'],
+                responses: { 200: { description: 'アイテム', schema: 'Item', headers: ['ETag'] } },
+                errors: [404],
+            },
+        },
+        {
+            method: 'PATCH',
+            path: '/items/{id}',
+            docs: {
+                summary: '部分更新',
+                tag: 'items',
+                requestBody: 'ItemPatch',
+                requestContentType: 'application/merge-patch+json',
+                responses: { 200: { description: 'アイテム', schema: 'Item' } },
+                errors: [],
+            },
+        },
+    ];
+
+    test('正常系：同じパスの操作は1つのパスにまとめられる', () => {
+        // Act
+        const document = createOpenApiDocument(routes, options);
+
+        // Assert
+        expect(document.openapi).toBe('3.1.0');
+        expect(Object.keys(document.paths)).toEqual(['/items/{id}']);
+        expect(Object.keys(document.paths['/items/{id}'])).toEqual(['get', 'patch']);
+    });
+
+    test('正常系：パスパラメータと操作の内容を生成する', () => {
+        // Act
+        const operation = createOpenApiDocument(routes, options).paths['/items/{id}'].get as Record<string, any>;
+
+        // Assert
+        expect(operation.operationId).toBe('getItemsById');
+        expect(operation.parameters).toEqual([
+            { name: 'id', in: 'path', required: true, schema: { type: 'string', minLength: 1, maxLength: 255 } },
+            { $ref: '#/components/parameters/IfNoneMatch' },
+            { $ref: '#/components/parameters/TenantId' },
+        ]);
+        expect(operation.responses['200']).toEqual({
+            description: 'アイテム',
+            headers: { ETag: { $ref: '#/components/headers/ETag' } },
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } },
+        });
+    });
+
+    /**
+     * 正常系テスト：共通のエラー
+     *
+     * 学習ポイント：
+     * - 認証が必要なルートには 401 / 429 / 500、/items のルートにはテナントの 400 / 403 が自動で追加される
+     */
+    test('正常系：認証が必要なルートには共通のエラーが追加される', () => {
+        // Act
+        const operation = createOpenApiDocument(routes, options).paths['/items/{id}'].get as Record<string, any>;
+
+        // Assert
+        expect(Object.keys(operation.responses)).toEqual(['200', '400', '401', '403', '404', '429', '500']);
+    });
+
+    test('正常系：リクエストボディの Content-Type を指定できる', () => {
+        const operation = createOpenApiDocument(routes, options).paths['/items/{id}'].patch as Record<string, any>;
+        expect(operation.requestBody.content).toEqual({
+            'application/merge-patch+json': { schema: { $ref: '#/components/schemas/ItemPatch' } },
+        });
+    });
+
+    /**
+     * 正常系テスト：アイテムのスキーマ
+     *
+     * 学習ポイント：
+     * - ITEM_SCHEMA を変えると仕様書のスキーマも変わる
+     * - サーバーが管理するフィールドは readOnly
+     */
+    test('正常系：アイテムのスキーマは ITEM_SCHEMA から生成される', () => {
+        // Arrange
+        const itemSchema = {
+            ...DEFAULT_ITEM_SCHEMA,
+            properties: { title: { type: 'string' as const, maxLength: 50 } },
+            required: ['title'],
+        };
+
+        // Act
+        const schemas = createOpenApiDocument(routes, { ...options, itemSchema }).components.schemas as Record<
+            string,
+            any
+        >;
+
+        // Assert
+        expect(schemas.ItemInput).toMatchObject({
+            required: ['title'],
+            properties: { title: { type: 'string', maxLength: 50 } },
+        });
+        expect(schemas.Item.properties.version).toEqual({ type: 'integer', minimum: 1, readOnly: true });
+        expect(schemas.ItemPatch.properties.title.type).toEqual(['string', 'null']);
+        expect(schemas.ItemInput.properties.ttlSeconds).toMatchObject({ type: 'integer', maximum: 31536000 });
+        expect(schemas.ItemPatch.properties.expiresAt.type).toEqual(['integer', 'string', 'null']);
+    });
+
+    test('異常系：説明のないエラーのステータスコードは例外', () => {
+        const invalid: DocumentedRoute = { ...routes[0], docs: { ...routes[0].docs, errors: [418] } };
+        expect(() => createOpenApiDocument([invalid], options)).toThrow('No description for error status: 418');
+    });
+});
+
+// ========================================
+// toJsonSchema のテスト
+// ========================================
+describe('toJsonSchema - フィールドのスキーマの変換', () => {
+    test('正常系：ネストしたスキーマを変換する', () => {
+        expect(
+            toJsonSchema({
+                type: 'object',
+                required: ['sku'],
+                properties: {
+                    sku: { type: 'string', minLength: 1 },
+                    tags: { type: 'array', maxItems: 3, items: { type: 'string' } },
+                },
+            })
+        ).toEqual({
+            type: 'object',
+            required: ['sku'],
+            properties: {
+                sku: { type: 'string', minLength: 1 },
+                tags: { type: 'array', maxItems: 3, items: { type: 'string' } },
+            },
+        });
+    });
+});
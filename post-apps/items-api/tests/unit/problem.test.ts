@@ -0,0 +1,108 @@
+/**
+ * RFC 7807 のエラーレスポンスのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. Problem Details のボディの作成のテスト
+ * 2. レガシー形式への変換のテスト
+ * 3. Accept ヘッダーによる形式の選択のテスト
+ */
+
+import {
+    createProblem,
+    problemType,
+    toLegacyError,
+    selectErrorFormat,
+    loadErrorFormat,
+    ERROR_CODES,
+} from '../../problem';
+
+// ========================================
+// createProblem のテスト
+// ========================================
+describe('createProblem - Problem Details の作成', () => {
+    test('正常系：type と title はエラーコードから決まる', () => {
+        expect(createProblem(409, 'ITEM_ALREADY_EXISTS', 'Item already exists')).toEqual({
+            type: 'urn:items-api:problem:item-already-exists',
+            title: 'Item already exists',
+            status: 409,
+            detail: 'Item already exists',
+            code: 'ITEM_ALREADY_EXISTS',
+        });
+    });
+
+    /**
+     * 正常系テスト：拡張メンバー
+     *
+     * 学習ポイント：
+     * - 拡張メンバーで type や code などの標準のメンバーを上書きできない
+     */
+    test('正常系：拡張メンバーを追加できるが、標準のメンバーは上書きされない', () => {
+        // Act
+        const problem = createProblem(412, 'PRECONDITION_FAILED', 'Item has been modified', {
+            etag: '"3"',
+            status: 200,
+            code: 'OTHER',
+        });
+
+        // Assert
+        expect(problem).toMatchObject({ etag: '"3"', status: 412, code: 'PRECONDITION_FAILED' });
+    });
+
+    test('正常系：すべてのエラーコードの type は一意', () => {
+        const codes = Object.keys(ERROR_CODES) as (keyof typeof ERROR_CODES)[];
+        expect(new Set(codes.map(problemType)).size).toBe(codes.length);
+    });
+});
+
+// ========================================
+// toLegacyError のテスト
+// ========================================
+describe('toLegacyError - レガシー形式への変換', () => {
+    test('正常系：error / statusCode / timestamp / code と拡張メンバーを返す', () => {
+        // Arrange
+        const problem = {
+            ...createProblem(400, 'VALIDATION_FAILED', 'Validation failed', {
+                errors: [{ pointer: '/price', message: 'must be >= 0' }],
+            }),
+            instance: 'request-1',
+        };
+
+        // Act
+        const legacy = toLegacyError(problem, new Date('2025-10-21T10:30:00.000Z'));
+
+        // Assert
+        expect(legacy).toEqual({
+            error: 'Validation failed',
+            statusCode: 400,
+            timestamp: '2025-10-21T10:30:00.000Z',
+            code: 'VALIDATION_FAILED',
+            errors: [{ pointer: '/price', message: 'must be >= 0' }],
+        });
+    });
+});
+
+// ========================================
+// selectErrorFormat / loadErrorFormat のテスト
+// ========================================
+describe('selectErrorFormat - 形式の選択', () => {
+    test.each([
+        ['Accept がない', undefined, 'legacy', 'legacy'],
+        ['Accept が application/json', 'application/json', 'problem', 'problem'],
+        ['problem+json を要求', 'application/json, application/problem+json;q=0.9', 'legacy', 'problem'],
+        ['レガシー形式を要求', 'Application/Vnd.Items-Api.Legacy-Error+json', 'problem', 'legacy'],
+    ] as const)('正常系：%s', (_label, accept, defaultFormat, expected) => {
+        expect(selectErrorFormat(accept, defaultFormat)).toBe(expected);
+    });
+});
+
+describe('loadErrorFormat - 設定の読み込み', () => {
+    test('正常系：未設定なら problem', () => {
+        expect(loadErrorFormat(undefined)).toBe('problem');
+        expect(loadErrorFormat('')).toBe('problem');
+        expect(loadErrorFormat('legacy')).toBe('legacy');
+    });
+
+    test('異常系：不正な値は例外', () => {
+        expect(() => loadErrorFormat('json')).toThrow('Invalid ERROR_FORMAT: json');
+    });
+});
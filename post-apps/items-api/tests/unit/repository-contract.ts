@@ -0,0 +1,592 @@
+/**
+ * ItemRepository の共通テスト(契約テスト)（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 同じインターフェースの複数の実装を、同じテストで検証する方法(契約テスト)
+ * 2. 実装ごとに異なる部分(カーソルの形式、1ページの件数)に依存しないテストの書き方
+ * 3. 書き込みと同時に記録される変更履歴のテスト
+ * 4. テナントごとにデータが分かれていることのテスト
+ *
+ * 使い方：
+ * - memory-repository.test.ts / dynamodb-repository.test.ts から呼び出す
+ * - ファイル名が *.test.ts ではないため、このファイル単体では実行されない
+ */
+
+import { ChangeContext, HistoryEntry, HistoryQuery } from '../../history';
+import { ConditionFailedError, InvalidCursorError, Item, ItemRepository, ListFilters } from '../../repository';
+
+/**
+ * テストごとに空のリポジトリを作成する関数
+ */
+export type ItemRepositoryFactory = () => Promise<ItemRepository>;
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * テスト用のアイテムを作成
+ */
+function createTestItem(id: string, overrides: Record<string, any> = {}): Item {
+    return {
+        id,
+        name: `商品${id}`,
+        price: 100,
+        createdAt: '2025-10-01T00:00:00.000Z',
+        updatedAt: '2025-10-01T00:00:00.000Z',
+        version: 1,
+        ...overrides,
+    };
+}
+
+/**
+ * nextCursor をたどって、すべてのページのアイテムを取得する
+ *
+ * 学習ポイント：
+ * - DynamoDB版は Limit が「絞り込み前の件数」のため、1ページの件数は実装ごとに異なる
+ * - そのため、ページ単位ではなく全ページを合わせた結果で比較する
+ */
+async function listAll(repository: ItemRepository, filters: ListFilters, limit = 2): Promise<Item[]> {
+    const items: Item[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < 50; page++) {
+        const result = await repository.list({ filters, limit, cursor });
+        expect(result.items.length).toBeLessThanOrEqual(limit);
+        items.push(...result.items);
+        if (result.nextCursor === null) {
+            return items;
+        }
+        cursor = result.nextCursor;
+    }
+    throw new Error('Too many pages');
+}
+
+/**
+ * nextCursor をたどって、すべてのページの履歴エントリーを取得する
+ */
+async function listAllHistory(
+    repository: ItemRepository,
+    id: string,
+    order: HistoryQuery['order'],
+    limit = 2
+): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < 50; page++) {
+        const result = await repository.listHistory(id, { limit, cursor, order });
+        expect(result.entries.length).toBeLessThanOrEqual(limit);
+        entries.push(...result.entries);
+        if (result.nextCursor === null) {
+            return entries;
+        }
+        cursor = result.nextCursor;
+    }
+    throw new Error('Too many pages');
+}
+
+/**
+ * テスト用の書き込みの情報
+ */
+function changeBy(actor: string, timestamp: string): ChangeContext {
+    return { actor, timestamp };
+}
+
+/**
+ * アイテムのIDを並び順のまま返す
+ */
+function ids(items: Item[]): string[] {
+    return items.map((item) => item.id);
+}
+
+// ========================================
+// 契約テスト
+// ========================================
+/**
+ * ItemRepository の実装が満たすべき振る舞いをテストする
+ *
+ * @param createRepository - テストごとに空のリポジトリを作成する関数
+ */
+export function describeItemRepositoryContract(createRepository: ItemRepositoryFactory): void {
+    let repository: ItemRepository;
+
+    beforeEach(async () => {
+        repository = await createRepository();
+    });
+
+    describe('get / put - 取得と保存', () => {
+        test('正常系：保存したアイテムを取得できる', async () => {
+            // Arrange
+            const item = createTestItem('a', { tags: ['x'], nested: { value: 1 } });
+
+            // Act
+            await repository.put(item, undefined);
+            const result = await repository.get('a');
+
+            // Assert
+            expect(result).toEqual(item);
+        });
+
+        test('正常系：存在しないIDはundefined', async () => {
+            // Act
+            const result = await repository.get('missing');
+
+            // Assert
+            expect(result).toBeUndefined();
+        });
+
+        test('正常系：取得したアイテムを書き換えても保存内容は変わらない', async () => {
+            // Arrange
+            await repository.put(createTestItem('a'), undefined);
+            const result = await repository.get('a');
+
+            // Act
+            result!.name = '書き換え';
+
+            // Assert
+            expect((await repository.get('a'))!.name).toBe('商品a');
+        });
+
+        test('正常系：expected のバージョンが一致すれば上書きできる', async () => {
+            // Arrange
+            const original = createTestItem('a');
+            await repository.put(original, undefined);
+
+            // Act
+            await repository.put(createTestItem('a', { name: '更新', version: 2 }), original);
+
+            // Assert
+            expect(await repository.get('a')).toMatchObject({ name: '更新', version: 2 });
+        });
+
+        test('異常系：expected が undefined で既に存在する場合は ConditionFailedError', async () => {
+            // Arrange
+            await repository.put(createTestItem('a'), undefined);
+
+            // Act & Assert
+            await expect(repository.put(createTestItem('a', { name: '重複' }), undefined)).rejects.toBeInstanceOf(
+                ConditionFailedError
+            );
+            expect((await repository.get('a'))!.name).toBe('商品a');
+        });
+
+        test('異常系：expected のバージョンが古い場合は ConditionFailedError', async () => {
+            // Arrange
+            const original = createTestItem('a');
+            await repository.put(original, undefined);
+            await repository.put(createTestItem('a', { version: 2 }), original);
+
+            // Act & Assert
+            await expect(
+                repository.put(createTestItem('a', { name: '古い更新', version: 2 }), original)
+            ).rejects.toBeInstanceOf(ConditionFailedError);
+        });
+
+        test('異常系：expected があるのに存在しない場合は ConditionFailedError', async () => {
+            // Act & Assert
+            await expect(repository.put(createTestItem('a', { version: 2 }), createTestItem('a'))).rejects.toBeInstanceOf(
+                ConditionFailedError
+            );
+            expect(await repository.get('a')).toBeUndefined();
+        });
+    });
+
+    describe('delete - 物理削除', () => {
+        test('正常系：expected のバージョンが一致すれば削除できる', async () => {
+            // Arrange
+            const item = createTestItem('a');
+            await repository.put(item, undefined);
+
+            // Act
+            await repository.delete('a', item);
+
+            // Assert
+            expect(await repository.get('a')).toBeUndefined();
+        });
+
+        test('異常系：expected のバージョンが古い場合は ConditionFailedError', async () => {
+            // Arrange
+            const original = createTestItem('a');
+            await repository.put(original, undefined);
+            await repository.put(createTestItem('a', { version: 2 }), original);
+
+            // Act & Assert
+            await expect(repository.delete('a', original)).rejects.toBeInstanceOf(ConditionFailedError);
+            expect(await repository.get('a')).toBeDefined();
+        });
+
+        test('異常系：存在しない場合は ConditionFailedError', async () => {
+            // Act & Assert
+            await expect(repository.delete('a', createTestItem('a'))).rejects.toBeInstanceOf(ConditionFailedError);
+        });
+    });
+
+    describe('list - 一覧取得', () => {
+        /**
+         * 一覧取得のテストデータ
+         *
+         * 学習ポイント：
+         * - 作成日時と価格の順番をわざと変えて、どちらで並び替えたかを区別できるようにする
+         */
+        beforeEach(async () => {
+            const items = [
+                createTestItem('a', { name: 'りんご', price: 300, createdAt: '2025-10-01T00:00:00.000Z' }),
+                createTestItem('b', { name: 'みかん', price: 100, createdAt: '2025-10-02T00:00:00.000Z' }),
+                createTestItem('c', { name: 'りんご', price: 200, createdAt: '2025-10-03T00:00:00.000Z' }),
+                createTestItem('d', { name: 'ぶどう', price: 500, createdAt: '2025-10-04T00:00:00.000Z' }),
+                createTestItem('e', { name: 'りんご', price: 400, createdAt: '2025-10-05T00:00:00.000Z' }),
+                createTestItem('deleted', {
+                    name: 'りんご',
+                    price: 250,
+                    createdAt: '2025-10-06T00:00:00.000Z',
+                    deletedAt: '2025-10-07T00:00:00.000Z',
+                }),
+            ];
+            for (const item of items) {
+                await repository.put(item, undefined);
+            }
+        });
+
+        test('正常系：条件なしの場合は論理削除されていないすべてのアイテム', async () => {
+            // Act
+            const result = await listAll(repository, {});
+
+            // Assert
+            expect(ids(result).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+        });
+
+        test('正常系：limit より多い場合は nextCursor が返る', async () => {
+            // Act
+            const result = await repository.list({ filters: {}, limit: 2 });
+
+            // Assert
+            expect(result.nextCursor).not.toBeNull();
+        });
+
+        test.each([
+            ['name', { name: 'りんご' }, ['a', 'c', 'e']],
+            ['priceMin', { priceMin: 300 }, ['a', 'd', 'e']],
+            ['priceMax', { priceMax: 200 }, ['b', 'c']],
+            ['priceMin と priceMax', { priceMin: 200, priceMax: 400 }, ['a', 'c', 'e']],
+            ['createdAfter', { createdAfter: '2025-10-03T00:00:00.000Z' }, ['d', 'e']],
+            ['name と priceMin', { name: 'りんご', priceMin: 250 }, ['a', 'e']],
+        ])('正常系：%s で絞り込める', async (_label, filters, expected) => {
+            // Act
+            const result = await listAll(repository, filters as ListFilters);
+
+            // Assert
+            expect(ids(result).sort()).toEqual(expected);
+        });
+
+        test.each([
+            ['作成日時の昇順', { field: 'createdAt', descending: false }, ['a', 'b', 'c', 'd', 'e']],
+            ['作成日時の降順', { field: 'createdAt', descending: true }, ['e', 'd', 'c', 'b', 'a']],
+            ['価格の昇順', { field: 'price', descending: false }, ['b', 'c', 'a', 'e', 'd']],
+            ['価格の降順', { field: 'price', descending: true }, ['d', 'e', 'a', 'c', 'b']],
+        ])('正常系：%sで並び替えられる(ページをまたいでも順番が保たれる)', async (_label, sort, expected) => {
+            // Act
+            const result = await listAll(repository, { sort: sort as ListFilters['sort'] });
+
+            // Assert
+            expect(ids(result)).toEqual(expected);
+        });
+
+        test('正常系：絞り込みと並び替えを組み合わせられる', async () => {
+            // Act
+            const result = await listAll(repository, {
+                name: 'りんご',
+                sort: { field: 'price', descending: true },
+            });
+
+            // Assert
+            expect(ids(result)).toEqual(['e', 'a', 'c']);
+        });
+
+        test('異常系：不正なカーソルは InvalidCursorError', async () => {
+            // Act & Assert
+            await expect(repository.list({ filters: {}, limit: 2, cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(
+                InvalidCursorError
+            );
+        });
+    });
+
+    describe('batchGet / batchPut - 一括処理', () => {
+        test('正常系：一括保存したアイテムを取得できる', async () => {
+            // Arrange
+            const items = [createTestItem('a'), createTestItem('b'), createTestItem('c')];
+
+            // Act
+            const result = await repository.batchPut(items);
+
+            // Assert
+            expect(result).toEqual({ unprocessed: [], conflictIds: [] });
+            expect(await repository.get('b')).toEqual(items[1]);
+        });
+
+        test('正常系：存在するアイテムだけが返る', async () => {
+            // Arrange
+            await repository.batchPut([createTestItem('a'), createTestItem('b')]);
+
+            // Act
+            const result = await repository.batchGet(['a', 'missing', 'b']);
+
+            // Assert
+            expect(ids(result.items).sort()).toEqual(['a', 'b']);
+            expect(result.unprocessedIds).toEqual([]);
+        });
+
+        /**
+         * 異常系テスト：既に存在するID
+         *
+         * 学習ポイント：
+         * - 既に存在するアイテムは上書きせずに conflictIds で返し、残りのアイテムは作成する
+         */
+        test('異常系：既に存在するIDは conflictIds で返し、残りは作成する', async () => {
+            // Arrange
+            await repository.put(createTestItem('a'), undefined);
+
+            // Act
+            const result = await repository.batchPut([
+                createTestItem('b'),
+                createTestItem('a', { name: '重複' }),
+                createTestItem('c'),
+            ]);
+
+            // Assert
+            expect(result).toEqual({ unprocessed: [], conflictIds: ['a'] });
+            expect((await repository.get('a'))!.name).toBe('商品a');
+            expect(ids((await repository.batchGet(['b', 'c'])).items).sort()).toEqual(['b', 'c']);
+        });
+
+        /**
+         * 正常系テスト：期限切れのアイテムの置き換え
+         *
+         * 学習ポイント：
+         * - expected に渡したアイテムは、put と同じくバージョンが一致する場合だけ置き換える
+         * - 置き換えたアイテムの履歴は、前のアイテムの続きのバージョンで記録される
+         */
+        test('正常系：expected に渡したアイテムは置き換え、続きのバージョンで履歴を記録する', async () => {
+            // Arrange
+            const expired = createTestItem('a', { expiresAt: 1 });
+            await repository.put(expired, undefined);
+
+            // Act
+            const result = await repository.batchPut(
+                [createTestItem('a', { name: '再作成', version: 2 }), createTestItem('b')],
+                changeBy('user-1', '2025-10-01T00:00:00.000Z'),
+                [expired]
+            );
+
+            // Assert
+            expect(result).toEqual({ unprocessed: [], conflictIds: [] });
+            expect((await repository.get('a'))!.name).toBe('再作成');
+            const entries = await listAllHistory(repository, 'a', 'oldest');
+            expect(entries.map(({ version, operation }) => ({ version, operation }))).toEqual([
+                { version: 1, operation: 'create' },
+                { version: 2, operation: 'update' },
+            ]);
+        });
+
+        test('異常系：expected と保存されているバージョンが異なる場合は conflictIds で返す', async () => {
+            // Arrange
+            const expired = createTestItem('a', { expiresAt: 1 });
+            await repository.put(expired, undefined);
+            await repository.put(createTestItem('a', { version: 2 }), expired);
+
+            // Act
+            const result = await repository.batchPut([createTestItem('a', { name: '再作成', version: 2 })], undefined, [
+                expired,
+            ]);
+
+            // Assert
+            expect(result).toEqual({ unprocessed: [], conflictIds: ['a'] });
+            expect((await repository.get('a'))!.name).toBe('商品a');
+        });
+
+        test('正常系：100件を超えるIDも取得できる', async () => {
+            // Arrange
+            const items = Array.from({ length: 30 }, (_, i) => createTestItem(`item-${i}`));
+            await repository.batchPut(items);
+            const requested = Array.from({ length: 120 }, (_, i) => `item-${i}`);
+
+            // Act
+            const result = await repository.batchGet(requested);
+
+            // Assert
+            expect(result.items).toHaveLength(30);
+        });
+    });
+
+    describe('listHistory - 変更履歴', () => {
+        /**
+         * 作成 → 更新 → 論理削除 → 物理削除 の履歴を作る
+         */
+        beforeEach(async () => {
+            const v1 = createTestItem('a', { description: '説明' });
+            const v2 = createTestItem('a', { price: 120, version: 2 });
+            const v3 = { ...v2, deletedAt: '2025-10-03T00:00:00.000Z', version: 3 };
+            await repository.put(v1, undefined, changeBy('user-1', '2025-10-01T00:00:00.000Z'));
+            await repository.put(v2, v1, changeBy('user-2', '2025-10-02T00:00:00.000Z'));
+            await repository.put(v3, v2, changeBy('user-1', '2025-10-03T00:00:00.000Z'));
+            await repository.delete('a', v3, changeBy('admin', '2025-10-04T00:00:00.000Z'));
+        });
+
+        test('正常系：作成・更新・削除ごとに履歴エントリーが記録される', async () => {
+            // Act
+            const entries = await listAllHistory(repository, 'a', 'oldest');
+
+            // Assert
+            expect(entries.map(({ version, operation, changedBy }) => ({ version, operation, changedBy }))).toEqual([
+                { version: 1, operation: 'create', changedBy: 'user-1' },
+                { version: 2, operation: 'update', changedBy: 'user-2' },
+                { version: 3, operation: 'delete', changedBy: 'user-1' },
+                { version: 4, operation: 'delete', changedBy: 'admin' },
+            ]);
+            expect(entries[1].changes).toEqual([
+                { op: 'remove', path: '/description' },
+                { op: 'replace', path: '/price', value: 120 },
+                { op: 'replace', path: '/version', value: 2 },
+            ]);
+        });
+
+        test('正常系：新しい順でも、ページをまたいで順番が保たれる', async () => {
+            // Act
+            const entries = await listAllHistory(repository, 'a', 'newest', 3);
+
+            // Assert
+            expect(entries.map((entry) => entry.version)).toEqual([4, 3, 2, 1]);
+        });
+
+        test('正常系：書き込みに失敗した場合は履歴も記録されない', async () => {
+            // Arrange
+            const stale = createTestItem('b');
+            await repository.put(stale, undefined);
+            await repository.put(createTestItem('b', { version: 2 }), stale);
+
+            // Act
+            await expect(repository.put(createTestItem('b', { version: 2 }), stale)).rejects.toBeInstanceOf(
+                ConditionFailedError
+            );
+
+            // Assert
+            expect((await listAllHistory(repository, 'b', 'oldest')).map((entry) => entry.version)).toEqual([1, 2]);
+        });
+
+        /**
+         * 物理削除したIDでの作り直し
+         *
+         * 学習ポイント：
+         * - 前のアイテムの履歴は残るので、同じバージョン(1)から作り直すと履歴と重なって失敗する
+         * - 最後の履歴エントリーの続きのバージョンなら作り直せて、履歴も続けて記録される
+         */
+        test('異常系：物理削除したIDを残っている履歴と同じバージョンで作り直すと ConditionFailedError', async () => {
+            // Act & Assert
+            await expect(repository.put(createTestItem('a'), undefined)).rejects.toBeInstanceOf(ConditionFailedError);
+            expect(await repository.get('a')).toBeUndefined();
+            expect(await listAllHistory(repository, 'a', 'oldest')).toHaveLength(4);
+        });
+
+        test('正常系：物理削除したIDを履歴の続きのバージョンで作り直せる', async () => {
+            // Arrange
+            const recreated = createTestItem('a', { name: '作り直した商品', version: 5 });
+
+            // Act
+            await repository.put(recreated, undefined, changeBy('user-3', '2025-10-05T00:00:00.000Z'));
+
+            // Assert
+            expect(await repository.get('a')).toEqual(recreated);
+            const entries = await listAllHistory(repository, 'a', 'oldest');
+            expect(entries.map(({ version, operation }) => ({ version, operation }))).toEqual([
+                { version: 1, operation: 'create' },
+                { version: 2, operation: 'update' },
+                { version: 3, operation: 'delete' },
+                { version: 4, operation: 'delete' },
+                { version: 5, operation: 'create' },
+            ]);
+        });
+
+        test('異常系：一括作成で残っている履歴と重なるアイテムは conflictIds で返す', async () => {
+            // Act
+            const result = await repository.batchPut([createTestItem('c'), createTestItem('a')]);
+
+            // Assert
+            expect(result.conflictIds).toEqual(['a']);
+            expect(await repository.get('a')).toBeUndefined();
+            expect(await repository.get('c')).toEqual(createTestItem('c'));
+        });
+
+        test('正常系：履歴のないIDは空', async () => {
+            // Act
+            const result = await repository.listHistory('missing', { limit: 10, order: 'newest' });
+
+            // Assert
+            expect(result).toEqual({ entries: [], nextCursor: null });
+        });
+
+        test('異常系：不正なカーソルは InvalidCursorError', async () => {
+            // Act & Assert
+            await expect(
+                repository.listHistory('a', { limit: 2, cursor: 'not-a-cursor', order: 'newest' })
+            ).rejects.toBeInstanceOf(InvalidCursorError);
+        });
+    });
+
+    /**
+     * テナントの分離のテスト
+     *
+     * 学習ポイント：
+     * - 同じIDのアイテムでも、テナントが違えば別のアイテムになる
+     * - 一覧・一括取得・変更履歴も、自分のテナントのものだけが返る
+     */
+    describe('forTenant - テナントの分離', () => {
+        let acme: ItemRepository;
+
+        beforeEach(async () => {
+            acme = repository.forTenant('acme');
+            await repository.put(createTestItem('a', { name: 'りんご' }), undefined);
+            await acme.put(createTestItem('a', { name: 'りんご', price: 999 }), undefined);
+            await acme.put(createTestItem('b', { name: 'みかん' }), undefined);
+        });
+
+        test('正常系：同じIDでもテナントごとに別のアイテム', async () => {
+            // Act
+            const [defaultItem, acmeItem] = [await repository.get('a'), await acme.get('a')];
+
+            // Assert
+            expect(defaultItem?.price).toBe(100);
+            expect(acmeItem?.price).toBe(999);
+            expect(acmeItem).not.toHaveProperty('tenantId');
+        });
+
+        test('正常系：一覧と一括取得は自分のテナントのアイテムだけ', async () => {
+            // Act
+            const defaultItems = await listAll(repository, {});
+            const acmeByName = await listAll(acme, { name: 'りんご' });
+            const acmeByPrice = await listAll(acme, { sort: { field: 'price', descending: true } });
+            const batch = await repository.batchGet(['a', 'b']);
+
+            // Assert
+            expect(ids(defaultItems)).toEqual(['a']);
+            expect(acmeByName.map((item) => item.price)).toEqual([999]);
+            expect(ids(acmeByPrice)).toEqual(['a', 'b']);
+            expect(ids(batch.items)).toEqual(['a']);
+        });
+
+        test('正常系：変更履歴もテナントごとに分かれる', async () => {
+            // Act
+            const entries = await listAllHistory(acme, 'b', 'oldest');
+            const otherEntries = await listAllHistory(repository, 'b', 'oldest');
+
+            // Assert
+            expect(entries.map((entry) => entry.version)).toEqual([1]);
+            expect(otherEntries).toEqual([]);
+        });
+
+        test('正常系：削除しても他のテナントの同じIDのアイテムは残る', async () => {
+            // Act
+            await acme.delete('a', createTestItem('a', { name: 'りんご', price: 999 }));
+
+            // Assert
+            expect(await acme.get('a')).toBeUndefined();
+            expect(await repository.get('a')).toMatchObject({ price: 100 });
+        });
+    });
+}
@@ -0,0 +1,173 @@
+/**
+ * 一時的なエラーの再試行のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 乱数と待ち時間を差し替えて、再試行を時間をかけずにテストする方法
+ * 2. 指数バックオフとジッターの計算のテスト
+ * 3. Lambdaの残り時間による再試行の打ち切りのテスト
+ */
+
+import {
+    withRetry,
+    computeBackoffDelay,
+    createRetryingRepository,
+    loadRetryOptions,
+    DEFAULT_RETRY_OPTIONS,
+    RetryOptions,
+} from '../../retry';
+import { createInMemoryItemRepository } from '../../memory-repository';
+
+/**
+ * テスト用の再試行の設定
+ */
+const options: RetryOptions = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, minRemainingTimeMs: 500 };
+
+/**
+ * 一時的なエラー(DynamoDBの混雑)
+ */
+const throttled = Object.assign(new Error('throttled'), { name: 'ProvisionedThroughputExceededException' });
+
+// ログ出力(標準出力)をモック
+let stdoutSpy: jest.SpyInstance;
+
+beforeEach(() => {
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+    stdoutSpy.mockRestore();
+});
+
+// ========================================
+// withRetry のテスト
+// ========================================
+describe('withRetry - 再試行', () => {
+    test('正常系：一時的なエラーは成功するまで再試行する', async () => {
+        // Arrange
+        const operation = jest.fn().mockRejectedValueOnce(throttled).mockRejectedValueOnce(throttled).mockResolvedValue('ok');
+        const sleep = jest.fn().mockResolvedValue(undefined);
+
+        // Act
+        const result = await withRetry(operation, options, { sleep, random: () => 0.5 });
+
+        // Assert
+        expect(result).toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(3);
+        expect(sleep.mock.calls).toEqual([[50], [100]]);
+    });
+
+    test('異常系：試行回数の上限に達したら最後のエラーを投げる', async () => {
+        // Arrange
+        const operation = jest.fn().mockRejectedValue(throttled);
+        const sleep = jest.fn().mockResolvedValue(undefined);
+
+        // Act & Assert
+        await expect(withRetry(operation, options, { sleep })).rejects.toBe(throttled);
+        expect(operation).toHaveBeenCalledTimes(3);
+        expect(sleep).toHaveBeenCalledTimes(2);
+    });
+
+    test('異常系：一時的でないエラーは再試行しない', async () => {
+        // Arrange
+        const error = Object.assign(new Error('invalid'), { name: 'ValidationException' });
+        const operation = jest.fn().mockRejectedValue(error);
+
+        // Act & Assert
+        await expect(withRetry(operation, options)).rejects.toBe(error);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * 異常系テスト：Lambdaの残り時間
+     *
+     * 学習ポイント：
+     * - 待った後に minRemainingTimeMs 以上残らない場合は、再試行せずにエラーを返す
+     */
+    test('異常系：待った後の残り時間が足りない場合は再試行しない', async () => {
+        // Arrange
+        const operation = jest.fn().mockRejectedValue(throttled);
+        const sleep = jest.fn().mockResolvedValue(undefined);
+
+        // Act & Assert(待ち時間50ms、残り549ms → 待った後は499ms)
+        await expect(
+            withRetry(operation, options, { sleep, random: () => 0.5, getRemainingTimeInMillis: () => 549 })
+        ).rejects.toBe(throttled);
+        expect(operation).toHaveBeenCalledTimes(1);
+        expect(sleep).not.toHaveBeenCalled();
+    });
+
+    test('正常系：maxAttempts が1なら再試行しない', async () => {
+        const operation = jest.fn().mockRejectedValue(throttled);
+        await expect(withRetry(operation, { ...options, maxAttempts: 1 })).rejects.toBe(throttled);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
+
+// ========================================
+// computeBackoffDelay のテスト
+// ========================================
+describe('computeBackoffDelay - 待ち時間の計算', () => {
+    /**
+     * 正常系テスト：Full Jitter
+     *
+     * 学習ポイント：
+     * - 上限は 100ms, 200ms, 400ms... と2倍になり、maxDelayMs で頭打ちになる
+     * - 実際の待ち時間は 0〜上限 のランダムな値
+     */
+    test.each([
+        [1, 100],
+        [2, 200],
+        [3, 400],
+        [5, 1000],
+    ])('正常系：%i回目の失敗の後の上限は%ims', (attempt, ceiling) => {
+        expect(computeBackoffDelay(attempt, options, () => 0.999999)).toBe(ceiling - 1);
+        expect(computeBackoffDelay(attempt, options, () => 0)).toBe(0);
+    });
+});
+
+// ========================================
+// createRetryingRepository のテスト
+// ========================================
+describe('createRetryingRepository - 再試行するリポジトリ', () => {
+    test('正常系：リポジトリの操作を一時的なエラーの場合に再試行する', async () => {
+        // Arrange
+        const base = createInMemoryItemRepository([{ id: 'item-1', name: '商品', version: 1 }]);
+        const get = jest.spyOn(base, 'get').mockRejectedValueOnce(throttled);
+        const repository = createRetryingRepository(base, options, { sleep: async () => undefined });
+
+        // Act
+        const item = await repository.get('item-1');
+
+        // Assert
+        expect(item).toMatchObject({ id: 'item-1' });
+        expect(get).toHaveBeenCalledTimes(2);
+    });
+});
+
+// ========================================
+// loadRetryOptions のテスト
+// ========================================
+describe('loadRetryOptions - 設定の読み込み', () => {
+    test('正常系：未設定ならデフォルトの設定', () => {
+        expect(loadRetryOptions({})).toEqual(DEFAULT_RETRY_OPTIONS);
+    });
+
+    test('正常系：環境変数で設定できる', () => {
+        expect(
+            loadRetryOptions({
+                DB_MAX_ATTEMPTS: '5',
+                DB_RETRY_BASE_DELAY_MS: '20',
+                DB_RETRY_MAX_DELAY_MS: '200',
+                DB_RETRY_MIN_REMAINING_MS: '1000',
+            })
+        ).toEqual({ maxAttempts: 5, baseDelayMs: 20, maxDelayMs: 200, minRemainingTimeMs: 1000 });
+    });
+
+    test.each([
+        [{ DB_MAX_ATTEMPTS: '0' }, 'Invalid DB_MAX_ATTEMPTS'],
+        [{ DB_RETRY_BASE_DELAY_MS: 'abc' }, 'Invalid DB_RETRY_BASE_DELAY_MS'],
+        [{ DB_RETRY_BASE_DELAY_MS: '500', DB_RETRY_MAX_DELAY_MS: '100' }, 'Invalid DB_RETRY_MAX_DELAY_MS'],
+    ])('異常系：不正な設定 %j は例外', (env, message) => {
+        expect(() => loadRetryOptions(env)).toThrow(message);
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * ルーターのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 404(パスがない)と405(メソッドが違う)の区別のテスト
+ * 2. 固定のパスとパラメータ付きのパスの優先順位のテスト
+ * 3. パスパラメータのデコードのテスト
+ */
+
+import { createRouter, matchPathTemplate, Route } from '../../router';
+
+/**
+ * テスト用のルーティングテーブル(handler はルートの名前)
+ */
+const routes: Route<string>[] = [
+    { method: 'GET', path: '/items', handler: 'list' },
+    { method: 'POST', path: '/items', handler: 'create' },
+    { method: 'GET', path: '/items/{id}', handler: 'get' },
+    { method: 'DELETE', path: '/items/{id}', handler: 'delete' },
+    { method: 'POST', path: '/items:batch', handler: 'batch' },
+    { method: 'GET', path: '/items/{id}/tags/{tag}', handler: 'tag' },
+];
+
+// ========================================
+// createRouter のテスト
+// ========================================
+describe('createRouter - ルートの照合', () => {
+    const router = createRouter(routes);
+
+    test('正常系：メソッドとパスが一致するルートとパスパラメータを返す', () => {
+        // Act
+        const match = router.match('GET', '/items/item-1');
+
+        // Assert
+        expect(match).toEqual({ type: 'found', route: routes[2], params: { id: 'item-1' } });
+    });
+
+    test('正常系：複数のパスパラメータを取り出す', () => {
+        expect(router.match('GET', '/items/item-1/tags/sale')).toMatchObject({
+            type: 'found',
+            params: { id: 'item-1', tag: 'sale' },
+        });
+    });
+
+    test('正常系：メソッドは大文字・小文字を区別しない', () => {
+        expect(router.match('delete', '/items/item-1')).toMatchObject({ type: 'found', route: { handler: 'delete' } });
+    });
+
+    /**
+     * 正常系テスト：優先順位
+     *
+     * 学習ポイント：
+     * - /items:batch は {id} を使わない /items にも、/items/{id} にも一致しない
+     * - 固定のパスを先に照合するので、登録した順に関係なく一致する
+     */
+    test('正常系：固定のパスをパラメータ付きのパスより優先する', () => {
+        const reversed = createRouter([
+            { method: 'GET', path: '/things/{id}', handler: 'get' },
+            { method: 'GET', path: '/things/latest', handler: 'latest' },
+        ]);
+        expect(reversed.match('GET', '/things/latest')).toMatchObject({ route: { handler: 'latest' } });
+        expect(reversed.match('GET', '/things/other')).toMatchObject({ route: { handler: 'get' } });
+    });
+
+    test('正常系：パスパラメータはURLデコードする', () => {
+        expect(router.match('GET', '/items/a%20b%2Fc')).toMatchObject({ params: { id: 'a b/c' } });
+    });
+
+    /**
+     * 異常系テスト：メソッドが違う
+     *
+     * 学習ポイント：
+     * - パスに定義されているメソッドの一覧を返す(Allow ヘッダーに使う)
+     */
+    test('異常系：パスはあるがメソッドが違う場合は methodNotAllowed', () => {
+        expect(router.match('PUT', '/items/item-1')).toEqual({
+            type: 'methodNotAllowed',
+            allowedMethods: ['GET', 'DELETE'],
+        });
+        expect(router.match('GET', '/items:batch')).toEqual({ type: 'methodNotAllowed', allowedMethods: ['POST'] });
+    });
+
+    test.each([
+        ['存在しないパス', '/unknown'],
+        ['末尾のスラッシュ', '/items/'],
+        ['セグメントが多いパス', '/items/a/b'],
+        ['不正なエンコーディング', '/items/%E0%A4%A'],
+    ])('異常系：%sは notFound', (_label, path) => {
+        expect(router.match('GET', path)).toEqual({ type: 'notFound' });
+    });
+
+    test('異常系：同じメソッドとパスのルートが重複している場合は例外', () => {
+        expect(() => createRouter([...routes, { method: 'get', path: '/items', handler: 'duplicate' }])).toThrow(
+            'Duplicate route: GET /items'
+        );
+    });
+});
+
+// ========================================
+// matchPathTemplate のテスト
+// ========================================
+describe('matchPathTemplate - パステンプレートの照合', () => {
+    test('正常系：一致した場合はパスパラメータを返す', () => {
+        expect(matchPathTemplate('/items/{id}', '/items/item-1')).toEqual({ id: 'item-1' });
+        expect(matchPathTemplate('/items', '/items')).toEqual({});
+    });
+
+    test('異常系：一致しない場合はundefined、エンコーディングが不正ならnull', () => {
+        expect(matchPathTemplate('/items/{id}', '/items')).toBeUndefined();
+        expect(matchPathTemplate('/items:batch', '/itemsXbatch')).toBeUndefined();
+        expect(matchPathTemplate('/items/{id}', '/items/%E0%A4%A')).toBeNull();
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * S3 の代わりに署名付きURLを受け付けるローカルのHTTPサーバー(テスト用のヘルパー)(教育用)
+ *
+ * 学習ポイント：
+ * - 署名付きURLの PUT / GET だけを受け付ける(パス形式: http://127.0.0.1:port/バケット/キー)
+ * - S3 と同じ手順(署名バージョン4)で署名を計算し直して照合するので、署名に含めたヘッダーを変えると403になる
+ * - x-amz-checksum-sha256 ヘッダーとボディの SHA-256 が一致しなければ、S3 と同じく400(BadDigest)にする
+ * - attachments.test.ts と app.test.ts の両方で使う
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * 保存したファイル
+ */
+export interface StoredObject {
+    body: Buffer;
+    contentType?: string;
+}
+
+/**
+ * 起動した S3 の代わりのサーバー
+ */
+export interface S3StandIn {
+    /** S3Client の endpoint に指定するURL */
+    endpoint: string;
+    /** 保存したファイル(キーは「バケット/キー」) */
+    objects: Map<string, StoredObject>;
+    close(): Promise<void>;
+}
+
+/**
+ * 署名に使う認証情報(S3Client の credentials と同じ値にする)
+ */
+export const STAND_IN_CREDENTIALS = { accessKeyId: 'AKIDSTANDIN', secretAccessKey: 'stand-in-secret' };
+
+/**
+ * S3 の代わりのサーバーを起動する
+ *
+ * @returns 起動したサーバー
+ */
+export async function startS3StandIn(): Promise<S3StandIn> {
+    const objects = new Map<string, StoredObject>();
+    const server: Server = createServer((request, response) => {
+        const chunks: Buffer[] = [];
+        request.on('data', (chunk: Buffer) => chunks.push(chunk));
+        request.on('end', () => handleRequest(request, Buffer.concat(chunks), response, objects));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        endpoint: `http://127.0.0.1:${port}`,
+        objects,
+        close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+    };
+}
+
+/**
+ * 1つのリクエストを処理する
+ */
+function handleRequest(
+    request: IncomingMessage,
+    body: Buffer,
+    response: ServerResponse,
+    objects: Map<string, StoredObject>
+): void {
+    const url = new URL(request.url ?? '/', 'http://stand-in');
+    const authError = verifyPresignedRequest(request, url);
+    if (authError) {
+        return sendError(response, 403, authError);
+    }
+
+    const objectKey = decodeURIComponent(url.pathname.slice(1));
+    if (request.method === 'PUT') {
+        const checksum = request.headers['x-amz-checksum-sha256'];
+        if (checksum !== undefined && checksum !== createHash('sha256').update(body).digest('base64')) {
+            return sendError(response, 400, 'BadDigest');
+        }
+        objects.set(objectKey, { body, contentType: request.headers['content-type'] });
+        response.writeHead(200).end();
+        return;
+    }
+    if (request.method === 'GET') {
+        const object = objects.get(objectKey);
+        if (!object) {
+            return sendError(response, 404, 'NoSuchKey');
+        }
+        const contentType = url.searchParams.get('response-content-type') ?? object.contentType;
+        const disposition = url.searchParams.get('response-content-disposition');
+        response
+            .writeHead(200, {
+                ...(contentType ? { 'Content-Type': contentType } : {}),
+                ...(disposition ? { 'Content-Disposition': disposition } : {}),
+            })
+            .end(object.body);
+        return;
+    }
+    sendError(response, 405, 'MethodNotAllowed');
+}
+
+/**
+ * 署名付きURLの署名と期限を確認する
+ *
+ * 学習ポイント：
+ * - 署名するのは「メソッド・パス・クエリ文字列(署名を除く)・署名するヘッダー」をまとめた文字列(正規リクエスト)
+ * - 署名の鍵は、シークレットから日付・リージョン・サービスの順に HMAC を重ねて作る
+ *
+ * @returns エラーコード。問題がなければundefined
+ */
+function verifyPresignedRequest(request: IncomingMessage, url: URL): string | undefined {
+    const query = url.searchParams;
+    const signature = query.get('X-Amz-Signature');
+    const credential = query.get('X-Amz-Credential');
+    const amzDate = query.get('X-Amz-Date');
+    const expires = Number(query.get('X-Amz-Expires'));
+    const signedHeaders = query.get('X-Amz-SignedHeaders');
+    if (!signature || !credential || !amzDate || !signedHeaders || !Number.isInteger(expires)) {
+        return 'AccessDenied';
+    }
+
+    const signedAt = Date.parse(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+    if (Number.isNaN(signedAt) || Date.now() > signedAt + expires * 1000) {
+        return 'AccessDenied';
+    }
+
+    const [accessKeyId, ...scopeParts] = credential.split('/');
+    if (accessKeyId !== STAND_IN_CREDENTIALS.accessKeyId) {
+        return 'InvalidAccessKeyId';
+    }
+    const [date, region, service] = scopeParts;
+
+    const canonicalQuery = [...query.entries()]
+        .filter(([name]) => name !== 'X-Amz-Signature')
+        .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+        .sort()
+        .join('&');
+    const canonicalHeaders = signedHeaders
+        .split(';')
+        .map((name) => `${name}:${String(request.headers[name] ?? '').trim()}\n`)
+        .join('');
+    const canonicalRequest = [
+        request.method,
+        url.pathname,
+        canonicalQuery,
+        canonicalHeaders,
+        signedHeaders,
+        'UNSIGNED-PAYLOAD',
+    ].join('\n');
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        amzDate,
+        scopeParts.join('/'),
+        createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const signingKey = [date, region, service, 'aws4_request'].reduce<Buffer | string>(
+        (key, part) => createHmac('sha256', key).update(part).digest(),
+        `AWS4${STAND_IN_CREDENTIALS.secretAccessKey}`
+    );
+    const expected = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+    return expected === signature ? undefined : 'SignatureDoesNotMatch';
+}
+
+/**
+ * RFC 3986 の形式でエンコードする(署名の計算で使う形式)
+ */
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * S3 と同じ形式(XML)のエラーを返す
+ */
+function sendError(response: ServerResponse, statusCode: number, code: string): void {
+    response
+        .writeHead(statusCode, { 'Content-Type': 'application/xml' })
+        .end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`);
+}
@@ -0,0 +1,212 @@
+/**
+ * スキーマバリデーションのテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. 純粋関数（外部サービスに依存しない関数）のテスト
+ * 2. test.each を使ったテーブル駆動テスト
+ * 3. 設定の読み込みと例外のテスト
+ */
+
+import { DEFAULT_ITEM_SCHEMA, ItemSchema, loadSchema, toPointer, validateItem } from '../../schema';
+
+// ========================================
+// validateItem のテスト
+// ========================================
+describe('validateItem - アイテムのバリデーション', () => {
+    /**
+     * 正常系テスト：有効なアイテム
+     *
+     * 学習ポイント：
+     * - スキーマにないフィールド(description, tags)は自由に保存できる
+     */
+    test('正常系：有効なアイテムはエラーなし', () => {
+        // Arrange
+        const item = { name: '商品', price: 0, description: '説明', tags: ['a', 'b'] };
+
+        // Act
+        const errors = validateItem(item, DEFAULT_ITEM_SCHEMA);
+
+        // Assert
+        expect(errors).toEqual([]);
+    });
+
+    /**
+     * 異常系テスト：各フィールドの制約違反
+     */
+    test.each([
+        ['nameがない', { price: 100 }, { pointer: '/name', message: 'is required' }],
+        ['nameがnull', { name: null }, { pointer: '/name', message: 'is required' }],
+        ['nameが数値', { name: 123 }, { pointer: '/name', message: 'must be a string' }],
+        ['nameが空文字列', { name: '' }, { pointer: '/name', message: 'must be at least 1 characters' }],
+        ['priceが文字列', { name: '商品', price: 'abc' }, { pointer: '/price', message: 'must be a number' }],
+        [
+            'priceが負の数',
+            { name: '商品', price: -1 },
+            { pointer: '/price', message: 'must be greater than or equal to 0' },
+        ],
+        [
+            'idが長すぎる',
+            { name: '商品', id: 'a'.repeat(256) },
+            { pointer: '/id', message: 'must be at most 255 characters' },
+        ],
+        [
+            'createdAtを指定',
+            { name: '商品', createdAt: '2025-01-01T00:00:00.000Z' },
+            { pointer: '/createdAt', message: 'is managed by the server and cannot be set' },
+        ],
+    ])('異常系：%s', (_label, item, expected) => {
+        // Act
+        const errors = validateItem(item as Record<string, unknown>, DEFAULT_ITEM_SCHEMA);
+
+        // Assert
+        expect(errors).toEqual([expected]);
+    });
+
+    /**
+     * 異常系テスト：サイズの上限
+     */
+    test('異常系：サイズが上限を超える場合エラー', () => {
+        // Arrange
+        const schema: ItemSchema = { ...DEFAULT_ITEM_SCHEMA, maxBytes: 50 };
+        const item = { name: '商品', description: 'a'.repeat(100) };
+
+        // Act
+        const errors = validateItem(item, schema);
+
+        // Assert
+        expect(errors).toEqual([{ pointer: '', message: 'must not exceed 50 bytes' }]);
+    });
+
+    /**
+     * 異常系テスト：深さの上限
+     *
+     * 学習ポイント：
+     * - 配列もネスト1段として数える
+     * - 極端に深いデータでもスタックオーバーフローしない
+     */
+    test('異常系：ネストが深すぎる場合エラー', () => {
+        // Arrange
+        let deep: unknown = 'leaf';
+        for (let i = 0; i < 10000; i++) {
+            deep = [deep];
+        }
+        const item = { name: '商品', deep };
+
+        // Act
+        const errors = validateItem(item, DEFAULT_ITEM_SCHEMA);
+
+        // Assert
+        expect(errors).toEqual([{ pointer: '', message: 'must not be nested deeper than 5 levels' }]);
+    });
+
+    /**
+     * 正常系テスト：ネストしたスキーマ
+     *
+     * 学習ポイント：
+     * - 配列の要素やオブジェクトのプロパティのエラー箇所も JSON Pointer で示す
+     */
+    test('異常系：ネストしたフィールドのエラーはJSON Pointerで示される', () => {
+        // Arrange
+        const schema: ItemSchema = {
+            ...DEFAULT_ITEM_SCHEMA,
+            properties: {
+                ...DEFAULT_ITEM_SCHEMA.properties,
+                tags: { type: 'array', maxItems: 2, items: { type: 'string' } },
+                size: {
+                    type: 'object',
+                    required: ['width'],
+                    properties: { width: { type: 'integer', minimum: 1 } },
+                },
+                inStock: { type: 'boolean' },
+            },
+        };
+        const item = { name: '商品', tags: ['a', 1, 'c'], size: { 'w/h': 1, width: 1.5 }, inStock: 'yes' };
+
+        // Act
+        const errors = validateItem(item, schema);
+
+        // Assert
+        expect(errors).toEqual([
+            { pointer: '/tags', message: 'must contain at most 2 items' },
+            { pointer: '/tags/1', message: 'must be a string' },
+            { pointer: '/size/width', message: 'must be an integer' },
+            { pointer: '/inStock', message: 'must be a boolean' },
+        ]);
+    });
+});
+
+// ========================================
+// toPointer のテスト
+// ========================================
+describe('toPointer - JSON Pointer の組み立て', () => {
+    test.each([
+        ['', 'price', '/price'],
+        ['/tags', '0', '/tags/0'],
+        ['', 'a/b', '/a~1b'],
+        ['', 'm~n', '/m~0n'],
+    ])('正常系：toPointer(%p, %p) は %p', (parent, token, expected) => {
+        expect(toPointer(parent, token)).toBe(expected);
+    });
+});
+
+// ========================================
+// loadSchema のテスト
+// ========================================
+describe('loadSchema - 設定からのスキーマ読み込み', () => {
+    /**
+     * 正常系テスト：未設定ならデフォルト
+     */
+    test.each([undefined, '', '   '])('正常系：未設定(%p)の場合はデフォルトのスキーマ', (json) => {
+        expect(loadSchema(json)).toBe(DEFAULT_ITEM_SCHEMA);
+    });
+
+    /**
+     * 正常系テスト：別テーブル用のスキーマ
+     *
+     * 学習ポイント：
+     * - 指定しなかった項目(reserved, maxBytes など)はデフォルトの値になる
+     */
+    test('正常系：設定したスキーマを読み込める', () => {
+        // Arrange
+        const json = JSON.stringify({
+            properties: { title: { type: 'string' } },
+            required: ['title'],
+            maxDepth: 3,
+        });
+
+        // Act
+        const schema = loadSchema(json);
+
+        // Assert
+        expect(schema.properties).toEqual({ title: { type: 'string' } });
+        expect(schema.required).toEqual(['title']);
+        expect(schema.maxDepth).toBe(3);
+        expect(schema.reserved).toEqual(DEFAULT_ITEM_SCHEMA.reserved);
+        expect(schema.maxBytes).toBe(DEFAULT_ITEM_SCHEMA.maxBytes);
+        expect(validateItem({ name: 'x' }, schema)).toEqual([{ pointer: '/title', message: 'is required' }]);
+    });
+
+    /**
+     * 異常系テスト：不正な設定
+     *
+     * 学習ポイント：
+     * - 設定ミスはリクエストを処理する前に例外で知らせる
+     */
+    test.each([
+        ['JSONではない', '{not json', 'Invalid item schema: not valid JSON'],
+        ['配列', '[]', 'Invalid item schema: must be a JSON object'],
+        [
+            '不明な型',
+            JSON.stringify({ properties: { a: { type: 'date' } } }),
+            'Invalid item schema: properties.a.type must be one of string|number|integer|boolean|object|array',
+        ],
+        [
+            'requiredが文字列',
+            JSON.stringify({ required: 'name' }),
+            'Invalid item schema: required must be an array of strings',
+        ],
+        ['maxBytesが0', JSON.stringify({ maxBytes: 0 }), 'Invalid item schema: maxBytes must be a positive integer'],
+    ])('異常系：%s の場合は例外', (_label, json, message) => {
+        expect(() => loadSchema(json)).toThrow(message);
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * 変更イベントを発行するLambda関数のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. インメモリの発行先を使って、AWSなしでストリームのハンドラーをテストする方法
+ * 2. 部分的なバッチの失敗(batchItemFailures)のテスト
+ * 3. 変換できないレコード(ポイズンメッセージ)の扱いのテスト
+ */
+
+import { DynamoDBStreamEvent } from 'aws-lambda';
+import { createStreamHandler, createEventPublisher } from '../../stream-handler';
+import { createInMemoryEventPublisher } from '../../event-publisher';
+import { createStreamRecord } from './stream-records';
+
+const item = { id: 'item-1', name: '商品', price: 1000, version: 1 };
+const updated = { ...item, price: 1200, version: 2 };
+
+/**
+ * テスト用のストリームのイベント(作成 → 更新 → 物理削除)
+ */
+function createStreamEvent(): DynamoDBStreamEvent {
+    return {
+        Records: [
+            createStreamRecord('INSERT', undefined, item, '100'),
+            createStreamRecord('MODIFY', item, updated, '200'),
+            createStreamRecord('REMOVE', updated, undefined, '300'),
+        ],
+    };
+}
+
+// ログ出力(標準出力)をモック
+let stdoutSpy: jest.SpyInstance;
+
+beforeEach(() => {
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+    stdoutSpy.mockRestore();
+});
+
+// ========================================
+// createStreamHandler のテスト
+// ========================================
+describe('createStreamHandler - ストリームのハンドラー', () => {
+    test('正常系：すべてのレコードを順にイベントとして発行し、失敗なしを返す', async () => {
+        // Arrange
+        const publisher = createInMemoryEventPublisher();
+        const handler = createStreamHandler(publisher);
+
+        // Act
+        const response = await handler(createStreamEvent());
+
+        // Assert
+        expect(response).toEqual({ batchItemFailures: [] });
+        expect(publisher.published.map((event) => event.type)).toEqual(['item.created', 'item.updated', 'item.deleted']);
+        expect(publisher.published[1]).toMatchObject({ itemId: 'item-1', oldImage: item, newImage: updated });
+    });
+
+    /**
+     * 異常系テスト：発行の失敗
+     *
+     * 学習ポイント：
+     * - 最初に失敗したレコードのシーケンス番号を返すと、Lambda はそこから再試行する
+     * - 再試行の上限を超えたバッチの情報は DLQ(template.yaml の OnFailure)に送られる
+     */
+    test('異常系：発行に失敗したレコードのうち最初のシーケンス番号を返す', async () => {
+        // Arrange
+        const publisher = createInMemoryEventPublisher((event) => event.type !== 'item.created');
+        const handler = createStreamHandler(publisher);
+
+        // Act
+        const response = await handler(createStreamEvent());
+
+        // Assert
+        expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '200' }] });
+        expect(publisher.published.map((event) => event.type)).toEqual(['item.created']);
+    });
+
+    /**
+     * 異常系テスト：変換できないレコード
+     *
+     * 学習ポイント：
+     * - 同じアイテムの変更の順番を守るため、変換できないレコードより後ろは発行しない
+     */
+    test('異常系：変換できないレコードの手前までを発行し、そのレコードから再試行させる', async () => {
+        // Arrange
+        const publisher = createInMemoryEventPublisher();
+        const handler = createStreamHandler(publisher);
+        const event = createStreamEvent();
+        event.Records[1] = createStreamRecord('MODIFY', undefined, updated, '200');
+
+        // Act
+        const response = await handler(event);
+
+        // Assert
+        expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '200' }] });
+        expect(publisher.published.map((published) => published.type)).toEqual(['item.created']);
+    });
+
+    /**
+     * 正常系テスト：移行スクリプトが書き込んだレコード
+     *
+     * 学習ポイント：
+     * - migratedFrom の印がある書き込みは発行しない(移したアイテムが item.created として通知されない)
+     * - 飛ばしたレコードがあっても、再試行させるのは失敗したイベントの元のレコード
+     */
+    test('正常系：移行で書き込んだレコードは発行せず、再試行の位置は元のレコードで返す', async () => {
+        // Arrange
+        const publisher = createInMemoryEventPublisher((event) => event.type === 'item.deleted');
+        const handler = createStreamHandler(publisher);
+        const event = createStreamEvent();
+        event.Records[0].dynamodb!.NewImage!.migratedFrom = { S: 'Items' };
+
+        // Act
+        const response = await handler(event);
+
+        // Assert
+        expect(publisher.published.map((published) => published.type)).toEqual(['item.updated']);
+        expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '300' }] });
+    });
+
+    test('異常系：シーケンス番号がない場合は空の itemIdentifier(バッチ全体を再試行)', async () => {
+        // Arrange
+        const publisher = createInMemoryEventPublisher(() => true);
+        const handler = createStreamHandler(publisher);
+        const record = createStreamRecord('INSERT', undefined, item);
+        delete record.dynamodb!.SequenceNumber;
+
+        // Act
+        const response = await handler({ Records: [record] });
+
+        // Assert
+        expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '' }] });
+    });
+});
+
+// ========================================
+// createEventPublisher のテスト
+// ========================================
+describe('createEventPublisher - 設定による発行先の作成', () => {
+    test('正常系：eventbridge と memory の発行先を作成できる', () => {
+        expect(createEventPublisher('eventbridge')).toHaveProperty('publish');
+        expect(createEventPublisher('memory')).toHaveProperty('published');
+    });
+
+    test('異常系：sns で EVENT_TOPIC_ARN が未設定の場合は例外', () => {
+        expect(() => createEventPublisher('sns')).toThrow('EVENT_TOPIC_ARN is required');
+    });
+
+    test('異常系：不明な発行先は例外', () => {
+        expect(() => createEventPublisher('kafka')).toThrow('Invalid EVENT_PUBLISHER: kafka');
+    });
+});
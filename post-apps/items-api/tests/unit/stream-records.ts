@@ -0,0 +1,58 @@
+/**
+ * DynamoDB Streams のレコードを作成するテスト用のヘルパー(教育用)
+ *
+ * 学習ポイント：
+ * - ストリームのレコードはDynamoDBの形式({ "S": "..." } など)なので、marshall で変換して作る
+ * - events.test.ts と stream-handler.test.ts の両方で使う
+ * - キーと変更前・変更後のアイテムは、テーブルに保存される形(テナントのキーの属性付き)にする
+ */
+
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { AttributeValue, DynamoDBRecord } from 'aws-lambda';
+import { toItemRecord } from '../../dynamodb-repository';
+import { DEFAULT_TENANT_ID, Item } from '../../repository';
+
+/**
+ * ストリームのレコードの作成日時(2025-10-21T10:30:00.000Z のUNIX時間の秒)
+ */
+export const STREAM_RECORD_TIME = 1761042600;
+
+/**
+ * テスト用のストリームのレコードを作成する
+ *
+ * @param eventName - INSERT / MODIFY / REMOVE
+ * @param oldImage - 変更前のアイテム
+ * @param newImage - 変更後のアイテム
+ * @param sequenceNumber - シーケンス番号(イベントのIDにも使う)
+ * @param tenantId - アイテムのテナント
+ * @returns ストリームのレコード
+ */
+export function createStreamRecord(
+    eventName: 'INSERT' | 'MODIFY' | 'REMOVE',
+    oldImage: Item | undefined,
+    newImage: Item | undefined,
+    sequenceNumber = '100',
+    tenantId = DEFAULT_TENANT_ID
+): DynamoDBRecord {
+    const id = (newImage ?? oldImage)?.id;
+    return {
+        eventID: `event-${sequenceNumber}`,
+        eventName,
+        eventSource: 'aws:dynamodb',
+        dynamodb: {
+            ApproximateCreationDateTime: STREAM_RECORD_TIME,
+            Keys: toAttributeValues({ tenantId, id }),
+            ...(oldImage ? { OldImage: toAttributeValues(toItemRecord(tenantId, oldImage)) } : {}),
+            ...(newImage ? { NewImage: toAttributeValues(toItemRecord(tenantId, newImage)) } : {}),
+            SequenceNumber: sequenceNumber,
+            StreamViewType: 'NEW_AND_OLD_IMAGES',
+        },
+    };
+}
+
+/**
+ * 普通のオブジェクトからDynamoDBの形式に変換する
+ */
+function toAttributeValues(item: Item): Record<string, AttributeValue> {
+    return marshall(item, { removeUndefinedValues: true }) as Record<string, AttributeValue>;
+}
@@ -0,0 +1,118 @@
+/**
+ * テナントの判定のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. パスからテナントを取り出すテスト
+ * 2. パス・ヘッダー・クレームの優先順位のテスト
+ * 3. 他のテナントへのアクセスを拒否するテスト
+ */
+
+import { Principal } from '../../auth';
+import { isValidTenantId, resolveTenant, splitTenantPath } from '../../tenant';
+
+/**
+ * テスト用のユーザー
+ */
+function principalOf(overrides: Partial<Principal> = {}): Principal {
+    return { subject: 'user-1', scopes: [], isAdmin: false, ...overrides };
+}
+
+// ========================================
+// splitTenantPath のテスト
+// ========================================
+describe('splitTenantPath - パスからテナントを取り出す', () => {
+    test.each([
+        ['/tenants/acme/items', 'acme', '/items'],
+        ['/tenants/acme/items/item-1', 'acme', '/items/item-1'],
+        ['/tenants/acme/items/item-1/history', 'acme', '/items/item-1/history'],
+        ['/tenants/acme/items:batch', 'acme', '/items:batch'],
+        ['/tenants/a%20b/items', 'a b', '/items'],
+    ])('正常系：%s はテナント %s のパス %s', (path, tenantId, rest) => {
+        expect(splitTenantPath(path)).toEqual({ tenantId, path: rest });
+    });
+
+    test.each([['/items/item-1'], ['/tenants/acme/api-keys'], ['/tenants/acme/itemsx'], ['/tenants/%E0%A4%A/items']])(
+        '正常系：%s はテナントを指定しないパスとして扱う',
+        (path) => {
+            expect(splitTenantPath(path)).toEqual({ path });
+        }
+    );
+});
+
+// ========================================
+// isValidTenantId のテスト
+// ========================================
+describe('isValidTenantId - テナントIDの形式', () => {
+    test.each([['acme'], ['tenant-1'], ['A_b-9'], ['a'.repeat(64)]])('正常系：%s は正しい', (tenantId) => {
+        expect(isValidTenantId(tenantId)).toBe(true);
+    });
+
+    test.each([[''], ['-acme'], ['acme#1'], ['a b'], ['a'.repeat(65)]])('異常系：%s は不正', (tenantId) => {
+        expect(isValidTenantId(tenantId)).toBe(false);
+    });
+});
+
+// ========================================
+// resolveTenant のテスト
+// ========================================
+describe('resolveTenant - リクエストの対象のテナント', () => {
+    test('正常系：何も指定しなければデフォルトのテナント', () => {
+        expect(resolveTenant({}, principalOf())).toEqual({ tenantId: 'default' });
+    });
+
+    test('正常系：何も指定しなければトークンのテナント', () => {
+        expect(resolveTenant({}, principalOf({ tenantId: 'acme' }))).toEqual({ tenantId: 'acme' });
+    });
+
+    test('正常系：パスまたはヘッダーで指定したトークンのテナント', () => {
+        const principal = principalOf({ tenantId: 'acme' });
+
+        expect(resolveTenant({ pathTenantId: 'acme' }, principal)).toEqual({ tenantId: 'acme' });
+        expect(resolveTenant({ headerTenantId: 'acme' }, principal)).toEqual({ tenantId: 'acme' });
+        expect(resolveTenant({ pathTenantId: 'acme', headerTenantId: 'acme' }, principal)).toEqual({
+            tenantId: 'acme',
+        });
+    });
+
+    test('正常系：テナントのないユーザーはデフォルトのテナントを指定できる', () => {
+        expect(resolveTenant({ pathTenantId: 'default' }, principalOf())).toEqual({ tenantId: 'default' });
+    });
+
+    test('異常系：パスとヘッダーで違うテナントを指定すると mismatch', () => {
+        expect(resolveTenant({ pathTenantId: 'acme', headerTenantId: 'other' }, principalOf())).toMatchObject({
+            error: 'mismatch',
+        });
+    });
+
+    test('異常系：テナントIDの形式が不正なら invalid', () => {
+        expect(resolveTenant({ headerTenantId: 'acme#1' }, principalOf())).toMatchObject({ error: 'invalid' });
+    });
+
+    /**
+     * セキュリティテスト：他のテナントへのアクセス
+     *
+     * 学習ポイント：
+     * - トークンにテナントがあるユーザーは、パスやヘッダーを変えても他のテナントを読み書きできない
+     */
+    test('セキュリティ：管理者でもトークンのテナントと違うテナントは forbidden', () => {
+        expect(resolveTenant({ pathTenantId: 'other' }, principalOf({ tenantId: 'acme', isAdmin: true }))).toMatchObject({
+            error: 'forbidden',
+        });
+    });
+
+    test('セキュリティ：テナントのないユーザーはデフォルト以外のテナントは forbidden', () => {
+        expect(resolveTenant({ pathTenantId: 'acme' }, principalOf())).toMatchObject({ error: 'forbidden' });
+        expect(resolveTenant({ headerTenantId: 'acme' }, principalOf({ isAdmin: true }))).toMatchObject({
+            error: 'forbidden',
+        });
+    });
+
+    test('セキュリティ：トークンのテナントと違うテナントは forbidden', () => {
+        expect(resolveTenant({ pathTenantId: 'other' }, principalOf({ tenantId: 'acme' }))).toMatchObject({
+            error: 'forbidden',
+        });
+        expect(resolveTenant({ headerTenantId: 'other' }, principalOf({ tenantId: 'acme' }))).toMatchObject({
+            error: 'forbidden',
+        });
+    });
+});
@@ -0,0 +1,432 @@
+/**
+ * Webhook の配信のテストコード（教育用）
+ *
+ * === このテストコードで学べること ===
+ * 1. ローカルにHTTPサーバー(通知を受け取る側)を起動して、実際の送信をテストする方法
+ * 2. 待ち時間の関数を差し替えて、指数バックオフの再試行を待たずにテストする方法
+ * 3. 配信の記録と、失敗が続いた通知先の自動停止のテスト
+ */
+
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import { ItemChangeEvent } from '../../events';
+import {
+    createWebhookPublisher,
+    deliverWebhook,
+    loadWebhookDeliveryOptions,
+    WebhookDeliveryOptions,
+} from '../../webhook-dispatcher';
+import { createInMemoryWebhookStore, verifyWebhookSignature, WebhookRecord, WebhookStore } from '../../webhooks';
+
+// ========================================
+// テスト用の受信サーバー
+// ========================================
+/**
+ * 受信サーバーが受け取ったリクエスト
+ */
+interface ReceivedRequest {
+    headers: Record<string, string | string[] | undefined>;
+    body: string;
+}
+
+/**
+ * 通知を受け取るHTTPサーバー(テスト用)
+ */
+interface Receiver {
+    server: Server;
+    url: string;
+    received: ReceivedRequest[];
+    /** 返すステータスコード(先頭から順に使い、最後の値を使い続ける) */
+    statuses: number[];
+}
+
+/**
+ * 受信サーバーを起動する
+ *
+ * 学習ポイント：
+ * - ポート0を指定すると空いているポートが選ばれる
+ */
+async function startReceiver(statuses: number[] = [200]): Promise<Receiver> {
+    const received: ReceivedRequest[] = [];
+    const receiver = { received, statuses } as Receiver;
+    receiver.server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+            received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+            const status = receiver.statuses.length > 1 ? receiver.statuses.shift()! : receiver.statuses[0];
+            res.writeHead(status, { 'Content-Type': 'text/plain' });
+            res.end('ok');
+        });
+    });
+    await new Promise<void>((resolve) => receiver.server.listen(0, '127.0.0.1', resolve));
+    const { port } = receiver.server.address() as AddressInfo;
+    receiver.url = `http://127.0.0.1:${port}/hooks`;
+    return receiver;
+}
+
+/**
+ * 受信サーバーを停止する
+ */
+function stopReceiver(receiver: Receiver): Promise<void> {
+    return new Promise((resolve, reject) => receiver.server.close((err) => (err ? reject(err) : resolve())));
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+const SECRET = 'whsec_test-secret-0123456789';
+
+const options: WebhookDeliveryOptions = {
+    maxAttempts: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    timeoutMs: 2000,
+    disableAfterFailures: 2,
+    minRemainingTimeMs: 1000,
+};
+
+/**
+ * テスト用の通知先を作成
+ */
+function createWebhook(url: string, overrides: Partial<WebhookRecord> = {}): WebhookRecord {
+    return {
+        webhookId: 'hook-1',
+        url,
+        eventTypes: ['item.created', 'item.updated', 'item.deleted'],
+        status: 'active',
+        consecutiveFailures: 0,
+        createdAt: '2025-10-21T10:00:00.000Z',
+        createdBy: 'admin',
+        secret: SECRET,
+        ...overrides,
+    };
+}
+
+/**
+ * テスト用のイベントを作成
+ */
+function createEvent(id: string, type: ItemChangeEvent['type'] = 'item.created'): ItemChangeEvent {
+    return {
+        id,
+        type,
+        tenantId: 'default',
+        itemId: 'item-1',
+        version: 1,
+        occurredAt: '2025-10-21T10:30:00.000Z',
+        newImage: { id: 'item-1', name: '商品', version: 1 },
+    };
+}
+
+// ログ出力(標準出力)をモック
+let stdoutSpy: jest.SpyInstance;
+let receiver: Receiver;
+let sleeps: number[];
+
+/**
+ * 待ち時間を記録するだけで、実際には待たない
+ */
+const context = {
+    sleep: async (ms: number) => {
+        sleeps.push(ms);
+    },
+    random: () => 1,
+};
+
+beforeEach(() => {
+    sleeps = [];
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(async () => {
+    stdoutSpy.mockRestore();
+    if (receiver?.server.listening) {
+        await stopReceiver(receiver);
+    }
+});
+
+// ========================================
+// deliverWebhook のテスト
+// ========================================
+describe('deliverWebhook - 1つのイベントの配信', () => {
+    /**
+     * 正常系テスト：署名付きの配信
+     *
+     * 学習ポイント：
+     * - 受け取る側は、パースする前のボディと X-Items-Signature で送信元を確認する
+     */
+    test('正常系：署名とヘッダーを付けてイベントを送信する', async () => {
+        // Arrange
+        receiver = await startReceiver([204]);
+        const event = createEvent('event-1');
+
+        // Act
+        const delivery = await deliverWebhook(createWebhook(receiver.url), event, options, context);
+
+        // Assert
+        expect(delivery).toMatchObject({
+            webhookId: 'hook-1',
+            eventId: 'event-1',
+            eventType: 'item.created',
+            status: 'succeeded',
+            attempts: [{ attempt: 1, statusCode: 204 }],
+        });
+        const [request] = receiver.received;
+        expect(JSON.parse(request.body)).toEqual(event);
+        expect(request.headers).toMatchObject({
+            'content-type': 'application/json',
+            'user-agent': 'items-api-webhooks/1.0',
+            'x-items-event': 'item.created',
+            'x-items-delivery': delivery.deliveryId,
+        });
+        expect(verifyWebhookSignature(SECRET, request.headers['x-items-signature'] as string, request.body)).toBe(true);
+    });
+
+    /**
+     * 正常系テスト：再試行
+     *
+     * 学習ポイント：
+     * - 待ち時間の上限は baseDelayMs × 2^(回数-1)。random を1に固定すると上限そのものになる
+     * - 再試行しても X-Items-Delivery は同じ
+     */
+    test('正常系：失敗したら指数バックオフで再試行し、成功したら止める', async () => {
+        // Arrange
+        receiver = await startReceiver([500, 503, 200]);
+
+        // Act
+        const delivery = await deliverWebhook(createWebhook(receiver.url), createEvent('event-1'), options, context);
+
+        // Assert
+        expect(delivery.status).toBe('succeeded');
+        expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([500, 503, 200]);
+        expect(sleeps).toEqual([100, 200]);
+        expect(new Set(receiver.received.map((request) => request.headers['x-items-delivery'])).size).toBe(1);
+    });
+
+    test('異常系：最大の回数まで失敗したら failed として記録する', async () => {
+        // Arrange
+        receiver = await startReceiver([500]);
+
+        // Act
+        const delivery = await deliverWebhook(createWebhook(receiver.url), createEvent('event-1'), options, context);
+
+        // Assert
+        expect(delivery.status).toBe('failed');
+        expect(delivery.attempts).toHaveLength(3);
+        expect(receiver.received).toHaveLength(3);
+    });
+
+    /**
+     * セキュリティテスト：リダイレクト
+     *
+     * 学習ポイント：
+     * - リダイレクト先には送らない(URLの検証をすり抜けて内部のアドレスに送らないため)
+     */
+    test('セキュリティ：リダイレクト(3xx)には従わず失敗とする', async () => {
+        // Arrange
+        receiver = await startReceiver([302]);
+
+        // Act
+        const delivery = await deliverWebhook(
+            createWebhook(receiver.url),
+            createEvent('event-1'),
+            { ...options, maxAttempts: 1 },
+            context
+        );
+
+        // Assert
+        expect(delivery).toMatchObject({ status: 'failed', attempts: [{ statusCode: 302 }] });
+        expect(receiver.received).toHaveLength(1);
+    });
+
+    test('異常系：接続できない場合はエラーの内容を記録する', async () => {
+        // Arrange
+        receiver = await startReceiver();
+        const url = receiver.url;
+        await stopReceiver(receiver);
+
+        // Act
+        const delivery = await deliverWebhook(
+            createWebhook(url),
+            createEvent('event-1'),
+            { ...options, maxAttempts: 1 },
+            context
+        );
+
+        // Assert
+        expect(delivery.status).toBe('failed');
+        expect(delivery.attempts[0].statusCode).toBeUndefined();
+        expect(delivery.attempts[0].error).toEqual(expect.any(String));
+    });
+});
+
+// ========================================
+// createWebhookPublisher のテスト
+// ========================================
+describe('createWebhookPublisher - 登録されている通知先への配信', () => {
+    test('正常系：通知先が指定した種類のイベントだけを順に配信し、記録を残す', async () => {
+        // Arrange
+        receiver = await startReceiver([200]);
+        const store = createInMemoryWebhookStore([createWebhook(receiver.url, { eventTypes: ['item.created', 'item.deleted'] })]);
+        const publisher = createWebhookPublisher(store, options, context);
+
+        // Act
+        const failed = await publisher.publish([
+            createEvent('event-1'),
+            createEvent('event-2', 'item.updated'),
+            createEvent('event-3', 'item.deleted'),
+        ]);
+
+        // Assert
+        expect(failed).toEqual([]);
+        expect(receiver.received.map((request) => JSON.parse(request.body).id)).toEqual(['event-1', 'event-3']);
+        const { deliveries } = await store.listDeliveries('hook-1', 10);
+        expect(deliveries.map((delivery) => delivery.eventId)).toEqual(['event-3', 'event-1']);
+        expect(await store.get('hook-1')).toMatchObject({ consecutiveFailures: 0, lastDeliveryAt: expect.any(String) });
+    });
+
+    /**
+     * 正常系テスト：自動停止
+     *
+     * 学習ポイント：
+     * - disableAfterFailures 回続けて失敗した通知先は disabled になり、残りのイベントは送らない
+     * - Webhook の失敗はストリームの再試行にしない(発行できなかったイベントとして返さない)
+     */
+    test('正常系：続けて失敗した通知先は disabled になり、以降は配信しない', async () => {
+        // Arrange
+        receiver = await startReceiver([500]);
+        const store = createInMemoryWebhookStore([createWebhook(receiver.url)]);
+        const publisher = createWebhookPublisher(store, { ...options, maxAttempts: 1 }, context);
+
+        // Act
+        const failed = await publisher.publish([createEvent('event-1'), createEvent('event-2'), createEvent('event-3')]);
+        await publisher.publish([createEvent('event-4')]);
+
+        // Assert
+        expect(failed).toEqual([]);
+        expect(receiver.received).toHaveLength(2);
+        expect(await store.get('hook-1')).toMatchObject({
+            status: 'disabled',
+            consecutiveFailures: 2,
+            disabledAt: expect.any(String),
+        });
+        const { deliveries } = await store.listDeliveries('hook-1', 10);
+        expect(deliveries.map((delivery) => delivery.status)).toEqual(['failed', 'failed']);
+    });
+
+    test('正常系：1つの通知先の失敗は他の通知先への配信に影響しない', async () => {
+        // Arrange
+        receiver = await startReceiver([200]);
+        const store = createInMemoryWebhookStore([
+            createWebhook('http://127.0.0.1:1/unreachable', { webhookId: 'hook-1' }),
+            createWebhook(receiver.url, { webhookId: 'hook-2' }),
+        ]);
+        const publisher = createWebhookPublisher(store, { ...options, maxAttempts: 1 }, context);
+
+        // Act
+        await publisher.publish([createEvent('event-1')]);
+
+        // Assert
+        expect(receiver.received).toHaveLength(1);
+        expect(await store.get('hook-1')).toMatchObject({ consecutiveFailures: 1 });
+        expect(await store.get('hook-2')).toMatchObject({ consecutiveFailures: 0 });
+    });
+
+    /**
+     * セキュリティテスト：テナント
+     *
+     * 学習ポイント：
+     * - 通知先には登録したテナントのイベントだけを送る
+     * - tenantId のない古い通知先には、デフォルトのテナントのイベントだけを送る
+     */
+    test('セキュリティ：通知先には登録したテナントのイベントだけを配信する', async () => {
+        // Arrange
+        receiver = await startReceiver([200]);
+        const store = createInMemoryWebhookStore([
+            createWebhook(receiver.url, { webhookId: 'hook-1', tenantId: 'acme' }),
+            createWebhook(receiver.url, { webhookId: 'hook-2' }),
+        ]);
+        const publisher = createWebhookPublisher(store, options, context);
+
+        // Act
+        await publisher.publish([
+            createEvent('event-1'),
+            { ...createEvent('event-2'), tenantId: 'acme' },
+            { ...createEvent('event-3'), tenantId: 'other' },
+        ]);
+
+        // Assert
+        expect((await store.listDeliveries('hook-1', 10)).deliveries.map((delivery) => delivery.eventId)).toEqual([
+            'event-2',
+        ]);
+        expect((await store.listDeliveries('hook-2', 10)).deliveries.map((delivery) => delivery.eventId)).toEqual([
+            'event-1',
+        ]);
+        expect(receiver.received).toHaveLength(2);
+    });
+
+    /**
+     * 異常系テスト：Lambdaの残り時間
+     *
+     * 学習ポイント：
+     * - 最も長くかかった場合(3回 × 2秒 + 待ち時間 2回 × 1秒)の配信と余裕(1秒)が残り時間に収まらなければ始めない
+     * - 送らなかったイベントは発行できなかったものとして返す(ストリームからそのイベント以降が再試行される)
+     */
+    test('異常系：残り時間が足りなくなったら配信を打ち切り、残りのイベントを発行できなかったものとして返す', async () => {
+        // Arrange
+        receiver = await startReceiver([200]);
+        const store = createInMemoryWebhookStore([createWebhook(receiver.url)]);
+        const publisher = createWebhookPublisher(store, options, context);
+        const getRemainingTimeInMillis = jest.fn().mockReturnValueOnce(20000).mockReturnValue(8999);
+        const events = [createEvent('event-1'), createEvent('event-2'), createEvent('event-3')];
+
+        // Act
+        const failed = await publisher.publish(events, { getRemainingTimeInMillis });
+
+        // Assert
+        expect(failed).toEqual([events[1], events[2]]);
+        expect(receiver.received.map((request) => JSON.parse(request.body).id)).toEqual(['event-1']);
+        expect((await store.listDeliveries('hook-1', 10)).deliveries).toHaveLength(1);
+    });
+
+    test('異常系：通知先の一覧を読めない場合はすべてのイベントを発行できなかったものとして返す', async () => {
+        // Arrange
+        const store = {
+            ...createInMemoryWebhookStore(),
+            list: async () => {
+                throw new Error('ProvisionedThroughputExceededException');
+            },
+        } as WebhookStore;
+        const events = [createEvent('event-1'), createEvent('event-2')];
+
+        // Act
+        const failed = await createWebhookPublisher(store, options, context).publish(events);
+
+        // Assert
+        expect(failed).toEqual(events);
+    });
+});
+
+// ========================================
+// loadWebhookDeliveryOptions のテスト
+// ========================================
+describe('loadWebhookDeliveryOptions - 環境変数からの設定の読み込み', () => {
+    test('正常系：未設定の値はデフォルトになる', () => {
+        expect(loadWebhookDeliveryOptions({ WEBHOOK_MAX_ATTEMPTS: '5' })).toEqual({
+            maxAttempts: 5,
+            baseDelayMs: 500,
+            maxDelayMs: 5000,
+            timeoutMs: 3000,
+            disableAfterFailures: 5,
+            minRemainingTimeMs: 5000,
+        });
+    });
+
+    test.each([
+        [{ WEBHOOK_MAX_ATTEMPTS: '0' }, 'Invalid WEBHOOK_MAX_ATTEMPTS'],
+        [{ WEBHOOK_TIMEOUT_MS: 'abc' }, 'Invalid WEBHOOK_TIMEOUT_MS'],
+        [{ WEBHOOK_RETRY_BASE_DELAY_MS: '2000', WEBHOOK_RETRY_MAX_DELAY_MS: '1000' }, 'Invalid WEBHOOK_RETRY_MAX_DELAY_MS'],
+    ])('異常系：不正な設定 %p は例外', (env, message) => {
+        expect(() => loadWebhookDeliveryOptions(env)).toThrow(message);
+    });
+});
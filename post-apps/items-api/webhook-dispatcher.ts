@@ -0,0 +1,362 @@
+/**
+ * Webhook の配信(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. 署名付きのHTTPリクエストで変更イベントを通知する方法
+ * 2. 指数バックオフによる再試行と、配信の記録(デリバリーログ)
+ * 3. 失敗が続く通知先の自動停止(サーキットブレーカーの考え方)
+ *
+ * 学習ポイント：
+ * - EventPublisher(event-publisher.ts)として実装し、stream-handler.ts から EventBridge などと一緒に呼び出す
+ * - 通知先の障害は Webhook の中で扱い(再試行・記録・停止)、ストリームの再試行にはしない
+ *   (ストリームを再試行すると、成功した通知先や EventBridge にも同じイベントが届いてしまう)
+ * - 通知はイベントごとに「少なくとも1回」届く。受け取る側は X-Items-Delivery ではなくボディの id で重複を除く
+ * - Lambdaの残り時間で配信を打ち切る(タイムアウトするとバッチ全体が再試行され、配信済みの通知先にも再び届くため)
+ */
+
+import { ItemChangeEvent } from './events';
+import { EventPublisher, PublishContext, unpublishedFrom } from './event-publisher';
+import { logger } from './logger';
+import { computeBackoffDelay, parseInteger } from './retry';
+import {
+    belongsToTenant,
+    createDeliveryId,
+    signWebhookPayload,
+    WebhookDelivery,
+    WebhookDeliveryAttempt,
+    WebhookRecord,
+    WebhookStore,
+    WEBHOOK_DELIVERY_TTL_SECONDS,
+    WEBHOOK_HEADERS,
+} from './webhooks';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * 配信の設定
+ */
+export interface WebhookDeliveryOptions {
+    /** 最初の1回を含む最大の送信回数 */
+    maxAttempts: number;
+    /** 待ち時間の上限の基準(ミリ秒)。1回ごとに2倍になる */
+    baseDelayMs: number;
+    /** 待ち時間の上限(ミリ秒) */
+    maxDelayMs: number;
+    /** 1回の送信のタイムアウト(ミリ秒) */
+    timeoutMs: number;
+    /** この回数だけ続けて配信に失敗したら、通知先を disabled にする */
+    disableAfterFailures: number;
+    /** 1つの配信を始めるために必要な、最も長くかかった場合の配信の後のLambdaの残り時間(ミリ秒) */
+    minRemainingTimeMs: number;
+}
+
+/**
+ * 配信に使う関数(テスト用に差し替えられる)
+ */
+export interface WebhookDeliveryContext {
+    /** HTTPリクエストを送る関数 */
+    fetch?: typeof fetch;
+    /** 指定したミリ秒だけ待つ関数 */
+    sleep?: (ms: number) => Promise<void>;
+    /** 0以上1未満の乱数を返す関数 */
+    random?: () => number;
+    /** 現在時刻(UNIX時間のミリ秒)を返す関数 */
+    now?: () => number;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * デフォルトの配信の設定
+ *
+ * 学習ポイント：
+ * - 1回の配信は最大で 3回 × 3秒 + 待ち時間(最大 2回 × 5秒)。template.yaml の ItemEventsFunction のタイムアウトに収まるようにする
+ * - minRemainingTimeMs は配信の記録と通知先の状態を保存する時間の余裕
+ */
+export const DEFAULT_WEBHOOK_DELIVERY_OPTIONS: WebhookDeliveryOptions = {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 5000,
+    timeoutMs: 3000,
+    disableAfterFailures: 5,
+    minRemainingTimeMs: 5000,
+};
+
+/**
+ * 送信するリクエストの User-Agent
+ */
+const USER_AGENT = 'items-api-webhooks/1.0';
+
+// ========================================
+// 配信
+// ========================================
+/**
+ * 登録されている通知先にイベントを配信する発行先を作成する
+ *
+ * 学習ポイント：
+ * - 通知先ごとに並行して配信し、1つの通知先にはイベントの順番どおりに送る
+ * - 通知先には、登録したテナントのイベントだけを送る(他のテナントのアイテムの変更は届けない)
+ * - 配信の途中で disabled になった通知先には、残りのイベントを送らない
+ * - 通知先の一覧を読めない場合は、すべてのイベントを発行できなかったものとして返す(ストリームから再試行される)
+ * - 最も長くかかった場合に配信がLambdaの残り時間に収まらなければ、その通知先への配信を打ち切り、
+ *   残りのイベントを発行できなかったものとして返す(タイムアウトでバッチ全体が再試行されるより重複が少ない)
+ *   (通知先ごとに打ち切った位置が違うため、最も手前で打ち切ったイベントから後ろをまとめて返す)
+ *
+ * @param store - 通知先と配信の記録の保存先
+ * @param options - 配信の設定
+ * @param context - 配信に使う関数
+ * @returns 発行先
+ */
+export function createWebhookPublisher(
+    store: WebhookStore,
+    options: WebhookDeliveryOptions = DEFAULT_WEBHOOK_DELIVERY_OPTIONS,
+    context: WebhookDeliveryContext = {}
+): EventPublisher {
+    return {
+        async publish(events, publishContext: PublishContext = {}) {
+            let webhooks: WebhookRecord[];
+            try {
+                webhooks = (await store.list()).filter((webhook) => webhook.status === 'active');
+            } catch (err) {
+                logger.error('Failed to list webhooks', { error: err });
+                return events;
+            }
+
+            const undelivered = new Set<string>();
+            await Promise.all(
+                webhooks.map(async (webhook) => {
+                    const targets = events.filter(
+                        (event) => webhook.eventTypes.includes(event.type) && belongsToTenant(webhook, event.tenantId)
+                    );
+                    for (const [index, event] of targets.entries()) {
+                        if (!hasTimeToDeliver(options, publishContext)) {
+                            logger.warn('Not enough time left to deliver webhook', {
+                                webhookId: webhook.webhookId,
+                                remainingMs: publishContext.getRemainingTimeInMillis?.(),
+                                undelivered: targets.length - index,
+                            });
+                            targets.slice(index).forEach((target) => undelivered.add(target.id));
+                            return;
+                        }
+                        const updated = await deliverAndRecord(store, webhook, event, options, context);
+                        if (updated?.status !== 'active') {
+                            return;
+                        }
+                    }
+                })
+            );
+            return unpublishedFrom(events, undelivered);
+        },
+    };
+}
+
+/**
+ * 1つのイベントを1つの通知先に配信する(失敗したら指数バックオフで再試行する)
+ *
+ * 送信するヘッダー：
+ * - X-Items-Signature: 署名(webhooks.ts の signWebhookPayload)
+ * - X-Items-Event: イベントの種類
+ * - X-Items-Delivery: 配信のID(再試行しても同じ)
+ *
+ * 学習ポイント：
+ * - 2xx 以外のステータスコード、接続エラー、タイムアウトは失敗として再試行する
+ * - リダイレクトには従わない(URLの検証をすり抜けて内部のアドレスに送らないため)
+ * - 署名の時刻は送信のたびに作り直す(再試行が遅れても受け取る側の許容範囲に収まるように)
+ *
+ * @param webhook - 通知先
+ * @param event - 配信するイベント
+ * @param options - 配信の設定
+ * @param context - 配信に使う関数
+ * @returns 配信の記録
+ */
+export async function deliverWebhook(
+    webhook: WebhookRecord,
+    event: ItemChangeEvent,
+    options: WebhookDeliveryOptions = DEFAULT_WEBHOOK_DELIVERY_OPTIONS,
+    context: WebhookDeliveryContext = {}
+): Promise<WebhookDelivery> {
+    const send = context.fetch ?? fetch;
+    const sleep = context.sleep ?? defaultSleep;
+    const random = context.random ?? Math.random;
+    const now = context.now ?? Date.now;
+
+    const createdAt = now();
+    const deliveryId = createDeliveryId(createdAt);
+    const body = JSON.stringify(event);
+    const attempts: WebhookDeliveryAttempt[] = [];
+
+    for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+        if (attempt > 1) {
+            await sleep(computeBackoffDelay(attempt - 1, options, random));
+        }
+
+        const startedAt = now();
+        const result: WebhookDeliveryAttempt = {
+            attempt,
+            attemptedAt: new Date(startedAt).toISOString(),
+            durationMs: 0,
+        };
+        try {
+            const response = await send(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': USER_AGENT,
+                    [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(webhook.secret, body, Math.floor(startedAt / 1000)),
+                    [WEBHOOK_HEADERS.EVENT]: event.type,
+                    [WEBHOOK_HEADERS.DELIVERY]: deliveryId,
+                },
+                body,
+                redirect: 'manual',
+                signal: AbortSignal.timeout(options.timeoutMs),
+            });
+            result.statusCode = response.status;
+            // レスポンスのボディは使わないが、読み切って接続を解放する
+            await response.arrayBuffer().catch(() => undefined);
+        } catch (err) {
+            result.error = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+        }
+        result.durationMs = now() - startedAt;
+        attempts.push(result);
+
+        if (isSuccessStatus(result.statusCode)) {
+            break;
+        }
+        logger.warn('Webhook delivery attempt failed', {
+            webhookId: webhook.webhookId,
+            deliveryId,
+            attempt,
+            statusCode: result.statusCode,
+            error: result.error,
+        });
+    }
+
+    return {
+        webhookId: webhook.webhookId,
+        deliveryId,
+        eventId: event.id,
+        eventType: event.type,
+        status: isSuccessStatus(attempts[attempts.length - 1].statusCode) ? 'succeeded' : 'failed',
+        attempts,
+        createdAt: new Date(createdAt).toISOString(),
+        expiresAt: Math.floor(createdAt / 1000) + WEBHOOK_DELIVERY_TTL_SECONDS,
+    };
+}
+
+// ========================================
+// 設定の読み込み
+// ========================================
+/**
+ * 環境変数から配信の設定を読み込む
+ *
+ * 環境変数：
+ * - WEBHOOK_MAX_ATTEMPTS: 最初の1回を含む最大の送信回数
+ * - WEBHOOK_RETRY_BASE_DELAY_MS / WEBHOOK_RETRY_MAX_DELAY_MS: 待ち時間の上限の基準と上限(ミリ秒)
+ * - WEBHOOK_TIMEOUT_MS: 1回の送信のタイムアウト(ミリ秒)
+ * - WEBHOOK_DISABLE_AFTER_FAILURES: 通知先を disabled にする連続した失敗の回数
+ * - WEBHOOK_MIN_REMAINING_MS: 最も長くかかった場合の配信の後に残すLambdaの残り時間(ミリ秒)
+ *
+ * @param env - 環境変数
+ * @returns 配信の設定
+ */
+export function loadWebhookDeliveryOptions(env: Record<string, string | undefined>): WebhookDeliveryOptions {
+    const defaults = DEFAULT_WEBHOOK_DELIVERY_OPTIONS;
+    const options: WebhookDeliveryOptions = {
+        maxAttempts: parseInteger(env, 'WEBHOOK_MAX_ATTEMPTS', 1) ?? defaults.maxAttempts,
+        baseDelayMs: parseInteger(env, 'WEBHOOK_RETRY_BASE_DELAY_MS', 0) ?? defaults.baseDelayMs,
+        maxDelayMs: parseInteger(env, 'WEBHOOK_RETRY_MAX_DELAY_MS', 0) ?? defaults.maxDelayMs,
+        timeoutMs: parseInteger(env, 'WEBHOOK_TIMEOUT_MS', 1) ?? defaults.timeoutMs,
+        disableAfterFailures: parseInteger(env, 'WEBHOOK_DISABLE_AFTER_FAILURES', 1) ?? defaults.disableAfterFailures,
+        minRemainingTimeMs: parseInteger(env, 'WEBHOOK_MIN_REMAINING_MS', 0) ?? defaults.minRemainingTimeMs,
+    };
+    if (options.maxDelayMs < options.baseDelayMs) {
+        throw new Error(
+            'Invalid WEBHOOK_RETRY_MAX_DELAY_MS: must be greater than or equal to WEBHOOK_RETRY_BASE_DELAY_MS'
+        );
+    }
+    return options;
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * イベントを配信し、配信の記録と通知先の状態を保存する
+ *
+ * 学習ポイント：
+ * - 記録の保存に失敗しても配信そのものはやり直さない(ログに残して次に進む)
+ *
+ * @returns 更新後の通知先(保存に失敗した場合は元の通知先)。削除されていた場合はundefined
+ */
+async function deliverAndRecord(
+    store: WebhookStore,
+    webhook: WebhookRecord,
+    event: ItemChangeEvent,
+    options: WebhookDeliveryOptions,
+    context: WebhookDeliveryContext
+): Promise<WebhookRecord | undefined> {
+    const delivery = await deliverWebhook(webhook, event, options, context);
+    logger.info('Webhook delivered', {
+        webhookId: webhook.webhookId,
+        deliveryId: delivery.deliveryId,
+        eventId: event.id,
+        status: delivery.status,
+        attempts: delivery.attempts.length,
+    });
+
+    try {
+        await store.putDelivery(delivery);
+        const updated = await store.recordResult(
+            webhook.webhookId,
+            delivery.status === 'succeeded',
+            options.disableAfterFailures,
+            delivery.createdAt
+        );
+        if (updated?.status === 'disabled' && webhook.status === 'active') {
+            logger.warn('Webhook disabled after repeated failures', {
+                webhookId: webhook.webhookId,
+                consecutiveFailures: updated.consecutiveFailures,
+            });
+        }
+        return updated;
+    } catch (err) {
+        logger.error('Failed to record webhook delivery', { error: err, webhookId: webhook.webhookId });
+        return webhook;
+    }
+}
+
+/**
+ * 1つのイベントの配信を、Lambdaの残り時間の中で終えられるか
+ *
+ * 学習ポイント：
+ * - 最も長くかかる場合(すべての送信がタイムアウトし、待ち時間も上限)で判断する
+ *   (始めた配信を途中で止めると、届いたかどうかわからない送信が残る)
+ *
+ * @param options - 配信の設定
+ * @param publishContext - 呼び出しごとの発行の状況
+ * @returns 配信を始めてよいか
+ */
+function hasTimeToDeliver(options: WebhookDeliveryOptions, publishContext: PublishContext): boolean {
+    const remainingMs = publishContext.getRemainingTimeInMillis?.();
+    if (remainingMs === undefined) {
+        return true;
+    }
+    const maxDeliveryMs = options.maxAttempts * options.timeoutMs + (options.maxAttempts - 1) * options.maxDelayMs;
+    return remainingMs - maxDeliveryMs >= options.minRemainingTimeMs;
+}
+
+/**
+ * 配信に成功したステータスコード(2xx)か
+ */
+function isSuccessStatus(statusCode: number | undefined): boolean {
+    return statusCode !== undefined && statusCode >= 200 && statusCode < 300;
+}
+
+/**
+ * 指定したミリ秒だけ待つ
+ */
+function defaultSleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
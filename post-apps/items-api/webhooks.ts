@@ -0,0 +1,675 @@
+/**
+ * Webhook(変更の通知先)の登録と署名(教育用)
+ *
+ * === このファイルで学べること ===
+ * 1. HMAC-SHA256 による署名(受け取った側が送信元と改ざんの有無を確認できる)
+ * 2. 通知先のURLの検証(SSRF: サーバーから内部のネットワークにリクエストさせる攻撃への対策)
+ * 3. 保存先をインターフェースにして、DynamoDB とインメモリを差し替える方法(repository.ts と同じ考え方)
+ *
+ * 保存するレコードの例：
+ * {
+ *   "webhookId": "3f2a9c1b7e4d8a60",
+ *   "url": "https://partner.example.com/hooks/items",
+ *   "eventTypes": ["item.created", "item.updated"],
+ *   "secret": "whsec_...",
+ *   "status": "active",
+ *   "consecutiveFailures": 0,
+ *   "createdAt": "2025-10-21T10:30:00.000Z",
+ *   "createdBy": "admin-1",
+ *   "tenantId": "acme"
+ * }
+ *
+ * 署名ヘッダーの例：
+ * X-Items-Signature: t=1761042600,v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+ * - t: 送信した時刻(UNIX時間の秒)。古い署名の再利用(リプレイ攻撃)を防ぐ
+ * - v1: 「t.ボディ」の HMAC-SHA256(16進数)
+ */
+
+import {
+    DynamoDBDocumentClient,
+    PutCommand,
+    GetCommand,
+    UpdateCommand,
+    DeleteCommand,
+    ScanCommand,
+    QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+import { ItemEventType } from './events';
+import { DEFAULT_TENANT_ID, InvalidCursorError } from './repository';
+
+// ========================================
+// 型定義
+// ========================================
+/**
+ * Webhook の保存先の設定
+ */
+export interface WebhookOptions {
+    /** 通知先を保存するテーブル名(パーティションキー webhookId) */
+    tableName: string;
+    /** 配信の記録を保存するテーブル名(パーティションキー webhookId、ソートキー deliveryId) */
+    deliveryTableName: string;
+}
+
+/**
+ * 通知先の状態
+ *
+ * - active: 配信する
+ * - disabled: 失敗が続いたため配信を止めた
+ */
+export type WebhookStatus = 'active' | 'disabled';
+
+/**
+ * 通知先の情報(クライアントに返してよい項目だけ)
+ */
+export interface Webhook {
+    webhookId: string;
+    url: string;
+    /** 通知するイベントの種類 */
+    eventTypes: ItemEventType[];
+    description?: string;
+    status: WebhookStatus;
+    /** 連続して失敗した配信の数(成功すると0に戻る) */
+    consecutiveFailures: number;
+    createdAt: string;
+    createdBy: string;
+    /** 通知するイベントのテナント(登録した管理者のテナント。ない古い通知先はデフォルトのテナント) */
+    tenantId?: string;
+    lastDeliveryAt?: string;
+    disabledAt?: string;
+}
+
+/**
+ * 保存されている通知先のレコード
+ */
+export interface WebhookRecord extends Webhook {
+    /** 署名に使う共有シークレット(登録時のレスポンスでしか返さない) */
+    secret: string;
+}
+
+/**
+ * 1回の送信の結果
+ */
+export interface WebhookDeliveryAttempt {
+    attempt: number;
+    attemptedAt: string;
+    /** 通知先が返したステータスコード(接続できなかった場合はなし) */
+    statusCode?: number;
+    /** 接続エラーやタイムアウトの内容 */
+    error?: string;
+    durationMs: number;
+}
+
+/**
+ * 配信の記録(1つのイベントを1つの通知先に届けた結果)
+ */
+export interface WebhookDelivery {
+    webhookId: string;
+    /** 配信のID(作成した順に並ぶ文字列) */
+    deliveryId: string;
+    eventId: string;
+    eventType: ItemEventType;
+    status: 'succeeded' | 'failed';
+    attempts: WebhookDeliveryAttempt[];
+    createdAt: string;
+    /** TTLで削除する時刻(UNIX時間の秒) */
+    expiresAt: number;
+}
+
+/**
+ * 配信の記録の取得の結果(1ページ分)
+ */
+export interface WebhookDeliveryPage {
+    deliveries: WebhookDelivery[];
+    nextCursor: string | null;
+}
+
+/**
+ * 通知先と配信の記録の保存先
+ */
+export interface WebhookStore {
+    /** 通知先を保存する(同じIDがある場合は ConditionalCheckFailedException) */
+    create(webhook: WebhookRecord): Promise<void>;
+    get(webhookId: string): Promise<WebhookRecord | undefined>;
+    /** 通知先の一覧(作成日時の順)。tenantId を省略した場合はすべてのテナントの通知先 */
+    list(tenantId?: string): Promise<WebhookRecord[]>;
+    /** 通知先を削除する。存在しなかった場合は false */
+    delete(webhookId: string): Promise<boolean>;
+    /**
+     * 配信の結果を通知先に記録する
+     *
+     * @param webhookId - 通知先のID
+     * @param succeeded - 配信に成功したか
+     * @param disableAfterFailures - この回数だけ続けて失敗したら disabled にする
+     * @param now - 現在時刻(ISO 8601)
+     * @returns 更新後の通知先。削除されていた場合はundefined
+     */
+    recordResult(
+        webhookId: string,
+        succeeded: boolean,
+        disableAfterFailures: number,
+        now: string
+    ): Promise<WebhookRecord | undefined>;
+    putDelivery(delivery: WebhookDelivery): Promise<void>;
+    /** 配信の記録を新しい順に取得する */
+    listDeliveries(webhookId: string, limit: number, cursor?: string): Promise<WebhookDeliveryPage>;
+}
+
+// ========================================
+// 定数
+// ========================================
+/**
+ * 通知できるイベントの種類
+ */
+export const WEBHOOK_EVENT_TYPES: readonly ItemEventType[] = ['item.created', 'item.updated', 'item.deleted'];
+
+/**
+ * 送信するリクエストのヘッダー名
+ */
+export const WEBHOOK_HEADERS = {
+    SIGNATURE: 'X-Items-Signature',
+    EVENT: 'X-Items-Event',
+    DELIVERY: 'X-Items-Delivery',
+} as const;
+
+/**
+ * 共有シークレットの長さの範囲(クライアントが指定する場合)
+ */
+export const MIN_WEBHOOK_SECRET_LENGTH = 16;
+export const MAX_WEBHOOK_SECRET_LENGTH = 256;
+
+/**
+ * 通知先のURLと説明の最大長
+ */
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 256;
+
+/**
+ * 配信の記録を残す期間(30日)
+ */
+export const WEBHOOK_DELIVERY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * テナントごとの通知先を探すインデックス(template.yaml の WebhooksTable の ByTenant)
+ */
+const TENANT_INDEX_NAME = 'ByTenant';
+
+// ========================================
+// 作成
+// ========================================
+/**
+ * 通知先のIDを作成する(16進数16文字)
+ */
+export function createWebhookId(): string {
+    return randomBytes(8).toString('hex');
+}
+
+/**
+ * 共有シークレットを作成する
+ *
+ * 学習ポイント：
+ * - 署名に使うため、APIキーと違いハッシュ値ではなくそのまま保存する必要がある
+ */
+export function createWebhookSecret(): string {
+    return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * 配信のIDを作成する
+ *
+ * 学習ポイント：
+ * - 先頭を時刻(36進数・桁数固定)にすると、文字列として並べ替えるだけで作成した順になる
+ *   (DynamoDB のソートキーにして、新しい順に Query できる)
+ *
+ * @param now - 現在時刻(UNIX時間のミリ秒)
+ * @returns 配信のID
+ */
+export function createDeliveryId(now: number = Date.now()): string {
+    return `${now.toString(36).padStart(9, '0')}${randomBytes(6).toString('hex')}`;
+}
+
+/**
+ * クライアントに返してよい項目だけにする(secret を除く)
+ */
+export function toWebhook(record: WebhookRecord): Webhook {
+    const { secret: _secret, ...webhook } = record;
+    return webhook;
+}
+
+/**
+ * 通知先がテナントのものか
+ *
+ * 学習ポイント：
+ * - tenantId のない古い通知先は、デフォルトのテナントのものとして扱う
+ *
+ * @param webhook - 通知先
+ * @param tenantId - テナントID
+ * @returns テナントの通知先か
+ */
+export function belongsToTenant(webhook: Webhook, tenantId: string): boolean {
+    return (webhook.tenantId ?? DEFAULT_TENANT_ID) === tenantId;
+}
+
+// ========================================
+// 署名
+// ========================================
+/**
+ * ボディに署名し、X-Items-Signature ヘッダーの値を作成する
+ *
+ * @param secret - 共有シークレット
+ * @param body - 送信するボディ(JSON文字列)
+ * @param timestamp - 送信する時刻(UNIX時間の秒)
+ * @returns ヘッダーの値(t=...,v1=...)
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * 受け取った署名を検証する(通知を受け取る側の実装例。テストでも使う)
+ *
+ * 学習ポイント：
+ * - 署名の比較には timingSafeEqual を使い、比較にかかる時間から値を推測されないようにする
+ * - 時刻が許容範囲より古い(または未来の)署名は、盗んだリクエストの再送として拒否する
+ *
+ * @param secret - 共有シークレット
+ * @param header - X-Items-Signature ヘッダーの値
+ * @param body - 受け取ったボディ(パースする前の文字列)
+ * @param toleranceSeconds - 時刻のずれの許容範囲(秒)
+ * @param now - 現在時刻(UNIX時間の秒)
+ * @returns 正しい署名か
+ */
+export function verifyWebhookSignature(
+    secret: string,
+    header: string,
+    body: string,
+    toleranceSeconds = 300,
+    now: number = Math.floor(Date.now() / 1000)
+): boolean {
+    const parts = Object.fromEntries(
+        header.split(',').map((part) => {
+            const index = part.indexOf('=');
+            return [part.slice(0, index).trim(), part.slice(index + 1).trim()];
+        })
+    );
+    const timestamp = Number(parts.t);
+    if (!Number.isInteger(timestamp) || !/^[0-9a-f]{64}$/.test(parts.v1 ?? '')) {
+        return false;
+    }
+    if (Math.abs(now - timestamp) > toleranceSeconds) {
+        return false;
+    }
+
+    const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+    return timingSafeEqual(expected, Buffer.from(parts.v1, 'hex'));
+}
+
+// ========================================
+// URLの検証
+// ========================================
+/**
+ * 通知先のURLを検証する
+ *
+ * 学習ポイント：
+ * - サーバーが任意のURLにリクエストを送る機能は、内部のネットワーク(169.254.169.254 のメタデータなど)を
+ *   攻撃する踏み台になりうる(SSRF)。https と公開されたホスト名だけを許可する
+ * - ホスト名がDNSで内部のアドレスに解決される場合までは防げないため、VPCの外で実行するなどの対策と組み合わせる
+ * - ローカル開発やテストでは allowInsecure で http や localhost を許可する
+ *
+ * @param value - 通知先のURL
+ * @param allowInsecure - http と内部のアドレスを許可するか
+ * @returns エラーメッセージ。問題がなければundefined
+ */
+export function validateWebhookUrl(value: unknown, allowInsecure = false): string | undefined {
+    if (typeof value !== 'string' || value.length > MAX_WEBHOOK_URL_LENGTH) {
+        return `url must be a string of at most ${MAX_WEBHOOK_URL_LENGTH} characters`;
+    }
+
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        return 'url must be an absolute URL';
+    }
+
+    if (url.protocol !== 'https:' && !(allowInsecure && url.protocol === 'http:')) {
+        return 'url must use https';
+    }
+    if (url.username || url.password) {
+        return 'url must not contain credentials';
+    }
+    if (!allowInsecure && isInternalHost(url.hostname)) {
+        return 'url must not point to a private or local address';
+    }
+    return undefined;
+}
+
+// ========================================
+// DynamoDB の保存先
+// ========================================
+/**
+ * DynamoDB を使った保存先を作成する
+ *
+ * @param client - DynamoDB DocumentClient
+ * @param options - 保存先の設定
+ * @returns 保存先
+ */
+export function createDynamoDBWebhookStore(client: DynamoDBDocumentClient, options: WebhookOptions): WebhookStore {
+    const { tableName, deliveryTableName } = options;
+
+    return {
+        async create(webhook) {
+            await client.send(
+                new PutCommand({
+                    TableName: tableName,
+                    Item: webhook,
+                    ConditionExpression: 'attribute_not_exists(webhookId)',
+                })
+            );
+        },
+
+        async get(webhookId) {
+            const response = await client.send(
+                new GetCommand({
+                    TableName: tableName,
+                    Key: { webhookId },
+                })
+            );
+            return response.Item as WebhookRecord | undefined;
+        },
+
+        /**
+         * 学習ポイント：
+         * - tenantId を指定した場合は ByTenant インデックスを Query する(api-keys.ts の listApiKeys と同じ)
+         * - tenantId のない古い通知先はインデックスに入らないため、デフォルトのテナントの場合だけ Scan で加える
+         * - tenantId を省略した場合(配信するとき)は Scan で全件を読む
+         */
+        async list(tenantId) {
+            const records = await readAllPages<WebhookRecord>((exclusiveStartKey) =>
+                tenantId === undefined
+                    ? client.send(new ScanCommand({ TableName: tableName, ExclusiveStartKey: exclusiveStartKey }))
+                    : client.send(
+                          new QueryCommand({
+                              TableName: tableName,
+                              IndexName: TENANT_INDEX_NAME,
+                              KeyConditionExpression: 'tenantId = :tenantId',
+                              ExpressionAttributeValues: { ':tenantId': tenantId },
+                              ExclusiveStartKey: exclusiveStartKey,
+                          })
+                      )
+            );
+            if (tenantId === DEFAULT_TENANT_ID) {
+                const legacyRecords = await readAllPages<WebhookRecord>((exclusiveStartKey) =>
+                    client.send(
+                        new ScanCommand({
+                            TableName: tableName,
+                            FilterExpression: 'attribute_not_exists(tenantId)',
+                            ExclusiveStartKey: exclusiveStartKey,
+                        })
+                    )
+                );
+                records.push(...legacyRecords);
+            }
+
+            return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        },
+
+        async delete(webhookId) {
+            const response = await client.send(
+                new DeleteCommand({
+                    TableName: tableName,
+                    Key: { webhookId },
+                    ReturnValues: 'ALL_OLD',
+                })
+            );
+            return response.Attributes !== undefined;
+        },
+
+        /**
+         * 学習ポイント：
+         * - 失敗の回数は ADD で増やす(読んでから書くと、同時の配信で回数がずれる)
+         * - disabled にするのは active の場合だけ(条件付き書き込み)なので、disabledAt は最初の1回だけ記録される
+         */
+        async recordResult(webhookId, succeeded, disableAfterFailures, now) {
+            let updated: WebhookRecord;
+            try {
+                const response = await client.send(
+                    new UpdateCommand({
+                        TableName: tableName,
+                        Key: { webhookId },
+                        UpdateExpression: succeeded
+                            ? 'SET consecutiveFailures = :zero, lastDeliveryAt = :now'
+                            : 'SET lastDeliveryAt = :now ADD consecutiveFailures :one',
+                        ConditionExpression: 'attribute_exists(webhookId)',
+                        ExpressionAttributeValues: succeeded ? { ':zero': 0, ':now': now } : { ':one': 1, ':now': now },
+                        ReturnValues: 'ALL_NEW',
+                    })
+                );
+                updated = response.Attributes as WebhookRecord;
+            } catch (err) {
+                if (isConditionalCheckFailed(err)) {
+                    return undefined;
+                }
+                throw err;
+            }
+
+            if (updated.status !== 'active' || updated.consecutiveFailures < disableAfterFailures) {
+                return updated;
+            }
+            try {
+                const response = await client.send(
+                    new UpdateCommand({
+                        TableName: tableName,
+                        Key: { webhookId },
+                        UpdateExpression: 'SET #status = :disabled, disabledAt = :now',
+                        ConditionExpression: '#status = :active',
+                        ExpressionAttributeNames: { '#status': 'status' },
+                        ExpressionAttributeValues: { ':disabled': 'disabled', ':active': 'active', ':now': now },
+                        ReturnValues: 'ALL_NEW',
+                    })
+                );
+                return response.Attributes as WebhookRecord;
+            } catch (err) {
+                if (isConditionalCheckFailed(err)) {
+                    return { ...updated, status: 'disabled' };
+                }
+                throw err;
+            }
+        },
+
+        async putDelivery(delivery) {
+            await client.send(
+                new PutCommand({
+                    TableName: deliveryTableName,
+                    Item: delivery,
+                })
+            );
+        },
+
+        async listDeliveries(webhookId, limit, cursor) {
+            const exclusiveStartKey =
+                cursor === undefined ? undefined : { webhookId, deliveryId: decodeDeliveryCursor(cursor) };
+            const response = await client.send(
+                new QueryCommand({
+                    TableName: deliveryTableName,
+                    KeyConditionExpression: 'webhookId = :webhookId',
+                    ExpressionAttributeValues: { ':webhookId': webhookId },
+                    ScanIndexForward: false,
+                    Limit: limit,
+                    ExclusiveStartKey: exclusiveStartKey,
+                })
+            );
+            const deliveries = (response.Items ?? []) as WebhookDelivery[];
+            return {
+                deliveries,
+                nextCursor: response.LastEvaluatedKey ? encodeDeliveryCursor(response.LastEvaluatedKey.deliveryId) : null,
+            };
+        },
+    };
+}
+
+// ========================================
+// インメモリの保存先(ローカル開発・テスト用)
+// ========================================
+/**
+ * メモリ上に保存する保存先を作成する
+ *
+ * @param initialWebhooks - 最初に保存しておく通知先
+ * @returns 保存先
+ */
+export function createInMemoryWebhookStore(initialWebhooks: WebhookRecord[] = []): WebhookStore {
+    const webhooks = new Map(initialWebhooks.map((webhook) => [webhook.webhookId, structuredClone(webhook)]));
+    const deliveries: WebhookDelivery[] = [];
+
+    return {
+        async create(webhook) {
+            if (webhooks.has(webhook.webhookId)) {
+                throw Object.assign(new Error('The conditional request failed'), {
+                    name: 'ConditionalCheckFailedException',
+                });
+            }
+            webhooks.set(webhook.webhookId, structuredClone(webhook));
+        },
+
+        async get(webhookId) {
+            const webhook = webhooks.get(webhookId);
+            return webhook && structuredClone(webhook);
+        },
+
+        async list(tenantId) {
+            return [...webhooks.values()]
+                .filter((webhook) => tenantId === undefined || belongsToTenant(webhook, tenantId))
+                .map((webhook) => structuredClone(webhook))
+                .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        },
+
+        async delete(webhookId) {
+            return webhooks.delete(webhookId);
+        },
+
+        async recordResult(webhookId, succeeded, disableAfterFailures, now) {
+            const webhook = webhooks.get(webhookId);
+            if (!webhook) {
+                return undefined;
+            }
+            webhook.lastDeliveryAt = now;
+            webhook.consecutiveFailures = succeeded ? 0 : webhook.consecutiveFailures + 1;
+            if (webhook.status === 'active' && webhook.consecutiveFailures >= disableAfterFailures) {
+                webhook.status = 'disabled';
+                webhook.disabledAt = now;
+            }
+            return structuredClone(webhook);
+        },
+
+        async putDelivery(delivery) {
+            deliveries.push(structuredClone(delivery));
+        },
+
+        async listDeliveries(webhookId, limit, cursor) {
+            const after = cursor === undefined ? undefined : decodeDeliveryCursor(cursor);
+            const matched = deliveries
+                .filter((delivery) => delivery.webhookId === webhookId)
+                .filter((delivery) => after === undefined || delivery.deliveryId < after)
+                .sort((a, b) => b.deliveryId.localeCompare(a.deliveryId));
+            const page = matched.slice(0, limit);
+            return {
+                deliveries: page.map((delivery) => structuredClone(delivery)),
+                nextCursor: matched.length > limit ? encodeDeliveryCursor(page[page.length - 1].deliveryId) : null,
+            };
+        },
+    };
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+/**
+ * Scan / Query の結果を、LastEvaluatedKey がなくなるまで続けて読む
+ */
+async function readAllPages<T>(
+    readPage: (
+        exclusiveStartKey: Record<string, any> | undefined
+    ) => Promise<{ Items?: Record<string, any>[]; LastEvaluatedKey?: Record<string, any> }>
+): Promise<T[]> {
+    const records: T[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+        const response = await readPage(exclusiveStartKey);
+        records.push(...((response.Items ?? []) as T[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return records;
+}
+
+/**
+ * 最後に返した配信のIDをカーソル文字列に変換する
+ */
+function encodeDeliveryCursor(deliveryId: string): string {
+    return Buffer.from(JSON.stringify({ deliveryId }), 'utf8').toString('base64url');
+}
+
+/**
+ * カーソル文字列を配信のIDに戻す
+ *
+ * @throws InvalidCursorError - 不正なカーソルの場合
+ */
+function decodeDeliveryCursor(cursor: string): string {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new InvalidCursorError();
+    }
+
+    const deliveryId = (decoded as { deliveryId?: unknown } | null)?.deliveryId;
+    if (typeof deliveryId !== 'string' || !/^[0-9a-z]{21}$/.test(deliveryId)) {
+        throw new InvalidCursorError();
+    }
+    return deliveryId;
+}
+
+/**
+ * 内部のネットワークやこのマシンを指すホスト名か
+ *
+ * 学習ポイント：
+ * - localhost、プライベートアドレス(10.0.0.0/8 など)、リンクローカル(169.254.0.0/16)、IPv6 のループバックなどを拒否する
+ */
+function isInternalHost(hostname: string): boolean {
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+        return true;
+    }
+
+    if (isIP(host) === 4) {
+        const [a, b] = host.split('.').map(Number);
+        return (
+            a === 0 ||
+            a === 10 ||
+            a === 127 ||
+            (a === 100 && b >= 64 && b <= 127) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168)
+        );
+    }
+    if (isIP(host) === 6) {
+        return (
+            host === '::' ||
+            host === '::1' ||
+            host.startsWith('fc') ||
+            host.startsWith('fd') ||
+            host.startsWith('fe80') ||
+            host.startsWith('::ffff:')
+        );
+    }
+    return false;
+}
+
+/**
+ * 条件付き書き込みの失敗か
+ */
+function isConditionalCheckFailed(err: unknown): boolean {
+    return (err as { name?: string } | null)?.name === 'ConditionalCheckFailedException';
+}
@@ -13,6 +13,9 @@
 #   -t <秒>    タイムアウト時間 (デフォルト: 10)
 #   -o <FILE>  結果を出力するファイル
 #
+# 環境変数:
+#   API_KEY    X-Api-Key ヘッダーに付けるAPIキー(レート制限の確認にも使える)
+#
 # 例:
 #   ./advanced_load_test.sh https://xxxxx.execute-api.us-east-1.amazonaws.com/Prod
 #   ./advanced_load_test.sh https://xxxxx.execute-api.us-east-1.amazonaws.com/Prod -n 200 -c 20
@@ -78,6 +81,12 @@ done
 
 ITEMS_URL="${API_ENDPOINT}/items"
 
+# 認証ヘッダー(環境変数 API_KEY を指定すると X-Api-Key ヘッダーを付ける)
+AUTH_HEADERS=()
+if [ -n "${API_KEY:-}" ]; then
+    AUTH_HEADERS=(-H "X-Api-Key: ${API_KEY}")
+fi
+
 # URLの妥当性チェック
 if [[ ! "$API_ENDPOINT" =~ ^https?:// ]]; then
     echo -e "${RED}エラー: 無効なURL形式です${NC}"
@@ -102,7 +111,7 @@ echo ""
 # 接続テスト
 #######################################
 echo -e "${YELLOW}接続テスト中...${NC}"
-HTTP_CODE=$(curl -s -o /dev/null -w "%{http_code}" -m "$TIMEOUT" -X POST "${ITEMS_URL}" \
+HTTP_CODE=$(curl -s "${AUTH_HEADERS[@]}" -o /dev/null -w "%{http_code}" -m "$TIMEOUT" -X POST "${ITEMS_URL}" \
     -H "Content-Type: application/json" \
     -d '{"name": "connection_test", "price": 1}')
 
@@ -141,7 +150,7 @@ for ((batch=0; batch<$NUM_REQUESTS; batch+=CONCURRENCY)); do
     for ((i=batch; i<batch_end; i++)); do
         (
             req_start=$(date +%s.%N)
-            response=$(curl -s -w "\n%{http_code}\n%{time_total}" -m "$TIMEOUT" \
+            response=$(curl -s "${AUTH_HEADERS[@]}" -w "\n%{http_code}\n%{time_total}" -m "$TIMEOUT" \
                 -X POST "${ITEMS_URL}" \
                 -H "Content-Type: application/json" \
                 -d "{\"name\": \"load_test_${i}\", \"price\": $((i * 10))}" 2>&1)
@@ -5,6 +5,7 @@
 # 
 # 使い方:
 #   ./load_test.sh <API_ENDPOINT>
+#   API_KEY=ik_... ./load_test.sh <API_ENDPOINT>   # APIキーで認証する場合
 #
 # 例:
 #   ./load_test.sh https://xxxxx.execute-api.us-east-1.amazonaws.com/Prod
@@ -36,6 +37,12 @@ fi
 API_ENDPOINT="$1"
 ITEMS_URL="${API_ENDPOINT}/items"
 
+# 認証ヘッダー(環境変数 API_KEY を指定すると X-Api-Key ヘッダーを付ける)
+AUTH_HEADERS=()
+if [ -n "${API_KEY:-}" ]; then
+    AUTH_HEADERS=(-H "X-Api-Key: ${API_KEY}")
+fi
+
 # URLの妥当性チェック
 if [[ ! "$API_ENDPOINT" =~ ^https?:// ]]; then
     echo -e "${RED}エラー: 無効なURL形式です (http:// または https:// で始まる必要があります)${NC}"
@@ -52,7 +59,7 @@ echo ""
 # 1. 接続テスト
 #######################################
 echo -e "${YELLOW}[1/6] 接続テスト...${NC}"
-HTTP_CODE=$(curl -s -o /dev/null -w "%{http_code}" -X POST "${ITEMS_URL}" \
+HTTP_CODE=$(curl -s "${AUTH_HEADERS[@]}" -o /dev/null -w "%{http_code}" -X POST "${ITEMS_URL}" \
     -H "Content-Type: application/json" \
     -d '{"name": "connection_test", "price": 1}')
 
@@ -70,7 +77,7 @@ echo ""
 echo -e "${YELLOW}[2/6] 基本機能テスト (POST → GET)...${NC}"
 
 # POSTリクエスト
-RESPONSE=$(curl -s -X POST "${ITEMS_URL}" \
+RESPONSE=$(curl -s "${AUTH_HEADERS[@]}" -X POST "${ITEMS_URL}" \
     -H "Content-Type: application/json" \
     -d '{"name": "テスト商品", "price": 1000}')
 
@@ -85,7 +92,7 @@ fi
 echo -e "${GREEN}✓ POST成功 (ID: ${ITEM_ID})${NC}"
 
 # GETリクエスト
-GET_RESPONSE=$(curl -s "${ITEMS_URL}/${ITEM_ID}")
+GET_RESPONSE=$(curl -s "${AUTH_HEADERS[@]}" "${ITEMS_URL}/${ITEM_ID}")
 GET_NAME=$(echo "$GET_RESPONSE" | jq -r '.name')
 
 if [ "$GET_NAME" == "テスト商品" ]; then
@@ -107,7 +114,7 @@ MAX_TIME=0
 
 for i in {1..10}; do
     START=$(date +%s.%N)
-    curl -s -X POST "${ITEMS_URL}" \
+    curl -s "${AUTH_HEADERS[@]}" -X POST "${ITEMS_URL}" \
         -H "Content-Type: application/json" \
         -d "{\"name\": \"sequential_test_${i}\", \"price\": 100}" > /dev/null
     END=$(date +%s.%N)
@@ -140,7 +147,7 @@ echo -e "${YELLOW}[4/6] 並列リクエストテスト (10並列)...${NC}"
 
 START_PARALLEL=$(date +%s.%N)
 for i in {1..10}; do
-    curl -s -X POST "${ITEMS_URL}" \
+    curl -s "${AUTH_HEADERS[@]}" -X POST "${ITEMS_URL}" \
         -H "Content-Type: application/json" \
         -d "{\"name\": \"parallel_test_${i}\", \"price\": 100}" > /dev/null &
 done
@@ -162,7 +169,7 @@ echo -e "${YELLOW}[5/6] 高負荷テスト (50並列)...${NC}"
 
 START_HEAVY=$(date +%s.%N)
 for i in {1..50}; do
-    curl -s -X POST "${ITEMS_URL}" \
+    curl -s "${AUTH_HEADERS[@]}" -X POST "${ITEMS_URL}" \
         -H "Content-Type: application/json" \
         -d "{\"name\": \"heavy_test_${i}\", \"price\": 100}" > /dev/null &
 done
@@ -183,7 +190,7 @@ echo ""
 echo -e "${YELLOW}[6/6] エラーハンドリングテスト...${NC}"
 
 # 存在しないIDでGET (404期待)
-HTTP_404=$(curl -s -o /dev/null -w "%{http_code}" "${ITEMS_URL}/non-existent-id")
+HTTP_404=$(curl -s "${AUTH_HEADERS[@]}" -o /dev/null -w "%{http_code}" "${ITEMS_URL}/non-existent-id")
 if [ "$HTTP_404" == "404" ]; then
     echo -e "${GREEN}✓ 404エラーハンドリング正常${NC}"
 else
@@ -191,7 +198,7 @@ else
 fi
 
 # 不正なJSONでPOST (400期待)
-HTTP_400=$(curl -s -o /dev/null -w "%{http_code}" -X POST "${ITEMS_URL}" \
+HTTP_400=$(curl -s "${AUTH_HEADERS[@]}" -o /dev/null -w "%{http_code}" -X POST "${ITEMS_URL}" \
     -H "Content-Type: application/json" \
     -d 'invalid json')
 if [ "$HTTP_400" == "400" ]; then
@@ -201,7 +208,7 @@ else
 fi
 
 # ボディなしでPOST (400期待)
-HTTP_400_EMPTY=$(curl -s -o /dev/null -w "%{http_code}" -X POST "${ITEMS_URL}" \
+HTTP_400_EMPTY=$(curl -s "${AUTH_HEADERS[@]}" -o /dev/null -w "%{http_code}" -X POST "${ITEMS_URL}" \
     -H "Content-Type: application/json")
 if [ "$HTTP_400_EMPTY" == "400" ]; then
     echo -e "${GREEN}✓ 空ボディエラーハンドリング正常${NC}"